@@ -12,10 +12,29 @@ export interface AppConfig extends PlatformConfig {
     maxReposPerUser: number;
     /** Maximum organizations a user can own */
     maxOrgsPerUser: number;
+    /** Largest push accepted over HTTP or SSH, in bytes */
+    maxPushBytes: number;
+    /** Let any user mirror local paths and file:// URLs, not only site admins */
+    allowLocalMirrors: boolean;
+    /** Let webhooks, and mirrors of any user, reach hosts on loopback, link-local or private addresses */
+    allowInternalTargets: boolean;
     /** Data directory for all persistent storage */
     dataDir: string;
     /** Whether Redis is enabled */
     redisEnabled: boolean;
+    /** Key for encrypting stored credentials and secrets */
+    secretsKey: string;
+    /** Base URL clusters reach the platform at, e.g. to clone repositories */
+    publicUrl: string;
+    /** Built-in SSH server for git clone/push */
+    ssh: {
+        enabled: boolean;
+        port: number;
+        /** Host name shown in SSH clone URLs */
+        domain: string;
+        /** Ed25519 host key, generated on first start when missing */
+        hostKeyPath: string;
+    };
     /** OAuth provider credentials */
     oauth: {
         github: { clientId: string; clientSecret: string };
@@ -101,14 +120,26 @@ function buildConfig(): AppConfig {
     }
 
     const base = loadConfig(merged);
+    const dataDir = merged.DATA_DIR || "./data";
 
     return {
         ...base,
         repoStoragePath: merged.REPO_STORAGE_PATH || "./data/repos",
         maxReposPerUser: parseInt(merged.MAX_REPOS_PER_USER || "50", 10),
         maxOrgsPerUser: parseInt(merged.MAX_ORGS_PER_USER || "10", 10),
-        dataDir: merged.DATA_DIR || "./data",
+        maxPushBytes: parseInt(merged.MAX_PUSH_BYTES || String(512 * 1024 * 1024), 10),
+        allowLocalMirrors: merged.MIRROR_ALLOW_LOCAL === "true",
+        allowInternalTargets: merged.OUTBOUND_ALLOW_INTERNAL === "true",
+        dataDir,
         redisEnabled: merged.REDIS_ENABLED === "true",
+        secretsKey: merged.SECRETS_ENCRYPTION_KEY || base.jwt.secret,
+        publicUrl: (merged.PUBLIC_URL || `http://${base.host === "0.0.0.0" ? "localhost" : base.host}:${base.port}`).replace(/\/+$/, ""),
+        ssh: {
+            enabled: merged.SSH_ENABLED !== "false",
+            port: parseInt(merged.SSH_PORT || "2222", 10),
+            domain: merged.SSH_DOMAIN || (base.host === "0.0.0.0" ? "localhost" : base.host),
+            hostKeyPath: merged.SSH_HOST_KEY_PATH || resolve(dataDir, "ssh", "host_ed25519_key"),
+        },
         oauth: {
             github: {
                 clientId: merged.OAUTH_GITHUB_CLIENT_ID || "",
@@ -43,11 +43,21 @@ export const ENV_SCHEMA: EnvVarDef[] = [
     { name: "JWT_SECRET", description: "Secret key for signing JWTs", defaultValue: "dev-secret-change-me", required: false, type: "string" },
     { name: "JWT_EXPIRES_IN", description: "JWT token lifetime", defaultValue: "7d", required: false, type: "string" },
     { name: "CSRF_SECRET", description: "CSRF token secret", defaultValue: "dev-csrf-secret", required: false, type: "string" },
+    { name: "SECRETS_ENCRYPTION_KEY", description: "Key for encrypting stored credentials (defaults to JWT_SECRET)", defaultValue: "", required: false, type: "string" },
 
     // ── Storage / Limits ──────────────────────────────
     { name: "GIT_STORAGE_PATH", description: "Path for bare git repositories", defaultValue: "./data/repos", required: false, type: "string" },
     { name: "MAX_REPOS_PER_USER", description: "Maximum repos allowed per user", defaultValue: "50", required: false, type: "number" },
     { name: "MAX_ORGS_PER_USER", description: "Maximum orgs a user can own", defaultValue: "10", required: false, type: "number" },
+    { name: "MIRROR_ALLOW_LOCAL", description: "Let any user mirror local paths and file:// URLs (site admins always can)", defaultValue: "false", required: false, type: "boolean" },
+    { name: "OUTBOUND_ALLOW_INTERNAL", description: "Let webhooks and mirrors reach hosts on loopback, link-local or private addresses (site admins can always mirror them)", defaultValue: "false", required: false, type: "boolean" },
+    { name: "MAX_PUSH_BYTES", description: "Largest push accepted over HTTP or SSH, in bytes", defaultValue: "536870912", required: false, type: "number" },
+
+    // ── SSH ───────────────────────────────────────────
+    { name: "SSH_ENABLED", description: "Serve git over the built-in SSH server", defaultValue: "true", required: false, type: "boolean" },
+    { name: "SSH_PORT", description: "SSH server port", defaultValue: "2222", required: false, type: "number" },
+    { name: "SSH_DOMAIN", description: "Host name used in SSH clone URLs (defaults to HOST)", defaultValue: "", required: false, type: "string" },
+    { name: "SSH_HOST_KEY_PATH", description: "Path of the SSH host key (defaults to <DATA_DIR>/ssh/host_ed25519_key)", defaultValue: "", required: false, type: "string" },
 
     // ── OAuth: GitHub ─────────────────────────────────
     { name: "OAUTH_GITHUB_CLIENT_ID", description: "GitHub OAuth app client ID", defaultValue: "", required: false, type: "string" },
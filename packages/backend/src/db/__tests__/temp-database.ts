@@ -0,0 +1,33 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { closeDb } from "../connection.js";
+import { resetConfig } from "../../config/app-config.js";
+import { runMigrations } from "../migrations.js";
+
+/**
+ * Point the platform at a fresh, migrated database in a new temporary
+ * directory, which also serves as the data directory. Returns the
+ * directory; pass it to `removeTempDatabase` when the test is done.
+ */
+export function createTempDatabase(prefix: string): string {
+  const tempDir = mkdtempSync(join(tmpdir(), prefix));
+  process.env.SQLITE_PATH = join(tempDir, "platform.sqlite");
+  process.env.DATA_DIR = tempDir;
+  resetConfig();
+  closeDb();
+  runMigrations();
+  return tempDir;
+}
+
+/**
+ * Close the database made by `createTempDatabase`, restore the
+ * configuration and delete the directory.
+ */
+export function removeTempDatabase(tempDir: string): void {
+  closeDb();
+  resetConfig();
+  delete process.env.SQLITE_PATH;
+  delete process.env.DATA_DIR;
+  rmSync(tempDir, { recursive: true, force: true });
+}
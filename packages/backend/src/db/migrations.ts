@@ -867,6 +867,742 @@ const MIGRATIONS: Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_analytics_rollups_daily_repo ON analytics_rollups_daily(repository_id);
     `,
   },
+  {
+    version: 30,
+    description: "Create project_branch_protection and pr_status_checks tables",
+    sql: `
+      CREATE TABLE IF NOT EXISTS project_branch_protection (
+        project_id                      TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+        require_pull_request            INTEGER NOT NULL DEFAULT 1,
+        required_approving_review_count INTEGER NOT NULL DEFAULT 0,
+        require_status_checks           INTEGER NOT NULL DEFAULT 0,
+        required_status_checks          TEXT NOT NULL DEFAULT '[]',
+        enforce_admins                  INTEGER NOT NULL DEFAULT 0,
+        require_linear_history          INTEGER NOT NULL DEFAULT 0,
+        created_at                      TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at                      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS pr_status_checks (
+        id         TEXT PRIMARY KEY,
+        pr_id      TEXT NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+        check_name TEXT NOT NULL,
+        status     TEXT NOT NULL DEFAULT 'pending',
+        details    TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(pr_id, check_name)
+      );
+      CREATE INDEX IF NOT EXISTS idx_pr_status_checks_pr ON pr_status_checks(pr_id);
+    `,
+  },
+  {
+    version: 31,
+    description: "Create project_merge_settings table for allowed merge methods",
+    sql: `
+      CREATE TABLE IF NOT EXISTS project_merge_settings (
+        project_id             TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+        allow_merge_commit     INTEGER NOT NULL DEFAULT 1,
+        allow_squash_merge     INTEGER NOT NULL DEFAULT 1,
+        allow_rebase_merge     INTEGER NOT NULL DEFAULT 1,
+        delete_branch_on_merge INTEGER NOT NULL DEFAULT 0,
+        created_at             TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at             TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    version: 32,
+    description: "Create secret scanning alerts, settings and org custom patterns",
+    sql: `
+      CREATE TABLE IF NOT EXISTS secret_scanning_alerts (
+        id                 TEXT PRIMARY KEY,
+        project_id         TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        number             INTEGER NOT NULL,
+        secret_type        TEXT NOT NULL,
+        fingerprint        TEXT NOT NULL,
+        masked_secret      TEXT NOT NULL,
+        confidence         TEXT NOT NULL DEFAULT 'high',
+        file_path          TEXT,
+        line               INTEGER,
+        commit_sha         TEXT,
+        state              TEXT NOT NULL DEFAULT 'open',
+        resolution         TEXT,
+        resolution_comment TEXT,
+        resolved_by        TEXT REFERENCES users(id) ON DELETE SET NULL,
+        resolved_at        TEXT,
+        created_at         TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at         TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(project_id, number),
+        UNIQUE(project_id, secret_type, fingerprint)
+      );
+      CREATE INDEX IF NOT EXISTS idx_secret_alerts_project_state ON secret_scanning_alerts(project_id, state);
+
+      CREATE TABLE IF NOT EXISTS project_secret_scanning (
+        project_id        TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+        scanning_enabled  INTEGER NOT NULL DEFAULT 1,
+        push_protection   INTEGER NOT NULL DEFAULT 0,
+        last_full_scan_at TEXT,
+        created_at        TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at        TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS org_secret_patterns (
+        id          TEXT PRIMARY KEY,
+        org_id      TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name        TEXT NOT NULL,
+        pattern     TEXT NOT NULL,
+        description TEXT,
+        confidence  TEXT NOT NULL DEFAULT 'high',
+        created_by  TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at  TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(org_id, name)
+      );
+    `,
+  },
+  {
+    version: 33,
+    description: "Create lfs_objects table for Git LFS storage accounting",
+    sql: `
+      CREATE TABLE IF NOT EXISTS lfs_objects (
+        project_id  TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        oid         TEXT NOT NULL,
+        size        INTEGER NOT NULL,
+        uploaded_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at  TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (project_id, oid)
+      );
+      CREATE INDEX IF NOT EXISTS idx_lfs_objects_project ON lfs_objects(project_id);
+    `,
+  },
+  {
+    version: 34,
+    description: "Create repository_mirrors and mirror_sync_runs tables",
+    sql: `
+      CREATE TABLE IF NOT EXISTS repository_mirrors (
+        id                TEXT PRIMARY KEY,
+        project_id        TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        direction         TEXT NOT NULL CHECK (direction IN ('pull', 'push')),
+        remote_url        TEXT NOT NULL,
+        username          TEXT,
+        credentials       TEXT,
+        interval_seconds  INTEGER NOT NULL DEFAULT 3600,
+        enabled           INTEGER NOT NULL DEFAULT 1,
+        last_synced_at    TEXT,
+        last_success_at   TEXT,
+        last_error        TEXT,
+        next_sync_at      TEXT,
+        created_by        TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at        TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at        TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_repository_mirrors_project ON repository_mirrors(project_id);
+      CREATE INDEX IF NOT EXISTS idx_repository_mirrors_due ON repository_mirrors(direction, enabled, next_sync_at);
+
+      CREATE TABLE IF NOT EXISTS mirror_sync_runs (
+        id           TEXT PRIMARY KEY,
+        mirror_id    TEXT NOT NULL REFERENCES repository_mirrors(id) ON DELETE CASCADE,
+        trigger      TEXT NOT NULL,
+        status       TEXT NOT NULL,
+        updated_refs TEXT NOT NULL DEFAULT '[]',
+        error        TEXT,
+        duration_ms  INTEGER NOT NULL DEFAULT 0,
+        started_at   TEXT NOT NULL,
+        finished_at  TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_mirror_sync_runs_mirror ON mirror_sync_runs(mirror_id, started_at);
+    `,
+  },
+  {
+    version: 35,
+    description: "Add token_prefix and revoked_at to api_tokens for personal access tokens",
+    sql: `
+      ALTER TABLE api_tokens ADD COLUMN token_prefix TEXT;
+      ALTER TABLE api_tokens ADD COLUMN revoked_at TEXT;
+    `,
+  },
+  {
+    version: 37,
+    description: "Point collaborator, team and deploy key grants at projects",
+    // Grants made against a baseline repositories row move to the project
+    // with the same owner and slug. A grant that matches no project stops
+    // the migration rather than being dropped.
+    sql: `
+      CREATE TABLE repository_collaborators_new (
+        repository_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        user_id       TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        permission    TEXT NOT NULL DEFAULT 'pull',
+        added_at      TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (repository_id, user_id)
+      );
+      CREATE TEMP TRIGGER unmapped_collaborator BEFORE INSERT ON repository_collaborators_new
+        WHEN NEW.repository_id NOT IN (SELECT id FROM projects)
+      BEGIN
+        SELECT RAISE(ABORT, 'repository_collaborators has a grant for a repository with no matching project');
+      END;
+      INSERT INTO repository_collaborators_new
+        SELECT COALESCE(
+                 (SELECT id FROM projects WHERE id = c.repository_id),
+                 (SELECT p.id FROM repositories r JOIN projects p ON p.owner_id = r.owner_id AND p.slug = r.slug
+                  WHERE r.id = c.repository_id),
+                 c.repository_id
+               ),
+               c.user_id, c.permission, c.added_at
+        FROM repository_collaborators c;
+      DROP TRIGGER unmapped_collaborator;
+      DROP TABLE repository_collaborators;
+      ALTER TABLE repository_collaborators_new RENAME TO repository_collaborators;
+      CREATE INDEX IF NOT EXISTS idx_repo_collab_user ON repository_collaborators(user_id);
+
+      CREATE TABLE team_repositories_new (
+        team_id       TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        repository_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        permission    TEXT NOT NULL DEFAULT 'pull',
+        added_at      TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (team_id, repository_id)
+      );
+      CREATE TEMP TRIGGER unmapped_team_grant BEFORE INSERT ON team_repositories_new
+        WHEN NEW.repository_id NOT IN (SELECT id FROM projects)
+      BEGIN
+        SELECT RAISE(ABORT, 'team_repositories has a grant for a repository with no matching project');
+      END;
+      INSERT INTO team_repositories_new
+        SELECT t.team_id, COALESCE(
+                 (SELECT id FROM projects WHERE id = t.repository_id),
+                 (SELECT p.id FROM repositories r JOIN projects p ON p.owner_id = r.owner_id AND p.slug = r.slug
+                  WHERE r.id = t.repository_id),
+                 t.repository_id
+               ),
+               t.permission, t.added_at
+        FROM team_repositories t;
+      DROP TRIGGER unmapped_team_grant;
+      DROP TABLE team_repositories;
+      ALTER TABLE team_repositories_new RENAME TO team_repositories;
+      CREATE INDEX IF NOT EXISTS idx_team_repos_repository ON team_repositories(repository_id);
+
+      CREATE TABLE deploy_keys_new (
+        id            TEXT PRIMARY KEY,
+        repository_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        title         TEXT NOT NULL,
+        key           TEXT NOT NULL,
+        fingerprint   TEXT NOT NULL UNIQUE,
+        read_only     INTEGER NOT NULL DEFAULT 1,
+        verified      INTEGER NOT NULL DEFAULT 0,
+        created_at    TEXT NOT NULL DEFAULT (datetime('now')),
+        last_used     TEXT
+      );
+      CREATE TEMP TRIGGER unmapped_deploy_key BEFORE INSERT ON deploy_keys_new
+        WHEN NEW.repository_id NOT IN (SELECT id FROM projects)
+      BEGIN
+        SELECT RAISE(ABORT, 'deploy_keys has a key for a repository with no matching project');
+      END;
+      INSERT INTO deploy_keys_new
+        SELECT d.id, COALESCE(
+                 (SELECT id FROM projects WHERE id = d.repository_id),
+                 (SELECT p.id FROM repositories r JOIN projects p ON p.owner_id = r.owner_id AND p.slug = r.slug
+                  WHERE r.id = d.repository_id),
+                 d.repository_id
+               ),
+               d.title, d.key, d.fingerprint, d.read_only, d.verified, d.created_at, d.last_used
+        FROM deploy_keys d;
+      DROP TRIGGER unmapped_deploy_key;
+      DROP TABLE deploy_keys;
+      ALTER TABLE deploy_keys_new RENAME TO deploy_keys;
+      CREATE INDEX IF NOT EXISTS idx_deploy_keys_repository ON deploy_keys(repository_id);
+      CREATE INDEX IF NOT EXISTS idx_deploy_keys_fingerprint ON deploy_keys(fingerprint);
+    `,
+  },
+  {
+    version: 38,
+    description: "Point webhooks at projects and queue deliveries with retry state",
+    sql: `
+      DROP INDEX IF EXISTS idx_webhooks_repository;
+      DROP INDEX IF EXISTS idx_webhook_deliveries_webhook;
+      DROP INDEX IF EXISTS idx_webhook_deliveries_created;
+      ALTER TABLE webhook_deliveries RENAME TO webhook_deliveries_old;
+      ALTER TABLE webhooks RENAME TO webhooks_old;
+
+      CREATE TABLE webhooks (
+        id               TEXT PRIMARY KEY,
+        repository_id    TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name             TEXT NOT NULL,
+        url              TEXT NOT NULL,
+        events           TEXT NOT NULL DEFAULT '[]',
+        active           INTEGER NOT NULL DEFAULT 1,
+        secret           TEXT,
+        content_type     TEXT NOT NULL DEFAULT 'json',
+        insecure_ssl     INTEGER NOT NULL DEFAULT 0,
+        status           TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'failing', 'suspended')),
+        failure_count    INTEGER NOT NULL DEFAULT 0,
+        last_delivery_at TEXT,
+        created_at       TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at       TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO webhooks (id, repository_id, name, url, events, active, secret, content_type, insecure_ssl, created_at, updated_at)
+        SELECT id, repository_id, name, url, events, active, secret, content_type, insecure_ssl, created_at, updated_at
+        FROM webhooks_old WHERE repository_id IN (SELECT id FROM projects);
+      CREATE INDEX IF NOT EXISTS idx_webhooks_repository ON webhooks(repository_id);
+
+      CREATE TABLE webhook_deliveries (
+        id              TEXT PRIMARY KEY,
+        webhook_id      TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        guid            TEXT NOT NULL,
+        event           TEXT NOT NULL,
+        action          TEXT,
+        payload         TEXT NOT NULL,
+        request_headers TEXT NOT NULL DEFAULT '{}',
+        status          TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failure', 'timeout')),
+        attempts        INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        response_status INTEGER,
+        response_body   TEXT,
+        error           TEXT,
+        duration_ms     INTEGER,
+        redelivery      INTEGER NOT NULL DEFAULT 0,
+        delivered_at    TEXT,
+        created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO webhook_deliveries (
+        id, webhook_id, guid, event, payload, request_headers, status, attempts,
+        response_status, response_body, error, delivered_at, created_at
+      )
+        SELECT id, webhook_id, id, event, payload, request_headers,
+          CASE WHEN error IS NULL AND response_status BETWEEN 200 AND 299 THEN 'success' ELSE 'failure' END,
+          1, response_status, response_body, error, delivered_at, created_at
+        FROM webhook_deliveries_old WHERE webhook_id IN (SELECT id FROM webhooks);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+      DROP TABLE webhook_deliveries_old;
+      DROP TABLE webhooks_old;
+    `,
+  },
+  {
+    version: 39,
+    description: "Add the domain event outbox and per-subscriber dispatch records",
+    sql: `
+      CREATE TABLE IF NOT EXISTS event_outbox (
+        sequence         INTEGER PRIMARY KEY AUTOINCREMENT,
+        id               TEXT NOT NULL UNIQUE,
+        type             TEXT NOT NULL,
+        version          INTEGER NOT NULL DEFAULT 1,
+        source           TEXT NOT NULL,
+        severity         TEXT NOT NULL DEFAULT 'info',
+        organization_id  TEXT NOT NULL DEFAULT '',
+        actor_id         TEXT,
+        payload          TEXT NOT NULL,
+        metadata         TEXT NOT NULL DEFAULT '{}',
+        occurred_at      TEXT NOT NULL,
+        status           TEXT NOT NULL DEFAULT 'pending'
+                         CHECK (status IN ('pending', 'dispatched', 'failed')),
+        attempts         INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at  TEXT,
+        last_error       TEXT,
+        dispatched_at    TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_event_outbox_due ON event_outbox(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_event_outbox_type ON event_outbox(type);
+
+      CREATE TABLE IF NOT EXISTS event_subscriber_receipts (
+        event_id     TEXT NOT NULL REFERENCES event_outbox(id) ON DELETE CASCADE,
+        subscriber   TEXT NOT NULL,
+        handled_at   TEXT NOT NULL,
+        PRIMARY KEY (event_id, subscriber)
+      );
+    `,
+  },
+  {
+    version: 40,
+    description: "Persist workflow definitions, runs, jobs and steps",
+    sql: `
+      CREATE TABLE IF NOT EXISTS workflow_definitions (
+        id          TEXT PRIMARY KEY,
+        project_id  TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        path        TEXT NOT NULL,
+        name        TEXT NOT NULL,
+        state       TEXT NOT NULL DEFAULT 'active' CHECK (state IN ('active', 'disabled')),
+        created_at  TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at  TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (project_id, path)
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_runs (
+        id               TEXT PRIMARY KEY,
+        project_id       TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        workflow_id      TEXT REFERENCES workflow_definitions(id) ON DELETE SET NULL,
+        name             TEXT NOT NULL,
+        run_number       INTEGER NOT NULL,
+        event            TEXT NOT NULL,
+        status           TEXT NOT NULL DEFAULT 'queued'
+                         CHECK (status IN ('queued', 'in_progress', 'completed')),
+        conclusion       TEXT CHECK (conclusion IN ('success', 'failure', 'cancelled')),
+        head_branch      TEXT NOT NULL,
+        head_sha         TEXT,
+        pull_request_id  TEXT,
+        actor_id         TEXT,
+        commit_message   TEXT,
+        created_at       TEXT NOT NULL,
+        started_at       TEXT,
+        completed_at     TEXT,
+        updated_at       TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_runs_project ON workflow_runs(project_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow ON workflow_runs(workflow_id, run_number);
+
+      CREATE TABLE IF NOT EXISTS workflow_jobs (
+        id            TEXT PRIMARY KEY,
+        run_id        TEXT NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+        job_key       TEXT NOT NULL,
+        name          TEXT NOT NULL,
+        group_key     TEXT NOT NULL,
+        matrix        TEXT,
+        needs         TEXT NOT NULL DEFAULT '[]',
+        position      INTEGER NOT NULL,
+        status        TEXT NOT NULL DEFAULT 'queued'
+                      CHECK (status IN ('queued', 'in_progress', 'completed')),
+        conclusion    TEXT CHECK (conclusion IN ('success', 'failure', 'cancelled', 'skipped')),
+        outputs       TEXT NOT NULL DEFAULT '{}',
+        error         TEXT,
+        started_at    TEXT,
+        completed_at  TEXT,
+        UNIQUE (run_id, job_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_steps (
+        id            TEXT PRIMARY KEY,
+        job_id        TEXT NOT NULL REFERENCES workflow_jobs(id) ON DELETE CASCADE,
+        number        INTEGER NOT NULL,
+        name          TEXT NOT NULL,
+        status        TEXT NOT NULL DEFAULT 'queued'
+                      CHECK (status IN ('queued', 'in_progress', 'completed')),
+        conclusion    TEXT CHECK (conclusion IN ('success', 'failure', 'cancelled', 'skipped')),
+        started_at    TEXT,
+        completed_at  TEXT,
+        UNIQUE (job_id, number)
+      );
+    `,
+  },
+  {
+    version: 41,
+    description: "Store Actions secrets and variables per scope",
+    sql: `
+      CREATE TABLE IF NOT EXISTS actions_secrets (
+        id          TEXT PRIMARY KEY,
+        scope       TEXT NOT NULL CHECK (scope IN ('organization', 'project', 'environment', 'pipeline')),
+        scope_id    TEXT NOT NULL,
+        name        TEXT NOT NULL,
+        value       TEXT NOT NULL,
+        created_by  TEXT,
+        updated_by  TEXT,
+        created_at  TEXT NOT NULL,
+        updated_at  TEXT NOT NULL,
+        UNIQUE (scope, scope_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS actions_variables (
+        id          TEXT PRIMARY KEY,
+        scope       TEXT NOT NULL CHECK (scope IN ('organization', 'project', 'environment', 'pipeline')),
+        scope_id    TEXT NOT NULL,
+        name        TEXT NOT NULL,
+        value       TEXT NOT NULL,
+        created_by  TEXT,
+        updated_by  TEXT,
+        created_at  TEXT NOT NULL,
+        updated_at  TEXT NOT NULL,
+        UNIQUE (scope, scope_id, name)
+      );
+
+      -- Scopes are polymorphic, so removing their owner is cascaded by hand
+      CREATE TRIGGER IF NOT EXISTS trg_actions_values_organization AFTER DELETE ON organizations BEGIN
+        DELETE FROM actions_secrets WHERE scope = 'organization' AND scope_id = OLD.id;
+        DELETE FROM actions_variables WHERE scope = 'organization' AND scope_id = OLD.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS trg_actions_values_project AFTER DELETE ON projects BEGIN
+        DELETE FROM actions_secrets WHERE scope = 'project' AND scope_id = OLD.id;
+        DELETE FROM actions_variables WHERE scope = 'project' AND scope_id = OLD.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS trg_actions_values_pipeline AFTER DELETE ON workflow_definitions BEGIN
+        DELETE FROM actions_secrets WHERE scope = 'pipeline' AND scope_id = OLD.id;
+        DELETE FROM actions_variables WHERE scope = 'pipeline' AND scope_id = OLD.id;
+      END;
+    `,
+  },
+  {
+    version: 42,
+    description: "Pin the actions a workflow run uses",
+    sql: `
+      ALTER TABLE workflow_runs ADD COLUMN actions TEXT NOT NULL DEFAULT '[]';
+    `,
+  },
+  {
+    version: 43,
+    description: "Store workflow artifacts and dependency caches",
+    sql: `
+      CREATE TABLE IF NOT EXISTS workflow_artifacts (
+        id          TEXT PRIMARY KEY,
+        run_id      TEXT NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+        job_id      TEXT NOT NULL REFERENCES workflow_jobs(id) ON DELETE CASCADE,
+        name        TEXT NOT NULL,
+        size_bytes  INTEGER NOT NULL,
+        checksum    TEXT NOT NULL,
+        created_at  TEXT NOT NULL,
+        expires_at  TEXT NOT NULL,
+        UNIQUE (run_id, name)
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_artifacts_expires ON workflow_artifacts(expires_at);
+
+      CREATE TABLE IF NOT EXISTS workflow_caches (
+        id            TEXT PRIMARY KEY,
+        project_id    TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        ref           TEXT NOT NULL,
+        key           TEXT NOT NULL,
+        size_bytes    INTEGER NOT NULL,
+        checksum      TEXT NOT NULL,
+        created_at    TEXT NOT NULL,
+        last_used_at  TEXT NOT NULL,
+        UNIQUE (project_id, ref, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_caches_used ON workflow_caches(last_used_at);
+    `,
+  },
+  {
+    version: 44,
+    description: "Add deployment environments, deployments and their reviews",
+    sql: `
+      CREATE TABLE IF NOT EXISTS environments (
+        id                TEXT PRIMARY KEY,
+        project_id        TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name              TEXT NOT NULL COLLATE NOCASE,
+        protection_rules  TEXT NOT NULL DEFAULT '[]',
+        branch_policy     TEXT,
+        created_at        TEXT NOT NULL,
+        updated_at        TEXT NOT NULL,
+        UNIQUE (project_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS deployments (
+        id              TEXT PRIMARY KEY,
+        project_id      TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        environment_id  TEXT NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+        run_id          TEXT REFERENCES workflow_runs(id) ON DELETE SET NULL,
+        job_id          TEXT REFERENCES workflow_jobs(id) ON DELETE SET NULL,
+        commit_sha      TEXT,
+        ref             TEXT NOT NULL,
+        url             TEXT,
+        status          TEXT NOT NULL,
+        initiated_by    TEXT REFERENCES users(id) ON DELETE SET NULL,
+        rollback        TEXT,
+        created_at      TEXT NOT NULL,
+        started_at      TEXT,
+        completed_at    TEXT,
+        updated_at      TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_deployments_environment ON deployments(environment_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_deployments_run ON deployments(run_id);
+
+      CREATE TABLE IF NOT EXISTS deployment_statuses (
+        id             TEXT PRIMARY KEY,
+        deployment_id  TEXT NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        status         TEXT NOT NULL,
+        description    TEXT,
+        actor_id       TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at     TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_deployment_statuses_deployment ON deployment_statuses(deployment_id);
+
+      CREATE TABLE IF NOT EXISTS deployment_reviews (
+        id             TEXT PRIMARY KEY,
+        deployment_id  TEXT NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        reviewer_id    TEXT REFERENCES users(id) ON DELETE SET NULL,
+        state          TEXT NOT NULL CHECK (state IN ('approved', 'rejected')),
+        comment        TEXT,
+        created_at     TEXT NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS trg_actions_values_environment AFTER DELETE ON environments BEGIN
+        DELETE FROM actions_secrets WHERE scope = 'environment' AND scope_id = OLD.id;
+        DELETE FROM actions_variables WHERE scope = 'environment' AND scope_id = OLD.id;
+      END;
+    `,
+  },
+  {
+    version: 45,
+    description: "Add line-anchored pull request review threads",
+    sql: `
+      CREATE TABLE IF NOT EXISTS pr_review_threads (
+        id                   TEXT PRIMARY KEY,
+        pr_id                TEXT NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+        path                 TEXT NOT NULL,
+        side                 TEXT NOT NULL CHECK (side IN ('LEFT', 'RIGHT')),
+        start_line           INTEGER,
+        line                 INTEGER NOT NULL,
+        commit_sha           TEXT NOT NULL,
+        base_sha             TEXT NOT NULL,
+        position             INTEGER,
+        original_path        TEXT NOT NULL,
+        original_start_line  INTEGER,
+        original_line        INTEGER NOT NULL,
+        original_commit_sha  TEXT NOT NULL,
+        diff_hunk            TEXT NOT NULL,
+        outdated             INTEGER NOT NULL DEFAULT 0,
+        resolved_by_id       TEXT REFERENCES users(id) ON DELETE SET NULL,
+        resolved_at          TEXT,
+        created_at           TEXT NOT NULL,
+        updated_at           TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_pr_review_threads_pr ON pr_review_threads(pr_id);
+
+      ALTER TABLE pr_comments ADD COLUMN thread_id TEXT REFERENCES pr_review_threads(id) ON DELETE CASCADE;
+      CREATE INDEX IF NOT EXISTS idx_pr_comments_thread ON pr_comments(thread_id);
+    `,
+  },
+  {
+    version: 46,
+    description: "Add pending reviews, applied suggestions and stale approval dismissal",
+    sql: `
+      ALTER TABLE pr_reviews ADD COLUMN dismissed_at TEXT;
+
+      ALTER TABLE pr_comments ADD COLUMN review_id TEXT REFERENCES pr_reviews(id) ON DELETE CASCADE;
+      ALTER TABLE pr_comments ADD COLUMN applied_commit_sha TEXT;
+      CREATE INDEX IF NOT EXISTS idx_pr_comments_review ON pr_comments(review_id);
+
+      ALTER TABLE project_branch_protection ADD COLUMN dismiss_stale_reviews INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 47,
+    description: "Replace per-project branch protection with pattern rules for repositories and organizations",
+    sql: `
+      CREATE TABLE IF NOT EXISTS branch_protection_rules (
+        id                              TEXT PRIMARY KEY,
+        scope                           TEXT NOT NULL CHECK (scope IN ('project', 'organization')),
+        scope_id                        TEXT NOT NULL,
+        pattern                         TEXT NOT NULL,
+        require_pull_request            INTEGER NOT NULL DEFAULT 1,
+        required_approving_review_count INTEGER NOT NULL DEFAULT 0,
+        dismiss_stale_reviews           INTEGER NOT NULL DEFAULT 0,
+        require_status_checks           INTEGER NOT NULL DEFAULT 0,
+        required_status_checks          TEXT NOT NULL DEFAULT '[]',
+        enforce_admins                  INTEGER NOT NULL DEFAULT 0,
+        require_linear_history          INTEGER NOT NULL DEFAULT 0,
+        require_signed_commits          INTEGER NOT NULL DEFAULT 0,
+        allow_force_pushes              INTEGER NOT NULL DEFAULT 0,
+        allow_deletions                 INTEGER NOT NULL DEFAULT 0,
+        restrict_pushes                 INTEGER NOT NULL DEFAULT 0,
+        push_allowances                 TEXT NOT NULL DEFAULT '[]',
+        bypass_actors                   TEXT NOT NULL DEFAULT '[]',
+        created_at                      TEXT NOT NULL,
+        updated_at                      TEXT NOT NULL,
+        UNIQUE (scope, scope_id, pattern)
+      );
+
+      -- The single protection setting each project had covered its default branch
+      INSERT INTO branch_protection_rules (
+        id, scope, scope_id, pattern, require_pull_request, required_approving_review_count,
+        dismiss_stale_reviews, require_status_checks, required_status_checks, enforce_admins,
+        require_linear_history, created_at, updated_at
+      )
+      SELECT lower(hex(randomblob(16))), 'project', bp.project_id, p.default_branch, bp.require_pull_request,
+        bp.required_approving_review_count, bp.dismiss_stale_reviews, bp.require_status_checks,
+        bp.required_status_checks, bp.enforce_admins, bp.require_linear_history, bp.created_at, bp.updated_at
+      FROM project_branch_protection bp
+      JOIN projects p ON p.id = bp.project_id;
+
+      DROP TABLE project_branch_protection;
+
+      CREATE TRIGGER IF NOT EXISTS trg_branch_protection_rules_organization AFTER DELETE ON organizations BEGIN
+        DELETE FROM branch_protection_rules WHERE scope = 'organization' AND scope_id = OLD.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS trg_branch_protection_rules_project AFTER DELETE ON projects BEGIN
+        DELETE FROM branch_protection_rules WHERE scope = 'project' AND scope_id = OLD.id;
+      END;
+    `,
+  },
+  {
+    version: 48,
+    description: "Add code owner review requirement to branch protection rules",
+    sql: `
+      ALTER TABLE branch_protection_rules ADD COLUMN require_code_owner_reviews INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 49,
+    description: "Add merge queues for protected branches",
+    sql: `
+      ALTER TABLE branch_protection_rules ADD COLUMN require_merge_queue INTEGER NOT NULL DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS merge_queue_entries (
+        id              TEXT PRIMARY KEY,
+        project_id      TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        base_branch     TEXT NOT NULL,
+        pr_id           TEXT NOT NULL UNIQUE REFERENCES pull_requests(id) ON DELETE CASCADE,
+        merge_method    TEXT NOT NULL CHECK (merge_method IN ('merge', 'squash', 'rebase')),
+        enqueued_by     TEXT REFERENCES users(id) ON DELETE SET NULL,
+        state           TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'failed')),
+        failure_reason  TEXT,
+        parent_sha      TEXT,
+        queue_sha       TEXT,
+        created_at      TEXT NOT NULL,
+        updated_at      TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_merge_queue_entries_queue ON merge_queue_entries(project_id, base_branch);
+    `,
+  },
+  {
+    version: 50,
+    description: "Keep merge settings in the repositories merge columns instead of project_merge_settings",
+    sql: `
+      INSERT INTO repositories (
+        id, name, slug, description, owner_id, org_id, visibility, default_branch, storage_path,
+        allow_merge_commit, allow_squash_merge, allow_rebase_merge, delete_branch_on_merge,
+        created_at, updated_at
+      )
+        SELECT p.id, p.name, p.slug, p.description, p.owner_id, p.org_id,
+               CASE WHEN p.is_private = 1 THEN 'private' ELSE 'public' END,
+               p.default_branch, p.storage_path,
+               s.allow_merge_commit, s.allow_squash_merge, s.allow_rebase_merge, s.delete_branch_on_merge,
+               p.created_at, s.updated_at
+        FROM project_merge_settings s JOIN projects p ON p.id = s.project_id
+        WHERE true
+      ON CONFLICT(id) DO UPDATE SET
+        allow_merge_commit = excluded.allow_merge_commit,
+        allow_squash_merge = excluded.allow_squash_merge,
+        allow_rebase_merge = excluded.allow_rebase_merge,
+        delete_branch_on_merge = excluded.delete_branch_on_merge,
+        updated_at = excluded.updated_at;
+      DROP TABLE project_merge_settings;
+
+      CREATE TRIGGER IF NOT EXISTS trg_repositories_project AFTER DELETE ON projects BEGIN
+        DELETE FROM repositories WHERE id = OLD.id;
+      END;
+    `,
+  },
+  {
+    version: 51,
+    description: "Point analytics_events.repository_id at projects",
+    sql: `
+      CREATE TABLE analytics_events_new (
+        id             TEXT PRIMARY KEY,
+        event_type     TEXT NOT NULL,
+        actor_user_id  TEXT REFERENCES users(id) ON DELETE SET NULL,
+        repository_id  TEXT REFERENCES projects(id) ON DELETE SET NULL,
+        value          REAL NOT NULL DEFAULT 1,
+        metadata       TEXT NOT NULL DEFAULT '{}',
+        occurred_at    TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO analytics_events_new
+        SELECT id, event_type, actor_user_id,
+               CASE WHEN repository_id IN (SELECT id FROM projects) THEN repository_id END,
+               value, metadata, occurred_at
+        FROM analytics_events;
+      DROP TABLE analytics_events;
+      ALTER TABLE analytics_events_new RENAME TO analytics_events;
+      CREATE INDEX IF NOT EXISTS idx_analytics_events_type ON analytics_events(event_type);
+      CREATE INDEX IF NOT EXISTS idx_analytics_events_actor ON analytics_events(actor_user_id);
+      CREATE INDEX IF NOT EXISTS idx_analytics_events_repo ON analytics_events(repository_id);
+      CREATE INDEX IF NOT EXISTS idx_analytics_events_occurred_at ON analytics_events(occurred_at);
+    `,
+  },
 ];
 
 
@@ -896,10 +1632,15 @@ export function runMigrations(): void {
     "INSERT INTO _migrations (version, description) VALUES (?, ?)",
   );
 
-  for (const migration of MIGRATIONS) {
-    if (applied.has(migration.version)) continue;
-
+  // Each migration applies completely or not at all, so one that stops
+  // partway leaves the database as it was
+  const apply = db.transaction((migration: Migration) => {
     db.exec(migration.sql);
     insertMigration.run(migration.version, migration.description);
+  });
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+    apply(migration);
   }
 }
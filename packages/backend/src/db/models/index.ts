@@ -98,12 +98,21 @@ export {
   listDeliveries,
   cleanupDeliveries,
   getDeliveryStats,
+  queueDelivery,
+  listDueDeliveries,
+  recordAttempt,
+  setWebhookHealth,
+  resetWebhookHealth,
 } from './webhook-model.js';
 
 export type {
+  RepositoryWebhook,
+  WebhookHealth,
   WebhookDelivery,
   CreateWebhookInput,
   UpdateWebhookInput,
+  QueueDeliveryInput,
+  DeliveryAttempt,
 } from './webhook-model.js';
 
 // Deploy key model
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { Webhook } from "@platform/shared/types/repository";
+import type { WebhookDeliveryStatus, WebhookStatus } from "@platform/shared";
 import { getDb } from "../connection.js";
 
 /** Row shape for webhooks from SQLite. */
@@ -13,6 +14,9 @@ interface WebhookRow {
   secret: string | null;
   content_type: string;
   insecure_ssl: number;
+  status: string;
+  failure_count: number;
+  last_delivery_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -21,34 +25,62 @@ interface WebhookRow {
 interface DeliveryRow {
   id: string;
   webhook_id: string;
+  guid: string;
   event: string;
+  action: string | null;
   payload: string;
   request_headers: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
   response_status: number | null;
   response_body: string | null;
   error: string | null;
-  delivered_at: string;
+  duration_ms: number | null;
+  redelivery: number;
+  delivered_at: string | null;
   created_at: string;
 }
 
+/** Delivery health of a webhook; `inactive` is derived from `active`. */
+export type WebhookHealth = Exclude<WebhookStatus, "inactive">;
+
+/** A repository webhook with its delivery health. */
+export interface RepositoryWebhook extends Webhook {
+  repositoryId: string;
+  status: WebhookHealth;
+  /** Consecutive deliveries that failed after all retries. */
+  failureCount: number;
+  lastDeliveryAt?: string;
+}
+
 /** Webhook delivery log. */
 export interface WebhookDelivery {
   id: string;
   webhookId: string;
+  /** Value of the `X-GitTic-Delivery` header. */
+  guid: string;
   event: string;
+  action?: string;
   payload: string;
   requestHeaders: Record<string, string>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
   responseStatus?: number;
   responseBody?: string;
   error?: string;
-  deliveredAt: string;
+  durationMs?: number;
+  redelivery: boolean;
+  deliveredAt?: string;
   createdAt: string;
 }
 
 /** Map database row to Webhook type. */
-function toWebhook(row: WebhookRow): Webhook {
+function toWebhook(row: WebhookRow): RepositoryWebhook {
   return {
     id: row.id,
+    repositoryId: row.repository_id,
     name: row.name,
     url: row.url,
     events: JSON.parse(row.events) as string[],
@@ -56,6 +88,9 @@ function toWebhook(row: WebhookRow): Webhook {
     secret: row.secret ?? undefined,
     contentType: row.content_type as 'json' | 'form',
     insecureSSL: row.insecure_ssl === 1,
+    status: row.status as WebhookHealth,
+    failureCount: row.failure_count,
+    lastDeliveryAt: row.last_delivery_at ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -66,13 +101,20 @@ function toDelivery(row: DeliveryRow): WebhookDelivery {
   return {
     id: row.id,
     webhookId: row.webhook_id,
+    guid: row.guid,
     event: row.event,
+    action: row.action ?? undefined,
     payload: row.payload,
     requestHeaders: JSON.parse(row.request_headers) as Record<string, string>,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
     responseStatus: row.response_status ?? undefined,
     responseBody: row.response_body ?? undefined,
     error: row.error ?? undefined,
-    deliveredAt: row.delivered_at,
+    durationMs: row.duration_ms ?? undefined,
+    redelivery: row.redelivery === 1,
+    deliveredAt: row.delivered_at ?? undefined,
     createdAt: row.created_at,
   };
 }
@@ -103,7 +145,7 @@ export interface UpdateWebhookInput {
 /**
  * Create a new webhook.
  */
-export function createWebhook(input: CreateWebhookInput): Webhook {
+export function createWebhook(input: CreateWebhookInput): RepositoryWebhook {
   const db = getDb();
   const id = randomUUID();
   const now = new Date().toISOString();
@@ -133,7 +175,7 @@ export function createWebhook(input: CreateWebhookInput): Webhook {
 /**
  * Get a webhook by ID.
  */
-export function getWebhook(id: string): Webhook | null {
+export function getWebhook(id: string): RepositoryWebhook | null {
   const db = getDb();
   const row = db
     .prepare("SELECT * FROM webhooks WHERE id = ?")
@@ -144,7 +186,7 @@ export function getWebhook(id: string): Webhook | null {
 /**
  * List all webhooks for a repository.
  */
-export function listWebhooks(repositoryId: string): Webhook[] {
+export function listWebhooks(repositoryId: string): RepositoryWebhook[] {
   const db = getDb();
   const rows = db
     .prepare("SELECT * FROM webhooks WHERE repository_id = ? ORDER BY created_at DESC")
@@ -155,7 +197,7 @@ export function listWebhooks(repositoryId: string): Webhook[] {
 /**
  * Update webhook fields.
  */
-export function updateWebhook(id: string, input: UpdateWebhookInput): Webhook | null {
+export function updateWebhook(id: string, input: UpdateWebhookInput): RepositoryWebhook | null {
   const db = getDb();
   const sets: string[] = [];
   const values: unknown[] = [];
@@ -225,17 +267,21 @@ export function logDelivery(
   const id = randomUUID();
   const now = new Date().toISOString();
 
+  const succeeded = !error && responseStatus !== undefined && responseStatus >= 200 && responseStatus < 300;
+
   db.prepare(
     `INSERT INTO webhook_deliveries (
-      id, webhook_id, event, payload, request_headers, 
+      id, webhook_id, guid, event, payload, request_headers, status, attempts,
       response_status, response_body, error, delivered_at, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)`,
   ).run(
     id,
     webhookId,
+    id,
     event,
     JSON.stringify(payload),
     JSON.stringify(requestHeaders),
+    succeeded ? "success" : "failure",
     responseStatus ?? null,
     responseBody ?? null,
     error ?? null,
@@ -303,8 +349,8 @@ export function getDeliveryStats(webhookId: string): {
     .prepare(
       `SELECT 
         COUNT(*) as total,
-        COUNT(CASE WHEN response_status >= 200 AND response_status < 300 THEN 1 END) as successful,
-        COUNT(CASE WHEN response_status >= 400 OR error IS NOT NULL THEN 1 END) as failed,
+        COUNT(CASE WHEN status = 'success' THEN 1 END) as successful,
+        COUNT(CASE WHEN status IN ('failure', 'timeout') THEN 1 END) as failed,
         MAX(delivered_at) as last_delivery
        FROM webhook_deliveries
        WHERE webhook_id = ?`,
@@ -323,3 +369,113 @@ export function getDeliveryStats(webhookId: string): {
     lastDelivery: stats.last_delivery ?? undefined,
   };
 }
+
+/** Fields for queueing a webhook delivery. */
+export interface QueueDeliveryInput {
+  webhookId: string;
+  event: string;
+  action?: string;
+  /** Serialized JSON payload. */
+  payload: string;
+  redelivery?: boolean;
+}
+
+/**
+ * Queue a delivery; the webhook worker sends it on its next pass.
+ */
+export function queueDelivery(input: QueueDeliveryInput): WebhookDelivery {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.prepare(
+    `INSERT INTO webhook_deliveries (
+      id, webhook_id, guid, event, action, payload, status, next_attempt_at, redelivery, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+  ).run(
+    id,
+    input.webhookId,
+    randomUUID(),
+    input.event,
+    input.action ?? null,
+    input.payload,
+    now,
+    input.redelivery ? 1 : 0,
+    now,
+  );
+
+  return getDelivery(id)!;
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first. Deliveries
+ * of inactive and suspended webhooks wait until the hook is re-enabled.
+ */
+export function listDueDeliveries(now: Date, limit = 20): WebhookDelivery[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT d.* FROM webhook_deliveries d
+       JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+         AND w.active = 1 AND w.status != 'suspended'
+       ORDER BY d.next_attempt_at ASC
+       LIMIT ?`,
+    )
+    .all(now.toISOString(), limit) as DeliveryRow[];
+  return rows.map(toDelivery);
+}
+
+/** Outcome of one delivery attempt. */
+export interface DeliveryAttempt {
+  status: WebhookDeliveryStatus;
+  requestHeaders: Record<string, string>;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  /** When to try again; only for deliveries still `pending`. */
+  nextAttemptAt?: string;
+}
+
+/**
+ * Record an attempt on a delivery, replacing the previous response.
+ */
+export function recordAttempt(id: string, attempt: DeliveryAttempt): WebhookDelivery | null {
+  const db = getDb();
+  db.prepare(
+    `UPDATE webhook_deliveries SET
+       status = ?, attempts = attempts + 1, next_attempt_at = ?, request_headers = ?,
+       response_status = ?, response_body = ?, error = ?, duration_ms = ?, delivered_at = ?
+     WHERE id = ?`,
+  ).run(
+    attempt.status,
+    attempt.nextAttemptAt ?? null,
+    JSON.stringify(attempt.requestHeaders),
+    attempt.responseStatus ?? null,
+    attempt.responseBody ?? null,
+    attempt.error ?? null,
+    attempt.durationMs,
+    new Date().toISOString(),
+    id,
+  );
+  return getDelivery(id);
+}
+
+/**
+ * Update a webhook's delivery health.
+ */
+export function setWebhookHealth(id: string, status: WebhookHealth, failureCount: number): void {
+  const db = getDb();
+  db.prepare(
+    "UPDATE webhooks SET status = ?, failure_count = ?, last_delivery_at = ? WHERE id = ?",
+  ).run(status, failureCount, new Date().toISOString(), id);
+}
+
+/**
+ * Clear a webhook's failure state, e.g. after it is re-enabled.
+ */
+export function resetWebhookHealth(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE webhooks SET status = 'active', failure_count = 0 WHERE id = ?").run(id);
+}
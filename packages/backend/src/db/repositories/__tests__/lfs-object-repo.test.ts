@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { randomUUID } from "node:crypto";
+import { STORAGE_LIMITS } from "@platform/shared";
+import { getDb } from "../../connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../__tests__/temp-database.js";
+import { createUser } from "../user-repo.js";
+import { createProject } from "../project-repo.js";
+import * as lfsObjectRepo from "../lfs-object-repo.js";
+import { checkStorageQuota, getStorageQuota } from "../../../services/lfs-service.js";
+
+describe("lfs-object-repo", () => {
+  let tempDir: string;
+  let userId: string;
+  let projectIds: string[];
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("lfs-object-test-");
+
+    userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    projectIds = ["one", "two"].map((slug) => createProject({
+      name: slug,
+      slug,
+      ownerId: userId,
+      storagePath: `repos/${userId}/${slug}`,
+    }).id);
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("sums object sizes per project and per owner", () => {
+    lfsObjectRepo.recordObject(projectIds[0], "a".repeat(64), 100, userId);
+    lfsObjectRepo.recordObject(projectIds[0], "a".repeat(64), 100, userId);
+    lfsObjectRepo.recordObject(projectIds[1], "b".repeat(64), 50, userId);
+
+    expect(lfsObjectRepo.getProjectUsage(projectIds[0])).toBe(100);
+    expect(lfsObjectRepo.getOwnerUsage(userId)).toBe(150);
+  });
+
+  it("checks uploads against the owner's subscription tier", () => {
+    lfsObjectRepo.recordObject(projectIds[0], "a".repeat(64), STORAGE_LIMITS.free - 10, userId);
+
+    expect(getStorageQuota(userId)).toMatchObject({ tier: "free", limitBytes: STORAGE_LIMITS.free });
+    expect(checkStorageQuota(userId, 10)).toBeNull();
+    expect(checkStorageQuota(userId, 11)).toMatch(/Storage limit exceeded/);
+
+    getDb()
+      .prepare("INSERT INTO subscriptions (id, user_id, tier, status) VALUES (?, ?, 'pro', 'active')")
+      .run(randomUUID(), userId);
+    expect(checkStorageQuota(userId, 11)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createTempDatabase, removeTempDatabase } from "../../__tests__/temp-database.js";
+import { createUser } from "../user-repo.js";
+import { createProject } from "../project-repo.js";
+import * as mirrorRepo from "../mirror-repo.js";
+import { decryptSecret } from "../../../services/credential-encryption.js";
+import { sealCredentials } from "../../../services/mirror-service.js";
+
+describe("mirror-repo", () => {
+  let tempDir: string;
+  let projectId: string;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("mirror-repo-test-");
+
+    const userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    projectId = createProject({
+      name: "demo",
+      slug: "demo",
+      ownerId: userId,
+      storagePath: `repos/${userId}/demo`,
+    }).id;
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("stores credentials encrypted", () => {
+    const mirror = mirrorRepo.create({
+      projectId,
+      direction: "push",
+      remoteUrl: "https://example.com/alice/demo.git",
+      username: "alice",
+      encryptedCredentials: sealCredentials("hunter2"),
+    });
+
+    expect(mirror.encryptedCredentials).toBeDefined();
+    expect(mirror.encryptedCredentials).not.toContain("hunter2");
+    expect(decryptSecret(mirror.encryptedCredentials!)).toBe("hunter2");
+  });
+
+  it("records sync history, last error and the next pull", () => {
+    const mirror = mirrorRepo.create({
+      projectId,
+      direction: "pull",
+      remoteUrl: "file:///srv/upstream.git",
+      intervalSeconds: 600,
+    });
+    const startedAt = new Date().toISOString();
+
+    mirrorRepo.recordSyncRun(mirror.id, {
+      trigger: "schedule", status: "success", updatedRefs: ["refs/heads/main"], durationMs: 5, startedAt,
+    });
+    mirrorRepo.recordSyncRun(mirror.id, {
+      trigger: "manual", status: "failed", updatedRefs: [], error: "remote hung up", durationMs: 5, startedAt,
+    });
+
+    const updated = mirrorRepo.findById(mirror.id)!;
+    expect(updated.lastError).toBe("remote hung up");
+    expect(updated.lastSuccessAt).toBeDefined();
+    expect(Date.parse(updated.nextSyncAt!) - Date.parse(updated.lastSyncedAt!)).toBe(600_000);
+    expect(mirrorRepo.listDuePullMirrors()).toHaveLength(0);
+
+    const history = mirrorRepo.listSyncRuns(mirror.id, { page: 1, perPage: 10 });
+    expect(history.total).toBe(2);
+    expect(history.runs.map((run) => run.status).sort()).toEqual(["failed", "success"]);
+  });
+});
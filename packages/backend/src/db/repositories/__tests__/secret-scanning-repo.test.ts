@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createTempDatabase, removeTempDatabase } from "../../__tests__/temp-database.js";
+import { createUser } from "../user-repo.js";
+import { createProject } from "../project-repo.js";
+import * as secretScanningRepo from "../secret-scanning-repo.js";
+
+const alertInput = {
+  secretType: "GitHub Token",
+  fingerprint: "f".repeat(64),
+  maskedSecret: "ghp_****abcd",
+  confidence: "high" as const,
+  filePath: "config.js",
+  line: 3,
+  commitSha: "a".repeat(40),
+};
+
+describe("secret-scanning-repo", () => {
+  let tempDir: string;
+  let projectId: string;
+  let userId: string;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("secret-scanning-test-");
+
+    userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    projectId = createProject({
+      name: "demo",
+      slug: "demo",
+      ownerId: userId,
+      storagePath: `repos/${userId}/demo`,
+    }).id;
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("keeps one alert per secret and numbers alerts per project", () => {
+    const first = secretScanningRepo.recordAlert(projectId, alertInput);
+    const again = secretScanningRepo.recordAlert(projectId, { ...alertInput, commitSha: "b".repeat(40) });
+    const other = secretScanningRepo.recordAlert(projectId, { ...alertInput, fingerprint: "e".repeat(64) });
+
+    expect(first.created).toBe(true);
+    expect(again.created).toBe(false);
+    expect(again.alert.number).toBe(first.alert.number);
+    expect(other.alert.number).toBe(2);
+    expect(secretScanningRepo.listByProject(projectId, { page: 1, perPage: 10 }).total).toBe(2);
+  });
+
+  it("resolves and reopens alerts", () => {
+    const { alert } = secretScanningRepo.recordAlert(projectId, alertInput);
+
+    const resolved = secretScanningRepo.updateState(
+      projectId, alert.number, "resolved", userId, "used_in_tests", "fixture",
+    );
+    expect(resolved).toMatchObject({ state: "resolved", resolution: "used_in_tests", resolvedBy: userId });
+    expect(
+      secretScanningRepo.listByProject(projectId, { page: 1, perPage: 10 }, { state: "open" }).total,
+    ).toBe(0);
+
+    const reopened = secretScanningRepo.updateState(projectId, alert.number, "open", userId);
+    expect(reopened?.state).toBe("open");
+    expect(reopened?.resolution).toBeUndefined();
+  });
+
+  it("only overrides the settings that are provided", () => {
+    secretScanningRepo.upsertSettings(projectId, { pushProtection: true });
+    const settings = secretScanningRepo.upsertSettings(projectId, { lastFullScanAt: "2026-01-01T00:00:00.000Z" });
+
+    expect(settings).toMatchObject({ scanningEnabled: true, pushProtection: true });
+  });
+});
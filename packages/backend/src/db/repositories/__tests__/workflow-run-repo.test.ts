@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createTempDatabase, removeTempDatabase } from "../../__tests__/temp-database.js";
+import { createUser } from "../user-repo.js";
+import { createProject } from "../project-repo.js";
+import * as workflowRunRepo from "../workflow-run-repo.js";
+
+describe("workflow-run-repo", () => {
+  let tempDir: string;
+  let projectId: string;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("workflow-run-repo-test-");
+
+    const userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    projectId = createProject({ name: "demo", slug: "demo", ownerId: userId, storagePath: `repos/${userId}/demo` }).id;
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  const createRun = (id: string, workflowId: string, event: string, headBranch: string) =>
+    workflowRunRepo.createRun({
+      id,
+      projectId,
+      workflowId,
+      name: "CI",
+      event,
+      headBranch,
+      jobs: [{ key: "test", name: "test", group: "test", needs: [], steps: ["Install", "Test"] }],
+    });
+
+  it("numbers runs per workflow and keeps one definition per path", () => {
+    const ci = workflowRunRepo.upsertDefinition(projectId, ".gittic/workflows/ci.yml", "CI");
+    const renamed = workflowRunRepo.upsertDefinition(projectId, ".gittic/workflows/ci.yml", "Checks");
+    const release = workflowRunRepo.upsertDefinition(projectId, ".gittic/workflows/release.yml", "Release");
+
+    expect(renamed.id).toBe(ci.id);
+    expect(workflowRunRepo.listDefinitions(projectId).map((definition) => definition.name)).toEqual(["Checks", "Release"]);
+
+    expect(createRun("run-1", ci.id, "push", "main").runNumber).toBe(1);
+    expect(createRun("run-2", ci.id, "push", "main").runNumber).toBe(2);
+    expect(createRun("run-3", release.id, "tag", "v1.0.0").runNumber).toBe(1);
+    expect(workflowRunRepo.listSteps(workflowRunRepo.listJobs("run-1")[0].id).map((step) => step.name)).toEqual([
+      "Install",
+      "Test",
+    ]);
+  });
+
+  it("filters runs by status or conclusion, event and branch, newest first", () => {
+    const ci = workflowRunRepo.upsertDefinition(projectId, ".gittic/workflows/ci.yml", "CI");
+    createRun("run-1", ci.id, "push", "main");
+    createRun("run-2", ci.id, "pull_request", "feature");
+    createRun("run-3", ci.id, "push", "feature");
+    workflowRunRepo.updateRun("run-1", { status: "completed", conclusion: "success" });
+    workflowRunRepo.updateRun("run-3", { status: "in_progress" });
+
+    const page = { page: 1, perPage: 20 };
+    const ids = (filter: workflowRunRepo.WorkflowRunFilter) =>
+      workflowRunRepo.listRuns(projectId, filter, page).runs.map((run) => run.id);
+
+    expect(ids({})).toEqual(["run-3", "run-2", "run-1"]);
+    expect(ids({ status: "success" })).toEqual(["run-1"]);
+    expect(ids({ status: "in_progress" })).toEqual(["run-3"]);
+    expect(ids({ event: "push", branch: "feature" })).toEqual(["run-3"]);
+
+    const second = workflowRunRepo.listRuns(projectId, {}, { page: 2, perPage: 2 });
+    expect(second.total).toBe(3);
+    expect(second.runs.map((run) => run.id)).toEqual(["run-1"]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Actions secrets and variables - named values workflow runs receive,
+ * defined for an organization, a repository, a deployment environment
+ * or a single workflow. Secret values are stored sealed by the caller.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SecretScope } from "@platform/shared";
+import { getDb } from "../connection.js";
+
+type ActionsTable = "actions_secrets" | "actions_variables";
+
+interface ActionsValueRow {
+  id: string;
+  scope: string;
+  scope_id: string;
+  name: string;
+  value: string;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Where a secret or variable is defined, e.g. `{ scope: "project", scopeId: <project id> }` */
+export interface ActionsScopeRef {
+  scope: SecretScope;
+  scopeId: string;
+}
+
+/** A secret's metadata; its value is never read back through the API */
+export interface ActionsSecret extends ActionsScopeRef {
+  id: string;
+  name: string;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A secret along with its sealed value */
+export interface StoredActionsSecret extends ActionsSecret {
+  encryptedValue: string;
+}
+
+export interface ActionsVariable extends ActionsSecret {
+  value: string;
+}
+
+function toSecret(row: ActionsValueRow): StoredActionsSecret {
+  return {
+    id: row.id,
+    scope: row.scope as SecretScope,
+    scopeId: row.scope_id,
+    name: row.name,
+    encryptedValue: row.value,
+    createdBy: row.created_by ?? undefined,
+    updatedBy: row.updated_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toVariable(row: ActionsValueRow): ActionsVariable {
+  const { encryptedValue, ...variable } = toSecret(row);
+  return { ...variable, value: encryptedValue };
+}
+
+// ── Shared ──────────────────────────────────────────────────
+
+function upsert(table: ActionsTable, ref: ActionsScopeRef, name: string, value: string, actorId: string): boolean {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const updated = db
+    .prepare(`UPDATE ${table} SET value = ?, updated_by = ?, updated_at = ? WHERE scope = ? AND scope_id = ? AND name = ?`)
+    .run(value, actorId, now, ref.scope, ref.scopeId, name);
+  if (updated.changes > 0) return false;
+
+  db.prepare(
+    `INSERT INTO ${table} (id, scope, scope_id, name, value, created_by, updated_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(randomUUID(), ref.scope, ref.scopeId, name, value, actorId, actorId, now, now);
+  return true;
+}
+
+function find(table: ActionsTable, ref: ActionsScopeRef, name: string): ActionsValueRow | undefined {
+  return getDb()
+    .prepare(`SELECT * FROM ${table} WHERE scope = ? AND scope_id = ? AND name = ?`)
+    .get(ref.scope, ref.scopeId, name) as ActionsValueRow | undefined;
+}
+
+function list(table: ActionsTable, ref: ActionsScopeRef): ActionsValueRow[] {
+  return getDb()
+    .prepare(`SELECT * FROM ${table} WHERE scope = ? AND scope_id = ? ORDER BY name`)
+    .all(ref.scope, ref.scopeId) as ActionsValueRow[];
+}
+
+function remove(table: ActionsTable, ref: ActionsScopeRef, name: string): boolean {
+  const result = getDb()
+    .prepare(`DELETE FROM ${table} WHERE scope = ? AND scope_id = ? AND name = ?`)
+    .run(ref.scope, ref.scopeId, name);
+  return result.changes > 0;
+}
+
+// ── Secrets ─────────────────────────────────────────────────
+
+/**
+ * Create or replace a secret. Returns true when it was created.
+ */
+export function setSecret(ref: ActionsScopeRef, name: string, encryptedValue: string, actorId: string): boolean {
+  return upsert("actions_secrets", ref, name, encryptedValue, actorId);
+}
+
+export function findSecret(ref: ActionsScopeRef, name: string): StoredActionsSecret | null {
+  const row = find("actions_secrets", ref, name);
+  return row ? toSecret(row) : null;
+}
+
+export function listSecrets(ref: ActionsScopeRef): StoredActionsSecret[] {
+  return list("actions_secrets", ref).map(toSecret);
+}
+
+export function deleteSecret(ref: ActionsScopeRef, name: string): boolean {
+  return remove("actions_secrets", ref, name);
+}
+
+// ── Variables ───────────────────────────────────────────────
+
+/**
+ * Create or replace a variable. Returns true when it was created.
+ */
+export function setVariable(ref: ActionsScopeRef, name: string, value: string, actorId: string): boolean {
+  return upsert("actions_variables", ref, name, value, actorId);
+}
+
+export function findVariable(ref: ActionsScopeRef, name: string): ActionsVariable | null {
+  const row = find("actions_variables", ref, name);
+  return row ? toVariable(row) : null;
+}
+
+export function listVariables(ref: ActionsScopeRef): ActionsVariable[] {
+  return list("actions_variables", ref).map(toVariable);
+}
+
+export function deleteVariable(ref: ActionsScopeRef, name: string): boolean {
+  return remove("actions_variables", ref, name);
+}
@@ -89,7 +89,7 @@ export function ensureAnalyticsTables(): boolean {
           id             TEXT PRIMARY KEY,
           event_type     TEXT NOT NULL,
           actor_user_id  TEXT REFERENCES users(id) ON DELETE SET NULL,
-          repository_id  TEXT REFERENCES repositories(id) ON DELETE SET NULL,
+          repository_id  TEXT REFERENCES projects(id) ON DELETE SET NULL,
           value          REAL NOT NULL DEFAULT 1,
           metadata       TEXT NOT NULL DEFAULT '{}',
           occurred_at    TEXT NOT NULL DEFAULT (datetime('now'))
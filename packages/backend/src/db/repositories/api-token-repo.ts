@@ -0,0 +1,114 @@
+/**
+ * Personal access tokens - scoped API tokens users create for the REST
+ * API and git over HTTPS. Only the SHA-256 hash of a token is stored.
+ */
+
+import type { ApiTokenRecord, ApiTokenScope } from "@platform/auth";
+import { getDb } from "../connection.js";
+
+interface ApiTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string | null;
+  scopes: string;
+  last_used: string | null;
+  expires_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+function toTime(value: string | null): number | null {
+  if (!value) return null;
+  // Rows created with SQLite's datetime('now') have no zone designator
+  return Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function toIso(value: number | null): string | null {
+  return value === null ? null : new Date(value).toISOString();
+}
+
+function toApiToken(row: ApiTokenRow): ApiTokenRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    tokenHash: row.token_hash,
+    tokenPrefix: row.token_prefix ?? "",
+    scopes: JSON.parse(row.scopes) as ApiTokenScope[],
+    createdAt: toTime(row.created_at)!,
+    expiresAt: toTime(row.expires_at),
+    lastUsedAt: toTime(row.last_used),
+    revoked: row.revoked_at !== null,
+    revokedAt: toTime(row.revoked_at),
+  };
+}
+
+/**
+ * Store a token record created by `createApiToken`.
+ */
+export function create(record: ApiTokenRecord): ApiTokenRecord {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    record.id,
+    record.userId,
+    record.name,
+    record.tokenHash,
+    record.tokenPrefix,
+    JSON.stringify(record.scopes),
+    toIso(record.expiresAt),
+    toIso(record.createdAt)
+  );
+
+  return findById(record.id)!;
+}
+
+export function findById(id: string): ApiTokenRecord | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM api_tokens WHERE id = ?")
+    .get(id) as ApiTokenRow | undefined;
+  return row ? toApiToken(row) : null;
+}
+
+export function findByHash(tokenHash: string): ApiTokenRecord | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM api_tokens WHERE token_hash = ?")
+    .get(tokenHash) as ApiTokenRow | undefined;
+  return row ? toApiToken(row) : null;
+}
+
+/**
+ * All tokens of a user, including revoked and expired ones, newest first
+ */
+export function listByUser(userId: string): ApiTokenRecord[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC")
+    .all(userId) as ApiTokenRow[];
+  return rows.map(toApiToken);
+}
+
+export function touchLastUsed(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE api_tokens SET last_used = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+/**
+ * Revoke one of a user's tokens. Returns the revoked token, or null
+ * when the user has no such token.
+ */
+export function revoke(userId: string, id: string): ApiTokenRecord | null {
+  const db = getDb();
+  db.prepare(
+    "UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL"
+  ).run(new Date().toISOString(), id, userId);
+
+  const token = findById(id);
+  return token && token.userId === userId ? token : null;
+}
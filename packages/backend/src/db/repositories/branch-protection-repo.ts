@@ -1,117 +1,221 @@
+/**
+ * Branch protection rules - each protects the branches matching its
+ * pattern, in one repository or across an organization's repositories
+ */
+
+import { randomUUID } from "node:crypto";
+import type { BranchProtection, BranchProtectionScope } from "@platform/shared";
 import { getDb } from "../connection.js";
 
-interface BranchProtectionRow {
-  project_id: string;
+interface BranchProtectionRuleRow {
+  id: string;
+  scope: string;
+  scope_id: string;
+  pattern: string;
   require_pull_request: number;
   required_approving_review_count: number;
+  dismiss_stale_reviews: number;
+  require_code_owner_reviews: number;
   require_status_checks: number;
   required_status_checks: string;
   enforce_admins: number;
   require_linear_history: number;
+  require_signed_commits: number;
+  require_merge_queue: number;
+  allow_force_pushes: number;
+  allow_deletions: number;
+  restrict_pushes: number;
+  push_allowances: string;
+  bypass_actors: string;
+  created_at: string;
+  updated_at: string;
 }
 
-export interface BranchProtectionSettings {
-  projectId: string;
-  requirePullRequest: boolean;
-  requiredApprovingReviewCount: number;
-  requireStatusChecks: boolean;
-  requiredStatusChecks: string[];
-  enforceAdmins: boolean;
-  requireLinearHistory: boolean;
+/** Where a rule is defined, e.g. `{ scope: "project", scopeId: <project id> }` */
+export interface BranchProtectionScopeRef {
+  scope: BranchProtectionScope;
+  scopeId: string;
 }
 
-const DEFAULT_BRANCH_PROTECTION: Omit<BranchProtectionSettings, "projectId"> = {
+/** The settings of a rule that can be changed */
+export type BranchProtectionRuleData = Partial<Omit<BranchProtection, "id" | "scope" | "scopeId" | "createdAt" | "updatedAt">>;
+
+const DEFAULT_RULE: Omit<BranchProtection, "id" | "scope" | "scopeId" | "pattern" | "createdAt" | "updatedAt"> = {
   requirePullRequest: true,
   requiredApprovingReviewCount: 0,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
   requireStatusChecks: false,
   requiredStatusChecks: [],
   enforceAdmins: false,
   requireLinearHistory: false,
+  requireSignedCommits: false,
+  requireMergeQueue: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  restrictPushes: false,
+  pushAllowances: [],
+  bypassActors: [],
 };
 
-function toSettings(row: BranchProtectionRow): BranchProtectionSettings {
-  let requiredStatusChecks: string[] = [];
+function parseList(value: string): string[] {
   try {
-    const parsed = JSON.parse(row.required_status_checks);
-    if (Array.isArray(parsed)) {
-      requiredStatusChecks = parsed.filter((check): check is string => typeof check === "string");
-    }
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
   } catch {
-    requiredStatusChecks = [];
+    return [];
   }
+}
 
+function toRule(row: BranchProtectionRuleRow): BranchProtection {
   return {
-    projectId: row.project_id,
+    id: row.id,
+    scope: row.scope as BranchProtectionScope,
+    scopeId: row.scope_id,
+    pattern: row.pattern,
     requirePullRequest: row.require_pull_request === 1,
     requiredApprovingReviewCount: row.required_approving_review_count,
+    dismissStaleReviews: row.dismiss_stale_reviews === 1,
+    requireCodeOwnerReviews: row.require_code_owner_reviews === 1,
     requireStatusChecks: row.require_status_checks === 1,
-    requiredStatusChecks,
+    requiredStatusChecks: parseList(row.required_status_checks),
     enforceAdmins: row.enforce_admins === 1,
     requireLinearHistory: row.require_linear_history === 1,
+    requireSignedCommits: row.require_signed_commits === 1,
+    requireMergeQueue: row.require_merge_queue === 1,
+    allowForcePushes: row.allow_force_pushes === 1,
+    allowDeletions: row.allow_deletions === 1,
+    restrictPushes: row.restrict_pushes === 1,
+    pushAllowances: parseList(row.push_allowances),
+    bypassActors: parseList(row.bypass_actors),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
   };
 }
 
-export function findByProjectId(projectId: string): BranchProtectionSettings {
-  const db = getDb();
-  const row = db
-    .prepare("SELECT * FROM project_branch_protection WHERE project_id = ?")
-    .get(projectId) as BranchProtectionRow | undefined;
-
-  if (!row) {
-    return {
-      projectId,
-      ...DEFAULT_BRANCH_PROTECTION,
-    };
-  }
-
-  return toSettings(row);
-}
-
-export function upsertByProjectId(
-  projectId: string,
-  input: Partial<Omit<BranchProtectionSettings, "projectId">>
-): BranchProtectionSettings {
-  const db = getDb();
-  const now = new Date().toISOString();
-  const current = findByProjectId(projectId);
-
-  const next: BranchProtectionSettings = {
-    ...current,
-    ...input,
-    projectId,
-  };
-
-  db.prepare(
-    `INSERT INTO project_branch_protection (
-      project_id,
-      require_pull_request,
-      required_approving_review_count,
-      require_status_checks,
-      required_status_checks,
-      enforce_admins,
-      require_linear_history,
-      created_at,
-      updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(project_id) DO UPDATE SET
+function write(rule: BranchProtection): void {
+  getDb().prepare(
+    `INSERT INTO branch_protection_rules (
+      id, scope, scope_id, pattern,
+      require_pull_request, required_approving_review_count, dismiss_stale_reviews, require_code_owner_reviews,
+      require_status_checks, required_status_checks, enforce_admins, require_linear_history,
+      require_signed_commits, require_merge_queue, allow_force_pushes, allow_deletions,
+      restrict_pushes, push_allowances, bypass_actors,
+      created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      pattern = excluded.pattern,
       require_pull_request = excluded.require_pull_request,
       required_approving_review_count = excluded.required_approving_review_count,
+      dismiss_stale_reviews = excluded.dismiss_stale_reviews,
+      require_code_owner_reviews = excluded.require_code_owner_reviews,
       require_status_checks = excluded.require_status_checks,
       required_status_checks = excluded.required_status_checks,
       enforce_admins = excluded.enforce_admins,
       require_linear_history = excluded.require_linear_history,
+      require_signed_commits = excluded.require_signed_commits,
+      require_merge_queue = excluded.require_merge_queue,
+      allow_force_pushes = excluded.allow_force_pushes,
+      allow_deletions = excluded.allow_deletions,
+      restrict_pushes = excluded.restrict_pushes,
+      push_allowances = excluded.push_allowances,
+      bypass_actors = excluded.bypass_actors,
       updated_at = excluded.updated_at`,
   ).run(
-    projectId,
-    next.requirePullRequest ? 1 : 0,
-    next.requiredApprovingReviewCount,
-    next.requireStatusChecks ? 1 : 0,
-    JSON.stringify(next.requiredStatusChecks),
-    next.enforceAdmins ? 1 : 0,
-    next.requireLinearHistory ? 1 : 0,
-    now,
-    now,
+    rule.id,
+    rule.scope,
+    rule.scopeId,
+    rule.pattern,
+    rule.requirePullRequest ? 1 : 0,
+    rule.requiredApprovingReviewCount,
+    rule.dismissStaleReviews ? 1 : 0,
+    rule.requireCodeOwnerReviews ? 1 : 0,
+    rule.requireStatusChecks ? 1 : 0,
+    JSON.stringify(rule.requiredStatusChecks),
+    rule.enforceAdmins ? 1 : 0,
+    rule.requireLinearHistory ? 1 : 0,
+    rule.requireSignedCommits ? 1 : 0,
+    rule.requireMergeQueue ? 1 : 0,
+    rule.allowForcePushes ? 1 : 0,
+    rule.allowDeletions ? 1 : 0,
+    rule.restrictPushes ? 1 : 0,
+    JSON.stringify(rule.pushAllowances),
+    JSON.stringify(rule.bypassActors),
+    rule.createdAt,
+    rule.updatedAt,
   );
+}
+
+/** Drop the keys of `data` left undefined so they don't overwrite settings */
+function definedSettings(data: BranchProtectionRuleData): BranchProtectionRuleData {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  ) as BranchProtectionRuleData;
+}
+
+export function createRule(
+  ref: BranchProtectionScopeRef,
+  pattern: string,
+  data: BranchProtectionRuleData = {}
+): BranchProtection {
+  const now = new Date().toISOString();
+  const rule: BranchProtection = {
+    ...DEFAULT_RULE,
+    ...definedSettings(data),
+    id: randomUUID(),
+    scope: ref.scope,
+    scopeId: ref.scopeId,
+    pattern,
+    createdAt: now,
+    updatedAt: now,
+  };
+  write(rule);
+  return rule;
+}
+
+export function updateRule(id: string, data: BranchProtectionRuleData): BranchProtection | null {
+  const current = findRuleById(id);
+  if (!current) return null;
+
+  const rule: BranchProtection = {
+    ...current,
+    ...definedSettings(data),
+    updatedAt: new Date().toISOString(),
+  };
+  write(rule);
+  return rule;
+}
+
+export function findRuleById(id: string): BranchProtection | null {
+  const row = getDb()
+    .prepare("SELECT * FROM branch_protection_rules WHERE id = ?")
+    .get(id) as BranchProtectionRuleRow | undefined;
+  return row ? toRule(row) : null;
+}
+
+export function findRule(ref: BranchProtectionScopeRef, pattern: string): BranchProtection | null {
+  const row = getDb()
+    .prepare("SELECT * FROM branch_protection_rules WHERE scope = ? AND scope_id = ? AND pattern = ?")
+    .get(ref.scope, ref.scopeId, pattern) as BranchProtectionRuleRow | undefined;
+  return row ? toRule(row) : null;
+}
+
+export function listRules(ref: BranchProtectionScopeRef): BranchProtection[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM branch_protection_rules WHERE scope = ? AND scope_id = ? ORDER BY created_at, pattern")
+    .all(ref.scope, ref.scopeId) as BranchProtectionRuleRow[];
+  return rows.map(toRule);
+}
+
+/**
+ * The rules that can apply to a project's branches: its own followed by
+ * those of its organization
+ */
+export function listRulesForProject(projectId: string, orgId?: string): BranchProtection[] {
+  const rules = listRules({ scope: "project", scopeId: projectId });
+  return orgId ? [...rules, ...listRules({ scope: "organization", scopeId: orgId })] : rules;
+}
 
-  return findByProjectId(projectId);
+export function deleteRule(id: string): boolean {
+  return getDb().prepare("DELETE FROM branch_protection_rules WHERE id = ?").run(id).changes > 0;
 }
@@ -0,0 +1,152 @@
+/**
+ * Repository access grants - direct collaborators and organization teams
+ * that were given a role on a project
+ */
+
+import type {
+  Collaborator,
+  CollaboratorPermission,
+  CollaboratorPermissions,
+} from "@platform/shared/types/repository";
+import { getDb } from "../connection.js";
+
+interface CollaboratorRow {
+  id: string;
+  username: string;
+  email: string | null;
+  avatar_url: string | null;
+  permission: string;
+  added_at: string;
+}
+
+interface TeamGrantRow {
+  team_id: string;
+  team_name: string;
+  team_slug: string;
+  permission: string;
+}
+
+/** A team's role on a project together with the team's members. */
+export interface TeamGrant {
+  teamId: string;
+  teamName: string;
+  teamSlug: string;
+  permission: CollaboratorPermission;
+  memberIds: string[];
+}
+
+function toPermissions(role: CollaboratorPermission): CollaboratorPermissions {
+  return {
+    admin: role === "admin",
+    maintain: role === "admin" || role === "maintain",
+    push: role === "admin" || role === "maintain" || role === "push",
+    triage: role !== "pull",
+    pull: true,
+  };
+}
+
+function toCollaborator(row: CollaboratorRow): Collaborator {
+  const role = row.permission as CollaboratorPermission;
+  return {
+    id: row.id,
+    username: row.username,
+    email: row.email ?? undefined,
+    avatarUrl: row.avatar_url ?? undefined,
+    role,
+    permissions: toPermissions(role),
+    addedAt: row.added_at,
+  };
+}
+
+/**
+ * Add a collaborator, or change the role of an existing one.
+ */
+export function upsert(projectId: string, userId: string, permission: CollaboratorPermission): Collaborator {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO repository_collaborators (repository_id, user_id, permission, added_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(repository_id, user_id) DO UPDATE SET permission = excluded.permission`
+  ).run(projectId, userId, permission, new Date().toISOString());
+
+  return find(projectId, userId)!;
+}
+
+export function find(projectId: string, userId: string): Collaborator | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT u.id, u.username, u.email, u.avatar_url, rc.permission, rc.added_at
+       FROM repository_collaborators rc
+       JOIN users u ON u.id = rc.user_id
+       WHERE rc.repository_id = ? AND rc.user_id = ?`
+    )
+    .get(projectId, userId) as CollaboratorRow | undefined;
+  return row ? toCollaborator(row) : null;
+}
+
+export function listByProject(projectId: string): Collaborator[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT u.id, u.username, u.email, u.avatar_url, rc.permission, rc.added_at
+       FROM repository_collaborators rc
+       JOIN users u ON u.id = rc.user_id
+       WHERE rc.repository_id = ?
+       ORDER BY rc.added_at ASC`
+    )
+    .all(projectId) as CollaboratorRow[];
+  return rows.map(toCollaborator);
+}
+
+export function remove(projectId: string, userId: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare("DELETE FROM repository_collaborators WHERE repository_id = ? AND user_id = ?")
+    .run(projectId, userId);
+  return result.changes > 0;
+}
+
+/**
+ * Teams granted a role on a project, with their member ids
+ */
+export function listTeamGrants(projectId: string): TeamGrant[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT t.id AS team_id, t.name AS team_name, t.slug AS team_slug, tr.permission
+       FROM team_repositories tr
+       JOIN teams t ON t.id = tr.team_id
+       WHERE tr.repository_id = ?`
+    )
+    .all(projectId) as TeamGrantRow[];
+
+  const members = db.prepare("SELECT user_id FROM team_members WHERE team_id = ?");
+  return rows.map((row) => ({
+    teamId: row.team_id,
+    teamName: row.team_name,
+    teamSlug: row.team_slug,
+    permission: row.permission as CollaboratorPermission,
+    memberIds: (members.all(row.team_id) as Array<{ user_id: string }>).map((m) => m.user_id),
+  }));
+}
+
+/**
+ * Give a team a role on a project, or change its existing role.
+ */
+export function grantTeam(teamId: string, projectId: string, permission: CollaboratorPermission): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO team_repositories (team_id, repository_id, permission, added_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(team_id, repository_id) DO UPDATE SET permission = excluded.permission`
+  ).run(teamId, projectId, permission, new Date().toISOString());
+}
+
+export function revokeTeam(teamId: string, projectId: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare("DELETE FROM team_repositories WHERE team_id = ? AND repository_id = ?")
+    .run(teamId, projectId);
+  return result.changes > 0;
+}
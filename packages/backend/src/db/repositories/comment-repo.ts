@@ -4,8 +4,6 @@
 
 import { randomUUID } from "node:crypto";
 import { getDb } from "../connection.js";
-import * as notificationRepo from "./notification-repo.js";
-import * as userRepo from "./user-repo.js";
 
 interface Comment {
     id: string;
@@ -72,13 +70,12 @@ function toPRComment(row: PRCommentRow): PRComment {
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Create a new issue comment and handle @mentions
+ * Create a new issue comment
  */
 export function createIssueComment(
     issueId: string,
     authorId: string,
-    body: string,
-    issueTitle?: string
+    body: string
 ): IssueComment {
     const db = getDb();
     const id = randomUUID();
@@ -92,21 +89,6 @@ export function createIssueComment(
     // Update issue's updated_at timestamp
     db.prepare("UPDATE issues SET updated_at = ? WHERE id = ?").run(now, issueId);
 
-    // Create mention notifications
-    if (issueTitle) {
-        notificationRepo.createMentionNotifications(
-            body,
-            authorId,
-            "issue",
-            issueId,
-            issueTitle,
-            (username) => {
-                const user = userRepo.findByUsername(username);
-                return user ? user.id : null;
-            }
-        );
-    }
-
     return getIssueComment(id)!;
 }
 
@@ -170,13 +152,12 @@ export function countIssueComments(issueId: string): number {
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Create a new PR comment and handle @mentions
+ * Create a new PR comment
  */
 export function createPRComment(
     prId: string,
     authorId: string,
-    body: string,
-    prTitle?: string
+    body: string
 ): PRComment {
     const db = getDb();
     const id = randomUUID();
@@ -190,21 +171,6 @@ export function createPRComment(
     // Update PR's updated_at timestamp
     db.prepare("UPDATE pull_requests SET updated_at = ? WHERE id = ?").run(now, prId);
 
-    // Create mention notifications
-    if (prTitle) {
-        notificationRepo.createMentionNotifications(
-            body,
-            authorId,
-            "pull_request",
-            prId,
-            prTitle,
-            (username) => {
-                const user = userRepo.findByUsername(username);
-                return user ? user.id : null;
-            }
-        );
-    }
-
     return getPRComment(id)!;
 }
 
@@ -220,12 +186,13 @@ export function getPRComment(id: string): PRComment | null {
 }
 
 /**
- * List all comments for a PR
+ * List the conversation comments of a PR, leaving out review comments
+ * on its diff
  */
 export function listPRComments(prId: string): PRComment[] {
     const db = getDb();
     const rows = db
-        .prepare("SELECT * FROM pr_comments WHERE pr_id = ? ORDER BY created_at ASC")
+        .prepare("SELECT * FROM pr_comments WHERE pr_id = ? AND thread_id IS NULL ORDER BY created_at ASC")
         .all(prId) as PRCommentRow[];
     return rows.map(toPRComment);
 }
@@ -0,0 +1,108 @@
+/**
+ * Deploy keys - SSH keys that grant read (or read/write) access to a
+ * single project rather than to a user account
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+interface DeployKeyRow {
+  id: string;
+  repository_id: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+  read_only: number;
+  verified: number;
+  created_at: string;
+  last_used: string | null;
+}
+
+export interface ProjectDeployKey {
+  id: string;
+  projectId: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+  readOnly: boolean;
+  createdAt: string;
+  lastUsed?: string;
+}
+
+export interface CreateDeployKeyInput {
+  projectId: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+  readOnly?: boolean;
+}
+
+function toDeployKey(row: DeployKeyRow): ProjectDeployKey {
+  return {
+    id: row.id,
+    projectId: row.repository_id,
+    title: row.title,
+    key: row.key,
+    fingerprint: row.fingerprint,
+    readOnly: row.read_only === 1,
+    createdAt: row.created_at,
+    lastUsed: row.last_used ?? undefined,
+  };
+}
+
+export function create(input: CreateDeployKeyInput): ProjectDeployKey {
+  const db = getDb();
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO deploy_keys (id, repository_id, title, key, fingerprint, read_only, verified, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?)`
+  ).run(
+    id,
+    input.projectId,
+    input.title,
+    input.key,
+    input.fingerprint,
+    input.readOnly === false ? 0 : 1,
+    new Date().toISOString()
+  );
+
+  return findById(id)!;
+}
+
+export function findById(id: string): ProjectDeployKey | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM deploy_keys WHERE id = ?").get(id) as DeployKeyRow | undefined;
+  return row ? toDeployKey(row) : null;
+}
+
+export function findByFingerprint(fingerprint: string): ProjectDeployKey | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM deploy_keys WHERE fingerprint = ?")
+    .get(fingerprint) as DeployKeyRow | undefined;
+  return row ? toDeployKey(row) : null;
+}
+
+export function listByProject(projectId: string): ProjectDeployKey[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM deploy_keys WHERE repository_id = ? ORDER BY created_at DESC")
+    .all(projectId) as DeployKeyRow[];
+  return rows.map(toDeployKey);
+}
+
+export function touchLastUsed(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE deploy_keys SET last_used = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+/**
+ * Delete one of a project's deploy keys.
+ */
+export function remove(projectId: string, id: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare("DELETE FROM deploy_keys WHERE id = ? AND repository_id = ?")
+    .run(id, projectId);
+  return result.changes > 0;
+}
@@ -0,0 +1,406 @@
+/**
+ * Deployment environments - the targets workflow jobs deploy to, their
+ * protection rules, and every deployment made to them along with its
+ * status history and reviews
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  BranchPolicy,
+  DeploymentRollback,
+  DeploymentStatus,
+  EnvironmentProtectionRule,
+} from "@platform/shared";
+import { getDb } from "../connection.js";
+
+interface EnvironmentRow {
+  id: string;
+  project_id: string;
+  name: string;
+  protection_rules: string;
+  branch_policy: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DeploymentRow {
+  id: string;
+  project_id: string;
+  environment_id: string;
+  run_id: string | null;
+  job_id: string | null;
+  commit_sha: string | null;
+  ref: string;
+  url: string | null;
+  status: string;
+  initiated_by: string | null;
+  rollback: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+interface DeploymentStatusRow {
+  id: string;
+  deployment_id: string;
+  status: string;
+  description: string | null;
+  actor_id: string | null;
+  created_at: string;
+}
+
+interface DeploymentReviewRow {
+  id: string;
+  deployment_id: string;
+  reviewer_id: string | null;
+  state: string;
+  comment: string | null;
+  created_at: string;
+}
+
+export interface DeploymentEnvironment {
+  id: string;
+  projectId: string;
+  name: string;
+  protectionRules: EnvironmentProtectionRule[];
+  /** Branches that may deploy; any branch when unset */
+  branchPolicy?: BranchPolicy;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A workflow job's deployment to an environment */
+export interface Deployment {
+  id: string;
+  projectId: string;
+  environmentId: string;
+  runId?: string;
+  jobId?: string;
+  commitSha?: string;
+  ref: string;
+  url?: string;
+  status: DeploymentStatus;
+  initiatedBy?: string;
+  /** Set once a rollback replaced this deployment with an earlier one */
+  rollback?: DeploymentRollback;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  updatedAt: string;
+}
+
+/** One entry of a deployment's status history */
+export interface DeploymentStatusEntry {
+  id: string;
+  deploymentId: string;
+  status: DeploymentStatus;
+  description?: string;
+  actorId?: string;
+  createdAt: string;
+}
+
+export type DeploymentReviewState = "approved" | "rejected";
+
+export interface DeploymentReview {
+  id: string;
+  deploymentId: string;
+  reviewerId?: string;
+  state: DeploymentReviewState;
+  comment?: string;
+  createdAt: string;
+}
+
+export interface CreateDeploymentData {
+  projectId: string;
+  environmentId: string;
+  runId?: string;
+  jobId?: string;
+  commitSha?: string;
+  ref: string;
+  url?: string;
+  status: DeploymentStatus;
+  initiatedBy?: string;
+  description?: string;
+}
+
+interface UpdateEnvironmentData {
+  protectionRules?: EnvironmentProtectionRule[];
+  /** null lets every branch deploy */
+  branchPolicy?: BranchPolicy | null;
+}
+
+function toEnvironment(row: EnvironmentRow): DeploymentEnvironment {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    protectionRules: JSON.parse(row.protection_rules),
+    branchPolicy: row.branch_policy ? JSON.parse(row.branch_policy) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toDeployment(row: DeploymentRow): Deployment {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    environmentId: row.environment_id,
+    runId: row.run_id ?? undefined,
+    jobId: row.job_id ?? undefined,
+    commitSha: row.commit_sha ?? undefined,
+    ref: row.ref,
+    url: row.url ?? undefined,
+    status: row.status as DeploymentStatus,
+    initiatedBy: row.initiated_by ?? undefined,
+    rollback: row.rollback ? JSON.parse(row.rollback) : undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toStatusEntry(row: DeploymentStatusRow): DeploymentStatusEntry {
+  return {
+    id: row.id,
+    deploymentId: row.deployment_id,
+    status: row.status as DeploymentStatus,
+    description: row.description ?? undefined,
+    actorId: row.actor_id ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function toReview(row: DeploymentReviewRow): DeploymentReview {
+  return {
+    id: row.id,
+    deploymentId: row.deployment_id,
+    reviewerId: row.reviewer_id ?? undefined,
+    state: row.state as DeploymentReviewState,
+    comment: row.comment ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// ── Environments ────────────────────────────────────────────
+
+export function createEnvironment(projectId: string, name: string, data: UpdateEnvironmentData = {}): DeploymentEnvironment {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  getDb()
+    .prepare(
+      `INSERT INTO environments (id, project_id, name, protection_rules, branch_policy, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      projectId,
+      name,
+      JSON.stringify(data.protectionRules ?? []),
+      data.branchPolicy ? JSON.stringify(data.branchPolicy) : null,
+      now,
+      now
+    );
+  return findEnvironmentById(id)!;
+}
+
+export function findEnvironmentById(id: string): DeploymentEnvironment | null {
+  const row = getDb().prepare("SELECT * FROM environments WHERE id = ?").get(id) as EnvironmentRow | undefined;
+  return row ? toEnvironment(row) : null;
+}
+
+/**
+ * Find an environment by name, ignoring case
+ */
+export function findEnvironment(projectId: string, name: string): DeploymentEnvironment | null {
+  const row = getDb()
+    .prepare("SELECT * FROM environments WHERE project_id = ? AND name = ?")
+    .get(projectId, name) as EnvironmentRow | undefined;
+  return row ? toEnvironment(row) : null;
+}
+
+export function listEnvironments(projectId: string): DeploymentEnvironment[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM environments WHERE project_id = ? ORDER BY name")
+    .all(projectId) as EnvironmentRow[];
+  return rows.map(toEnvironment);
+}
+
+export function updateEnvironment(id: string, data: UpdateEnvironmentData): void {
+  const sets: string[] = ["updated_at = ?"];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (data.protectionRules !== undefined) {
+    sets.push("protection_rules = ?");
+    values.push(JSON.stringify(data.protectionRules));
+  }
+  if (data.branchPolicy !== undefined) {
+    sets.push("branch_policy = ?");
+    values.push(data.branchPolicy ? JSON.stringify(data.branchPolicy) : null);
+  }
+
+  values.push(id);
+  getDb().prepare(`UPDATE environments SET ${sets.join(", ")} WHERE id = ?`).run(...values);
+}
+
+export function deleteEnvironment(id: string): boolean {
+  return getDb().prepare("DELETE FROM environments WHERE id = ?").run(id).changes > 0;
+}
+
+// ── Deployments ─────────────────────────────────────────────
+
+/**
+ * Record a deployment along with the first entry of its status history
+ */
+export function createDeployment(data: CreateDeploymentData): Deployment {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO deployments
+         (id, project_id, environment_id, run_id, job_id, commit_sha, ref, url, status, initiated_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      data.projectId,
+      data.environmentId,
+      data.runId ?? null,
+      data.jobId ?? null,
+      data.commitSha ?? null,
+      data.ref,
+      data.url ?? null,
+      data.status,
+      data.initiatedBy ?? null,
+      now,
+      now
+    );
+    insertStatus(id, data.status, data.description, data.initiatedBy, now);
+  })();
+
+  return findDeploymentById(id)!;
+}
+
+function insertStatus(deploymentId: string, status: DeploymentStatus, description: string | undefined, actorId: string | undefined, at: string): void {
+  getDb()
+    .prepare(
+      `INSERT INTO deployment_statuses (id, deployment_id, status, description, actor_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(randomUUID(), deploymentId, status, description ?? null, actorId ?? null, at);
+}
+
+/**
+ * Move a deployment to a new status and add it to the status history.
+ * The deployment starts when it goes in progress and completes once it
+ * reaches a final status.
+ */
+export function updateDeploymentStatus(
+  id: string,
+  status: DeploymentStatus,
+  description?: string,
+  actorId?: string
+): void {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const final = !["pending", "queued", "in_progress"].includes(status);
+
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE deployments SET
+         status = ?,
+         started_at = CASE WHEN ? AND started_at IS NULL THEN ? ELSE started_at END,
+         completed_at = CASE WHEN ? THEN COALESCE(completed_at, ?) ELSE completed_at END,
+         updated_at = ?
+       WHERE id = ?`
+    ).run(status, status === "in_progress" ? 1 : 0, now, final ? 1 : 0, now, now, id);
+    insertStatus(id, status, description, actorId, now);
+  })();
+}
+
+/**
+ * Mark a deployment as replaced by a rollback
+ */
+export function recordRollback(id: string, rollback: DeploymentRollback): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("UPDATE deployments SET status = 'rolled_back', rollback = ?, updated_at = ? WHERE id = ?")
+      .run(JSON.stringify(rollback), rollback.rolledBackAt, id);
+    insertStatus(id, "rolled_back", rollback.reason, rollback.initiatedBy, rollback.rolledBackAt);
+  })();
+}
+
+export function findDeploymentById(id: string): Deployment | null {
+  const row = getDb().prepare("SELECT * FROM deployments WHERE id = ?").get(id) as DeploymentRow | undefined;
+  return row ? toDeployment(row) : null;
+}
+
+/**
+ * An environment's deployments, newest first
+ */
+export function listDeployments(environmentId: string, limit = 50): Deployment[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM deployments WHERE environment_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?")
+    .all(environmentId, limit) as DeploymentRow[];
+  return rows.map(toDeployment);
+}
+
+export function listRunDeployments(runId: string): Deployment[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM deployments WHERE run_id = ? ORDER BY created_at, rowid")
+    .all(runId) as DeploymentRow[];
+  return rows.map(toDeployment);
+}
+
+/**
+ * The newest deployment of an environment that succeeded
+ */
+export function findLatestSuccessfulDeployment(environmentId: string): Deployment | null {
+  const row = getDb()
+    .prepare(
+      `SELECT * FROM deployments WHERE environment_id = ? AND status = 'success'
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`
+    )
+    .get(environmentId) as DeploymentRow | undefined;
+  return row ? toDeployment(row) : null;
+}
+
+/**
+ * Deployments that have not reached a final status
+ */
+export function listUnfinishedDeployments(): Deployment[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM deployments WHERE status IN ('pending', 'queued', 'in_progress')")
+    .all() as DeploymentRow[];
+  return rows.map(toDeployment);
+}
+
+// ── Status history and reviews ──────────────────────────────
+
+export function listDeploymentStatuses(deploymentId: string): DeploymentStatusEntry[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM deployment_statuses WHERE deployment_id = ? ORDER BY created_at, rowid")
+    .all(deploymentId) as DeploymentStatusRow[];
+  return rows.map(toStatusEntry);
+}
+
+export function addReview(deploymentId: string, reviewerId: string, state: DeploymentReviewState, comment?: string): DeploymentReview {
+  const id = randomUUID();
+  getDb()
+    .prepare(
+      `INSERT INTO deployment_reviews (id, deployment_id, reviewer_id, state, comment, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, deploymentId, reviewerId, state, comment ?? null, new Date().toISOString());
+  return toReview(getDb().prepare("SELECT * FROM deployment_reviews WHERE id = ?").get(id) as DeploymentReviewRow);
+}
+
+export function listReviews(deploymentId: string): DeploymentReview[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM deployment_reviews WHERE deployment_id = ? ORDER BY created_at, rowid")
+    .all(deploymentId) as DeploymentReviewRow[];
+  return rows.map(toReview);
+}
@@ -0,0 +1,154 @@
+/**
+ * Event outbox - domain events waiting to be dispatched to subscribers,
+ * with a receipt for every subscriber that has handled each event
+ */
+
+import type { BaseEvent, EventSeverity, EventSource } from "@platform/shared";
+import { getDb } from "../connection.js";
+
+export type OutboxStatus = "pending" | "dispatched" | "failed";
+
+interface OutboxRow {
+  sequence: number;
+  id: string;
+  type: string;
+  version: number;
+  source: string;
+  severity: string;
+  organization_id: string;
+  actor_id: string | null;
+  payload: string;
+  metadata: string;
+  occurred_at: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  dispatched_at: string | null;
+}
+
+export interface OutboxEvent extends BaseEvent {
+  /** Position in the outbox; events are dispatched in this order. */
+  sequence: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  dispatchedAt?: string;
+}
+
+function toOutboxEvent(row: OutboxRow): OutboxEvent {
+  return {
+    sequence: row.sequence,
+    id: row.id,
+    type: row.type,
+    version: row.version,
+    source: row.source as EventSource,
+    severity: row.severity as EventSeverity,
+    organizationId: row.organization_id,
+    actorId: row.actor_id,
+    payload: JSON.parse(row.payload) as unknown,
+    metadata: JSON.parse(row.metadata) as BaseEvent["metadata"],
+    timestamp: row.occurred_at,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
+    lastError: row.last_error ?? undefined,
+    dispatchedAt: row.dispatched_at ?? undefined,
+  };
+}
+
+export function append(event: BaseEvent): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO event_outbox
+       (id, type, version, source, severity, organization_id, actor_id, payload, metadata, occurred_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    event.id,
+    event.type,
+    event.version,
+    event.source,
+    event.severity,
+    event.organizationId,
+    event.actorId,
+    JSON.stringify(event.payload),
+    JSON.stringify(event.metadata),
+    event.timestamp,
+  );
+}
+
+export function findById(id: string): OutboxEvent | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM event_outbox WHERE id = ?").get(id) as OutboxRow | undefined;
+  return row ? toOutboxEvent(row) : null;
+}
+
+/**
+ * Pending events that are due for a dispatch attempt, oldest first.
+ */
+export function listDue(now: Date, limit = 100): OutboxEvent[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT * FROM event_outbox
+       WHERE status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+       ORDER BY sequence
+       LIMIT ?`
+    )
+    .all(now.toISOString(), limit) as OutboxRow[];
+  return rows.map(toOutboxEvent);
+}
+
+/**
+ * Names of the subscribers that have already handled an event.
+ */
+export function listReceipts(eventId: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT subscriber FROM event_subscriber_receipts WHERE event_id = ?")
+    .all(eventId) as Array<{ subscriber: string }>;
+  return rows.map((row) => row.subscriber);
+}
+
+export function recordReceipt(eventId: string, subscriber: string): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT OR IGNORE INTO event_subscriber_receipts (event_id, subscriber, handled_at)
+     VALUES (?, ?, ?)`
+  ).run(eventId, subscriber, new Date().toISOString());
+}
+
+export function markDispatched(id: string): void {
+  const db = getDb();
+  db.prepare(
+    `UPDATE event_outbox
+     SET status = 'dispatched', attempts = attempts + 1, next_attempt_at = NULL, dispatched_at = ?
+     WHERE id = ?`
+  ).run(new Date().toISOString(), id);
+}
+
+/**
+ * Record a dispatch attempt in which a subscriber failed. Without a
+ * `nextAttemptAt` the event is given up on and marked failed.
+ */
+export function markAttemptFailed(id: string, error: string, nextAttemptAt?: string): void {
+  const db = getDb();
+  db.prepare(
+    `UPDATE event_outbox
+     SET status = ?, attempts = attempts + 1, next_attempt_at = ?, last_error = ?
+     WHERE id = ?`
+  ).run(nextAttemptAt ? "pending" : "failed", nextAttemptAt ?? null, error, id);
+}
+
+/**
+ * Delete dispatched events older than `daysOld` days.
+ */
+export function pruneDispatched(daysOld = 7): number {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000).toISOString();
+  const result = db
+    .prepare("DELETE FROM event_outbox WHERE status = 'dispatched' AND dispatched_at < ?")
+    .run(cutoff);
+  return result.changes;
+}
@@ -0,0 +1,87 @@
+/**
+ * Git LFS object repository - which LFS objects each project stores,
+ * used for storage accounting against the owner's plan
+ */
+
+import { getDb } from "../connection.js";
+
+interface LfsObjectRow {
+  project_id: string;
+  oid: string;
+  size: number;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface LfsObjectRecord {
+  projectId: string;
+  oid: string;
+  size: number;
+  uploadedBy?: string;
+  createdAt: string;
+}
+
+function toLfsObject(row: LfsObjectRow): LfsObjectRecord {
+  return {
+    projectId: row.project_id,
+    oid: row.oid,
+    size: row.size,
+    uploadedBy: row.uploaded_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Record a stored LFS object for a project. Recording the same object
+ * again is a no-op.
+ */
+export function recordObject(
+  projectId: string,
+  oid: string,
+  size: number,
+  uploadedBy?: string
+): LfsObjectRecord {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO lfs_objects (project_id, oid, size, uploaded_by, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(project_id, oid) DO NOTHING`
+  ).run(projectId, oid, size, uploadedBy ?? null, new Date().toISOString());
+
+  return findObject(projectId, oid)!;
+}
+
+export function findObject(projectId: string, oid: string): LfsObjectRecord | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM lfs_objects WHERE project_id = ? AND oid = ?")
+    .get(projectId, oid) as LfsObjectRow | undefined;
+  return row ? toLfsObject(row) : null;
+}
+
+/**
+ * Total LFS bytes stored by a project
+ */
+export function getProjectUsage(projectId: string): number {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT COALESCE(SUM(size), 0) as total FROM lfs_objects WHERE project_id = ?")
+    .get(projectId) as { total: number };
+  return row.total;
+}
+
+/**
+ * Total LFS bytes stored across every project owned by a user
+ */
+export function getOwnerUsage(ownerId: string): number {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT COALESCE(SUM(l.size), 0) as total
+       FROM lfs_objects l
+       JOIN projects p ON p.id = l.project_id
+       WHERE p.owner_id = ?`
+    )
+    .get(ownerId) as { total: number };
+  return row.total;
+}
@@ -0,0 +1,148 @@
+/**
+ * Merge queue entries - pull requests waiting to land on a protected
+ * branch, in the order they were queued
+ */
+
+import { randomUUID } from "node:crypto";
+import type { PrMergeMethod } from "@platform/git";
+import { getDb } from "../connection.js";
+
+interface MergeQueueEntryRow {
+  id: string;
+  project_id: string;
+  base_branch: string;
+  pr_id: string;
+  merge_method: string;
+  enqueued_by: string | null;
+  state: string;
+  failure_reason: string | null;
+  parent_sha: string | null;
+  queue_sha: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** `failed` entries were ejected from the queue and stay until the pull request is queued again */
+export type MergeQueueEntryState = "queued" | "failed";
+
+export interface MergeQueueEntry {
+  id: string;
+  projectId: string;
+  baseBranch: string;
+  prId: string;
+  mergeMethod: PrMergeMethod;
+  enqueuedBy?: string;
+  state: MergeQueueEntryState;
+  failureReason?: string;
+  /** Commit the entry was built on: the base branch tip or the entry ahead of it */
+  parentSha?: string;
+  /** Commit the queue branch of the entry points at, once built */
+  queueSha?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueueData {
+  projectId: string;
+  baseBranch: string;
+  prId: string;
+  mergeMethod: PrMergeMethod;
+  enqueuedBy: string;
+}
+
+function toEntry(row: MergeQueueEntryRow): MergeQueueEntry {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    baseBranch: row.base_branch,
+    prId: row.pr_id,
+    mergeMethod: row.merge_method as PrMergeMethod,
+    enqueuedBy: row.enqueued_by ?? undefined,
+    state: row.state as MergeQueueEntryState,
+    failureReason: row.failure_reason ?? undefined,
+    parentSha: row.parent_sha ?? undefined,
+    queueSha: row.queue_sha ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Add a pull request to the back of its base branch's queue. A pull
+ * request ejected earlier is queued again in place of its failed entry.
+ */
+export function enqueue(data: EnqueueData): MergeQueueEntry {
+  const now = new Date().toISOString();
+  getDb().prepare(
+    `INSERT INTO merge_queue_entries (id, project_id, base_branch, pr_id, merge_method, enqueued_by, state, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'queued', ?, ?)
+    ON CONFLICT(pr_id) DO UPDATE SET
+      base_branch = excluded.base_branch,
+      merge_method = excluded.merge_method,
+      enqueued_by = excluded.enqueued_by,
+      state = 'queued',
+      failure_reason = NULL,
+      parent_sha = NULL,
+      queue_sha = NULL,
+      created_at = excluded.created_at,
+      updated_at = excluded.updated_at`,
+  ).run(randomUUID(), data.projectId, data.baseBranch, data.prId, data.mergeMethod, data.enqueuedBy, now, now);
+  return findByPrId(data.prId)!;
+}
+
+export function findByPrId(prId: string): MergeQueueEntry | null {
+  const row = getDb()
+    .prepare("SELECT * FROM merge_queue_entries WHERE pr_id = ?")
+    .get(prId) as MergeQueueEntryRow | undefined;
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * The queued entries of a branch, front of the queue first
+ */
+export function listQueued(projectId: string, baseBranch: string): MergeQueueEntry[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM merge_queue_entries
+        WHERE project_id = ? AND base_branch = ? AND state = 'queued'
+        ORDER BY created_at, rowid`,
+    )
+    .all(projectId, baseBranch) as MergeQueueEntryRow[];
+  return rows.map(toEntry);
+}
+
+/**
+ * The queued entry built at a commit, if any
+ */
+export function findByQueueSha(projectId: string, queueSha: string): MergeQueueEntry | null {
+  const row = getDb()
+    .prepare("SELECT * FROM merge_queue_entries WHERE project_id = ? AND queue_sha = ? AND state = 'queued'")
+    .get(projectId, queueSha) as MergeQueueEntryRow | undefined;
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Record the commit an entry was built at, or clear it with nulls
+ */
+export function setBuild(id: string, parentSha: string | null, queueSha: string | null): void {
+  getDb()
+    .prepare("UPDATE merge_queue_entries SET parent_sha = ?, queue_sha = ?, updated_at = ? WHERE id = ?")
+    .run(parentSha, queueSha, new Date().toISOString(), id);
+}
+
+/**
+ * Take an entry out of the queue, keeping it with the reason
+ */
+export function markFailed(id: string, reason: string): void {
+  getDb()
+    .prepare(
+      `UPDATE merge_queue_entries
+        SET state = 'failed', failure_reason = ?, parent_sha = NULL, queue_sha = NULL, updated_at = ?
+        WHERE id = ?`,
+    )
+    .run(reason, new Date().toISOString(), id);
+}
+
+export function remove(id: string): void {
+  getDb().prepare("DELETE FROM merge_queue_entries WHERE id = ?").run(id);
+}
@@ -0,0 +1,115 @@
+import type { PrMergeMethod } from "@platform/git";
+import { getDb } from "../connection.js";
+
+/**
+ * Merge settings live in the merge columns of the `repositories` row
+ * sharing the project's id. The row is made from the project the first
+ * time a setting is changed; until then the column defaults apply.
+ */
+
+interface MergeSettingsRow {
+  allow_merge_commit: number;
+  allow_squash_merge: number;
+  allow_rebase_merge: number;
+  delete_branch_on_merge: number;
+}
+
+export interface MergeSettings {
+  projectId: string;
+  allowMergeCommit: boolean;
+  allowSquashMerge: boolean;
+  allowRebaseMerge: boolean;
+  deleteBranchOnMerge: boolean;
+}
+
+const DEFAULT_MERGE_SETTINGS: Omit<MergeSettings, "projectId"> = {
+  allowMergeCommit: true,
+  allowSquashMerge: true,
+  allowRebaseMerge: true,
+  deleteBranchOnMerge: false,
+};
+
+function toSettings(projectId: string, row: MergeSettingsRow): MergeSettings {
+  return {
+    projectId,
+    allowMergeCommit: row.allow_merge_commit === 1,
+    allowSquashMerge: row.allow_squash_merge === 1,
+    allowRebaseMerge: row.allow_rebase_merge === 1,
+    deleteBranchOnMerge: row.delete_branch_on_merge === 1,
+  };
+}
+
+/**
+ * List the merge methods a repository allows, in the order the UI
+ * should offer them.
+ */
+export function allowedMergeMethods(settings: MergeSettings): PrMergeMethod[] {
+  const methods: PrMergeMethod[] = [];
+  if (settings.allowMergeCommit) methods.push("merge");
+  if (settings.allowSquashMerge) methods.push("squash");
+  if (settings.allowRebaseMerge) methods.push("rebase");
+  return methods;
+}
+
+export function findByProjectId(projectId: string): MergeSettings {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT allow_merge_commit, allow_squash_merge, allow_rebase_merge, delete_branch_on_merge
+       FROM repositories WHERE id = ?`,
+    )
+    .get(projectId) as MergeSettingsRow | undefined;
+
+  if (!row) {
+    return {
+      projectId,
+      ...DEFAULT_MERGE_SETTINGS,
+    };
+  }
+
+  return toSettings(projectId, row);
+}
+
+export function upsertByProjectId(
+  projectId: string,
+  input: Partial<Omit<MergeSettings, "projectId">>
+): MergeSettings {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const current = findByProjectId(projectId);
+
+  const next: MergeSettings = {
+    allowMergeCommit: input.allowMergeCommit ?? current.allowMergeCommit,
+    allowSquashMerge: input.allowSquashMerge ?? current.allowSquashMerge,
+    allowRebaseMerge: input.allowRebaseMerge ?? current.allowRebaseMerge,
+    deleteBranchOnMerge: input.deleteBranchOnMerge ?? current.deleteBranchOnMerge,
+    projectId,
+  };
+
+  db.prepare(
+    `INSERT INTO repositories (
+      id, name, slug, description, owner_id, org_id, visibility, default_branch, storage_path,
+      allow_merge_commit, allow_squash_merge, allow_rebase_merge, delete_branch_on_merge,
+      created_at, updated_at
+    )
+    SELECT id, name, slug, description, owner_id, org_id,
+           CASE WHEN is_private = 1 THEN 'private' ELSE 'public' END,
+           default_branch, storage_path, ?, ?, ?, ?, created_at, ?
+    FROM projects WHERE id = ?
+    ON CONFLICT(id) DO UPDATE SET
+      allow_merge_commit = excluded.allow_merge_commit,
+      allow_squash_merge = excluded.allow_squash_merge,
+      allow_rebase_merge = excluded.allow_rebase_merge,
+      delete_branch_on_merge = excluded.delete_branch_on_merge,
+      updated_at = excluded.updated_at`,
+  ).run(
+    next.allowMergeCommit ? 1 : 0,
+    next.allowSquashMerge ? 1 : 0,
+    next.allowRebaseMerge ? 1 : 0,
+    next.deleteBranchOnMerge ? 1 : 0,
+    now,
+    projectId,
+  );
+
+  return findByProjectId(projectId);
+}
@@ -0,0 +1,350 @@
+/**
+ * Repository mirrors - pull mirrors that track an external remote and
+ * push mirrors that receive every accepted push, with their sync history
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+export type MirrorDirection = "pull" | "push";
+export type MirrorSyncTrigger = "schedule" | "manual" | "push" | "create";
+export type MirrorSyncStatus = "success" | "failed";
+
+interface MirrorRow {
+  id: string;
+  project_id: string;
+  direction: string;
+  remote_url: string;
+  username: string | null;
+  credentials: string | null;
+  interval_seconds: number;
+  enabled: number;
+  last_synced_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  next_sync_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RepositoryMirror {
+  id: string;
+  projectId: string;
+  direction: MirrorDirection;
+  remoteUrl: string;
+  username?: string;
+  /** Encrypted credentials; never returned to clients. */
+  encryptedCredentials?: string;
+  intervalSeconds: number;
+  enabled: boolean;
+  lastSyncedAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  nextSyncAt?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMirrorInput {
+  projectId: string;
+  direction: MirrorDirection;
+  remoteUrl: string;
+  username?: string;
+  encryptedCredentials?: string;
+  intervalSeconds?: number;
+  enabled?: boolean;
+  createdBy?: string;
+}
+
+export interface UpdateMirrorInput {
+  remoteUrl?: string;
+  username?: string | null;
+  encryptedCredentials?: string | null;
+  intervalSeconds?: number;
+  enabled?: boolean;
+  nextSyncAt?: string | null;
+}
+
+interface SyncRunRow {
+  id: string;
+  mirror_id: string;
+  trigger: string;
+  status: string;
+  updated_refs: string;
+  error: string | null;
+  duration_ms: number;
+  started_at: string;
+  finished_at: string;
+}
+
+export interface MirrorSyncRun {
+  id: string;
+  mirrorId: string;
+  trigger: MirrorSyncTrigger;
+  status: MirrorSyncStatus;
+  updatedRefs: string[];
+  error?: string;
+  durationMs: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface RecordSyncRunInput {
+  trigger: MirrorSyncTrigger;
+  status: MirrorSyncStatus;
+  updatedRefs: string[];
+  error?: string;
+  durationMs: number;
+  startedAt: string;
+}
+
+interface PaginationOptions {
+  page: number;
+  perPage: number;
+}
+
+/** Default pull mirror sync interval (1 hour). */
+export const DEFAULT_MIRROR_INTERVAL_SECONDS = 3600;
+
+function toMirror(row: MirrorRow): RepositoryMirror {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    direction: row.direction as MirrorDirection,
+    remoteUrl: row.remote_url,
+    username: row.username ?? undefined,
+    encryptedCredentials: row.credentials ?? undefined,
+    intervalSeconds: row.interval_seconds,
+    enabled: row.enabled === 1,
+    lastSyncedAt: row.last_synced_at ?? undefined,
+    lastSuccessAt: row.last_success_at ?? undefined,
+    lastError: row.last_error ?? undefined,
+    nextSyncAt: row.next_sync_at ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSyncRun(row: SyncRunRow): MirrorSyncRun {
+  return {
+    id: row.id,
+    mirrorId: row.mirror_id,
+    trigger: row.trigger as MirrorSyncTrigger,
+    status: row.status as MirrorSyncStatus,
+    updatedRefs: JSON.parse(row.updated_refs) as string[],
+    error: row.error ?? undefined,
+    durationMs: row.duration_ms,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export function create(input: CreateMirrorInput): RepositoryMirror {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const intervalSeconds = input.intervalSeconds ?? DEFAULT_MIRROR_INTERVAL_SECONDS;
+  const nextSyncAt = input.direction === "pull"
+    ? new Date(Date.now() + intervalSeconds * 1000).toISOString()
+    : null;
+
+  db.prepare(
+    `INSERT INTO repository_mirrors (
+      id, project_id, direction, remote_url, username, credentials, interval_seconds,
+      enabled, next_sync_at, created_by, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.projectId,
+    input.direction,
+    input.remoteUrl,
+    input.username ?? null,
+    input.encryptedCredentials ?? null,
+    intervalSeconds,
+    input.enabled === false ? 0 : 1,
+    nextSyncAt,
+    input.createdBy ?? null,
+    now,
+    now
+  );
+
+  return findById(id)!;
+}
+
+export function findById(id: string): RepositoryMirror | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM repository_mirrors WHERE id = ?")
+    .get(id) as MirrorRow | undefined;
+  return row ? toMirror(row) : null;
+}
+
+/**
+ * Find a mirror by id, scoped to a project
+ */
+export function findByProject(projectId: string, id: string): RepositoryMirror | null {
+  const mirror = findById(id);
+  return mirror && mirror.projectId === projectId ? mirror : null;
+}
+
+/**
+ * The pull mirror a project tracks, if the project is a mirror
+ */
+export function findPullMirror(projectId: string): RepositoryMirror | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM repository_mirrors WHERE project_id = ? AND direction = 'pull'")
+    .get(projectId) as MirrorRow | undefined;
+  return row ? toMirror(row) : null;
+}
+
+export function listByProject(projectId: string, direction?: MirrorDirection): RepositoryMirror[] {
+  const db = getDb();
+  const rows = direction
+    ? db
+      .prepare("SELECT * FROM repository_mirrors WHERE project_id = ? AND direction = ? ORDER BY created_at ASC")
+      .all(projectId, direction) as MirrorRow[]
+    : db
+      .prepare("SELECT * FROM repository_mirrors WHERE project_id = ? ORDER BY created_at ASC")
+      .all(projectId) as MirrorRow[];
+  return rows.map(toMirror);
+}
+
+/**
+ * Enabled pull mirrors whose next sync is due
+ */
+export function listDuePullMirrors(now: Date = new Date()): RepositoryMirror[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT * FROM repository_mirrors
+       WHERE direction = 'pull' AND enabled = 1 AND (next_sync_at IS NULL OR next_sync_at <= ?)
+       ORDER BY next_sync_at ASC`
+    )
+    .all(now.toISOString()) as MirrorRow[];
+  return rows.map(toMirror);
+}
+
+export function update(id: string, input: UpdateMirrorInput): RepositoryMirror | null {
+  const db = getDb();
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  if (input.remoteUrl !== undefined) {
+    sets.push("remote_url = ?");
+    params.push(input.remoteUrl);
+  }
+  if (input.username !== undefined) {
+    sets.push("username = ?");
+    params.push(input.username);
+  }
+  if (input.encryptedCredentials !== undefined) {
+    sets.push("credentials = ?");
+    params.push(input.encryptedCredentials);
+  }
+  if (input.intervalSeconds !== undefined) {
+    sets.push("interval_seconds = ?");
+    params.push(input.intervalSeconds);
+  }
+  if (input.enabled !== undefined) {
+    sets.push("enabled = ?");
+    params.push(input.enabled ? 1 : 0);
+  }
+  if (input.nextSyncAt !== undefined) {
+    sets.push("next_sync_at = ?");
+    params.push(input.nextSyncAt);
+  }
+
+  if (sets.length > 0) {
+    sets.push("updated_at = ?");
+    params.push(new Date().toISOString(), id);
+    db.prepare(`UPDATE repository_mirrors SET ${sets.join(", ")} WHERE id = ?`).run(...params);
+  }
+
+  return findById(id);
+}
+
+export function remove(projectId: string, id: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare("DELETE FROM repository_mirrors WHERE project_id = ? AND id = ?")
+    .run(projectId, id);
+  return result.changes > 0;
+}
+
+/**
+ * Record the outcome of a sync and update the mirror's status. Pull
+ * mirrors are rescheduled one interval after the sync finished.
+ */
+export function recordSyncRun(mirrorId: string, input: RecordSyncRunInput): MirrorSyncRun {
+  const db = getDb();
+  const id = randomUUID();
+  const finishedAt = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO mirror_sync_runs (
+        id, mirror_id, trigger, status, updated_refs, error, duration_ms, started_at, finished_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      mirrorId,
+      input.trigger,
+      input.status,
+      JSON.stringify(input.updatedRefs),
+      input.error ?? null,
+      input.durationMs,
+      input.startedAt,
+      finishedAt
+    );
+
+    db.prepare(
+      `UPDATE repository_mirrors
+       SET last_synced_at = ?,
+           last_success_at = CASE WHEN ? = 'success' THEN ? ELSE last_success_at END,
+           last_error = ?,
+           next_sync_at = CASE WHEN direction = 'pull'
+             THEN strftime('%Y-%m-%dT%H:%M:%fZ', ?, '+' || interval_seconds || ' seconds')
+             ELSE next_sync_at END,
+           updated_at = ?
+       WHERE id = ?`
+    ).run(
+      finishedAt,
+      input.status,
+      finishedAt,
+      input.status === "failed" ? input.error ?? "Sync failed" : null,
+      finishedAt,
+      finishedAt,
+      mirrorId
+    );
+  })();
+
+  const row = db.prepare("SELECT * FROM mirror_sync_runs WHERE id = ?").get(id) as SyncRunRow;
+  return toSyncRun(row);
+}
+
+/**
+ * Sync history of a mirror, newest first
+ */
+export function listSyncRuns(
+  mirrorId: string,
+  options: PaginationOptions
+): { runs: MirrorSyncRun[]; total: number } {
+  const db = getDb();
+  const { page, perPage } = options;
+  const offset = (page - 1) * perPage;
+
+  const total = (db
+    .prepare("SELECT COUNT(*) as count FROM mirror_sync_runs WHERE mirror_id = ?")
+    .get(mirrorId) as { count: number }).count;
+  const rows = db
+    .prepare(
+      "SELECT * FROM mirror_sync_runs WHERE mirror_id = ? ORDER BY started_at DESC, finished_at DESC LIMIT ? OFFSET ?"
+    )
+    .all(mirrorId, perPage, offset) as SyncRunRow[];
+
+  return { runs: rows.map(toSyncRun), total };
+}
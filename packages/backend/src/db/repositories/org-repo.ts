@@ -219,3 +219,20 @@ export function listByUser(userId: string): Organization[] {
     .all(userId) as OrgRow[];
   return rows.map(toOrg);
 }
+
+/**
+ * List the user ids of a team's members, or null when the organization
+ * has no team with that slug.
+ */
+export function listTeamMemberIds(orgId: string, teamSlug: string): string[] | null {
+  const db = getDb();
+  const team = db
+    .prepare("SELECT id FROM teams WHERE org_id = ? AND slug = ?")
+    .get(orgId, teamSlug) as { id: string } | undefined;
+  if (!team) return null;
+
+  const rows = db
+    .prepare("SELECT user_id FROM team_members WHERE team_id = ? ORDER BY joined_at")
+    .all(team.id) as Array<{ user_id: string }>;
+  return rows.map((row) => row.user_id);
+}
@@ -83,16 +83,22 @@ interface PullRequestReviewRow {
   body: string | null;
   commit_sha: string | null;
   submitted_at: string;
+  dismissed_at: string | null;
 }
 
+/** A review's state; pending reviews are drafts only their author sees */
+export type ReviewState = "pending" | "approved" | "changes_requested" | "commented";
+
 export interface PullRequestReview {
   id: string;
   prId: string;
   userId: string;
-  state: string;
+  state: ReviewState;
   body?: string;
   commitSha?: string;
   submittedAt: string;
+  /** Set when an approval was dismissed because new commits were pushed */
+  dismissedAt?: string;
 }
 
 function toPullRequestReview(row: PullRequestReviewRow): PullRequestReview {
@@ -100,10 +106,11 @@ function toPullRequestReview(row: PullRequestReviewRow): PullRequestReview {
     id: row.id,
     prId: row.pr_id,
     userId: row.user_id,
-    state: row.state,
+    state: row.state as ReviewState,
     body: row.body ?? undefined,
     commitSha: row.commit_sha ?? undefined,
     submittedAt: row.submitted_at,
+    dismissedAt: row.dismissed_at ?? undefined,
   };
 }
 
@@ -382,6 +389,21 @@ export function findExisting(
   return row ? toPullRequest(row) : null;
 }
 
+/**
+ * List open PRs whose changes come from the given branch
+ */
+export function listOpenByHeadBranch(repositoryId: string, headBranch: string): PullRequest[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT * FROM pull_requests
+       WHERE repository_id = ? AND head_branch = ? AND state = 'open'
+       ORDER BY number ASC`
+    )
+    .all(repositoryId, headBranch) as PullRequestRow[];
+  return rows.map(toPullRequest);
+}
+
 /**
  * Add reviewer to PR
  */
@@ -401,6 +423,17 @@ export function addReviewer(id: string, reviewerId: string): PullRequest | null
   return findById(id);
 }
 
+/**
+ * List the ids of the users asked to review a PR
+ */
+export function listReviewerIds(id: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT user_id FROM pr_reviewers WHERE pr_id = ? ORDER BY requested_at, rowid")
+    .all(id) as Array<{ user_id: string }>;
+  return rows.map((row) => row.user_id);
+}
+
 /**
  * Remove reviewer from PR
  */
@@ -450,32 +483,138 @@ export function removeAssignee(id: string, assigneeId: string): PullRequest | nu
   return findById(id);
 }
 
+/**
+ * Submitted reviews on a PR, newest first
+ */
 export function listReviews(prId: string): PullRequestReview[] {
   const db = getDb();
   const rows = db
-    .prepare("SELECT * FROM pr_reviews WHERE pr_id = ? ORDER BY submitted_at DESC")
+    .prepare("SELECT * FROM pr_reviews WHERE pr_id = ? AND state != 'pending' ORDER BY submitted_at DESC")
     .all(prId) as PullRequestReviewRow[];
   return rows.map(toPullRequestReview);
 }
 
-export function countApprovals(prId: string): number {
+export function findReviewById(id: string): PullRequestReview | null {
+  const row = getDb().prepare("SELECT * FROM pr_reviews WHERE id = ?").get(id) as PullRequestReviewRow | undefined;
+  return row ? toPullRequestReview(row) : null;
+}
+
+/**
+ * A user's draft review on a PR, if they have one
+ */
+export function findPendingReview(prId: string, userId: string): PullRequestReview | null {
+  const row = getDb()
+    .prepare("SELECT * FROM pr_reviews WHERE pr_id = ? AND user_id = ? AND state = 'pending'")
+    .get(prId, userId) as PullRequestReviewRow | undefined;
+  return row ? toPullRequestReview(row) : null;
+}
+
+/**
+ * Record a review, or start a draft one with the pending state
+ */
+export function createReview(data: {
+  prId: string;
+  userId: string;
+  state: ReviewState;
+  body?: string;
+  commitSha?: string;
+}): PullRequestReview {
   const db = getDb();
-  const result = db
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.prepare(
+    "INSERT INTO pr_reviews (id, pr_id, user_id, state, body, commit_sha, submitted_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+  ).run(id, data.prId, data.userId, data.state, data.body ?? null, data.commitSha ?? null, now);
+  db.prepare("UPDATE pull_requests SET updated_at = ? WHERE id = ?").run(now, data.prId);
+
+  return findReviewById(id)!;
+}
+
+/**
+ * Submit a draft review, publishing the comments collected in it
+ */
+export function submitReview(
+  id: string,
+  state: Exclude<ReviewState, "pending">,
+  body: string | undefined,
+  commitSha: string
+): PullRequestReview {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  db.prepare(
+    "UPDATE pr_reviews SET state = ?, body = ?, commit_sha = ?, submitted_at = ? WHERE id = ?"
+  ).run(state, body ?? null, commitSha, now, id);
+  db.prepare(
+    "UPDATE pull_requests SET updated_at = ? WHERE id = (SELECT pr_id FROM pr_reviews WHERE id = ?)"
+  ).run(now, id);
+
+  return findReviewById(id)!;
+}
+
+/**
+ * Discard a draft review with its comments and the threads they started
+ */
+export function deletePendingReview(id: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    const review = findReviewById(id);
+    if (!review || review.state !== "pending") return;
+
+    db.prepare("DELETE FROM pr_reviews WHERE id = ?").run(id);
+    db.prepare(
+      `DELETE FROM pr_review_threads WHERE pr_id = ?
+         AND NOT EXISTS (SELECT 1 FROM pr_comments WHERE thread_id = pr_review_threads.id)`
+    ).run(review.prId);
+  })();
+}
+
+/**
+ * Dismiss approvals given on commits other than the PR's head, so they
+ * no longer count towards required reviews. Returns how many were dismissed.
+ */
+export function dismissStaleApprovals(prId: string, headSha: string): number {
+  const result = getDb()
     .prepare(
-      `SELECT COUNT(*) as count FROM (
+      `UPDATE pr_reviews SET dismissed_at = ?
+       WHERE pr_id = ? AND state = 'approved' AND dismissed_at IS NULL
+         AND (commit_sha IS NULL OR commit_sha != ?)`
+    )
+    .run(new Date().toISOString(), prId, headSha);
+  return result.changes;
+}
+
+/**
+ * Ids of the reviewers whose latest submitted review approves the PR and
+ * has not been dismissed
+ */
+export function listApprovers(prId: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT reviews.user_id FROM (
         SELECT user_id, MAX(submitted_at) as latest
         FROM pr_reviews
-        WHERE pr_id = ?
+        WHERE pr_id = ? AND state != 'pending'
         GROUP BY user_id
       ) latest_reviews
       JOIN pr_reviews reviews
         ON reviews.pr_id = ?
        AND reviews.user_id = latest_reviews.user_id
        AND reviews.submitted_at = latest_reviews.latest
-      WHERE reviews.state = 'approved'`
+      WHERE reviews.state = 'approved' AND reviews.dismissed_at IS NULL`
     )
-    .get(prId, prId) as { count: number };
-  return result.count;
+    .all(prId, prId) as Array<{ user_id: string }>;
+  return rows.map((row) => row.user_id);
+}
+
+/**
+ * Reviewers whose latest submitted review approves the PR and has not
+ * been dismissed
+ */
+export function countApprovals(prId: string): number {
+  return listApprovers(prId).length;
 }
 
 export type { PullRequest, CreatePullRequestData, UpdatePullRequestData, PaginationOptions };
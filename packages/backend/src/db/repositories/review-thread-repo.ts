@@ -0,0 +1,285 @@
+/**
+ * Review threads - pull request review comments anchored to a line range
+ * of a file in the pull request's diff, together with the replies to them
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+import type { PRComment } from "./comment-repo.js";
+
+export type DiffSide = "LEFT" | "RIGHT";
+
+interface ReviewThreadRow {
+  id: string;
+  pr_id: string;
+  path: string;
+  side: string;
+  start_line: number | null;
+  line: number;
+  commit_sha: string;
+  base_sha: string;
+  position: number | null;
+  original_path: string;
+  original_start_line: number | null;
+  original_line: number;
+  original_commit_sha: string;
+  diff_hunk: string;
+  outdated: number;
+  resolved_by_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ThreadCommentRow {
+  id: string;
+  pr_id: string;
+  thread_id: string;
+  review_id: string | null;
+  applied_commit_sha: string | null;
+  author_id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Where a thread's comments point, in the diff of one head commit */
+export interface ThreadAnchor {
+  path: string;
+  side: DiffSide;
+  /** First line of a multi-line range; unset for a single line */
+  startLine?: number;
+  line: number;
+  /** Head commit the lines are numbered against */
+  commitSha: string;
+  /** Merge base the diff started from, which numbers LEFT lines */
+  baseSha: string;
+  /** Position in that diff; unset once the thread is outdated */
+  position?: number;
+}
+
+export interface ReviewThread extends ThreadAnchor {
+  id: string;
+  prId: string;
+  originalPath: string;
+  originalStartLine?: number;
+  originalLine: number;
+  originalCommitSha: string;
+  /** The diff lines leading up to the commented line when it was made */
+  diffHunk: string;
+  outdated: boolean;
+  resolvedById?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadComment extends PRComment {
+  threadId: string;
+  /** Review the comment was made in; hidden from others while it is pending */
+  reviewId?: string;
+  /** Commit that applied the comment's suggested change */
+  appliedCommitSha?: string;
+}
+
+export interface CreateThreadData extends ThreadAnchor {
+  prId: string;
+  diffHunk: string;
+  authorId: string;
+  body: string;
+  reviewId?: string;
+}
+
+function toThread(row: ReviewThreadRow): ReviewThread {
+  return {
+    id: row.id,
+    prId: row.pr_id,
+    path: row.path,
+    side: row.side as DiffSide,
+    startLine: row.start_line ?? undefined,
+    line: row.line,
+    commitSha: row.commit_sha,
+    baseSha: row.base_sha,
+    position: row.position ?? undefined,
+    originalPath: row.original_path,
+    originalStartLine: row.original_start_line ?? undefined,
+    originalLine: row.original_line,
+    originalCommitSha: row.original_commit_sha,
+    diffHunk: row.diff_hunk,
+    outdated: row.outdated === 1,
+    resolvedById: row.resolved_by_id ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toThreadComment(row: ThreadCommentRow): ThreadComment {
+  return {
+    id: row.id,
+    prId: row.pr_id,
+    threadId: row.thread_id,
+    reviewId: row.review_id ?? undefined,
+    appliedCommitSha: row.applied_commit_sha ?? undefined,
+    authorId: row.author_id,
+    body: row.body,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ── Threads ─────────────────────────────────────────────────
+
+/**
+ * Start a thread with its first comment
+ */
+export function createThread(data: CreateThreadData): { thread: ReviewThread; comment: ThreadComment } {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  let comment!: ThreadComment;
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO pr_review_threads (id, pr_id, path, side, start_line, line, commit_sha, base_sha, position,
+         original_path, original_start_line, original_line, original_commit_sha, diff_hunk, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id, data.prId, data.path, data.side, data.startLine ?? null, data.line, data.commitSha, data.baseSha,
+      data.position ?? null, data.path, data.startLine ?? null, data.line, data.commitSha, data.diffHunk, now, now
+    );
+    comment = addComment(id, data.authorId, data.body, data.reviewId);
+  })();
+
+  return { thread: findThreadById(id)!, comment };
+}
+
+export function findThreadById(id: string): ReviewThread | null {
+  const row = getDb().prepare("SELECT * FROM pr_review_threads WHERE id = ?").get(id) as ReviewThreadRow | undefined;
+  return row ? toThread(row) : null;
+}
+
+/**
+ * Threads on a PR, in the order they were started
+ */
+export function listThreads(prId: string): ReviewThread[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM pr_review_threads WHERE pr_id = ? ORDER BY created_at ASC")
+    .all(prId) as ReviewThreadRow[];
+  return rows.map(toThread);
+}
+
+/**
+ * Move a thread to where its lines are in a newer diff, or mark it
+ * outdated when they no longer are
+ */
+export function updateAnchor(id: string, anchor: ThreadAnchor | { outdated: true; commitSha: string; baseSha: string }): void {
+  const now = new Date().toISOString();
+  if ("outdated" in anchor) {
+    getDb()
+      .prepare("UPDATE pr_review_threads SET outdated = 1, position = NULL, commit_sha = ?, base_sha = ?, updated_at = ? WHERE id = ?")
+      .run(anchor.commitSha, anchor.baseSha, now, id);
+    return;
+  }
+  getDb()
+    .prepare(
+      `UPDATE pr_review_threads SET path = ?, side = ?, start_line = ?, line = ?, commit_sha = ?, base_sha = ?,
+         position = ?, outdated = 0, updated_at = ? WHERE id = ?`
+    )
+    .run(anchor.path, anchor.side, anchor.startLine ?? null, anchor.line, anchor.commitSha, anchor.baseSha,
+      anchor.position ?? null, now, id);
+}
+
+/**
+ * Resolve a thread, or reopen it with a null user
+ */
+export function setResolved(id: string, userId: string | null): void {
+  const now = new Date().toISOString();
+  getDb()
+    .prepare("UPDATE pr_review_threads SET resolved_by_id = ?, resolved_at = ?, updated_at = ? WHERE id = ?")
+    .run(userId, userId ? now : null, now, id);
+}
+
+// ── Comments ────────────────────────────────────────────────
+
+/**
+ * Reply to a thread, optionally as part of a review
+ */
+export function addComment(threadId: string, authorId: string, body: string, reviewId?: string): ThreadComment {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.prepare(
+    `INSERT INTO pr_comments (id, pr_id, thread_id, review_id, author_id, body, created_at, updated_at)
+     SELECT ?, pr_id, id, ?, ?, ?, ?, ? FROM pr_review_threads WHERE id = ?`
+  ).run(id, reviewId ?? null, authorId, body, now, now, threadId);
+  db.prepare(
+    "UPDATE pull_requests SET updated_at = ? WHERE id = (SELECT pr_id FROM pr_review_threads WHERE id = ?)"
+  ).run(now, threadId);
+
+  return findComment(id)!;
+}
+
+export function findComment(id: string): ThreadComment | null {
+  const row = getDb()
+    .prepare("SELECT * FROM pr_comments WHERE id = ? AND thread_id IS NOT NULL")
+    .get(id) as ThreadCommentRow | undefined;
+  return row ? toThreadComment(row) : null;
+}
+
+/**
+ * Review comments on a PR, oldest first. Comments in pending reviews are
+ * left out unless the viewer wrote them.
+ */
+export function listComments(prId: string, viewerId?: string): ThreadComment[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT c.* FROM pr_comments c
+       LEFT JOIN pr_reviews r ON r.id = c.review_id
+       WHERE c.pr_id = ? AND c.thread_id IS NOT NULL
+         AND (r.id IS NULL OR r.state != 'pending' OR r.user_id = ?)
+       ORDER BY c.created_at ASC, c.rowid ASC`
+    )
+    .all(prId, viewerId ?? null) as ThreadCommentRow[];
+  return rows.map(toThreadComment);
+}
+
+/**
+ * Comments collected in a review
+ */
+export function listReviewComments(reviewId: string): ThreadComment[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM pr_comments WHERE review_id = ? ORDER BY created_at ASC, rowid ASC")
+    .all(reviewId) as ThreadCommentRow[];
+  return rows.map(toThreadComment);
+}
+
+/**
+ * Record the commit that applied comments' suggested changes
+ */
+export function markApplied(commentIds: string[], commitSha: string): void {
+  const db = getDb();
+  const stmt = db.prepare("UPDATE pr_comments SET applied_commit_sha = ?, updated_at = ? WHERE id = ?");
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const id of commentIds) stmt.run(commitSha, now, id);
+  })();
+}
+
+/**
+ * Delete a review comment; a thread left without comments goes with it
+ */
+export function deleteComment(id: string): boolean {
+  const db = getDb();
+  const comment = findComment(id);
+  if (!comment) return false;
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM pr_comments WHERE id = ?").run(id);
+    db.prepare(
+      "DELETE FROM pr_review_threads WHERE id = ? AND NOT EXISTS (SELECT 1 FROM pr_comments WHERE thread_id = ?)"
+    ).run(comment.threadId, comment.threadId);
+  })();
+  return true;
+}
@@ -0,0 +1,104 @@
+/**
+ * Organization custom secret scanning patterns
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+interface SecretPatternRow {
+  id: string;
+  org_id: string;
+  name: string;
+  pattern: string;
+  description: string | null;
+  confidence: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface OrgSecretPattern {
+  id: string;
+  orgId: string;
+  name: string;
+  pattern: string;
+  description?: string;
+  confidence: "high" | "low";
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CreateSecretPatternInput {
+  orgId: string;
+  name: string;
+  pattern: string;
+  description?: string;
+  confidence?: "high" | "low";
+  createdBy?: string;
+}
+
+function toPattern(row: SecretPatternRow): OrgSecretPattern {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    name: row.name,
+    pattern: row.pattern,
+    description: row.description ?? undefined,
+    confidence: row.confidence === "low" ? "low" : "high",
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export function create(input: CreateSecretPatternInput): OrgSecretPattern {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.prepare(
+    `INSERT INTO org_secret_patterns (id, org_id, name, pattern, description, confidence, created_by, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.orgId,
+    input.name,
+    input.pattern,
+    input.description ?? null,
+    input.confidence ?? "high",
+    input.createdBy ?? null,
+    now
+  );
+
+  return findById(id)!;
+}
+
+export function findById(id: string): OrgSecretPattern | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM org_secret_patterns WHERE id = ?")
+    .get(id) as SecretPatternRow | undefined;
+  return row ? toPattern(row) : null;
+}
+
+export function findByName(orgId: string, name: string): OrgSecretPattern | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM org_secret_patterns WHERE org_id = ? AND name = ?")
+    .get(orgId, name) as SecretPatternRow | undefined;
+  return row ? toPattern(row) : null;
+}
+
+export function listByOrg(orgId: string): OrgSecretPattern[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM org_secret_patterns WHERE org_id = ? ORDER BY name ASC")
+    .all(orgId) as SecretPatternRow[];
+  return rows.map(toPattern);
+}
+
+export function remove(orgId: string, id: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare("DELETE FROM org_secret_patterns WHERE org_id = ? AND id = ?")
+    .run(orgId, id);
+  return result.changes > 0;
+}
@@ -0,0 +1,287 @@
+/**
+ * Secret scanning repository - persisted alerts and per-project scanning settings
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+export type SecretAlertState = "open" | "resolved";
+export type SecretAlertResolution = "revoked" | "false_positive" | "used_in_tests";
+
+interface SecretAlertRow {
+  id: string;
+  project_id: string;
+  number: number;
+  secret_type: string;
+  fingerprint: string;
+  masked_secret: string;
+  confidence: string;
+  file_path: string | null;
+  line: number | null;
+  commit_sha: string | null;
+  state: string;
+  resolution: string | null;
+  resolution_comment: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SecretAlert {
+  id: string;
+  projectId: string;
+  number: number;
+  secretType: string;
+  fingerprint: string;
+  maskedSecret: string;
+  confidence: "high" | "low";
+  filePath?: string;
+  line?: number;
+  commitSha?: string;
+  state: SecretAlertState;
+  resolution?: SecretAlertResolution;
+  resolutionComment?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecordAlertInput {
+  secretType: string;
+  fingerprint: string;
+  maskedSecret: string;
+  confidence: "high" | "low";
+  filePath?: string;
+  line?: number;
+  commitSha?: string;
+}
+
+interface ScanSettingsRow {
+  project_id: string;
+  scanning_enabled: number;
+  push_protection: number;
+  last_full_scan_at: string | null;
+}
+
+export interface SecretScanningSettings {
+  projectId: string;
+  scanningEnabled: boolean;
+  pushProtection: boolean;
+  lastFullScanAt?: string;
+}
+
+interface PaginationOptions {
+  page: number;
+  perPage: number;
+}
+
+function toAlert(row: SecretAlertRow): SecretAlert {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    number: row.number,
+    secretType: row.secret_type,
+    fingerprint: row.fingerprint,
+    maskedSecret: row.masked_secret,
+    confidence: row.confidence === "low" ? "low" : "high",
+    filePath: row.file_path ?? undefined,
+    line: row.line ?? undefined,
+    commitSha: row.commit_sha ?? undefined,
+    state: row.state as SecretAlertState,
+    resolution: (row.resolution as SecretAlertResolution | null) ?? undefined,
+    resolutionComment: row.resolution_comment ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Record a detected secret. The same secret found again in the same
+ * project keeps its existing alert (and state); returns the alert and
+ * whether it was newly created.
+ */
+export function recordAlert(
+  projectId: string,
+  input: RecordAlertInput
+): { alert: SecretAlert; created: boolean } {
+  const db = getDb();
+
+  const existing = db
+    .prepare(
+      "SELECT * FROM secret_scanning_alerts WHERE project_id = ? AND secret_type = ? AND fingerprint = ?"
+    )
+    .get(projectId, input.secretType, input.fingerprint) as SecretAlertRow | undefined;
+  if (existing) {
+    return { alert: toAlert(existing), created: false };
+  }
+
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const last = db
+    .prepare("SELECT MAX(number) as max_number FROM secret_scanning_alerts WHERE project_id = ?")
+    .get(projectId) as { max_number: number | null };
+  const number = (last.max_number || 0) + 1;
+
+  db.prepare(
+    `INSERT INTO secret_scanning_alerts (
+      id, project_id, number, secret_type, fingerprint, masked_secret, confidence,
+      file_path, line, commit_sha, state, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)`
+  ).run(
+    id,
+    projectId,
+    number,
+    input.secretType,
+    input.fingerprint,
+    input.maskedSecret,
+    input.confidence,
+    input.filePath ?? null,
+    input.line ?? null,
+    input.commitSha ?? null,
+    now,
+    now
+  );
+
+  return { alert: findByNumber(projectId, number)!, created: true };
+}
+
+/**
+ * Find an alert by its per-project number
+ */
+export function findByNumber(projectId: string, number: number): SecretAlert | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM secret_scanning_alerts WHERE project_id = ? AND number = ?")
+    .get(projectId, number) as SecretAlertRow | undefined;
+  return row ? toAlert(row) : null;
+}
+
+/**
+ * List alerts for a project, newest first
+ */
+export function listByProject(
+  projectId: string,
+  options: PaginationOptions,
+  filters: { state?: SecretAlertState; resolution?: SecretAlertResolution; secretType?: string } = {}
+): { alerts: SecretAlert[]; total: number } {
+  const db = getDb();
+  const { page, perPage } = options;
+  const offset = (page - 1) * perPage;
+
+  let where = "WHERE project_id = ?";
+  const params: unknown[] = [projectId];
+
+  if (filters.state) {
+    where += " AND state = ?";
+    params.push(filters.state);
+  }
+  if (filters.resolution) {
+    where += " AND resolution = ?";
+    params.push(filters.resolution);
+  }
+  if (filters.secretType) {
+    where += " AND secret_type = ?";
+    params.push(filters.secretType);
+  }
+
+  const total = (db
+    .prepare(`SELECT COUNT(*) as count FROM secret_scanning_alerts ${where}`)
+    .get(...params) as { count: number }).count;
+  const rows = db
+    .prepare(`SELECT * FROM secret_scanning_alerts ${where} ORDER BY number DESC LIMIT ? OFFSET ?`)
+    .all(...params, perPage, offset) as SecretAlertRow[];
+
+  return { alerts: rows.map(toAlert), total };
+}
+
+/**
+ * Resolve an alert with a resolution, or reopen it
+ */
+export function updateState(
+  projectId: string,
+  number: number,
+  state: SecretAlertState,
+  userId: string,
+  resolution?: SecretAlertResolution,
+  comment?: string
+): SecretAlert | null {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  if (state === "resolved") {
+    db.prepare(
+      `UPDATE secret_scanning_alerts
+       SET state = 'resolved', resolution = ?, resolution_comment = ?, resolved_by = ?, resolved_at = ?, updated_at = ?
+       WHERE project_id = ? AND number = ?`
+    ).run(resolution ?? null, comment ?? null, userId, now, now, projectId, number);
+  } else {
+    db.prepare(
+      `UPDATE secret_scanning_alerts
+       SET state = 'open', resolution = NULL, resolution_comment = NULL, resolved_by = NULL, resolved_at = NULL, updated_at = ?
+       WHERE project_id = ? AND number = ?`
+    ).run(now, projectId, number);
+  }
+
+  return findByNumber(projectId, number);
+}
+
+/**
+ * Get secret scanning settings; scanning is on and push protection off
+ * until configured.
+ */
+export function getSettings(projectId: string): SecretScanningSettings {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM project_secret_scanning WHERE project_id = ?")
+    .get(projectId) as ScanSettingsRow | undefined;
+
+  if (!row) {
+    return { projectId, scanningEnabled: true, pushProtection: false };
+  }
+
+  return {
+    projectId: row.project_id,
+    scanningEnabled: row.scanning_enabled === 1,
+    pushProtection: row.push_protection === 1,
+    lastFullScanAt: row.last_full_scan_at ?? undefined,
+  };
+}
+
+export function upsertSettings(
+  projectId: string,
+  input: Partial<Omit<SecretScanningSettings, "projectId">>
+): SecretScanningSettings {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const current = getSettings(projectId);
+  const next: SecretScanningSettings = {
+    projectId,
+    scanningEnabled: input.scanningEnabled ?? current.scanningEnabled,
+    pushProtection: input.pushProtection ?? current.pushProtection,
+    lastFullScanAt: input.lastFullScanAt ?? current.lastFullScanAt,
+  };
+
+  db.prepare(
+    `INSERT INTO project_secret_scanning (
+      project_id, scanning_enabled, push_protection, last_full_scan_at, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(project_id) DO UPDATE SET
+      scanning_enabled = excluded.scanning_enabled,
+      push_protection = excluded.push_protection,
+      last_full_scan_at = excluded.last_full_scan_at,
+      updated_at = excluded.updated_at`
+  ).run(
+    projectId,
+    next.scanningEnabled ? 1 : 0,
+    next.pushProtection ? 1 : 0,
+    next.lastFullScanAt ?? null,
+    now,
+    now
+  );
+
+  return getSettings(projectId);
+}
@@ -0,0 +1,92 @@
+/**
+ * SSH keys - public keys users register to authenticate git over SSH
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+interface SshKeyRow {
+  id: string;
+  user_id: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+  created_at: string;
+  last_used: string | null;
+}
+
+export interface UserSshKey {
+  id: string;
+  userId: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+  createdAt: string;
+  lastUsed?: string;
+}
+
+export interface CreateSshKeyInput {
+  userId: string;
+  title: string;
+  key: string;
+  fingerprint: string;
+}
+
+function toSshKey(row: SshKeyRow): UserSshKey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    key: row.key,
+    fingerprint: row.fingerprint,
+    createdAt: row.created_at,
+    lastUsed: row.last_used ?? undefined,
+  };
+}
+
+export function create(input: CreateSshKeyInput): UserSshKey {
+  const db = getDb();
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO ssh_keys (id, user_id, title, key, fingerprint, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(id, input.userId, input.title, input.key, input.fingerprint, new Date().toISOString());
+
+  return findById(id)!;
+}
+
+export function findById(id: string): UserSshKey | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM ssh_keys WHERE id = ?").get(id) as SshKeyRow | undefined;
+  return row ? toSshKey(row) : null;
+}
+
+export function findByFingerprint(fingerprint: string): UserSshKey | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM ssh_keys WHERE fingerprint = ?")
+    .get(fingerprint) as SshKeyRow | undefined;
+  return row ? toSshKey(row) : null;
+}
+
+export function listByUser(userId: string): UserSshKey[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM ssh_keys WHERE user_id = ? ORDER BY created_at DESC")
+    .all(userId) as SshKeyRow[];
+  return rows.map(toSshKey);
+}
+
+export function touchLastUsed(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE ssh_keys SET last_used = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+/**
+ * Delete one of a user's SSH keys.
+ */
+export function remove(userId: string, id: string): boolean {
+  const db = getDb();
+  const result = db.prepare("DELETE FROM ssh_keys WHERE id = ? AND user_id = ?").run(id, userId);
+  return result.changes > 0;
+}
@@ -0,0 +1,64 @@
+/**
+ * Subscription repository - the plan tier each user is on
+ */
+
+import { getDb } from "../connection.js";
+
+export type SubscriptionTier = "free" | "pro" | "team" | "enterprise";
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string;
+  tier: string;
+  status: string;
+  current_period_end: string | null;
+  cancel_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Subscription {
+  id: string;
+  userId: string;
+  tier: SubscriptionTier;
+  status: string;
+  currentPeriodEnd?: string;
+  cancelAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const TIERS: SubscriptionTier[] = ["free", "pro", "team", "enterprise"];
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tier: TIERS.includes(row.tier as SubscriptionTier) ? (row.tier as SubscriptionTier) : "free",
+    status: row.status,
+    currentPeriodEnd: row.current_period_end ?? undefined,
+    cancelAt: row.cancel_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function findByUserId(userId: string): Subscription | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM subscriptions WHERE user_id = ?")
+    .get(userId) as SubscriptionRow | undefined;
+  return row ? toSubscription(row) : null;
+}
+
+/**
+ * The tier a user's limits are based on. Users without an active
+ * subscription are on the free tier.
+ */
+export function getEffectiveTier(userId: string): SubscriptionTier {
+  const subscription = findByUserId(userId);
+  if (!subscription || subscription.status !== "active") {
+    return "free";
+  }
+  return subscription.tier;
+}
@@ -233,6 +233,17 @@ export function isFirstUser(): boolean {
   return countUsers() === 0;
 }
 
+/**
+ * Whether the user has two-factor authentication turned on.
+ */
+export function hasMfaEnabled(id: string): boolean {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT enabled FROM mfa_secrets WHERE user_id = ?")
+    .get(id) as { enabled: number } | undefined;
+  return row?.enabled === 1;
+}
+
 export function addFollow(currentUserId: string, id: string) {
     throw new Error("Function not implemented.");
 }
@@ -0,0 +1,214 @@
+/**
+ * Workflow artifacts and dependency caches - metadata of the archives
+ * workflow jobs upload. The archives themselves live on disk, see
+ * services/workflow-storage-service.ts.
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+interface WorkflowArtifactRow {
+  id: string;
+  run_id: string;
+  job_id: string;
+  name: string;
+  size_bytes: number;
+  checksum: string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface WorkflowCacheRow {
+  id: string;
+  project_id: string;
+  ref: string;
+  key: string;
+  size_bytes: number;
+  checksum: string;
+  created_at: string;
+  last_used_at: string;
+}
+
+/** Files a job uploaded for the rest of its run, and for download */
+export interface WorkflowArtifact {
+  id: string;
+  runId: string;
+  /** Job that uploaded the artifact */
+  jobId: string;
+  name: string;
+  sizeBytes: number;
+  /** SHA-256 of the archive */
+  checksum: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Files a job saved under a key, restored by later runs on the same branch */
+export interface WorkflowCache {
+  id: string;
+  projectId: string;
+  /** Branch the cache was saved on */
+  ref: string;
+  key: string;
+  sizeBytes: number;
+  checksum: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+function toArtifact(row: WorkflowArtifactRow): WorkflowArtifact {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    jobId: row.job_id,
+    name: row.name,
+    sizeBytes: row.size_bytes,
+    checksum: row.checksum,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function toCache(row: WorkflowCacheRow): WorkflowCache {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    ref: row.ref,
+    key: row.key,
+    sizeBytes: row.size_bytes,
+    checksum: row.checksum,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+// ── Artifacts ───────────────────────────────────────────────
+
+export function createArtifact(data: Omit<WorkflowArtifact, "id" | "createdAt">): WorkflowArtifact {
+  const id = randomUUID();
+  getDb()
+    .prepare(
+      `INSERT INTO workflow_artifacts (id, run_id, job_id, name, size_bytes, checksum, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, data.runId, data.jobId, data.name, data.sizeBytes, data.checksum, new Date().toISOString(), data.expiresAt);
+  return findArtifactById(id)!;
+}
+
+export function findArtifactById(id: string): WorkflowArtifact | null {
+  const row = getDb().prepare("SELECT * FROM workflow_artifacts WHERE id = ?").get(id) as WorkflowArtifactRow | undefined;
+  return row ? toArtifact(row) : null;
+}
+
+export function findArtifactByName(runId: string, name: string): WorkflowArtifact | null {
+  const row = getDb()
+    .prepare("SELECT * FROM workflow_artifacts WHERE run_id = ? AND name = ?")
+    .get(runId, name) as WorkflowArtifactRow | undefined;
+  return row ? toArtifact(row) : null;
+}
+
+export function listArtifacts(runId: string): WorkflowArtifact[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM workflow_artifacts WHERE run_id = ? ORDER BY name")
+    .all(runId) as WorkflowArtifactRow[];
+  return rows.map(toArtifact);
+}
+
+export function countJobArtifacts(jobId: string): number {
+  const { count } = getDb()
+    .prepare("SELECT COUNT(*) AS count FROM workflow_artifacts WHERE job_id = ?")
+    .get(jobId) as { count: number };
+  return count;
+}
+
+/**
+ * Artifacts whose retention ended before `at`
+ */
+export function listExpiredArtifacts(at: string): WorkflowArtifact[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM workflow_artifacts WHERE expires_at <= ? ORDER BY expires_at")
+    .all(at) as WorkflowArtifactRow[];
+  return rows.map(toArtifact);
+}
+
+export function listArtifactIds(): string[] {
+  const rows = getDb().prepare("SELECT id FROM workflow_artifacts").all() as Array<{ id: string }>;
+  return rows.map((row) => row.id);
+}
+
+export function deleteArtifact(id: string): boolean {
+  return getDb().prepare("DELETE FROM workflow_artifacts WHERE id = ?").run(id).changes > 0;
+}
+
+// ── Caches ──────────────────────────────────────────────────
+
+export function createCache(data: Omit<WorkflowCache, "id" | "createdAt" | "lastUsedAt">): WorkflowCache {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  getDb()
+    .prepare(
+      `INSERT INTO workflow_caches (id, project_id, ref, key, size_bytes, checksum, created_at, last_used_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, data.projectId, data.ref, data.key, data.sizeBytes, data.checksum, now, now);
+  return findCacheById(id)!;
+}
+
+export function findCacheById(id: string): WorkflowCache | null {
+  const row = getDb().prepare("SELECT * FROM workflow_caches WHERE id = ?").get(id) as WorkflowCacheRow | undefined;
+  return row ? toCache(row) : null;
+}
+
+export function findCache(projectId: string, ref: string, key: string): WorkflowCache | null {
+  const row = getDb()
+    .prepare("SELECT * FROM workflow_caches WHERE project_id = ? AND ref = ? AND key = ?")
+    .get(projectId, ref, key) as WorkflowCacheRow | undefined;
+  return row ? toCache(row) : null;
+}
+
+/**
+ * The newest cache of a branch whose key starts with `prefix`
+ */
+export function findLatestCacheByPrefix(projectId: string, ref: string, prefix: string): WorkflowCache | null {
+  const row = getDb()
+    .prepare(
+      `SELECT * FROM workflow_caches
+       WHERE project_id = ? AND ref = ? AND substr(key, 1, length(?)) = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`
+    )
+    .get(projectId, ref, prefix, prefix) as WorkflowCacheRow | undefined;
+  return row ? toCache(row) : null;
+}
+
+/**
+ * A project's caches, most recently used first
+ */
+export function listCaches(projectId: string): WorkflowCache[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM workflow_caches WHERE project_id = ? ORDER BY last_used_at DESC, rowid DESC")
+    .all(projectId) as WorkflowCacheRow[];
+  return rows.map(toCache);
+}
+
+/**
+ * Caches not used since before `at`
+ */
+export function listUnusedCaches(at: string): WorkflowCache[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM workflow_caches WHERE last_used_at <= ? ORDER BY last_used_at")
+    .all(at) as WorkflowCacheRow[];
+  return rows.map(toCache);
+}
+
+export function listCacheIds(): string[] {
+  const rows = getDb().prepare("SELECT id FROM workflow_caches").all() as Array<{ id: string }>;
+  return rows.map((row) => row.id);
+}
+
+export function touchCache(id: string): void {
+  getDb().prepare("UPDATE workflow_caches SET last_used_at = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+export function deleteCache(id: string): boolean {
+  return getDb().prepare("DELETE FROM workflow_caches WHERE id = ?").run(id).changes > 0;
+}
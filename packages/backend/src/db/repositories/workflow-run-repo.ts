@@ -0,0 +1,565 @@
+/**
+ * Workflow runs - the workflow definitions a repository has run, every
+ * run of them, and the jobs and steps each run is made of
+ */
+
+import { randomUUID } from "node:crypto";
+import { getDb } from "../connection.js";
+
+export type WorkflowRunStatus = "queued" | "in_progress" | "completed";
+export type WorkflowRunConclusion = "success" | "failure" | "cancelled";
+export type WorkflowJobConclusion = WorkflowRunConclusion | "skipped";
+
+interface WorkflowDefinitionRow {
+  id: string;
+  project_id: string;
+  path: string;
+  name: string;
+  state: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WorkflowRunRow {
+  id: string;
+  project_id: string;
+  workflow_id: string | null;
+  name: string;
+  run_number: number;
+  event: string;
+  status: string;
+  conclusion: string | null;
+  head_branch: string;
+  head_sha: string | null;
+  pull_request_id: string | null;
+  actor_id: string | null;
+  commit_message: string | null;
+  actions: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+interface WorkflowJobRow {
+  id: string;
+  run_id: string;
+  job_key: string;
+  name: string;
+  group_key: string;
+  matrix: string | null;
+  needs: string;
+  position: number;
+  status: string;
+  conclusion: string | null;
+  outputs: string;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface WorkflowStepRow {
+  id: string;
+  job_id: string;
+  number: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+/** A workflow file a repository has run, e.g. `.gittic/workflows/ci.yml` */
+export interface WorkflowDefinition {
+  id: string;
+  projectId: string;
+  path: string;
+  name: string;
+  state: "active" | "disabled";
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An action a run uses, pinned to the commit it resolved to */
+export interface WorkflowRunAction {
+  /** The `uses:` value, e.g. "acme/setup-node@v2" */
+  uses: string;
+  /** Repository the action lives in, as "owner/slug" */
+  repository: string;
+  /** Directory of the action within the repository; empty for its root */
+  path: string;
+  sha: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  projectId: string;
+  /** Definition the run was started from; unset for runs submitted directly */
+  workflowId?: string;
+  name: string;
+  /** Counts up per workflow within the repository */
+  runNumber: number;
+  event: string;
+  status: WorkflowRunStatus;
+  conclusion?: WorkflowRunConclusion;
+  headBranch: string;
+  headSha?: string;
+  pullRequestId?: string;
+  actorId?: string;
+  commitMessage?: string;
+  /** Actions the run's steps use, re-run at the same commits */
+  actions: WorkflowRunAction[];
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  updatedAt: string;
+}
+
+export interface WorkflowJob {
+  id: string;
+  runId: string;
+  /** Job id within the run, e.g. "test-2" for a matrix combination */
+  key: string;
+  name: string;
+  group: string;
+  matrix?: Record<string, string>;
+  needs: string[];
+  position: number;
+  status: WorkflowRunStatus;
+  conclusion?: WorkflowJobConclusion;
+  outputs: Record<string, string>;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface WorkflowStep {
+  id: string;
+  jobId: string;
+  /** 1-based position of the step in its job */
+  number: number;
+  name: string;
+  status: WorkflowRunStatus;
+  conclusion?: WorkflowJobConclusion;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface CreateWorkflowRunData {
+  id: string;
+  projectId: string;
+  workflowId?: string;
+  name: string;
+  event: string;
+  headBranch: string;
+  headSha?: string;
+  pullRequestId?: string;
+  actorId?: string;
+  commitMessage?: string;
+  actions?: WorkflowRunAction[];
+  jobs: Array<{
+    key: string;
+    name: string;
+    group: string;
+    matrix?: Record<string, string>;
+    needs: string[];
+    steps: string[];
+  }>;
+}
+
+export interface WorkflowRunFilter {
+  /** A run status, or a conclusion of completed runs */
+  status?: string;
+  event?: string;
+  branch?: string;
+  workflowId?: string;
+  headSha?: string;
+}
+
+interface PaginationOptions {
+  page: number;
+  perPage: number;
+}
+
+interface UpdateWorkflowRunData {
+  status?: WorkflowRunStatus;
+  conclusion?: WorkflowRunConclusion;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+interface UpdateWorkflowJobData {
+  status?: WorkflowRunStatus;
+  conclusion?: WorkflowJobConclusion;
+  outputs?: Record<string, string>;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+function toDefinition(row: WorkflowDefinitionRow): WorkflowDefinition {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    path: row.path,
+    name: row.name,
+    state: row.state as WorkflowDefinition["state"],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRun(row: WorkflowRunRow): WorkflowRun {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    workflowId: row.workflow_id ?? undefined,
+    name: row.name,
+    runNumber: row.run_number,
+    event: row.event,
+    status: row.status as WorkflowRunStatus,
+    conclusion: (row.conclusion as WorkflowRunConclusion | null) ?? undefined,
+    headBranch: row.head_branch,
+    headSha: row.head_sha ?? undefined,
+    pullRequestId: row.pull_request_id ?? undefined,
+    actorId: row.actor_id ?? undefined,
+    commitMessage: row.commit_message ?? undefined,
+    actions: JSON.parse(row.actions) as WorkflowRunAction[],
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toJob(row: WorkflowJobRow): WorkflowJob {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    key: row.job_key,
+    name: row.name,
+    group: row.group_key,
+    matrix: row.matrix ? (JSON.parse(row.matrix) as Record<string, string>) : undefined,
+    needs: JSON.parse(row.needs) as string[],
+    position: row.position,
+    status: row.status as WorkflowRunStatus,
+    conclusion: (row.conclusion as WorkflowJobConclusion | null) ?? undefined,
+    outputs: JSON.parse(row.outputs) as Record<string, string>,
+    error: row.error ?? undefined,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+function toStep(row: WorkflowStepRow): WorkflowStep {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    number: row.number,
+    name: row.name,
+    status: row.status as WorkflowRunStatus,
+    conclusion: (row.conclusion as WorkflowJobConclusion | null) ?? undefined,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+// ── Definitions ──────────────────────────────────────────
+
+/**
+ * Record a workflow file of a repository, refreshing its name
+ */
+export function upsertDefinition(projectId: string, path: string, name: string): WorkflowDefinition {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO workflow_definitions (id, project_id, path, name, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (project_id, path) DO UPDATE SET
+       name = excluded.name,
+       updated_at = CASE WHEN name = excluded.name THEN updated_at ELSE excluded.updated_at END`
+  ).run(randomUUID(), projectId, path, name, now, now);
+
+  const row = db
+    .prepare("SELECT * FROM workflow_definitions WHERE project_id = ? AND path = ?")
+    .get(projectId, path) as WorkflowDefinitionRow;
+  return toDefinition(row);
+}
+
+export function findDefinition(projectId: string, id: string): WorkflowDefinition | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM workflow_definitions WHERE project_id = ? AND id = ?")
+    .get(projectId, id) as WorkflowDefinitionRow | undefined;
+  return row ? toDefinition(row) : null;
+}
+
+export function listDefinitions(projectId: string): WorkflowDefinition[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workflow_definitions WHERE project_id = ? ORDER BY name ASC, path ASC")
+    .all(projectId) as WorkflowDefinitionRow[];
+  return rows.map(toDefinition);
+}
+
+// ── Runs ─────────────────────────────────────────────────
+
+/**
+ * Create a queued run together with its queued jobs and steps
+ */
+export function createRun(data: CreateWorkflowRunData): WorkflowRun {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const insertRun = db.prepare(
+    `INSERT INTO workflow_runs
+       (id, project_id, workflow_id, name, run_number, event, head_branch, head_sha,
+        pull_request_id, actor_id, commit_message, actions, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertJob = db.prepare(
+    `INSERT INTO workflow_jobs (id, run_id, job_key, name, group_key, matrix, needs, position)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertStep = db.prepare(
+    "INSERT INTO workflow_steps (id, job_id, number, name) VALUES (?, ?, ?, ?)"
+  );
+
+  db.transaction(() => {
+    // Runs of the same definition (or, without one, of the same name) are numbered together
+    const { next } = db
+      .prepare(
+        `SELECT COALESCE(MAX(run_number), 0) + 1 AS next FROM workflow_runs
+         WHERE project_id = ? AND ${data.workflowId ? "workflow_id = ?" : "workflow_id IS NULL AND name = ?"}`
+      )
+      .get(data.projectId, data.workflowId ?? data.name) as { next: number };
+
+    insertRun.run(
+      data.id,
+      data.projectId,
+      data.workflowId ?? null,
+      data.name,
+      next,
+      data.event,
+      data.headBranch,
+      data.headSha ?? null,
+      data.pullRequestId ?? null,
+      data.actorId ?? null,
+      data.commitMessage ?? null,
+      JSON.stringify(data.actions ?? []),
+      now,
+      now,
+    );
+
+    data.jobs.forEach((job, position) => {
+      const jobId = randomUUID();
+      insertJob.run(
+        jobId,
+        data.id,
+        job.key,
+        job.name,
+        job.group,
+        job.matrix ? JSON.stringify(job.matrix) : null,
+        JSON.stringify(job.needs),
+        position,
+      );
+      job.steps.forEach((name, index) => insertStep.run(randomUUID(), jobId, index + 1, name));
+    });
+  })();
+
+  return findRunById(data.id)!;
+}
+
+export function findRunById(id: string): WorkflowRun | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM workflow_runs WHERE id = ?").get(id) as WorkflowRunRow | undefined;
+  return row ? toRun(row) : null;
+}
+
+/**
+ * List a repository's runs, newest first, with the total matching the filter
+ */
+export function listRuns(
+  projectId: string,
+  filter: WorkflowRunFilter,
+  options: PaginationOptions
+): { runs: WorkflowRun[]; total: number } {
+  const db = getDb();
+  const { page, perPage } = options;
+  const offset = (page - 1) * perPage;
+
+  let where = "WHERE project_id = ?";
+  const params: unknown[] = [projectId];
+
+  if (filter.status === "queued" || filter.status === "in_progress" || filter.status === "completed") {
+    where += " AND status = ?";
+    params.push(filter.status);
+  } else if (filter.status) {
+    where += " AND conclusion = ?";
+    params.push(filter.status);
+  }
+  if (filter.event) {
+    where += " AND event = ?";
+    params.push(filter.event);
+  }
+  if (filter.branch) {
+    where += " AND head_branch = ?";
+    params.push(filter.branch);
+  }
+  if (filter.workflowId) {
+    where += " AND workflow_id = ?";
+    params.push(filter.workflowId);
+  }
+  if (filter.headSha) {
+    where += " AND head_sha = ?";
+    params.push(filter.headSha);
+  }
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM workflow_runs ${where}`)
+    .get(...params) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM workflow_runs ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`)
+    .all(...params, perPage, offset) as WorkflowRunRow[];
+
+  return { runs: rows.map(toRun), total };
+}
+
+/**
+ * List the runs a user started, newest first
+ */
+export function listRunsByActor(actorId: string, projectId?: string): WorkflowRun[] {
+  const db = getDb();
+  let query = "SELECT * FROM workflow_runs WHERE actor_id = ?";
+  const params: unknown[] = [actorId];
+
+  if (projectId) {
+    query += " AND project_id = ?";
+    params.push(projectId);
+  }
+
+  query += " ORDER BY created_at DESC, rowid DESC";
+  const rows = db.prepare(query).all(...params) as WorkflowRunRow[];
+  return rows.map(toRun);
+}
+
+/**
+ * Runs that have not completed, e.g. ones interrupted by a restart
+ */
+export function listUnfinishedRuns(): WorkflowRun[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workflow_runs WHERE status != 'completed' ORDER BY created_at ASC")
+    .all() as WorkflowRunRow[];
+  return rows.map(toRun);
+}
+
+export function updateRun(id: string, data: UpdateWorkflowRunData): void {
+  const db = getDb();
+  const sets: string[] = ["updated_at = ?"];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (data.status !== undefined) { sets.push("status = ?"); values.push(data.status); }
+  if (data.conclusion !== undefined) { sets.push("conclusion = ?"); values.push(data.conclusion); }
+  if (data.startedAt !== undefined) { sets.push("started_at = COALESCE(started_at, ?)"); values.push(data.startedAt); }
+  if (data.completedAt !== undefined) { sets.push("completed_at = ?"); values.push(data.completedAt); }
+
+  values.push(id);
+  db.prepare(`UPDATE workflow_runs SET ${sets.join(", ")} WHERE id = ?`).run(...values);
+}
+
+// ── Jobs and steps ───────────────────────────────────────
+
+export function listJobs(runId: string): WorkflowJob[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workflow_jobs WHERE run_id = ? ORDER BY position ASC")
+    .all(runId) as WorkflowJobRow[];
+  return rows.map(toJob);
+}
+
+export function findJobById(id: string): WorkflowJob | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM workflow_jobs WHERE id = ?").get(id) as WorkflowJobRow | undefined;
+  return row ? toJob(row) : null;
+}
+
+export function findJobByKey(runId: string, key: string): WorkflowJob | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM workflow_jobs WHERE run_id = ? AND job_key = ?")
+    .get(runId, key) as WorkflowJobRow | undefined;
+  return row ? toJob(row) : null;
+}
+
+export function updateJob(id: string, data: UpdateWorkflowJobData): void {
+  const db = getDb();
+  const sets: string[] = [];
+  const values: unknown[] = [];
+
+  if (data.status !== undefined) { sets.push("status = ?"); values.push(data.status); }
+  if (data.conclusion !== undefined) { sets.push("conclusion = ?"); values.push(data.conclusion); }
+  if (data.outputs !== undefined) { sets.push("outputs = ?"); values.push(JSON.stringify(data.outputs)); }
+  if (data.error !== undefined) { sets.push("error = ?"); values.push(data.error); }
+  if (data.startedAt !== undefined) { sets.push("started_at = ?"); values.push(data.startedAt); }
+  if (data.completedAt !== undefined) { sets.push("completed_at = ?"); values.push(data.completedAt); }
+  if (sets.length === 0) return;
+
+  values.push(id);
+  db.prepare(`UPDATE workflow_jobs SET ${sets.join(", ")} WHERE id = ?`).run(...values);
+}
+
+export function listSteps(jobId: string): WorkflowStep[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workflow_steps WHERE job_id = ? ORDER BY number ASC")
+    .all(jobId) as WorkflowStepRow[];
+  return rows.map(toStep);
+}
+
+/**
+ * Mark a step as running; the steps before it have finished successfully
+ */
+export function startStep(jobId: string, number: number, at: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE workflow_steps SET status = 'completed', conclusion = 'success', completed_at = ?
+       WHERE job_id = ? AND number < ? AND status != 'completed'`
+    ).run(at, jobId, number);
+    db.prepare(
+      `UPDATE workflow_steps SET status = 'in_progress', started_at = ?
+       WHERE job_id = ? AND number = ? AND status = 'queued'`
+    ).run(at, jobId, number);
+  })();
+}
+
+/**
+ * Complete one step as it finishes, or once its condition skips it
+ */
+export function completeStep(jobId: string, number: number, conclusion: WorkflowJobConclusion, at: string): void {
+  getDb()
+    .prepare(
+      `UPDATE workflow_steps SET status = 'completed', conclusion = ?, completed_at = ?
+       WHERE job_id = ? AND number = ? AND status != 'completed'`
+    )
+    .run(conclusion, at, jobId, number);
+}
+
+/**
+ * Complete a job's unfinished steps: the running step takes the job's
+ * conclusion, steps that never started are skipped
+ */
+export function finishSteps(jobId: string, conclusion: WorkflowJobConclusion, at: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE workflow_steps SET status = 'completed', conclusion = ?, completed_at = ?
+       WHERE job_id = ? AND status = 'in_progress'`
+    ).run(conclusion, at, jobId);
+    db.prepare(
+      `UPDATE workflow_steps SET status = 'completed', conclusion = 'skipped', completed_at = ?
+       WHERE job_id = ? AND status = 'queued'`
+    ).run(at, jobId);
+  })();
+}
@@ -8,7 +8,14 @@ import { startMetricsCollector } from "./services/metrics-collector.js";
 import { scheduleBackgroundIndex } from "./services/indexing-service.js";
 import * as clusterRepo from "./db/repositories/cluster-repo.js";
 import { startAnalyticsMaintenance } from "./services/analytics-maintenance.js";
+import { startWorkflowStorageCleanup } from "./services/workflow-storage-service.js";
+import { startMirrorScheduler } from "./services/mirror-service.js";
+import { startWebhookWorker } from "./services/webhook-service.js";
+import { startEventDispatcher } from "./services/event-bus.js";
+import { registerEventSubscribers } from "./services/subscribers/index.js";
+import { startSshServer } from "./services/ssh-server.js";
 import { closeWebSocketGateway } from "./services/websocket-gateway.js";
+import { abandonInterruptedRuns } from "./services/workflow-orchestrator.js";
 
 /**
  * Print a startup banner with basic platform info.
@@ -71,6 +78,12 @@ async function main(): Promise<void> {
   runMigrations();
   console.log("[db] Migrations complete.");
 
+  // Runs left unfinished by a previous process can no longer complete
+  const abandonedRuns = abandonInterruptedRuns();
+  if (abandonedRuns > 0) {
+    console.log(`[workflows] Cancelled ${abandonedRuns} run(s) interrupted by the restart.`);
+  }
+
   // ── Step 4: Start server ────────────────────────────────
   const { start } = createServer();
   printBanner(config.host, config.port);
@@ -82,6 +95,12 @@ async function main(): Promise<void> {
   const stopIndexer = scheduleBackgroundIndex();
   const stopClusterCleanup = startClusterCleanup();
   const stopAnalyticsMaintenance = startAnalyticsMaintenance();
+  const stopWorkflowStorageCleanup = startWorkflowStorageCleanup();
+  const stopMirrorScheduler = startMirrorScheduler();
+  const unregisterSubscribers = registerEventSubscribers();
+  const stopEventDispatcher = startEventDispatcher();
+  const stopWebhookWorker = startWebhookWorker();
+  const stopSshServer = startSshServer();
   console.log("[services] Background services started");
 
   // Graceful shutdown of background services
@@ -91,6 +110,12 @@ async function main(): Promise<void> {
     stopIndexer();
     stopClusterCleanup();
     stopAnalyticsMaintenance();
+    stopWorkflowStorageCleanup();
+    stopMirrorScheduler();
+    stopEventDispatcher();
+    unregisterSubscribers();
+    stopWebhookWorker();
+    stopSshServer();
     closeWebSocketGateway();
   });
   process.on("SIGINT", () => {
@@ -99,6 +124,12 @@ async function main(): Promise<void> {
     stopIndexer();
     stopClusterCleanup();
     stopAnalyticsMaintenance();
+    stopWorkflowStorageCleanup();
+    stopMirrorScheduler();
+    stopEventDispatcher();
+    unregisterSubscribers();
+    stopWebhookWorker();
+    stopSshServer();
     closeWebSocketGateway();
   });
 }
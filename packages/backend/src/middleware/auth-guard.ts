@@ -1,7 +1,16 @@
+import { createHash, timingSafeEqual } from "node:crypto";
 import type { Request, Response, NextFunction } from "express";
 import type { UserRole } from "@platform/shared";
 import { verifyToken } from "@platform/auth";
+import type { ApiTokenScope } from "@platform/auth";
 import { getConfig } from "../config/app-config.js";
+import {
+    authenticateApiToken,
+    hasScope,
+    isApiToken,
+    requiredScope,
+    type TokenScopeResource,
+} from "../services/api-token-service.js";
 
 /**
  * Augment the Express Request interface to include the authenticated
@@ -15,6 +24,8 @@ declare global {
             username: string;
             role: UserRole;
             tier?: string;
+            /** Scopes of the personal access token used, if any. */
+            tokenScopes?: ApiTokenScope[];
         }
 
         interface Request {
@@ -37,6 +48,8 @@ function extractBearerToken(req: Request): string | null {
 
 /**
  * Middleware that requires a valid JWT in the Authorization header.
+ * Personal access tokens are only accepted on route groups guarded by
+ * `requireTokenScope`.
  *
  * On success the decoded payload is attached to `req.user`.
  * On failure a 401 JSON error is returned and the request chain is
@@ -52,6 +65,12 @@ export function requireAuth(
     res: Response,
     next: NextFunction,
 ): void {
+    // Already authenticated by a personal access token (see requireTokenScope)
+    if (req.user) {
+        next();
+        return;
+    }
+
     const token = extractBearerToken(req);
     if (!token) {
         res.status(401).json({
@@ -61,6 +80,14 @@ export function requireAuth(
         return;
     }
 
+    if (isApiToken(token)) {
+        res.status(403).json({
+            error: "Personal access tokens cannot be used for this endpoint",
+            code: "TOKEN_NOT_ACCEPTED",
+        });
+        return;
+    }
+
     try {
         const payload = verifyToken(token, getConfig().jwt.secret);
         req.user = {
@@ -148,7 +175,7 @@ export function optionalAuth(
     next: NextFunction,
 ): void {
     const token = extractBearerToken(req);
-    if (!token) {
+    if (req.user || !token || isApiToken(token)) {
         next();
         return;
     }
@@ -168,3 +195,95 @@ export function optionalAuth(
 
     next();
 }
+
+/**
+ * Middleware factory that authenticates personal access tokens for a
+ * route group and enforces the scope the request needs.
+ *
+ * Requests without a token pass through untouched so the routes' own
+ * guards (`requireAuth`, `optionalAuth`) handle JWTs and anonymous
+ * access. A valid token with the required scope populates `req.user`.
+ *
+ * @param resource - The resource the route group belongs to.
+ * @returns Express middleware function.
+ *
+ * @example
+ * app.use("/api/v1/repositories", requireTokenScope("repos"));
+ */
+export function requireTokenScope(
+    resource: TokenScopeResource,
+): (req: Request, res: Response, next: NextFunction) => void {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const token = extractBearerToken(req);
+        if (!token || !isApiToken(token)) {
+            next();
+            return;
+        }
+
+        const auth = authenticateApiToken(token);
+        if (!auth) {
+            res.status(401).json({
+                error: "Invalid, expired or revoked personal access token",
+                code: "AUTH_INVALID_TOKEN",
+            });
+            return;
+        }
+
+        const scope = requiredScope(resource, req.method, req.path);
+        if (!hasScope(auth.token.scopes, scope)) {
+            res.status(403).json({
+                error: `This token does not have the required scope: ${scope}`,
+                code: "INSUFFICIENT_SCOPE",
+                details: { requiredScope: scope },
+            });
+            return;
+        }
+
+        req.user = {
+            id: auth.user.id,
+            userId: auth.user.id,
+            username: auth.user.username,
+            role: auth.user.role,
+            tier: "free",
+            tokenScopes: auth.token.scopes,
+        };
+        next();
+    };
+}
+
+/**
+ * Middleware for endpoints cluster nodes call while running workflow
+ * jobs (status reports, logs, artifacts and caches). Requires the shared
+ * `CLUSTER_TOKEN` as a Bearer token.
+ *
+ * The tokens are compared as SHA-256 digests so the comparison takes
+ * the same time whatever the length or content of the presented token.
+ *
+ * @example
+ * router.post("/status", requireClusterToken, handler);
+ */
+export function requireClusterToken(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): void {
+    const token = extractBearerToken(req);
+    if (!token) {
+        res.status(401).json({
+            error: "Cluster token is required",
+            code: "AUTH_REQUIRED",
+        });
+        return;
+    }
+
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    if (!timingSafeEqual(digest(token), digest(getConfig().cluster.token))) {
+        res.status(401).json({
+            error: "Invalid cluster token",
+            code: "AUTH_INVALID_TOKEN",
+        });
+        return;
+    }
+
+    next();
+}
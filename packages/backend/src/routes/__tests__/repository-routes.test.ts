@@ -65,6 +65,11 @@ vi.mock("../../db/repositories/star-repo.js", () => ({
   countStarsForProject: vi.fn(() => stars.size),
 }));
 
+vi.mock("../../services/event-bus.js", () => ({
+  publishEvent: vi.fn(),
+  requestEventOptions: vi.fn(() => ({})),
+}));
+
 vi.mock("@platform/git", () => ({
   listBranches: vi.fn(async () => [{ name: "main", sha: "abc", isDefault: true }]),
   listTags: vi.fn(async () => [{ name: "v1.0.0", sha: "def" }]),
@@ -0,0 +1,149 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+/**
+ * Every mutating route must publish a domain event, either directly or
+ * through a helper in the same file, so that audit logging, webhooks and
+ * live updates stay in subscribers. Routes that change nothing worth
+ * announcing are listed in EXEMPT with the reason.
+ */
+
+const ROUTES_DIR = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+/** Calls that put an event on the bus. */
+const PUBLISHERS = ["publishEvent", "publishPushEvents"];
+
+/**
+ * Routes allowed to publish nothing, keyed by file. `"*"` exempts the
+ * whole file; other keys are `"<METHOD> <path>"`.
+ */
+const EXEMPT: Record<string, Record<string, string>> = {
+  "ai-routes.ts": { "*": "generates suggestions; stores nothing" },
+  "editor-routes.ts": { "*": "placeholder routes; store nothing yet" },
+  "notifications-routes.ts": { "*": "placeholder routes; store nothing yet" },
+  "organization-routes.ts": { "*": "placeholder routes; store nothing yet" },
+  "wiki-routes.ts": { "*": "placeholder routes; store nothing yet" },
+  "git-routes.ts": {
+    "POST /:owner/:repo.git/info/refs": "read-only ref advertisement",
+    "POST /:owner/:repo.git/git-upload-pack": "read-only fetch",
+    "POST /:owner/:repo.git/git-receive-pack": "pushes are published by the push hooks",
+  },
+  "auth-routes.ts": {
+    "POST /refresh": "rotates the caller's session token",
+  },
+  "cluster-routes.ts": {
+    "POST /heartbeat": "periodic node status report",
+  },
+  "lfs-routes.ts": {
+    "POST /:owner/:repo.git/info/lfs/objects/batch": "negotiates transfers; stores nothing",
+    "POST /:owner/:repo.git/info/lfs/objects/:oid/verify": "read-only check of an uploaded object",
+  },
+  "pullrequest-routes.ts": {
+    "DELETE /:owner/:repo/pulls/:number/reviews/:reviewId": "discards the caller's private draft review",
+  },
+  "security-routes.ts": {
+    "POST /:owner/:repo/security/advisories": "placeholder route; stores nothing yet",
+    "PATCH /:owner/:repo/security/advisories/:ghsaId": "placeholder route; stores nothing yet",
+    "PUT /:owner/:repo/vulnerability-alerts": "placeholder route; stores nothing yet",
+    "DELETE /:owner/:repo/vulnerability-alerts": "placeholder route; stores nothing yet",
+  },
+  "user-settings-routes.ts": {
+    "PATCH /settings": "placeholder route; stores nothing yet",
+    "POST /emails": "placeholder route; stores nothing yet",
+    "DELETE /emails": "placeholder route; stores nothing yet",
+    "POST /gpg_keys": "placeholder route; stores nothing yet",
+    "PUT /starred/:owner/:repo": "placeholder route; stores nothing yet",
+    "DELETE /starred/:owner/:repo": "placeholder route; stores nothing yet",
+  },
+  "workflow-routes.ts": {
+    "POST /cron/describe": "read-only",
+    "POST /logs": "streams log chunks from the runner",
+  },
+};
+
+interface MutatingRoute {
+  key: string;
+  body: string;
+}
+
+/**
+ * Split a module into top-level statements: each starts at a line that
+ * is not indented and runs to the next one.
+ */
+function topLevelChunks(source: string): string[] {
+  return source.split(/\n(?=[^\s}\])])/);
+}
+
+function publishesDirectly(chunk: string, publishers: Set<string>): boolean {
+  for (const name of publishers) {
+    if (new RegExp(`\\b${name}\\(`).test(chunk)) return true;
+  }
+  return false;
+}
+
+/**
+ * Names of the module's own functions that publish, directly or by
+ * calling another publishing function.
+ */
+function publishingFunctions(chunks: string[]): Set<string> {
+  const publishers = new Set(PUBLISHERS);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const chunk of chunks) {
+      const name = /^(?:export\s+)?(?:async\s+)?function\s+(\w+)|^(?:export\s+)?const\s+(\w+)\s*=/.exec(chunk);
+      const fn = name?.[1] ?? name?.[2];
+      if (!fn || publishers.has(fn)) continue;
+      if (publishesDirectly(chunk, publishers)) {
+        publishers.add(fn);
+        grew = true;
+      }
+    }
+  }
+  return publishers;
+}
+
+function mutatingRoutes(chunks: string[]): MutatingRoute[] {
+  const routes: MutatingRoute[] = [];
+  for (const chunk of chunks) {
+    const method = /^router\.(post|put|patch|delete)\(/.exec(chunk);
+    if (!method) continue;
+    // Routes registered for several paths are keyed by the first one
+    const path = /^router\.\w+\(\s*\[?\s*["'`]([^"'`]+)["'`]/.exec(chunk);
+    routes.push({ key: `${method[1].toUpperCase()} ${path?.[1] ?? "?"}`, body: chunk });
+  }
+  return routes;
+}
+
+describe("mutating routes", () => {
+  const files = readdirSync(ROUTES_DIR).filter((file) => file.endsWith("-routes.ts"));
+
+  it.each(files)("%s publishes an event from every mutating route", (file) => {
+    const chunks = topLevelChunks(readFileSync(join(ROUTES_DIR, file), "utf8"));
+    const publishers = publishingFunctions(chunks);
+    const exempt = EXEMPT[file] ?? {};
+
+    const silent = exempt["*"]
+      ? []
+      : mutatingRoutes(chunks)
+        .filter((route) => !exempt[route.key] && !publishesDirectly(route.body, publishers))
+        .map((route) => route.key);
+
+    expect(silent).toEqual([]);
+  });
+
+  it("only exempts routes that exist", () => {
+    const stale: string[] = [];
+    for (const [file, routes] of Object.entries(EXEMPT)) {
+      const keys = new Set(mutatingRoutes(topLevelChunks(readFileSync(join(ROUTES_DIR, file), "utf8")))
+        .map((route) => route.key));
+      stale.push(...Object.keys(routes)
+        .filter((key) => key !== "*" && !keys.has(key))
+        .map((key) => `${file}: ${key}`));
+    }
+
+    expect(stale).toEqual([]);
+  });
+});
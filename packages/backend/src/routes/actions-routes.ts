@@ -1,6 +1,30 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
-import { requireAuth } from "../middleware/auth-guard.js";
+import { createReadStream } from "node:fs";
+import { optionalAuth, requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import * as actionsSecretRepo from "../db/repositories/actions-secret-repo.js";
+import * as workflowArtifactRepo from "../db/repositories/workflow-artifact-repo.js";
+import * as environmentRepo from "../db/repositories/environment-repo.js";
+import type { Deployment, DeploymentEnvironment } from "../db/repositories/environment-repo.js";
+import type { ActionsScopeRef, ActionsSecret, ActionsVariable } from "../db/repositories/actions-secret-repo.js";
+import { normalizeName, storeSecret } from "../services/actions-secrets-service.js";
+import { cancelWorkflowRun } from "../services/workflow-orchestrator.js";
+import { rerunWorkflow } from "../services/workflow-trigger-service.js";
+import { readJobLog } from "../services/workflow-log-store.js";
+import { archivePath, deleteArtifact, deleteCache } from "../services/workflow-storage-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import {
+  isAwaitingReview,
+  requiredReviewers,
+  reviewDeployments,
+  waitMinutes,
+} from "../services/deployment-service.js";
+import { resolveProjectPermission, satisfies } from "../services/repository-permission-service.js";
+import type { PermissionLevel } from "@platform/git";
+import type { BranchPolicy, EnvironmentProtectionRule, Project } from "@platform/shared";
 
 /**
  * GitHub Actions-like workflow system
@@ -8,20 +32,137 @@ import { validate } from "../middleware/input-validator.js";
  */
 const router = Router();
 
+const DEFAULT_PAGE = 1;
+const DEFAULT_PER_PAGE = 20;
+const MAX_PER_PAGE = 100;
+
+/** Longest secret or variable value accepted, in characters */
+const MAX_VALUE_LENGTH = 48 * 1024;
+
+/** Longest wait timer an environment may have: 30 days, in minutes */
+const MAX_WAIT_MINUTES = 43_200;
+
+/**
+ * Parse and clamp pagination query parameters.
+ */
+function parsePagination(query: Record<string, unknown>): { page: number; perPage: number } {
+  const page = Math.max(1, Number(query.page) || DEFAULT_PAGE);
+  const perPage = Math.min(MAX_PER_PAGE, Math.max(1, Number(query.perPage) || DEFAULT_PER_PAGE));
+  return { page, perPage };
+}
+
+/**
+ * Resolve the project in the route and check the caller's permission on
+ * it. Sends the error response and returns null when either fails;
+ * private repositories the caller cannot read are reported as missing.
+ */
+function loadProject(req: Request, res: Response, required: PermissionLevel): Project | null {
+  const ownerUser = userRepo.findByUsername(String(req.params.owner));
+  const project = ownerUser ? projectRepo.findBySlug(ownerUser.id, String(req.params.repo)) : null;
+  const permission = project
+    ? resolveProjectPermission(project, req.user ? { userId: req.user.userId, role: req.user.role } : null)
+    : "none";
+
+  if (!project || !satisfies(permission, "read")) {
+    res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
+    return null;
+  }
+  if (!satisfies(permission, required)) {
+    res.status(403).json({
+      error: `You need ${required} access to ${req.params.owner}/${req.params.repo} to do this`,
+      code: "FORBIDDEN",
+    });
+    return null;
+  }
+  return project;
+}
+
+function loadRun(project: Project, res: Response, runId: string): workflowRunRepo.WorkflowRun | null {
+  const run = workflowRunRepo.findRunById(runId);
+  if (!run || run.projectId !== project.id) {
+    res.status(404).json({ error: "Workflow run not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return run;
+}
+
+function formatDefinition(definition: workflowRunRepo.WorkflowDefinition) {
+  return {
+    id: definition.id,
+    name: definition.name,
+    path: definition.path,
+    state: definition.state,
+    createdAt: definition.createdAt,
+    updatedAt: definition.updatedAt,
+  };
+}
+
+function formatRun(run: workflowRunRepo.WorkflowRun) {
+  const actor = run.actorId ? userRepo.findById(run.actorId) : null;
+  return {
+    id: run.id,
+    runNumber: run.runNumber,
+    workflowId: run.workflowId ?? null,
+    workflowName: run.name,
+    event: run.event,
+    status: run.status,
+    conclusion: run.conclusion ?? null,
+    headBranch: run.headBranch,
+    headSha: run.headSha ?? null,
+    commitMessage: run.commitMessage ?? null,
+    actions: run.actions,
+    pullRequestId: run.pullRequestId ?? null,
+    triggeredBy: actor?.username ?? null,
+    createdAt: run.createdAt,
+    startedAt: run.startedAt ?? null,
+    completedAt: run.completedAt ?? null,
+    updatedAt: run.updatedAt,
+    duration: run.startedAt && run.completedAt
+      ? new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime()
+      : null,
+  };
+}
+
+function formatJob(job: workflowRunRepo.WorkflowJob) {
+  return {
+    id: job.id,
+    runId: job.runId,
+    key: job.key,
+    name: job.name,
+    matrix: job.matrix ?? null,
+    needs: job.needs,
+    status: job.status,
+    conclusion: job.conclusion ?? null,
+    error: job.error ?? null,
+    startedAt: job.startedAt ?? null,
+    completedAt: job.completedAt ?? null,
+    steps: workflowRunRepo.listSteps(job.id).map((step) => ({
+      number: step.number,
+      name: step.name,
+      status: step.status,
+      conclusion: step.conclusion ?? null,
+      startedAt: step.startedAt ?? null,
+      completedAt: step.completedAt ?? null,
+    })),
+  };
+}
+
 /**
  * GET /api/repositories/:owner/:repo/actions/workflows
  * List repository workflows
  */
 router.get(
   "/:owner/:repo/actions/workflows",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
+      const project = loadProject(req, res, "read");
+      if (!project) return;
 
-      const workflows: any[] = [];
+      const workflows = workflowRunRepo.listDefinitions(project.id).map(formatDefinition);
 
       res.json({
-        total_count: 0,
+        total_count: workflows.length,
         workflows
       });
     } catch (err) {
@@ -36,20 +177,19 @@ router.get(
  */
 router.get(
   "/:owner/:repo/actions/workflows/:workflowId",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, workflowId } = req.params;
-
-      const workflow = {
-        id: workflowId,
-        name: "CI",
-        path: ".github/workflows/ci.yml",
-        state: "active",
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      res.json(workflow);
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const definition = workflowRunRepo.findDefinition(project.id, String(req.params.workflowId));
+      if (!definition) {
+        res.status(404).json({ error: "Workflow not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      res.json(formatDefinition(definition));
     } catch (err) {
       next(err);
     }
@@ -58,20 +198,41 @@ router.get(
 
 /**
  * GET /api/repositories/:owner/:repo/actions/runs
- * List workflow runs
+ * List workflow runs, newest first. `status` takes a run status
+ * (queued, in_progress, completed) or a conclusion (success, failure,
+ * cancelled); `event`, `branch` and `workflow` narrow the list further.
  */
 router.get(
   "/:owner/:repo/actions/runs",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
-      const { page = "1", perPage = "20", status, event, branch } = req.query;
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const { page, perPage } = parsePagination(req.query as Record<string, unknown>);
+      const { status, event, branch, workflow } = req.query;
 
-      const runs: any[] = [];
+      const { runs, total } = workflowRunRepo.listRuns(
+        project.id,
+        {
+          status: status ? String(status) : undefined,
+          event: event ? String(event) : undefined,
+          branch: branch ? String(branch) : undefined,
+          workflowId: workflow ? String(workflow) : undefined,
+        },
+        { page, perPage }
+      );
+      const totalPages = Math.ceil(total / perPage);
 
       res.json({
-        total_count: 0,
-        workflow_runs: runs
+        items: runs.map(formatRun),
+        total,
+        page,
+        perPage,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
       });
     } catch (err) {
       next(err);
@@ -85,26 +246,15 @@ router.get(
  */
 router.get(
   "/:owner/:repo/actions/runs/:runId",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, runId } = req.params;
-
-      const run = {
-        id: runId,
-        name: "CI",
-        status: "completed",
-        conclusion: "success",
-        workflowId: "1",
-        event: "push",
-        headBranch: "main",
-        headSha: "abc123",
-        runNumber: 1,
-        runStartedAt: new Date().toISOString(),
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      res.json(run);
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      res.json(formatRun(run));
     } catch (err) {
       next(err);
     }
@@ -120,9 +270,34 @@ router.post(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, runId } = req.params;
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      if (run.status !== "completed") {
+        res.status(409).json({ error: "Only completed workflow runs can be re-run", code: "CONFLICT" });
+        return;
+      }
+
+      let rerun;
+      try {
+        rerun = await rerunWorkflow(project, run, req.user!.userId);
+      } catch (err) {
+        res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+        return;
+      }
+      publishEvent("workflow_run.rerequested", {
+        repositoryId: project.id,
+        runId: rerun.workflowId,
+        workflowName: run.name,
+        previousRunId: run.id,
+      }, requestEventOptions(req));
 
-      res.json({ message: "Workflow run restarted" });
+      res.status(201).json({
+        message: "Workflow run restarted",
+        run: formatRun(workflowRunRepo.findRunById(rerun.workflowId)!),
+      });
     } catch (err) {
       next(err);
     }
@@ -138,9 +313,22 @@ router.post(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, runId } = req.params;
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
 
-      res.json({ message: "Workflow run cancelled" });
+      if (run.status === "completed" || !cancelWorkflowRun(run.id)) {
+        res.status(409).json({ error: "The workflow run is not running", code: "CONFLICT" });
+        return;
+      }
+      publishEvent("workflow_run.cancel_requested", {
+        repositoryId: project.id,
+        runId: run.id,
+        workflowName: run.name,
+      }, requestEventOptions(req));
+
+      res.status(202).json({ message: "Workflow run cancelled" });
     } catch (err) {
       next(err);
     }
@@ -153,14 +341,18 @@ router.post(
  */
 router.get(
   "/:owner/:repo/actions/runs/:runId/jobs",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, runId } = req.params;
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
 
-      const jobs: any[] = [];
+      const jobs = workflowRunRepo.listJobs(run.id).map(formatJob);
 
       res.json({
-        total_count: 0,
+        total_count: jobs.length,
         jobs
       });
     } catch (err) {
@@ -171,16 +363,25 @@ router.get(
 
 /**
  * GET /api/repositories/:owner/:repo/actions/runs/:runId/logs
- * Download workflow run logs
+ * Download workflow run logs, every job's log under a header line
  */
 router.get(
   "/:owner/:repo/actions/runs/:runId/logs",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, runId } = req.params;
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      const logs = workflowRunRepo
+        .listJobs(run.id)
+        .map((job) => `==> ${job.name} <==\n${readJobLog(job.id).content}`)
+        .join("\n");
 
       res.type("text/plain");
-      res.send("Workflow run logs...");
+      res.send(logs);
     } catch (err) {
       next(err);
     }
@@ -193,22 +394,19 @@ router.get(
  */
 router.get(
   "/:owner/:repo/actions/jobs/:jobId",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, jobId } = req.params;
-
-      const job = {
-        id: jobId,
-        runId: "1",
-        name: "build",
-        status: "completed",
-        conclusion: "success",
-        startedAt: new Date().toISOString(),
-        completedAt: new Date().toISOString(),
-        steps: []
-      };
-
-      res.json(job);
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const job = workflowRunRepo.findJobById(String(req.params.jobId));
+      if (!job || workflowRunRepo.findRunById(job.runId)?.projectId !== project.id) {
+        res.status(404).json({ error: "Job not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      res.json(formatJob(job));
     } catch (err) {
       next(err);
     }
@@ -217,36 +415,171 @@ router.get(
 
 /**
  * GET /api/repositories/:owner/:repo/actions/jobs/:jobId/logs
- * Download job logs
+ * Download job logs. With `offset`, only the log past that byte offset
+ * is sent; `X-Log-Offset` holds the offset to continue from.
  */
 router.get(
   "/:owner/:repo/actions/jobs/:jobId/logs",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, jobId } = req.params;
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const job = workflowRunRepo.findJobById(String(req.params.jobId));
+      if (!job || workflowRunRepo.findRunById(job.runId)?.projectId !== project.id) {
+        res.status(404).json({ error: "Job not found", code: "NOT_FOUND" });
+        return;
+      }
 
+      const log = readJobLog(job.id, Math.max(0, Number(req.query.offset) || 0));
+
+      res.set("X-Log-Offset", String(log.nextOffset));
       res.type("text/plain");
-      res.send("Job logs...");
+      res.send(log.content);
     } catch (err) {
       next(err);
     }
   }
 );
 
+function formatArtifact(artifact: workflowArtifactRepo.WorkflowArtifact) {
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    sizeInBytes: artifact.sizeBytes,
+    checksum: artifact.checksum,
+    jobId: artifact.jobId,
+    createdAt: artifact.createdAt,
+    expiresAt: artifact.expiresAt,
+  };
+}
+
+function formatCache(cache: workflowArtifactRepo.WorkflowCache) {
+  return {
+    id: cache.id,
+    key: cache.key,
+    ref: cache.ref,
+    sizeInBytes: cache.sizeBytes,
+    createdAt: cache.createdAt,
+    lastUsedAt: cache.lastUsedAt,
+  };
+}
+
+function loadArtifact(run: workflowRunRepo.WorkflowRun, res: Response, artifactId: string) {
+  const artifact = workflowArtifactRepo.findArtifactById(artifactId);
+  if (!artifact || artifact.runId !== run.id || artifact.expiresAt <= new Date().toISOString()) {
+    res.status(404).json({ error: "Artifact not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return artifact;
+}
+
 /**
- * GET /api/repositories/:owner/:repo/actions/secrets
- * List repository secrets
+ * GET /api/repositories/:owner/:repo/actions/runs/:runId/artifacts
+ * List the artifacts of a workflow run that are still kept
+ */
+router.get(
+  "/:owner/:repo/actions/runs/:runId/artifacts",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      const now = new Date().toISOString();
+      const artifacts = workflowArtifactRepo
+        .listArtifacts(run.id)
+        .filter((artifact) => artifact.expiresAt > now)
+        .map(formatArtifact);
+
+      res.json({
+        total_count: artifacts.length,
+        artifacts
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/actions/runs/:runId/artifacts/:artifactId/download
+ * Download an artifact as a gzipped tar archive
  */
 router.get(
-  "/:owner/:repo/actions/secrets",
+  "/:owner/:repo/actions/runs/:runId/artifacts/:artifactId/download",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+      const artifact = loadArtifact(run, res, String(req.params.artifactId));
+      if (!artifact) return;
+
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader("Content-Length", String(artifact.sizeBytes));
+      res.attachment(`${artifact.name}.tar.gz`);
+      createReadStream(archivePath("artifacts", artifact.id)).on("error", next).pipe(res);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/repositories/:owner/:repo/actions/runs/:runId/artifacts/:artifactId
+ * Delete an artifact before its retention ends
+ */
+router.delete(
+  "/:owner/:repo/actions/runs/:runId/artifacts/:artifactId",
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+      const artifact = loadArtifact(run, res, String(req.params.artifactId));
+      if (!artifact) return;
+
+      deleteArtifact(artifact);
+      publishEvent("workflow_run.artifact.deleted", {
+        repositoryId: project.id,
+        id: artifact.id,
+        name: artifact.name,
+        sizeBytes: artifact.sizeBytes,
+        runId: run.id,
+      }, requestEventOptions(req));
+      res.json({ message: "Artifact deleted" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/actions/caches
+ * List the repository's dependency caches, most recently used first
+ */
+router.get(
+  "/:owner/:repo/actions/caches",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+
+      const caches = workflowArtifactRepo.listCaches(project.id).map(formatCache);
 
       res.json({
-        total_count: 0,
-        secrets: []
+        total_count: caches.length,
+        total_size_in_bytes: caches.reduce((total, cache) => total + cache.sizeInBytes, 0),
+        caches
       });
     } catch (err) {
       next(err);
@@ -255,21 +588,360 @@ router.get(
 );
 
 /**
- * PUT /api/repositories/:owner/:repo/actions/secrets/:secretName
- * Create or update a secret
+ * DELETE /api/repositories/:owner/:repo/actions/caches/:cacheId
+ * Delete a dependency cache
+ */
+router.delete(
+  "/:owner/:repo/actions/caches/:cacheId",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+
+      const cache = workflowArtifactRepo.findCacheById(String(req.params.cacheId));
+      if (!cache || cache.projectId !== project.id) {
+        res.status(404).json({ error: "Cache not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      deleteCache(cache);
+      publishEvent("actions.cache.deleted", {
+        repositoryId: project.id,
+        id: cache.id,
+        name: cache.key,
+        sizeBytes: cache.sizeBytes,
+      }, requestEventOptions(req));
+      res.json({ message: "Cache deleted" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+function loadEnvironment(project: Project, res: Response, name: string): DeploymentEnvironment | null {
+  const environment = environmentRepo.findEnvironment(project.id, name);
+  if (!environment) {
+    res.status(404).json({ error: "Environment not found", code: "NOT_FOUND" });
+  }
+  return environment;
+}
+
+function loadDeployment(environment: DeploymentEnvironment, res: Response, deploymentId: string): Deployment | null {
+  const deployment = environmentRepo.findDeploymentById(deploymentId);
+  if (!deployment || deployment.environmentId !== environment.id) {
+    res.status(404).json({ error: "Deployment not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return deployment;
+}
+
+function formatEnvironment(environment: DeploymentEnvironment) {
+  const latest = environmentRepo.listDeployments(environment.id, 1)[0];
+  return {
+    id: environment.id,
+    name: environment.name,
+    reviewers: requiredReviewers(environment).map((id) => userRepo.findById(id)?.username ?? null).filter(Boolean),
+    waitTimer: waitMinutes(environment),
+    branchPolicy: environment.branchPolicy ?? null,
+    protectionRules: environment.protectionRules,
+    latestDeployment: latest ? formatDeployment(latest) : null,
+    createdAt: environment.createdAt,
+    updatedAt: environment.updatedAt,
+  };
+}
+
+function formatDeployment(deployment: Deployment) {
+  const initiator = deployment.initiatedBy ? userRepo.findById(deployment.initiatedBy) : null;
+  return {
+    id: deployment.id,
+    environmentId: deployment.environmentId,
+    runId: deployment.runId ?? null,
+    jobId: deployment.jobId ?? null,
+    sha: deployment.commitSha ?? null,
+    ref: deployment.ref,
+    url: deployment.url ?? null,
+    status: deployment.status,
+    initiatedBy: initiator?.username ?? null,
+    rollback: deployment.rollback ?? null,
+    createdAt: deployment.createdAt,
+    startedAt: deployment.startedAt ?? null,
+    completedAt: deployment.completedAt ?? null,
+    updatedAt: deployment.updatedAt,
+  };
+}
+
+/**
+ * Read the protection rules of an environment update. Sends a 422 and
+ * returns null when they are invalid.
+ */
+function parseEnvironmentSettings(
+  project: Project,
+  body: Record<string, unknown>,
+  res: Response
+): { protectionRules: EnvironmentProtectionRule[]; branchPolicy: BranchPolicy | null } | null {
+  const invalid = (error: string) => {
+    res.status(422).json({ error, code: "VALIDATION_ERROR" });
+    return null;
+  };
+
+  const reviewerNames = body.reviewers ?? [];
+  if (!Array.isArray(reviewerNames) || reviewerNames.some((name) => typeof name !== "string")) {
+    return invalid("reviewers must be a list of usernames");
+  }
+  const reviewers: string[] = [];
+  for (const name of reviewerNames as string[]) {
+    const user = userRepo.findByUsername(name);
+    const permission = user ? resolveProjectPermission(project, { userId: user.id, role: user.role }) : "none";
+    if (!user || !satisfies(permission, "write")) {
+      return invalid(`${name} cannot review deployments: reviewers need write access to the repository`);
+    }
+    if (!reviewers.includes(user.id)) reviewers.push(user.id);
+  }
+
+  const wait = body.waitTimer ?? 0;
+  if (typeof wait !== "number" || !Number.isInteger(wait) || wait < 0 || wait > MAX_WAIT_MINUTES) {
+    return invalid(`waitTimer must be a whole number of minutes from 0 to ${MAX_WAIT_MINUTES}`);
+  }
+
+  const policy = body.branchPolicy ?? null;
+  if (policy !== null) {
+    const { restrictToNamedBranches, allowedPatterns } = policy as Partial<BranchPolicy>;
+    if (
+      typeof restrictToNamedBranches !== "boolean" ||
+      !Array.isArray(allowedPatterns) ||
+      allowedPatterns.some((pattern) => typeof pattern !== "string" || !pattern)
+    ) {
+      return invalid("branchPolicy must be { restrictToNamedBranches, allowedPatterns }");
+    }
+  }
+
+  const protectionRules: EnvironmentProtectionRule[] = [];
+  if (reviewers.length > 0) protectionRules.push({ type: "required_reviewers", reviewers });
+  if (wait > 0) protectionRules.push({ type: "wait_timer", waitMinutes: wait });
+  if ((policy as BranchPolicy | null)?.restrictToNamedBranches) protectionRules.push({ type: "branch_policy" });
+  return { protectionRules, branchPolicy: policy as BranchPolicy | null };
+}
+
+/**
+ * GET /api/repositories/:owner/:repo/environments
+ * List deployment environments
+ */
+router.get(
+  "/:owner/:repo/environments",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const environments = environmentRepo.listEnvironments(project.id).map(formatEnvironment);
+      res.json({ total_count: environments.length, environments });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/environments/:environmentName
+ * Get an environment and its protection rules
+ */
+router.get(
+  "/:owner/:repo/environments/:environmentName",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const environment = loadEnvironment(project, res, String(req.params.environmentName));
+      if (!environment) return;
+
+      res.json(formatEnvironment(environment));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /api/repositories/:owner/:repo/environments/:environmentName
+ * Create an environment or replace its protection rules:
+ * `{ reviewers, waitTimer, branchPolicy }`
  */
 router.put(
-  "/:owner/:repo/actions/secrets/:secretName",
+  "/:owner/:repo/environments/:environmentName",
   requireAuth,
   validate([
-    { field: "encrypted_value", location: "body", required: true, type: "string" }
+    { field: "environmentName", location: "params", required: true, type: "string", min: 1, max: 255, pattern: /^[^/\\]+$/ }
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, secretName } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+      const settings = parseEnvironmentSettings(project, req.body ?? {}, res);
+      if (!settings) return;
+
+      const name = String(req.params.environmentName).trim();
+      const existing = environmentRepo.findEnvironment(project.id, name);
+      if (existing) {
+        environmentRepo.updateEnvironment(existing.id, settings);
+      } else {
+        environmentRepo.createEnvironment(project.id, name, settings);
+      }
+      publishEvent(existing ? "environment.updated" : "environment.created", {
+        repositoryId: project.id,
+        environment: name,
+      }, requestEventOptions(req));
+
+      res.status(existing ? 200 : 201).json(formatEnvironment(environmentRepo.findEnvironment(project.id, name)!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/repositories/:owner/:repo/environments/:environmentName
+ * Delete an environment with its secrets, variables and deployments
+ */
+router.delete(
+  "/:owner/:repo/environments/:environmentName",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+      const environment = loadEnvironment(project, res, String(req.params.environmentName));
+      if (!environment) return;
+
+      environmentRepo.deleteEnvironment(environment.id);
+      publishEvent("environment.deleted", {
+        repositoryId: project.id,
+        environment: environment.name,
+      }, requestEventOptions(req));
+      res.json({ message: "Environment deleted" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/environments/:environmentName/deployments
+ * List an environment's deployments, newest first
+ */
+router.get(
+  "/:owner/:repo/environments/:environmentName/deployments",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const environment = loadEnvironment(project, res, String(req.params.environmentName));
+      if (!environment) return;
+
+      const { perPage } = parsePagination(req.query);
+      const deployments = environmentRepo.listDeployments(environment.id, perPage).map(formatDeployment);
+      res.json({ total_count: deployments.length, deployments });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/environments/:environmentName/deployments/:deploymentId
+ * Get a deployment with its status history and reviews
+ */
+router.get(
+  "/:owner/:repo/environments/:environmentName/deployments/:deploymentId",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const environment = loadEnvironment(project, res, String(req.params.environmentName));
+      if (!environment) return;
+      const deployment = loadDeployment(environment, res, String(req.params.deploymentId));
+      if (!deployment) return;
+
+      const username = (id?: string) => (id ? userRepo.findById(id)?.username ?? null : null);
+      res.json({
+        ...formatDeployment(deployment),
+        statuses: environmentRepo.listDeploymentStatuses(deployment.id).map((entry) => ({
+          status: entry.status,
+          description: entry.description ?? null,
+          actor: username(entry.actorId),
+          createdAt: entry.createdAt,
+        })),
+        reviews: environmentRepo.listReviews(deployment.id).map((review) => ({
+          state: review.state,
+          comment: review.comment ?? null,
+          reviewer: username(review.reviewerId),
+          createdAt: review.createdAt,
+        })),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/environments/:environmentName/deployments/:deploymentId/rollback
+ * Redeploy an earlier successful deployment by re-running its workflow
+ * run; the environment's current deployment is marked rolled back
+ */
+router.post(
+  "/:owner/:repo/environments/:environmentName/deployments/:deploymentId/rollback",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "write");
+      if (!project) return;
+      const environment = loadEnvironment(project, res, String(req.params.environmentName));
+      if (!environment) return;
+      const target = loadDeployment(environment, res, String(req.params.deploymentId));
+      if (!target) return;
+
+      const run = target.runId ? workflowRunRepo.findRunById(target.runId) : null;
+      if (target.status !== "success" || !run) {
+        res.status(409).json({ error: "Only successful deployments whose run still exists can be redeployed", code: "CONFLICT" });
+        return;
+      }
+      const current = environmentRepo.findLatestSuccessfulDeployment(environment.id);
+      if (current?.id === target.id) {
+        res.status(409).json({ error: "The deployment is already the environment's current deployment", code: "CONFLICT" });
+        return;
+      }
+
+      let rerun;
+      try {
+        rerun = await rerunWorkflow(project, run, req.user!.userId);
+      } catch (err) {
+        res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+        return;
+      }
+
+      if (current) {
+        environmentRepo.recordRollback(current.id, {
+          targetDeploymentId: target.id,
+          reason: typeof req.body?.reason === "string" && req.body.reason ? req.body.reason : `Rolled back to ${target.commitSha ?? target.ref}`,
+          initiatedBy: req.user!.userId,
+          rolledBackAt: new Date().toISOString(),
+        });
+      }
+      publishEvent("environment.deployment.rollback_requested", {
+        repositoryId: project.id,
+        environment: environment.name,
+        deploymentId: target.id,
+        runId: rerun.workflowId,
+      }, requestEventOptions(req));
 
       res.status(201).json({
-        message: `Secret ${secretName} created`
+        message: `Redeploying ${target.commitSha?.slice(0, 7) ?? target.ref} to ${environment.name}`,
+        run: formatRun(workflowRunRepo.findRunById(rerun.workflowId)!),
       });
     } catch (err) {
       next(err);
@@ -277,17 +949,232 @@ router.put(
   }
 );
 
+/**
+ * GET /api/repositories/:owner/:repo/actions/runs/:runId/pending_deployments
+ * List the run's deployments waiting for a review
+ */
+router.get(
+  "/:owner/:repo/actions/runs/:runId/pending_deployments",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      const pending = environmentRepo
+        .listRunDeployments(run.id)
+        .filter((deployment) => deployment.status === "pending" && isAwaitingReview(deployment.id))
+        .map((deployment) => {
+          const environment = environmentRepo.findEnvironmentById(deployment.environmentId)!;
+          return {
+            ...formatDeployment(deployment),
+            environment: environment.name,
+            reviewers: requiredReviewers(environment).map((id) => userRepo.findById(id)?.username ?? null).filter(Boolean),
+            currentUserCanApprove: Boolean(req.user && requiredReviewers(environment).includes(req.user.userId)),
+          };
+        });
+
+      res.json({ total_count: pending.length, deployments: pending });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/actions/runs/:runId/pending_deployments
+ * Approve or reject the run's deployments to some environments:
+ * `{ environments: [name], state: "approved" | "rejected", comment }`
+ */
+router.post(
+  "/:owner/:repo/actions/runs/:runId/pending_deployments",
+  requireAuth,
+  validate([
+    { field: "state", location: "body", required: true, type: "string", pattern: /^(approved|rejected)$/ },
+    { field: "comment", location: "body", type: "string", max: 4096 }
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+      const run = loadRun(project, res, String(req.params.runId));
+      if (!run) return;
+
+      const names: unknown = req.body.environments;
+      if (!Array.isArray(names) || names.length === 0 || names.some((name) => typeof name !== "string")) {
+        res.status(422).json({ error: "environments must list the environments to review", code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const pending = environmentRepo.listRunDeployments(run.id).filter((deployment) => deployment.status === "pending");
+      const targets: Array<{ environment: DeploymentEnvironment; deployments: Deployment[] }> = [];
+      for (const name of new Set(names as string[])) {
+        const environment = environmentRepo.findEnvironment(project.id, name);
+        const deployments = environment ? pending.filter((deployment) => deployment.environmentId === environment.id) : [];
+        if (!environment || deployments.length === 0) {
+          res.status(409).json({ error: `No deployment to ${name} is waiting for a review`, code: "CONFLICT" });
+          return;
+        }
+        targets.push({ environment, deployments });
+      }
+
+      const reviewed = targets.flatMap((target) => target.deployments);
+      const error = reviewDeployments(reviewed, req.user!.userId, req.body.state, req.body.comment);
+      if (error) {
+        const forbidden = error.code === "NOT_REVIEWER";
+        res.status(forbidden ? 403 : 409).json({ error: error.message, code: forbidden ? "FORBIDDEN" : "CONFLICT" });
+        return;
+      }
+      for (const { environment, deployments } of targets) {
+        for (const deployment of deployments) {
+          publishEvent("environment.deployment.reviewed", {
+            repositoryId: project.id,
+            environment: environment.name,
+            deploymentId: deployment.id,
+            runId: run.id,
+            state: req.body.state,
+          }, requestEventOptions(req));
+        }
+      }
+
+      res.json({
+        message: `Deployments ${req.body.state}`,
+        deployments: reviewed.map((deployment) => formatDeployment(environmentRepo.findDeploymentById(deployment.id)!)),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * Resolve the scope secret and variable routes act on: the repository,
+ * or one of its workflows or environments when the route names one
+ */
+function loadValueScope(req: Request, res: Response, required: PermissionLevel): ActionsScopeRef | null {
+  const project = loadProject(req, res, required);
+  if (!project) return null;
+  if (req.params.environmentName) {
+    const environment = loadEnvironment(project, res, String(req.params.environmentName));
+    return environment ? { scope: "environment", scopeId: environment.id } : null;
+  }
+  if (!req.params.workflowId) return { scope: "project", scopeId: project.id };
+
+  const definition = workflowRunRepo.findDefinition(project.id, String(req.params.workflowId));
+  if (!definition) {
+    res.status(404).json({ error: "Workflow not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return { scope: "pipeline", scopeId: definition.id };
+}
+
+/**
+ * Normalise the name in the route, sending a 422 when it is not allowed
+ */
+function loadValueName(req: Request, res: Response, param: string): string | null {
+  const name = normalizeName(String(req.params[param]));
+  if (!name) {
+    res.status(422).json({
+      error: "Names may only contain letters, digits and underscores, cannot start with a digit or GITTIC_",
+      code: "VALIDATION_ERROR",
+    });
+  }
+  return name;
+}
+
+function formatSecret(secret: ActionsSecret) {
+  return { name: secret.name, createdAt: secret.createdAt, updatedAt: secret.updatedAt };
+}
+
+function formatVariable(variable: ActionsVariable) {
+  return { ...formatSecret(variable), value: variable.value };
+}
+
+/**
+ * GET /api/repositories/:owner/:repo/actions/secrets
+ * GET /api/repositories/:owner/:repo/actions/workflows/:workflowId/secrets
+ * GET /api/repositories/:owner/:repo/environments/:environmentName/secrets
+ * List secret names; values are never returned
+ */
+router.get(
+  [
+    "/:owner/:repo/actions/secrets",
+    "/:owner/:repo/actions/workflows/:workflowId/secrets",
+    "/:owner/:repo/environments/:environmentName/secrets",
+  ],
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = loadValueScope(req, res, "write");
+      if (!ref) return;
+
+      const secrets = actionsSecretRepo.listSecrets(ref).map(formatSecret);
+      res.json({ total_count: secrets.length, secrets });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /api/repositories/:owner/:repo/actions/secrets/:secretName
+ * PUT /api/repositories/:owner/:repo/actions/workflows/:workflowId/secrets/:secretName
+ * PUT /api/repositories/:owner/:repo/environments/:environmentName/secrets/:secretName
+ * Create or update a secret
+ */
+router.put(
+  [
+    "/:owner/:repo/actions/secrets/:secretName",
+    "/:owner/:repo/actions/workflows/:workflowId/secrets/:secretName",
+    "/:owner/:repo/environments/:environmentName/secrets/:secretName",
+  ],
+  requireAuth,
+  validate([
+    { field: "value", location: "body", required: true, type: "string", min: 1, max: MAX_VALUE_LENGTH, sanitize: false }
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = loadValueScope(req, res, "admin");
+      if (!ref) return;
+      const name = loadValueName(req, res, "secretName");
+      if (!name) return;
+
+      const created = storeSecret(ref, name, req.body.value, req.user!.userId);
+      publishEvent("actions.secret.updated", { ...ref, name }, requestEventOptions(req));
+      res.status(created ? 201 : 200).json(formatSecret(actionsSecretRepo.findSecret(ref, name)!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * DELETE /api/repositories/:owner/:repo/actions/secrets/:secretName
+ * DELETE /api/repositories/:owner/:repo/actions/workflows/:workflowId/secrets/:secretName
+ * DELETE /api/repositories/:owner/:repo/environments/:environmentName/secrets/:secretName
  * Delete a secret
  */
 router.delete(
-  "/:owner/:repo/actions/secrets/:secretName",
+  [
+    "/:owner/:repo/actions/secrets/:secretName",
+    "/:owner/:repo/actions/workflows/:workflowId/secrets/:secretName",
+    "/:owner/:repo/environments/:environmentName/secrets/:secretName",
+  ],
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, secretName } = req.params;
+      const ref = loadValueScope(req, res, "admin");
+      if (!ref) return;
+      const name = loadValueName(req, res, "secretName");
+      if (!name) return;
 
+      if (!actionsSecretRepo.deleteSecret(ref, name)) {
+        res.status(404).json({ error: "Secret not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("actions.secret.deleted", { ...ref, name }, requestEventOptions(req));
       res.json({ message: "Secret deleted" });
     } catch (err) {
       next(err);
@@ -295,4 +1182,94 @@ router.delete(
   }
 );
 
+/**
+ * GET /api/repositories/:owner/:repo/actions/variables
+ * GET /api/repositories/:owner/:repo/actions/workflows/:workflowId/variables
+ * GET /api/repositories/:owner/:repo/environments/:environmentName/variables
+ * List variables with their values
+ */
+router.get(
+  [
+    "/:owner/:repo/actions/variables",
+    "/:owner/:repo/actions/workflows/:workflowId/variables",
+    "/:owner/:repo/environments/:environmentName/variables",
+  ],
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = loadValueScope(req, res, "write");
+      if (!ref) return;
+
+      const variables = actionsSecretRepo.listVariables(ref).map(formatVariable);
+      res.json({ total_count: variables.length, variables });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /api/repositories/:owner/:repo/actions/variables/:variableName
+ * PUT /api/repositories/:owner/:repo/actions/workflows/:workflowId/variables/:variableName
+ * PUT /api/repositories/:owner/:repo/environments/:environmentName/variables/:variableName
+ * Create or update a variable
+ */
+router.put(
+  [
+    "/:owner/:repo/actions/variables/:variableName",
+    "/:owner/:repo/actions/workflows/:workflowId/variables/:variableName",
+    "/:owner/:repo/environments/:environmentName/variables/:variableName",
+  ],
+  requireAuth,
+  validate([
+    { field: "value", location: "body", required: true, type: "string", max: MAX_VALUE_LENGTH, sanitize: false }
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = loadValueScope(req, res, "admin");
+      if (!ref) return;
+      const name = loadValueName(req, res, "variableName");
+      if (!name) return;
+
+      const created = actionsSecretRepo.setVariable(ref, name, req.body.value, req.user!.userId);
+      publishEvent("actions.variable.updated", { ...ref, name }, requestEventOptions(req));
+      res.status(created ? 201 : 200).json(formatVariable(actionsSecretRepo.findVariable(ref, name)!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/repositories/:owner/:repo/actions/variables/:variableName
+ * DELETE /api/repositories/:owner/:repo/actions/workflows/:workflowId/variables/:variableName
+ * DELETE /api/repositories/:owner/:repo/environments/:environmentName/variables/:variableName
+ * Delete a variable
+ */
+router.delete(
+  [
+    "/:owner/:repo/actions/variables/:variableName",
+    "/:owner/:repo/actions/workflows/:workflowId/variables/:variableName",
+    "/:owner/:repo/environments/:environmentName/variables/:variableName",
+  ],
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = loadValueScope(req, res, "admin");
+      if (!ref) return;
+      const name = loadValueName(req, res, "variableName");
+      if (!name) return;
+
+      if (!actionsSecretRepo.deleteVariable(ref, name)) {
+        res.status(404).json({ error: "Variable not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("actions.variable.deleted", { ...ref, name }, requestEventOptions(req));
+      res.json({ message: "Variable deleted" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 export default router;
@@ -7,6 +7,9 @@ import * as analyticsRepo from "../db/repositories/analytics-repo.js";
 import * as moderationRepo from "../db/repositories/moderation-repo.js";
 import * as featureRepo from "../db/repositories/feature-repo.js";
 import * as clusterRepo from "../db/repositories/cluster-repo.js";
+import * as announcementsRepo from "../db/repositories/announcements-repo.js";
+import type { AnnouncementType } from "../db/repositories/announcements-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 import { getActiveConnectionCount } from "../services/websocket-gateway.js";
 import { getMetrics } from "../services/metrics-collector.js";
 
@@ -122,11 +125,16 @@ router.patch(
                 return;
             }
 
-            const success = userRepo.updateRole(String(req.params.id), role);
-            if (!success) {
+            const user = userRepo.findById(String(req.params.id));
+            if (!user || !userRepo.updateRole(user.id, role)) {
                 res.status(404).json({ error: "User not found", code: "NOT_FOUND" });
                 return;
             }
+            publishEvent("user.role.changed", {
+                userId: user.id,
+                role,
+                previousRole: user.role,
+            }, requestEventOptions(req));
 
             res.json({ message: "Role updated", userId: String(req.params.id), role });
         } catch (err) {
@@ -157,15 +165,7 @@ router.post(
                 return;
             }
 
-            // Log the audit event
-            analyticsRepo.logAudit({
-                userId: req.user!.userId,
-                action: "user.suspend",
-                resource: "user",
-                resourceId: String(req.params.id),
-                details: JSON.stringify({ until, reason }),
-                ipAddress: req.ip ?? req.socket.remoteAddress,
-            });
+            publishEvent("user.suspended", { userId: String(req.params.id), until, reason }, requestEventOptions(req));
 
             // Invalidate all sessions for the suspended user
             sessionRepo.deleteAllForUser(String(req.params.id));
@@ -197,14 +197,7 @@ router.post(
                 return;
             }
 
-            analyticsRepo.logAudit({
-                userId: req.user!.userId,
-                action: "user.ban",
-                resource: "user",
-                resourceId: String(req.params.id),
-                details: JSON.stringify({ reason: req.body.reason }),
-                ipAddress: req.ip ?? req.socket.remoteAddress,
-            });
+            publishEvent("user.banned", { userId: String(req.params.id), reason: req.body.reason }, requestEventOptions(req));
 
             sessionRepo.deleteAllForUser(String(req.params.id));
 
@@ -272,17 +265,15 @@ router.post(
                 return;
             }
 
-            // Store announcement as an audit log entry for simplicity
-            analyticsRepo.logAudit({
-                userId: req.user!.userId,
-                action: "announcement.create",
-                resource: "announcement",
-                resourceId: "global",
-                details: JSON.stringify({ title, message: announcementContent, level: level ?? "info" }),
-                ipAddress: req.ip ?? req.socket.remoteAddress,
-            });
-
-            res.status(201).json({ message: "Announcement created", title });
+            const type: AnnouncementType = level === "warning" || level === "critical" ? level : "info";
+            const announcement = announcementsRepo.createAnnouncement(title, announcementContent, type, req.user!.userId);
+            publishEvent("announcement.created", {
+                announcementId: announcement.id,
+                title: announcement.title,
+                type: announcement.type,
+            }, requestEventOptions(req));
+
+            res.status(201).json({ message: "Announcement created", id: announcement.id, title });
         } catch (err) {
             next(err);
         }
@@ -327,6 +318,12 @@ router.patch(
 
             if (existing) {
                 const updated = featureRepo.updateFlag(existing.id, { enabled, description });
+                publishEvent("feature_flag.updated", {
+                    flagId: existing.id,
+                    name,
+                    enabled: updated?.enabled ?? existing.enabled,
+                    created: false,
+                }, requestEventOptions(req));
                 res.json({
                     success: true,
                     data: updated,
@@ -334,6 +331,12 @@ router.patch(
                 });
             } else {
                 const created = featureRepo.createFlag({ name, enabled: enabled ?? false, description });
+                publishEvent("feature_flag.updated", {
+                    flagId: created.id,
+                    name,
+                    enabled: created.enabled,
+                    created: true,
+                }, requestEventOptions(req));
                 res.status(201).json({
                     success: true,
                     data: created,
@@ -364,14 +367,7 @@ router.post(
                 updated++;
             }
 
-            analyticsRepo.logAudit({
-                userId: req.user!.userId,
-                action: "cluster.force_update",
-                resource: "cluster",
-                resourceId: "all",
-                details: JSON.stringify({ nodesUpdated: updated }),
-                ipAddress: req.ip ?? req.socket.remoteAddress,
-            });
+            publishEvent("cluster.update_requested", { nodesUpdated: updated }, requestEventOptions(req));
 
             res.json({ message: "Force update initiated", nodesUpdated: updated });
         } catch (err) {
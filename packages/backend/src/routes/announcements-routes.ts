@@ -1,6 +1,8 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { requireAuth, requireRole } from "../middleware/auth-guard.js";
 import * as announcementsRepo from "../db/repositories/announcements-repo.js";
+import type { Announcement } from "../db/repositories/announcements-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Public and admin announcements routes.
@@ -9,6 +11,10 @@ import * as announcementsRepo from "../db/repositories/announcements-repo.js";
  */
 const router = Router();
 
+function announcementEvent(announcement: Announcement) {
+    return { announcementId: announcement.id, title: announcement.title, type: announcement.type };
+}
+
 /**
  * GET /api/announcements
  *
@@ -90,6 +96,7 @@ router.post(
                 req.user!.userId,
                 expiresAt,
             );
+            publishEvent("announcement.created", announcementEvent(announcement), requestEventOptions(req));
 
             res.status(201).json({
                 success: true,
@@ -134,6 +141,9 @@ router.patch(
             }
 
             const announcement = announcementsRepo.getAnnouncementById(String(req.params.id));
+            if (announcement) {
+                publishEvent("announcement.updated", announcementEvent(announcement), requestEventOptions(req));
+            }
 
             res.json({
                 success: true,
@@ -163,12 +173,14 @@ router.delete(
     requireRole("admin"),
     (req: Request, res: Response, next: NextFunction) => {
         try {
+            const announcement = announcementsRepo.getAnnouncementById(String(req.params.id));
             const success = announcementsRepo.deleteAnnouncement(String(req.params.id));
 
-            if (!success) {
+            if (!announcement || !success) {
                 res.status(404).json({ error: "Announcement not found", code: "NOT_FOUND" });
                 return;
             }
+            publishEvent("announcement.deleted", announcementEvent(announcement), requestEventOptions(req));
 
             res.json({
                 success: true,
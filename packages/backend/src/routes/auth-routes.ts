@@ -7,6 +7,7 @@ import { getConfig } from "../config/app-config.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as sessionRepo from "../db/repositories/session-repo.js";
 import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Authentication routes.
@@ -182,6 +183,13 @@ router.post(
         actorUserId: user.id,
         metadata: { source: "register" },
       });
+      publishEvent("user.registered", {
+        userId: user.id,
+        username: user.username,
+        email: user.email,
+        registrationMethod: "email",
+        emailVerified: false,
+      }, { ...requestEventOptions(req), actorId: user.id });
 
       res.status(201).json({
         user: { id: user.id, username: user.username, email: user.email, role: user.role },
@@ -240,7 +248,7 @@ router.post(
       const refreshToken = refreshResult.plainToken;
       const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
 
-      sessionRepo.createSession({
+      const session = sessionRepo.createSession({
         userId: user.id,
         token: refreshToken,
         expiresAt,
@@ -253,6 +261,15 @@ router.post(
         actorUserId: user.id,
         metadata: { source: "login" },
       });
+      publishEvent("user.login", {
+        userId: user.id,
+        loginMethod: "password",
+        mfaUsed: false,
+        sessionId: session.id,
+        ipAddress: req.ip ?? "",
+        userAgent: req.get("user-agent") ?? "",
+        loginAt: session.createdAt,
+      }, { ...requestEventOptions(req), actorId: user.id });
 
       res.json({
         user: { id: user.id, username: user.username, email: user.email, role: user.role },
@@ -277,6 +294,11 @@ router.post("/logout", requireAuth, (req: Request, res: Response, next: NextFunc
       const session = sessionRepo.findByToken(refreshToken);
       if (session && session.userId === req.user!.userId) {
         sessionRepo.deleteSession(session.id);
+        publishEvent("user.logout", {
+          userId: session.userId,
+          sessionId: session.id,
+          reason: "user_initiated",
+        }, requestEventOptions(req));
       }
     }
     res.json({ message: "Logged out successfully" });
@@ -405,6 +427,12 @@ router.post(
 
       // Invalidate all sessions for this user
       sessionRepo.deleteAllForUser(user.id);
+      publishEvent("user.profile.updated", {
+        userId: user.id,
+        updatedFields: ["password"],
+        emailChanged: false,
+        passwordChanged: true,
+      }, requestEventOptions(req));
 
       res.json({ message: "Password changed successfully" });
     } catch (err) {
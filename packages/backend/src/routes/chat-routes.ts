@@ -3,6 +3,7 @@ import { requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import { getDb } from "../db/connection.js";
 import { v4 as uuidv4 } from "uuid";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 const router = Router();
 
@@ -65,6 +66,15 @@ function canModifyMessage(db: any, messageId: string, userId: string, userRole:
     return message.user_id === userId;
 }
 
+// Helper: The conversation a message belongs to
+function conversationOf(db: any, messageId: string): string {
+    const message = db
+        .prepare("SELECT conversation_id FROM chat_messages WHERE id = ?")
+        .get(messageId) as { conversation_id: string } | undefined;
+
+    return message?.conversation_id ?? "";
+}
+
 // Get all conversations for current user
 router.get("/conversations", requireAuth, async (req: Request, res: Response) => {
     const db = getDb();
@@ -190,6 +200,8 @@ router.post(
             "INSERT INTO chat_participants (conversation_id, user_id, joined_at) VALUES (?, ?, ?)",
         ).run(conversationId, otherUserId, now);
 
+        publishEvent("chat.conversation.created", { conversationId }, requestEventOptions(req));
+
         res.status(201).json({ conversationId });
     },
 );
@@ -465,6 +477,8 @@ router.post(
             },
         };
 
+        publishEvent("chat.message.created", { conversationId, messageId }, requestEventOptions(req));
+
         res.status(201).json(transformed);
     },
 );
@@ -493,6 +507,11 @@ router.patch(
             "UPDATE chat_messages SET content = ?, edited_at = ?, edited_by_id = ? WHERE id = ?",
         ).run(content, now, user.id, messageId);
 
+        publishEvent("chat.message.edited", {
+            conversationId: conversationOf(db, messageId),
+            messageId,
+        }, requestEventOptions(req));
+
         res.json({ success: true });
     },
 );
@@ -522,6 +541,11 @@ router.delete(
             messageId,
         );
 
+        publishEvent("chat.message.deleted", {
+            conversationId: conversationOf(db, messageId),
+            messageId,
+        }, requestEventOptions(req));
+
         res.json({ success: true });
     },
 );
@@ -575,6 +599,12 @@ router.post(
             now,
         );
 
+        publishEvent("chat.reaction.added", {
+            conversationId: message.conversation_id,
+            messageId,
+            emoji,
+        }, requestEventOptions(req));
+
         res.status(201).json({ success: true });
     },
 );
@@ -593,12 +623,20 @@ router.delete(
         const messageId = Array.isArray(req.params.messageId) ? req.params.messageId[0] : req.params.messageId;
         const emoji = Array.isArray(req.params.emoji) ? req.params.emoji[0] : req.params.emoji;
 
-        db.prepare("DELETE FROM chat_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?").run(
+        const result = db.prepare("DELETE FROM chat_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?").run(
             messageId,
             user.id,
             emoji,
         );
 
+        if (result.changes > 0) {
+            publishEvent("chat.reaction.removed", {
+                conversationId: conversationOf(db, messageId),
+                messageId,
+                emoji,
+            }, requestEventOptions(req));
+        }
+
         res.json({ success: true });
     },
 );
@@ -2,6 +2,7 @@ import { Router, type Request, type Response, type NextFunction } from "express"
 import { requireAuth, requireRole } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as clusterRepo from "../db/repositories/cluster-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Cluster management routes.
@@ -58,6 +59,12 @@ router.post(
                 maxJobs: req.body.maxJobs || 10,
             });
 
+            publishEvent("cluster.node.registered", {
+                nodeId: node.id,
+                name: node.name,
+                status: node.status,
+            }, requestEventOptions(req));
+
             res.status(201).json(node);
         } catch (err) {
             next(err);
@@ -126,6 +133,11 @@ router.post(
             }
 
             clusterRepo.deleteNode(node.id);
+            publishEvent("cluster.node.deregistered", {
+                nodeId: node.id,
+                name: node.name,
+                status: "offline",
+            }, requestEventOptions(req));
             res.json({ message: "Node deregistered successfully", nodeId: node.id });
         } catch (err) {
             next(err);
@@ -224,7 +236,12 @@ router.delete(
                 return;
             }
 
-            clusterRepo.deleteNode(String(req.params.id));
+            clusterRepo.deleteNode(node.id);
+            publishEvent("cluster.node.removed", {
+                nodeId: node.id,
+                name: node.name,
+                status: "offline",
+            }, requestEventOptions(req));
             res.json({ message: "Node removed successfully" });
         } catch (err) {
             next(err);
@@ -255,7 +272,12 @@ router.post(
                 return;
             }
 
-            clusterRepo.updateStatus(String(req.params.id), "draining");
+            clusterRepo.updateStatus(node.id, "draining");
+            publishEvent("cluster.node.draining", {
+                nodeId: node.id,
+                name: node.name,
+                status: "draining",
+            }, requestEventOptions(req));
             res.json({ message: "Node set to draining", nodeId: String(req.params.id) });
         } catch (err) {
             next(err);
@@ -281,7 +303,12 @@ router.post(
                 return;
             }
 
-            clusterRepo.updateStatus(String(req.params.id), "updating");
+            clusterRepo.updateStatus(node.id, "updating");
+            publishEvent("cluster.node.updating", {
+                nodeId: node.id,
+                name: node.name,
+                status: "updating",
+            }, requestEventOptions(req));
             res.json({ message: "Node set to updating", nodeId: String(req.params.id) });
         } catch (err) {
             next(err);
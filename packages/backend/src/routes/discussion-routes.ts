@@ -5,9 +5,22 @@ import * as discussionRepo from "../db/repositories/discussion-repo.js";
 import * as commentRepo from "../db/repositories/comment-repo.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
+import type { Discussion } from "../db/repositories/discussion-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 const router = Router();
 
+function discussionEvent(discussion: Discussion, extra: { updatedFields?: string[]; commentId?: string } = {}) {
+  return {
+    repositoryId: discussion.repositoryId,
+    discussionId: discussion.id,
+    number: discussion.number,
+    title: discussion.title,
+    authorId: discussion.authorId,
+    ...extra,
+  };
+}
+
 // GET /:owner/:repo/discussions - List discussions
 router.get("/:owner/:repo/discussions", optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -113,6 +126,7 @@ router.post("/:owner/:repo/discussions", requireAuth,
       category,
       authorId: req.user!.userId,
     });
+    publishEvent("discussion.created", discussionEvent(discussion), requestEventOptions(req));
     
     res.status(201).json(discussion);
   } catch (err) {
@@ -165,6 +179,12 @@ router.patch("/:owner/:repo/discussions/:number", requireAuth,
       state: state as "open" | "closed" | undefined,
       closedById: state === "closed" ? req.user!.userId : undefined,
     });
+    if (updated) {
+      const updatedFields = Object.entries({ title, body, category, state })
+        .filter(([, value]) => value !== undefined)
+        .map(([field]) => field);
+      publishEvent("discussion.edited", discussionEvent(updated, { updatedFields }), requestEventOptions(req));
+    }
     
     res.json(updated);
   } catch (err) {
@@ -243,6 +263,7 @@ router.post("/:owner/:repo/discussions/:number/comments", requireAuth,
     ).run(id, discussion.id, req.user!.userId, body, now, now);
     
     const comment = db.prepare("SELECT * FROM discussion_comments WHERE id = ?").get(id);
+    publishEvent("discussion.comment.created", discussionEvent(discussion, { commentId: id }), requestEventOptions(req));
     
     res.status(201).json(comment);
   } catch (err) {
@@ -8,12 +8,14 @@ import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as clusterRepo from "../db/repositories/cluster-repo.js";
 import { getConfig } from "../config/app-config.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 const router = Router();
 
 type TerminalSession = {
     id: string;
     userId: string;
+    projectId: string;
     owner: string;
     repo: string;
     branch: string;
@@ -97,6 +99,7 @@ router.post(
             const session: TerminalSession = {
                 id: sessionId,
                 userId: req.user!.userId,
+                projectId: project.id,
                 owner,
                 repo,
                 branch,
@@ -119,6 +122,8 @@ router.post(
 
             shell.stdin.write(`${initCommand}\n`);
 
+            publishEvent("terminal.session.started", { projectId: project.id, sessionId }, requestEventOptions(req));
+
             res.status(201).json({
                 success: true,
                 data: {
@@ -195,6 +200,12 @@ router.post(
         appendOutput(session, `\n$ ${command}\n`);
         session.shell.stdin.write(`${command}\n`);
 
+        publishEvent("terminal.command.executed", {
+            projectId: session.projectId,
+            sessionId,
+            command,
+        }, requestEventOptions(req));
+
         res.json({
             success: true,
             data: { accepted: true },
@@ -225,6 +236,8 @@ router.delete(
         session.shell.kill();
         sessions.delete(sessionId);
 
+        publishEvent("terminal.session.closed", { projectId: session.projectId, sessionId }, requestEventOptions(req));
+
         res.json({
             success: true,
             data: { closed: true },
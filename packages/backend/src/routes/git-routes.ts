@@ -1,11 +1,16 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { handleGitHttpRequest, listBranches, listTags, getDiff } from "@platform/git";
 import { optionalAuth, requireAuth } from "../middleware/auth-guard.js";
-import { comparePassword } from "@platform/auth";
+import { authenticateGitCredentials } from "../middleware/git-auth.js";
 import { getConfig } from "../config/app-config.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import * as mirrorRepo from "../db/repositories/mirror-repo.js";
+import { createPushHooks } from "../services/push-policy-service.js";
+import { hasScope } from "../services/api-token-service.js";
+import { describeDenial, resolveProjectPermission, satisfies } from "../services/repository-permission-service.js";
+import type { PermissionLevel } from "@platform/git";
 
 /**
  * Git HTTP smart protocol routes and REST API endpoints
@@ -27,19 +32,14 @@ function resolveProject(owner: string, repo: string): ReturnType<typeof projectR
 }
 
 /**
- * Check if the requesting user can access a project for git operations.
- * Public repos are always accessible; private repos require the owner or admin.
+ * Effective permission of the requesting user on a project, resolved from
+ * ownership, collaborators and organization teams.
  */
-function canAccess(
+function permissionFor(
     project: NonNullable<ReturnType<typeof projectRepo.findById>>,
-    userId?: string,
-    role?: string,
-): boolean {
-    if (!project.isPrivate) return true;
-    if (!userId) return false;
-    if (project.ownerId === userId) return true;
-    if (role === "admin") return true;
-    return false;
+    req: Request,
+): PermissionLevel {
+    return resolveProjectPermission(project, req.user ? { userId: req.user.userId, role: req.user.role } : null);
 }
 
 /**
@@ -59,6 +59,44 @@ function sendGitAuthChallenge(res: Response): void {
     res.status(401).end("Authentication required");
 }
 
+/**
+ * Reject a git operation with a plain-text 403; git prints the body of a
+ * failed ref advertisement to the user.
+ */
+function sendGitDenied(res: Response, message: string): void {
+    res.status(403).type("text/plain").send(message + "\n");
+}
+
+/**
+ * Check the permission a git operation needs. Anonymous clients get a
+ * credentials challenge, authenticated ones a 403 explaining the denial.
+ * Returns false when a response has been sent.
+ */
+function authorizeGitOperation(
+    req: Request,
+    res: Response,
+    project: NonNullable<ReturnType<typeof projectRepo.findById>>,
+    required: PermissionLevel,
+): boolean {
+    if (satisfies(permissionFor(project, req), required)) return true;
+
+    if (!req.user) {
+        sendGitAuthChallenge(res);
+        return false;
+    }
+
+    const repoPath = `${String(req.params.owner)}/${String(req.params.repo).replace(/\.git$/, "")}`;
+    sendGitDenied(res, describeDenial(repoPath, required, req.user.username));
+    return false;
+}
+
+/**
+ * Personal access tokens need the write:repos scope to push.
+ */
+function canPushWithToken(req: Request): boolean {
+    return !req.user?.tokenScopes || hasScope(req.user.tokenScopes, "write:repos");
+}
+
 function parseBasicCredentials(req: Request): { username: string; password: string } | null {
     const header = req.headers.authorization;
     if (!header || !header.startsWith("Basic ")) return null;
@@ -94,24 +132,23 @@ async function gitHttpAuth(req: Request, res: Response, next: NextFunction): Pro
         return;
     }
 
-    const user = userRepo.findByUsername(creds.username) ?? userRepo.findByEmail(creds.username);
-    if (!user) {
-        sendGitAuthChallenge(res);
-        return;
-    }
-
-    const ok = await comparePassword(creds.password, user.passwordHash);
-    if (!ok) {
-        sendGitAuthChallenge(res);
+    const result = await authenticateGitCredentials(creds.username, creds.password);
+    if (!result.ok) {
+        if (result.status === 401) {
+            res.setHeader("WWW-Authenticate", 'Basic realm="Git Access"');
+        }
+        res.status(result.status).end(result.message);
         return;
     }
 
+    const { user } = result;
     req.user = {
         id: user.id,
         userId: user.id,
         username: user.username,
         role: user.role,
         tier: "free",
+        tokenScopes: result.tokenScopes,
     };
 
     next();
@@ -137,19 +174,25 @@ router.get(
                 return;
             }
 
-            if (!canAccess(project, req.user?.userId, req.user?.role)) {
-                res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
-                return;
-            }
-
-            // Track clone count for upload-pack (clone/fetch)
             const serviceParam = String(req.query.service || "");
             if (serviceParam !== "git-upload-pack" && serviceParam !== "git-receive-pack") {
                 res.status(400).json({ error: "Invalid or missing service parameter", code: "VALIDATION_ERROR" });
                 return;
             }
+
+            // Anonymous clients get a challenge; git only sends credentials after one
+            const required: PermissionLevel = serviceParam === "git-upload-pack" ? "read" : "write";
+            if (!authorizeGitOperation(req, res, project, required)) return;
+
+            // Track clone count for upload-pack (clone/fetch)
             if (serviceParam === "git-upload-pack") {
                 projectRepo.incrementCloneCount(project.id);
+            } else if (!canPushWithToken(req)) {
+                sendGitDenied(res, "Personal access token does not have the write:repos scope");
+                return;
+            } else if (mirrorRepo.findPullMirror(project.id)) {
+                sendGitDenied(res, "This repository is a pull mirror and is read-only");
+                return;
             }
 
             const config = getConfig();
@@ -173,19 +216,27 @@ router.post(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const project = resolveProject(String(req.params.owner), String(req.params.repo));
-            if (!project || !canAccess(project, req.user?.userId, req.user?.role)) {
+            if (!project) {
                 res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
                 return;
             }
 
-            const config = getConfig();
-            const basePath = config.dataDir + "/repos";
-            const repoRelPath = getRepoRelPath(project.storagePath, basePath);
             const serviceParam = String(req.query.service || "git-upload-pack");
             if (serviceParam !== "git-upload-pack" && serviceParam !== "git-receive-pack") {
                 res.status(400).json({ error: "Invalid service parameter", code: "VALIDATION_ERROR" });
                 return;
             }
+
+            const required: PermissionLevel = serviceParam === "git-upload-pack" ? "read" : "write";
+            if (!authorizeGitOperation(req, res, project, required)) return;
+            if (serviceParam === "git-receive-pack" && !canPushWithToken(req)) {
+                sendGitDenied(res, "Personal access token does not have the write:repos scope");
+                return;
+            }
+
+            const config = getConfig();
+            const basePath = config.dataDir;
+            const repoRelPath = getRepoRelPath(project.storagePath, basePath);
             handleGitHttpRequest(basePath, req, res, repoRelPath, serviceParam);
         } catch (err) {
             next(err);
@@ -204,13 +255,15 @@ router.post(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const project = resolveProject(String(req.params.owner), String(req.params.repo));
-            if (!project || !canAccess(project, req.user?.userId, req.user?.role)) {
+            if (!project) {
                 res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
                 return;
             }
 
+            if (!authorizeGitOperation(req, res, project, "read")) return;
+
             const config = getConfig();
-            const basePath = config.dataDir + "/repos";
+            const basePath = config.dataDir;
             const repoRelPath = getRepoRelPath(project.storagePath, basePath);
             handleGitHttpRequest(basePath, req, res, repoRelPath, "git-upload-pack");
         } catch (err) {
@@ -223,7 +276,9 @@ router.post(
  * POST /:owner/:repo.git/git-receive-pack
  *
  * Handles the git receive-pack protocol (push).
- * Requires authentication – only the owner or admin can push.
+ * Requires write permission on the repository. Every push
+ * passes the project's branch protection and secret scanning checks first.
+ * Pull mirrors are read-only.
  */
 router.post(
     "/:owner/:repo.git/git-receive-pack",
@@ -241,14 +296,20 @@ router.post(
                 return;
             }
 
-            // Only owner or admin can push
-            if (project.ownerId !== req.user!.userId && req.user!.role !== "admin") {
-                res.status(403).json({ error: "Push access denied", code: "FORBIDDEN" });
+            if (!canPushWithToken(req)) {
+                sendGitDenied(res, "Personal access token does not have the write:repos scope");
+                return;
+            }
+
+            if (!authorizeGitOperation(req, res, project, "write")) return;
+
+            if (mirrorRepo.findPullMirror(project.id)) {
+                sendGitDenied(res, "This repository is a pull mirror and is read-only");
                 return;
             }
 
             const config = getConfig();
-            const basePath = config.dataDir + "/repos";
+            const basePath = config.dataDir;
             const repoRelPath = getRepoRelPath(project.storagePath, basePath);
             analyticsRepo.logAnalyticsEvent({
                 eventType: "repo.push",
@@ -256,7 +317,10 @@ router.post(
                 repositoryId: project.id,
                 metadata: { owner: String(req.params.owner), repo: String(req.params.repo) },
             });
-            handleGitHttpRequest(basePath, req, res, repoRelPath, "git-receive-pack");
+            handleGitHttpRequest(basePath, req, res, repoRelPath, "git-receive-pack", createPushHooks(project, {
+                userId: req.user!.userId,
+                role: req.user!.role,
+            }));
         } catch (err) {
             next(err);
         }
@@ -276,7 +340,7 @@ router.get(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const project = resolveProject(String(req.params.owner), String(req.params.repo));
-            if (!project || !canAccess(project, req.user?.userId, req.user?.role)) {
+            if (!project || !satisfies(permissionFor(project, req), "read")) {
                 res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
                 return;
             }
@@ -300,7 +364,7 @@ router.get(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const project = resolveProject(String(req.params.owner), String(req.params.repo));
-            if (!project || !canAccess(project, req.user?.userId, req.user?.role)) {
+            if (!project || !satisfies(permissionFor(project, req), "read")) {
                 res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
                 return;
             }
@@ -327,7 +391,7 @@ router.get(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const project = resolveProject(String(req.params.owner), String(req.params.repo));
-            if (!project || !canAccess(project, req.user?.userId, req.user?.role)) {
+            if (!project || !satisfies(permissionFor(project, req), "read")) {
                 res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
                 return;
             }
@@ -9,9 +9,23 @@ import * as userRepo from "../db/repositories/user-repo.js";
 import { getConfig } from "../config/app-config.js";
 import * as path from "node:path";
 import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import type { IssueEventPayload } from "@platform/shared";
 
 const router = Router();
 
+function issueEvent(issue: issueRepo.Issue, updatedFields?: string[]): IssueEventPayload {
+  return {
+    repositoryId: issue.repositoryId,
+    issueId: issue.id,
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    authorId: issue.authorId,
+    updatedFields,
+  };
+}
+
 // GET /:owner/:repo/issues - List issues
 router.get("/:owner/:repo/issues", optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -132,6 +146,7 @@ router.post("/:owner/:repo/issues", requireAuth,
       repositoryId: project.id,
       metadata: { issueId: issue.id, number: issue.number },
     });
+    publishEvent("issue.opened", issueEvent(issue), requestEventOptions(req));
     
     res.status(201).json(issue);
   } catch (err) {
@@ -191,6 +206,15 @@ router.patch("/:owner/:repo/issues/:number", requireAuth,
         metadata: { issueId: issue.id, number: issue.number },
       });
     }
+    if (updated) {
+      const type = updated.state === issue.state
+        ? "issue.edited"
+        : updated.state === "closed" ? "issue.closed" : "issue.reopened";
+      const updatedFields = Object.keys({ title, body, state }).filter(
+        (field) => req.body[field] !== undefined,
+      );
+      publishEvent(type, issueEvent(updated, updatedFields), requestEventOptions(req));
+    }
     
     res.json(updated);
   } catch (err) {
@@ -256,12 +280,18 @@ router.post("/:owner/:repo/issues/:number/comments", requireAuth,
       return;
     }
     
-    const comment = commentRepo.createIssueComment(
-      issue.id,
-      req.user!.userId,
+    const comment = commentRepo.createIssueComment(issue.id, req.user!.userId, body);
+    publishEvent("comment.created", {
+      repositoryId: project.id,
+      commentId: comment.id,
+      target: "issue",
+      targetId: issue.id,
+      number: issue.number,
+      title: issue.title,
+      targetAuthorId: issue.authorId,
+      authorId: req.user!.userId,
       body,
-      issue.title
-    );
+    }, requestEventOptions(req));
     
     res.status(201).json(comment);
   } catch (err) {
@@ -298,6 +328,7 @@ router.post("/:owner/:repo/issues/:number/labels", requireAuth,
     }
     
     labelRepo.addIssueLabel(issue.id, label);
+    publishEvent("issue.labeled", { ...issueEvent(issue), label }, requestEventOptions(req));
     const labels = labelRepo.getIssueLabels(issue.id);
     
     res.json({ labels });
@@ -330,6 +361,7 @@ router.delete("/:owner/:repo/issues/:number/labels/:label", requireAuth, async (
     }
     
     labelRepo.removeIssueLabel(issue.id, String(label));
+    publishEvent("issue.unlabeled", { ...issueEvent(issue), label: String(label) }, requestEventOptions(req));
     const labels = labelRepo.getIssueLabels(issue.id);
     
     res.json({ labels });
@@ -374,6 +406,7 @@ router.post("/:owner/:repo/issues/:number/assignees", requireAuth,
     }
     
     issueRepo.addAssignee(issue.id, assigneeUser.id);
+    publishEvent("issue.assigned", { ...issueEvent(issue), assigneeId: assigneeUser.id }, requestEventOptions(req));
     const assignees = issueRepo.getAssignees(issue.id);
     
     res.json({ assignees });
@@ -412,6 +445,7 @@ router.delete("/:owner/:repo/issues/:number/assignees/:username", requireAuth, a
     }
     
     issueRepo.removeAssignee(issue.id, assigneeUser.id);
+    publishEvent("issue.unassigned", { ...issueEvent(issue), assigneeId: assigneeUser.id }, requestEventOptions(req));
     const assignees = issueRepo.getAssignees(issue.id);
     
     res.json({ assignees });
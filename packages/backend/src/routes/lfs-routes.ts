@@ -0,0 +1,300 @@
+import express, { Router, type Response, type NextFunction } from "express";
+import { createReadStream, promises as fs } from "node:fs";
+import { processBatchRequest, resolveObjectPath, storeObjectStream, verifyObject } from "@platform/git";
+import type { LfsBatchObjectResponse, LfsTransferAction } from "@platform/git";
+import { gitBasicAuth, requireGitWriteAccess, type GitAuthRequest } from "../middleware/git-auth.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as lfsObjectRepo from "../db/repositories/lfs-object-repo.js";
+import { checkStorageQuota, getLfsStoragePath } from "../services/lfs-service.js";
+import { publishEvent } from "../services/event-bus.js";
+
+/**
+ * Git LFS API routes.
+ *
+ * Implements the batch API and the basic transfer adapter under
+ * `/:owner/:repo.git/info/lfs`, authenticated the same way as git
+ * smart HTTP (see `gitBasicAuth`). Downloads need read access, uploads
+ * need write access and count against the owner's storage limit.
+ */
+const router = Router();
+
+const LFS_MEDIA_TYPE = "application/vnd.git-lfs+json";
+const OID_PATTERN = /^[0-9a-f]{64}$/;
+
+function sendLfsError(res: Response, status: number, message: string): void {
+    res.status(status).type(LFS_MEDIA_TYPE).json({ message });
+}
+
+function resolveLfsProject(req: GitAuthRequest) {
+    return req.repository ? projectRepo.findById(req.repository.id) : null;
+}
+
+function lfsBaseUrl(req: GitAuthRequest): string {
+    return `${req.protocol}://${req.get("host")}/${req.params.owner}/${req.params.repo}.git/info/lfs`;
+}
+
+function toSpecAction(action: LfsTransferAction | undefined) {
+    if (!action) return undefined;
+    return { href: action.href, header: action.header, expires_in: action.expiresIn };
+}
+
+function toSpecObject(object: LfsBatchObjectResponse) {
+    return {
+        oid: object.oid,
+        size: object.size,
+        authenticated: object.authenticated,
+        actions: object.actions
+            ? {
+                upload: toSpecAction(object.actions.upload),
+                download: toSpecAction(object.actions.download),
+                verify: toSpecAction(object.actions.verify),
+            }
+            : undefined,
+        error: object.error,
+    };
+}
+
+function isValidObject(value: unknown): value is { oid: string; size: number } {
+    if (!value || typeof value !== "object") return false;
+    const { oid, size } = value as { oid?: unknown; size?: unknown };
+    return typeof oid === "string"
+        && OID_PATTERN.test(oid)
+        && typeof size === "number"
+        && Number.isInteger(size)
+        && size >= 0;
+}
+
+/**
+ * Uploads require write access; downloads only what `gitBasicAuth` checked.
+ */
+function requireWriteForUpload(req: GitAuthRequest, res: Response, next: NextFunction): void {
+    if (req.body?.operation === "upload") {
+        void requireGitWriteAccess(req, res, next);
+        return;
+    }
+    next();
+}
+
+/**
+ * POST /:owner/:repo.git/info/lfs/objects/batch
+ *
+ * LFS batch API. Returns transfer actions for each requested object.
+ */
+router.post(
+    "/:owner/:repo.git/info/lfs/objects/batch",
+    express.json({ type: [LFS_MEDIA_TYPE, "application/json"], limit: "2mb" }),
+    gitBasicAuth,
+    requireWriteForUpload,
+    async (req: GitAuthRequest, res: Response, next: NextFunction) => {
+        try {
+            const project = resolveLfsProject(req);
+            if (!project) {
+                sendLfsError(res, 404, "Repository not found");
+                return;
+            }
+
+            const { operation, transfers, objects } = req.body ?? {};
+            if (operation !== "upload" && operation !== "download") {
+                sendLfsError(res, 422, "operation must be 'upload' or 'download'");
+                return;
+            }
+            if (!Array.isArray(objects) || !objects.every(isValidObject)) {
+                sendLfsError(res, 422, "objects must be a list of { oid, size } with sha256 oids");
+                return;
+            }
+            if (Array.isArray(transfers) && transfers.length > 0 && !transfers.includes("basic")) {
+                sendLfsError(res, 422, "Only the basic transfer adapter is supported");
+                return;
+            }
+
+            const header: Record<string, string> = {};
+            const authorization = req.get("Authorization");
+            if (authorization) header.Authorization = authorization;
+
+            const storagePath = getLfsStoragePath(project);
+            const responses = await processBatchRequest(
+                storagePath,
+                { operation, transfers: ["basic"], objects },
+                lfsBaseUrl(req),
+                header,
+            );
+
+            if (operation === "upload") {
+                const pendingBytes = responses
+                    .filter((object) => object.actions?.upload)
+                    .reduce((total, object) => total + object.size, 0);
+                const quotaError = checkStorageQuota(project.ownerId, pendingBytes);
+                if (quotaError) {
+                    sendLfsError(res, 507, quotaError);
+                    return;
+                }
+
+                // Objects already on disk need no transfer; make sure they are accounted for.
+                for (const object of responses) {
+                    if (!object.actions && !object.error) {
+                        lfsObjectRepo.recordObject(project.id, object.oid, object.size, req.gitUser?.id);
+                    }
+                }
+            }
+
+            res.type(LFS_MEDIA_TYPE).json({
+                transfer: "basic",
+                objects: responses.map(toSpecObject),
+                hash_algo: "sha256",
+            });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+/**
+ * PUT /:owner/:repo.git/info/lfs/objects/:oid
+ *
+ * Basic transfer upload. The body is the raw object content.
+ */
+router.put(
+    "/:owner/:repo.git/info/lfs/objects/:oid",
+    gitBasicAuth,
+    requireGitWriteAccess,
+    async (req: GitAuthRequest, res: Response, next: NextFunction) => {
+        try {
+            const project = resolveLfsProject(req);
+            if (!project) {
+                sendLfsError(res, 404, "Repository not found");
+                return;
+            }
+
+            const oid = String(req.params.oid);
+            if (!OID_PATTERN.test(oid)) {
+                sendLfsError(res, 422, "Invalid object id");
+                return;
+            }
+
+            // The quota is checked up front against the declared size, which the upload may not exceed
+            const contentLength = req.get("Content-Length");
+            if (contentLength === undefined) {
+                sendLfsError(res, 411, "Content-Length is required");
+                return;
+            }
+            const expectedSize = Number(contentLength);
+            if (!Number.isInteger(expectedSize) || expectedSize < 0) {
+                sendLfsError(res, 400, "Invalid Content-Length");
+                return;
+            }
+
+            const quotaError = checkStorageQuota(project.ownerId, expectedSize);
+            if (quotaError) {
+                sendLfsError(res, 507, quotaError);
+                return;
+            }
+
+            let objectPath: string;
+            try {
+                objectPath = await storeObjectStream(getLfsStoragePath(project), oid, req, expectedSize);
+            } catch (err) {
+                sendLfsError(res, 422, err instanceof Error ? err.message : "Upload failed");
+                return;
+            }
+
+            // Check again with the bytes on disk: concurrent uploads all passed the first check
+            const { size } = await fs.stat(objectPath);
+            if (!lfsObjectRepo.findObject(project.id, oid)) {
+                const writtenQuotaError = checkStorageQuota(project.ownerId, size);
+                if (writtenQuotaError) {
+                    await fs.unlink(objectPath).catch(() => {});
+                    sendLfsError(res, 507, writtenQuotaError);
+                    return;
+                }
+            }
+
+            lfsObjectRepo.recordObject(project.id, oid, size, req.gitUser?.id);
+            publishEvent("lfs.object.uploaded", {
+                repositoryId: project.id,
+                oid,
+                size,
+            }, { actorId: req.gitUser?.id ?? null, source: "user_action" });
+            res.status(200).end();
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+/**
+ * GET /:owner/:repo.git/info/lfs/objects/:oid
+ *
+ * Basic transfer download.
+ */
+router.get(
+    "/:owner/:repo.git/info/lfs/objects/:oid",
+    gitBasicAuth,
+    async (req: GitAuthRequest, res: Response, next: NextFunction) => {
+        try {
+            const project = resolveLfsProject(req);
+            if (!project) {
+                sendLfsError(res, 404, "Repository not found");
+                return;
+            }
+
+            const oid = String(req.params.oid);
+            if (!OID_PATTERN.test(oid)) {
+                sendLfsError(res, 422, "Invalid object id");
+                return;
+            }
+
+            const objectPath = resolveObjectPath(getLfsStoragePath(project), oid);
+            const stats = await fs.stat(objectPath).catch(() => null);
+            if (!stats?.isFile()) {
+                sendLfsError(res, 404, "Object not found");
+                return;
+            }
+
+            res.setHeader("Content-Type", "application/octet-stream");
+            res.setHeader("Content-Length", String(stats.size));
+            createReadStream(objectPath).on("error", next).pipe(res);
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+/**
+ * POST /:owner/:repo.git/info/lfs/objects/:oid/verify
+ *
+ * Confirms an uploaded object is stored with the expected size and hash.
+ */
+router.post(
+    "/:owner/:repo.git/info/lfs/objects/:oid/verify",
+    express.json({ type: [LFS_MEDIA_TYPE, "application/json"] }),
+    gitBasicAuth,
+    requireGitWriteAccess,
+    async (req: GitAuthRequest, res: Response, next: NextFunction) => {
+        try {
+            const project = resolveLfsProject(req);
+            if (!project) {
+                sendLfsError(res, 404, "Repository not found");
+                return;
+            }
+
+            const oid = String(req.params.oid);
+            if (!isValidObject(req.body) || req.body.oid !== oid) {
+                sendLfsError(res, 422, "Body must contain the object's oid and size");
+                return;
+            }
+
+            const result = await verifyObject(getLfsStoragePath(project), oid, req.body.size);
+            if (!result.valid) {
+                sendLfsError(res, result.reason === "Object not found" ? 404 : 422, result.reason);
+                return;
+            }
+
+            lfsObjectRepo.recordObject(project.id, oid, req.body.size, req.gitUser?.id);
+            res.type(LFS_MEDIA_TYPE).json({ message: result.reason });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+export default router;
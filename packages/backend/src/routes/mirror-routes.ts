@@ -0,0 +1,306 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { requireAuth } from "../middleware/auth-guard.js";
+import { validate } from "../middleware/input-validator.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as mirrorRepo from "../db/repositories/mirror-repo.js";
+import type { MirrorSyncRun, RepositoryMirror } from "../db/repositories/mirror-repo.js";
+import * as mirrorService from "../services/mirror-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+
+/**
+ * Repository mirror settings routes
+ * Manages a repository's pull mirror and its push mirrors, sync history and manual syncs
+ */
+const router = Router();
+
+type ProjectRecord = NonNullable<ReturnType<typeof projectRepo.findById>>;
+
+/**
+ * Resolve a project the current user administers, or send 404/403.
+ */
+function resolveAdminProject(req: Request, res: Response): ProjectRecord | null {
+  const ownerUser = userRepo.findByUsername(String(req.params.owner));
+  const project = ownerUser ? projectRepo.findBySlug(ownerUser.id, String(req.params.repo)) : null;
+  if (!project) {
+    res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
+    return null;
+  }
+
+  if (project.ownerId !== req.user!.userId && req.user!.role !== "admin") {
+    res.status(403).json({ error: "Forbidden: repository admin access required", code: "FORBIDDEN" });
+    return null;
+  }
+
+  return project;
+}
+
+function formatMirror(mirror: RepositoryMirror) {
+  return {
+    id: mirror.id,
+    direction: mirror.direction,
+    url: mirror.remoteUrl,
+    username: mirror.username ?? null,
+    has_credentials: Boolean(mirror.encryptedCredentials),
+    interval_seconds: mirror.direction === "pull" ? mirror.intervalSeconds : null,
+    enabled: mirror.enabled,
+    last_synced_at: mirror.lastSyncedAt ?? null,
+    last_success_at: mirror.lastSuccessAt ?? null,
+    last_error: mirror.lastError ?? null,
+    next_sync_at: mirror.nextSyncAt ?? null,
+    created_at: mirror.createdAt,
+    updated_at: mirror.updatedAt,
+  };
+}
+
+function mirrorEvent(mirror: RepositoryMirror) {
+  return { projectId: mirror.projectId, mirrorId: mirror.id, direction: mirror.direction };
+}
+
+function formatSyncRun(run: MirrorSyncRun) {
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status,
+    updated_refs: run.updatedRefs,
+    error: run.error ?? null,
+    duration_ms: run.durationMs,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+  };
+}
+
+/**
+ * GET /api/repositories/:owner/:repo/mirrors
+ * List the repository's pull mirror and push mirrors
+ */
+router.get(
+  "/:owner/:repo/mirrors",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const mirrors = mirrorRepo.listByProject(project.id);
+      const pull = mirrors.find((mirror) => mirror.direction === "pull");
+
+      res.json({
+        pull_mirror: pull ? formatMirror(pull) : null,
+        push_mirrors: mirrors.filter((mirror) => mirror.direction === "push").map(formatMirror),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/mirrors
+ * Add a push mirror. Pull mirrors are set up when the repository is created.
+ */
+router.post(
+  "/:owner/:repo/mirrors",
+  requireAuth,
+  validate([
+    { field: "url", location: "body", required: true, type: "string", min: 1, max: 2048, sanitize: false },
+    { field: "username", location: "body", type: "string", max: 255, sanitize: false },
+    { field: "password", location: "body", type: "string", max: 4096, sanitize: false },
+    { field: "enabled", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const { url, username, password, enabled } = req.body;
+      const urlError = await mirrorService.validateRemoteUrl(url, req.user!.role);
+      if (urlError) {
+        res.status(400).json({ error: urlError, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const duplicate = mirrorRepo
+        .listByProject(project.id, "push")
+        .some((mirror) => mirror.remoteUrl === url);
+      if (duplicate) {
+        res.status(409).json({ error: "A push mirror for this URL already exists", code: "CONFLICT" });
+        return;
+      }
+
+      const mirror = mirrorRepo.create({
+        projectId: project.id,
+        direction: "push",
+        remoteUrl: url,
+        username: username || undefined,
+        encryptedCredentials: mirrorService.sealCredentials(password),
+        enabled,
+        createdBy: req.user!.userId,
+      });
+      publishEvent("project.mirror.created", mirrorEvent(mirror), requestEventOptions(req));
+
+      res.status(201).json(formatMirror(mirror));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/repositories/:owner/:repo/mirrors/:mirrorId
+ * Update a mirror's URL, credentials, interval or enabled state.
+ * An empty password clears the stored credentials.
+ */
+router.patch(
+  "/:owner/:repo/mirrors/:mirrorId",
+  requireAuth,
+  validate([
+    { field: "url", location: "body", type: "string", min: 1, max: 2048, sanitize: false },
+    { field: "username", location: "body", type: "string", max: 255, sanitize: false },
+    { field: "password", location: "body", type: "string", max: 4096, sanitize: false },
+    { field: "interval_seconds", location: "body", type: "number", min: mirrorService.MIN_MIRROR_INTERVAL_SECONDS },
+    { field: "enabled", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const mirror = mirrorRepo.findByProject(project.id, String(req.params.mirrorId));
+      if (!mirror) {
+        res.status(404).json({ error: "Mirror not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const { url, username, password, interval_seconds, enabled } = req.body;
+      if (url !== undefined) {
+        const urlError = await mirrorService.validateRemoteUrl(url, req.user!.role);
+        if (urlError) {
+          res.status(400).json({ error: urlError, code: "VALIDATION_ERROR" });
+          return;
+        }
+      }
+
+      const updated = mirrorRepo.update(mirror.id, {
+        remoteUrl: url,
+        username: username === undefined ? undefined : username || null,
+        encryptedCredentials: password === undefined
+          ? undefined
+          : mirrorService.sealCredentials(password) ?? null,
+        intervalSeconds: mirror.direction === "pull" ? interval_seconds : undefined,
+        enabled,
+        nextSyncAt: mirror.direction === "pull" && interval_seconds !== undefined
+          ? new Date(Date.now() + interval_seconds * 1000).toISOString()
+          : undefined,
+      });
+
+      publishEvent("project.mirror.updated", mirrorEvent(updated!), requestEventOptions(req));
+
+      res.json(formatMirror(updated!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/repositories/:owner/:repo/mirrors/:mirrorId
+ * Remove a mirror. Removing the pull mirror turns the repository into a
+ * regular repository that accepts pushes.
+ */
+router.delete(
+  "/:owner/:repo/mirrors/:mirrorId",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const mirror = mirrorRepo.findByProject(project.id, String(req.params.mirrorId));
+      if (!mirror || !mirrorRepo.remove(project.id, mirror.id)) {
+        res.status(404).json({ error: "Mirror not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("project.mirror.deleted", mirrorEvent(mirror), requestEventOptions(req));
+
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/mirrors/:mirrorId/sync
+ * Sync a mirror now
+ */
+router.post(
+  "/:owner/:repo/mirrors/:mirrorId/sync",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const mirror = mirrorRepo.findByProject(project.id, String(req.params.mirrorId));
+      if (!mirror) {
+        res.status(404).json({ error: "Mirror not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const run = await mirrorService.runMirrorSync(mirror, "manual");
+      if (!run) {
+        res.status(409).json({ error: "A sync of this mirror is already running", code: "CONFLICT" });
+        return;
+      }
+      publishEvent("project.mirror.synced", {
+        ...mirrorEvent(mirror),
+        status: run.status,
+      }, requestEventOptions(req));
+
+      res.json({
+        mirror: formatMirror(mirrorRepo.findById(mirror.id)!),
+        sync: formatSyncRun(run),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/mirrors/:mirrorId/syncs
+ * Sync history of a mirror, newest first
+ */
+router.get(
+  "/:owner/:repo/mirrors/:mirrorId/syncs",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const mirror = mirrorRepo.findByProject(project.id, String(req.params.mirrorId));
+      if (!mirror) {
+        res.status(404).json({ error: "Mirror not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const { page = "1", perPage = "30" } = req.query;
+      const pageNum = Math.max(1, parseInt(String(page)) || 1);
+      const perPageNum = Math.min(100, Math.max(1, parseInt(String(perPage)) || 30));
+      const { runs, total } = mirrorRepo.listSyncRuns(mirror.id, { page: pageNum, perPage: perPageNum });
+
+      res.json({
+        total_count: total,
+        page: pageNum,
+        per_page: perPageNum,
+        syncs: runs.map(formatSyncRun),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -2,7 +2,7 @@ import { Router, type Request, type Response, type NextFunction } from "express"
 import { requireAuth, requireRole } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as moderationRepo from "../db/repositories/moderation-repo.js";
-import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Moderation routes.
@@ -68,6 +68,12 @@ router.post(
         reason,
         details,
       });
+      publishEvent("moderation.report.created", {
+        reportId: report.id,
+        status: report.status,
+        targetType,
+        targetId,
+      }, requestEventOptions(req));
 
       res.status(201).json(report);
     } catch (err) {
@@ -147,16 +153,11 @@ router.patch(
           req.user!.userId,
           resolution,
         );
-
-        // Audit log
-        analyticsRepo.logAudit({
-          userId: req.user!.userId,
-          action: "moderation.resolve",
-          resource: "moderation_report",
-          resourceId: reportId,
-          details: JSON.stringify({ resolution }),
-          ipAddress: req.ip ?? req.socket.remoteAddress,
-        });
+        publishEvent("moderation.report.resolved", {
+          reportId,
+          status: "resolved",
+          resolution,
+        }, requestEventOptions(req));
 
         res.json(resolved);
         return;
@@ -169,15 +170,7 @@ router.patch(
       }
 
       moderationRepo.updateStatus(reportId, status, req.user!.userId);
-
-      analyticsRepo.logAudit({
-        userId: req.user!.userId,
-        action: "moderation.status_update",
-        resource: "moderation_report",
-        resourceId: reportId,
-        details: JSON.stringify({ status }),
-        ipAddress: req.ip ?? req.socket.remoteAddress,
-      });
+      publishEvent("moderation.report.updated", { reportId, status }, requestEventOptions(req));
 
       const updated = moderationRepo.findById(reportId);
       res.json(updated);
@@ -3,6 +3,13 @@ import { requireAuth, optionalAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as orgRepo from "../db/repositories/org-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
+import * as secretPatternRepo from "../db/repositories/secret-pattern-repo.js";
+import * as actionsSecretRepo from "../db/repositories/actions-secret-repo.js";
+import * as branchProtectionRepo from "../db/repositories/branch-protection-repo.js";
+import { normalizeName, storeSecret } from "../services/actions-secrets-service.js";
+import { validatePatternSource } from "../services/secret-scanning-service.js";
+import { formatRule, parseRuleData, ruleEvent } from "../services/branch-protection-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Organization CRUD routes.
@@ -12,6 +19,11 @@ import * as userRepo from "../db/repositories/user-repo.js";
  */
 const router = Router();
 
+/** Longest Actions secret or variable value accepted, in characters */
+const MAX_ACTIONS_VALUE_LENGTH = 48 * 1024;
+
+const INVALID_NAME = "Names may only contain letters, digits and underscores, cannot start with a digit or GITTIC_";
+
 /**
  * Check whether a user has admin-level access to an organization.
  * Returns true if the user is the org owner, an org admin, or a
@@ -29,6 +41,13 @@ function isOrgAdmin(orgId: string, userId: string, platformRole: string): boolea
   return member?.role === "admin";
 }
 
+/**
+ * Whether an Actions route is about secrets rather than variables
+ */
+function isSecretsRoute(req: Request): boolean {
+  return req.path.split("/")[3] === "secrets";
+}
+
 /**
  * GET /api/orgs
  *
@@ -84,6 +103,7 @@ router.post(
         maxRepos: req.body.maxRepos,
         maxMembers: req.body.maxMembers,
       });
+      publishEvent("organization.created", { organizationId: org.id, name: org.name }, requestEventOptions(req));
 
       res.status(201).json(org);
     } catch (err) {
@@ -175,6 +195,11 @@ router.patch(
         res.status(404).json({ error: "Organization not found", code: "NOT_FOUND" });
         return;
       }
+      publishEvent("organization.updated", {
+        organizationId: updated.id,
+        name: updated.name,
+        updatedFields: Object.keys(req.body),
+      }, requestEventOptions(req));
 
       res.json(updated);
     } catch (err) {
@@ -202,6 +227,7 @@ router.delete("/:id", requireAuth, (req: Request, res: Response, next: NextFunct
     }
 
     orgRepo.deleteOrg(String(req.params.id));
+    publishEvent("organization.deleted", { organizationId: org.id, name: org.name }, requestEventOptions(req));
     res.json({ message: "Organization deleted successfully" });
   } catch (err) {
     next(err);
@@ -252,6 +278,11 @@ router.post(
 
       const role = req.body.role ?? "member";
       orgRepo.addMember(orgId, req.body.userId, role);
+      publishEvent("organization.member.added", {
+        organizationId: orgId,
+        userId: targetUser.id,
+        role,
+      }, requestEventOptions(req));
 
       res.status(201).json({
         message: "Member added",
@@ -302,6 +333,10 @@ router.delete(
         res.status(404).json({ error: "Member not found", code: "NOT_FOUND" });
         return;
       }
+      publishEvent("organization.member.removed", {
+        organizationId: orgId,
+        userId: targetUserId,
+      }, requestEventOptions(req));
 
       res.json({ message: "Member removed" });
     } catch (err) {
@@ -310,4 +345,405 @@ router.delete(
   },
 );
 
+/**
+ * GET /api/orgs/:id/secret-scanning/patterns
+ *
+ * Lists the organization's custom secret scanning patterns.
+ * Requires org admin privileges.
+ */
+router.get(
+  "/:id/secret-scanning/patterns",
+  requireAuth,
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      res.json({ data: secretPatternRepo.listByOrg(orgId) });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * POST /api/orgs/:id/secret-scanning/patterns
+ *
+ * Adds a custom secret scanning pattern used for every repository in
+ * the organization. Requires org admin privileges.
+ */
+router.post(
+  "/:id/secret-scanning/patterns",
+  requireAuth,
+  validate([
+    { field: "name", location: "body", required: true, type: "string", min: 1, max: 100 },
+    { field: "pattern", location: "body", required: true, type: "string", min: 1, max: 1000, sanitize: false },
+    { field: "description", location: "body", type: "string", max: 500 },
+    { field: "confidence", location: "body", type: "string", pattern: /^(high|low)$/ },
+  ]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      if (!orgRepo.findById(orgId)) {
+        res.status(404).json({ error: "Organization not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const patternError = validatePatternSource(req.body.pattern);
+      if (patternError) {
+        res.status(400).json({ error: `Invalid pattern: ${patternError}`, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      if (secretPatternRepo.findByName(orgId, req.body.name)) {
+        res.status(409).json({ error: "A pattern with this name already exists", code: "CONFLICT" });
+        return;
+      }
+
+      const pattern = secretPatternRepo.create({
+        orgId,
+        name: req.body.name,
+        pattern: req.body.pattern,
+        description: req.body.description,
+        confidence: req.body.confidence,
+        createdBy: req.user!.userId,
+      });
+      publishEvent("organization.secret_pattern.created", {
+        organizationId: orgId,
+        patternId: pattern.id,
+        name: pattern.name,
+      }, requestEventOptions(req));
+
+      res.status(201).json(pattern);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * DELETE /api/orgs/:id/secret-scanning/patterns/:patternId
+ *
+ * Removes a custom secret scanning pattern.
+ * Requires org admin privileges.
+ */
+router.delete(
+  "/:id/secret-scanning/patterns/:patternId",
+  requireAuth,
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      const pattern = secretPatternRepo.findById(String(req.params.patternId));
+      if (!pattern || !secretPatternRepo.remove(orgId, pattern.id)) {
+        res.status(404).json({ error: "Pattern not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("organization.secret_pattern.deleted", {
+        organizationId: orgId,
+        patternId: pattern.id,
+        name: pattern.name,
+      }, requestEventOptions(req));
+
+      res.json({ message: "Pattern deleted successfully" });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * GET /api/orgs/:id/actions/secrets
+ * GET /api/orgs/:id/actions/variables
+ *
+ * Lists the organization's Actions secrets (names only) or variables,
+ * which every repository in the organization receives unless it
+ * defines its own. Requires org admin privileges.
+ */
+router.get(
+  ["/:id/actions/secrets", "/:id/actions/variables"],
+  requireAuth,
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      const ref = { scope: "organization" as const, scopeId: orgId };
+      if (isSecretsRoute(req)) {
+        const secrets = actionsSecretRepo.listSecrets(ref).map(({ name, createdAt, updatedAt }) => ({ name, createdAt, updatedAt }));
+        res.json({ total_count: secrets.length, secrets });
+      } else {
+        const variables = actionsSecretRepo.listVariables(ref).map(({ name, value, createdAt, updatedAt }) => ({ name, value, createdAt, updatedAt }));
+        res.json({ total_count: variables.length, variables });
+      }
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * PUT /api/orgs/:id/actions/secrets/:name
+ * PUT /api/orgs/:id/actions/variables/:name
+ *
+ * Creates or updates an organization Actions secret or variable.
+ * Secret values are encrypted at rest. Requires org admin privileges.
+ */
+router.put(
+  ["/:id/actions/secrets/:name", "/:id/actions/variables/:name"],
+  requireAuth,
+  validate([
+    { field: "value", location: "body", required: true, type: "string", max: MAX_ACTIONS_VALUE_LENGTH, sanitize: false },
+  ]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      if (!orgRepo.findById(orgId)) {
+        res.status(404).json({ error: "Organization not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const name = normalizeName(String(req.params.name));
+      if (!name) {
+        res.status(422).json({ error: INVALID_NAME, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const ref = { scope: "organization" as const, scopeId: orgId };
+      const created = isSecretsRoute(req)
+        ? storeSecret(ref, name, req.body.value, req.user!.userId)
+        : actionsSecretRepo.setVariable(ref, name, req.body.value, req.user!.userId);
+      publishEvent(isSecretsRoute(req) ? "actions.secret.updated" : "actions.variable.updated", {
+        ...ref,
+        name,
+      }, requestEventOptions(req));
+
+      res.status(created ? 201 : 200).json({ name });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * DELETE /api/orgs/:id/actions/secrets/:name
+ * DELETE /api/orgs/:id/actions/variables/:name
+ *
+ * Removes an organization Actions secret or variable.
+ * Requires org admin privileges.
+ */
+router.delete(
+  ["/:id/actions/secrets/:name", "/:id/actions/variables/:name"],
+  requireAuth,
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      const ref = { scope: "organization" as const, scopeId: orgId };
+      const name = normalizeName(String(req.params.name)) ?? "";
+      const removed = isSecretsRoute(req)
+        ? actionsSecretRepo.deleteSecret(ref, name)
+        : actionsSecretRepo.deleteVariable(ref, name);
+
+      if (!removed) {
+        res.status(404).json({ error: `${isSecretsRoute(req) ? "Secret" : "Variable"} not found`, code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent(isSecretsRoute(req) ? "actions.secret.deleted" : "actions.variable.deleted", {
+        ...ref,
+        name,
+      }, requestEventOptions(req));
+
+      res.json({ message: "Deleted successfully" });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * GET /api/orgs/:id/branch-protection
+ *
+ * Lists the organization's branch protection rules, which protect the
+ * matching branches of every repository in the organization alongside
+ * the repository's own rules. Requires org admin privileges.
+ */
+router.get("/:id/branch-protection", requireAuth, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const orgId = String(req.params.id);
+
+    if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+      res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+      return;
+    }
+
+    const rules = branchProtectionRepo.listRules({ scope: "organization", scopeId: orgId });
+    res.json({ items: rules.map(formatRule), total: rules.length });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/orgs/:id/branch-protection
+ *
+ * Protects the branches matching a pattern across the organization.
+ * Requires org admin privileges.
+ */
+router.post(
+  "/:id/branch-protection",
+  requireAuth,
+  validate([
+    { field: "pattern", location: "body", required: true, type: "string", min: 1, max: 255, sanitize: false },
+  ]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      if (!orgRepo.findById(orgId)) {
+        res.status(404).json({ error: "Organization not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const ref = { scope: "organization" as const, scopeId: orgId };
+      const pattern = String(req.body.pattern).trim();
+      if (branchProtectionRepo.findRule(ref, pattern)) {
+        res.status(409).json({ error: `A rule for ${pattern} already exists`, code: "CONFLICT" });
+        return;
+      }
+
+      let data: branchProtectionRepo.BranchProtectionRuleData;
+      try {
+        data = parseRuleData(req.body);
+      } catch (error) {
+        res.status(422).json({ error: (error as Error).message, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const rule = branchProtectionRepo.createRule(ref, pattern, data);
+      publishEvent("organization.branch_protection.created", ruleEvent(rule), requestEventOptions(req));
+
+      res.status(201).json(formatRule(rule));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * PATCH /api/orgs/:id/branch-protection/:ruleId
+ *
+ * Updates an organization branch protection rule.
+ * Requires org admin privileges.
+ */
+router.patch(
+  "/:id/branch-protection/:ruleId",
+  requireAuth,
+  validate([
+    { field: "pattern", location: "body", type: "string", min: 1, max: 255, sanitize: false },
+  ]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = String(req.params.id);
+
+      if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+        res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+        return;
+      }
+
+      const rule = branchProtectionRepo.findRuleById(String(req.params.ruleId));
+      if (!rule || rule.scope !== "organization" || rule.scopeId !== orgId) {
+        res.status(404).json({ error: "Branch protection rule not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const pattern = req.body.pattern === undefined ? undefined : String(req.body.pattern).trim();
+      const existing = pattern ? branchProtectionRepo.findRule({ scope: "organization", scopeId: orgId }, pattern) : null;
+      if (existing && existing.id !== rule.id) {
+        res.status(409).json({ error: `A rule for ${pattern} already exists`, code: "CONFLICT" });
+        return;
+      }
+
+      let data: branchProtectionRepo.BranchProtectionRuleData;
+      try {
+        data = parseRuleData(req.body);
+      } catch (error) {
+        res.status(422).json({ error: (error as Error).message, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const updated = branchProtectionRepo.updateRule(rule.id, { ...data, pattern })!;
+      publishEvent("organization.branch_protection.updated", ruleEvent(updated), requestEventOptions(req));
+
+      res.json(formatRule(updated));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * DELETE /api/orgs/:id/branch-protection/:ruleId
+ *
+ * Removes an organization branch protection rule.
+ * Requires org admin privileges.
+ */
+router.delete("/:id/branch-protection/:ruleId", requireAuth, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const orgId = String(req.params.id);
+
+    if (!isOrgAdmin(orgId, req.user!.userId, req.user!.role)) {
+      res.status(403).json({ error: "Forbidden", code: "FORBIDDEN" });
+      return;
+    }
+
+    const rule = branchProtectionRepo.findRuleById(String(req.params.ruleId));
+    if (!rule || rule.scope !== "organization" || rule.scopeId !== orgId) {
+      res.status(404).json({ error: "Branch protection rule not found", code: "NOT_FOUND" });
+      return;
+    }
+
+    branchProtectionRepo.deleteRule(rule.id);
+    publishEvent("organization.branch_protection.deleted", ruleEvent(rule), requestEventOptions(req));
+    res.json({ message: "Deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+});
+
 export default router;
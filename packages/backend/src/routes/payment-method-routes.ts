@@ -2,6 +2,7 @@ import { Router, type Request, type Response } from "express";
 import { requireAuth } from "../middleware/auth-guard.js";
 import * as paymentMethodRepo from "../db/repositories/payment-method-repo.js";
 import { validate } from "../middleware/input-validator.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Payment Methods Routes
@@ -42,6 +43,10 @@ router.post(
                 cardholderName: req.body.cardholderName,
                 billingAddress: req.body.billingAddress,
             });
+            publishEvent("user.payment_method.added", {
+                userId,
+                paymentMethodId: paymentMethod.id,
+            }, requestEventOptions(req));
 
             res.status(201).json({
                 success: true,
@@ -121,6 +126,7 @@ router.put("/:id/default", (req: Request, res: Response) => {
         const userId = req.user!.userId;
         const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
         paymentMethodRepo.setDefaultPaymentMethod(id, userId);
+        publishEvent("user.payment_method.default_changed", { userId, paymentMethodId: id }, requestEventOptions(req));
 
         res.json({
             success: true,
@@ -144,6 +150,7 @@ router.delete("/:id", (req: Request, res: Response) => {
         const userId = req.user!.userId;
         const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
         paymentMethodRepo.deletePaymentMethod(id, userId);
+        publishEvent("user.payment_method.removed", { userId, paymentMethodId: id }, requestEventOptions(req));
 
         res.json({
             success: true,
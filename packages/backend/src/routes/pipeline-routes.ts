@@ -3,6 +3,7 @@ import { requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as pipelineRepo from "../db/repositories/pipeline-repo.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * CI/CD Pipeline routes.
@@ -64,6 +65,16 @@ router.post(
         configHash: req.body.configHash ?? "",
         triggeredBy: req.user!.userId,
       });
+      publishEvent("pipeline.run.queued", {
+        pipelineId: run.configHash,
+        runId: run.id,
+        pipelineName: project.name,
+        projectId,
+        commitSha: run.commitSha,
+        ref: run.branch,
+        trigger: "manual",
+        status: "pending",
+      }, requestEventOptions(req));
 
       res.status(201).json(run);
     } catch (err) {
@@ -172,6 +183,17 @@ router.post(
       pipelineRepo.updateRunStatus(String(req.params.id), "failed", {
         finishedAt: new Date().toISOString(),
       });
+      const project = projectRepo.findById(run.projectId);
+      publishEvent("pipeline.run.canceled", {
+        pipelineId: run.configHash,
+        runId: run.id,
+        pipelineName: project?.name ?? "",
+        projectId: run.projectId,
+        commitSha: run.commitSha,
+        ref: run.branch,
+        trigger: "manual",
+        status: "canceled",
+      }, requestEventOptions(req));
 
       res.json({ message: "Pipeline run cancelled", runId: String(req.params.id) });
     } catch (err) {
@@ -4,7 +4,8 @@ import { validate } from "../middleware/input-validator.js";
 import { getConfig } from "../config/app-config.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
-import * as searchRepo from "../db/repositories/search-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import type { Project, ProjectCreatedPayload } from "@platform/shared";
 
 /**
  * Project CRUD routes.
@@ -14,6 +15,17 @@ import * as searchRepo from "../db/repositories/search-repo.js";
  */
 const router = Router();
 
+function projectCreatedEvent(project: Project, createdBy: string): ProjectCreatedPayload {
+    return {
+        projectId: project.id,
+        name: project.name,
+        slug: project.slug,
+        organizationId: project.orgId ?? "",
+        createdBy,
+        visibility: project.isPrivate ? "private" : "public",
+    };
+}
+
 /** Default and maximum pagination values. */
 const DEFAULT_PAGE = 1;
 const DEFAULT_PER_PAGE = 20;
@@ -128,13 +140,7 @@ router.post(
                 defaultBranch: req.body.defaultBranch,
             });
 
-            // Index in search
-            searchRepo.index({
-                entityId: project.id,
-                type: "repo",
-                title: project.name,
-                content: [project.name, project.slug, project.description ?? ""].join(" "),
-            });
+            publishEvent("project.created", projectCreatedEvent(project, userId), requestEventOptions(req));
 
             res.status(201).json(project);
         } catch (err) {
@@ -208,14 +214,15 @@ router.patch(
                 defaultBranch: req.body.defaultBranch,
             });
 
-            // Re-index
             if (updated) {
-                searchRepo.index({
-                    entityId: updated.id,
-                    type: "repo",
-                    title: updated.name,
-                    content: [updated.name, updated.slug, updated.description ?? ""].join(" "),
-                });
+                const updatedFields = ["name", "description", "isPrivate", "defaultBranch"].filter(
+                    (field) => req.body[field] !== undefined,
+                );
+                publishEvent("project.updated", {
+                    projectId: updated.id,
+                    updatedFields,
+                    updatedBy: req.user!.userId,
+                }, requestEventOptions(req));
             }
 
             res.json(updated);
@@ -243,8 +250,13 @@ router.delete("/:id", requireAuth, (req: Request, res: Response, next: NextFunct
             return;
         }
 
-        searchRepo.remove(project.id);
         projectRepo.deleteProject(String(req.params.id));
+        publishEvent("project.deleted", {
+            projectId: project.id,
+            name: project.name,
+            deletedBy: req.user!.userId,
+            permanent: true,
+        }, requestEventOptions(req));
 
         res.json({ message: "Project deleted successfully" });
     } catch (err) {
@@ -288,13 +300,7 @@ router.post("/:id/fork", requireAuth, (req: Request, res: Response, next: NextFu
             return;
         }
 
-        // Index the fork
-        searchRepo.index({
-            entityId: forked.id,
-            type: "repo",
-            title: forked.name,
-            content: [forked.name, forked.slug, forked.description ?? ""].join(" "),
-        });
+        publishEvent("project.created", projectCreatedEvent(forked, userId), requestEventOptions(req));
 
         res.status(201).json(forked);
     } catch (err) {
@@ -1,21 +1,118 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
-import { requireAuth } from "../middleware/auth-guard.js";
+import { optionalAuth, requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as git from "@platform/git";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as prRepo from "../db/repositories/pr-repo.js";
 import * as commentRepo from "../db/repositories/comment-repo.js";
+import * as reviewThreadRepo from "../db/repositories/review-thread-repo.js";
 import * as labelRepo from "../db/repositories/label-repo.js";
 import { getConfig } from "../config/app-config.js";
 import * as path from "node:path";
-import * as branchProtectionRepo from "../db/repositories/branch-protection-repo.js";
 import * as prStatusCheckRepo from "../db/repositories/pr-status-check-repo.js";
+import * as mergeSettingsRepo from "../db/repositories/merge-settings-repo.js";
 import { evaluateMergeDecision } from "../services/pr-merge-decision-service.js";
+import { canPushTo, resolveBranchProtection } from "../services/branch-protection-service.js";
+import { reviewCodeOwners } from "../services/codeowners-service.js";
+import { dequeuePullRequest, enqueuePullRequest, mergeQueueStatus } from "../services/merge-queue-service.js";
 import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import { filePatch, loadPullRequestDiff, startThread } from "../services/review-thread-service.js";
+import { applySuggestions, pendingReviewFor, submitReview, type ReviewCommentInput } from "../services/pr-review-service.js";
+import { resolveProjectPermission, satisfies } from "../services/repository-permission-service.js";
+import type { Project, PullRequestEventPayload, User } from "@platform/shared";
 
 const router = Router();
 
+function pullRequestEvent(pr: prRepo.PullRequest, updatedFields?: string[]): PullRequestEventPayload {
+  return {
+    repositoryId: pr.repositoryId,
+    pullRequestId: pr.id,
+    number: pr.number,
+    title: pr.title,
+    state: pr.state,
+    authorId: pr.authorId,
+    baseBranch: pr.baseBranch,
+    headBranch: pr.headBranch,
+    mergeCommitSha: pr.mergeCommitSha,
+    updatedFields,
+  };
+}
+
+/**
+ * Look up the repository and pull request a route names, sending a 404
+ * when either is missing
+ */
+function loadPullRequest(req: Request, res: Response): { owner: User; project: Project; pr: prRepo.PullRequest } | null {
+  const owner = userRepo.findByUsername(String(req.params.owner));
+  if (!owner) {
+    res.status(404).json({ error: "Repository owner not found", code: "NOT_FOUND" });
+    return null;
+  }
+  const project = projectRepo.findBySlug(owner.id, String(req.params.repo));
+  if (!project) {
+    res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
+    return null;
+  }
+  const pr = prRepo.findByNumber(project.id, parseInt(String(req.params.number)));
+  if (!pr) {
+    res.status(404).json({ error: "Pull request not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return { owner, project, pr };
+}
+
+function formatAuthor(id: string) {
+  const user = userRepo.findById(id);
+  return { id, username: user?.username ?? "ghost", avatarUrl: user?.avatarUrl };
+}
+
+function formatThread(thread: reviewThreadRepo.ReviewThread, comments: reviewThreadRepo.ThreadComment[]) {
+  const pending = (comment: reviewThreadRepo.ThreadComment) =>
+    comment.reviewId !== undefined && prRepo.findReviewById(comment.reviewId)?.state === "pending";
+  return {
+    id: thread.id,
+    path: thread.path,
+    side: thread.side,
+    startLine: thread.startLine ?? null,
+    line: thread.line,
+    position: thread.position ?? null,
+    commitId: thread.commitSha,
+    originalPath: thread.originalPath,
+    originalStartLine: thread.originalStartLine ?? null,
+    originalLine: thread.originalLine,
+    originalCommitId: thread.originalCommitSha,
+    diffHunk: thread.diffHunk,
+    outdated: thread.outdated,
+    isResolved: Boolean(thread.resolvedAt),
+    resolvedBy: thread.resolvedById ? formatAuthor(thread.resolvedById).username : null,
+    comments: comments.map((comment) => ({
+      id: comment.id,
+      body: comment.body,
+      author: formatAuthor(comment.authorId),
+      reviewId: comment.reviewId ?? null,
+      pending: pending(comment),
+      suggestionAppliedCommitId: comment.appliedCommitSha ?? null,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    })),
+  };
+}
+
+function formatReview(review: prRepo.PullRequestReview) {
+  return {
+    id: review.id,
+    user: formatAuthor(review.userId),
+    state: review.state,
+    body: review.body ?? null,
+    commitId: review.commitSha ?? null,
+    submittedAt: review.state === "pending" ? null : review.submittedAt,
+    dismissed: review.dismissedAt !== undefined,
+    dismissedAt: review.dismissedAt ?? null,
+  };
+}
+
 // GET /api/repositories/:owner/:repo/pulls - List pull requests
 router.get("/:owner/:repo/pulls", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -145,6 +242,7 @@ router.post("/:owner/:repo/pulls", requireAuth,
       repositoryId: project.id,
       metadata: { prId: pr.id, number: pr.number },
     });
+    publishEvent("pull_request.opened", pullRequestEvent(pr), requestEventOptions(req));
     
     res.status(201).json(pr);
   } catch (err) {
@@ -196,6 +294,15 @@ router.patch("/:owner/:repo/pulls/:number", requireAuth,
       description: body !== undefined ? body : undefined,
       state: state as "open" | "closed" | undefined,
     });
+    if (updated) {
+      const type = updated.state === pr.state
+        ? "pull_request.edited"
+        : updated.state === "closed" ? "pull_request.closed" : "pull_request.reopened";
+      const updatedFields = Object.keys({ title, body, state }).filter(
+        (field) => req.body[field] !== undefined,
+      );
+      publishEvent(type, pullRequestEvent(updated, updatedFields), requestEventOptions(req));
+    }
     
     res.json(updated);
   } catch (err) {
@@ -241,9 +348,11 @@ router.get("/:owner/:repo/pulls/:number/merge-status", requireAuth, async (req:
       const mergeCheck = await git.checkMergeability(repoPath, baseBranch, headBranch);
       const canFastForward = await git.canFastForward(repoPath, headBranch, baseBranch);
       
-      const protection = branchProtectionRepo.findByProjectId(project.id);
+      const actor = { userId: req.user!.userId, role: req.user!.role };
+      const protection = resolveBranchProtection(project, baseBranch, actor);
       const statusChecks = prStatusCheckRepo.listByPrId(pr.id);
       const approvedReviews = prRepo.countApprovals(pr.id);
+      const codeOwners = await reviewCodeOwners(project, pr);
 
       const decision = evaluateMergeDecision({
         mergeCheck,
@@ -252,8 +361,14 @@ router.get("/:owner/:repo/pulls/:number/merge-status", requireAuth, async (req:
         branchProtection: protection,
         approvedReviews,
         prState: pr.state,
+        pushAllowed: canPushTo(project, protection, actor),
+        codeOwnerAreas: codeOwners.areas,
       });
 
+      const mergeSettings = mergeSettingsRepo.findByProjectId(project.id);
+      const allowedMergeMethods = mergeSettingsRepo.allowedMergeMethods(mergeSettings)
+        .filter((method) => !(protection.requireLinearHistory && method === "merge"));
+
       res.json({
         mergeable: decision.mergeable,
         canMerge: decision.canMerge,
@@ -268,10 +383,16 @@ router.get("/:owner/:repo/pulls/:number/merge-status", requireAuth, async (req:
         requiredApprovals: decision.requiredApprovals,
         approvedReviews: decision.approvedReviews,
         requiredStatusChecks: decision.requiredStatusChecks,
+        requiresCodeOwnerReviews: protection.requireCodeOwnerReviews,
+        codeOwners,
+        requiresMergeQueue: protection.requireMergeQueue,
+        mergeQueue: mergeQueueStatus(pr),
         failureReasons: decision.failureReasons,
         reason: decision.failureReasons[0]?.message ?? mergeCheck.reason,
         baseBranch,
         headBranch,
+        allowedMergeMethods,
+        deleteBranchOnMerge: mergeSettings.deleteBranchOnMerge,
         message: decision.message,
       });
     } catch (error) {
@@ -345,6 +466,18 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
       return;
     }
     
+    const mergeMethod = merge_method as git.PrMergeMethod;
+    const mergeSettings = mergeSettingsRepo.findByProjectId(project.id);
+    const allowedMergeMethods = mergeSettingsRepo.allowedMergeMethods(mergeSettings);
+    if (!allowedMergeMethods.includes(mergeMethod)) {
+      res.status(405).json({
+        error: `Merge method "${mergeMethod}" is not allowed for this repository`,
+        code: "MERGE_METHOD_NOT_ALLOWED",
+        allowedMergeMethods,
+      });
+      return;
+    }
+
     // Get actual base and head branches from PR
     const baseBranch = pr.baseBranch;
     const headBranch = pr.headBranch;
@@ -368,9 +501,18 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
       return;
     }
 
-    const protection = branchProtectionRepo.findByProjectId(project.id);
+    const actor = { userId: req.user!.userId, role: req.user!.role };
+    const protection = resolveBranchProtection(project, baseBranch, actor);
+    if (protection.requireMergeQueue) {
+      res.status(409).json({
+        error: `Pull requests to ${baseBranch} are merged through its merge queue`,
+        code: "MERGE_QUEUE_REQUIRED",
+      });
+      return;
+    }
     const statusChecks = prStatusCheckRepo.listByPrId(pr.id);
     const approvedReviews = prRepo.countApprovals(pr.id);
+    const codeOwners = protection.requireCodeOwnerReviews ? await reviewCodeOwners(project, pr) : null;
 
     const decision = evaluateMergeDecision({
       mergeCheck,
@@ -379,6 +521,9 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
       branchProtection: protection,
       approvedReviews,
       prState: pr.state,
+      mergeMethod,
+      pushAllowed: canPushTo(project, protection, actor),
+      codeOwnerAreas: codeOwners?.areas,
     });
 
     if (!decision.canMerge) {
@@ -400,11 +545,32 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
       return;
     }
 
+    const merger = userRepo.findById(req.user!.userId);
+    const prAuthor = userRepo.findById(pr.authorId);
+    const committer = {
+      name: merger?.displayName || merger?.username || req.user!.username,
+      email: merger?.email || `${req.user!.username}@users.noreply.gittic.io`,
+    };
+    const author = prAuthor
+      ? { name: prAuthor.displayName || prAuthor.username, email: prAuthor.email }
+      : committer;
+
+    const defaultTitle = mergeMethod === "squash"
+      ? `${pr.title} (#${pr.number})`
+      : `Merge pull request #${pr.number} from ${headBranch}`;
+
     // Perform the actual merge using git package
-    let mergeResult: git.MergeResult;
+    let mergeResult: git.PrMergeResult;
     try {
-      const strategy: git.MergeStrategy = merge_method === "squash" ? "ort" : "ort"; // Map merge methods to strategies
-      mergeResult = await git.merge(repoPath, headBranch, baseBranch, strategy);
+      mergeResult = await git.mergePullRequest(repoPath, {
+        method: mergeMethod,
+        base: baseBranch,
+        head: headBranch,
+        commitTitle: commit_title || defaultTitle,
+        commitMessage: commit_message ?? (mergeMethod === "merge" ? pr.title : undefined),
+        committer,
+        author,
+      });
     } catch (error) {
       res.status(500).json({
         error: "Failed to perform merge",
@@ -414,7 +580,7 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
       return;
     }
     
-    if (!mergeResult.success) {
+    if (!mergeResult.success || !mergeResult.sha) {
       res.status(409).json({
         error: "Merge failed",
         code: "MERGE_FAILED",
@@ -425,25 +591,35 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
     }
     
     // Update PR status to merged in database
-    const mergeCommitSha = mergeResult.sha || "abc123def456";
-    prRepo.markAsMerged(pr.id, mergeCommitSha);
+    const mergeCommitSha = mergeResult.sha;
+    const merged = prRepo.markAsMerged(pr.id, mergeCommitSha, req.user!.userId);
     analyticsRepo.logAnalyticsEvent({
       eventType: "pr.merge",
       actorUserId: req.user!.userId,
       repositoryId: project.id,
-      metadata: { prId: pr.id, number: pr.number, mergeMethod: String(merge_method) },
+      metadata: { prId: pr.id, number: pr.number, mergeMethod },
     });
-    
-    // TODO: In a real implementation:
-    // 1. Create merge commit with custom title/message if provided
-    // 2. Optionally close the PR and delete the head branch
-    // 3. Trigger post-merge hooks and notifications
+    if (merged) {
+      publishEvent("pull_request.merged", pullRequestEvent(merged), requestEventOptions(req));
+    }
+
+    let branchDeleted = false;
+    if (mergeSettings.deleteBranchOnMerge && headBranch !== baseBranch) {
+      try {
+        await git.deleteBranch(repoPath, headBranch);
+        branchDeleted = true;
+      } catch (error) {
+        console.error("Failed to delete merged branch:", error);
+      }
+    }
     
     res.json({ 
       merged: true, 
       message: "Pull request successfully merged",
       sha: mergeCommitSha,
-      merge_method,
+      commits: mergeResult.commits,
+      merge_method: mergeMethod,
+      branch_deleted: branchDeleted,
       auto_close,
       conflicts: [],
       base: baseBranch,
@@ -454,6 +630,71 @@ router.post("/:owner/:repo/pulls/:number/merge", requireAuth,
   }
 });
 
+// POST /api/repositories/:owner/:repo/pulls/:number/queue - Add PR to the merge queue of its base branch
+router.post("/:owner/:repo/pulls/:number/queue", requireAuth,
+  validate([
+    { field: "merge_method", location: "body", type: "string", pattern: /^(merge|squash|rebase)$/ },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { owner, project, pr } = loaded;
+
+    if (req.user!.userId !== owner.id && req.user!.role !== "admin") {
+      res.status(403).json({ error: "Forbidden: insufficient permissions to merge", code: "FORBIDDEN" });
+      return;
+    }
+
+    const mergeMethod = (req.body.merge_method ?? "merge") as git.PrMergeMethod;
+    const allowedMergeMethods = mergeSettingsRepo.allowedMergeMethods(mergeSettingsRepo.findByProjectId(project.id));
+    if (!allowedMergeMethods.includes(mergeMethod)) {
+      res.status(405).json({
+        error: `Merge method "${mergeMethod}" is not allowed for this repository`,
+        code: "MERGE_METHOD_NOT_ALLOWED",
+        allowedMergeMethods,
+      });
+      return;
+    }
+
+    try {
+      await enqueuePullRequest(project, pr, { userId: req.user!.userId, role: req.user!.role }, mergeMethod);
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+      return;
+    }
+    publishEvent("pull_request.enqueued", pullRequestEvent(pr), requestEventOptions(req));
+
+    res.status(201).json(mergeQueueStatus(pr));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/repositories/:owner/:repo/pulls/:number/queue - Remove PR from the merge queue
+router.delete("/:owner/:repo/pulls/:number/queue", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { owner, project, pr } = loaded;
+
+    const userId = req.user!.userId;
+    if (userId !== owner.id && userId !== pr.authorId && req.user!.role !== "admin") {
+      res.status(403).json({ error: "Forbidden: insufficient permissions", code: "FORBIDDEN" });
+      return;
+    }
+
+    if (!await dequeuePullRequest(project, pr)) {
+      res.status(404).json({ error: "Pull request is not in the merge queue", code: "NOT_FOUND" });
+      return;
+    }
+    publishEvent("pull_request.dequeued", pullRequestEvent(pr), requestEventOptions(req));
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET /api/repositories/:owner/:repo/pulls/:number/conflicts - Get merge conflict details
 router.get("/:owner/:repo/pulls/:number/conflicts", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -520,10 +761,32 @@ router.get("/:owner/:repo/pulls/:number/conflicts", requireAuth, async (req: Req
   }
 });
 
-// GET /api/repositories/:owner/:repo/pulls/:number/files - Get PR files
+// GET /api/repositories/:owner/:repo/pulls/:number/files - Get PR files with their patches
 router.get("/:owner/:repo/pulls/:number/files", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    res.json({ files: [] });
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+
+    let diff;
+    try {
+      diff = await loadPullRequestDiff(loaded.project, loaded.pr);
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+      return;
+    }
+
+    res.json({
+      commitId: diff.headSha,
+      files: diff.files.map((file) => ({
+        filename: file.status === "deleted" ? file.oldPath : file.newPath,
+        previousFilename: file.status === "renamed" ? file.oldPath : undefined,
+        status: file.status === "deleted" ? "removed" : file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        changes: file.additions + file.deletions,
+        patch: file.isBinary ? undefined : filePatch(file),
+      })),
+    });
   } catch (err) {
     next(err);
   }
@@ -587,12 +850,18 @@ router.post("/:owner/:repo/pulls/:number/comments", requireAuth,
       return;
     }
     
-    const comment = commentRepo.createPRComment(
-      pr.id,
-      req.user!.userId,
+    const comment = commentRepo.createPRComment(pr.id, req.user!.userId, body);
+    publishEvent("comment.created", {
+      repositoryId: project.id,
+      commentId: comment.id,
+      target: "pull_request",
+      targetId: pr.id,
+      number: pr.number,
+      title: pr.title,
+      targetAuthorId: pr.authorId,
+      authorId: req.user!.userId,
       body,
-      pr.title
-    );
+    }, requestEventOptions(req));
     
     res.status(201).json(comment);
   } catch (err) {
@@ -600,6 +869,190 @@ router.post("/:owner/:repo/pulls/:number/comments", requireAuth,
   }
 });
 
+// GET /:owner/:repo/pulls/:number/threads - Get review threads on the PR's diff
+router.get("/:owner/:repo/pulls/:number/threads", optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+
+    // Threads started in someone else's pending review have no visible comments yet
+    const comments = reviewThreadRepo.listComments(loaded.pr.id, req.user?.userId);
+    res.json(reviewThreadRepo.listThreads(loaded.pr.id)
+      .map((thread) => formatThread(thread, comments.filter((comment) => comment.threadId === thread.id)))
+      .filter((thread) => thread.comments.length > 0));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /:owner/:repo/pulls/:number/threads - Comment on a line range of the PR's diff
+router.post("/:owner/:repo/pulls/:number/threads", requireAuth,
+  validate([
+    { field: "body", location: "body", required: true, type: "string", min: 1, max: 65535 },
+    { field: "path", location: "body", required: true, type: "string", min: 1 },
+    { field: "line", location: "body", required: true, type: "number", min: 1 },
+    { field: "start_line", location: "body", type: "number", min: 1 },
+    { field: "side", location: "body", type: "string", pattern: /^(LEFT|RIGHT)$/ },
+    { field: "commit_id", location: "body", type: "string", pattern: /^[0-9a-f]{40}$/ },
+    { field: "pending", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { project, pr } = loaded;
+    const { body, path: filePath, line, start_line, side = "RIGHT", commit_id, pending = false } = req.body;
+
+    let started;
+    try {
+      started = await startThread(project, pr, req.user!.userId, {
+        path: filePath,
+        side,
+        line,
+        startLine: start_line,
+        commitSha: commit_id,
+        body,
+        reviewId: pending ? pendingReviewFor(pr, req.user!.userId).id : undefined,
+      });
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+      return;
+    }
+
+    // Comments in a pending review are published when it is submitted
+    if (!pending) {
+      publishEvent("comment.created", {
+        repositoryId: project.id,
+        commentId: started.comment.id,
+        target: "pull_request",
+        targetId: pr.id,
+        number: pr.number,
+        title: pr.title,
+        targetAuthorId: pr.authorId,
+        authorId: req.user!.userId,
+        body,
+      }, requestEventOptions(req));
+    }
+
+    res.status(201).json(formatThread(started.thread, [started.comment]));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /:owner/:repo/pulls/:number/threads/:threadId/comments - Reply to a review thread
+router.post("/:owner/:repo/pulls/:number/threads/:threadId/comments", requireAuth,
+  validate([
+    { field: "body", location: "body", required: true, type: "string", min: 1, max: 65535 },
+    { field: "pending", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { project, pr } = loaded;
+    const userId = req.user!.userId;
+
+    const thread = reviewThreadRepo.findThreadById(String(req.params.threadId));
+    const visible = thread && reviewThreadRepo.listComments(pr.id, userId).some((c) => c.threadId === thread.id);
+    if (!thread || thread.prId !== pr.id || !visible) {
+      res.status(404).json({ error: "Review thread not found", code: "NOT_FOUND" });
+      return;
+    }
+
+    const pending = req.body.pending === true;
+    const reviewId = pending ? pendingReviewFor(pr, userId).id : undefined;
+    const comment = reviewThreadRepo.addComment(thread.id, userId, req.body.body, reviewId);
+    if (!pending) {
+      publishEvent("comment.created", {
+        repositoryId: project.id,
+        commentId: comment.id,
+        target: "pull_request",
+        targetId: pr.id,
+        number: pr.number,
+        title: pr.title,
+        targetAuthorId: pr.authorId,
+        authorId: req.user!.userId,
+        body: req.body.body,
+      }, requestEventOptions(req));
+    }
+
+    res.status(201).json(formatThread(thread, reviewThreadRepo.listComments(pr.id, userId).filter((c) => c.threadId === thread.id)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /:owner/:repo/pulls/:number/threads/:threadId - Resolve or unresolve a review thread
+router.patch("/:owner/:repo/pulls/:number/threads/:threadId", requireAuth,
+  validate([
+    { field: "resolved", location: "body", required: true, type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { owner, pr } = loaded;
+
+    const thread = reviewThreadRepo.findThreadById(String(req.params.threadId));
+    if (!thread || thread.prId !== pr.id) {
+      res.status(404).json({ error: "Review thread not found", code: "NOT_FOUND" });
+      return;
+    }
+
+    // The PR author, whoever started the thread and maintainers may resolve it
+    const userId = req.user!.userId;
+    const comments = reviewThreadRepo.listComments(pr.id, userId).filter((comment) => comment.threadId === thread.id);
+    const canResolve = userId === pr.authorId || userId === comments[0]?.authorId ||
+      userId === owner.id || req.user!.role === "admin";
+    if (!canResolve) {
+      res.status(403).json({ error: "Forbidden: insufficient permissions", code: "FORBIDDEN" });
+      return;
+    }
+
+    reviewThreadRepo.setResolved(thread.id, req.body.resolved ? userId : null);
+    publishEvent(req.body.resolved ? "pull_request.review_thread.resolved" : "pull_request.review_thread.unresolved", {
+      repositoryId: pr.repositoryId,
+      pullRequestId: pr.id,
+      threadId: thread.id,
+    }, requestEventOptions(req));
+    res.json(formatThread(reviewThreadRepo.findThreadById(thread.id)!, comments));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /:owner/:repo/pulls/:number/threads/:threadId/comments/:commentId - Delete a review comment
+router.delete("/:owner/:repo/pulls/:number/threads/:threadId/comments/:commentId", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { owner, pr } = loaded;
+
+    const comment = reviewThreadRepo.findComment(String(req.params.commentId));
+    if (!comment || comment.prId !== pr.id || comment.threadId !== req.params.threadId) {
+      res.status(404).json({ error: "Review comment not found", code: "NOT_FOUND" });
+      return;
+    }
+    const canDelete = req.user!.userId === comment.authorId || req.user!.userId === owner.id || req.user!.role === "admin";
+    if (!canDelete) {
+      res.status(403).json({ error: "Forbidden: insufficient permissions", code: "FORBIDDEN" });
+      return;
+    }
+
+    reviewThreadRepo.deleteComment(comment.id);
+    publishEvent("pull_request.review_comment.deleted", {
+      repositoryId: pr.repositoryId,
+      pullRequestId: pr.id,
+      threadId: comment.threadId,
+      commentId: comment.id,
+    }, requestEventOptions(req));
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
 // POST /:owner/:repo/pulls/:number/labels - Add label to PR
 router.post("/:owner/:repo/pulls/:number/labels", requireAuth,
   validate([
@@ -629,6 +1082,7 @@ router.post("/:owner/:repo/pulls/:number/labels", requireAuth,
     }
     
     labelRepo.addPRLabel(pr.id, label);
+    publishEvent("pull_request.labeled", { ...pullRequestEvent(pr), label }, requestEventOptions(req));
     const labels = labelRepo.getPRLabels(pr.id);
     
     res.json({ labels });
@@ -672,6 +1126,7 @@ router.post("/:owner/:repo/pulls/:number/assignees", requireAuth,
     }
     
     prRepo.addAssignee(pr.id, assigneeUser.id);
+    publishEvent("pull_request.assigned", { ...pullRequestEvent(pr), assigneeId: assigneeUser.id }, requestEventOptions(req));
     
     res.json({ success: true });
   } catch (err) {
@@ -679,12 +1134,204 @@ router.post("/:owner/:repo/pulls/:number/assignees", requireAuth,
   }
 });
 
-// POST /api/repositories/:owner/:repo/pulls/:number/reviews - Add review
-router.post("/:owner/:repo/pulls/:number/reviews", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * Parse the inline comments passed along with a review
+ */
+function parseReviewComments(value: unknown): ReviewCommentInput[] | string {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return "comments must be a list";
+
+  const comments: ReviewCommentInput[] = [];
+  for (const item of value) {
+    const { body, path: filePath, line, start_line, side = "RIGHT" } = (item ?? {}) as Record<string, unknown>;
+    if (typeof body !== "string" || body.trim() === "" || typeof filePath !== "string" || filePath === "") {
+      return "Each comment needs a body and a path";
+    }
+    if (!Number.isInteger(line) || (line as number) < 1 || (start_line !== undefined && !Number.isInteger(start_line))) {
+      return "Each comment needs a line number, and start_line must be one too";
+    }
+    if (side !== "LEFT" && side !== "RIGHT") return "side must be LEFT or RIGHT";
+    comments.push({ body, path: filePath, line: line as number, startLine: start_line as number | undefined, side });
+  }
+  return comments;
+}
+
+// GET /:owner/:repo/pulls/:number/reviews - List submitted reviews and the viewer's pending one
+router.get("/:owner/:repo/pulls/:number/reviews", optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { number } = req.params;
-    const { state, body } = req.body;
-    res.status(201).json({ id: "1", state, body });
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { pr } = loaded;
+
+    const reviews = [...prRepo.listReviews(pr.id)].reverse();
+    const pending = req.user ? prRepo.findPendingReview(pr.id, req.user.userId) : null;
+    res.json([...reviews, ...(pending ? [pending] : [])].map(formatReview));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /:owner/:repo/pulls/:number/reviews - Submit a review, or add comments to a pending one when no event is given
+router.post("/:owner/:repo/pulls/:number/reviews", requireAuth,
+  validate([
+    { field: "event", location: "body", type: "string", pattern: /^(APPROVE|REQUEST_CHANGES|COMMENT)$/ },
+    { field: "body", location: "body", type: "string", max: 65535 },
+    { field: "commit_id", location: "body", type: "string", pattern: /^[0-9a-f]{40}$/ },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { project, pr } = loaded;
+    const userId = req.user!.userId;
+    const { event, body, commit_id } = req.body;
+
+    const comments = parseReviewComments(req.body.comments);
+    if (typeof comments === "string") {
+      res.status(400).json({ error: comments, code: "VALIDATION_ERROR" });
+      return;
+    }
+
+    try {
+      if (!event) {
+        const review = pendingReviewFor(pr, userId);
+        for (const comment of comments) {
+          await startThread(project, pr, userId, { ...comment, commitSha: commit_id, reviewId: review.id });
+        }
+        res.status(201).json(formatReview(review));
+        return;
+      }
+
+      const submitted = await submitReview(project, pr, userId, { event, body, comments, commitSha: commit_id });
+      for (const comment of submitted.comments) {
+        publishEvent("comment.created", {
+          repositoryId: project.id,
+          commentId: comment.id,
+          target: "pull_request",
+          targetId: pr.id,
+          number: pr.number,
+          title: pr.title,
+          targetAuthorId: pr.authorId,
+          authorId: userId,
+          body: comment.body,
+        }, requestEventOptions(req));
+      }
+      res.status(201).json(formatReview(submitted.review));
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+    }
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /:owner/:repo/pulls/:number/reviews/:reviewId/events - Submit the viewer's pending review
+router.post("/:owner/:repo/pulls/:number/reviews/:reviewId/events", requireAuth,
+  validate([
+    { field: "event", location: "body", required: true, type: "string", pattern: /^(APPROVE|REQUEST_CHANGES|COMMENT)$/ },
+    { field: "body", location: "body", type: "string", max: 65535 },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { project, pr } = loaded;
+    const userId = req.user!.userId;
+
+    const review = prRepo.findReviewById(String(req.params.reviewId));
+    if (!review || review.prId !== pr.id || review.userId !== userId || review.state !== "pending") {
+      res.status(404).json({ error: "Pending review not found", code: "NOT_FOUND" });
+      return;
+    }
+
+    let submitted;
+    try {
+      submitted = await submitReview(project, pr, userId, { event: req.body.event, body: req.body.body });
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+      return;
+    }
+
+    for (const comment of submitted.comments) {
+      publishEvent("comment.created", {
+        repositoryId: project.id,
+        commentId: comment.id,
+        target: "pull_request",
+        targetId: pr.id,
+        number: pr.number,
+        title: pr.title,
+        targetAuthorId: pr.authorId,
+        authorId: userId,
+        body: comment.body,
+      }, requestEventOptions(req));
+    }
+    res.json(formatReview(submitted.review));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /:owner/:repo/pulls/:number/reviews/:reviewId - Discard the viewer's pending review and its comments
+router.delete("/:owner/:repo/pulls/:number/reviews/:reviewId", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { pr } = loaded;
+
+    const review = prRepo.findReviewById(String(req.params.reviewId));
+    if (!review || review.prId !== pr.id || review.userId !== req.user!.userId || review.state !== "pending") {
+      res.status(404).json({ error: "Pending review not found", code: "NOT_FOUND" });
+      return;
+    }
+
+    prRepo.deletePendingReview(review.id);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /:owner/:repo/pulls/:number/suggestions - Commit suggested changes from review comments to the head branch
+router.post("/:owner/:repo/pulls/:number/suggestions", requireAuth,
+  validate([
+    { field: "comment_ids", location: "body", required: true, type: "object" },
+    { field: "commit_message", location: "body", type: "string", max: 65535 },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loaded = loadPullRequest(req, res);
+    if (!loaded) return;
+    const { project, pr } = loaded;
+
+    const user = userRepo.findById(req.user!.userId);
+    const permission = resolveProjectPermission(project, req.user);
+    if (!user || (user.id !== pr.authorId && !satisfies(permission, "write"))) {
+      res.status(403).json({ error: "Forbidden: insufficient permissions", code: "FORBIDDEN" });
+      return;
+    }
+
+    const commentIds = req.body.comment_ids;
+    if (!Array.isArray(commentIds) || commentIds.some((id) => typeof id !== "string")) {
+      res.status(400).json({ error: "comment_ids must be a list of review comment ids", code: "VALIDATION_ERROR" });
+      return;
+    }
+
+    let applied;
+    try {
+      applied = await applySuggestions(project, pr, user, commentIds, req.body.commit_message);
+    } catch (err) {
+      res.status(422).json({ error: err instanceof Error ? err.message : String(err), code: "UNPROCESSABLE" });
+      return;
+    }
+
+    publishEvent("pull_request.synchronize", { ...pullRequestEvent(pr), headSha: applied.sha }, requestEventOptions(req));
+    res.status(201).json({
+      commitId: applied.sha,
+      comments: applied.comments.map((comment) => ({
+        id: comment.id,
+        suggestionAppliedCommitId: comment.appliedCommitSha ?? null,
+      })),
+    });
   } catch (err) {
     next(err);
   }
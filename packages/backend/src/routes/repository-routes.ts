@@ -5,11 +5,23 @@ import * as projectRepo from "../db/repositories/project-repo.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as prRepo from "../db/repositories/pr-repo.js";
 import * as starRepo from "../db/repositories/star-repo.js";
-import { getCommitCount, listBranches, listTags, searchCode } from "@platform/git";
+import { getCommitCount, listBranches, listTags, parseLfsPointer, searchCode } from "@platform/git";
 import { promises as fs } from "node:fs";
 import * as nodePath from "node:path";
 import { getConfig } from "../config/app-config.js";
 import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import * as mirrorRepo from "../db/repositories/mirror-repo.js";
+import * as mirrorService from "../services/mirror-service.js";
+import { sshCloneUrl } from "../services/ssh-server.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import { publishPushEvents } from "../services/push-policy-service.js";
+import {
+    canPushTo,
+    checkBranchDeletion,
+    checkBranchUpdate,
+    resolveBranchProtection,
+} from "../services/branch-protection-service.js";
+import type { GitActor, Project } from "@platform/shared";
 
 /**
  * Repository management routes providing REST API endpoints for:
@@ -24,6 +36,30 @@ import * as analyticsRepo from "../db/repositories/analytics-repo.js";
  */
 const router = Router();
 
+/**
+ * The authenticated user as the actor of a git event.
+ */
+function requestActor(req: Request): GitActor {
+    const user = userRepo.findById(req.user!.userId);
+    return {
+        userId: req.user!.userId,
+        name: user?.displayName ?? req.user!.username,
+        email: user?.email ?? "",
+        username: req.user!.username,
+    };
+}
+
+function publishProjectCreated(req: Request, project: Project): void {
+    publishEvent("project.created", {
+        projectId: project.id,
+        name: project.name,
+        slug: project.slug,
+        organizationId: project.orgId ?? "",
+        createdBy: req.user!.userId,
+        visibility: project.isPrivate ? "private" : "public",
+    }, requestEventOptions(req));
+}
+
 /**
  * POST /api/v1/repositories
  * Create a new repository (project).
@@ -37,11 +73,16 @@ router.post(
     requireAuth,
     async (req: Request, res: Response, next: NextFunction) => {
         try {
-            const { org, name, description } = req.body;
+            const { org, name, description, mirror } = req.body;
             if (!name || typeof name !== "string" || name.trim().length === 0) {
                 res.status(400).json({ error: "Repository name is required", code: "VALIDATION_ERROR" });
                 return;
             }
+            const mirrorError = mirror !== undefined ? await validateMirrorInput(mirror, req.user!.role) : null;
+            if (mirrorError) {
+                res.status(400).json({ error: mirrorError, code: "VALIDATION_ERROR" });
+                return;
+            }
             // Determine ownerId
             let ownerId = req.user!.userId;
             if (org && org !== "default") {
@@ -66,6 +107,32 @@ router.post(
             // Use git package to initialize repo and store as git pack
             const repoRoot = getRepositoryFsRoot(project);
             await ensureRepositoryExistsOnDisk(repoRoot);
+            if (mirror) {
+                // Pull mirror: clone the remote instead of starting empty
+                const pullMirror = mirrorRepo.create({
+                    projectId: project.id,
+                    direction: "pull",
+                    remoteUrl: mirror.url,
+                    username: mirror.username || undefined,
+                    encryptedCredentials: mirrorService.sealCredentials(mirror.password),
+                    intervalSeconds: mirror.interval,
+                    createdBy: req.user!.userId,
+                });
+                try {
+                    await mirrorService.initializePullMirror(project, pullMirror);
+                } catch (err) {
+                    projectRepo.deleteProject(project.id);
+                    await fs.rm(repoRoot, { recursive: true, force: true });
+                    res.status(422).json({
+                        error: `Failed to clone mirror: ${err instanceof Error ? err.message : String(err)}`,
+                        code: "MIRROR_ERROR",
+                    });
+                    return;
+                }
+                publishProjectCreated(req, project);
+                res.status(201).json({ success: true, repository: sanitizeRepository(project, true) });
+                return;
+            }
             try {
                 const { initBareRepo } = await import("@platform/git");
                 await initBareRepo(repoRoot);
@@ -81,6 +148,7 @@ router.post(
                 res.status(500).json({ error: "Failed to initialize git repository", code: "GIT_ERROR" });
                 return;
             }
+            publishProjectCreated(req, project);
             res.status(201).json({ success: true, repository: sanitizeRepository(project, true) });
         } catch (err) {
             next(err);
@@ -217,10 +285,46 @@ function resolveSafeRepoPath(repoRoot: string, relativePath: string): string {
     return targetPath;
 }
 
+/**
+ * Validate the `mirror` body of a repository creation request.
+ * Returns an error message or null.
+ */
+async function validateMirrorInput(mirror: unknown, role: string): Promise<string | null> {
+    if (!mirror || typeof mirror !== "object") return "mirror must be an object";
+    const { url, username, password, interval } = mirror as Record<string, unknown>;
+    if (typeof url !== "string" || !url.trim()) return "mirror.url is required";
+    const urlError = await mirrorService.validateRemoteUrl(url, role);
+    if (urlError) return urlError;
+    if (username !== undefined && typeof username !== "string") return "mirror.username must be a string";
+    if (password !== undefined && typeof password !== "string") return "mirror.password must be a string";
+    if (interval !== undefined
+        && (typeof interval !== "number" || !Number.isInteger(interval) || interval < mirrorService.MIN_MIRROR_INTERVAL_SECONDS)) {
+        return `mirror.interval must be at least ${mirrorService.MIN_MIRROR_INTERVAL_SECONDS} seconds`;
+    }
+    return null;
+}
+
 async function ensureRepositoryExistsOnDisk(repoRoot: string): Promise<void> {
     await fs.mkdir(repoRoot, { recursive: true });
 }
 
+/** LFS pointer files are small; anything larger is regular content. */
+const LFS_POINTER_MAX_BYTES = 1024;
+
+/**
+ * Read the LFS object a file points to, if the file is an LFS pointer.
+ */
+async function readLfsPointer(absolutePath: string, size: number) {
+    if (size > LFS_POINTER_MAX_BYTES) return undefined;
+    const content = await fs.readFile(absolutePath, "utf-8").catch(() => "");
+    const pointer = parseLfsPointer(content);
+    return pointer ? { oid: pointer.oid, size: pointer.size } : undefined;
+}
+
+function lfsDownloadUrl(owner: string, repo: string, oid: string): string {
+    return `/${owner}/${repo}.git/info/lfs/objects/${oid}`;
+}
+
 /**
  * Sanitize repository object by removing sensitive fields.
  *
@@ -244,6 +348,7 @@ function sanitizeRepository(project: ReturnType<typeof projectRepo.findById>, in
             username: ownerUsername,
         },
         url: `/api/repositories/${ownerUsername}/${project.slug}`,
+        sshUrl: sshCloneUrl(ownerUsername, project.slug),
         createdAt: project.createdAt,
         updatedAt: project.updatedAt,
     };
@@ -252,6 +357,15 @@ function sanitizeRepository(project: ReturnType<typeof projectRepo.findById>, in
         sanitized.isPrivate = project.isPrivate;
     }
 
+    const pullMirror = mirrorRepo.findPullMirror(project.id);
+    if (pullMirror) {
+        sanitized.mirror = {
+            url: pullMirror.remoteUrl,
+            lastSyncedAt: pullMirror.lastSyncedAt ?? null,
+            lastError: pullMirror.lastError ?? null,
+        };
+    }
+
     return sanitized;
 }
 
@@ -363,12 +477,15 @@ router.get(
                         };
                     }
 
-                    const fileStats = await fs.stat(nodePath.join(absolutePath, entry.name));
+                    const entryAbsolutePath = nodePath.join(absolutePath, entry.name);
+                    const fileStats = await fs.stat(entryAbsolutePath);
+                    const lfs = await readLfsPointer(entryAbsolutePath, fileStats.size);
                     return {
                         type: "file" as const,
                         name: entry.name,
                         path: entryRelPath,
-                        size: fileStats.size,
+                        size: lfs ? lfs.size : fileStats.size,
+                        ...(lfs ? { lfs } : {}),
                     };
                 }),
             );
@@ -447,8 +564,13 @@ router.get(
             }
 
             const content = await fs.readFile(absolutePath, "utf-8");
+            const pointer = stats.size <= LFS_POINTER_MAX_BYTES ? parseLfsPointer(content) : undefined;
 
             if (raw) {
+                if (pointer) {
+                    res.redirect(lfsDownloadUrl(owner, repo, pointer.oid));
+                    return;
+                }
                 res.set("Content-Type", "text/plain; charset=utf-8");
                 res.send(content);
             } else {
@@ -457,7 +579,17 @@ router.get(
                     branch,
                     content,
                     encoding: "utf-8",
-                    size: stats.size,
+                    size: pointer ? pointer.size : stats.size,
+                    ...(pointer
+                        ? {
+                            lfs: {
+                                oid: pointer.oid,
+                                size: pointer.size,
+                                pointerSize: stats.size,
+                                downloadUrl: lfsDownloadUrl(owner, repo, pointer.oid),
+                            },
+                        }
+                        : {}),
                 });
             }
         } catch (err) {
@@ -767,10 +899,20 @@ router.post(
                 return;
             }
 
+            // The revert is committed on top of the default branch
+            const protectedBranch = checkBranchUpdate(project, project.defaultBranch, req.user!);
+            if (protectedBranch) {
+                res.status(403).json({ error: protectedBranch, code: "PROTECTED_BRANCH" });
+                return;
+            }
+
             // Use git utilities to revert commit
-            const { revertCommit } = await import("@platform/git");
+            const { resolveRef, revertCommit } = await import("@platform/git");
 
-            const revertCommitResult = await revertCommit(getRepositoryFsRoot(project), sha, {
+            const repoRoot = getRepositoryFsRoot(project);
+            const refName = `refs/heads/${project.defaultBranch}`;
+            const oldSha = await resolveRef(repoRoot, refName);
+            const revertCommitResult = await revertCommit(repoRoot, sha, {
                 message: message || `Revert commit ${sha.substring(0, 7)}`,
                 author: {
                     name: req.user!.username,
@@ -778,6 +920,11 @@ router.post(
                 },
             });
 
+            await publishPushEvents(project, repoRoot, [{ refName, oldSha, newSha: revertCommitResult.sha }], {
+                userId: req.user!.userId,
+                role: req.user!.role,
+            });
+
             res.status(201).json({
                 sha: revertCommitResult.sha,
                 message: revertCommitResult.message,
@@ -950,6 +1097,14 @@ router.post(
                 return;
             }
 
+            if (!canPushTo(project, resolveBranchProtection(project, name, req.user!), req.user!)) {
+                res.status(403).json({
+                    error: `You are not allowed to push to protected branch ${name}`,
+                    code: "PROTECTED_BRANCH",
+                });
+                return;
+            }
+
             // Validate branch name format
             if (!/^[a-zA-Z0-9._/-]+$/.test(name)) {
                 res.status(400).json({
@@ -960,9 +1115,17 @@ router.post(
             }
 
             // Use git utilities to create branch
-            const { createBranch } = await import("@platform/git");
-
-            await createBranch(getRepositoryFsRoot(project), name, from || project.defaultBranch);
+            const { createBranch, resolveRef } = await import("@platform/git");
+
+            const repoPath = getRepositoryFsRoot(project);
+            await createBranch(repoPath, name, from || project.defaultBranch);
+            publishEvent("git.branch.created", {
+                repositoryId: project.id,
+                branchName: name,
+                sha: await resolveRef(repoPath, `refs/heads/${name}`),
+                isDefault: false,
+                actor: requestActor(req),
+            }, requestEventOptions(req));
 
             res.status(201).json({ message: `Branch '${name}' created successfully` });
         } catch (err) {
@@ -1017,10 +1180,25 @@ router.delete(
                 return;
             }
 
-            // Use git utilities to delete branch
-            const { deleteBranch } = await import("@platform/git");
+            const protectedBranch = checkBranchDeletion(project, name, req.user!);
+            if (protectedBranch) {
+                res.status(403).json({ error: protectedBranch, code: "PROTECTED_BRANCH" });
+                return;
+            }
 
-            await deleteBranch(getRepositoryFsRoot(project), name);
+            // Use git utilities to delete branch
+            const { deleteBranch, resolveRef } = await import("@platform/git");
+
+            const repoPath = getRepositoryFsRoot(project);
+            const sha = await resolveRef(repoPath, `refs/heads/${name}`);
+            await deleteBranch(repoPath, name);
+            publishEvent("git.branch.deleted", {
+                repositoryId: project.id,
+                branchName: name,
+                sha,
+                isDefault: false,
+                actor: requestActor(req),
+            }, requestEventOptions(req));
 
             res.json({ message: `Branch '${name}' deleted successfully` });
         } catch (err) {
@@ -1066,9 +1244,17 @@ router.delete(
             }
 
             // Use git utilities to delete tag
-            const { deleteTag } = await import("@platform/git");
-
-            await deleteTag(getRepositoryFsRoot(project), name);
+            const { deleteTag, resolveRef } = await import("@platform/git");
+
+            const repoPath = getRepositoryFsRoot(project);
+            const sha = await resolveRef(repoPath, `refs/tags/${name}`);
+            await deleteTag(repoPath, name);
+            publishEvent("git.tag.deleted", {
+                repositoryId: project.id,
+                tagName: name,
+                sha,
+                actor: requestActor(req),
+            }, requestEventOptions(req));
 
             res.json({ message: `Tag '${name}' deleted successfully` });
         } catch (err) {
@@ -1229,6 +1415,9 @@ router.post(
             const created = starRepo.addStar(userId, project.id);
             const stars = starRepo.countStarsForProject(project.id);
             projectRepo.updateProject(project.id, { starCount: stars });
+            if (created) {
+                publishEvent("project.starred", { projectId: project.id, userId }, requestEventOptions(req));
+            }
 
             res.json({
                 message: created ? "Repository starred successfully" : "Repository already starred",
@@ -1273,6 +1462,9 @@ router.delete(
             const removed = starRepo.removeStar(userId, project.id);
             const stars = starRepo.countStarsForProject(project.id);
             projectRepo.updateProject(project.id, { starCount: stars });
+            if (removed) {
+                publishEvent("project.unstarred", { projectId: project.id, userId }, requestEventOptions(req));
+            }
 
             res.json({
                 message: removed ? "Repository unstarred successfully" : "Repository was not starred",
@@ -1461,6 +1653,12 @@ router.post(
                 return;
             }
 
+            const protectedBranch = checkBranchUpdate(project, String(branch), req.user!);
+            if (protectedBranch) {
+                res.status(403).json({ error: protectedBranch, code: "PROTECTED_BRANCH" });
+                return;
+            }
+
             const repoRoot = getRepositoryFsRoot(project);
             await ensureRepositoryExistsOnDisk(repoRoot);
             const absolutePath = resolveSafeRepoPath(repoRoot, relativePath);
@@ -1472,6 +1670,12 @@ router.post(
                 await fs.writeFile(absolutePath, String(content), "utf-8");
             }
 
+            publishEvent("project.file.written", {
+                projectId: project.id,
+                branch: String(branch),
+                path: relativePath,
+            }, requestEventOptions(req));
+
             res.json({
                 success: true,
                 data: {
@@ -1536,6 +1740,12 @@ router.delete(
                 return;
             }
 
+            const protectedBranch = checkBranchUpdate(project, String(branch), req.user!);
+            if (protectedBranch) {
+                res.status(403).json({ error: protectedBranch, code: "PROTECTED_BRANCH" });
+                return;
+            }
+
             const repoRoot = getRepositoryFsRoot(project);
             const absolutePath = resolveSafeRepoPath(repoRoot, relativePath);
             const stats = await fs.stat(absolutePath).catch(() => null);
@@ -1551,6 +1761,12 @@ router.delete(
                 await fs.unlink(absolutePath);
             }
 
+            publishEvent("project.file.deleted", {
+                projectId: project.id,
+                branch,
+                path: relativePath,
+            }, requestEventOptions(req));
+
             res.json({
                 success: true,
                 message: `Path ${relativePath} deleted from ${branch}`,
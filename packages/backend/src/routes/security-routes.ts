@@ -1,12 +1,69 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
+import * as nodePath from "node:path";
 import { requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
+import { getConfig } from "../config/app-config.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as secretScanningRepo from "../db/repositories/secret-scanning-repo.js";
+import type { SecretAlert, SecretAlertResolution, SecretAlertState } from "../db/repositories/secret-scanning-repo.js";
+import * as secretScanningService from "../services/secret-scanning-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * Security advisory and vulnerability management routes
  */
 const router = Router();
 
+type ProjectRecord = NonNullable<ReturnType<typeof projectRepo.findById>>;
+
+/**
+ * Resolve a project the current user administers, or send 404/403.
+ */
+function resolveAdminProject(req: Request, res: Response): ProjectRecord | null {
+  const ownerUser = userRepo.findByUsername(String(req.params.owner));
+  const project = ownerUser ? projectRepo.findBySlug(ownerUser.id, String(req.params.repo)) : null;
+  if (!project) {
+    res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
+    return null;
+  }
+
+  if (project.ownerId !== req.user!.userId && req.user!.role !== "admin") {
+    res.status(403).json({ error: "Forbidden: repository admin access required", code: "FORBIDDEN" });
+    return null;
+  }
+
+  return project;
+}
+
+function getRepositoryFsRoot(project: ProjectRecord): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+function formatSecretAlert(alert: SecretAlert) {
+  return {
+    number: alert.number,
+    state: alert.state,
+    resolution: alert.resolution ?? null,
+    resolution_comment: alert.resolutionComment ?? null,
+    resolved_by: alert.resolvedBy ?? null,
+    resolved_at: alert.resolvedAt ?? null,
+    secret_type: alert.secretType,
+    secret: alert.maskedSecret,
+    confidence: alert.confidence,
+    location: {
+      path: alert.filePath ?? null,
+      line: alert.line ?? null,
+      commit_sha: alert.commitSha ?? null,
+    },
+    created_at: alert.createdAt,
+    updated_at: alert.updatedAt,
+  };
+}
+
 /**
  * GET /api/repositories/:owner/:repo/security/advisories
  * List security advisories
@@ -225,16 +282,204 @@ router.get(
 router.get(
   "/:owner/:repo/secret-scanning/alerts",
   requireAuth,
+  validate([
+    { field: "state", location: "query", type: "string", pattern: /^(open|resolved|all)$/ },
+    { field: "resolution", location: "query", type: "string", pattern: /^(revoked|false_positive|used_in_tests)$/ },
+  ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
-      const { state = "open" } = req.query;
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
 
-      const alerts: any[] = [];
+      const { state = "open", resolution, secret_type, page = "1", perPage = "30" } = req.query;
+      const pageNum = Math.max(1, parseInt(String(page)) || 1);
+      const perPageNum = Math.min(100, Math.max(1, parseInt(String(perPage)) || 30));
+
+      const { alerts, total } = secretScanningRepo.listByProject(
+        project.id,
+        { page: pageNum, perPage: perPageNum },
+        {
+          state: state === "all" ? undefined : state as SecretAlertState,
+          resolution: resolution ? resolution as SecretAlertResolution : undefined,
+          secretType: secret_type ? String(secret_type) : undefined,
+        },
+      );
 
       res.json({
-        total_count: 0,
-        alerts
+        total_count: total,
+        page: pageNum,
+        per_page: perPageNum,
+        alerts: alerts.map(formatSecretAlert),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/secret-scanning/alerts/:number
+ * Get a single secret scanning alert
+ */
+router.get(
+  "/:owner/:repo/secret-scanning/alerts/:number",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const alert = secretScanningRepo.findByNumber(project.id, parseInt(String(req.params.number)));
+      if (!alert) {
+        res.status(404).json({ error: "Alert not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      res.json(formatSecretAlert(alert));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/repositories/:owner/:repo/secret-scanning/alerts/:number
+ * Resolve (revoked, false positive, used in tests) or reopen an alert
+ */
+router.patch(
+  "/:owner/:repo/secret-scanning/alerts/:number",
+  requireAuth,
+  validate([
+    { field: "state", location: "body", required: true, type: "string", pattern: /^(open|resolved)$/ },
+    { field: "resolution", location: "body", type: "string", pattern: /^(revoked|false_positive|used_in_tests)$/ },
+    { field: "resolution_comment", location: "body", type: "string", max: 1000 },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const { state, resolution, resolution_comment } = req.body;
+      if (state === "resolved" && !resolution) {
+        res.status(400).json({
+          error: "A resolution is required when resolving an alert",
+          code: "VALIDATION_ERROR",
+        });
+        return;
+      }
+
+      const number = parseInt(String(req.params.number));
+      if (!secretScanningRepo.findByNumber(project.id, number)) {
+        res.status(404).json({ error: "Alert not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const updated = secretScanningRepo.updateState(
+        project.id,
+        number,
+        state,
+        req.user!.userId,
+        resolution,
+        resolution_comment,
+      );
+      publishEvent("project.secret_scanning.alert_updated", {
+        projectId: project.id,
+        alertNumber: number,
+        state,
+      }, requestEventOptions(req));
+
+      res.json(formatSecretAlert(updated!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/secret-scanning/scans
+ * Scan the full repository history and record alerts
+ */
+router.post(
+  "/:owner/:repo/secret-scanning/scans",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const result = await secretScanningService.scanHistory(project, getRepositoryFsRoot(project));
+      const settings = secretScanningRepo.getSettings(project.id);
+      publishEvent("project.secret_scanning.scan_completed", {
+        projectId: project.id,
+        matches: result.matches,
+        newAlerts: result.newAlerts,
+      }, requestEventOptions(req));
+
+      res.status(201).json({
+        matches: result.matches,
+        new_alerts: result.newAlerts,
+        completed_at: settings.lastFullScanAt ?? null,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/secret-scanning/settings
+ * Get secret scanning and push protection settings
+ */
+router.get(
+  "/:owner/:repo/secret-scanning/settings",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const settings = secretScanningRepo.getSettings(project.id);
+      res.json({
+        enabled: settings.scanningEnabled,
+        push_protection: settings.pushProtection,
+        last_full_scan_at: settings.lastFullScanAt ?? null,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /api/repositories/:owner/:repo/secret-scanning/settings
+ * Enable or disable secret scanning and push protection
+ */
+router.put(
+  "/:owner/:repo/secret-scanning/settings",
+  requireAuth,
+  validate([
+    { field: "enabled", location: "body", type: "boolean" },
+    { field: "push_protection", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = resolveAdminProject(req, res);
+      if (!project) return;
+
+      const settings = secretScanningRepo.upsertSettings(project.id, {
+        scanningEnabled: req.body.enabled,
+        pushProtection: req.body.push_protection,
+      });
+      publishEvent("project.secret_scanning.settings_updated", {
+        projectId: project.id,
+        scanningEnabled: settings.scanningEnabled,
+        pushProtection: settings.pushProtection,
+      }, requestEventOptions(req));
+
+      res.json({
+        enabled: settings.scanningEnabled,
+        push_protection: settings.pushProtection,
+        last_full_scan_at: settings.lastFullScanAt ?? null,
       });
     } catch (err) {
       next(err);
@@ -1,9 +1,26 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
-import { requireAuth } from "../middleware/auth-guard.js";
+import { optionalAuth, requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
 import * as userRepo from "../db/repositories/user-repo.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as branchProtectionRepo from "../db/repositories/branch-protection-repo.js";
+import * as mergeSettingsRepo from "../db/repositories/merge-settings-repo.js";
+import * as collaboratorRepo from "../db/repositories/collaborator-repo.js";
+import * as deployKeyRepo from "../db/repositories/deploy-key-repo.js";
+import * as sshKeyRepo from "../db/repositories/ssh-key-repo.js";
+import * as webhookModel from "../db/models/webhook-model.js";
+import { encryptSecret } from "../services/credential-encryption.js";
+import { WEBHOOK_EVENTS, checkReceiverHost, pingWebhook, redeliver } from "../services/webhook-service.js";
+import { formatRule, parseRuleData, resolveBranchProtection, ruleEvent } from "../services/branch-protection-service.js";
+import { loadCodeowners } from "../services/codeowners-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
+import {
+  fingerprintPublicKey,
+  resolveProjectPermission,
+  satisfies,
+} from "../services/repository-permission-service.js";
+import type { PermissionLevel } from "@platform/git";
+import type { Project } from "@platform/shared";
 
 /**
  * Repository settings and configuration routes
@@ -11,6 +28,124 @@ import * as branchProtectionRepo from "../db/repositories/branch-protection-repo
  */
 const router = Router();
 
+/**
+ * Resolve the project in the route and check the caller's permission on
+ * it. Sends the error response and returns null when either fails;
+ * private repositories the caller cannot read are reported as missing.
+ */
+function loadProject(req: Request, res: Response, required: PermissionLevel): Project | null {
+  const ownerUser = userRepo.findByUsername(String(req.params.owner));
+  const project = ownerUser ? projectRepo.findBySlug(ownerUser.id, String(req.params.repo)) : null;
+  const permission = project
+    ? resolveProjectPermission(project, req.user ? { userId: req.user.userId, role: req.user.role } : null)
+    : "none";
+
+  if (!project || !satisfies(permission, "read")) {
+    res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
+    return null;
+  }
+  if (!satisfies(permission, required)) {
+    res.status(403).json({
+      error: `You need ${required} access to ${req.params.owner}/${req.params.repo} to do this`,
+      code: "FORBIDDEN",
+    });
+    return null;
+  }
+  return project;
+}
+
+function formatDeployKey(key: deployKeyRepo.ProjectDeployKey) {
+  return {
+    id: key.id,
+    title: key.title,
+    key: key.key,
+    fingerprint: key.fingerprint,
+    readOnly: key.readOnly,
+    createdAt: key.createdAt,
+    lastUsed: key.lastUsed ?? null,
+  };
+}
+
+function findProjectWebhook(project: Project, hookId: string): webhookModel.RepositoryWebhook | null {
+  const webhook = webhookModel.getWebhook(hookId);
+  return webhook && webhook.repositoryId === project.id ? webhook : null;
+}
+
+/**
+ * Check a webhook's payload URL and event list; returns the error
+ * message, or null when both are valid. The URL's host is only resolved
+ * when `checkHost` is set, i.e. when the URL is new.
+ */
+async function validateWebhookTarget(url: string, events: unknown, checkHost: boolean): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Payload URL is not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "Payload URL must use http or https";
+  }
+
+  const known: readonly string[] = WEBHOOK_EVENTS;
+  if (!Array.isArray(events) || events.length === 0) {
+    return "At least one event is required";
+  }
+  const unknown = events.find((event) => event !== "*" && !known.includes(String(event)));
+  if (unknown !== undefined) return `Unknown webhook event: ${String(unknown)}`;
+
+  const hostError = checkHost ? await checkReceiverHost(parsed) : null;
+  return hostError && `Payload URL is not allowed: ${hostError}`;
+}
+
+function webhookEvent(project: Project, webhook: webhookModel.RepositoryWebhook) {
+  return { projectId: project.id, webhookId: webhook.id, url: webhook.url };
+}
+
+function formatWebhook(webhook: webhookModel.RepositoryWebhook) {
+  const [last] = webhookModel.listDeliveries(webhook.id, 1);
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    active: webhook.active,
+    status: webhook.active ? webhook.status : "inactive",
+    contentType: webhook.contentType,
+    insecureSsl: webhook.insecureSSL,
+    hasSecret: Boolean(webhook.secret),
+    failureCount: webhook.failureCount,
+    lastDeliveryAt: webhook.lastDeliveryAt ?? null,
+    lastDeliveryStatus: last?.status ?? null,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+  };
+}
+
+function formatDelivery(delivery: webhookModel.WebhookDelivery) {
+  return {
+    id: delivery.id,
+    guid: delivery.guid,
+    event: delivery.event,
+    action: delivery.action ?? null,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt ?? null,
+    redelivery: delivery.redelivery,
+    request: {
+      headers: delivery.requestHeaders,
+      payload: JSON.parse(delivery.payload) as unknown,
+    },
+    response: {
+      status: delivery.responseStatus ?? null,
+      body: delivery.responseBody ?? null,
+    },
+    error: delivery.error ?? null,
+    durationMs: delivery.durationMs ?? null,
+    deliveredAt: delivery.deliveredAt ?? null,
+    createdAt: delivery.createdAt,
+  };
+}
+
 /**
  * GET /api/repositories/:owner/:repo/settings
  * Get repository settings
@@ -33,7 +168,8 @@ router.get(
         return;
       }
 
-      const protection = branchProtectionRepo.findByProjectId(project.id);
+      const protection = resolveBranchProtection(project, project.defaultBranch);
+      const mergeSettings = mergeSettingsRepo.findByProjectId(project.id);
 
       const settings = {
         name: project.name,
@@ -43,10 +179,10 @@ router.get(
         hasIssues: true,
         hasProjects: true,
         hasWiki: true,
-        allowMergeCommit: true,
-        allowSquashMerge: true,
-        allowRebaseMerge: true,
-        deleteBranchOnMerge: false,
+        allowMergeCommit: mergeSettings.allowMergeCommit,
+        allowSquashMerge: mergeSettings.allowSquashMerge,
+        allowRebaseMerge: mergeSettings.allowRebaseMerge,
+        deleteBranchOnMerge: mergeSettings.deleteBranchOnMerge,
         archived: false,
         disabled: false,
         branchProtection: {
@@ -56,6 +192,7 @@ router.get(
           requiredStatusChecks: protection.requiredStatusChecks,
           enforceAdmins: protection.enforceAdmins,
           requireLinearHistory: protection.requireLinearHistory,
+          dismissStaleReviews: protection.dismissStaleReviews,
         },
         features: {
           issues: true,
@@ -86,35 +223,67 @@ router.patch(
     { field: "visibility", location: "body", type: "string", pattern: /^(public|private|internal)$/ },
     { field: "defaultBranch", location: "body", type: "string", min: 1, max: 255 },
     { field: "branchProtection", location: "body", type: "object" },
+    { field: "allowMergeCommit", location: "body", type: "boolean" },
+    { field: "allowSquashMerge", location: "body", type: "boolean" },
+    { field: "allowRebaseMerge", location: "body", type: "boolean" },
+    { field: "deleteBranchOnMerge", location: "body", type: "boolean" },
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
       const updates = req.body;
 
-      const ownerUser = userRepo.findByUsername(String(owner));
-      if (!ownerUser) {
-        res.status(404).json({ error: "Repository owner not found", code: "NOT_FOUND" });
-        return;
-      }
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
 
-      const project = projectRepo.findBySlug(ownerUser.id, String(repo));
-      if (!project) {
-        res.status(404).json({ error: "Repository not found", code: "NOT_FOUND" });
-        return;
+      const mergeUpdates = {
+        allowMergeCommit: updates.allowMergeCommit,
+        allowSquashMerge: updates.allowSquashMerge,
+        allowRebaseMerge: updates.allowRebaseMerge,
+        deleteBranchOnMerge: updates.deleteBranchOnMerge,
+      };
+      if (Object.values(mergeUpdates).some((value) => value !== undefined)) {
+        const current = mergeSettingsRepo.findByProjectId(project.id);
+        const methods = mergeSettingsRepo.allowedMergeMethods({
+          ...current,
+          allowMergeCommit: mergeUpdates.allowMergeCommit ?? current.allowMergeCommit,
+          allowSquashMerge: mergeUpdates.allowSquashMerge ?? current.allowSquashMerge,
+          allowRebaseMerge: mergeUpdates.allowRebaseMerge ?? current.allowRebaseMerge,
+        });
+        if (methods.length === 0) {
+          res.status(400).json({
+            error: "At least one merge method must be allowed",
+            code: "VALIDATION_ERROR",
+          });
+          return;
+        }
+        mergeSettingsRepo.upsertByProjectId(project.id, mergeUpdates);
       }
 
+      // Settings-level protection is the repository's rule for its default branch
       if (updates.branchProtection && typeof updates.branchProtection === "object") {
-        branchProtectionRepo.upsertByProjectId(project.id, {
-          requirePullRequest: updates.branchProtection.requirePullRequest,
-          requiredApprovingReviewCount: updates.branchProtection.requiredApprovingReviewCount,
-          requireStatusChecks: updates.branchProtection.requireStatusChecks,
-          requiredStatusChecks: updates.branchProtection.requiredStatusChecks,
-          enforceAdmins: updates.branchProtection.enforceAdmins,
-          requireLinearHistory: updates.branchProtection.requireLinearHistory,
-        });
+        let data: branchProtectionRepo.BranchProtectionRuleData;
+        try {
+          data = parseRuleData(updates.branchProtection);
+        } catch (error) {
+          res.status(422).json({ error: (error as Error).message, code: "VALIDATION_ERROR" });
+          return;
+        }
+
+        const ref = { scope: "project" as const, scopeId: project.id };
+        const rule = branchProtectionRepo.findRule(ref, project.defaultBranch);
+        if (rule) {
+          branchProtectionRepo.updateRule(rule.id, data);
+        } else {
+          branchProtectionRepo.createRule(ref, project.defaultBranch, data);
+        }
       }
 
+      publishEvent("project.settings.updated", {
+        projectId: project.id,
+        updatedFields: Object.keys(updates),
+        updatedBy: req.user!.userId,
+      }, requestEventOptions(req));
+
       res.json({
         message: "Repository settings updated",
         ...updates,
@@ -125,38 +294,189 @@ router.patch(
   }
 );
 
+/**
+ * GET /api/repositories/:owner/:repo/branch-protection
+ * List the branch protection rules of a repository, followed by the
+ * rules of its organization that also apply to it
+ */
+router.get(
+  "/:owner/:repo/branch-protection",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const rules = branchProtectionRepo.listRulesForProject(project.id, project.orgId);
+
+      res.json({
+        items: rules.map(formatRule),
+        total: rules.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/codeowners
+ * The CODEOWNERS file of a branch (the default branch unless `ref` is
+ * given), with the lines that could not be used
+ */
+router.get(
+  "/:owner/:repo/codeowners",
+  optionalAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const ref = typeof req.query.ref === "string" && req.query.ref ? req.query.ref : project.defaultBranch;
+      const codeowners = await loadCodeowners(project, `refs/heads/${ref}`);
+
+      res.json({
+        ref,
+        path: codeowners.path,
+        rules: codeowners.rules.map(({ pattern, owners, line }) => ({ pattern, owners, line })),
+        errors: codeowners.errors,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/branch-protection
+ * Protect the branches matching a pattern
+ */
+router.post(
+  "/:owner/:repo/branch-protection",
+  requireAuth,
+  validate([
+    { field: "pattern", location: "body", required: true, type: "string", min: 1, max: 255, sanitize: false },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const ref = { scope: "project" as const, scopeId: project.id };
+      const pattern = String(req.body.pattern).trim();
+      if (branchProtectionRepo.findRule(ref, pattern)) {
+        res.status(409).json({ error: `A rule for ${pattern} already exists`, code: "CONFLICT" });
+        return;
+      }
+
+      let data: branchProtectionRepo.BranchProtectionRuleData;
+      try {
+        data = parseRuleData(req.body);
+      } catch (error) {
+        res.status(422).json({ error: (error as Error).message, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const rule = branchProtectionRepo.createRule(ref, pattern, data);
+      publishEvent("project.branch_protection.created", ruleEvent(rule), requestEventOptions(req));
+
+      res.status(201).json(formatRule(rule));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/repositories/:owner/:repo/branch-protection/:ruleId
+ * Update a branch protection rule
+ */
+router.patch(
+  "/:owner/:repo/branch-protection/:ruleId",
+  requireAuth,
+  validate([
+    { field: "pattern", location: "body", type: "string", min: 1, max: 255, sanitize: false },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const rule = branchProtectionRepo.findRuleById(String(req.params.ruleId));
+      if (!rule || rule.scope !== "project" || rule.scopeId !== project.id) {
+        res.status(404).json({ error: "Branch protection rule not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const pattern = req.body.pattern === undefined ? undefined : String(req.body.pattern).trim();
+      const existing = pattern ? branchProtectionRepo.findRule({ scope: "project", scopeId: project.id }, pattern) : null;
+      if (existing && existing.id !== rule.id) {
+        res.status(409).json({ error: `A rule for ${pattern} already exists`, code: "CONFLICT" });
+        return;
+      }
+
+      let data: branchProtectionRepo.BranchProtectionRuleData;
+      try {
+        data = parseRuleData(req.body);
+      } catch (error) {
+        res.status(422).json({ error: (error as Error).message, code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const updated = branchProtectionRepo.updateRule(rule.id, { ...data, pattern })!;
+      publishEvent("project.branch_protection.updated", ruleEvent(updated), requestEventOptions(req));
+
+      res.json(formatRule(updated));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/repositories/:owner/:repo/branch-protection/:ruleId
+ * Delete a branch protection rule
+ */
+router.delete(
+  "/:owner/:repo/branch-protection/:ruleId",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const rule = branchProtectionRepo.findRuleById(String(req.params.ruleId));
+      if (!rule || rule.scope !== "project" || rule.scopeId !== project.id) {
+        res.status(404).json({ error: "Branch protection rule not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      branchProtectionRepo.deleteRule(rule.id);
+      publishEvent("project.branch_protection.deleted", ruleEvent(rule), requestEventOptions(req));
+      res.json({ message: "Branch protection rule deleted" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * GET /api/repositories/:owner/:repo/collaborators
  * List repository collaborators
  */
 router.get(
   "/:owner/:repo/collaborators",
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
-      const { page = "1", perPage = "20" } = req.query;
-
-      const collaborators = [
-        {
-          id: "1",
-          username: owner,
-          role: "admin",
-          permissions: {
-            admin: true,
-            maintain: true,
-            push: true,
-            triage: true,
-            pull: true
-          },
-          addedAt: new Date().toISOString()
-        }
-      ];
+      const project = loadProject(req, res, "read");
+      if (!project) return;
+
+      const collaborators = collaboratorRepo.listByProject(project.id);
 
       res.json({
         items: collaborators,
         total: collaborators.length,
-        page: parseInt(String(page)),
-        perPage: parseInt(String(perPage))
       });
     } catch (err) {
       next(err);
@@ -177,14 +497,32 @@ router.put(
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, username } = req.params;
-      const { permission } = req.body;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
 
-      res.status(201).json({
-        message: `${username} added as collaborator with ${permission} access`,
-        username,
-        permission
-      });
+      const user = userRepo.findByUsername(String(req.params.username));
+      if (!user) {
+        res.status(404).json({ error: "User not found", code: "NOT_FOUND" });
+        return;
+      }
+      if (user.id === project.ownerId) {
+        res.status(400).json({ error: "The repository owner cannot be added as a collaborator", code: "VALIDATION_ERROR" });
+        return;
+      }
+
+      const existing = collaboratorRepo.find(project.id, user.id);
+      const collaborator = collaboratorRepo.upsert(project.id, user.id, req.body.permission);
+      const action = existing ? "role_changed" : "added";
+      publishEvent(`project.member.${action}`, {
+        projectId: project.id,
+        memberId: user.id,
+        actorId: req.user!.userId,
+        action,
+        role: req.body.permission,
+        previousRole: existing?.role,
+      }, requestEventOptions(req));
+
+      res.status(existing ? 200 : 201).json(collaborator);
     } catch (err) {
       next(err);
     }
@@ -200,10 +538,23 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, username } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const user = userRepo.findByUsername(String(req.params.username));
+      if (!user || !collaboratorRepo.remove(project.id, user.id)) {
+        res.status(404).json({ error: "Collaborator not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("project.member.removed", {
+        projectId: project.id,
+        memberId: user.id,
+        actorId: req.user!.userId,
+        action: "removed",
+      }, requestEventOptions(req));
 
       res.json({
-        message: `${username} removed from collaborators`
+        message: `${user.username} removed from collaborators`
       });
     } catch (err) {
       next(err);
@@ -220,13 +571,14 @@ router.get(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
 
-      const webhooks: any[] = [];
+      const webhooks = webhookModel.listWebhooks(project.id);
 
       res.json({
-        items: webhooks,
-        total: 0
+        items: webhooks.map(formatWebhook),
+        total: webhooks.length,
       });
     } catch (err) {
       next(err);
@@ -236,30 +588,107 @@ router.get(
 
 /**
  * POST /api/repositories/:owner/:repo/webhooks
- * Create a new webhook
+ * Create a new webhook and send it a ping
  */
 router.post(
   "/:owner/:repo/webhooks",
   requireAuth,
   validate([
-    { field: "url", location: "body", required: true, type: "string" },
+    { field: "url", location: "body", required: true, type: "string", max: 2048, sanitize: false },
     { field: "events", location: "body", required: true, type: "object" },
     { field: "active", location: "body", type: "boolean" },
+    { field: "secret", location: "body", type: "string", max: 255, sanitize: false },
+    { field: "contentType", location: "body", type: "string", pattern: /^(json|form)$/ },
+    { field: "insecureSsl", location: "body", type: "boolean" },
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
-      const { url, events, active = true, secret } = req.body;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const { url, events, active = true, secret, contentType = "json", insecureSsl = false } = req.body;
+      const invalid = await validateWebhookTarget(url, events, true);
+      if (invalid) {
+        res.status(400).json({ error: invalid, code: "VALIDATION_ERROR" });
+        return;
+      }
 
-      const webhook = {
-        id: Date.now().toString(),
+      const webhook = webhookModel.createWebhook({
+        repositoryId: project.id,
+        name: "web",
         url,
         events,
         active,
-        createdAt: new Date().toISOString()
-      };
+        secret: secret ? encryptSecret(secret) : undefined,
+        contentType,
+        insecureSSL: insecureSsl,
+      });
+      if (webhook.active) {
+        pingWebhook(project, webhook, req.user!.userId);
+      }
+      publishEvent("project.webhook.created", webhookEvent(project, webhook), requestEventOptions(req));
+
+      res.status(201).json(formatWebhook(webhook));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/repositories/:owner/:repo/webhooks/:hookId
+ * Update a webhook. Re-enabling a hook or changing its URL clears its
+ * failure state, which also lifts a suspension.
+ */
+router.patch(
+  "/:owner/:repo/webhooks/:hookId",
+  requireAuth,
+  validate([
+    { field: "url", location: "body", type: "string", max: 2048, sanitize: false },
+    { field: "events", location: "body", type: "object" },
+    { field: "active", location: "body", type: "boolean" },
+    { field: "secret", location: "body", type: "string", max: 255, sanitize: false },
+    { field: "contentType", location: "body", type: "string", pattern: /^(json|form)$/ },
+    { field: "insecureSsl", location: "body", type: "boolean" },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const webhook = findProjectWebhook(project, String(req.params.hookId));
+      if (!webhook) {
+        res.status(404).json({ error: "Webhook not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const { url, events, active, secret, contentType, insecureSsl } = req.body;
+      const invalid = await validateWebhookTarget(
+        url ?? webhook.url,
+        events ?? webhook.events,
+        url !== undefined && url !== webhook.url,
+      );
+      if (invalid) {
+        res.status(400).json({ error: invalid, code: "VALIDATION_ERROR" });
+        return;
+      }
 
-      res.status(201).json(webhook);
+      webhookModel.updateWebhook(webhook.id, {
+        url,
+        events,
+        active,
+        secret: secret === undefined ? undefined : secret === "" ? "" : encryptSecret(secret),
+        contentType,
+        insecureSSL: insecureSsl,
+      });
+      if ((active === true && !webhook.active) || (url !== undefined && url !== webhook.url)) {
+        webhookModel.resetWebhookHealth(webhook.id);
+      }
+
+      const updated = webhookModel.getWebhook(webhook.id)!;
+      publishEvent("project.webhook.updated", webhookEvent(project, updated), requestEventOptions(req));
+
+      res.json(formatWebhook(updated));
     } catch (err) {
       next(err);
     }
@@ -275,8 +704,17 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, hookId } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
 
+      const webhook = findProjectWebhook(project, String(req.params.hookId));
+      if (!webhook) {
+        res.status(404).json({ error: "Webhook not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      webhookModel.deleteWebhook(webhook.id);
+      publishEvent("project.webhook.deleted", webhookEvent(project, webhook), requestEventOptions(req));
       res.json({ message: "Webhook deleted" });
     } catch (err) {
       next(err);
@@ -284,6 +722,97 @@ router.delete(
   }
 );
 
+/**
+ * POST /api/repositories/:owner/:repo/webhooks/:hookId/pings
+ * Send a ping delivery
+ */
+router.post(
+  "/:owner/:repo/webhooks/:hookId/pings",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const webhook = findProjectWebhook(project, String(req.params.hookId));
+      if (!webhook) {
+        res.status(404).json({ error: "Webhook not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const delivery = pingWebhook(project, webhook, req.user!.userId);
+      publishEvent("project.webhook.pinged", {
+        ...webhookEvent(project, webhook),
+        deliveryId: delivery.id,
+      }, requestEventOptions(req));
+
+      res.status(202).json(formatDelivery(delivery));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/repositories/:owner/:repo/webhooks/:hookId/deliveries
+ * Recent deliveries of a webhook, newest first
+ */
+router.get(
+  "/:owner/:repo/webhooks/:hookId/deliveries",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const webhook = findProjectWebhook(project, String(req.params.hookId));
+      if (!webhook) {
+        res.status(404).json({ error: "Webhook not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const deliveries = webhookModel.listDeliveries(webhook.id);
+      res.json({
+        items: deliveries.map(formatDelivery),
+        total: deliveries.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/repositories/:owner/:repo/webhooks/:hookId/deliveries/:deliveryId/redeliver
+ * Send a past delivery again
+ */
+router.post(
+  "/:owner/:repo/webhooks/:hookId/deliveries/:deliveryId/redeliver",
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const webhook = findProjectWebhook(project, String(req.params.hookId));
+      const delivery = webhook ? webhookModel.getDelivery(String(req.params.deliveryId)) : null;
+      if (!webhook || !delivery || delivery.webhookId !== webhook.id) {
+        res.status(404).json({ error: "Delivery not found", code: "NOT_FOUND" });
+        return;
+      }
+
+      const redelivery = await redeliver(delivery);
+      publishEvent("project.webhook.redelivered", {
+        ...webhookEvent(project, webhook),
+        deliveryId: redelivery!.id,
+      }, requestEventOptions(req));
+      res.status(201).json(formatDelivery(redelivery!));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * GET /api/repositories/:owner/:repo/keys
  * List deploy keys
@@ -293,11 +822,14 @@ router.get(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      const keys = deployKeyRepo.listByProject(project.id);
 
       res.json({
-        items: [],
-        total: 0
+        items: keys.map(formatDeployKey),
+        total: keys.length
       });
     } catch (err) {
       next(err);
@@ -314,23 +846,40 @@ router.post(
   requireAuth,
   validate([
     { field: "title", location: "body", required: true, type: "string", min: 1, max: 255 },
-    { field: "key", location: "body", required: true, type: "string" },
+    { field: "key", location: "body", required: true, type: "string", sanitize: false },
     { field: "readOnly", location: "body", type: "boolean" },
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
       const { title, key, readOnly = true } = req.body;
+      const fingerprint = fingerprintPublicKey(key);
+      if (!fingerprint) {
+        res.status(400).json({ error: "Key is not a valid SSH public key", code: "VALIDATION_ERROR" });
+        return;
+      }
+      if (deployKeyRepo.findByFingerprint(fingerprint) || sshKeyRepo.findByFingerprint(fingerprint)) {
+        res.status(409).json({ error: "Key is already in use", code: "CONFLICT" });
+        return;
+      }
 
-      const deployKey = {
-        id: Date.now().toString(),
+      const deployKey = deployKeyRepo.create({
+        projectId: project.id,
         title,
-        key: key.substring(0, 50) + "...",
+        key: key.trim(),
+        fingerprint,
         readOnly,
-        createdAt: new Date().toISOString()
-      };
-
-      res.status(201).json(deployKey);
+      });
+      publishEvent("project.deploy_key.added", {
+        projectId: project.id,
+        keyId: deployKey.id,
+        title: deployKey.title,
+        readOnly: deployKey.readOnly,
+      }, requestEventOptions(req));
+
+      res.status(201).json(formatDeployKey(deployKey));
     } catch (err) {
       next(err);
     }
@@ -346,7 +895,17 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { owner, repo, keyId } = req.params;
+      const project = loadProject(req, res, "admin");
+      if (!project) return;
+
+      if (!deployKeyRepo.remove(project.id, String(req.params.keyId))) {
+        res.status(404).json({ error: "Deploy key not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("project.deploy_key.removed", {
+        projectId: project.id,
+        keyId: String(req.params.keyId),
+      }, requestEventOptions(req));
 
       res.json({ message: "Deploy key deleted" });
     } catch (err) {
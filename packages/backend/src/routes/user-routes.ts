@@ -5,6 +5,7 @@ import * as userRepo from "../db/repositories/user-repo.js";
 import * as projectRepo from "../db/repositories/project-repo.js";
 import * as sessionRepo from "../db/repositories/session-repo.js";
 import * as orgRepo from "../db/repositories/org-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * User management routes.
@@ -140,6 +141,17 @@ router.patch(
                 email,
                 country,
             });
+            if (updated) {
+                const updatedFields = ["displayName", "bio", "avatarUrl", "email", "country"].filter(
+                    (field) => req.body[field] !== undefined,
+                );
+                publishEvent("user.profile.updated", {
+                    userId: targetId,
+                    updatedFields,
+                    emailChanged: email !== undefined && email !== existing.email,
+                    passwordChanged: false,
+                }, requestEventOptions(req));
+            }
 
             res.json(sanitizeUser(updated));
         } catch (err) {
@@ -182,6 +194,12 @@ router.delete(
                 res.status(500).json({ error: "Failed to delete user", code: "INTERNAL_ERROR" });
                 return;
             }
+            publishEvent("user.deleted", {
+                userId: targetId,
+                username: user.username,
+                reason: "admin_action",
+                dataPurgeAt: new Date().toISOString(),
+            }, requestEventOptions(req));
 
             res.json({ message: "User deleted successfully" });
         } catch (err) {
@@ -348,6 +366,10 @@ router.post(
 
             // Add follow relationship
             userRepo.addFollow(currentUserId, targetUser.id);
+            publishEvent("user.followed", {
+                userId: currentUserId,
+                followingId: targetUser.id,
+            }, requestEventOptions(req));
 
             res.json({ success: true, message: "User followed successfully" });
         } catch (err) {
@@ -376,6 +398,10 @@ router.delete(
 
             // Remove follow relationship
             userRepo.removeFollow(currentUserId, targetUser.id);
+            publishEvent("user.unfollowed", {
+                userId: currentUserId,
+                followingId: targetUser.id,
+            }, requestEventOptions(req));
 
             res.json({ success: true, message: "User unfollowed successfully" });
         } catch (err) {
@@ -1,12 +1,65 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import { requireAuth } from "../middleware/auth-guard.js";
 import { validate } from "../middleware/input-validator.js";
+import type { ApiTokenRecord, ApiTokenScope } from "@platform/auth";
+import * as apiTokenRepo from "../db/repositories/api-token-repo.js";
+import * as deployKeyRepo from "../db/repositories/deploy-key-repo.js";
+import * as sshKeyRepo from "../db/repositories/ssh-key-repo.js";
+import {
+  API_TOKEN_SCOPES,
+  MAX_TOKEN_LIFETIME_DAYS,
+  issueToken,
+} from "../services/api-token-service.js";
+import { fingerprintPublicKey } from "../services/repository-permission-service.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 
 /**
  * User settings and preferences routes
  */
 const router = Router();
 
+function formatSshKey(key: sshKeyRepo.UserSshKey) {
+  return {
+    id: key.id,
+    title: key.title,
+    key: key.key,
+    fingerprint: key.fingerprint,
+    created_at: key.createdAt,
+    last_used: key.lastUsed ?? null,
+  };
+}
+
+function formatToken(token: ApiTokenRecord) {
+  const toIso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+  return {
+    id: token.id,
+    name: token.name,
+    token_prefix: token.tokenPrefix,
+    scopes: token.scopes,
+    created_at: toIso(token.createdAt),
+    expires_at: toIso(token.expiresAt),
+    last_used_at: toIso(token.lastUsedAt),
+    expired: token.expiresAt !== null && token.expiresAt <= Date.now(),
+    revoked: token.revoked,
+    revoked_at: toIso(token.revokedAt),
+  };
+}
+
+/**
+ * Token management needs a signed-in session; a token cannot mint or
+ * revoke tokens.
+ */
+function requireSessionAuth(req: Request, res: Response, next: NextFunction): void {
+  if (req.user?.tokenScopes) {
+    res.status(403).json({
+      error: "Personal access tokens cannot be used to manage tokens",
+      code: "TOKEN_NOT_ACCEPTED",
+    });
+    return;
+  }
+  next();
+}
+
 /**
  * GET /api/user/settings
  * Get user settings
@@ -149,9 +202,9 @@ router.get(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const keys: any[] = [];
+      const keys = sshKeyRepo.listByUser(req.user!.userId);
 
-      res.json(keys);
+      res.json(keys.map(formatSshKey));
     } catch (err) {
       next(err);
     }
@@ -167,20 +220,34 @@ router.post(
   requireAuth,
   validate([
     { field: "title", location: "body", required: true, type: "string", min: 1, max: 255 },
-    { field: "key", location: "body", required: true, type: "string" }
+    { field: "key", location: "body", required: true, type: "string", sanitize: false }
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { title, key } = req.body;
+      const fingerprint = fingerprintPublicKey(key);
+      if (!fingerprint) {
+        res.status(400).json({ error: "Key is not a valid SSH public key", code: "VALIDATION_ERROR" });
+        return;
+      }
+      if (sshKeyRepo.findByFingerprint(fingerprint) || deployKeyRepo.findByFingerprint(fingerprint)) {
+        res.status(409).json({ error: "Key is already in use", code: "CONFLICT" });
+        return;
+      }
 
-      const sshKey = {
-        id: Date.now().toString(),
+      const sshKey = sshKeyRepo.create({
+        userId: req.user!.userId,
         title,
-        key: key.substring(0, 50) + "...",
-        created_at: new Date().toISOString()
-      };
+        key: key.trim(),
+        fingerprint,
+      });
+      publishEvent("user.ssh_key.added", {
+        userId: req.user!.userId,
+        credentialId: sshKey.id,
+        name: sshKey.title,
+      }, requestEventOptions(req));
 
-      res.status(201).json(sshKey);
+      res.status(201).json(formatSshKey(sshKey));
     } catch (err) {
       next(err);
     }
@@ -196,6 +263,15 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (!sshKeyRepo.remove(req.user!.userId, String(req.params.keyId))) {
+        res.status(404).json({ error: "SSH key not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("user.ssh_key.removed", {
+        userId: req.user!.userId,
+        credentialId: String(req.params.keyId),
+      }, requestEventOptions(req));
+
       res.status(204).send();
     } catch (err) {
       next(err);
@@ -247,6 +323,101 @@ router.post(
   }
 );
 
+/**
+ * GET /api/user/tokens
+ * List personal access tokens, including expired and revoked ones
+ */
+router.get(
+  "/tokens",
+  requireAuth,
+  requireSessionAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tokens = apiTokenRepo.listByUser(req.user!.userId);
+
+      res.json({ tokens: tokens.map(formatToken), available_scopes: API_TOKEN_SCOPES });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/user/tokens
+ * Create a personal access token. The token itself is only returned once.
+ */
+router.post(
+  "/tokens",
+  requireAuth,
+  requireSessionAuth,
+  validate([
+    { field: "name", location: "body", required: true, type: "string", min: 1, max: 100 },
+    { field: "scopes", location: "body", required: true, type: "object" },
+    { field: "expires_in_days", location: "body", type: "number", min: 1, max: MAX_TOKEN_LIFETIME_DAYS },
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, scopes, expires_in_days } = req.body;
+
+      if (
+        !Array.isArray(scopes)
+        || scopes.length === 0
+        || !scopes.every((scope) => API_TOKEN_SCOPES.includes(scope))
+      ) {
+        res.status(400).json({
+          error: `scopes must be a non-empty list of: ${API_TOKEN_SCOPES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+        return;
+      }
+
+      if ((scopes as ApiTokenScope[]).includes("admin:all") && req.user!.role !== "admin") {
+        res.status(403).json({ error: "Only administrators can create admin:all tokens", code: "FORBIDDEN" });
+        return;
+      }
+
+      const { plainToken, record } = issueToken(req.user!.userId, name, scopes, expires_in_days);
+      publishEvent("user.token.created", {
+        userId: req.user!.userId,
+        credentialId: record.id,
+        name: record.name,
+      }, requestEventOptions(req));
+
+      res.status(201).json({ ...formatToken(record), token: plainToken });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/user/tokens/:tokenId
+ * Revoke a personal access token
+ */
+router.delete(
+  "/tokens/:tokenId",
+  requireAuth,
+  requireSessionAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = apiTokenRepo.revoke(req.user!.userId, String(req.params.tokenId));
+      if (!token) {
+        res.status(404).json({ error: "Token not found", code: "NOT_FOUND" });
+        return;
+      }
+      publishEvent("user.token.revoked", {
+        userId: req.user!.userId,
+        credentialId: token.id,
+        name: token.name,
+      }, requestEventOptions(req));
+
+      res.json(formatToken(token));
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * GET /api/user/starred
  * List starred repositories
@@ -1,6 +1,28 @@
 import { Router, type Request, type Response } from "express";
-import { requireAuth } from "../middleware/auth-guard.js";
-import { scheduleJob, getUserLimits, getClusterStats } from "../services/cluster-scheduler.js";
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { compileWorkflow, type CompiledWorkflow } from "@platform/cluster";
+import { requireAuth, requireClusterToken } from "../middleware/auth-guard.js";
+import { getUserLimits, getClusterStats } from "../services/cluster-scheduler.js";
+import {
+  appendWorkflowLog,
+  completeWorkflowJob,
+  getWorkflowRun,
+  listWorkflowRuns,
+  startWorkflowRun,
+} from "../services/workflow-orchestrator.js";
+import { deleteJobLogs, parseLogLines, readJobLog } from "../services/workflow-log-store.js";
+import {
+  archivePath,
+  parseRetentionDays,
+  restoreCache,
+  storeArtifact,
+  storeCache,
+} from "../services/workflow-storage-service.js";
+import * as workflowArtifactRepo from "../db/repositories/workflow-artifact-repo.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import { publishEvent, requestEventOptions } from "../services/event-bus.js";
 import { 
   scheduleWorkflow, 
   unscheduleWorkflow, 
@@ -16,52 +38,64 @@ const router = Router();
 /**
  * POST /api/v1/workflows/execute
  * 
- * Execute a workflow on appropriate cluster
- * The cluster will compile and run the workflow
+ * Compile a workflow and run its jobs, each on an appropriate cluster
  */
 router.post("/execute", requireAuth, async (req: Request, res: Response) => {
   try {
-    const { yaml, repositoryId, workflowId, repositoryUrl, branch } = req.body;
+    const { yaml, repositoryId, workflowId, repositoryUrl, branch, name, pullRequestId } = req.body;
     
     if (!yaml || !repositoryId) {
       res.status(400).json({ error: "YAML and repositoryId are required" });
       return;
     }
     
+    if (!projectRepo.findById(repositoryId)) {
+      res.status(404).json({ error: "Repository not found" });
+      return;
+    }
+    if (workflowId && workflowRunRepo.findRunById(workflowId)) {
+      res.status(409).json({ error: `Workflow run ${workflowId} already exists` });
+      return;
+    }
+
     const user = req.user!;
     const userTier = user.tier || "free";
     const limits = getUserLimits(userTier);
-    
-    // Schedule for execution (cluster will compile)
-    const result = await scheduleJob(
-      {
-        workflowId: workflowId || `workflow-${Date.now()}`,
-        repositoryId,
-        userId: user.id,
-        yaml, // Send raw YAML to cluster
-        repositoryUrl: repositoryUrl || "",
-        branch: branch || "main",
-        userLimits: {
-          cores: limits.maxCores,
-          memoryGB: limits.maxMemoryGB,
-        },
-        env: {},
-      },
-      userTier
-    );
-    
-    if (!result.success) {
+    const runId = workflowId || `workflow-${randomUUID()}`;
+
+    let workflow: CompiledWorkflow;
+    try {
+      workflow = compileWorkflow(yaml, { cores: limits.maxCores, memoryGB: limits.maxMemoryGB });
+    } catch (error: any) {
       res.status(400).json({
-        error: result.message,
+        error: error.message,
       });
       return;
     }
+
+    // Jobs are scheduled one by one as the jobs they need finish
+    const run = startWorkflowRun(workflow, {
+      workflowId: runId,
+      name,
+      repositoryId,
+      userId: user.id,
+      userTier,
+      repositoryUrl: repositoryUrl || "",
+      branch: branch || "main",
+      pullRequestId,
+      event: "workflow_dispatch",
+    });
+    publishEvent("workflow_run.requested", {
+      repositoryId,
+      runId: run.workflowId,
+      workflowName: run.name,
+    }, requestEventOptions(req));
     
     res.json({
       success: true,
-      message: result.message,
-      clusterId: result.clusterId,
-      workflowId,
+      message: `Workflow started with ${run.jobs.length} job(s)`,
+      workflowId: runId,
+      jobs: run.jobs.map((job) => ({ id: job.id, name: job.name, needs: job.needs })),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -188,6 +222,7 @@ router.post("/schedule", requireAuth, (req: Request, res: Response) => {
     });
     return;
   }
+  publishEvent("workflow.schedule.created", { repositoryId, workflowPath }, requestEventOptions(req));
   
   res.json({
     success: true,
@@ -213,6 +248,9 @@ router.delete("/schedule", requireAuth, (req: Request, res: Response) => {
   }
   
   const unscheduled = unscheduleWorkflow(repositoryId, workflowPath, cronExpression);
+  if (unscheduled > 0) {
+    publishEvent("workflow.schedule.deleted", { repositoryId, workflowPath }, requestEventOptions(req));
+  }
   
   res.json({
     success: true,
@@ -282,6 +320,11 @@ router.patch("/schedule/toggle", requireAuth, (req: Request, res: Response) => {
     });
     return;
   }
+  publishEvent("workflow.schedule.toggled", {
+    repositoryId,
+    workflowPath,
+    enabled: Boolean(enabled),
+  }, requestEventOptions(req));
   
   res.json({
     success: true,
@@ -327,8 +370,223 @@ router.post("/cron/describe", (req: Request, res: Response) => {
   });
 });
 
-// In-memory log storage (in production, use database or Redis)
-const workflowLogs: Map<string, Array<{ timestamp: string; log: string; level: string }>> = new Map();
+/**
+ * POST /api/v1/workflows/status
+ * 
+ * Receive the result of a finished job from cluster
+ * This endpoint is called by the cluster once a job stops running
+ */
+router.post("/status", requireClusterToken, (req: Request, res: Response) => {
+  const { workflowId, jobId, status, stepOutputs, error } = req.body;
+
+  if (!workflowId || !jobId || !status) {
+    res.status(400).json({ error: "workflowId, jobId and status are required" });
+    return;
+  }
+
+  if (!completeWorkflowJob(workflowId, jobId, { status, stepOutputs: stepOutputs ?? {}, error })) {
+    res.status(404).json({ error: "Workflow job not found" });
+    return;
+  }
+  const run = workflowRunRepo.findRunById(workflowId);
+  if (run) {
+    publishEvent("workflow_job.completed", {
+      repositoryId: run.projectId,
+      runId: run.id,
+      jobId,
+      status,
+    }, requestEventOptions(req));
+  }
+
+  res.json({ success: true });
+});
+
+/**
+ * GET /api/v1/workflows/runs
+ * 
+ * List workflow runs started by the current user (optionally filtered by repository)
+ */
+router.get("/runs", requireAuth, (req: Request, res: Response) => {
+  const { repositoryId } = req.query;
+
+  const runs = listWorkflowRuns({
+    userId: req.user!.id,
+    repositoryId: repositoryId ? String(repositoryId) : undefined,
+  });
+
+  res.json({
+    success: true,
+    count: runs.length,
+    runs,
+  });
+});
+
+/**
+ * GET /api/v1/workflows/runs/:workflowId
+ * 
+ * Get a workflow run with the status of each job
+ */
+router.get("/runs/:workflowId", requireAuth, (req: Request, res: Response) => {
+  const run = getWorkflowRun(String(req.params.workflowId));
+
+  if (!run || run.userId !== req.user!.id) {
+    res.status(404).json({ error: "Workflow run not found" });
+    return;
+  }
+
+  res.json({
+    success: true,
+    run,
+  });
+});
+
+/**
+ * Resolve the run and job a cluster names in an artifact or cache
+ * request. Only jobs that are running may use them.
+ */
+function loadRunningJob(req: Request, res: Response) {
+  const run = workflowRunRepo.findRunById(String(req.params.workflowId));
+  const job = run ? workflowRunRepo.findJobByKey(run.id, String(req.params.jobId)) : null;
+  if (!run || !job || job.status !== "in_progress") {
+    res.status(404).json({ error: "Running workflow job not found" });
+    return null;
+  }
+  return { run, job };
+}
+
+function sendArchive(res: Response, path: string, size: number): void {
+  res.setHeader("Content-Type", "application/gzip");
+  res.setHeader("Content-Length", String(size));
+  createReadStream(path).on("error", () => res.destroy()).pipe(res);
+}
+
+/**
+ * PUT /api/v1/workflows/artifacts/:workflowId/:jobId/:name
+ * 
+ * Store an artifact a running job uploaded as a gzipped tar archive
+ * This endpoint is called by the cluster for the upload-artifact action
+ */
+router.put("/artifacts/:workflowId/:jobId/:name", requireClusterToken, async (req: Request, res: Response) => {
+  try {
+    const loaded = loadRunningJob(req, res);
+    if (!loaded) return;
+
+    const retentionDays = parseRetentionDays(req.query.retentionDays);
+    if (retentionDays === null) {
+      res.status(400).json({ error: "retention-days must be a whole number of days from 1 to 90" });
+      return;
+    }
+
+    let artifact: workflowArtifactRepo.WorkflowArtifact;
+    try {
+      artifact = await storeArtifact(loaded.run, loaded.job, String(req.params.name), req, retentionDays);
+    } catch (error: any) {
+      res.status(422).json({ error: error.message });
+      return;
+    }
+
+    publishEvent("workflow_run.artifact.uploaded", {
+      repositoryId: loaded.run.projectId,
+      id: artifact.id,
+      name: artifact.name,
+      sizeBytes: artifact.sizeBytes,
+      runId: loaded.run.id,
+    }, requestEventOptions(req));
+
+    res.status(201).json({ success: true, id: artifact.id, size: artifact.sizeBytes });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/v1/workflows/artifacts/:workflowId/:jobId/:name
+ * 
+ * Download an artifact uploaded earlier in a running job's run
+ */
+router.get("/artifacts/:workflowId/:jobId/:name", requireClusterToken, (req: Request, res: Response) => {
+  const loaded = loadRunningJob(req, res);
+  if (!loaded) return;
+
+  const artifact = workflowArtifactRepo.findArtifactByName(loaded.run.id, String(req.params.name));
+  if (!artifact) {
+    res.status(404).json({ error: "Artifact not found" });
+    return;
+  }
+
+  sendArchive(res, archivePath("artifacts", artifact.id), artifact.sizeBytes);
+});
+
+/**
+ * GET /api/v1/workflows/caches/:workflowId/:jobId?key=&restoreKey=
+ * 
+ * Restore the cache matching a key or restore keys for a running job,
+ * named in `X-Cache-Key`; 204 when there is none
+ */
+router.get("/caches/:workflowId/:jobId", requireClusterToken, (req: Request, res: Response) => {
+  const loaded = loadRunningJob(req, res);
+  if (!loaded) return;
+
+  const key = typeof req.query.key === "string" ? req.query.key : "";
+  if (!key) {
+    res.status(400).json({ error: "key is required" });
+    return;
+  }
+  const restoreKeys = ([] as unknown[]).concat(req.query.restoreKey ?? []).map(String).filter(Boolean);
+
+  const project = projectRepo.findById(loaded.run.projectId);
+  const restored = project ? restoreCache(project, loaded.run.headBranch, key, restoreKeys) : null;
+  if (!restored) {
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("X-Cache-Key", restored.cache.key);
+  sendArchive(res, archivePath("caches", restored.cache.id), restored.cache.sizeBytes);
+});
+
+/**
+ * PUT /api/v1/workflows/caches/:workflowId/:jobId?key=
+ * 
+ * Save a cache a running job uploaded for its branch
+ */
+router.put("/caches/:workflowId/:jobId", requireClusterToken, async (req: Request, res: Response) => {
+  try {
+    const loaded = loadRunningJob(req, res);
+    if (!loaded) return;
+
+    const key = typeof req.query.key === "string" ? req.query.key : "";
+    const project = projectRepo.findById(loaded.run.projectId);
+    if (!key || !project) {
+      res.status(400).json({ error: "key is required" });
+      return;
+    }
+
+    let cache: workflowArtifactRepo.WorkflowCache | null;
+    try {
+      cache = await storeCache(project, loaded.run.headBranch, key, req);
+    } catch (error: any) {
+      res.status(422).json({ error: error.message });
+      return;
+    }
+    if (!cache) {
+      res.status(409).json({ error: `A cache with key "${key}" already exists` });
+      return;
+    }
+
+    publishEvent("actions.cache.saved", {
+      repositoryId: project.id,
+      id: cache.id,
+      name: cache.key,
+      sizeBytes: cache.sizeBytes,
+      runId: loaded.run.id,
+    }, requestEventOptions(req));
+
+    res.status(201).json({ success: true, id: cache.id, size: cache.sizeBytes });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
 /**
  * POST /api/v1/workflows/logs
@@ -336,30 +594,23 @@ const workflowLogs: Map<string, Array<{ timestamp: string; log: string; level: s
  * Receive streamed logs from cluster
  * This endpoint is called by the cluster during workflow execution
  */
-router.post("/logs", async (req: Request, res: Response) => {
+router.post("/logs", requireClusterToken, async (req: Request, res: Response) => {
   try {
-    const { workflowId, log, level = "info", timestamp } = req.body;
+    const { workflowId, jobId, log, level = "info", timestamp } = req.body;
     
-    if (!workflowId || !log) {
-      res.status(400).json({ error: "workflowId and log are required" });
+    if (!workflowId || !jobId || typeof log !== "string") {
+      res.status(400).json({ error: "workflowId, jobId and log are required" });
       return;
     }
     
-    // Store log in memory (or database)
-    if (!workflowLogs.has(workflowId)) {
-      workflowLogs.set(workflowId, []);
-    }
-    
-    workflowLogs.get(workflowId)!.push({
+    const appended = appendWorkflowLog(workflowId, jobId, {
       timestamp: timestamp || new Date().toISOString(),
       log,
-      level,
+      level: level === "error" ? "error" : "info",
     });
-    
-    // Keep only last 10000 lines per workflow to prevent memory issues
-    const logs = workflowLogs.get(workflowId)!;
-    if (logs.length > 10000) {
-      workflowLogs.set(workflowId, logs.slice(-10000));
+    if (!appended) {
+      res.status(404).json({ error: "Workflow job not found" });
+      return;
     }
     
     res.json({ success: true });
@@ -374,16 +625,23 @@ router.post("/logs", async (req: Request, res: Response) => {
  * Get logs for a specific workflow
  */
 router.get("/logs/:workflowId", requireAuth, (req: Request, res: Response) => {
-  const { workflowId } = req.params;
-  const { tail } = req.query; // Optional: get last N lines
+  const workflowId = String(req.params.workflowId);
+  const { tail, job } = req.query; // Optional: get last N lines of one job
   
-  const logs = workflowLogs.get(Array.isArray(workflowId) ? workflowId[0] : workflowId) || [];
+  const run = workflowRunRepo.findRunById(workflowId);
+  if (!run || run.actorId !== req.user!.id) {
+    res.status(404).json({ error: "Workflow run not found" });
+    return;
+  }
   
-  let filteredLogs = logs;
+  let filteredLogs = workflowRunRepo
+    .listJobs(run.id)
+    .filter((entry) => !job || entry.key === String(job))
+    .flatMap((entry) => parseLogLines(readJobLog(entry.id).content).map((line) => ({ ...line, jobId: entry.key })));
   if (tail) {
     const tailCount = parseInt(String(tail), 10);
     if (!isNaN(tailCount) && tailCount > 0) {
-      filteredLogs = logs.slice(-tailCount);
+      filteredLogs = filteredLogs.slice(-tailCount);
     }
   }
   
@@ -401,15 +659,22 @@ router.get("/logs/:workflowId", requireAuth, (req: Request, res: Response) => {
  * Clear logs for a specific workflow
  */
 router.delete("/logs/:workflowId", requireAuth, (req: Request, res: Response) => {
-  const { workflowId } = req.params;
-  const workflowIdStr = Array.isArray(workflowId) ? workflowId[0] : workflowId;
+  const run = workflowRunRepo.findRunById(String(req.params.workflowId));
+  if (!run || run.actorId !== req.user!.id) {
+    res.status(404).json({ error: "Workflow run not found" });
+    return;
+  }
   
-  const existed = workflowLogs.has(workflowIdStr);
-  workflowLogs.delete(workflowIdStr);
+  deleteJobLogs(workflowRunRepo.listJobs(run.id).map((job) => job.id));
+  publishEvent("workflow_run.logs_deleted", {
+    repositoryId: run.projectId,
+    runId: run.id,
+    workflowName: run.name,
+  }, requestEventOptions(req));
   
   res.json({
     success: true,
-    message: existed ? "Logs cleared" : "No logs found",
+    message: "Logs cleared",
   });
 });
 
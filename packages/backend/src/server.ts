@@ -16,6 +16,7 @@ import { requestLogger } from "./middleware/request-logger.js";
 import { notFoundHandler, globalErrorHandler } from "./middleware/error-handler.js";
 import { createNodeForwardingMiddleware } from "./middleware/node-forwarding.js";
 import { orchestrationMiddleware } from "./middleware/orchestration.js";
+import { requireTokenScope } from "./middleware/auth-guard.js";
 
 /* ── Routes ──────────────────────────────────────────────── */
 import authRoutes from "./routes/auth-routes.js";
@@ -29,6 +30,8 @@ import adminRoutes from "./routes/admin-routes.js";
 import moderationRoutes from "./routes/moderation-routes.js";
 import searchRoutes from "./routes/search-routes.js";
 import gitRoutes from "./routes/git-routes.js";
+import lfsRoutes from "./routes/lfs-routes.js";
+import mirrorRoutes from "./routes/mirror-routes.js";
 import aiRoutes from "./routes/ai-routes.js";
 import healthRoutes from "./routes/health-routes.js";
 import repositoryRoutes from "./routes/repository-routes.js";
@@ -134,6 +137,17 @@ export function createServer(): { app: express.Express; start: () => Server } {
             environment: config.nodeEnv,
         });
     });
+    /* ── Personal access token scopes per route group ─────────── */
+    app.use("/api/v1/users", requireTokenScope("user"));
+    app.use("/api/v1/user", requireTokenScope("user"));
+    app.use("/api/v1/workflows", requireTokenScope("pipelines"));
+    app.use("/api/v1/projects", requireTokenScope("repos"));
+    app.use("/api/v1/orgs", requireTokenScope("orgs"));
+    app.use("/api/v1/organizations", requireTokenScope("orgs"));
+    app.use("/api/v1/clusters", requireTokenScope("clusters"));
+    app.use("/api/v1/admin", requireTokenScope("admin"));
+    app.use("/api/v1/repositories", requireTokenScope("repos"));
+
     /* ── Mount route groups ─────────────────────────────────── */
     app.use("/api/v1/auth", authRoutes);
     app.use("/api/v1/users", userRoutes);
@@ -163,7 +177,9 @@ export function createServer(): { app: express.Express; start: () => Server } {
     app.use("/api/v1/repositories", wikiRoutes);
     app.use("/api/v1/repositories", insightsRoutes);
     app.use("/api/v1/repositories", securityRoutes);
+    app.use("/api/v1/repositories", mirrorRoutes);
     app.use("/api/v1/repositories", editorTerminalRoutes);
+    app.use("/", lfsRoutes);
     app.use("/", gitRoutes);
 
     /* ── Serve frontend (React SPA) ─────────────────────────── */
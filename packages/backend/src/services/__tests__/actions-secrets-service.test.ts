@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Project } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject, deleteProject } from "../../db/repositories/project-repo.js";
+import { createOrg } from "../../db/repositories/org-repo.js";
+import * as actionsSecretRepo from "../../db/repositories/actions-secret-repo.js";
+import { upsertDefinition } from "../../db/repositories/workflow-run-repo.js";
+import { maskSecrets, normalizeName, resolveSecrets, resolveVariables, storeSecret } from "../actions-secrets-service.js";
+
+describe("actions-secrets-service", () => {
+  let tempDir: string;
+  let userId: string;
+  let project: Project;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("actions-secrets-test-");
+
+    userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    const orgId = createOrg({ name: "Acme", slug: "acme", ownerId: userId }).id;
+    project = createProject({ name: "demo", slug: "demo", ownerId: userId, orgId, storagePath: `repos/${userId}/demo` });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("resolves the narrowest definition of each name and keeps secrets encrypted at rest", () => {
+    const definition = upsertDefinition(project.id, ".gittic/workflows/deploy.yml", "Deploy");
+    const org = { scope: "organization" as const, scopeId: project.orgId! };
+    const repo = { scope: "project" as const, scopeId: project.id };
+    const workflow = { scope: "pipeline" as const, scopeId: definition.id };
+
+    storeSecret(org, "NPM_TOKEN", "org-token", userId);
+    storeSecret(org, "SLACK_URL", "https://hooks.example.com/a", userId);
+    expect(storeSecret(repo, "NPM_TOKEN", "repo-token", userId)).toBe(true);
+    expect(storeSecret(repo, "NPM_TOKEN", "repo-token-2", userId)).toBe(false);
+    storeSecret(workflow, "DEPLOY_KEY", "deploy-key", userId);
+    actionsSecretRepo.setVariable(org, "REGION", "eu", userId);
+    actionsSecretRepo.setVariable(workflow, "REGION", "us", userId);
+
+    const stored = getDb().prepare("SELECT value FROM actions_secrets").all() as Array<{ value: string }>;
+    expect(stored.some((row) => row.value.includes("token"))).toBe(false);
+
+    expect(resolveSecrets({ project })).toEqual({ NPM_TOKEN: "repo-token-2", SLACK_URL: "https://hooks.example.com/a" });
+    expect(resolveSecrets({ project, definitionId: definition.id })).toMatchObject({ DEPLOY_KEY: "deploy-key" });
+    expect(resolveVariables({ project, definitionId: definition.id })).toEqual([
+      {
+        key: "REGION",
+        value: "us",
+        valueType: "string",
+        resolvedFromScope: "pipeline",
+        resolvedFromScopeId: definition.id,
+        isOverridden: true,
+      },
+    ]);
+
+    deleteProject(project.id);
+    expect(actionsSecretRepo.listSecrets(repo)).toEqual([]);
+    expect(actionsSecretRepo.listSecrets(org)).toHaveLength(2);
+  });
+
+  it("normalises names and masks every line of secret values", () => {
+    expect(normalizeName("npm_token")).toBe("NPM_TOKEN");
+    expect(normalizeName("1TOKEN")).toBeNull();
+    expect(normalizeName("GITTIC_TOKEN")).toBeNull();
+    expect(normalizeName("MY-TOKEN")).toBeNull();
+
+    expect(maskSecrets("login hunter2 as hunter2", ["hunter2"])).toBe("login *** as ***");
+    expect(maskSecrets("-----BEGIN KEY-----\nabc", ["-----BEGIN KEY-----\nabc\n-----END KEY-----"])).toBe("***\n***");
+    expect(maskSecrets("key: abc", ["-----BEGIN KEY-----\nabc\n-----END KEY-----"])).toBe("key: ***");
+  });
+});
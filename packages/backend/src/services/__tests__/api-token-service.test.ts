@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import * as apiTokenRepo from "../../db/repositories/api-token-repo.js";
+import { authenticateApiToken, hasScope, issueToken, requiredScope } from "../api-token-service.js";
+
+describe("api-token-service", () => {
+  let tempDir: string;
+  let userId: string;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("api-token-test-");
+
+    userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("stores only the hash and authenticates the plain token until it is revoked", () => {
+    const { plainToken, record } = issueToken(userId, "ci", ["read:repos"]);
+
+    const stored = getDb().prepare("SELECT token_hash FROM api_tokens WHERE id = ?").get(record.id) as {
+      token_hash: string;
+    };
+    expect(stored.token_hash).not.toContain(plainToken);
+    expect(record.tokenPrefix).toBe(plainToken.slice(0, record.tokenPrefix.length));
+
+    const auth = authenticateApiToken(plainToken);
+    expect(auth?.user.username).toBe("alice");
+    expect(apiTokenRepo.findById(record.id)?.lastUsedAt).not.toBeNull();
+
+    expect(apiTokenRepo.revoke(userId, record.id)?.revoked).toBe(true);
+    expect(authenticateApiToken(plainToken)).toBeNull();
+  });
+
+  it("rejects expired tokens", () => {
+    const { plainToken, record } = issueToken(userId, "old", ["read:repos"], 30);
+    getDb()
+      .prepare("UPDATE api_tokens SET expires_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 1000).toISOString(), record.id);
+
+    expect(authenticateApiToken(plainToken)).toBeNull();
+  });
+
+  it("derives the required scope from the request and lets write imply read", () => {
+    expect(requiredScope("repos", "GET", "/alice/demo")).toBe("read:repos");
+    expect(requiredScope("repos", "POST", "/alice/demo/issues")).toBe("write:repos");
+    expect(requiredScope("repos", "DELETE", "/alice/demo/branches/main")).toBe("write:repos");
+    expect(requiredScope("repos", "DELETE", "/alice/demo")).toBe("delete:repos");
+    expect(requiredScope("admin", "GET", "/users")).toBe("admin:all");
+
+    expect(hasScope(["write:repos"], "read:repos")).toBe(true);
+    expect(hasScope(["read:repos"], "write:repos")).toBe(false);
+    expect(hasScope(["admin:all"], "delete:repos")).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createOrg } from "../../db/repositories/org-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import { createRule } from "../../db/repositories/branch-protection-repo.js";
+import { checkBranchDeletion, checkBranchUpdate, resolveBranchProtection } from "../branch-protection-service.js";
+import { createPushHooks } from "../push-policy-service.js";
+
+const ZERO_SHA = "0".repeat(40);
+
+describe("branch-protection-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let bob: User;
+  let carol: User;
+  let dave: User;
+  let project: Project;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", project.storagePath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("branch-protection-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    bob = createUser({ username: "bob", email: "bob@example.com", passwordHash: "x" });
+    carol = createUser({ username: "carol", email: "carol@example.com", passwordHash: "x" });
+    dave = createUser({ username: "dave", email: "dave@example.com", passwordHash: "x" });
+    const org = createOrg({ name: "Acme", slug: "acme", ownerId: alice.id });
+    const storagePath = join(tempDir, "app");
+    mkdirSync(storagePath);
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, orgId: org.id, storagePath });
+
+    createRule({ scope: "project", scopeId: project.id }, "main", { requirePullRequest: true });
+    createRule({ scope: "project", scopeId: project.id }, "release/**", {
+      requirePullRequest: false,
+      requiredApprovingReviewCount: 1,
+      requireStatusChecks: true,
+      requiredStatusChecks: ["build"],
+    });
+    createRule({ scope: "organization", scopeId: org.id }, "release/*", {
+      requirePullRequest: false,
+      requiredApprovingReviewCount: 2,
+      requireStatusChecks: true,
+      requiredStatusChecks: ["test"],
+      restrictPushes: true,
+      pushAllowances: [carol.id],
+      bypassActors: [bob.id],
+    });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("combines the repository and organization rules matching a branch", () => {
+    expect(resolveBranchProtection(project, "release/1.0")).toMatchObject({
+      patterns: ["release/**", "release/*"],
+      requiredApprovingReviewCount: 2,
+      requiredStatusChecks: ["build", "test"],
+      restrictPushes: true,
+      pushAllowances: [carol.id],
+      allowDeletions: false,
+    });
+    expect(resolveBranchProtection(project, "release/1.0/hotfix").patterns).toEqual(["release/**"]);
+    expect(resolveBranchProtection(project, "feature").patterns).toEqual([]);
+
+    // Bob is on the organization rule's bypass list
+    expect(resolveBranchProtection(project, "release/1.0", { userId: bob.id, role: "user" })).toMatchObject({
+      patterns: ["release/**"],
+      requiredApprovingReviewCount: 1,
+      restrictPushes: false,
+    });
+  });
+
+  it("checks each pushed branch against the rules matching it", async () => {
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(project.storagePath, "app.ts"), "one\n");
+    git("add", "-A");
+    git("commit", "-qm", "initial");
+    const first = git("rev-parse", "HEAD");
+    writeFileSync(join(project.storagePath, "app.ts"), "two\n");
+    git("commit", "-qam", "second");
+    const second = git("rev-parse", "HEAD");
+    git("checkout", "-qb", "topic", first);
+    writeFileSync(join(project.storagePath, "app.ts"), "three\n");
+    git("commit", "-qam", "diverge");
+    const diverged = git("rev-parse", "HEAD");
+
+    const hooks = createPushHooks(project, { userId: dave.id, role: "user" });
+    const results = await hooks.preReceive!(project.storagePath, [
+      { oldSha: second, newSha: diverged, refName: "refs/heads/main" },
+      { oldSha: ZERO_SHA, newSha: second, refName: "refs/heads/release/1.0" },
+      { oldSha: ZERO_SHA, newSha: diverged, refName: "refs/heads/scratch" },
+    ], {});
+
+    expect(results.map((result) => [result.allowed, result.rejectionReason])).toEqual([
+      [false, "Force push not allowed on protected branch: refs/heads/main"],
+      [false, "You are not allowed to push to protected branch: refs/heads/release/1.0"],
+      [true, undefined],
+    ]);
+
+    const allowed = await createPushHooks(project, { userId: carol.id, role: "user" }).preReceive!(project.storagePath, [
+      { oldSha: ZERO_SHA, newSha: second, refName: "refs/heads/release/1.0" },
+    ], {});
+    expect(allowed[0].allowed).toBe(true);
+  });
+
+  it("applies to changes made in the browser", () => {
+    expect(checkBranchUpdate(project, "main", { userId: bob.id, role: "user" }))
+      .toBe("Protected branch main can only be updated through a pull request");
+    expect(checkBranchUpdate(project, "main", { userId: alice.id, role: "user" })).toBeNull();
+    expect(checkBranchUpdate(project, "feature", { userId: bob.id, role: "user" })).toBeNull();
+
+    expect(checkBranchDeletion(project, "release/1.0", { userId: bob.id, role: "user" }))
+      .toBe("Cannot delete protected branch release/1.0");
+    expect(checkBranchDeletion(project, "release/1.0", { userId: dave.id, role: "user" }))
+      .toBe("You are not allowed to push to protected branch release/1.0");
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createOrg } from "../../db/repositories/org-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import { loadCodeowners, requestCodeOwnerReviews, reviewCodeOwners } from "../codeowners-service.js";
+
+describe("codeowners-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let bob: User;
+  let carol: User;
+  let dave: User;
+  let project: Project;
+  let pr: prRepo.PullRequest;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", project.storagePath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  const write = (filePath: string, content: string) => {
+    mkdirSync(join(project.storagePath, filePath, ".."), { recursive: true });
+    writeFileSync(join(project.storagePath, filePath), content);
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("codeowners-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    bob = createUser({ username: "bob", email: "bob@example.com", passwordHash: "x" });
+    carol = createUser({ username: "carol", email: "carol@example.com", passwordHash: "x" });
+    dave = createUser({ username: "dave", email: "dave@example.com", passwordHash: "x" });
+    const org = createOrg({ name: "Acme", slug: "acme", ownerId: alice.id });
+    getDb().prepare("INSERT INTO teams (id, org_id, name, slug) VALUES ('t1', ?, 'Core', 'core')").run(org.id);
+    getDb().prepare("INSERT INTO team_members (team_id, user_id) VALUES ('t1', ?)").run(carol.id);
+
+    const storagePath = join(tempDir, "app");
+    mkdirSync(storagePath);
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, orgId: org.id, storagePath });
+
+    git("init", "-q", "-b", "main");
+    write(".gittic/CODEOWNERS", "* @alice\n/src/ @bob @acme/core\n/docs/ @ghost\n!/vendor/ @bob\n");
+    write("README.md", "app\n");
+    git("add", "-A");
+    git("commit", "-qm", "initial");
+    git("checkout", "-qb", "feature");
+    write("README.md", "app!\n");
+    write("docs/guide.md", "guide\n");
+    write("src/app.ts", "app\n");
+    git("add", "-A");
+    git("commit", "-qm", "feature");
+
+    // Pull requests still reference the repositories table
+    getDb()
+      .prepare("INSERT INTO repositories (id, name, slug, owner_id, storage_path) VALUES (?, ?, ?, ?, ?)")
+      .run(project.id, "app", "app", alice.id, storagePath);
+    pr = prRepo.create({ repositoryId: project.id, title: "Feature", baseBranch: "main", headBranch: "feature", authorId: dave.id });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("resolves owners to users and team members, reporting lines it cannot use", async () => {
+    const codeowners = await loadCodeowners(project, "refs/heads/main");
+
+    expect(codeowners.path).toBe(".gittic/CODEOWNERS");
+    expect(codeowners.rules.map((rule) => [rule.pattern, rule.ownerIds])).toEqual([
+      ["*", [alice.id]],
+      ["/src/", [bob.id, carol.id]],
+      ["/docs/", []],
+    ]);
+    expect(codeowners.errors).toEqual([
+      { line: 3, message: 'Unknown owner "@ghost"' },
+      { line: 4, message: 'Negated pattern "!/vendor/" is not supported' },
+    ]);
+  });
+
+  it("requests reviews from the owners of the changed paths once", async () => {
+    expect(await requestCodeOwnerReviews(project, pr)).toEqual([alice.id, bob.id, carol.id]);
+    expect(await requestCodeOwnerReviews(project, pr)).toEqual([]);
+    expect(prRepo.listReviewerIds(pr.id)).toEqual([alice.id, bob.id, carol.id]);
+  });
+
+  it("tracks which owned areas have an owner's approval", async () => {
+    prRepo.createReview({ prId: pr.id, userId: carol.id, state: "approved" });
+    prRepo.createReview({ prId: pr.id, userId: bob.id, state: "changes_requested" });
+
+    const review = await reviewCodeOwners(project, pr);
+
+    expect(review.areas).toEqual([
+      { pattern: "*", owners: ["@alice"], paths: ["README.md"], approvedBy: [] },
+      { pattern: "/src/", owners: ["@bob", "@acme/core"], paths: ["src/app.ts"], approvedBy: ["carol"] },
+    ]);
+  });
+});
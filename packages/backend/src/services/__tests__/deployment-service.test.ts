@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../../db/repositories/workflow-run-repo.js";
+import * as environmentRepo from "../../db/repositories/environment-repo.js";
+import * as secretRepo from "../../db/repositories/actions-secret-repo.js";
+import {
+  isAwaitingReview,
+  reviewDeployments,
+  startDeployment,
+  type StartDeploymentInput,
+} from "../deployment-service.js";
+
+describe("deployment-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let bob: User;
+  let project: Project;
+  let input: Omit<StartDeploymentInput, "signal">;
+
+  // Lets the deployment reach the point where it waits for a reviewer
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("deployment-service-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    bob = createUser({ username: "bob", email: "bob@example.com", passwordHash: "x" });
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, storagePath: join(tempDir, "app.git") });
+
+    const run = workflowRunRepo.createRun({
+      id: "run-1",
+      projectId: project.id,
+      name: "Deploy",
+      event: "push",
+      headBranch: "main",
+      jobs: [{ key: "deploy", name: "deploy", group: "deploy", needs: [], steps: ["Deploy"] }],
+    });
+    input = {
+      projectId: project.id,
+      environment: { name: "production", url: "https://app.example.com" },
+      runId: run.id,
+      jobId: workflowRunRepo.findJobByKey(run.id, "deploy")!.id,
+      ref: "main",
+      commitSha: "a".repeat(40),
+      initiatedBy: alice.id,
+      log: () => {},
+    };
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("creates the environment on first use and deploys straight away without protection rules", async () => {
+    const deployment = await startDeployment({ ...input, signal: new AbortController().signal });
+
+    expect(deployment).toMatchObject({ status: "queued", url: "https://app.example.com" });
+    expect(environmentRepo.findEnvironment(project.id, "Production")?.name).toBe("production");
+  });
+
+  it("refuses branches the environment's branch policy doesn't allow", async () => {
+    environmentRepo.createEnvironment(project.id, "production", {
+      branchPolicy: { restrictToNamedBranches: true, allowedPatterns: ["release/*"] },
+    });
+
+    await expect(startDeployment({ ...input, signal: new AbortController().signal })).rejects.toThrow(
+      'Branch "main" is not allowed to deploy to production due to environment protection rules'
+    );
+    await expect(
+      startDeployment({ ...input, ref: "release/1.0", signal: new AbortController().signal })
+    ).resolves.toMatchObject({ status: "queued" });
+  });
+
+  it("waits for a required reviewer and records the status history", async () => {
+    environmentRepo.createEnvironment(project.id, "production", {
+      protectionRules: [{ type: "required_reviewers", reviewers: [bob.id] }],
+    });
+    const started = startDeployment({ ...input, signal: new AbortController().signal });
+    await settle();
+
+    const [pending] = environmentRepo.listRunDeployments(input.runId);
+    expect(pending.status).toBe("pending");
+    expect(isAwaitingReview(pending.id)).toBe(true);
+    expect(reviewDeployments([pending], alice.id, "approved")).toEqual({
+      code: "NOT_REVIEWER",
+      message: "You are not a required reviewer of production",
+    });
+    expect(reviewDeployments([pending], bob.id, "approved", "Ship it")).toBeNull();
+
+    const deployment = await started;
+    expect(deployment?.status).toBe("queued");
+    expect(environmentRepo.listDeploymentStatuses(pending.id).map((entry) => entry.status)).toEqual(["pending", "queued"]);
+    expect(environmentRepo.listReviews(pending.id)).toMatchObject([{ reviewerId: bob.id, state: "approved", comment: "Ship it" }]);
+    expect(isAwaitingReview(pending.id)).toBe(false);
+  });
+
+  it("records no review when one of the deployments may not be reviewed", async () => {
+    environmentRepo.createEnvironment(project.id, "production", {
+      protectionRules: [{ type: "required_reviewers", reviewers: [bob.id] }],
+    });
+    environmentRepo.createEnvironment(project.id, "staging", {
+      protectionRules: [{ type: "required_reviewers", reviewers: [alice.id] }],
+    });
+    const controller = new AbortController();
+    void startDeployment({ ...input, signal: controller.signal });
+    void startDeployment({ ...input, environment: { name: "staging" }, signal: controller.signal });
+    await settle();
+
+    const deployments = environmentRepo.listRunDeployments(input.runId);
+    expect(reviewDeployments(deployments, bob.id, "approved")).toMatchObject({ code: "NOT_REVIEWER" });
+    expect(deployments.flatMap((deployment) => environmentRepo.listReviews(deployment.id))).toEqual([]);
+    expect(deployments.every((deployment) => isAwaitingReview(deployment.id))).toBe(true);
+
+    controller.abort();
+    await settle();
+  });
+
+  it("fails the deployment when a reviewer rejects it, even while a wait timer runs", async () => {
+    environmentRepo.createEnvironment(project.id, "production", {
+      protectionRules: [
+        { type: "required_reviewers", reviewers: [bob.id] },
+        { type: "wait_timer", waitMinutes: 60 },
+      ],
+    });
+    const started = startDeployment({ ...input, signal: new AbortController().signal });
+    await settle();
+
+    const [pending] = environmentRepo.listRunDeployments(input.runId);
+    reviewDeployments([pending], bob.id, "rejected");
+    await expect(started).rejects.toThrow("The deployment to production was rejected by bob");
+    expect(environmentRepo.findDeploymentById(pending.id)?.status).toBe("failure");
+  });
+
+  it("cancels a waiting deployment when its job is cancelled", async () => {
+    environmentRepo.createEnvironment(project.id, "production", {
+      protectionRules: [{ type: "wait_timer", waitMinutes: 60 }],
+    });
+    const controller = new AbortController();
+    const started = startDeployment({ ...input, signal: controller.signal });
+    controller.abort();
+
+    expect(await started).toBeNull();
+    expect(environmentRepo.listRunDeployments(input.runId)[0].status).toBe("canceled");
+  });
+
+  it("deletes an environment's secrets along with it", () => {
+    const environment = environmentRepo.createEnvironment(project.id, "production");
+    secretRepo.setSecret({ scope: "environment", scopeId: environment.id }, "TOKEN", "encrypted", alice.id);
+
+    environmentRepo.deleteEnvironment(environment.id);
+    expect(secretRepo.listSecrets({ scope: "environment", scopeId: environment.id })).toEqual([]);
+  });
+});
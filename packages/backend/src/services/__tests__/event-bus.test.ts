@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { PlatformEvent } from "@platform/shared";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import * as outboxRepo from "../../db/repositories/event-outbox-repo.js";
+import {
+  MAX_DISPATCH_ATTEMPTS,
+  dispatchPendingEvents,
+  dispatchRetryDelaySeconds,
+  publishEvent,
+  subscribe,
+} from "../event-bus.js";
+
+const PROJECT_UPDATED = { projectId: "project-1", updatedFields: ["name"], updatedBy: "user-1" };
+
+describe("event-bus", () => {
+  let tempDir: string;
+  let unsubscribers: Array<() => void>;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("event-bus-test-");
+    unsubscribers = [];
+  });
+
+  afterEach(() => {
+    for (const unsubscribe of unsubscribers) unsubscribe();
+    removeTempDatabase(tempDir);
+  });
+
+  it("delivers stored events to subscribers whose patterns match", async () => {
+    const exact: string[] = [];
+    const prefixed: string[] = [];
+    const all: string[] = [];
+    unsubscribers.push(
+      subscribe("exact", "project.updated", (event) => { exact.push(event.payload.projectId); }),
+      subscribe("prefixed", "project.*", (event) => { prefixed.push(event.type); }),
+      subscribe("all", "*", (event) => { all.push(event.type); }),
+    );
+
+    const published = publishEvent("project.updated", PROJECT_UPDATED, { actorId: "user-1" });
+    publishEvent("user.deleted", {
+      userId: "user-2",
+      username: "bob",
+      reason: "admin_action",
+      dataPurgeAt: new Date().toISOString(),
+    });
+
+    expect(outboxRepo.findById(published.id)).toMatchObject({ status: "pending", actorId: "user-1" });
+    expect(await dispatchPendingEvents()).toBe(2);
+
+    expect(exact).toEqual(["project-1"]);
+    expect(prefixed).toEqual(["project.updated"]);
+    expect(all).toEqual(["project.updated", "user.deleted"]);
+    expect(outboxRepo.findById(published.id)?.status).toBe("dispatched");
+    expect(await dispatchPendingEvents()).toBe(0);
+  });
+
+  it("retries only the subscribers that failed", async () => {
+    let healthyCalls = 0;
+    let flakyCalls = 0;
+    unsubscribers.push(
+      subscribe("healthy", "project.*", () => { healthyCalls++; }),
+      subscribe("flaky", "project.*", () => {
+        flakyCalls++;
+        if (flakyCalls === 1) throw new Error("index unavailable");
+      }),
+    );
+
+    const event = publishEvent("project.updated", PROJECT_UPDATED);
+    await dispatchPendingEvents();
+
+    const failed = outboxRepo.findById(event.id)!;
+    expect(failed).toMatchObject({ status: "pending", attempts: 1, lastError: "flaky: index unavailable" });
+    expect(outboxRepo.listReceipts(event.id)).toEqual(["healthy"]);
+
+    // Not due until the backoff has passed.
+    expect(await dispatchPendingEvents()).toBe(0);
+    await dispatchPendingEvents(new Date(Date.now() + dispatchRetryDelaySeconds(1) * 1000 + 1000));
+
+    expect(healthyCalls).toBe(1);
+    expect(flakyCalls).toBe(2);
+    expect(outboxRepo.findById(event.id)?.status).toBe("dispatched");
+  });
+
+  it("marks an event failed after the last attempt", async () => {
+    unsubscribers.push(subscribe("broken", "project.updated", () => {
+      throw new Error("boom");
+    }));
+
+    const event = publishEvent("project.updated", PROJECT_UPDATED);
+    let now = Date.now();
+    for (let attempt = 1; attempt <= MAX_DISPATCH_ATTEMPTS; attempt++) {
+      await dispatchPendingEvents(new Date(now));
+      now += dispatchRetryDelaySeconds(attempt) * 1000 + 1000;
+    }
+
+    expect(outboxRepo.findById(event.id)).toMatchObject({ status: "failed", attempts: MAX_DISPATCH_ATTEMPTS });
+    expect(await dispatchPendingEvents(new Date(now))).toBe(0);
+  });
+
+  it("keeps dispatching later events when one keeps failing", async () => {
+    const seen: PlatformEvent[] = [];
+    unsubscribers.push(subscribe("picky", "project.updated", (event) => {
+      if (event.payload.projectId === "project-1") throw new Error("nope");
+      seen.push(event);
+    }));
+
+    publishEvent("project.updated", PROJECT_UPDATED);
+    const later = publishEvent("project.updated", { ...PROJECT_UPDATED, projectId: "project-2" });
+    await dispatchPendingEvents();
+
+    expect(seen.map((event) => event.id)).toEqual([later.id]);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import { createRule } from "../../db/repositories/branch-protection-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as prStatusCheckRepo from "../../db/repositories/pr-status-check-repo.js";
+import * as workflowRunRepo from "../../db/repositories/workflow-run-repo.js";
+import { enqueuePullRequest, handleMergeGroupRun, mergeQueueStatus } from "../merge-queue-service.js";
+
+describe("merge-queue-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let project: Project;
+  let first: prRepo.PullRequest;
+  let second: prRepo.PullRequest;
+  const actor = () => ({ userId: alice.id, role: "user" });
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", project.storagePath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  const branch = (name: string, file: string) => {
+    git("checkout", "-q", "-b", name, "main");
+    writeFileSync(join(project.storagePath, file), `${name}\n`);
+    git("add", "-A");
+    git("commit", "-qm", name);
+  };
+
+  const finishRun = (sha: string, conclusion: "success" | "failure") => {
+    const run = workflowRunRepo.createRun({
+      id: `run-${sha}`,
+      projectId: project.id,
+      name: "CI",
+      event: "merge_group",
+      headBranch: "gittic-mq/main",
+      headSha: sha,
+      jobs: [{ key: "test", name: "test", group: "test", needs: [], steps: ["Test"] }],
+    });
+    const [job] = workflowRunRepo.listJobs(run.id);
+    workflowRunRepo.updateJob(job.id, { status: "completed", conclusion });
+    return handleMergeGroupRun(project, sha);
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("merge-queue-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    const storagePath = join(tempDir, "app");
+    mkdirSync(storagePath);
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, storagePath });
+
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(storagePath, "README.md"), "app\n");
+    git("add", "-A");
+    git("commit", "-qm", "initial");
+    branch("feature-a", "a.txt");
+    branch("feature-b", "b.txt");
+    git("checkout", "-q", "--detach", "main");
+
+    createRule({ scope: "project", scopeId: project.id }, "main", {
+      requireMergeQueue: true,
+      requireStatusChecks: true,
+      requiredStatusChecks: ["CI / test"],
+    });
+
+    // Pull requests still reference the repositories table
+    getDb()
+      .prepare("INSERT INTO repositories (id, name, slug, owner_id, storage_path) VALUES (?, ?, ?, ?, ?)")
+      .run(project.id, "app", "app", alice.id, storagePath);
+    first = prRepo.create({ repositoryId: project.id, title: "A", baseBranch: "main", headBranch: "feature-a", authorId: alice.id });
+    second = prRepo.create({ repositoryId: project.id, title: "B", baseBranch: "main", headBranch: "feature-b", authorId: alice.id });
+    prStatusCheckRepo.upsertForPr(first.id, "CI / test", "success");
+    prStatusCheckRepo.upsertForPr(second.id, "CI / test", "success");
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("refuses pull requests that could not be merged on their own", async () => {
+    prStatusCheckRepo.upsertForPr(first.id, "CI / test", "failure");
+
+    await expect(enqueuePullRequest(project, first, actor(), "merge")).rejects.toThrow("Required status checks are failing");
+    expect(mergeQueueStatus(first)).toBeNull();
+  });
+
+  it("builds each entry on the one ahead of it and lands them together once the last passes", async () => {
+    const main = git("rev-parse", "main");
+    await enqueuePullRequest(project, first, actor(), "merge");
+    await enqueuePullRequest(project, second, actor(), "rebase");
+
+    const firstSha = git("rev-parse", "gittic-mq/main/pr-1");
+    const secondSha = git("rev-parse", "gittic-mq/main/pr-2");
+    expect(git("rev-parse", "gittic-mq/main/pr-1^1")).toBe(main);
+    expect(git("rev-parse", "gittic-mq/main/pr-2^")).toBe(firstSha);
+    expect(mergeQueueStatus(second)).toMatchObject({ state: "queued", position: 2, queueLength: 2 });
+
+    await finishRun(secondSha, "success");
+
+    expect(git("rev-parse", "main")).toBe(secondSha);
+    expect(prRepo.findById(first.id)).toMatchObject({ state: "merged", mergeCommitSha: firstSha });
+    expect(prRepo.findById(second.id)).toMatchObject({ state: "merged", mergeCommitSha: secondSha });
+    expect(git("branch", "--list", "gittic-mq/*")).toBe("");
+    expect(mergeQueueStatus(first)).toBeNull();
+  });
+
+  it("ejects an entry whose checks fail and rebuilds the entries behind it", async () => {
+    const main = git("rev-parse", "main");
+    await enqueuePullRequest(project, first, actor(), "merge");
+    await enqueuePullRequest(project, second, actor(), "merge");
+
+    await finishRun(git("rev-parse", "gittic-mq/main/pr-1"), "failure");
+
+    expect(git("rev-parse", "main")).toBe(main);
+    expect(mergeQueueStatus(first)).toMatchObject({
+      state: "failed",
+      position: null,
+      failureReason: "Required status checks failed in the merge queue",
+    });
+    expect(git("branch", "--list", "gittic-mq/main/pr-1")).toBe("");
+    expect(git("rev-parse", "gittic-mq/main/pr-2^1")).toBe(main);
+    expect(mergeQueueStatus(second)).toMatchObject({ state: "queued", position: 1 });
+  });
+});
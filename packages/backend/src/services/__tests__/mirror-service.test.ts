@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { pathToFileURL } from "node:url";
+import { resetConfig } from "../../config/app-config.js";
+import { validateRemoteUrl } from "../mirror-service.js";
+
+describe("validateRemoteUrl", () => {
+  let tempDir: string;
+  let dataDir: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "mirror-service-test-"));
+    dataDir = join(tempDir, "data");
+    outside = join(tempDir, "elsewhere.git");
+    mkdirSync(join(dataDir, "repos", "bob", "private.git"), { recursive: true });
+    mkdirSync(outside);
+    process.env.DATA_DIR = dataDir;
+    process.env.REPO_STORAGE_PATH = join(dataDir, "repos");
+    resetConfig();
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_DIR;
+    delete process.env.REPO_STORAGE_PATH;
+    delete process.env.MIRROR_ALLOW_LOCAL;
+    delete process.env.OUTBOUND_ALLOW_INTERNAL;
+    resetConfig();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("accepts public network remotes for any user", async () => {
+    expect(await validateRemoteUrl("https://203.0.113.10/alice/app.git", "user")).toBeNull();
+    expect(await validateRemoteUrl("ssh://git@[2001:db8::10]/alice/app.git", "user")).toBeNull();
+  });
+
+  it("only lets site admins mirror hosts on internal addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/app.git",
+      "https://169.254.169.254/latest/meta-data",
+      "git://10.0.0.5/app.git",
+      "ssh://git@[::1]/app.git",
+      "http://[::ffff:127.0.0.1]/app.git",
+      "http://localhost/app.git",
+    ]) {
+      expect(await validateRemoteUrl(url, "user")).toMatch(/internal address/);
+      expect(await validateRemoteUrl(url, "admin")).toBeNull();
+    }
+
+    process.env.OUTBOUND_ALLOW_INTERNAL = "true";
+    resetConfig();
+    expect(await validateRemoteUrl("http://192.168.1.20/app.git", "user")).toBeNull();
+  });
+
+  it("only lets site admins mirror local paths", async () => {
+    expect(await validateRemoteUrl(outside, "user")).toMatch(/site administrators/);
+    expect(await validateRemoteUrl(pathToFileURL(outside).href, "user")).toMatch(/site administrators/);
+    expect(await validateRemoteUrl(outside, "admin")).toBeNull();
+
+    process.env.MIRROR_ALLOW_LOCAL = "true";
+    resetConfig();
+    expect(await validateRemoteUrl(outside, "user")).toBeNull();
+  });
+
+  it("rejects paths inside the data directory, including through symlinks", async () => {
+    const victim = join(dataDir, "repos", "bob", "private.git");
+    const link = join(tempDir, "link");
+    symlinkSync(dataDir, link);
+
+    expect(await validateRemoteUrl(victim, "admin")).toMatch(/data directory/);
+    expect(await validateRemoteUrl(pathToFileURL(victim).href, "admin")).toMatch(/data directory/);
+    expect(await validateRemoteUrl(join(link, "repos", "bob", "private.git"), "admin")).toMatch(/data directory/);
+  });
+});
@@ -11,12 +11,21 @@ const baseMergeCheck: MergeCheckResult = {
 
 const baseProtection = {
   projectId: "project-1",
+  patterns: ["main"],
   requirePullRequest: true,
   requiredApprovingReviewCount: 0,
   requireStatusChecks: false,
   requiredStatusChecks: [],
   enforceAdmins: false,
   requireLinearHistory: false,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
+  requireSignedCommits: false,
+  requireMergeQueue: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  restrictPushes: false,
+  pushAllowances: [],
 };
 
 describe("evaluateMergeDecision", () => {
@@ -122,4 +131,62 @@ describe("evaluateMergeDecision", () => {
     expect(decision.canMerge).toBe(false);
     expect(decision.failureReasons.some((reason) => reason.code === "CONFLICTS")).toBe(true);
   });
+
+  it("allows squash and rebase under linear history but not merge commits", () => {
+    const input = {
+      mergeCheck: baseMergeCheck,
+      canFastForward: false,
+      statusChecks: [],
+      branchProtection: { ...baseProtection, requireLinearHistory: true },
+      approvedReviews: 0,
+      prState: "open" as const,
+    };
+
+    expect(evaluateMergeDecision({ ...input, mergeMethod: "squash" }).canMerge).toBe(true);
+    expect(evaluateMergeDecision({ ...input, mergeMethod: "rebase" }).canMerge).toBe(true);
+    expect(evaluateMergeDecision({ ...input, mergeMethod: "merge", canFastForward: true }).canMerge).toBe(false);
+  });
+
+  it("blocks merge by users restricted from pushing and under signed commit rules", () => {
+    const input = {
+      mergeCheck: baseMergeCheck,
+      canFastForward: false,
+      statusChecks: [],
+      branchProtection: baseProtection,
+      approvedReviews: 0,
+      prState: "open" as const,
+    };
+
+    expect(evaluateMergeDecision({ ...input, pushAllowed: true }).canMerge).toBe(true);
+    expect(evaluateMergeDecision({ ...input, pushAllowed: false }).failureReasons.map((reason) => reason.message))
+      .toEqual(["You are not allowed to push to the protected base branch"]);
+    expect(evaluateMergeDecision({
+      ...input,
+      branchProtection: { ...baseProtection, requireSignedCommits: true },
+    }).canMerge).toBe(false);
+  });
+
+  it("blocks merge until each code owner area has an owner's approval when required", () => {
+    const input = {
+      mergeCheck: baseMergeCheck,
+      canFastForward: true,
+      statusChecks: [],
+      branchProtection: { ...baseProtection, requireCodeOwnerReviews: true },
+      approvedReviews: 1,
+      prState: "open" as const,
+      codeOwnerAreas: [
+        { pattern: "/src/", owners: ["@bob"], paths: ["src/app.ts"], approvedBy: ["bob"] },
+        { pattern: "*.md", owners: ["@acme/docs"], paths: ["README.md"], approvedBy: [] },
+      ],
+    };
+
+    const decision = evaluateMergeDecision(input);
+    expect(decision.canMerge).toBe(false);
+    expect(decision.failureReasons).toEqual([{
+      code: "CODE_OWNER_REVIEWS",
+      message: "Changes to *.md need approval from a code owner",
+      details: { areas: [{ pattern: "*.md", owners: ["@acme/docs"] }] },
+    }]);
+    expect(evaluateMergeDecision({ ...input, branchProtection: baseProtection }).canMerge).toBe(true);
+  });
 });
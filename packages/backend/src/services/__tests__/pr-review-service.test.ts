@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as reviewThreadRepo from "../../db/repositories/review-thread-repo.js";
+import { startThread } from "../review-thread-service.js";
+import { applySuggestions, pendingReviewFor, submitReview } from "../pr-review-service.js";
+
+const lines = (...overrides: Array<[number, string]>) => {
+  const content = Array.from({ length: 12 }, (_, i) => `line${i + 1}`);
+  for (const [line, text] of overrides) content[line - 1] = text;
+  return content.join("\n") + "\n";
+};
+
+describe("pr-review-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let bob: User;
+  let project: Project;
+  let pr: prRepo.PullRequest;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", project.storagePath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("pr-review-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    bob = createUser({ username: "bob", email: "bob@example.com", passwordHash: "x" });
+    const storagePath = join(tempDir, "app");
+    mkdirSync(storagePath);
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, storagePath });
+
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(storagePath, "app.ts"), lines());
+    git("add", "-A");
+    git("commit", "-qm", "initial");
+    git("checkout", "-qb", "feature");
+    writeFileSync(join(storagePath, "app.ts"), lines([5, "five"], [8, "eight"]));
+    git("commit", "-qam", "update app.ts");
+
+    // Pull requests still reference the repositories table
+    getDb()
+      .prepare("INSERT INTO repositories (id, name, slug, owner_id, storage_path) VALUES (?, ?, ?, ?, ?)")
+      .run(project.id, "app", "app", alice.id, storagePath);
+    pr = prRepo.create({ repositoryId: project.id, title: "Feature", baseBranch: "main", headBranch: "feature", authorId: alice.id });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("keeps a pending review's comments private until it is submitted", async () => {
+    const review = pendingReviewFor(pr, bob.id);
+    await startThread(project, pr, bob.id, { path: "app.ts", side: "RIGHT", line: 5, body: "Hmm", reviewId: review.id });
+
+    expect(reviewThreadRepo.listComments(pr.id, alice.id)).toEqual([]);
+    expect(reviewThreadRepo.listComments(pr.id, bob.id)).toHaveLength(1);
+    expect(prRepo.listReviews(pr.id)).toEqual([]);
+
+    const submitted = await submitReview(project, pr, bob.id, {
+      event: "APPROVE",
+      comments: [{ path: "app.ts", side: "RIGHT", line: 8, body: "Nice" }],
+    });
+
+    expect(submitted.review).toMatchObject({ id: review.id, state: "approved", commitSha: git("rev-parse", "HEAD") });
+    expect(reviewThreadRepo.listComments(pr.id, alice.id).map((comment) => comment.body)).toEqual(["Hmm", "Nice"]);
+    expect(prRepo.countApprovals(pr.id)).toBe(1);
+
+    await expect(submitReview(project, pr, alice.id, { event: "APPROVE" }))
+      .rejects.toThrow("You can't approve or request changes on your own pull request");
+    await expect(submitReview(project, pr, bob.id, { event: "REQUEST_CHANGES" }))
+      .rejects.toThrow("Requesting changes needs a comment");
+  });
+
+  it("commits suggestions to the head branch and marks them applied", async () => {
+    const { comment: single } = await startThread(project, pr, bob.id, {
+      path: "app.ts", side: "RIGHT", line: 5, body: "Spell it out:\n```suggestion\nFIVE\n```",
+    });
+    const { comment: range } = await startThread(project, pr, bob.id, {
+      path: "app.ts", side: "RIGHT", startLine: 7, line: 8, body: "```suggestion\nseven-eight\n```",
+    });
+
+    const applied = await applySuggestions(project, pr, alice, [single.id, range.id]);
+
+    expect(git("rev-parse", "feature")).toBe(applied.sha);
+    expect(git("show", "feature:app.ts").split("\n")).toEqual([
+      "line1", "line2", "line3", "line4", "FIVE", "line6", "seven-eight", "line9", "line10", "line11", "line12",
+    ]);
+    expect(git("log", "-1", "--format=%B", "feature")).toBe("Apply suggestions from code review\n\nCo-authored-by: bob <bob@example.com>");
+    expect(applied.comments.map((comment) => comment.appliedCommitSha)).toEqual([applied.sha, applied.sha]);
+    expect(reviewThreadRepo.findThreadById(single.threadId)?.resolvedById).toBe(alice.id);
+
+    await expect(applySuggestions(project, pr, alice, [single.id]))
+      .rejects.toThrow("has already been applied");
+  });
+
+  it("dismisses approvals of earlier commits", async () => {
+    await submitReview(project, pr, bob.id, { event: "APPROVE" });
+    expect(prRepo.dismissStaleApprovals(pr.id, git("rev-parse", "HEAD"))).toBe(0);
+
+    expect(prRepo.dismissStaleApprovals(pr.id, "f".repeat(40))).toBe(1);
+    expect(prRepo.countApprovals(pr.id)).toBe(0);
+    expect(prRepo.listReviews(pr.id)[0].dismissedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Project } from "@platform/shared";
+import { buildPushPolicy } from "../push-policy-service.js";
+
+const project = {
+  id: "project-1",
+  ownerId: "owner-1",
+  defaultBranch: "main",
+} as Project;
+
+const protection = {
+  projectId: "project-1",
+  patterns: ["main"],
+  requirePullRequest: true,
+  requiredApprovingReviewCount: 0,
+  requireStatusChecks: false,
+  requiredStatusChecks: [],
+  enforceAdmins: false,
+  requireLinearHistory: true,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
+  requireSignedCommits: false,
+  requireMergeQueue: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  restrictPushes: false,
+  pushAllowances: [],
+};
+
+describe("buildPushPolicy", () => {
+  it("protects nothing when no rule matches the branch", () => {
+    expect(buildPushPolicy(project, "refs/heads/main", null, { userId: "owner-1", role: "user" })).toEqual({
+      protectedBranches: [],
+    });
+  });
+
+  it("blocks direct pushes to a protected branch for non-admins", () => {
+    const policy = buildPushPolicy(project, "refs/heads/main", protection, { userId: "someone", role: "user" });
+
+    expect(policy.protectedBranches).toEqual(["refs/heads/main"]);
+    expect(policy.blockDirectPushes).toBe(true);
+    expect(policy.requireLinearHistory).toBe(true);
+  });
+
+  it("lets the owner bypass the pull request requirement unless enforced for admins", () => {
+    const pusher = { userId: "owner-1", role: "user" };
+
+    expect(buildPushPolicy(project, "refs/heads/main", protection, pusher).blockDirectPushes).toBe(false);
+    expect(
+      buildPushPolicy(project, "refs/heads/main", { ...protection, enforceAdmins: true }, pusher).blockDirectPushes,
+    ).toBe(true);
+  });
+});
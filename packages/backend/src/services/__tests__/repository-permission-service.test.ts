@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { join } from "node:path";
+import type { Project } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as collaboratorRepo from "../../db/repositories/collaborator-repo.js";
+import * as deployKeyRepo from "../../db/repositories/deploy-key-repo.js";
+import * as orgRepo from "../../db/repositories/org-repo.js";
+import {
+  fingerprintPublicKey,
+  resolveDeployKeyAccess,
+  resolveProjectPermission,
+} from "../repository-permission-service.js";
+
+const ED25519_KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIGtHVaaAQT+9yeTLSNyzLmcvEJMUp5bsGpseVz4jOWJq ci@example";
+
+describe("repository-permission-service", () => {
+  let tempDir: string;
+  let ownerId: string;
+  let project: Project;
+
+  const newUser = (username: string) =>
+    createUser({ username, email: `${username}@example.com`, passwordHash: "x" }).id;
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("repo-permission-test-");
+
+    ownerId = newUser("alice");
+    project = createProject({
+      name: "demo",
+      slug: "demo",
+      ownerId,
+      storagePath: join(tempDir, "demo.git"),
+      isPrivate: true,
+    });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("resolves owner, collaborator and anonymous permissions", () => {
+    const writer = newUser("bob");
+    const reader = newUser("carol");
+    const stranger = newUser("dave");
+    collaboratorRepo.upsert(project.id, writer, "push");
+    collaboratorRepo.upsert(project.id, reader, "triage");
+
+    expect(resolveProjectPermission(project, { userId: ownerId })).toBe("admin");
+    expect(resolveProjectPermission(project, { userId: writer })).toBe("write");
+    expect(resolveProjectPermission(project, { userId: reader })).toBe("read");
+    expect(resolveProjectPermission(project, { userId: stranger })).toBe("none");
+    expect(resolveProjectPermission(project, { userId: stranger, role: "admin" })).toBe("admin");
+    expect(resolveProjectPermission(project, null)).toBe("none");
+    expect(resolveProjectPermission({ ...project, isPrivate: false }, null)).toBe("read");
+  });
+
+  it("grants organization members and team members access to org repositories", () => {
+    const orgAdmin = newUser("erin");
+    const member = newUser("frank");
+    const teamMember = newUser("grace");
+    const org = orgRepo.createOrg({ name: "Acme", slug: "acme", ownerId: orgAdmin });
+    orgRepo.addMember(org.id, member);
+    orgRepo.addMember(org.id, teamMember);
+    const orgProject = createProject({
+      name: "tools",
+      slug: "tools",
+      ownerId,
+      orgId: org.id,
+      storagePath: join(tempDir, "tools.git"),
+      isPrivate: true,
+    });
+
+    const db = getDb();
+    db.prepare("INSERT INTO teams (id, org_id, name, slug) VALUES ('t1', ?, 'Core', 'core')").run(org.id);
+    db.prepare("INSERT INTO team_members (team_id, user_id) VALUES ('t1', ?)").run(teamMember);
+    collaboratorRepo.grantTeam("t1", orgProject.id, "maintain");
+
+    expect(resolveProjectPermission(orgProject, { userId: orgAdmin })).toBe("admin");
+    expect(resolveProjectPermission(orgProject, { userId: member })).toBe("read");
+    expect(resolveProjectPermission(orgProject, { userId: teamMember })).toBe("write");
+  });
+
+  it("keeps the highest grant of a user who is both a collaborator and an org admin", () => {
+    const orgAdmin = newUser("heidi");
+    const member = newUser("ivan");
+    const org = orgRepo.createOrg({ name: "Acme", slug: "acme", ownerId: orgAdmin });
+    orgRepo.addMember(org.id, member);
+    const orgProject = createProject({
+      name: "tools",
+      slug: "tools",
+      ownerId,
+      orgId: org.id,
+      storagePath: join(tempDir, "tools.git"),
+      isPrivate: true,
+    });
+    collaboratorRepo.upsert(orgProject.id, orgAdmin, "pull");
+    collaboratorRepo.upsert(orgProject.id, member, "push");
+
+    expect(resolveProjectPermission(orgProject, { userId: orgAdmin })).toBe("admin");
+    expect(resolveProjectPermission(orgProject, { userId: member })).toBe("write");
+  });
+
+  it("fingerprints SSH keys and resolves deploy key access per project", () => {
+    const fingerprint = fingerprintPublicKey(ED25519_KEY);
+    expect(fingerprint).toBe("SHA256:SRWyNjL2ezbz9Uj54iDzwoXtUw/inxsAeZU5MOaPVyw");
+    expect(fingerprintPublicKey("ssh-rsa not-a-key")).toBeNull();
+
+    const key = deployKeyRepo.create({ projectId: project.id, title: "ci", key: ED25519_KEY, fingerprint: fingerprint! });
+    expect(resolveDeployKeyAccess(fingerprint!, project.id)?.permission).toBe("read");
+    expect(resolveDeployKeyAccess(fingerprint!, "other-project")).toBeNull();
+
+    deployKeyRepo.remove(project.id, key.id);
+    deployKeyRepo.create({ projectId: project.id, title: "deploy", key: ED25519_KEY, fingerprint: fingerprint!, readOnly: false });
+    expect(resolveDeployKeyAccess(fingerprint!, project.id)?.permission).toBe("write");
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project, User } from "@platform/shared";
+import { getDb } from "../../db/connection.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as commentRepo from "../../db/repositories/comment-repo.js";
+import * as reviewThreadRepo from "../../db/repositories/review-thread-repo.js";
+import { reanchorThreads, startThread } from "../review-thread-service.js";
+
+const lines = (...overrides: Array<[number, string]>) => {
+  const content = Array.from({ length: 12 }, (_, i) => `line${i + 1}`);
+  for (const [line, text] of overrides) content[line - 1] = text;
+  return content.join("\n") + "\n";
+};
+
+describe("review-thread-service", () => {
+  let tempDir: string;
+  let alice: User;
+  let project: Project;
+  let pr: prRepo.PullRequest;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", project.storagePath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  const commit = (content: string) => {
+    writeFileSync(join(project.storagePath, "app.ts"), content);
+    git("commit", "-qam", "update app.ts");
+    return git("rev-parse", "HEAD");
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("review-thread-test-");
+
+    alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    const storagePath = join(tempDir, "app");
+    mkdirSync(storagePath);
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, storagePath });
+
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(storagePath, "app.ts"), lines());
+    git("add", "-A");
+    git("commit", "-qm", "initial");
+    git("checkout", "-qb", "feature");
+    commit(lines([5, "five"], [8, "eight"]));
+
+    // Pull requests still reference the repositories table
+    getDb()
+      .prepare("INSERT INTO repositories (id, name, slug, owner_id, storage_path) VALUES (?, ?, ?, ?, ?)")
+      .run(project.id, "app", "app", alice.id, storagePath);
+    pr = prRepo.create({ repositoryId: project.id, title: "Feature", baseBranch: "main", headBranch: "feature", authorId: alice.id });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("anchors comments to lines of the diff and keeps them out of the conversation", async () => {
+    const { thread } = await startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 8, body: "Why?" });
+
+    expect(thread).toMatchObject({ path: "app.ts", side: "RIGHT", line: 8, outdated: false, commitSha: git("rev-parse", "HEAD") });
+    expect(thread.diffHunk.split("\n").at(-1)).toBe("+eight");
+    expect(commentRepo.listPRComments(pr.id)).toEqual([]);
+    expect(reviewThreadRepo.listComments(pr.id).map((comment) => comment.body)).toEqual(["Why?"]);
+
+    await expect(startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 12, body: "x" }))
+      .rejects.toThrow("Line 12 of app.ts is not part of the diff");
+    await expect(startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 5, startLine: 6, body: "x" }))
+      .rejects.toThrow("A comment's lines must run forwards within one hunk of the diff");
+  });
+
+  it("moves threads past new commits and marks those whose lines changed outdated", async () => {
+    const before = git("rev-parse", "HEAD");
+    const kept = await startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 8, body: "Keep" });
+    const changed = await startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", startLine: 4, line: 5, body: "Change" });
+    const base = await startThread(project, pr, alice.id, { path: "app.ts", side: "LEFT", line: 5, body: "Old" });
+
+    const after = commit("header\n" + lines([5, "five!"], [8, "eight"]));
+    await expect(startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 9, commitSha: before, body: "x" }))
+      .rejects.toThrow("The pull request has new commits");
+    await reanchorThreads(project, pr);
+
+    expect(reviewThreadRepo.findThreadById(kept.thread.id)).toMatchObject({
+      line: 9,
+      commitSha: after,
+      originalLine: 8,
+      originalCommitSha: before,
+      outdated: false,
+    });
+    expect(reviewThreadRepo.findThreadById(changed.thread.id)).toMatchObject({ line: 5, outdated: true, position: undefined });
+    expect(reviewThreadRepo.findThreadById(base.thread.id)).toMatchObject({ line: 5, side: "LEFT", outdated: false });
+  });
+
+  it("deletes a thread with its last comment", async () => {
+    const { thread, comment } = await startThread(project, pr, alice.id, { path: "app.ts", side: "RIGHT", line: 5, body: "One" });
+    const reply = reviewThreadRepo.addComment(thread.id, alice.id, "Two");
+
+    reviewThreadRepo.deleteComment(comment.id);
+    expect(reviewThreadRepo.findThreadById(thread.id)).not.toBeNull();
+    reviewThreadRepo.deleteComment(reply.id);
+    expect(reviewThreadRepo.findThreadById(thread.id)).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { validatePatternSource } from "../secret-scanning-service.js";
+
+describe("validatePatternSource", () => {
+  it("accepts ordinary secret patterns", () => {
+    expect(validatePatternSource("acme_[A-Za-z0-9]{32}")).toBeNull();
+    expect(validatePatternSource("(?:sk|pk)_live_[0-9a-f]+")).toBeNull();
+    expect(validatePatternSource("(?:[A-Z0-9]{4}-){3}[A-Z0-9]{4}")).toBeNull();
+  });
+
+  it("rejects patterns that do not compile", () => {
+    expect(validatePatternSource("acme_[")).toMatch(/Invalid regular expression/);
+  });
+
+  it("rejects patterns that can backtrack catastrophically", () => {
+    expect(validatePatternSource("(a+)+$")).toMatch(/exponential time/);
+    expect(validatePatternSource("(?:a|ab)*c")).toMatch(/exponential time/);
+    expect(validatePatternSource("([a-z]*\\d){2,}")).toMatch(/exponential time/);
+    expect(validatePatternSource("(\\w+)=\\1")).toMatch(/Backreferences/);
+  });
+});
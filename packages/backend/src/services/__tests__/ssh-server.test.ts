@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import ssh2 from "ssh2";
+import type { Server } from "ssh2";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as deployKeyRepo from "../../db/repositories/deploy-key-repo.js";
+import * as sshKeyRepo from "../../db/repositories/ssh-key-repo.js";
+import { fingerprintPublicKey } from "../repository-permission-service.js";
+import { createSshServer } from "../ssh-server.js";
+
+interface ExecResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/** Generate a key pair, returning the private key and the public key line. */
+function generateKey(): { privateKey: string; publicKey: string } {
+  const pair = ssh2.utils.generateKeyPairSync("ed25519");
+  return { privateKey: pair.private, publicKey: pair.public.trim() };
+}
+
+describe("ssh-server", () => {
+  let tempDir: string;
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    tempDir = createTempDatabase("ssh-server-test-");
+
+    server = createSshServer(generateKey().privateKey);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    removeTempDatabase(tempDir);
+  });
+
+  /** Connect with `privateKey` and run a single command. */
+  function exec(privateKey: string, command: string): Promise<ExecResult> {
+    return new Promise((resolve, reject) => {
+      const client = new ssh2.Client();
+      client.on("ready", () => {
+        client.exec(command, (err, channel) => {
+          if (err) return reject(err);
+          let stdout = "";
+          let stderr = "";
+          let code = -1;
+          channel.on("data", (data: Buffer) => {
+            stdout += data.toString();
+            // Ending our side after the ref advertisement closes upload-pack cleanly
+            if (stdout.endsWith("0000")) channel.end();
+          });
+          channel.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+          channel.on("exit", (exitCode: number) => (code = exitCode));
+          channel.on("close", () => {
+            client.end();
+            resolve({ code, stdout, stderr });
+          });
+        });
+      });
+      client.on("error", reject);
+      client.connect({ host: "127.0.0.1", port, username: "git", privateKey });
+    });
+  }
+
+  function setupRepository() {
+    const owner = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    const project = createProject({
+      name: "demo",
+      slug: "demo",
+      ownerId: owner.id,
+      storagePath: "repos/alice/demo",
+      isPrivate: true,
+    });
+    const gitDir = join(tempDir, "repos", "alice", "demo");
+    const git = (...args: string[]) => execFileSync("git", ["--git-dir", gitDir, ...args], {
+      encoding: "utf8",
+      input: "",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "Alice",
+        GIT_AUTHOR_EMAIL: "alice@example.com",
+        GIT_COMMITTER_NAME: "Alice",
+        GIT_COMMITTER_EMAIL: "alice@example.com",
+      },
+    }).trim();
+    execFileSync("git", ["init", "--bare", "-q", "-b", "main", gitDir]);
+    git("update-ref", "refs/heads/main", git("commit-tree", git("mktree"), "-m", "Initial commit"));
+    return { owner, project };
+  }
+
+  it("serves upload-pack to users with a registered key", async () => {
+    const { owner } = setupRepository();
+    const key = generateKey();
+    sshKeyRepo.create({
+      userId: owner.id,
+      title: "laptop",
+      key: key.publicKey,
+      fingerprint: fingerprintPublicKey(key.publicKey)!,
+    });
+
+    const result = await exec(key.privateKey, "git-upload-pack '/alice/demo.git'");
+
+    expect(result.stdout).toContain("refs/heads/main");
+    expect(sshKeyRepo.listByUser(owner.id)[0].lastUsed).toBeDefined();
+  });
+
+  it("refuses pushes from read-only deploy keys and unknown repositories", async () => {
+    const { project } = setupRepository();
+    const key = generateKey();
+    deployKeyRepo.create({
+      projectId: project.id,
+      title: "ci",
+      key: key.publicKey,
+      fingerprint: fingerprintPublicKey(key.publicKey)!,
+    });
+
+    const push = await exec(key.privateKey, "git-receive-pack 'alice/demo.git'");
+    expect(push.code).toBe(1);
+    expect(push.stderr).toContain('The deploy key "ci" is read-only');
+
+    const other = await exec(key.privateKey, "git-upload-pack 'alice/other.git'");
+    expect(other.code).toBe(1);
+    expect(other.stderr).toContain("Repository not found.");
+  });
+
+  it("rejects keys that are not registered", async () => {
+    setupRepository();
+
+    await expect(exec(generateKey().privateKey, "git-upload-pack 'alice/demo.git'"))
+      .rejects.toThrow(/authentication methods failed/);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { verifyWebhookPayload } from "@platform/utils";
+import { resetConfig } from "../../config/app-config.js";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as webhookModel from "../../db/models/webhook-model.js";
+import { encryptSecret } from "../credential-encryption.js";
+import { dispatchPendingEvents, publishEvent } from "../event-bus.js";
+import { subscribeWebhooks } from "../subscribers/webhook-subscriber.js";
+import {
+  SUSPEND_AFTER_FAILURES,
+  attemptDelivery,
+  emitWebhookEvent,
+  processDueDeliveries,
+  redeliver,
+  retryDelaySeconds,
+} from "../webhook-service.js";
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe("webhook-service", () => {
+  let tempDir: string;
+  let receiver: Server;
+  let receiverUrl: string;
+  let received: Received[];
+  let responseStatus: number;
+
+  beforeEach(async () => {
+    // The receiver listens on loopback
+    process.env.OUTBOUND_ALLOW_INTERNAL = "true";
+    tempDir = createTempDatabase("webhook-service-test-");
+
+    received = [];
+    responseStatus = 200;
+    receiver = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end("ok");
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+    removeTempDatabase(tempDir);
+    delete process.env.OUTBOUND_ALLOW_INTERNAL;
+  });
+
+  function setupWebhook(events = ["issues"]) {
+    const owner = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    const project = createProject({
+      name: "demo",
+      slug: "demo",
+      ownerId: owner.id,
+      storagePath: "repos/alice/demo",
+    });
+    const webhook = webhookModel.createWebhook({
+      repositoryId: project.id,
+      name: "web",
+      url: receiverUrl,
+      events,
+      secret: encryptSecret("s3cret"),
+    });
+    return { owner, project, webhook };
+  }
+
+  function queueIssueEvent() {
+    const { owner, project, webhook } = setupWebhook();
+    emitWebhookEvent(project, "issues", { action: "opened", issue: { number: 1 } }, owner.id);
+    const [delivery] = webhookModel.listDeliveries(webhook.id);
+    return { webhook, delivery };
+  }
+
+  it("queues subscribed events and signs the delivered payload", async () => {
+    const { owner, project, webhook } = setupWebhook();
+
+    expect(emitWebhookEvent(project, "push", { ref: "refs/heads/main" })).toBe(0);
+    expect(emitWebhookEvent(project, "issues", { action: "opened", issue: { number: 1 } }, owner.id)).toBe(1);
+
+    const [delivery] = webhookModel.listDeliveries(webhook.id);
+    expect(delivery).toMatchObject({ event: "issues", action: "opened", status: "pending", attempts: 0 });
+
+    const sent = await attemptDelivery(delivery);
+
+    expect(sent).toMatchObject({ status: "success", attempts: 1, responseStatus: 200 });
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers["x-gittic-event"]).toBe("issues");
+    expect(headers["x-gittic-delivery"]).toBe(delivery.guid);
+    expect(verifyWebhookPayload(body, String(headers["x-gittic-signature-256"]), "s3cret")).toBe(true);
+    expect(JSON.parse(body)).toMatchObject({
+      action: "opened",
+      repository: { full_name: "alice/demo" },
+      sender: { login: "alice" },
+    });
+  });
+
+  it("schedules retries with backoff and marks the webhook failing", async () => {
+    const { webhook, delivery } = queueIssueEvent();
+    responseStatus = 500;
+
+    const before = Date.now();
+    const retried = await attemptDelivery(delivery);
+
+    expect(retried).toMatchObject({ status: "pending", attempts: 1, responseStatus: 500 });
+    expect(retried!.error).toBe("Receiver responded with HTTP 500");
+    expect(Date.parse(retried!.nextAttemptAt!)).toBeGreaterThanOrEqual(before + retryDelaySeconds(1) * 1000);
+    expect(webhookModel.getWebhook(webhook.id)).toMatchObject({ status: "failing", failureCount: 0 });
+
+    responseStatus = 200;
+    await attemptDelivery(retried!);
+    expect(webhookModel.getWebhook(webhook.id)).toMatchObject({ status: "active", failureCount: 0 });
+  });
+
+  it("suspends a webhook after repeated failed deliveries", async () => {
+    const { webhook, delivery } = queueIssueEvent();
+    responseStatus = 500;
+
+    for (let i = 0; i < SUSPEND_AFTER_FAILURES; i++) {
+      await redeliver(delivery);
+    }
+
+    expect(webhookModel.getWebhook(webhook.id)).toMatchObject({
+      status: "suspended",
+      failureCount: SUSPEND_AFTER_FAILURES,
+    });
+    expect(webhookModel.listDueDeliveries(new Date(Date.now() + 3600_000))).toEqual([]);
+  });
+
+  it("redelivers a payload once as a new delivery", async () => {
+    const { webhook, delivery } = queueIssueEvent();
+    await attemptDelivery(delivery);
+
+    const copy = await redeliver(delivery);
+
+    expect(copy).toMatchObject({ redelivery: true, status: "success", attempts: 1, payload: delivery.payload });
+    expect(copy!.guid).not.toBe(delivery.guid);
+    expect(webhookModel.listDeliveries(webhook.id)).toHaveLength(2);
+    expect(received.map((request) => request.body)).toEqual([delivery.payload, delivery.payload]);
+  });
+
+  it("records a failed attempt when the secret cannot be decrypted", async () => {
+    const { webhook, delivery } = queueIssueEvent();
+    webhookModel.updateWebhook(webhook.id, { secret: "encrypted-with-an-old-key" });
+
+    await expect(processDueDeliveries(new Date(Date.now() + 1000))).resolves.toBe(1);
+
+    const [failed] = webhookModel.listDeliveries(webhook.id);
+    expect(failed.id).toBe(delivery.id);
+    expect(failed).toMatchObject({ status: "pending", attempts: 1 });
+    expect(failed.error).toBe("Webhook secret could not be decrypted; set the secret again");
+    expect(received).toEqual([]);
+  });
+
+  it("refuses to deliver to internal addresses unless they are allowed", async () => {
+    const { webhook, delivery } = queueIssueEvent();
+    delete process.env.OUTBOUND_ALLOW_INTERNAL;
+    resetConfig();
+
+    const failed = await attemptDelivery(delivery);
+
+    expect(failed).toMatchObject({ status: "pending", attempts: 1 });
+    expect(failed!.error).toBe("Host 127.0.0.1 resolves to an internal address");
+    expect(webhookModel.getWebhook(webhook.id)!.status).toBe("failing");
+    expect(received).toEqual([]);
+  });
+
+  it("delivers tag events as create and release events", async () => {
+    const { owner, project, webhook } = setupWebhook(["create", "release"]);
+    const unsubscribe = subscribeWebhooks();
+
+    try {
+      publishEvent("git.tag.created", {
+        repositoryId: project.id,
+        tagName: "v1.0.0",
+        sha: "a".repeat(40),
+        actor: { userId: owner.id, name: "Alice", email: "alice@example.com", username: "alice" },
+      }, { actorId: owner.id });
+      await dispatchPendingEvents();
+    } finally {
+      unsubscribe();
+    }
+
+    const deliveries = webhookModel.listDeliveries(webhook.id);
+    expect(deliveries.map((delivery) => delivery.event).sort()).toEqual(["create", "release"]);
+    expect(deliveries.find((delivery) => delivery.event === "release")).toMatchObject({ action: "published" });
+  });
+});
@@ -1,10 +1,24 @@
 import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { afterEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { generateToken } from "@platform/auth";
+import { getConfig, resetConfig } from "../../config/app-config.js";
+import { closeDb } from "../../db/connection.js";
+import { runMigrations } from "../../db/migrations.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../../db/repositories/workflow-run-repo.js";
+import { appendWorkflowLog } from "../workflow-orchestrator.js";
 import {
   assertSingleActiveWebSocketGateway,
   closeWebSocketGateway,
   createWebSocketGateway,
   getWebSocketGatewayInstanceCount,
+  workflowRunRoom,
 } from "../websocket-gateway.js";
 
 describe("websocket-gateway singleton lifecycle", () => {
@@ -35,3 +49,75 @@ describe("websocket-gateway singleton lifecycle", () => {
     server.close();
   });
 });
+
+describe("websocket-gateway workflow run logs", () => {
+  let tempDir: string;
+  let server: http.Server;
+
+  afterEach(() => {
+    closeWebSocketGateway();
+    server?.close();
+    closeDb();
+    resetConfig();
+    delete process.env.SQLITE_PATH;
+    delete process.env.DATA_DIR;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("replays a run's logs past the client's offsets, then streams new lines", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "websocket-gateway-test-"));
+    process.env.SQLITE_PATH = join(tempDir, "platform.sqlite");
+    process.env.DATA_DIR = tempDir;
+    resetConfig();
+    closeDb();
+    runMigrations();
+
+    const user = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    const project = createProject({ name: "app", slug: "app", ownerId: user.id, storagePath: "repos/app" });
+    workflowRunRepo.createRun({
+      id: "run-1",
+      projectId: project.id,
+      name: "CI",
+      event: "push",
+      headBranch: "main",
+      jobs: [{ key: "build", name: "build", group: "build", needs: [], steps: ["Install"] }],
+    });
+    appendWorkflowLog("run-1", "build", { timestamp: "t1", log: "cloning", level: "info" });
+    appendWorkflowLog("run-1", "build", { timestamp: "t2", log: "[Workflow] Step 1/1: Install", level: "info" });
+
+    server = http.createServer();
+    createWebSocketGateway(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const ws = new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`);
+    const logs: Array<{ job: string; offset: number; nextOffset: number; content: string }> = [];
+    const received = (count: number) =>
+      new Promise<void>((resolve) => {
+        const check = () => (logs.length >= count ? resolve() : setTimeout(check, 5));
+        check();
+      });
+
+    ws.on("message", (raw) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.type === "auth:success") {
+        ws.send(JSON.stringify({ type: "join", room: workflowRunRoom("run-1"), data: { offsets: { build: "t1 cloning\n".length } } }));
+      } else if (msg.type === "workflow:log") {
+        logs.push(msg.data);
+      }
+    });
+    await new Promise((resolve) => ws.on("open", resolve));
+    ws.send(JSON.stringify({
+      type: "auth",
+      token: generateToken({ userId: user.id, username: "alice", role: "user" }, getConfig().jwt.secret),
+    }));
+
+    await received(1);
+    expect(logs[0]).toEqual({ job: "build", offset: 11, nextOffset: 31, content: "t2 ::group::Install\n" });
+
+    appendWorkflowLog("run-1", "build", { timestamp: "t3", log: "\u001b[32madded 12 packages\u001b[0m", level: "info" });
+    await received(2);
+    expect(logs[1]).toEqual({ job: "build", offset: 31, nextOffset: 61, content: "t3 \u001b[32madded 12 packages\u001b[0m\n" });
+
+    ws.close();
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project } from "@platform/shared";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import { resolveWorkflowActions } from "../workflow-actions-service.js";
+
+const action = (message: string) => `
+name: Say
+runs:
+  using: composite
+  steps:
+    - run: echo ${message}
+`;
+
+const workflow = (...uses: string[]) => `
+jobs:
+  build:
+    steps:
+${uses.map((value) => `      - uses: ${value}\n`).join("")}`;
+
+describe("workflow-actions-service", () => {
+  let tempDir: string;
+  let app: Project;
+
+  const git = (repoPath: string, ...args: string[]) =>
+    execFileSync("git", ["-C", repoPath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  const repository = (name: string, ownerId: string, isPrivate = false) => {
+    const storagePath = join(tempDir, name);
+    mkdirSync(storagePath);
+    git(storagePath, "init", "-q", "-b", "main");
+    return createProject({ name, slug: name, ownerId, isPrivate, storagePath });
+  };
+
+  const commit = (project: Project, file: string, content: string) => {
+    mkdirSync(join(project.storagePath, file, ".."), { recursive: true });
+    writeFileSync(join(project.storagePath, file), content);
+    git(project.storagePath, "add", "-A");
+    git(project.storagePath, "commit", "-qm", `update ${file}`);
+    return git(project.storagePath, "rev-parse", "HEAD");
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("workflow-actions-test-");
+
+    const alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    app = repository("app", alice.id);
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("reads local actions at the run's commit and pins repository actions to their commit", async () => {
+    const bob = createUser({ username: "bob", email: "bob@example.com", passwordHash: "x" });
+    const tools = repository("tools", bob.id);
+    const first = commit(tools, "say/action.yml", action("one"));
+    git(tools.storagePath, "tag", "v1");
+    const sha = commit(app, ".gittic/actions/build/action.yaml", action("local"));
+
+    const content = workflow("./.gittic/actions/build", "bob/tools/say@v1");
+    const resolved = await resolveWorkflowActions(app, sha, content);
+    expect(resolved.manifests["./.gittic/actions/build"]).toContain("echo local");
+    expect(resolved.manifests["bob/tools/say@v1"]).toContain("echo one");
+    expect(resolved.actions).toEqual([{ uses: "bob/tools/say@v1", repository: "bob/tools", path: "say", sha: first }]);
+
+    commit(tools, "say/action.yml", action("two"));
+    git(tools.storagePath, "tag", "-f", "v1");
+    expect((await resolveWorkflowActions(app, sha, content)).manifests["bob/tools/say@v1"]).toContain("echo two");
+    expect((await resolveWorkflowActions(app, sha, content, resolved.actions)).manifests["bob/tools/say@v1"]).toContain("echo one");
+  });
+
+  it("refuses actions the workflow's owner cannot read or that don't exist", async () => {
+    const carol = createUser({ username: "carol", email: "carol@example.com", passwordHash: "x" });
+    const secret = repository("secret", carol.id, true);
+    commit(secret, "action.yml", action("hidden"));
+    const sha = commit(app, "README.md", "app\n");
+
+    await expect(resolveWorkflowActions(app, sha, workflow("carol/secret@main"))).rejects.toThrow("does not exist or is not accessible");
+    await expect(resolveWorkflowActions(app, sha, workflow("alice/app@nope"))).rejects.toThrow('refers to "nope"');
+    await expect(resolveWorkflowActions(app, sha, workflow("./missing"))).rejects.toThrow("has no action.yml or action.yaml");
+  });
+});
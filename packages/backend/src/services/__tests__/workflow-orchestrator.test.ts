@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { compileWorkflow } from "@platform/cluster";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../../db/repositories/workflow-run-repo.js";
+import { readJobLog } from "../workflow-log-store.js";
+
+const scheduled: Array<{ jobId: string; image: string }> = [];
+const scheduledEnv = new Map<string, Record<string, string>>();
+const scheduledEntrypoints = new Map<string, string>();
+const checks = new Map<string, string>();
+
+vi.mock("../cluster-scheduler.js", () => ({
+  scheduleJob: vi.fn(async (request: {
+    jobId: string;
+    job: { dockerfile: string; entrypoint: string };
+    env: Record<string, string>;
+  }) => {
+    scheduled.push({ jobId: request.jobId, image: request.job.dockerfile.split("\n")[0] });
+    scheduledEnv.set(request.jobId, request.env);
+    scheduledEntrypoints.set(request.jobId, request.job.entrypoint);
+    return { success: true, message: "scheduled", clusterId: "cluster-1" };
+  }),
+  cancelJob: vi.fn(async () => ({ success: true, message: "cancelled" })),
+}));
+
+vi.mock("../../db/repositories/pr-status-check-repo.js", () => ({
+  upsertForPr: vi.fn((_prId: string, checkName: string, status: string) => {
+    checks.set(checkName, status);
+  }),
+}));
+
+const {
+  abandonInterruptedRuns,
+  appendWorkflowLog,
+  cancelWorkflowRun,
+  completeWorkflowJob,
+  getWorkflowRun,
+  startWorkflowRun,
+} = await import("../workflow-orchestrator.js");
+
+const WORKFLOW = `
+name: CI
+jobs:
+  test:
+    image: node:\${{ matrix.node }}
+    strategy:
+      matrix:
+        node: [18, 20]
+    steps:
+      - run: npm test
+  deploy:
+    needs: test
+    steps:
+      - run: ./deploy.sh
+`;
+
+const STEPS = `
+name: Build
+jobs:
+  build:
+    steps:
+      - name: Install
+        run: npm ci
+      - name: Test
+        run: npm test
+`;
+
+const RUN = {
+  workflowId: "run-2",
+  userTier: "free",
+  repositoryUrl: "",
+  branch: "main",
+  event: "push",
+};
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("workflow-orchestrator", () => {
+  let tempDir: string;
+  let projectId: string;
+  let userId: string;
+
+  beforeEach(() => {
+    scheduled.length = 0;
+    scheduledEnv.clear();
+    scheduledEntrypoints.clear();
+    checks.clear();
+    tempDir = createTempDatabase("workflow-orchestrator-test-");
+
+    userId = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" }).id;
+    projectId = createProject({ name: "app", slug: "app", ownerId: userId, storagePath: "repos/app" }).id;
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("schedules each matrix combination as its own job and reports it as a status check", async () => {
+    const workflow = compileWorkflow(WORKFLOW, { cores: 2, memoryGB: 2 });
+    startWorkflowRun(workflow, {
+      workflowId: "run-1",
+      repositoryId: projectId,
+      userId,
+      userTier: "free",
+      repositoryUrl: "",
+      branch: "main",
+      pullRequestId: "pr-1",
+      event: "pull_request",
+    });
+    await settle();
+
+    expect(scheduled).toEqual([
+      { jobId: "test-1", image: "FROM node:18" },
+      { jobId: "test-2", image: "FROM node:20" },
+    ]);
+    expect(checks.get("CI / test (18)")).toBe("pending");
+
+    expect(completeWorkflowJob("run-1", "test-1", { status: "success", stepOutputs: {} })).toBe(true);
+    await settle();
+    expect(checks.get("CI / test (18)")).toBe("success");
+    expect(scheduled.map((job) => job.jobId)).not.toContain("deploy");
+
+    completeWorkflowJob("run-1", "test-2", { status: "failed", stepOutputs: {}, error: "exit 1" });
+    await settle();
+
+    expect(getWorkflowRun("run-1")?.status).toBe("failure");
+    expect(Object.fromEntries(checks)).toEqual({
+      "CI / test (18)": "success",
+      "CI / test (20)": "failure",
+      "CI / deploy": "success",
+    });
+    expect(completeWorkflowJob("run-1", "test-2", { status: "success", stepOutputs: {} })).toBe(false);
+  });
+
+  it("persists the run, its jobs' steps and their logs", async () => {
+    const workflow = compileWorkflow(STEPS, { cores: 2, memoryGB: 2 });
+    startWorkflowRun(workflow, { ...RUN, repositoryId: projectId, userId });
+    await settle();
+
+    const [job] = workflowRunRepo.listJobs("run-2");
+    expect(appendWorkflowLog("run-2", "build", { timestamp: "t1", log: "[Workflow] Step 1/2: Install", level: "info" })).toBe(true);
+    expect(appendWorkflowLog("run-2", "build", { timestamp: "t2", log: "[Workflow] Step 2/2: Test", level: "info" })).toBe(true);
+    expect(appendWorkflowLog("run-2", "missing", { timestamp: "t3", log: "lost", level: "info" })).toBe(false);
+    expect(workflowRunRepo.listSteps(job.id).map((step) => [step.name, step.status, step.conclusion])).toEqual([
+      ["Install", "completed", "success"],
+      ["Test", "in_progress", undefined],
+    ]);
+
+    completeWorkflowJob("run-2", "build", { status: "failed", stepOutputs: {}, error: "exit 1" });
+    await settle();
+
+    expect(workflowRunRepo.findRunById("run-2")).toMatchObject({ status: "completed", conclusion: "failure", event: "push", runNumber: 1 });
+    expect(workflowRunRepo.listSteps(job.id).map((step) => step.conclusion)).toEqual(["success", "failure"]);
+    const completedAt = workflowRunRepo.findJobById(job.id)!.completedAt;
+    expect(readJobLog(job.id).content).toBe(
+      "t1 ::group::Install\nt2 ::endgroup::\nt2 ::group::Test\n" +
+      `${completedAt} ::endgroup::\n${completedAt} ##[error]exit 1\n`
+    );
+    expect(getWorkflowRun("run-2")?.jobs.map((state) => state.status)).toEqual(["failure"]);
+  });
+
+  it("gives jobs the run's github context and follows steps as they finish or are skipped", async () => {
+    const workflow = compileWorkflow(`
+jobs:
+  build:
+    steps:
+      - name: Test
+        run: npm test
+      - name: Publish
+        if: github.ref_name == 'release'
+        run: npm publish
+      - name: Report
+        if: failure()
+        run: ./report.sh \${{ github.repository }}
+`, { cores: 2, memoryGB: 2 });
+    startWorkflowRun(workflow, { ...RUN, workflowId: "run-5", repositoryId: projectId, userId });
+    await settle();
+
+    expect(scheduledEntrypoints.get("build")).toContain("export GITTIC_EXPR_1='alice/app'\n./report.sh ${GITTIC_EXPR_1}");
+
+    const [job] = workflowRunRepo.listJobs("run-5");
+    for (const [timestamp, log] of [["t1", "Step 1/3: Test"], ["t2", "Step 1/3 finished: 1"], ["t3", "Step 2/3 skipped"], ["t4", "Step 3/3: Report"]]) {
+      appendWorkflowLog("run-5", "build", { timestamp, log, level: "info" });
+    }
+    completeWorkflowJob("run-5", "build", { status: "failed", stepOutputs: {} });
+    await settle();
+
+    expect(workflowRunRepo.listSteps(job.id).map((step) => step.conclusion)).toEqual(["failure", "skipped", "failure"]);
+    expect(readJobLog(job.id).content).toContain(
+      "t1 ::group::Test\nt2 ##[error]Process completed with exit code 1\nt2 ::endgroup::\nt4 ::group::Report\n"
+    );
+  });
+
+  it("passes the secrets a job references to the cluster and masks them in its log", async () => {
+    const workflow = compileWorkflow(`
+jobs:
+  publish:
+    steps:
+      - run: npm publish --token \${{ secrets.NPM_TOKEN }}
+`, { cores: 2, memoryGB: 2 });
+    startWorkflowRun(workflow, {
+      ...RUN,
+      workflowId: "run-4",
+      repositoryId: projectId,
+      userId,
+      secrets: { NPM_TOKEN: "npm_abc123", UNUSED: "other" },
+    });
+    await settle();
+
+    expect(scheduledEnv.get("publish")).toEqual({ GITTIC_SECRET_NPM_TOKEN: "npm_abc123" });
+
+    const [job] = workflowRunRepo.listJobs("run-4");
+    appendWorkflowLog("run-4", "publish", { timestamp: "t1", log: "auth npm_abc123 ok", level: "info" });
+    expect(readJobLog(job.id).content).toBe("t1 auth *** ok\n");
+  });
+
+  it("cancels running jobs and concludes runs left behind by a restart", async () => {
+    const workflow = compileWorkflow(STEPS, { cores: 2, memoryGB: 2 });
+    startWorkflowRun(workflow, { ...RUN, workflowId: "run-3", repositoryId: projectId, userId });
+    await settle();
+
+    expect(cancelWorkflowRun("run-3")).toBe(true);
+    await settle();
+    expect(workflowRunRepo.findRunById("run-3")).toMatchObject({ status: "completed", conclusion: "cancelled" });
+    expect(cancelWorkflowRun("run-3")).toBe(false);
+
+    startWorkflowRun(workflow, { ...RUN, workflowId: "run-4", repositoryId: projectId, userId });
+    await settle();
+    expect(abandonInterruptedRuns()).toBe(1);
+    expect(workflowRunRepo.findRunById("run-4")).toMatchObject({ status: "completed", conclusion: "cancelled", runNumber: 2 });
+    expect(workflowRunRepo.listJobs("run-4")[0].error).toBe("Interrupted by a server restart");
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Project } from "@platform/shared";
+import { createTempDatabase, removeTempDatabase } from "../../db/__tests__/temp-database.js";
+import { createUser } from "../../db/repositories/user-repo.js";
+import { createProject } from "../../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../../db/repositories/workflow-run-repo.js";
+import * as artifactRepo from "../../db/repositories/workflow-artifact-repo.js";
+import {
+  archivePath,
+  parseRetentionDays,
+  purgeExpiredWorkflowStorage,
+  restoreCache,
+  storeArtifact,
+  storeCache,
+} from "../workflow-storage-service.js";
+
+async function* body(content: string) {
+  yield Buffer.from(content);
+}
+
+describe("workflow-storage-service", () => {
+  let tempDir: string;
+  let project: Project;
+
+  const startRun = (id: string, headBranch = "main") => {
+    const run = workflowRunRepo.createRun({
+      id,
+      projectId: project.id,
+      name: "CI",
+      event: "push",
+      headBranch,
+      jobs: [{ key: "build", name: "build", group: "build", needs: [], steps: ["Build"] }],
+    });
+    return { run, job: workflowRunRepo.findJobByKey(run.id, "build")! };
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDatabase("workflow-storage-test-");
+
+    const alice = createUser({ username: "alice", email: "alice@example.com", passwordHash: "x" });
+    project = createProject({ name: "app", slug: "app", ownerId: alice.id, storagePath: join(tempDir, "app.git") });
+  });
+
+  afterEach(() => {
+    removeTempDatabase(tempDir);
+  });
+
+  it("replaces artifacts by name within a run and purges them once their retention ends", async () => {
+    const { run, job } = startRun("run-1");
+    const first = await storeArtifact(run, job, "dist", body("one"), 1);
+    const second = await storeArtifact(run, job, "dist", body("two"), 3);
+
+    expect(artifactRepo.listArtifacts(run.id).map((artifact) => artifact.id)).toEqual([second.id]);
+    expect(existsSync(archivePath("artifacts", first.id))).toBe(false);
+    expect(readFileSync(archivePath("artifacts", second.id), "utf8")).toBe("two");
+
+    const orphan = archivePath("artifacts", "gone");
+    writeFileSync(orphan, "x");
+    expect(purgeExpiredWorkflowStorage(new Date(Date.now() + 2 * 86_400_000))).toBe(1);
+    expect(existsSync(orphan)).toBe(false);
+    expect(purgeExpiredWorkflowStorage(new Date(Date.now() + 4 * 86_400_000))).toBe(1);
+    expect(artifactRepo.listArtifacts(run.id)).toEqual([]);
+  });
+
+  it("accepts retention from one to ninety days", () => {
+    expect(parseRetentionDays(undefined)).toBe(7);
+    expect(parseRetentionDays("30")).toBe(30);
+    expect(parseRetentionDays("0")).toBeNull();
+    expect(parseRetentionDays("1.5")).toBeNull();
+    expect(parseRetentionDays("91")).toBeNull();
+  });
+
+  it("restores exact keys before restore-key prefixes and falls back to the default branch", async () => {
+    await storeCache(project, "main", "deps-linux-aaa", body("main-aaa"));
+    await storeCache(project, "main", "deps-linux-bbb", body("main-bbb"));
+    await storeCache(project, "feature", "deps-linux-ccc", body("feature-ccc"));
+
+    expect(restoreCache(project, "feature", "deps-linux-ccc", ["deps-linux-"])).toMatchObject({
+      cache: { ref: "feature", key: "deps-linux-ccc" },
+      exact: true,
+    });
+    expect(restoreCache(project, "feature", "deps-linux-ddd", ["deps-linux-"])).toMatchObject({
+      cache: { ref: "feature", key: "deps-linux-ccc" },
+      exact: false,
+    });
+    expect(restoreCache(project, "other", "deps-linux-aaa", ["deps-"])).toMatchObject({
+      cache: { ref: "main", key: "deps-linux-aaa" },
+      exact: true,
+    });
+    expect(restoreCache(project, "other", "deps-mac-aaa", ["deps-mac-", "deps-linux-"])).toMatchObject({
+      cache: { ref: "main", key: "deps-linux-bbb" },
+      exact: false,
+    });
+    expect(restoreCache(project, "main", "deps-linux-ccc", [])).toBeNull();
+  });
+
+  it("never overwrites a cache saved under the same key on a branch", async () => {
+    const saved = await storeCache(project, "main", "deps", body("first"));
+    expect(await storeCache(project, "main", "deps", body("second"))).toBeNull();
+    expect(readFileSync(archivePath("caches", saved!.id), "utf8")).toBe("first");
+    expect(await storeCache(project, "feature", "deps", body("second"))).not.toBeNull();
+  });
+});
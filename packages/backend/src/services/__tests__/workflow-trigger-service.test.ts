@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { GitPushPayload, Project } from "@platform/shared";
+
+type StartInput = { name: string; branch: string; pullRequestId?: string; secrets?: Record<string, string> };
+
+const started: Array<{ name: string; branch: string; pullRequestId?: string; jobs: string[]; secrets?: Record<string, string> }> = [];
+
+vi.mock("../workflow-orchestrator.js", () => ({
+  startWorkflowRun: vi.fn((workflow: { jobs: Array<{ id: string }> }, input: StartInput) => {
+    started.push({
+      name: input.name,
+      branch: input.branch,
+      pullRequestId: input.pullRequestId,
+      jobs: workflow.jobs.map((job) => job.id),
+      secrets: input.secrets,
+    });
+    return input;
+  }),
+}));
+
+vi.mock("../../db/repositories/user-repo.js", () => ({
+  findById: (id: string) => ({ id, username: id === "owner-1" ? "alice" : "bob" }),
+}));
+
+vi.mock("../actions-secrets-service.js", () => ({
+  resolveSecrets: () => ({ NPM_TOKEN: "s3cret" }),
+  resolveVariables: () => [],
+}));
+
+vi.mock("../repository-permission-service.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../repository-permission-service.js")>()),
+  resolveProjectPermission: (_project: Project, subject?: { userId: string }) => (subject?.userId === "owner-1" ? "admin" : "read"),
+}));
+
+vi.mock("../../db/repositories/subscription-repo.js", () => ({
+  getEffectiveTier: () => "free",
+}));
+
+vi.mock("../../db/repositories/workflow-run-repo.js", () => ({
+  upsertDefinition: (projectId: string, path: string) => ({ id: `${projectId}:${path}` }),
+}));
+
+const { triggerPullRequestWorkflows, triggerPushWorkflows } = await import("../workflow-trigger-service.js");
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+const CI = `
+name: CI
+on:
+  push:
+    branches: [main]
+    paths-ignore: ["docs/**"]
+  pull_request:
+    branches: [main]
+jobs:
+  test:
+    steps:
+      - run: npm test
+`;
+
+const RELEASE = `
+on:
+  tag:
+    tags: ["v*"]
+jobs:
+  publish:
+    steps:
+      - run: npm publish
+`;
+
+describe("workflow-trigger-service", () => {
+  let repoPath: string;
+  let project: Project;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", repoPath, "-c", "user.name=T", "-c", "user.email=t@example.com", ...args], { encoding: "utf8" }).trim();
+
+  const commit = (file: string, content: string) => {
+    mkdirSync(join(repoPath, file, ".."), { recursive: true });
+    writeFileSync(join(repoPath, file), content);
+    git("add", "-A");
+    git("commit", "-qm", `update ${file}`);
+    return git("rev-parse", "HEAD");
+  };
+
+  const push = (ref: string, beforeSha: string, afterSha: string): GitPushPayload => ({
+    repositoryId: project.id,
+    ref,
+    refName: ref.replace(/^refs\/(heads|tags)\//, ""),
+    beforeSha,
+    afterSha,
+    created: beforeSha === ZERO_SHA,
+    deleted: false,
+    forced: false,
+    commitCount: 1,
+    commits: [],
+    pusher: { name: "alice", email: "" },
+  });
+
+  beforeEach(() => {
+    started.length = 0;
+    repoPath = mkdtempSync(join(tmpdir(), "workflow-trigger-test-"));
+    git("init", "-q", "-b", "main");
+    project = { id: "project-1", ownerId: "owner-1", slug: "app", storagePath: repoPath } as Project;
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it("runs the push workflows committed at the new SHA, honouring branch and path filters", async () => {
+    commit(".gittic/workflows/ci.yaml", CI);
+    const base = commit(".gittic/workflows/release.yml", RELEASE);
+    const code = commit("src/index.ts", "export {};\n");
+    const docs = commit("docs/guide.md", "# Guide\n");
+
+    await triggerPushWorkflows(project, push("refs/heads/main", base, code), "user-1");
+    expect(started).toEqual([
+      { name: "CI", branch: "main", pullRequestId: undefined, jobs: ["test"], secrets: { NPM_TOKEN: "s3cret" } },
+    ]);
+
+    started.length = 0;
+    await triggerPushWorkflows(project, push("refs/heads/main", code, docs), "user-1");
+    await triggerPushWorkflows(project, push("refs/heads/feature", ZERO_SHA, docs), "user-1");
+    expect(started).toEqual([]);
+
+    await triggerPushWorkflows(project, push("refs/tags/v1.0.0", ZERO_SHA, docs), "user-1");
+    expect(started.map((run) => [run.name, run.branch])).toEqual([["release", "v1.0.0"]]);
+  });
+
+  it("runs pull request workflows on the head commit and reports to the pull request", async () => {
+    commit("README.md", "hello\n");
+    git("checkout", "-qb", "feature");
+    const head = commit(".gittic/workflows/ci.yaml", CI);
+
+    await triggerPullRequestWorkflows(project, "synchronize", {
+      repositoryId: project.id,
+      pullRequestId: "pr-1",
+      number: 1,
+      title: "Add CI",
+      state: "open",
+      authorId: "user-1",
+      baseBranch: "main",
+      headBranch: "feature",
+      headSha: head,
+    });
+
+    // The author cannot push to the repository, so the run gets no secrets
+    expect(started).toEqual([{ name: "CI", branch: "feature", pullRequestId: "pr-1", jobs: ["test"], secrets: {} }]);
+  });
+});
@@ -0,0 +1,112 @@
+import type { Project, ResolvedVariable, VariableScope } from "@platform/shared";
+import * as actionsSecretRepo from "../db/repositories/actions-secret-repo.js";
+import type { ActionsScopeRef } from "../db/repositories/actions-secret-repo.js";
+import { decryptSecret, encryptSecret } from "./credential-encryption.js";
+
+/**
+ * Actions secrets and variables.
+ *
+ * Both can be defined for an organization, a repository, a deployment
+ * environment and a single workflow. A run sees the narrowest
+ * definition of every name: workflow over environment over repository
+ * over organization. Secret values are encrypted at rest and masked in
+ * job logs; variables are plain configuration exposed as `vars.<name>`.
+ */
+
+/** Names are upper-cased and may contain letters, digits and underscores */
+const NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+
+/** Prefix of the environment variables the platform sets itself */
+const RESERVED_PREFIX = "GITTIC_";
+
+/** Text that replaces secret values in logs */
+export const SECRET_MASK = "***";
+
+/** What a workflow run is running for, which decides the values it sees */
+export interface RunScopes {
+  project: Project;
+  /** Workflow definition the run belongs to */
+  definitionId?: string;
+  /** Deployment environment the run targets */
+  environmentId?: string;
+}
+
+/**
+ * Normalise a secret or variable name, or return null when the name is
+ * not allowed
+ */
+export function normalizeName(name: string): string | null {
+  const normalized = name.toUpperCase();
+  if (!NAME_PATTERN.test(normalized) || normalized.startsWith(RESERVED_PREFIX)) return null;
+  return normalized;
+}
+
+/**
+ * Encrypt and store a secret. Returns true when it was created.
+ */
+export function storeSecret(ref: ActionsScopeRef, name: string, value: string, actorId: string): boolean {
+  return actionsSecretRepo.setSecret(ref, name, encryptSecret(value), actorId);
+}
+
+/**
+ * Scopes a run's values come from, broadest first
+ */
+function scopeChain(scopes: RunScopes): ActionsScopeRef[] {
+  const chain: ActionsScopeRef[] = [];
+  if (scopes.project.orgId) chain.push({ scope: "organization", scopeId: scopes.project.orgId });
+  chain.push({ scope: "project", scopeId: scopes.project.id });
+  if (scopes.environmentId) chain.push({ scope: "environment", scopeId: scopes.environmentId });
+  if (scopes.definitionId) chain.push({ scope: "pipeline", scopeId: scopes.definitionId });
+  return chain;
+}
+
+/**
+ * Decrypt the secrets a run receives, keyed by name
+ */
+export function resolveSecrets(scopes: RunScopes): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const ref of scopeChain(scopes)) {
+    for (const secret of actionsSecretRepo.listSecrets(ref)) {
+      secrets[secret.name] = decryptSecret(secret.encryptedValue);
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Resolve the variables a run receives, noting where each value came from
+ */
+export function resolveVariables(scopes: RunScopes): ResolvedVariable[] {
+  const resolved = new Map<string, ResolvedVariable>();
+  for (const ref of scopeChain(scopes)) {
+    for (const variable of actionsSecretRepo.listVariables(ref)) {
+      resolved.set(variable.name, {
+        key: variable.name,
+        value: variable.value,
+        valueType: "string",
+        resolvedFromScope: ref.scope as VariableScope,
+        resolvedFromScopeId: ref.scopeId,
+        isOverridden: resolved.has(variable.name),
+      });
+    }
+  }
+  return [...resolved.values()];
+}
+
+/**
+ * Replace every secret value in a piece of log text. Multi-line values
+ * are masked line by line, since logs are split into lines.
+ */
+export function maskSecrets(text: string, values: string[]): string {
+  const needles = values
+    .flatMap((value) => [value, ...value.split("\n")])
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  let masked = text;
+  for (const needle of new Set(needles)) {
+    masked = masked.split(needle).join(SECRET_MASK);
+  }
+  return masked;
+}
@@ -0,0 +1,121 @@
+import {
+  createApiToken,
+  hashApiToken,
+  isValidApiTokenFormat,
+  tokenHasScope,
+  validateApiToken,
+} from "@platform/auth";
+import type { ApiTokenCreateResult, ApiTokenRecord, ApiTokenScope } from "@platform/auth";
+import type { User } from "@platform/shared";
+import * as apiTokenRepo from "../db/repositories/api-token-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+
+/**
+ * Personal access token service.
+ *
+ * Tokens authenticate REST API calls (as a Bearer token) and git over
+ * HTTPS (as the basic-auth password). Each route group requires a
+ * scope: reads need `read:<resource>`, everything else
+ * `write:<resource>`, and a write scope implies the matching read scope.
+ */
+
+/** Every scope a token can be granted. */
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = [
+  "read:user",
+  "write:user",
+  "read:repos",
+  "write:repos",
+  "delete:repos",
+  "read:orgs",
+  "write:orgs",
+  "read:pipelines",
+  "write:pipelines",
+  "read:clusters",
+  "write:clusters",
+  "admin:all",
+];
+
+/** Longest allowed token lifetime (1 year). */
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+/** Route groups a token scope can apply to. */
+export type TokenScopeResource = "user" | "repos" | "orgs" | "pipelines" | "clusters" | "admin";
+
+/** A valid token together with the user it belongs to. */
+export interface AuthenticatedApiToken {
+  token: ApiTokenRecord;
+  user: User;
+}
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Whether a string looks like a personal access token rather than a
+ * password or JWT.
+ */
+export function isApiToken(value: string): boolean {
+  return isValidApiTokenFormat(value);
+}
+
+/**
+ * Resolve a plain-text token to its record and owner. Returns null for
+ * unknown, revoked and expired tokens and for suspended accounts.
+ */
+export function authenticateApiToken(plainToken: string): AuthenticatedApiToken | null {
+  if (!isValidApiTokenFormat(plainToken)) return null;
+
+  const record = apiTokenRepo.findByHash(hashApiToken(plainToken));
+  if (!record || !validateApiToken(plainToken, [record])) return null;
+
+  const user = userRepo.findById(record.userId);
+  if (!user || user.suspended) return null;
+
+  apiTokenRepo.touchLastUsed(record.id);
+  return { token: record, user };
+}
+
+/**
+ * Check a token's scopes. Write scopes imply the matching read scope.
+ */
+export function hasScope(scopes: readonly ApiTokenScope[], scope: ApiTokenScope): boolean {
+  const record = { scopes: [...scopes] } as ApiTokenRecord;
+  if (tokenHasScope(record, scope)) return true;
+  return scope.startsWith("read:")
+    && tokenHasScope(record, scope.replace("read:", "write:") as ApiTokenScope);
+}
+
+/**
+ * Scope a request to a route group needs. `path` is relative to the
+ * group's mount point; deleting a repository itself needs `delete:repos`.
+ */
+export function requiredScope(resource: TokenScopeResource, method: string, path: string): ApiTokenScope {
+  if (resource === "admin") return "admin:all";
+
+  if (READ_METHODS.has(method.toUpperCase())) {
+    return `read:${resource}` as ApiTokenScope;
+  }
+  if (resource === "repos" && method.toUpperCase() === "DELETE" && /^\/[^/]+(\/[^/]+)?\/?$/.test(path)) {
+    return "delete:repos";
+  }
+  return `write:${resource}` as ApiTokenScope;
+}
+
+/**
+ * Create and store a token. The plain-text token is only available in
+ * the returned result.
+ */
+export function issueToken(
+  userId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresInDays?: number,
+): ApiTokenCreateResult {
+  const { plainToken, record } = createApiToken({
+    userId,
+    name,
+    scopes: [...new Set(scopes)],
+    expiresInMs: expiresInDays ? expiresInDays * 24 * 60 * 60 * 1000 : null,
+  });
+
+  return { plainToken, record: apiTokenRepo.create(record) };
+}
@@ -0,0 +1,247 @@
+import { matchesFilterPatterns } from "@platform/cluster";
+import type { BranchProtection, BranchProtectionRulePayload, Project } from "@platform/shared";
+import * as branchProtectionRepo from "../db/repositories/branch-protection-repo.js";
+import type { BranchProtectionRuleData } from "../db/repositories/branch-protection-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+
+/**
+ * Branch protection.
+ *
+ * A branch is protected by every rule of its repository, and of the
+ * repository's organization, whose pattern matches its name. Where rules
+ * overlap the strictest setting wins. A rule doesn't apply to the users
+ * on its bypass list. The combined protection gates pull request merges,
+ * git pushes and changes made in the browser alike.
+ */
+
+/** The user a protection check is made for. */
+export interface ProtectionActor {
+  userId: string;
+  role: string;
+}
+
+/** The protection a branch gets from the rules that apply to it */
+export interface BranchProtectionSettings {
+  projectId: string;
+  /** Patterns of the rules that apply; empty when the branch is unprotected */
+  patterns: string[];
+  requirePullRequest: boolean;
+  requiredApprovingReviewCount: number;
+  requireStatusChecks: boolean;
+  requiredStatusChecks: string[];
+  enforceAdmins: boolean;
+  requireLinearHistory: boolean;
+  /** Dismiss approvals when new commits are pushed to a pull request */
+  dismissStaleReviews: boolean;
+  /** Require an approval from an owner of each CODEOWNERS area changed */
+  requireCodeOwnerReviews: boolean;
+  requireSignedCommits: boolean;
+  /** Pull requests land through the branch's merge queue */
+  requireMergeQueue: boolean;
+  allowForcePushes: boolean;
+  allowDeletions: boolean;
+  restrictPushes: boolean;
+  /** User ids every restricting rule lets push */
+  pushAllowances: string[];
+}
+
+const BOOLEAN_SETTINGS = [
+  "requirePullRequest",
+  "dismissStaleReviews",
+  "requireCodeOwnerReviews",
+  "requireStatusChecks",
+  "enforceAdmins",
+  "requireLinearHistory",
+  "requireSignedCommits",
+  "requireMergeQueue",
+  "allowForcePushes",
+  "allowDeletions",
+  "restrictPushes",
+] as const;
+
+/** Most approvals a rule can require */
+const MAX_REQUIRED_APPROVALS = 10;
+
+/**
+ * Whether a rule's pattern matches a branch name
+ */
+export function matchesBranch(pattern: string, branch: string): boolean {
+  return matchesFilterPatterns(branch, [pattern]);
+}
+
+/**
+ * Project owners and site admins, who may push past the pull request
+ * requirement and push restrictions unless a rule enforces them for admins
+ */
+export function isRepoAdmin(project: Project, actor: ProtectionActor | null): boolean {
+  return actor !== null && (project.ownerId === actor.userId || actor.role === "admin");
+}
+
+/**
+ * Combine the rules protecting a branch, taking the strictest of each
+ * setting
+ */
+export function combineRules(projectId: string, rules: BranchProtection[]): BranchProtectionSettings {
+  const restricting = rules.filter((rule) => rule.restrictPushes);
+  const pushAllowances = restricting.length === 0
+    ? []
+    : restricting[0].pushAllowances.filter((userId) =>
+      restricting.every((rule) => rule.pushAllowances.includes(userId)));
+
+  return {
+    projectId,
+    patterns: rules.map((rule) => rule.pattern),
+    requirePullRequest: rules.some((rule) => rule.requirePullRequest),
+    requiredApprovingReviewCount: Math.max(0, ...rules.map((rule) => rule.requiredApprovingReviewCount)),
+    requireStatusChecks: rules.some((rule) => rule.requireStatusChecks),
+    requiredStatusChecks: [...new Set(
+      rules.filter((rule) => rule.requireStatusChecks).flatMap((rule) => rule.requiredStatusChecks),
+    )],
+    enforceAdmins: rules.some((rule) => rule.enforceAdmins),
+    requireLinearHistory: rules.some((rule) => rule.requireLinearHistory),
+    dismissStaleReviews: rules.some((rule) => rule.dismissStaleReviews),
+    requireCodeOwnerReviews: rules.some((rule) => rule.requireCodeOwnerReviews),
+    requireSignedCommits: rules.some((rule) => rule.requireSignedCommits),
+    requireMergeQueue: rules.some((rule) => rule.requireMergeQueue),
+    allowForcePushes: rules.every((rule) => rule.allowForcePushes),
+    allowDeletions: rules.every((rule) => rule.allowDeletions),
+    restrictPushes: restricting.length > 0,
+    pushAllowances,
+  };
+}
+
+/**
+ * The rules whose pattern matches `branch`, ignoring those the actor
+ * bypasses
+ */
+export function rulesForBranch(project: Project, branch: string, actor: ProtectionActor | null = null): BranchProtection[] {
+  return branchProtectionRepo.listRulesForProject(project.id, project.orgId)
+    .filter((rule) => matchesBranch(rule.pattern, branch))
+    .filter((rule) => !actor || !rule.bypassActors.includes(actor.userId));
+}
+
+/**
+ * The protection `branch` has, for `actor` when given
+ */
+export function resolveBranchProtection(
+  project: Project,
+  branch: string,
+  actor: ProtectionActor | null = null
+): BranchProtectionSettings {
+  return combineRules(project.id, rulesForBranch(project, branch, actor));
+}
+
+/**
+ * Whether push restrictions let `actor` update a branch with `protection`
+ */
+export function canPushTo(project: Project, protection: BranchProtectionSettings, actor: ProtectionActor | null): boolean {
+  if (!protection.restrictPushes) return true;
+  if (actor && protection.pushAllowances.includes(actor.userId)) return true;
+  return isRepoAdmin(project, actor) && !protection.enforceAdmins;
+}
+
+/**
+ * Why `actor` may not commit to `branch` from the browser, or null when
+ * they may. Such commits are direct pushes, and unsigned.
+ */
+export function checkBranchUpdate(project: Project, branch: string, actor: ProtectionActor | null): string | null {
+  const protection = resolveBranchProtection(project, branch, actor);
+  if (protection.patterns.length === 0) return null;
+
+  if (!canPushTo(project, protection, actor)) {
+    return `You are not allowed to push to protected branch ${branch}`;
+  }
+  if (protection.requirePullRequest && !(isRepoAdmin(project, actor) && !protection.enforceAdmins)) {
+    return `Protected branch ${branch} can only be updated through a pull request`;
+  }
+  if (protection.requireSignedCommits) {
+    return `Protected branch ${branch} requires signed commits, and changes made in the browser are unsigned`;
+  }
+  return null;
+}
+
+/**
+ * Why `actor` may not delete `branch`, or null when they may
+ */
+export function checkBranchDeletion(project: Project, branch: string, actor: ProtectionActor | null): string | null {
+  const protection = resolveBranchProtection(project, branch, actor);
+  if (protection.patterns.length === 0) return null;
+
+  if (!canPushTo(project, protection, actor)) {
+    return `You are not allowed to push to protected branch ${branch}`;
+  }
+  if (!protection.allowDeletions) {
+    return `Cannot delete protected branch ${branch}`;
+  }
+  return null;
+}
+
+function usernamesToIds(field: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) {
+    throw new Error(`${field} must be a list of usernames`);
+  }
+  return [...new Set(value as string[])].map((username) => {
+    const user = userRepo.findByUsername(username);
+    if (!user) throw new Error(`User ${username} in ${field} does not exist`);
+    return user.id;
+  });
+}
+
+/**
+ * Read rule settings from a request body, where users are given by
+ * username. Settings left out are not changed.
+ */
+export function parseRuleData(body: Record<string, unknown>): BranchProtectionRuleData {
+  const data: BranchProtectionRuleData = {};
+
+  for (const key of BOOLEAN_SETTINGS) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") throw new Error(`${key} must be true or false`);
+    data[key] = value;
+  }
+
+  const approvals = body.requiredApprovingReviewCount;
+  if (approvals !== undefined) {
+    if (typeof approvals !== "number" || !Number.isInteger(approvals) || approvals < 0 || approvals > MAX_REQUIRED_APPROVALS) {
+      throw new Error(`requiredApprovingReviewCount must be a whole number from 0 to ${MAX_REQUIRED_APPROVALS}`);
+    }
+    data.requiredApprovingReviewCount = approvals;
+  }
+
+  const checks = body.requiredStatusChecks;
+  if (checks !== undefined) {
+    if (!Array.isArray(checks) || checks.some((check) => typeof check !== "string" || !check.trim())) {
+      throw new Error("requiredStatusChecks must be a list of check names");
+    }
+    data.requiredStatusChecks = [...new Set((checks as string[]).map((check) => check.trim()))];
+  }
+
+  if (body.pushAllowances !== undefined) data.pushAllowances = usernamesToIds("pushAllowances", body.pushAllowances);
+  if (body.bypassActors !== undefined) data.bypassActors = usernamesToIds("bypassActors", body.bypassActors);
+
+  return data;
+}
+
+/**
+ * A rule as returned by the API, with users given by username
+ */
+export function formatRule(rule: BranchProtection) {
+  const usernames = (ids: string[]) => ids
+    .map((id) => userRepo.findById(id)?.username)
+    .filter((username): username is string => username !== undefined);
+
+  const { scopeId: _scopeId, ...settings } = rule;
+  return {
+    ...settings,
+    pushAllowances: usernames(rule.pushAllowances),
+    bypassActors: usernames(rule.bypassActors),
+  };
+}
+
+/**
+ * The payload of the branch protection events published for a rule
+ */
+export function ruleEvent(rule: BranchProtection): BranchProtectionRulePayload {
+  return { ruleId: rule.id, pattern: rule.pattern, scope: rule.scope, scopeId: rule.scopeId };
+}
@@ -1,5 +1,6 @@
 import * as clusterRepo from "../db/repositories/cluster-repo.js";
 import type { ClusterNode as SharedClusterNode } from "@platform/shared";
+import type { JobContainerSpec } from "@platform/cluster";
 
 /**
  * Cluster Scheduler
@@ -236,19 +237,16 @@ function estimateTotalMemory(cluster: ClusterNode): number {
 }
 
 /**
- * Create a job execution request
+ * Create a job execution request for one compiled workflow job
  */
 export interface JobExecutionRequest {
     workflowId: string;
+    jobId: string;
     repositoryId: string;
     userId: string;
-    yaml: string;
+    job: JobContainerSpec;
     repositoryUrl: string;
     branch?: string;
-    userLimits: {
-        cores: number;
-        memoryGB: number;
-    };
     env: Record<string, string>;
 }
 
@@ -262,10 +260,10 @@ export async function scheduleJob(
     // Get user limits
     const userLimits = getUserLimits(userTier);
 
-    // Estimate resource requirements from limits (actual requirements determined by cluster)
+    // Jobs are compiled with the tier's resources, clamp in case the tier changed since
     const estimatedResources: ResourceRequirements = {
-        cores: Math.min(request.userLimits.cores, userLimits.maxCores),
-        memoryMB: Math.min(request.userLimits.memoryGB * 1024, userLimits.maxMemoryGB * 1024),
+        cores: Math.min(request.job.resources.cores, userLimits.maxCores),
+        memoryMB: Math.min(request.job.resources.memoryMB, userLimits.maxMemoryGB * 1024),
         requiresGPU: false, // TODO: Detect from YAML
     };
 
@@ -296,8 +294,8 @@ export async function scheduleJob(
             },
             body: JSON.stringify({
                 workflowId: request.workflowId,
-                yaml: request.yaml,
-                userLimits: request.userLimits,
+                jobId: request.jobId,
+                job: request.job,
                 repositoryUrl: request.repositoryUrl,
                 branch: request.branch || "main",
                 env: request.env,
@@ -312,7 +310,7 @@ export async function scheduleJob(
             };
         }
 
-        console.log(`[Scheduler] Job sent to cluster ${decision.cluster.name}`);
+        console.log(`[Scheduler] Job ${request.jobId} sent to cluster ${decision.cluster.name}`);
 
         return {
             success: true,
@@ -327,6 +325,42 @@ export async function scheduleJob(
     }
 }
 
+/**
+ * Ask the cluster running a job to stop it
+ */
+export async function cancelJob(
+    clusterId: string,
+    workflowId: string,
+    jobId: string
+): Promise<{ success: boolean; message: string }> {
+    const cluster = clusterRepo.findById(clusterId);
+    if (!cluster) {
+        return { success: false, message: "Cluster not found" };
+    }
+
+    try {
+        const response = await fetch(`${cluster.url}/cancel`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ workflowId, jobId }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json();
+            return { success: false, message: error.error || "Failed to cancel on cluster" };
+        }
+
+        return { success: true, message: `Job cancelled on cluster '${cluster.name}'` };
+    } catch (error: any) {
+        return {
+            success: false,
+            message: `Failed to communicate with cluster: ${error.message}`,
+        };
+    }
+}
+
 /**
  * Get cluster statistics for monitoring
  */
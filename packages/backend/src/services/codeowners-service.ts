@@ -0,0 +1,161 @@
+import * as nodePath from "node:path";
+import { findOwnershipRule, getChangedFiles, parseCodeowners, readCodeowners } from "@platform/git";
+import type { CodeownersError, CodeownersRule } from "@platform/git";
+import type { Project } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as orgRepo from "../db/repositories/org-repo.js";
+import * as prRepo from "../db/repositories/pr-repo.js";
+import type { PullRequest } from "../db/repositories/pr-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+
+/**
+ * Code owners.
+ *
+ * A CODEOWNERS file names the users and organization teams that own a
+ * repository's paths. The owners of the paths a pull request changes
+ * are asked to review it, and branch protection can hold the merge until
+ * every owned area it touches has an approval from one of its owners.
+ * The file on the pull request's base branch is the one that applies.
+ */
+
+/** A CODEOWNERS rule with its owners resolved to user ids */
+export interface ResolvedCodeownersRule extends CodeownersRule {
+  ownerIds: string[];
+}
+
+/** A repository's CODEOWNERS file at some revision */
+export interface ProjectCodeowners {
+  /** Where the file was found; null when there is none */
+  path: string | null;
+  rules: ResolvedCodeownersRule[];
+  /** Lines that could not be used, including unknown owners */
+  errors: CodeownersError[];
+}
+
+/** Paths a pull request changes that share a CODEOWNERS rule */
+export interface CodeOwnerArea {
+  pattern: string;
+  /** Owners as written in the file */
+  owners: string[];
+  paths: string[];
+  /** Usernames of the owners approving the pull request */
+  approvedBy: string[];
+}
+
+/** Who owns the changes of a pull request, and which owners approved them */
+export interface CodeOwnerReview {
+  path: string | null;
+  errors: CodeownersError[];
+  areas: CodeOwnerArea[];
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * User ids an owner reference stands for: `@username`, or `@org/team`
+ * for the members of an organization team. Null when it names no one.
+ */
+function resolveOwner(owner: string): string[] | null {
+  const [name, teamSlug] = owner.slice(1).split("/");
+  if (teamSlug === undefined) {
+    const user = userRepo.findByUsername(name);
+    return user ? [user.id] : null;
+  }
+  const org = orgRepo.findBySlug(name);
+  return org ? orgRepo.listTeamMemberIds(org.id, teamSlug) : null;
+}
+
+/**
+ * Read and resolve the CODEOWNERS file of `ref`. Owners that name no
+ * user or team are reported as errors and otherwise ignored.
+ */
+export async function loadCodeowners(project: Project, ref: string): Promise<ProjectCodeowners> {
+  const file = await readCodeowners(getRepositoryFsRoot(project), ref).catch(() => null);
+  if (!file) return { path: null, rules: [], errors: [] };
+
+  const parsed = parseCodeowners(file.content);
+  const errors = [...parsed.errors];
+  const rules = parsed.rules.map((rule) => {
+    const ownerIds = new Set<string>();
+    for (const owner of rule.owners) {
+      const ids = resolveOwner(owner);
+      if (ids === null) {
+        errors.push({ line: rule.line, message: `Unknown owner "${owner}"` });
+        continue;
+      }
+      for (const id of ids) ownerIds.add(id);
+    }
+    return { ...rule, ownerIds: [...ownerIds] };
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { path: file.path, rules, errors };
+}
+
+/**
+ * Group the paths a pull request changes by the CODEOWNERS rule of its
+ * base branch owning them. Paths without a resolvable owner are left out.
+ */
+async function ownedChanges(
+  project: Project,
+  pr: PullRequest
+): Promise<{ codeowners: ProjectCodeowners; owned: Map<ResolvedCodeownersRule, string[]> }> {
+  const base = `refs/heads/${pr.baseBranch}`;
+  const codeowners = await loadCodeowners(project, base);
+  const owned = new Map<ResolvedCodeownersRule, string[]>();
+  if (codeowners.rules.length === 0) return { codeowners, owned };
+
+  const files = await getChangedFiles(getRepositoryFsRoot(project), base, `refs/heads/${pr.headBranch}`)
+    .catch(() => []);
+  for (const file of files) {
+    const rule = findOwnershipRule(codeowners.rules, file.path) as ResolvedCodeownersRule | null;
+    if (!rule || rule.ownerIds.length === 0) continue;
+    owned.set(rule, [...(owned.get(rule) ?? []), file.path]);
+  }
+  return { codeowners, owned };
+}
+
+/**
+ * The code owner areas a pull request touches, with the owners that
+ * approved each
+ */
+export async function reviewCodeOwners(project: Project, pr: PullRequest): Promise<CodeOwnerReview> {
+  const { codeowners, owned } = await ownedChanges(project, pr);
+  const approvers = new Set(prRepo.listApprovers(pr.id));
+
+  return {
+    path: codeowners.path,
+    errors: codeowners.errors,
+    areas: [...owned].map(([rule, paths]) => ({
+      pattern: rule.pattern,
+      owners: rule.owners,
+      paths,
+      approvedBy: rule.ownerIds
+        .filter((id) => approvers.has(id))
+        .map((id) => userRepo.findById(id)?.username)
+        .filter((username): username is string => username !== undefined),
+    })),
+  };
+}
+
+/**
+ * Request reviews from the owners of the paths a pull request changes,
+ * other than its author.
+ *
+ * @returns The ids of the users newly requested
+ */
+export async function requestCodeOwnerReviews(project: Project, pr: PullRequest): Promise<string[]> {
+  const { owned } = await ownedChanges(project, pr);
+  const owners = new Set([...owned.keys()].flatMap((rule) => rule.ownerIds));
+  owners.delete(pr.authorId);
+
+  const requested = new Set(prRepo.listReviewerIds(pr.id));
+  const added = [...owners].filter((id) => !requested.has(id));
+  for (const id of added) prRepo.addReviewer(pr.id, id);
+  return added;
+}
@@ -0,0 +1,24 @@
+import { decrypt, encrypt } from "@platform/utils";
+import type { EncryptedPayload } from "@platform/utils";
+import { getConfig } from "../config/app-config.js";
+
+/**
+ * Encryption at rest for credentials the platform has to store in
+ * recoverable form (mirror passwords, tokens). Values are sealed with
+ * AES-256-GCM under the configured secrets key and stored as JSON.
+ */
+
+/**
+ * Encrypt a value for storage.
+ */
+export function encryptSecret(plaintext: string): string {
+  return JSON.stringify(encrypt(plaintext, getConfig().secretsKey));
+}
+
+/**
+ * Decrypt a value produced by `encryptSecret`.
+ * Throws if the value was tampered with or the key changed.
+ */
+export function decryptSecret(stored: string): string {
+  return decrypt(JSON.parse(stored) as EncryptedPayload, getConfig().secretsKey);
+}
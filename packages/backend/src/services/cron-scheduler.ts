@@ -1,6 +1,6 @@
 import * as cron from "node-cron";
 import YAML from "yaml";
-import { parseWorkflowTriggers } from "../../../cluster/dist/workflow-compiler.js";
+import { parseWorkflowTriggers } from "@platform/cluster";
 
 /**
  * Cron Workflow Scheduler
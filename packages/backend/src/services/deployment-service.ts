@@ -0,0 +1,265 @@
+import type { DeploymentStatus } from "@platform/shared";
+import {
+  matchesFilterPatterns,
+  type JobEnvironment,
+  type JobExecutionResult,
+} from "@platform/cluster";
+import { withTransaction } from "../db/connection.js";
+import * as environmentRepo from "../db/repositories/environment-repo.js";
+import type {
+  Deployment,
+  DeploymentEnvironment,
+  DeploymentReviewState,
+} from "../db/repositories/environment-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+
+/**
+ * Deployment environments.
+ *
+ * A job that declares `environment:` deploys to that environment of its
+ * repository, which is created on first use. Before the job is handed to
+ * a cluster its environment's protection rules are enforced: the run's
+ * branch must be allowed by the branch policy, the wait timer must have
+ * passed and, when the environment has required reviewers, one of them
+ * must approve. Only then does the job receive the environment's secrets.
+ *
+ * Every deployment is recorded with its status history, from `pending`
+ * while it waits, through `queued` and `in_progress`, to how it ended.
+ */
+
+/** What a job deploys, and where its progress is reported */
+export interface StartDeploymentInput {
+  projectId: string;
+  environment: JobEnvironment;
+  runId: string;
+  jobId: string;
+  ref: string;
+  commitSha?: string;
+  initiatedBy?: string;
+  /** Cancels the deployment while it waits */
+  signal: AbortSignal;
+  log: (text: string, level?: "info" | "error") => void;
+}
+
+type Review = { state: DeploymentReviewState; reviewer: string };
+
+// Deployments of this process waiting for a reviewer, by deployment id
+const awaitingReview = new Map<string, (review: Review) => void>();
+
+/**
+ * Users who may approve deployments to an environment
+ */
+export function requiredReviewers(environment: DeploymentEnvironment): string[] {
+  return environment.protectionRules.flatMap((rule) => rule.type === "required_reviewers" ? rule.reviewers ?? [] : []);
+}
+
+/** Minutes a deployment waits before it may start */
+export function waitMinutes(environment: DeploymentEnvironment): number {
+  return Math.max(0, ...environment.protectionRules.map((rule) => rule.type === "wait_timer" ? rule.waitMinutes ?? 0 : 0));
+}
+
+/**
+ * Whether the environment's branch policy lets `branch` deploy to it
+ */
+export function allowsBranch(environment: DeploymentEnvironment, branch: string): boolean {
+  const policy = environment.branchPolicy;
+  return !policy?.restrictToNamedBranches || matchesFilterPatterns(branch, policy.allowedPatterns);
+}
+
+/**
+ * The environment of a project a job names, created when it's first used
+ */
+export function ensureEnvironment(projectId: string, name: string): DeploymentEnvironment {
+  return environmentRepo.findEnvironment(projectId, name) ?? environmentRepo.createEnvironment(projectId, name);
+}
+
+function usernames(ids: string[]): string {
+  return ids.map((id) => userRepo.findById(id)?.username ?? id).join(", ");
+}
+
+/**
+ * Wait for `ms`, or until the signal aborts. Resolves false when aborted.
+ */
+function delay(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve(false);
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a required reviewer to approve or reject a deployment. Resolves
+ * null when the signal aborts first.
+ */
+function awaitReview(deploymentId: string, signal: AbortSignal): Promise<Review | null> {
+  return new Promise((resolve) => {
+    const settle = (review: Review | null) => {
+      awaitingReview.delete(deploymentId);
+      signal.removeEventListener("abort", onAbort);
+      resolve(review);
+    };
+    const onAbort = () => settle(null);
+
+    if (signal.aborted) return settle(null);
+    awaitingReview.set(deploymentId, settle);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Record a job's deployment and wait until its environment's protection
+ * rules let it start. Resolves null when the job is cancelled while
+ * waiting; throws when the branch may not deploy or a reviewer rejects it.
+ */
+export async function startDeployment(input: StartDeploymentInput): Promise<Deployment | null> {
+  const environment = ensureEnvironment(input.projectId, input.environment.name);
+  if (!allowsBranch(environment, input.ref)) {
+    throw new Error(`Branch "${input.ref}" is not allowed to deploy to ${environment.name} due to environment protection rules`);
+  }
+
+  const reviewers = requiredReviewers(environment);
+  const wait = waitMinutes(environment);
+  const gated = reviewers.length > 0 || wait > 0;
+  const deployment = environmentRepo.createDeployment({
+    projectId: input.projectId,
+    environmentId: environment.id,
+    runId: input.runId,
+    jobId: input.jobId,
+    commitSha: input.commitSha,
+    ref: input.ref,
+    url: input.environment.url,
+    status: gated ? "pending" : "queued",
+    initiatedBy: input.initiatedBy,
+    description: gated ? "Waiting for the environment's protection rules" : undefined,
+  });
+  if (!gated) return deployment;
+
+  if (wait > 0) input.log(`Waiting ${wait} minute(s) before deploying to ${environment.name}`);
+  if (reviewers.length > 0) input.log(`Waiting for ${usernames(reviewers)} to review the deployment to ${environment.name}`);
+
+  // A rejection ends the wait timer early, as does cancelling the job
+  const gate = new AbortController();
+  const onAbort = () => gate.abort();
+  if (input.signal.aborted) gate.abort();
+  else input.signal.addEventListener("abort", onAbort, { once: true });
+
+  const [review, waited] = await Promise.all([
+    reviewers.length > 0
+      ? awaitReview(deployment.id, gate.signal).then((review) => {
+          if (review?.state === "rejected") gate.abort();
+          return review;
+        })
+      : Promise.resolve<Review>({ state: "approved", reviewer: "" }),
+    wait > 0 ? delay(wait * 60_000, gate.signal) : Promise.resolve(true),
+  ]);
+  input.signal.removeEventListener("abort", onAbort);
+
+  if (review?.state === "rejected") {
+    const message = `The deployment to ${environment.name} was rejected by ${usernames([review.reviewer])}`;
+    environmentRepo.updateDeploymentStatus(deployment.id, "failure", message, review.reviewer);
+    throw new Error(message);
+  }
+  if (!review || !waited) {
+    environmentRepo.updateDeploymentStatus(deployment.id, "canceled", "The job was cancelled while waiting");
+    return null;
+  }
+  environmentRepo.updateDeploymentStatus(deployment.id, "queued", "Protection rules passed", review.reviewer || undefined);
+  input.log(`Deploying to ${environment.name}`);
+  return environmentRepo.findDeploymentById(deployment.id)!;
+}
+
+export type DeploymentReviewErrorCode = "NOT_REVIEWER" | "NOT_WAITING";
+
+/** Why a deployment review was refused */
+export interface DeploymentReviewError {
+  code: DeploymentReviewErrorCode;
+  message: string;
+}
+
+function checkReview(deployment: Deployment, reviewerId: string): DeploymentReviewError | null {
+  const environment = environmentRepo.findEnvironmentById(deployment.environmentId);
+  if (!environment || !requiredReviewers(environment).includes(reviewerId)) {
+    return {
+      code: "NOT_REVIEWER",
+      message: `You are not a required reviewer of ${environment?.name ?? "this environment"}`,
+    };
+  }
+  if (deployment.status !== "pending" || !awaitingReview.has(deployment.id)) {
+    return { code: "NOT_WAITING", message: "The deployment is not waiting for a review" };
+  }
+  return null;
+}
+
+/**
+ * Review deployments waiting for one of their environments' required
+ * reviewers. Every deployment is checked first and the reviews are
+ * recorded together, so either all of them count or none does. Returns
+ * why the first refused one was refused, or null once they count.
+ */
+export function reviewDeployments(
+  deployments: Deployment[],
+  reviewerId: string,
+  state: DeploymentReviewState,
+  comment?: string
+): DeploymentReviewError | null {
+  for (const deployment of deployments) {
+    const error = checkReview(deployment, reviewerId);
+    if (error) return error;
+  }
+
+  withTransaction(() => {
+    for (const deployment of deployments) {
+      environmentRepo.addReview(deployment.id, reviewerId, state, comment);
+    }
+  });
+  for (const deployment of deployments) {
+    awaitingReview.get(deployment.id)?.({ state, reviewer: reviewerId });
+  }
+  return null;
+}
+
+/**
+ * Whether a deployment is waiting for a required reviewer
+ */
+export function isAwaitingReview(deploymentId: string): boolean {
+  return awaitingReview.has(deploymentId);
+}
+
+/** Status a deployment ends with when its job ends with `result` */
+function finalStatus(result: JobExecutionResult["status"]): DeploymentStatus {
+  switch (result) {
+    case "success":
+      return "success";
+    case "cancelled":
+      return "canceled";
+    default:
+      return "failure";
+  }
+}
+
+/**
+ * Record how a deployment's job ended
+ */
+export function finishDeployment(deployment: Deployment, result: JobExecutionResult): void {
+  environmentRepo.updateDeploymentStatus(deployment.id, finalStatus(result.status), result.error);
+}
+
+/**
+ * Cancel the deployments a previous process left unfinished, along with
+ * their runs. Returns the number of deployments cancelled.
+ */
+export function abandonInterruptedDeployments(): number {
+  const deployments = environmentRepo.listUnfinishedDeployments();
+  for (const deployment of deployments) {
+    environmentRepo.updateDeploymentStatus(deployment.id, "canceled", "Interrupted by a server restart");
+  }
+  return deployments.length;
+}
@@ -0,0 +1,248 @@
+import { randomUUID } from "node:crypto";
+import type { Request } from "express";
+import type {
+  EventMetadata,
+  EventSeverity,
+  EventSource,
+  PlatformEvent,
+  PlatformEventMap,
+  PlatformEventType,
+} from "@platform/shared";
+import * as outboxRepo from "../db/repositories/event-outbox-repo.js";
+import type { OutboxEvent } from "../db/repositories/event-outbox-repo.js";
+
+/**
+ * Durable domain event bus.
+ *
+ * Publishing appends the event to the SQLite outbox, so an event
+ * published inside a transaction is stored or rolled back together with
+ * the change it describes. A dispatcher hands each stored event, in
+ * publish order, to every subscriber whose pattern matches its type.
+ * A subscriber that throws is retried with backoff on a later pass;
+ * subscribers that already handled the event are not called again.
+ */
+
+/** A subscription pattern: an event type, `prefix.*`, or `*`. */
+export type EventPattern = PlatformEventType | `${string}.*` | "*";
+
+/** The event types a pattern matches. */
+export type MatchingEventType<P extends EventPattern> = P extends "*"
+  ? PlatformEventType
+  : P extends `${infer Prefix}.*`
+    ? Extract<PlatformEventType, `${Prefix}.${string}`>
+    : Extract<PlatformEventType, P>;
+
+export type EventHandler<T extends PlatformEventType> = (event: PlatformEvent<T>) => void | Promise<void>;
+
+/** Options for publishing an event. */
+export interface PublishOptions {
+  actorId?: string | null;
+  source?: EventSource;
+  severity?: EventSeverity;
+  organizationId?: string;
+  metadata?: Partial<EventMetadata>;
+}
+
+interface Subscription {
+  name: string;
+  patterns: EventPattern[];
+  handler: (event: PlatformEvent) => void | Promise<void>;
+}
+
+/** Dispatch attempts before an event is marked failed. */
+export const MAX_DISPATCH_ATTEMPTS = 8;
+
+const RETRY_BASE_SECONDS = 5;
+const RETRY_MAX_SECONDS = 15 * 60;
+const DISPATCH_TICK_MS = 2_000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Registered subscriptions, keyed by subscriber name. */
+const _subscriptions = new Map<string, Subscription>();
+
+let _dispatchInterval: ReturnType<typeof setInterval> | null = null;
+let _dispatching: Promise<number> | null = null;
+let _lastPrune = 0;
+
+function matches(pattern: EventPattern, type: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith(".*")) return type.startsWith(pattern.slice(0, -1));
+  return pattern === type;
+}
+
+/**
+ * Kick off a dispatch pass right away instead of waiting for the next tick.
+ */
+function scheduleDispatch(): void {
+  if (!_dispatchInterval) return;
+  setImmediate(() => {
+    dispatchPendingEvents().catch((err) => console.error("[events] Dispatch error:", err));
+  });
+}
+
+/**
+ * Publish options describing the authenticated user and client of a request.
+ */
+export function requestEventOptions(req: Request): PublishOptions {
+  return {
+    actorId: req.user?.userId ?? null,
+    source: "api",
+    metadata: {
+      clientIp: req.ip,
+      userAgent: req.get("user-agent"),
+    },
+  };
+}
+
+/**
+ * Append an event to the outbox. Subscribers run asynchronously once the
+ * dispatcher picks it up.
+ *
+ * @returns The published event.
+ */
+export function publishEvent<T extends PlatformEventType>(
+  type: T,
+  payload: PlatformEventMap[T],
+  options: PublishOptions = {},
+): PlatformEvent<T> {
+  const event = {
+    id: randomUUID(),
+    type,
+    version: 1,
+    source: options.source ?? "api",
+    severity: options.severity ?? "info",
+    organizationId: options.organizationId ?? "",
+    actorId: options.actorId ?? null,
+    payload,
+    metadata: { correlationId: randomUUID(), ...options.metadata },
+    timestamp: new Date().toISOString(),
+  } as PlatformEvent<T>;
+
+  outboxRepo.append(event);
+  scheduleDispatch();
+  return event;
+}
+
+/**
+ * Register a subscriber for events matching one or more patterns.
+ * `name` identifies the subscriber in the outbox receipts and must stay
+ * stable across restarts; registering the same name again replaces the
+ * previous handler.
+ *
+ * @returns A function that removes the subscription.
+ */
+export function subscribe<P extends EventPattern>(
+  name: string,
+  patterns: P | P[],
+  handler: EventHandler<MatchingEventType<P>>,
+): () => void {
+  _subscriptions.set(name, {
+    name,
+    patterns: Array.isArray(patterns) ? patterns : [patterns],
+    handler: handler as Subscription["handler"],
+  });
+
+  return () => {
+    if (_subscriptions.get(name)?.handler === handler) {
+      _subscriptions.delete(name);
+    }
+  };
+}
+
+/**
+ * Seconds to wait before the next dispatch attempt after `attempts` failures.
+ */
+export function dispatchRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Run the subscribers of one event that have not handled it yet.
+ */
+async function dispatchEvent(event: OutboxEvent): Promise<void> {
+  const handled = new Set(outboxRepo.listReceipts(event.id));
+  const errors: string[] = [];
+
+  for (const subscription of _subscriptions.values()) {
+    if (handled.has(subscription.name)) continue;
+    if (!subscription.patterns.some((pattern) => matches(pattern, event.type))) continue;
+
+    try {
+      await subscription.handler(event as unknown as PlatformEvent);
+      outboxRepo.recordReceipt(event.id, subscription.name);
+    } catch (err) {
+      errors.push(`${subscription.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    outboxRepo.markDispatched(event.id);
+    return;
+  }
+
+  const attempts = event.attempts + 1;
+  const error = errors.join("; ");
+  console.error(`[events] ${event.type} ${event.id} failed (attempt ${attempts}): ${error}`);
+  outboxRepo.markAttemptFailed(
+    event.id,
+    error,
+    attempts < MAX_DISPATCH_ATTEMPTS
+      ? new Date(Date.now() + dispatchRetryDelaySeconds(attempts) * 1000).toISOString()
+      : undefined,
+  );
+}
+
+/**
+ * Dispatch every event that is due. Passes never overlap.
+ *
+ * @returns The number of events dispatched.
+ */
+export function dispatchPendingEvents(now = new Date()): Promise<number> {
+  if (_dispatching) return _dispatching;
+
+  _dispatching = (async () => {
+    let dispatched = 0;
+    for (const event of outboxRepo.listDue(now)) {
+      await dispatchEvent(event);
+      dispatched++;
+    }
+    return dispatched;
+  })().finally(() => {
+    _dispatching = null;
+  });
+  return _dispatching;
+}
+
+/**
+ * Start the event dispatcher. Dispatched events older than 7 days are
+ * pruned from the outbox once a day.
+ *
+ * @returns A function that stops the dispatcher.
+ */
+export function startEventDispatcher(): () => void {
+  if (_dispatchInterval) {
+    clearInterval(_dispatchInterval);
+  }
+
+  _dispatchInterval = setInterval(async () => {
+    try {
+      await dispatchPendingEvents();
+      if (Date.now() - _lastPrune > PRUNE_INTERVAL_MS) {
+        _lastPrune = Date.now();
+        outboxRepo.pruneDispatched(7);
+      }
+    } catch (err) {
+      console.error("[events] Dispatcher error:", err);
+    }
+  }, DISPATCH_TICK_MS);
+
+  _dispatchInterval.unref();
+  scheduleDispatch();
+
+  return () => {
+    if (_dispatchInterval) {
+      clearInterval(_dispatchInterval);
+      _dispatchInterval = null;
+    }
+  };
+}
@@ -115,6 +115,30 @@ export function indexCode(projectId: string): number {
   return 1;
 }
 
+/**
+ * Bring a project's search entries up to date after it changed.
+ * Entries are dropped when the project was deleted or made private.
+ *
+ * @param projectId - The project ID to refresh.
+ */
+export function refreshProject(projectId: string): void {
+  searchRepo.remove(projectId);
+  searchRepo.remove(`code:${projectId}`);
+  indexProject(projectId);
+  indexCode(projectId);
+}
+
+/**
+ * Bring a user's search entry up to date after their profile changed.
+ * The entry is dropped when the user was deleted.
+ *
+ * @param userId - The user ID to refresh.
+ */
+export function refreshUser(userId: string): void {
+  searchRepo.remove(userId);
+  indexUser(userId);
+}
+
 /**
  * Perform a full reindex of all public projects and users.
  *
@@ -0,0 +1,58 @@
+import * as nodePath from "node:path";
+import { STORAGE_LIMITS } from "@platform/shared";
+import type { Project } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as lfsObjectRepo from "../db/repositories/lfs-object-repo.js";
+import * as subscriptionRepo from "../db/repositories/subscription-repo.js";
+import type { SubscriptionTier } from "../db/repositories/subscription-repo.js";
+
+/**
+ * Git LFS service.
+ *
+ * LFS objects live next to the repository they belong to and are
+ * accounted per project; their bytes count against the storage limit
+ * of the project owner's subscription tier.
+ */
+
+/** Storage usage of a project owner. */
+export interface StorageQuota {
+  tier: SubscriptionTier;
+  limitBytes: number;
+  usedBytes: number;
+}
+
+/**
+ * Directory LFS objects for a project are stored under.
+ */
+export function getLfsStoragePath(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * Storage limit and current LFS usage for a project owner.
+ */
+export function getStorageQuota(ownerId: string): StorageQuota {
+  const tier = subscriptionRepo.getEffectiveTier(ownerId);
+  return {
+    tier,
+    limitBytes: STORAGE_LIMITS[tier],
+    usedBytes: lfsObjectRepo.getOwnerUsage(ownerId),
+  };
+}
+
+/**
+ * Check whether `additionalBytes` more LFS content fits into the
+ * owner's plan. Returns an error message, or null when it fits.
+ */
+export function checkStorageQuota(ownerId: string, additionalBytes: number): string | null {
+  const quota = getStorageQuota(ownerId);
+  if (quota.usedBytes + additionalBytes <= quota.limitBytes) {
+    return null;
+  }
+  const limitGB = Math.round(quota.limitBytes / 1024 ** 3);
+  return `Storage limit exceeded: the ${quota.tier} plan allows ${limitGB}GB. `
+    + "Remove unused LFS objects or upgrade to store more";
+}
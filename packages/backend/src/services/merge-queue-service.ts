@@ -0,0 +1,396 @@
+import * as nodePath from "node:path";
+import { canFastForward, checkMergeability, deleteBranch, deleteRef, mergePullRequest, resolveRef, updateRef } from "@platform/git";
+import type { GitIdentity, PrMergeMethod } from "@platform/git";
+import type { Project, PullRequestEventPayload } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as mergeQueueRepo from "../db/repositories/merge-queue-repo.js";
+import type { MergeQueueEntry } from "../db/repositories/merge-queue-repo.js";
+import * as mergeSettingsRepo from "../db/repositories/merge-settings-repo.js";
+import * as prRepo from "../db/repositories/pr-repo.js";
+import type { PullRequest } from "../db/repositories/pr-repo.js";
+import * as prStatusCheckRepo from "../db/repositories/pr-status-check-repo.js";
+import type { PrStatusCheckState } from "../db/repositories/pr-status-check-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import { canPushTo, resolveBranchProtection, type BranchProtectionSettings, type ProtectionActor } from "./branch-protection-service.js";
+import { reviewCodeOwners } from "./codeowners-service.js";
+import { publishEvent } from "./event-bus.js";
+import { evaluateMergeDecision } from "./pr-merge-decision-service.js";
+import { statusCheckName } from "./workflow-orchestrator.js";
+import { triggerWorkflows } from "./workflow-trigger-service.js";
+
+/**
+ * Merge queue.
+ *
+ * Branch protection can make pull requests land through a queue instead
+ * of being merged directly. Each queued pull request is merged onto the
+ * one ahead of it, or onto the base branch for the first, in a
+ * temporary `gittic-mq/<base>/pr-<number>` branch, and the repository's
+ * `merge_group` workflows run there. Once the checks of an entry pass
+ * the base branch is fast-forwarded to it, landing it together with the
+ * entries ahead of it still waiting on their own checks. Entries whose
+ * checks fail, or that no longer merge cleanly, are ejected and the
+ * entries behind them rebuilt.
+ */
+
+/** Workflow event the queue branches are tested under */
+export const MERGE_GROUP_EVENT = "merge_group";
+
+const QUEUE_BRANCH_PREFIX = "gittic-mq/";
+
+/** Where a pull request stands in its base branch's merge queue */
+export interface MergeQueueStatus {
+  state: mergeQueueRepo.MergeQueueEntryState;
+  /** 1 for the front of the queue; null once ejected */
+  position: number | null;
+  /** Entries queued for the same branch */
+  queueLength: number;
+  mergeMethod: PrMergeMethod;
+  failureReason: string | null;
+  enqueuedAt: string;
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * Branch an entry is built and tested on, e.g. `gittic-mq/main/pr-12`
+ */
+export function queueBranchName(baseBranch: string, number: number): string {
+  return `${QUEUE_BRANCH_PREFIX}${baseBranch}/pr-${number}`;
+}
+
+function pullRequestEvent(pr: PullRequest): PullRequestEventPayload {
+  return {
+    repositoryId: pr.repositoryId,
+    pullRequestId: pr.id,
+    number: pr.number,
+    title: pr.title,
+    state: pr.state,
+    authorId: pr.authorId,
+    baseBranch: pr.baseBranch,
+    headBranch: pr.headBranch,
+    mergeCommitSha: pr.mergeCommitSha,
+  };
+}
+
+function gitIdentity(userId: string | undefined): GitIdentity {
+  const user = userId ? userRepo.findById(userId) : null;
+  return user
+    ? { name: user.displayName || user.username, email: user.email }
+    : { name: "GitTic", email: "merge-queue@users.noreply.gittic.io" };
+}
+
+/**
+ * Add an open pull request to the merge queue of its base branch. It has
+ * to be mergeable on its own first: free of conflicts, with its reviews
+ * and required checks passing. Throws with the reason otherwise.
+ */
+export async function enqueuePullRequest(
+  project: Project,
+  pr: PullRequest,
+  actor: ProtectionActor,
+  mergeMethod: PrMergeMethod
+): Promise<MergeQueueEntry> {
+  const protection = resolveBranchProtection(project, pr.baseBranch, actor);
+  if (!protection.requireMergeQueue) {
+    throw new Error(`${pr.baseBranch} does not use a merge queue`);
+  }
+  if (mergeQueueRepo.findByPrId(pr.id)?.state === "queued") {
+    throw new Error("The pull request is already in the merge queue");
+  }
+
+  const repoPath = getRepositoryFsRoot(project);
+  const mergeCheck = await checkMergeability(repoPath, pr.baseBranch, pr.headBranch);
+  const codeOwners = protection.requireCodeOwnerReviews ? await reviewCodeOwners(project, pr) : null;
+  const decision = evaluateMergeDecision({
+    mergeCheck,
+    canFastForward: await canFastForward(repoPath, pr.headBranch, pr.baseBranch),
+    statusChecks: prStatusCheckRepo.listByPrId(pr.id),
+    branchProtection: protection,
+    approvedReviews: prRepo.countApprovals(pr.id),
+    prState: pr.state,
+    mergeMethod,
+    pushAllowed: canPushTo(project, protection, actor),
+    codeOwnerAreas: codeOwners?.areas,
+  });
+  if (!decision.canMerge) {
+    throw new Error(decision.message);
+  }
+
+  mergeQueueRepo.enqueue({
+    projectId: project.id,
+    baseBranch: pr.baseBranch,
+    prId: pr.id,
+    mergeMethod,
+    enqueuedBy: actor.userId,
+  });
+  await advanceMergeQueue(project, pr.baseBranch);
+  return mergeQueueRepo.findByPrId(pr.id)!;
+}
+
+/**
+ * Take a pull request out of the merge queue, rebuilding the entries
+ * that were behind it. Also forgets why an ejected pull request left
+ * the queue.
+ *
+ * @returns Whether the pull request had an entry
+ */
+export async function dequeuePullRequest(project: Project, pr: PullRequest): Promise<boolean> {
+  const entry = mergeQueueRepo.findByPrId(pr.id);
+  if (!entry) return false;
+
+  mergeQueueRepo.remove(entry.id);
+  if (entry.state === "queued") {
+    await deleteRef(getRepositoryFsRoot(project), `refs/heads/${queueBranchName(entry.baseBranch, pr.number)}`)
+      .catch(() => undefined);
+    await advanceMergeQueue(project, entry.baseBranch);
+  }
+  return true;
+}
+
+/**
+ * Where a pull request stands in the merge queue; null when it was
+ * never queued or has been dequeued
+ */
+export function mergeQueueStatus(pr: PullRequest): MergeQueueStatus | null {
+  const entry = mergeQueueRepo.findByPrId(pr.id);
+  if (!entry) return null;
+
+  const queued = mergeQueueRepo.listQueued(entry.projectId, entry.baseBranch);
+  const index = queued.findIndex((queuedEntry) => queuedEntry.id === entry.id);
+  return {
+    state: entry.state,
+    position: index === -1 ? null : index + 1,
+    queueLength: queued.length,
+    mergeMethod: entry.mergeMethod,
+    failureReason: entry.failureReason ?? null,
+    enqueuedAt: entry.createdAt,
+  };
+}
+
+// Queues being advanced, keyed by project and branch; each waits for the previous pass
+const advancing = new Map<string, Promise<void>>();
+
+/**
+ * Bring a branch's merge queue up to date: land the entries whose checks
+ * passed, eject failing ones and build entries that are new or sit on
+ * top of something that changed. Passes over the same queue run one at
+ * a time; errors are logged.
+ */
+export function advanceMergeQueue(project: Project, baseBranch: string): Promise<void> {
+  const key = `${project.id}:${baseBranch}`;
+  const pass = (advancing.get(key) ?? Promise.resolve())
+    .then(async () => {
+      while (await advanceOnce(project, baseBranch)) {
+        // Landing, ejecting or building entries can settle more of the queue
+      }
+    })
+    .catch((err) => console.error(`[MergeQueue] Failed to advance the ${baseBranch} queue of ${project.slug}:`, err));
+
+  advancing.set(key, pass);
+  void pass.finally(() => {
+    if (advancing.get(key) === pass) advancing.delete(key);
+  });
+  return pass;
+}
+
+/**
+ * Advance the merge queue whose branch a `merge_group` run tested
+ */
+export async function handleMergeGroupRun(project: Project, headSha: string): Promise<void> {
+  const entry = mergeQueueRepo.findByQueueSha(project.id, headSha);
+  if (entry) await advanceMergeQueue(project, entry.baseBranch);
+}
+
+/**
+ * The checks `merge_group` runs report for a queue commit, by check
+ * name; the latest run wins
+ */
+function queueChecks(projectId: string, sha: string): Map<string, PrStatusCheckState> {
+  const { runs } = workflowRunRepo.listRuns(projectId, { event: MERGE_GROUP_EVENT, headSha: sha }, { page: 1, perPage: 100 });
+  const checks = new Map<string, PrStatusCheckState>();
+
+  for (const run of runs) {
+    for (const job of workflowRunRepo.listJobs(run.id)) {
+      const name = statusCheckName(run.name, job);
+      if (checks.has(name)) continue;
+      checks.set(name, job.status !== "completed"
+        ? "pending"
+        : job.conclusion === "success" || job.conclusion === "skipped" ? "success" : "failure");
+    }
+  }
+  return checks;
+}
+
+/**
+ * Whether a built entry passed: the branch's required checks when it
+ * has some, every check of its `merge_group` runs otherwise
+ */
+function entryChecksState(protection: BranchProtectionSettings, entry: MergeQueueEntry): PrStatusCheckState {
+  const checks = queueChecks(entry.projectId, entry.queueSha!);
+  const required = protection.requireStatusChecks ? protection.requiredStatusChecks : [];
+  const states = required.length > 0
+    ? required.map((name) => checks.get(name) ?? "pending")
+    : [...checks.values()];
+
+  if (states.includes("failure")) return "failure";
+  return states.includes("pending") ? "pending" : "success";
+}
+
+async function ejectEntry(repoPath: string, entry: MergeQueueEntry, pr: PullRequest, reason: string): Promise<void> {
+  mergeQueueRepo.markFailed(entry.id, reason);
+  await deleteRef(repoPath, `refs/heads/${queueBranchName(entry.baseBranch, pr.number)}`).catch(() => undefined);
+}
+
+/**
+ * Merge an entry's pull request onto `parentSha` in its queue branch and
+ * start the `merge_group` workflows there.
+ *
+ * @returns The commit built, or null when the entry was ejected instead
+ */
+async function buildEntry(
+  project: Project,
+  repoPath: string,
+  entry: MergeQueueEntry,
+  pr: PullRequest,
+  parentSha: string
+): Promise<string | null> {
+  const mergeCheck = await checkMergeability(repoPath, parentSha, pr.headBranch);
+  if (!mergeCheck.mergeable) {
+    const reason = mergeCheck.conflictFiles.length > 0
+      ? "Conflicts with the pull requests ahead of it in the merge queue"
+      : mergeCheck.reason;
+    await ejectEntry(repoPath, entry, pr, reason);
+    return null;
+  }
+
+  const branch = queueBranchName(entry.baseBranch, pr.number);
+  const committer = gitIdentity(entry.enqueuedBy);
+  const result = await mergePullRequest(repoPath, {
+    method: entry.mergeMethod,
+    base: entry.baseBranch,
+    head: pr.headBranch,
+    commitTitle: entry.mergeMethod === "squash"
+      ? `${pr.title} (#${pr.number})`
+      : `Merge pull request #${pr.number} from ${pr.headBranch}`,
+    commitMessage: entry.mergeMethod === "merge" ? pr.title : undefined,
+    committer,
+    author: entry.mergeMethod === "squash" ? gitIdentity(pr.authorId) : undefined,
+    onto: parentSha,
+    targetRef: `refs/heads/${branch}`,
+  });
+  if (!result.success || !result.sha) {
+    await ejectEntry(repoPath, entry, pr, result.message);
+    return null;
+  }
+
+  mergeQueueRepo.setBuild(entry.id, parentSha, result.sha);
+  await triggerWorkflows(project, {
+    name: MERGE_GROUP_EVENT,
+    ref: entry.baseBranch,
+    sha: result.sha,
+    checkoutRef: branch,
+    actorId: entry.enqueuedBy,
+  });
+  return result.sha;
+}
+
+/**
+ * Fast-forward the base branch to the commit of the last entry landed
+ * and mark every landed pull request merged
+ */
+async function landEntries(
+  project: Project,
+  repoPath: string,
+  entries: Array<{ entry: MergeQueueEntry; pr: PullRequest }>,
+  baseSha: string
+): Promise<void> {
+  const { entry: last } = entries[entries.length - 1];
+  await updateRef(repoPath, `refs/heads/${last.baseBranch}`, last.queueSha!, baseSha);
+
+  const { deleteBranchOnMerge } = mergeSettingsRepo.findByProjectId(project.id);
+  for (const { entry, pr } of entries) {
+    mergeQueueRepo.remove(entry.id);
+    await deleteRef(repoPath, `refs/heads/${queueBranchName(entry.baseBranch, pr.number)}`).catch(() => undefined);
+
+    const merged = prRepo.markAsMerged(pr.id, entry.queueSha!, entry.enqueuedBy);
+    if (merged) {
+      publishEvent("pull_request.merged", pullRequestEvent(merged), { actorId: entry.enqueuedBy ?? null, source: "system" });
+    }
+    if (deleteBranchOnMerge && pr.headBranch !== pr.baseBranch) {
+      await deleteBranch(repoPath, pr.headBranch)
+        .catch((err) => console.error(`[MergeQueue] Failed to delete merged branch ${pr.headBranch}:`, err));
+    }
+  }
+}
+
+/**
+ * One pass over a merge queue.
+ *
+ * @returns Whether the queue changed in a way another pass could act on
+ */
+async function advanceOnce(project: Project, baseBranch: string): Promise<boolean> {
+  const repoPath = getRepositoryFsRoot(project);
+  const protection = resolveBranchProtection(project, baseBranch);
+  const entries: Array<{ entry: MergeQueueEntry; pr: PullRequest }> = [];
+  for (const entry of mergeQueueRepo.listQueued(project.id, baseBranch)) {
+    const pr = prRepo.findById(entry.prId);
+    if (pr?.state === "open") {
+      entries.push({ entry, pr });
+      continue;
+    }
+    mergeQueueRepo.remove(entry.id);
+    if (pr) await deleteRef(repoPath, `refs/heads/${queueBranchName(baseBranch, pr.number)}`).catch(() => undefined);
+  }
+  if (entries.length === 0) return false;
+
+  const baseSha = await resolveRef(repoPath, `refs/heads/${baseBranch}`);
+
+  // Built entries stay valid while each sits on the one ahead of it
+  let valid = 0;
+  let parentSha = baseSha;
+  while (valid < entries.length && entries[valid].entry.queueSha && entries[valid].entry.parentSha === parentSha) {
+    parentSha = entries[valid].entry.queueSha!;
+    valid++;
+  }
+
+  let landed = 0;
+  let ejected = false;
+  for (let index = 0; index < valid; index++) {
+    const state = entryChecksState(protection, entries[index].entry);
+    if (state === "success") {
+      landed = index + 1;
+    } else if (state === "failure") {
+      const { entry, pr } = entries[index];
+      await ejectEntry(repoPath, entry, pr, protection.requireStatusChecks && protection.requiredStatusChecks.length > 0
+        ? "Required status checks failed in the merge queue"
+        : "Workflows failed in the merge queue");
+      ejected = true;
+      valid = index;
+      break;
+    }
+  }
+
+  if (landed > 0) {
+    await landEntries(project, repoPath, entries.slice(0, landed), baseSha);
+  }
+  if (ejected) {
+    // Everything behind the ejected entry was built on top of it
+    return true;
+  }
+
+  let built = false;
+  parentSha = valid > 0 ? entries[valid - 1].entry.queueSha! : baseSha;
+  for (const { entry, pr } of entries.slice(valid)) {
+    const sha = await buildEntry(project, repoPath, entry, pr, parentSha);
+    if (sha) parentSha = sha;
+    built = true;
+  }
+
+  return landed > 0 || built;
+}
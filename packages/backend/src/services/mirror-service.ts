@@ -0,0 +1,251 @@
+import { realpathSync } from "node:fs";
+import * as nodePath from "node:path";
+import { fileURLToPath } from "node:url";
+import { pushMirror, setupMirror, syncMirror } from "@platform/git";
+import type { MirrorCredentials, MirrorSyncResult } from "@platform/git";
+import type { Project } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as mirrorRepo from "../db/repositories/mirror-repo.js";
+import type { MirrorSyncRun, MirrorSyncTrigger, RepositoryMirror } from "../db/repositories/mirror-repo.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import { decryptSecret, encryptSecret } from "./credential-encryption.js";
+import { checkPublicHost } from "./network-guard.js";
+
+/**
+ * Repository mirroring service.
+ *
+ * Pull mirrors fetch every ref from an external remote on a schedule
+ * (and on demand); push mirrors receive branches and tags after every
+ * accepted push. Each sync is recorded in the mirror's history, and
+ * remote passwords are only decrypted for the duration of a git command.
+ */
+
+/** Shortest allowed pull mirror interval (5 minutes). */
+export const MIN_MIRROR_INTERVAL_SECONDS = 300;
+
+/** How often the scheduler looks for pull mirrors that are due. */
+const SCHEDULER_TICK_MS = 60_000;
+
+let _schedulerInterval: ReturnType<typeof setInterval> | null = null;
+const _running = new Set<string>();
+
+/**
+ * Check that a mirror remote URL is something git can fetch from or push
+ * to. Returns an error message or null. Credentials belong in the
+ * username/password fields, not the URL.
+ *
+ * Local paths and `file://` URLs reach the server's own filesystem, so
+ * only site admins may use them (or anyone, when `allowLocalMirrors` is
+ * set), and never for paths inside the data directory where other
+ * users' repositories live. Likewise only site admins may mirror hosts
+ * that resolve to loopback, link-local or private addresses, unless
+ * `allowInternalTargets` is set.
+ */
+export async function validateRemoteUrl(url: string, role: string): Promise<string | null> {
+  if (/^(https?|ssh|git):\/\//i.test(url)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "Remote URL is not a valid URL";
+    }
+    if (/^https?:$/i.test(parsed.protocol) && parsed.password) {
+      return "Remote URL must not contain a password; use the credential fields instead";
+    }
+    if (role === "admin" || getConfig().allowInternalTargets) {
+      return null;
+    }
+    const hostError = await checkPublicHost(parsed);
+    return hostError && `Remote URL is not allowed: ${hostError}`;
+  }
+  if (/^file:\/\//i.test(url) || nodePath.isAbsolute(url)) {
+    return validateLocalRemote(url, role);
+  }
+  return "Remote URL must be an http(s), ssh, git or file URL, or an absolute path";
+}
+
+function validateLocalRemote(url: string, role: string): string | null {
+  const config = getConfig();
+  if (role !== "admin" && !config.allowLocalMirrors) {
+    return "Only site administrators can mirror local paths";
+  }
+
+  let localPath: string;
+  try {
+    localPath = /^file:/i.test(url) ? fileURLToPath(url) : url;
+  } catch {
+    return "Remote URL is not a valid file URL";
+  }
+
+  const target = resolveRealPath(localPath);
+  for (const root of [config.dataDir, config.repoStoragePath]) {
+    const protectedRoot = resolveRealPath(root);
+    if (target === protectedRoot || target.startsWith(protectedRoot + nodePath.sep)) {
+      return "Remote URL must not point inside the server's data directory";
+    }
+  }
+  return null;
+}
+
+/** Resolve symlinks where the path exists, so links into the data directory are caught. */
+function resolveRealPath(path: string): string {
+  try {
+    return realpathSync.native(path);
+  } catch {
+    return nodePath.resolve(path);
+  }
+}
+
+/**
+ * Encrypt a mirror password for storage.
+ */
+export function sealCredentials(password: string | undefined): string | undefined {
+  return password ? encryptSecret(password) : undefined;
+}
+
+function getCredentials(mirror: RepositoryMirror): MirrorCredentials | undefined {
+  if (!mirror.encryptedCredentials) return undefined;
+  return { username: mirror.username, password: decryptSecret(mirror.encryptedCredentials) };
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+function recordResult(
+  mirror: RepositoryMirror,
+  trigger: MirrorSyncTrigger,
+  startedAt: string,
+  result: MirrorSyncResult,
+): MirrorSyncRun {
+  return mirrorRepo.recordSyncRun(mirror.id, {
+    trigger,
+    status: result.success ? "success" : "failed",
+    updatedRefs: result.updatedRefs,
+    error: result.error,
+    durationMs: result.duration,
+    startedAt,
+  });
+}
+
+/**
+ * Clone a new project's repository from the remote of its pull mirror.
+ * The clone is recorded as the mirror's first sync; failures are
+ * recorded and rethrown.
+ */
+export async function initializePullMirror(project: Project, mirror: RepositoryMirror): Promise<MirrorSyncRun> {
+  const startedAt = new Date().toISOString();
+  const start = Date.now();
+  try {
+    await setupMirror(mirror.remoteUrl, getRepositoryFsRoot(project), undefined, {
+      credentials: getCredentials(mirror),
+    });
+    return recordResult(mirror, "create", startedAt, {
+      success: true,
+      sourceUrl: mirror.remoteUrl,
+      targetPath: project.storagePath,
+      updatedRefs: [],
+      duration: Date.now() - start,
+      error: undefined,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    recordResult(mirror, "create", startedAt, {
+      success: false,
+      sourceUrl: mirror.remoteUrl,
+      targetPath: project.storagePath,
+      updatedRefs: [],
+      duration: Date.now() - start,
+      error: message,
+    });
+    throw err;
+  }
+}
+
+/**
+ * Run one sync of a mirror: fetch for pull mirrors, push for push
+ * mirrors. Concurrent syncs of the same mirror are skipped (null).
+ */
+export async function runMirrorSync(
+  mirror: RepositoryMirror,
+  trigger: MirrorSyncTrigger,
+): Promise<MirrorSyncRun | null> {
+  const project = projectRepo.findById(mirror.projectId);
+  if (!project || _running.has(mirror.id)) return null;
+
+  _running.add(mirror.id);
+  const startedAt = new Date().toISOString();
+  try {
+    const repoPath = getRepositoryFsRoot(project);
+    const credentials = getCredentials(mirror);
+    const result = mirror.direction === "pull"
+      ? await syncMirror(repoPath, { sourceUrl: mirror.remoteUrl, credentials })
+      : await pushMirror(repoPath, mirror.remoteUrl, { credentials });
+    return recordResult(mirror, trigger, startedAt, result);
+  } finally {
+    _running.delete(mirror.id);
+  }
+}
+
+/**
+ * Forward a push to every enabled push mirror of a project.
+ */
+export async function pushToMirrors(project: Project): Promise<void> {
+  const mirrors = mirrorRepo.listByProject(project.id, "push").filter((mirror) => mirror.enabled);
+  for (const mirror of mirrors) {
+    try {
+      await runMirrorSync(mirror, "push");
+    } catch (err) {
+      console.error(`[mirror] Push mirror ${mirror.id} failed:`, err);
+    }
+  }
+}
+
+/**
+ * Sync every pull mirror that is due.
+ */
+export async function syncDueMirrors(now: Date = new Date()): Promise<number> {
+  let synced = 0;
+  for (const mirror of mirrorRepo.listDuePullMirrors(now)) {
+    try {
+      if (await runMirrorSync(mirror, "schedule")) synced++;
+    } catch (err) {
+      console.error(`[mirror] Scheduled sync of ${mirror.id} failed:`, err);
+    }
+  }
+  return synced;
+}
+
+/**
+ * Start the pull mirror scheduler.
+ *
+ * @returns A function that stops the scheduler.
+ */
+export function startMirrorScheduler(): () => void {
+  if (_schedulerInterval) {
+    clearInterval(_schedulerInterval);
+  }
+
+  _schedulerInterval = setInterval(async () => {
+    try {
+      const synced = await syncDueMirrors();
+      if (synced > 0) {
+        console.log(`[mirror] Synced ${synced} pull mirror(s)`);
+      }
+    } catch (err) {
+      console.error("[mirror] Scheduler error:", err);
+    }
+  }, SCHEDULER_TICK_MS);
+
+  _schedulerInterval.unref();
+
+  return () => {
+    if (_schedulerInterval) {
+      clearInterval(_schedulerInterval);
+      _schedulerInterval = null;
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { lookup } from "node:dns";
+import { lookup as lookupAsync } from "node:dns/promises";
+import type { LookupFunction } from "node:net";
+import { BlockList, isIP } from "node:net";
+
+/**
+ * Guard for requests the server makes to user-supplied hosts (mirror
+ * remotes, webhook receivers). Hosts are resolved and refused when any
+ * address is loopback, link-local (cloud metadata endpoints), private or
+ * otherwise not publicly routable, so users can't reach services on the
+ * server's own network through the platform.
+ */
+
+const INTERNAL_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise
+ * not publicly routable. IPv4-mapped IPv6 addresses are judged by the
+ * IPv4 address they carry.
+ */
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return INTERNAL_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Host name of a URL without the brackets around IPv6 addresses. */
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Check that every address `url`'s host resolves to is public. Returns
+ * an error message or null.
+ */
+export async function checkPublicHost(url: URL): Promise<string | null> {
+  const host = bareHostname(url);
+  if (!host) return "URL has no host";
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookupAsync(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve host ${host}`;
+  }
+
+  if (addresses.some(isInternalAddress)) {
+    return `Host ${host} resolves to an internal address`;
+  }
+  return null;
+}
+
+/**
+ * A `lookup` for http(s) requests that fails when the host resolves to
+ * an internal address. The check runs on the addresses the connection
+ * actually uses, so a host can't pass validation and then be pointed
+ * somewhere internal before delivery.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, entries) => {
+    if (err) {
+      callback(err, "", 0);
+      return;
+    }
+    const internal = entries.find((entry) => isInternalAddress(entry.address));
+    if (internal) {
+      callback(new Error(`Host ${hostname} resolves to an internal address`), "", 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  });
+};
@@ -1,11 +1,13 @@
-import type { MergeCheckResult } from "@platform/git";
-import type { BranchProtectionSettings } from "../db/repositories/branch-protection-repo.js";
+import type { MergeCheckResult, PrMergeMethod } from "@platform/git";
+import type { BranchProtectionSettings } from "./branch-protection-service.js";
+import type { CodeOwnerArea } from "./codeowners-service.js";
 import type { PrStatusCheck } from "../db/repositories/pr-status-check-repo.js";
 
 export type MergeFailureReasonCode =
   | "CONFLICTS"
   | "STATUS_CHECKS"
   | "REVIEWS"
+  | "CODE_OWNER_REVIEWS"
   | "PROTECTION_RULE"
   | "PR_NOT_OPEN";
 
@@ -22,6 +24,12 @@ export interface MergeDecisionInput {
   branchProtection: BranchProtectionSettings;
   approvedReviews: number;
   prState: "open" | "closed" | "merged";
+  /** Requested merge method; squash and rebase always keep history linear. */
+  mergeMethod?: PrMergeMethod;
+  /** Whether push restrictions let the merging user update the base branch; assumed when absent. */
+  pushAllowed?: boolean;
+  /** Code owner areas the pull request touches, checked when protection requires code owner reviews. */
+  codeOwnerAreas?: CodeOwnerArea[];
 }
 
 export interface MergeDecision {
@@ -89,11 +97,32 @@ export function evaluateMergeDecision(input: MergeDecisionInput): MergeDecision
     });
   }
 
-  if (input.branchProtection.requireLinearHistory && !input.canFastForward) {
+  const keepsLinearHistory = input.mergeMethod === "squash" || input.mergeMethod === "rebase"
+    || (input.mergeMethod === undefined && input.canFastForward);
+  if (input.branchProtection.requireLinearHistory && !keepsLinearHistory) {
     failureReasons.push({
       code: "PROTECTION_RULE",
-      message: "Branch protection requires linear history (fast-forward merge)",
-      details: { requireLinearHistory: true },
+      message: input.mergeMethod === "merge"
+        ? "Branch protection requires linear history; use squash or rebase merge"
+        : "Branch protection requires linear history (fast-forward merge)",
+      details: { requireLinearHistory: true, mergeMethod: input.mergeMethod },
+    });
+  }
+
+  // Merges made here are commits GitTic creates, which it can't sign
+  if (input.branchProtection.requireSignedCommits) {
+    failureReasons.push({
+      code: "PROTECTION_RULE",
+      message: "Branch protection requires signed commits; merge locally and push signed commits",
+      details: { requireSignedCommits: true },
+    });
+  }
+
+  if (input.pushAllowed === false) {
+    failureReasons.push({
+      code: "PROTECTION_RULE",
+      message: "You are not allowed to push to the protected base branch",
+      details: { restrictPushes: true },
     });
   }
 
@@ -132,6 +161,19 @@ export function evaluateMergeDecision(input: MergeDecisionInput): MergeDecision
     });
   }
 
+  const unapprovedAreas = input.branchProtection.requireCodeOwnerReviews
+    ? (input.codeOwnerAreas ?? []).filter((area) => area.approvedBy.length === 0)
+    : [];
+  if (unapprovedAreas.length > 0) {
+    failureReasons.push({
+      code: "CODE_OWNER_REVIEWS",
+      message: `Changes to ${unapprovedAreas.map((area) => area.pattern).join(", ")} need approval from a code owner`,
+      details: {
+        areas: unapprovedAreas.map((area) => ({ pattern: area.pattern, owners: area.owners })),
+      },
+    });
+  }
+
   const canMerge = failureReasons.length === 0;
 
   return {
@@ -0,0 +1,188 @@
+import * as nodePath from "node:path";
+import { buildSquashCommitMessage, commitSuggestions, parseSuggestions, type GitIdentity, type SuggestedChange } from "@platform/git";
+import type { Project, User } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as prRepo from "../db/repositories/pr-repo.js";
+import type { PullRequest, PullRequestReview, ReviewState } from "../db/repositories/pr-repo.js";
+import * as reviewThreadRepo from "../db/repositories/review-thread-repo.js";
+import type { ThreadComment } from "../db/repositories/review-thread-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import { checkBranchUpdate } from "./branch-protection-service.js";
+import { loadPullRequestDiff, startThread, type StartThreadInput } from "./review-thread-service.js";
+
+/**
+ * Pull request reviews.
+ *
+ * A reviewer collects inline comments in a pending review that only they
+ * can see, then submits it as an approval, a request for changes or a
+ * comment, which publishes the comments with it. A comment can hold a
+ * ```suggestion block replacing the lines it is on; the PR author applies
+ * suggestions, one or several at a time, as a commit on the head branch.
+ */
+
+export type ReviewEvent = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
+export type ReviewCommentInput = Omit<StartThreadInput, "commitSha" | "reviewId">;
+
+export interface SubmitReviewInput {
+  event: ReviewEvent;
+  body?: string;
+  /** Further comments to add before submitting */
+  comments?: ReviewCommentInput[];
+  /** Head commit the reviewer saw; must still be the head */
+  commitSha?: string;
+}
+
+const REVIEW_STATES: Record<ReviewEvent, Exclude<ReviewState, "pending">> = {
+  APPROVE: "approved",
+  REQUEST_CHANGES: "changes_requested",
+  COMMENT: "commented",
+};
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+function gitIdentity(user: User): GitIdentity {
+  return { name: user.displayName ?? user.username, email: user.email };
+}
+
+/**
+ * The user's pending review on the PR, started if they have none
+ */
+export function pendingReviewFor(pr: PullRequest, userId: string): PullRequestReview {
+  return prRepo.findPendingReview(pr.id, userId)
+    ?? prRepo.createReview({ prId: pr.id, userId, state: "pending" });
+}
+
+/**
+ * Submit a review: the user's pending review with its comments, plus any
+ * comments passed along, or a new review when they have none pending
+ */
+export async function submitReview(
+  project: Project,
+  pr: PullRequest,
+  userId: string,
+  input: SubmitReviewInput
+): Promise<{ review: PullRequestReview; comments: ThreadComment[] }> {
+  if (input.event !== "COMMENT" && userId === pr.authorId) {
+    throw new Error("You can't approve or request changes on your own pull request");
+  }
+  if (input.event !== "COMMENT" && pr.state !== "open") {
+    throw new Error("Only open pull requests can be approved or have changes requested");
+  }
+
+  const diff = await loadPullRequestDiff(project, pr);
+  if (input.commitSha && input.commitSha !== diff.headSha) {
+    throw new Error("The pull request has new commits; reload the diff to review its latest version");
+  }
+
+  const pending = prRepo.findPendingReview(pr.id, userId);
+  const collected = pending ? reviewThreadRepo.listReviewComments(pending.id).length : 0;
+  const body = input.body?.trim() || undefined;
+  if (input.event === "REQUEST_CHANGES" && !body) {
+    throw new Error("Requesting changes needs a comment saying what to change");
+  }
+  if (input.event === "COMMENT" && !body && collected === 0 && !input.comments?.length) {
+    throw new Error("A review needs a comment");
+  }
+
+  const review = pending ?? prRepo.createReview({ prId: pr.id, userId, state: "pending" });
+  for (const comment of input.comments ?? []) {
+    await startThread(project, pr, userId, { ...comment, commitSha: diff.headSha, reviewId: review.id });
+  }
+
+  return {
+    review: prRepo.submitReview(review.id, REVIEW_STATES[input.event], body, diff.headSha),
+    comments: reviewThreadRepo.listReviewComments(review.id),
+  };
+}
+
+/**
+ * Commit the suggested changes in review comments to the PR's head
+ * branch in one commit, crediting their authors as co-authors. The
+ * comments are marked applied and their threads resolved.
+ */
+export async function applySuggestions(
+  project: Project,
+  pr: PullRequest,
+  user: User,
+  commentIds: string[],
+  commitMessage?: string
+): Promise<{ sha: string; comments: ThreadComment[] }> {
+  if (pr.state !== "open") {
+    throw new Error("Suggestions can only be applied to open pull requests");
+  }
+  if (commentIds.length === 0) {
+    throw new Error("Choose at least one suggestion to apply");
+  }
+  const protectedBranch = checkBranchUpdate(project, pr.headBranch, { userId: user.id, role: user.role });
+  if (protectedBranch) {
+    throw new Error(protectedBranch);
+  }
+
+  const diff = await loadPullRequestDiff(project, pr);
+  const comments: ThreadComment[] = [];
+  const changes: SuggestedChange[] = [];
+  const threadIds = new Set<string>();
+
+  for (const id of new Set(commentIds)) {
+    const comment = reviewThreadRepo.findComment(id);
+    const review = comment?.reviewId ? prRepo.findReviewById(comment.reviewId) : null;
+    if (!comment || comment.prId !== pr.id || review?.state === "pending") {
+      throw new Error(`Review comment ${id} not found`);
+    }
+    if (comment.appliedCommitSha) {
+      throw new Error(`The suggestion in comment ${id} has already been applied`);
+    }
+    const suggestions = parseSuggestions(comment.body);
+    if (suggestions.length !== 1) {
+      throw new Error(`Comment ${id} must suggest exactly one change`);
+    }
+    const thread = reviewThreadRepo.findThreadById(comment.threadId)!;
+    if (thread.side !== "RIGHT") {
+      throw new Error(`Comment ${id} is on removed lines, which a suggestion can't change`);
+    }
+    if (thread.outdated || thread.commitSha !== diff.headSha) {
+      throw new Error(`The suggestion in comment ${id} is outdated`);
+    }
+    if (threadIds.has(thread.id)) {
+      throw new Error("Only one suggestion per thread can be applied at a time");
+    }
+
+    threadIds.add(thread.id);
+    comments.push(comment);
+    changes.push({ path: thread.path, startLine: thread.startLine ?? thread.line, line: thread.line, replacement: suggestions[0] });
+  }
+
+  const coAuthors = comments
+    .filter((comment) => comment.authorId !== user.id)
+    .map((comment) => userRepo.findById(comment.authorId))
+    .filter((author): author is User => author !== null)
+    .map(gitIdentity);
+  const title = commitMessage?.trim()
+    || (comments.length === 1 ? "Apply suggestion from code review" : "Apply suggestions from code review");
+
+  const identity = gitIdentity(user);
+  const result = await commitSuggestions(getRepositoryFsRoot(project), {
+    branch: pr.headBranch,
+    expectedSha: diff.headSha,
+    changes,
+    message: buildSquashCommitMessage(title, undefined, coAuthors),
+    author: identity,
+    committer: identity,
+  });
+  if (!result.success || !result.sha) {
+    throw new Error(result.message);
+  }
+
+  reviewThreadRepo.markApplied(comments.map((comment) => comment.id), result.sha);
+  for (const threadId of threadIds) {
+    reviewThreadRepo.setResolved(threadId, user.id);
+  }
+
+  return { sha: result.sha, comments: comments.map((comment) => reviewThreadRepo.findComment(comment.id)!) };
+}
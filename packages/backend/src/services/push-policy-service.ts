@@ -0,0 +1,186 @@
+import { summarizePush, validatePush } from "@platform/git";
+import type { BranchProtectionConfig, CommitSecretMatch, GitHttpOptions, PreReceiveResult, RefUpdate } from "@platform/git";
+import type { GitActor, Project } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import { canPushTo, isRepoAdmin, resolveBranchProtection, type BranchProtectionSettings } from "./branch-protection-service.js";
+import * as secretScanningService from "./secret-scanning-service.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as prRepo from "../db/repositories/pr-repo.js";
+import * as mirrorService from "./mirror-service.js";
+import { publishEvent } from "./event-bus.js";
+
+/**
+ * Server-side push policy.
+ *
+ * Translates the branch protection rules matching each pushed branch into
+ * the pre-receive rules enforced on every git-receive-pack request, and
+ * runs secret scanning (with optional push protection) on pushes.
+ * Accepted pushes are forwarded to the project's push mirrors and
+ * published on the event bus.
+ */
+
+/** The user performing a push. */
+export interface Pusher {
+  userId: string;
+  role: string;
+}
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+/**
+ * Publish a `git.push` event for every updated ref, plus branch and tag
+ * creation and deletion events, and `pull_request.synchronize` for open
+ * pull requests whose head branch moved. Also used for commits the API
+ * makes on the user's behalf.
+ */
+export async function publishPushEvents(
+  project: Project,
+  repoPath: string,
+  updates: RefUpdate[],
+  pusher: Pusher,
+): Promise<void> {
+  const user = pusher.userId ? userRepo.findById(pusher.userId) : null;
+  const actor: GitActor = user
+    ? { userId: user.id, name: user.displayName ?? user.username, email: user.email, username: user.username }
+    : { name: pusher.role, email: "" };
+  const options = { actorId: user?.id ?? null, source: "user_action" as const };
+
+  for (const update of updates) {
+    const created = update.oldSha === ZERO_SHA;
+    const deleted = update.newSha === ZERO_SHA;
+    const summary = await summarizePush(repoPath, update)
+      .catch(() => ({ commitCount: 0, commits: [], forced: false }));
+
+    publishEvent("git.push", {
+      repositoryId: project.id,
+      ref: update.refName,
+      refName: update.refName.replace(/^refs\/(heads|tags)\//, ""),
+      beforeSha: update.oldSha,
+      afterSha: update.newSha,
+      created,
+      deleted,
+      forced: summary.forced,
+      commitCount: summary.commitCount,
+      commits: summary.commits,
+      pusher: actor,
+    }, options);
+
+    if (!deleted && update.refName.startsWith("refs/heads/")) {
+      const headBranch = update.refName.slice("refs/heads/".length);
+      for (const pr of prRepo.listOpenByHeadBranch(project.id, headBranch)) {
+        publishEvent("pull_request.synchronize", {
+          repositoryId: project.id,
+          pullRequestId: pr.id,
+          number: pr.number,
+          title: pr.title,
+          state: pr.state,
+          authorId: pr.authorId,
+          baseBranch: pr.baseBranch,
+          headBranch: pr.headBranch,
+          headSha: update.newSha,
+        }, options);
+      }
+    }
+
+    if (!created && !deleted) continue;
+    const sha = deleted ? update.oldSha : update.newSha;
+    if (update.refName.startsWith("refs/heads/")) {
+      const branchName = update.refName.slice("refs/heads/".length);
+      publishEvent(created ? "git.branch.created" : "git.branch.deleted", {
+        repositoryId: project.id,
+        branchName,
+        sha,
+        isDefault: branchName === project.defaultBranch,
+        actor,
+      }, options);
+    } else if (update.refName.startsWith("refs/tags/")) {
+      publishEvent(created ? "git.tag.created" : "git.tag.deleted", {
+        repositoryId: project.id,
+        tagName: update.refName.slice("refs/tags/".length),
+        sha,
+        actor,
+      }, options);
+    }
+  }
+}
+
+/**
+ * Build the pre-receive configuration for a push of `refName` to
+ * `project`. Owners and admins may push directly to a protected branch,
+ * and past push restrictions, unless the protection is enforced for
+ * admins; force pushes and deletions are blocked unless every rule
+ * allows them.
+ */
+export function buildPushPolicy(
+  project: Project,
+  refName: string,
+  protection: BranchProtectionSettings | null,
+  pusher: Pusher,
+): Partial<BranchProtectionConfig> {
+  if (!protection || protection.patterns.length === 0) {
+    return { protectedBranches: [] };
+  }
+
+  const canBypass = isRepoAdmin(project, pusher) && !protection.enforceAdmins;
+
+  return {
+    protectedBranches: [refName],
+    blockDirectPushes: protection.requirePullRequest && !canBypass,
+    requireLinearHistory: protection.requireLinearHistory,
+    requireSignedCommits: protection.requireSignedCommits,
+    allowForcePushes: protection.allowForcePushes,
+    allowDeletions: protection.allowDeletions,
+    restrictPushes: !canPushTo(project, protection, pusher),
+  };
+}
+
+/**
+ * Create the receive hooks passed to `handleGitHttpRequest`. Secrets
+ * found during pre-receive are recorded as alerts once the push lands.
+ */
+export function createPushHooks(project: Project, pusher: Pusher): GitHttpOptions {
+  const pendingSecrets = new Map<string, CommitSecretMatch[]>();
+
+  return {
+    maxReceivePackBytes: getConfig().maxPushBytes,
+    preReceive: async (repoPath, updates, env) => {
+      // Each branch is checked against the rules matching it
+      const results: PreReceiveResult[] = [];
+      for (const update of updates) {
+        const protection = update.refName.startsWith("refs/heads/")
+          ? resolveBranchProtection(project, update.refName.slice("refs/heads/".length), pusher)
+          : null;
+        const policy = buildPushPolicy(project, update.refName, protection, pusher);
+        results.push(...await validatePush(repoPath, [update], policy, env));
+      }
+      if (results.some((result) => !result.allowed)) {
+        return results;
+      }
+
+      const scan = await secretScanningService.scanPush(project, repoPath, updates, env);
+      for (const [ref, matches] of scan.matchesByRef) {
+        pendingSecrets.set(ref, matches);
+      }
+
+      return results.map((result) => {
+        const blocked = scan.blocked.get(result.ref);
+        return blocked ? { ...result, allowed: false, rejectionReason: blocked } : result;
+      });
+    },
+    postReceive: async (repoPath, updates) => {
+      for (const update of updates) {
+        const matches = pendingSecrets.get(update.refName);
+        if (matches) {
+          secretScanningService.recordMatches(project.id, matches);
+        }
+      }
+
+      // Forward to push mirrors in the background; failures land in the mirror's history
+      if (updates.length > 0) {
+        void mirrorService.pushToMirrors(project);
+      }
+
+      await publishPushEvents(project, repoPath, updates, pusher);
+    },
+  };
+}
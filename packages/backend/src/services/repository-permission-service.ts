@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+import { resolvePermission } from "@platform/git";
+import type { AccessPolicy, PermissionLevel, UserPermission } from "@platform/git";
+import type { Project } from "@platform/shared";
+import type { CollaboratorPermission } from "@platform/shared/types/repository";
+import * as collaboratorRepo from "../db/repositories/collaborator-repo.js";
+import * as deployKeyRepo from "../db/repositories/deploy-key-repo.js";
+import * as orgRepo from "../db/repositories/org-repo.js";
+import type { ProjectDeployKey } from "../db/repositories/deploy-key-repo.js";
+
+/**
+ * Repository permission service.
+ *
+ * Resolves what a user may do with a project from its owner, direct
+ * collaborators, the teams of its organization and site admin status,
+ * using the access policy model from `@platform/git`. Deploy keys grant
+ * access to a single project and are resolved separately.
+ */
+
+/** The user an access check is made for; anonymous when absent. */
+export interface PermissionSubject {
+  userId: string;
+  role?: string;
+}
+
+/** A deploy key together with the access it grants. */
+export interface DeployKeyAccess {
+  key: ProjectDeployKey;
+  permission: PermissionLevel;
+}
+
+const LEVELS: Record<PermissionLevel, number> = { none: 0, read: 1, write: 2, admin: 3 };
+
+const SSH_KEY_TYPES = new Set([
+  "ssh-rsa",
+  "ssh-ed25519",
+  "ecdsa-sha2-nistp256",
+  "ecdsa-sha2-nistp384",
+  "ecdsa-sha2-nistp521",
+  "sk-ssh-ed25519@openssh.com",
+  "sk-ecdsa-sha2-nistp256@openssh.com",
+]);
+
+/**
+ * Map a collaborator or team role to a git permission level.
+ */
+export function roleToPermission(role: CollaboratorPermission | string): PermissionLevel {
+  switch (role) {
+    case "admin":
+      return "admin";
+    case "maintain":
+    case "push":
+      return "write";
+    case "triage":
+    case "pull":
+      return "read";
+    default:
+      return "none";
+  }
+}
+
+/**
+ * Whether `level` is at least `required`.
+ */
+export function satisfies(level: PermissionLevel, required: PermissionLevel): boolean {
+  return LEVELS[level] >= LEVELS[required];
+}
+
+/**
+ * Build the access policy for a project. Organization owners and admins
+ * act as repository admins; other organization members can read. A user
+ * granted access more than one way gets a single entry with the highest
+ * level.
+ */
+export function buildAccessPolicy(project: Project): AccessPolicy {
+  const grants = new Map<string, UserPermission>();
+  const grant = (entry: UserPermission) => {
+    const existing = grants.get(entry.userId);
+    if (!existing) {
+      grants.set(entry.userId, entry);
+    } else if (LEVELS[entry.permission] > LEVELS[existing.permission]) {
+      grants.set(entry.userId, { ...existing, permission: entry.permission });
+    }
+  };
+
+  for (const c of collaboratorRepo.listByProject(project.id)) {
+    grant({ userId: c.id, username: c.username, permission: roleToPermission(c.role) });
+  }
+
+  if (project.orgId) {
+    for (const member of orgRepo.listMembers(project.orgId)) {
+      grant({
+        userId: member.userId,
+        username: "",
+        permission: member.role === "owner" || member.role === "admin" ? "admin" : "read",
+      });
+    }
+  }
+
+  return {
+    ownerId: project.ownerId,
+    ownerType: project.orgId ? "org" : "user",
+    visibility: project.isPrivate ? "private" : "public",
+    collaborators: [...grants.values()],
+    teamPermissions: collaboratorRepo.listTeamGrants(project.id).map((grant) => ({
+      teamId: grant.teamId,
+      teamName: grant.teamName,
+      permission: roleToPermission(grant.permission),
+      members: grant.memberIds,
+    })),
+  };
+}
+
+/**
+ * Effective permission of a user (or an anonymous visitor) on a project.
+ * Site admins always have admin access.
+ */
+export function resolveProjectPermission(project: Project, subject?: PermissionSubject | null): PermissionLevel {
+  if (!subject) return project.isPrivate ? "none" : "read";
+  if (subject.role === "admin") return "admin";
+  return resolvePermission(subject.userId, buildAccessPolicy(project));
+}
+
+/**
+ * Message for a denied git operation, phrased for display by git clients.
+ */
+export function describeDenial(
+  repoPath: string,
+  required: PermissionLevel,
+  username?: string,
+): string {
+  const who = username ? ` to ${username}` : "";
+  const needed = required === "read" ? "read" : required === "write" ? "write (push)" : "admin";
+  return `Permission to ${repoPath} denied${who}. This operation requires ${needed} access to the repository.`;
+}
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a public key line
+ * (`<type> <base64> [comment]`). Returns null for malformed keys.
+ */
+export function fingerprintPublicKey(publicKey: string): string | null {
+  const [type, data] = publicKey.trim().split(/\s+/);
+  if (!type || !data || !SSH_KEY_TYPES.has(type)) return null;
+
+  const blob = Buffer.from(data, "base64");
+  if (blob.length < 4) return null;
+  const typeLength = blob.readUInt32BE(0);
+  if (blob.subarray(4, 4 + typeLength).toString("utf-8") !== type) return null;
+
+  return fingerprintKeyBlob(blob);
+}
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a public key in wire format, as
+ * presented by an SSH client during authentication.
+ */
+export function fingerprintKeyBlob(blob: Buffer): string {
+  return `SHA256:${createHash("sha256").update(blob).digest("base64").replace(/=+$/, "")}`;
+}
+
+/**
+ * Access a deploy key grants to a project: write unless the key is
+ * read-only, and nothing for keys registered on other projects.
+ */
+export function resolveDeployKeyAccess(fingerprint: string, projectId: string): DeployKeyAccess | null {
+  const key = deployKeyRepo.findByFingerprint(fingerprint);
+  if (!key || key.projectId !== projectId) return null;
+  return { key, permission: key.readOnly ? "read" : "write" };
+}
@@ -0,0 +1,188 @@
+import * as nodePath from "node:path";
+import {
+  generatePrDiff,
+  getDiff,
+  mapLineToPosition,
+  parseDiff,
+  reanchorRange,
+  resolveRef,
+  type DiffFile,
+  type PrDiffSummary,
+} from "@platform/git";
+import type { Project } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import type { PullRequest } from "../db/repositories/pr-repo.js";
+import * as reviewThreadRepo from "../db/repositories/review-thread-repo.js";
+import type { DiffSide, ReviewThread, ThreadComment } from "../db/repositories/review-thread-repo.js";
+
+/**
+ * Review threads.
+ *
+ * A review comment is anchored to a line range on one side of the pull
+ * request's diff at its current head commit. When new commits land the
+ * thread follows its lines: the changes since the commit it points at
+ * shift the line numbers, and the thread becomes outdated once they
+ * touch its lines or the lines drop out of the diff.
+ */
+
+export interface StartThreadInput {
+  path: string;
+  side: DiffSide;
+  line: number;
+  startLine?: number;
+  /** Head commit the commenter saw; must still be the head */
+  commitSha?: string;
+  body: string;
+  /** Pending review the comment is collected in */
+  reviewId?: string;
+}
+
+/** A pull request's diff at its current head commit */
+export interface PullRequestDiff extends PrDiffSummary {
+  headSha: string;
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * Diff a pull request's head branch against where it branched off base
+ */
+export async function loadPullRequestDiff(project: Project, pr: PullRequest): Promise<PullRequestDiff> {
+  const repoPath = getRepositoryFsRoot(project);
+  const headSha = await resolveRef(repoPath, `refs/heads/${pr.headBranch}`).catch(() => null);
+  if (!headSha) {
+    throw new Error(`The pull request's head branch ${pr.headBranch} no longer exists`);
+  }
+  const diff = await generatePrDiff(repoPath, `refs/heads/${pr.baseBranch}`, headSha);
+  return { ...diff, headSha };
+}
+
+/**
+ * A file's diff in unified format, through diff position `through` when given
+ */
+export function filePatch(file: DiffFile, through?: number): string {
+  const lines: string[] = [];
+  let position = 0;
+
+  for (const hunk of file.hunks) {
+    position++;
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@${hunk.header ? ` ${hunk.header}` : ""}`);
+    for (const line of hunk.lines) {
+      if (through !== undefined && position >= through) return lines.join("\n");
+      position++;
+      lines.push(`${line.type === "add" ? "+" : line.type === "delete" ? "-" : " "}${line.content}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The hunk a diff position falls in, up to and including that position
+ */
+function diffHunkAt(file: DiffFile, position: number): string {
+  let start = 0;
+  for (const hunk of file.hunks) {
+    const end = start + 1 + hunk.lines.length;
+    if (position <= end) {
+      return filePatch({ ...file, hunks: [hunk] }, position - start);
+    }
+    start = end;
+  }
+  return "";
+}
+
+/**
+ * Start a review thread on a line range of the pull request's diff
+ */
+export async function startThread(
+  project: Project,
+  pr: PullRequest,
+  authorId: string,
+  input: StartThreadInput
+): Promise<{ thread: ReviewThread; comment: ThreadComment }> {
+  const diff = await loadPullRequestDiff(project, pr);
+  if (input.commitSha && input.commitSha !== diff.headSha) {
+    throw new Error("The pull request has new commits; reload the diff to comment on its latest version");
+  }
+
+  const end = mapLineToPosition(diff.files, input.path, input.line, input.side);
+  if (!end) {
+    throw new Error(`Line ${input.line} of ${input.path} is not part of the diff`);
+  }
+  if (input.startLine !== undefined) {
+    const start = mapLineToPosition(diff.files, input.path, input.startLine, input.side);
+    if (input.startLine >= input.line || !start || start.hunkIndex !== end.hunkIndex) {
+      throw new Error("A comment's lines must run forwards within one hunk of the diff");
+    }
+  }
+
+  const file = diff.files.find((f) => f.newPath === input.path || f.oldPath === input.path)!;
+  return reviewThreadRepo.createThread({
+    prId: pr.id,
+    path: input.path,
+    side: input.side,
+    startLine: input.startLine,
+    line: input.line,
+    commitSha: diff.headSha,
+    baseSha: diff.mergeBase,
+    position: end.position,
+    diffHunk: diffHunkAt(file, end.position),
+    authorId,
+    body: input.body,
+    reviewId: input.reviewId,
+  });
+}
+
+/**
+ * Move the pull request's threads onto its latest diff after new commits
+ * land, marking outdated those whose lines changed or left the diff
+ */
+export async function reanchorThreads(project: Project, pr: PullRequest): Promise<void> {
+  const threads = reviewThreadRepo.listThreads(pr.id).filter((thread) => !thread.outdated);
+  if (threads.length === 0) return;
+
+  const repoPath = getRepositoryFsRoot(project);
+  const diff = await loadPullRequestDiff(project, pr);
+  const changesCache = new Map<string, Promise<DiffFile[] | null>>();
+
+  // What changed between two commits; null when one of them is gone,
+  // e.g. after a force push
+  const changesBetween = (from: string, to: string) => {
+    if (from === to) return Promise.resolve<DiffFile[] | null>([]);
+    const key = `${from}..${to}`;
+    if (!changesCache.has(key)) {
+      changesCache.set(key, getDiff(repoPath, from, to).then(parseDiff, () => null));
+    }
+    return changesCache.get(key)!;
+  };
+
+  for (const thread of threads) {
+    if (thread.commitSha === diff.headSha && thread.baseSha === diff.mergeBase) continue;
+
+    const changes = thread.side === "RIGHT"
+      ? await changesBetween(thread.commitSha, diff.headSha)
+      : await changesBetween(thread.baseSha, diff.mergeBase);
+    const moved = changes && reanchorRange(changes, thread.path, thread.line, thread.startLine);
+    const end = moved && mapLineToPosition(diff.files, moved.path, moved.line, thread.side);
+    const start = moved?.startLine === undefined || mapLineToPosition(diff.files, moved.path, moved.startLine, thread.side);
+
+    if (!moved || !end || !start) {
+      reviewThreadRepo.updateAnchor(thread.id, { outdated: true, commitSha: diff.headSha, baseSha: diff.mergeBase });
+      continue;
+    }
+    reviewThreadRepo.updateAnchor(thread.id, {
+      path: moved.path,
+      side: thread.side,
+      startLine: moved.startLine,
+      line: moved.line,
+      commitSha: diff.headSha,
+      baseSha: diff.mergeBase,
+      position: end.position,
+    });
+  }
+}
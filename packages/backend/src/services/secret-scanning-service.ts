@@ -0,0 +1,246 @@
+import { scanPushedCommits, scanRepositoryHistory } from "@platform/git";
+import type { CommitSecretMatch, RefUpdate, SecretPattern } from "@platform/git";
+import type { Project } from "@platform/shared";
+import * as secretPatternRepo from "../db/repositories/secret-pattern-repo.js";
+import type { OrgSecretPattern } from "../db/repositories/secret-pattern-repo.js";
+import * as secretScanningRepo from "../db/repositories/secret-scanning-repo.js";
+
+/**
+ * Secret scanning service.
+ *
+ * Scans pushed commits and full repository history with the built-in
+ * patterns plus the owning organization's custom patterns, and turns
+ * matches into persisted alerts.
+ */
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+/** Secrets found in a push, grouped by the ref that introduced them. */
+export interface PushScanResult {
+  matchesByRef: Map<string, CommitSecretMatch[]>;
+  /** Refs rejected by push protection, with the reason shown to the client. */
+  blocked: Map<string, string>;
+}
+
+/** Longest custom pattern accepted. */
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Check that a custom pattern compiles and cannot backtrack
+ * catastrophically. Custom patterns run synchronously against every
+ * pushed line, so one slow pattern would stall every push in the org.
+ * Returns an error message or null.
+ */
+export function validatePatternSource(source: string): string | null {
+  if (source.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(source, "g");
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid regular expression";
+  }
+  return findBacktrackingRisk(source);
+}
+
+interface GroupScan {
+  /** The group contains a quantifier that repeats a variable number of times. */
+  repeats: boolean;
+  alternates: boolean;
+}
+
+/**
+ * Look for the constructs that make a backtracking engine take
+ * exponential time: a repeated group that itself contains a repetition
+ * or an alternation, like `(a+)+` or `(a|ab)*`, and backreferences.
+ * Conservative by design; such patterns can always be written without
+ * them for secret matching.
+ */
+function findBacktrackingRisk(source: string): string | null {
+  const groups: GroupScan[] = [{ repeats: false, alternates: false }];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\\" || char === "[") {
+      if (char === "\\" && /[1-9k]/.test(source[i + 1] ?? "")) {
+        return "Backreferences are not allowed in custom patterns";
+      }
+      const quantifier = readQuantifier(source, skipAtom(source, i));
+      groups[groups.length - 1].repeats ||= quantifier.repeats;
+      i = quantifier.end;
+    } else if (char === "(") {
+      groups.push({ repeats: false, alternates: false });
+      i++;
+      // Skip the `?:`, `?=`, `?<name>` ... prefix so it is not read as a quantifier
+      if (source[i] === "?") {
+        i++;
+        if (source[i] === "<" && source[i + 1] !== "=" && source[i + 1] !== "!") {
+          i = source.indexOf(">", i) + 1;
+        } else {
+          i += source[i] === "<" ? 2 : 1;
+        }
+      }
+    } else if (char === ")") {
+      const group = groups.pop()!;
+      const quantifier = readQuantifier(source, i + 1);
+      if (quantifier.repeats && (group.repeats || group.alternates)) {
+        return `Nested repetition near "${source.slice(0, quantifier.end)}" can take exponential time; `
+          + "avoid repeating a group that contains a quantifier or alternation";
+      }
+      const parent = groups[groups.length - 1];
+      parent.repeats ||= group.repeats || quantifier.repeats;
+      i = quantifier.end;
+    } else if (char === "|") {
+      groups[groups.length - 1].alternates = true;
+      i++;
+    } else {
+      const quantifier = readQuantifier(source, i + 1);
+      groups[groups.length - 1].repeats ||= quantifier.repeats;
+      i = quantifier.end;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The index just past the escape or character class starting at `start`.
+ */
+function skipAtom(source: string, start: number): number {
+  if (source[start] === "\\") return start + 2;
+
+  let i = start + 1;
+  while (i < source.length && source[i] !== "]") {
+    i += source[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Read the quantifier (if any) at `start`. `?` and exact counts like
+ * `{4}` do not repeat a variable number of times.
+ */
+function readQuantifier(source: string, start: number): { repeats: boolean; end: number } {
+  let repeats = false;
+  let end = start;
+
+  const char = source[start];
+  if (char === "*" || char === "+") {
+    repeats = true;
+    end = start + 1;
+  } else if (char === "?") {
+    end = start + 1;
+  } else if (char === "{") {
+    const bounds = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(start));
+    if (bounds) {
+      repeats = bounds[2] !== undefined && bounds[3] !== bounds[1];
+      end = start + bounds[0].length;
+    }
+  }
+
+  // Lazy modifier
+  if (end > start && source[end] === "?") end++;
+  return { repeats, end };
+}
+
+/**
+ * Compile stored org patterns; patterns that no longer validate are skipped.
+ */
+export function compilePatterns(patterns: OrgSecretPattern[]): SecretPattern[] {
+  const compiled: SecretPattern[] = [];
+  for (const pattern of patterns) {
+    if (validatePatternSource(pattern.pattern) !== null) continue;
+    compiled.push({
+      name: pattern.name,
+      regex: new RegExp(pattern.pattern, "g"),
+      description: pattern.description ?? `Custom pattern ${pattern.name}`,
+      confidence: pattern.confidence,
+    });
+  }
+  return compiled;
+}
+
+/**
+ * Patterns that apply to a project in addition to the built-in ones.
+ */
+export function loadPatterns(project: Project): SecretPattern[] {
+  if (!project.orgId) return [];
+  return compilePatterns(secretPatternRepo.listByOrg(project.orgId));
+}
+
+/**
+ * Describe a blocked secret for the pushing client.
+ */
+export function describeBlockedSecret(match: CommitSecretMatch): string {
+  const location = match.file ? `${match.file}:${match.line}` : `line ${match.line}`;
+  return `Push blocked: ${match.type} found in ${location} (commit ${match.commit.slice(0, 7)}). `
+    + "Remove the secret from your commits and push again";
+}
+
+/**
+ * Scan the commits introduced by each ref update in a push. When push
+ * protection is on, refs introducing high-confidence secrets are blocked.
+ */
+export async function scanPush(
+  project: Project,
+  repoPath: string,
+  updates: RefUpdate[],
+  env: NodeJS.ProcessEnv,
+): Promise<PushScanResult> {
+  const result: PushScanResult = { matchesByRef: new Map(), blocked: new Map() };
+  const settings = secretScanningRepo.getSettings(project.id);
+  if (!settings.scanningEnabled) {
+    return result;
+  }
+
+  const patterns = loadPatterns(project);
+  for (const update of updates) {
+    if (update.newSha === ZERO_SHA) continue;
+
+    const matches = await scanPushedCommits(repoPath, update.newSha, { env, patterns });
+    if (matches.length === 0) continue;
+    result.matchesByRef.set(update.refName, matches);
+
+    const highConfidence = matches.find((match) => match.confidence === "high");
+    if (settings.pushProtection && highConfidence) {
+      result.blocked.set(update.refName, describeBlockedSecret(highConfidence));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Persist matches as alerts. Returns the number of new alerts.
+ */
+export function recordMatches(projectId: string, matches: CommitSecretMatch[]): number {
+  let created = 0;
+  for (const match of matches) {
+    const recorded = secretScanningRepo.recordAlert(projectId, {
+      secretType: match.type,
+      fingerprint: match.fingerprint,
+      maskedSecret: match.value,
+      confidence: match.confidence,
+      filePath: match.file,
+      line: match.line,
+      commitSha: match.commit,
+    });
+    if (recorded.created) created++;
+  }
+  return created;
+}
+
+/**
+ * Scan every commit in the repository and record alerts.
+ */
+export async function scanHistory(
+  project: Project,
+  repoPath: string,
+): Promise<{ matches: number; newAlerts: number }> {
+  const matches = await scanRepositoryHistory(repoPath, { patterns: loadPatterns(project) });
+  const newAlerts = recordMatches(project.id, matches);
+  secretScanningRepo.upsertSettings(project.id, { lastFullScanAt: new Date().toISOString() });
+  return { matches: matches.length, newAlerts };
+}
@@ -0,0 +1,275 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import ssh2 from "ssh2";
+import type { Connection, PublicKeyAuthContext, Server, ServerChannel } from "ssh2";
+import { serveGitSsh } from "@platform/git";
+import type { PermissionLevel } from "@platform/git";
+import type { Project, User } from "@platform/shared";
+import { getConfig } from "../config/app-config.js";
+import * as analyticsRepo from "../db/repositories/analytics-repo.js";
+import * as deployKeyRepo from "../db/repositories/deploy-key-repo.js";
+import * as mirrorRepo from "../db/repositories/mirror-repo.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as sshKeyRepo from "../db/repositories/ssh-key-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import type { ProjectDeployKey } from "../db/repositories/deploy-key-repo.js";
+import { createPushHooks, type Pusher } from "./push-policy-service.js";
+import {
+  describeDenial,
+  fingerprintKeyBlob,
+  resolveDeployKeyAccess,
+  resolveProjectPermission,
+  satisfies,
+} from "./repository-permission-service.js";
+
+/**
+ * Built-in SSH server for git.
+ *
+ * Clients authenticate with a public key registered either on a user
+ * account or as a project deploy key. The only commands accepted are
+ * git-upload-pack and git-receive-pack for `owner/repo`, authorized with
+ * the same permission checks and push policy as git over HTTP.
+ */
+
+type GitService = "git-upload-pack" | "git-receive-pack";
+
+/** Who an SSH connection authenticated as. */
+type SshIdentity =
+  | { kind: "user"; user: User; keyId: string }
+  | { kind: "deploy"; key: ProjectDeployKey };
+
+const GIT_COMMAND = /^(git[- ](?:upload|receive)-pack) '?\/?([^/']+)\/([^/']+?)(?:\.git)?\/?'?$/;
+
+/**
+ * Load the server's host key, generating an Ed25519 key on first start.
+ */
+function loadHostKey(path: string): string {
+  if (!existsSync(path)) {
+    mkdirSync(dirname(path), { recursive: true });
+    const { private: privateKey } = ssh2.utils.generateKeyPairSync("ed25519");
+    writeFileSync(path, privateKey, { mode: 0o600 });
+    console.log(`[ssh] Generated host key at ${path}`);
+  }
+  return readFileSync(path, "utf-8");
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * Find the account or deploy key a public key fingerprint belongs to.
+ */
+function identify(fingerprint: string): SshIdentity | null {
+  const sshKey = sshKeyRepo.findByFingerprint(fingerprint);
+  if (sshKey) {
+    const user = userRepo.findById(sshKey.userId);
+    return user && !user.suspended ? { kind: "user", user, keyId: sshKey.id } : null;
+  }
+
+  const deployKey = deployKeyRepo.findByFingerprint(fingerprint);
+  return deployKey ? { kind: "deploy", key: deployKey } : null;
+}
+
+/**
+ * Check a publickey attempt. Clients first ask whether a key is
+ * acceptable without signing; the signed attempt is verified against
+ * the registered key.
+ */
+function authenticate(ctx: PublicKeyAuthContext): SshIdentity | null {
+  const identity = identify(fingerprintKeyBlob(ctx.key.data));
+  if (!identity) return null;
+  if (!ctx.signature || !ctx.blob) return identity;
+
+  const registered = ssh2.utils.parseKey(identity.kind === "user"
+    ? sshKeyRepo.findById(identity.keyId)?.key ?? ""
+    : identity.key.key);
+  if (registered instanceof Error || !registered.verify(ctx.blob, ctx.signature, ctx.hashAlgo)) {
+    return null;
+  }
+  return identity;
+}
+
+function fail(channel: ServerChannel, message: string): void {
+  channel.stderr.write(`ERROR: ${message}\n`);
+  channel.exit(1);
+  channel.end();
+}
+
+/**
+ * Run a git command requested over an exec channel.
+ */
+async function runGitCommand(
+  identity: SshIdentity,
+  command: string,
+  channel: ServerChannel,
+  protocol: string | undefined,
+): Promise<void> {
+  const match = GIT_COMMAND.exec(command.trim());
+  if (!match) {
+    fail(channel, "Only git-upload-pack and git-receive-pack are supported.");
+    return;
+  }
+
+  const service = match[1].replace(" ", "-") as GitService;
+  const [, , owner, slug] = match;
+  const repoPath = `${owner}/${slug}`;
+  const ownerUser = userRepo.findByUsername(owner);
+  const project = ownerUser ? projectRepo.findBySlug(ownerUser.id, slug) : null;
+  const required: PermissionLevel = service === "git-receive-pack" ? "write" : "read";
+
+  let permission: PermissionLevel = "none";
+  if (project) {
+    permission = identity.kind === "user"
+      ? resolveProjectPermission(project, { userId: identity.user.id, role: identity.user.role })
+      : resolveDeployKeyAccess(identity.key.fingerprint, project.id)?.permission ?? "none";
+  }
+
+  if (!project || !satisfies(permission, "read")) {
+    fail(channel, "Repository not found.");
+    return;
+  }
+  if (!satisfies(permission, required)) {
+    fail(channel, identity.kind === "deploy"
+      ? `The deploy key "${identity.key.title}" is read-only and cannot push to ${repoPath}.`
+      : describeDenial(repoPath, required, identity.user.username));
+    return;
+  }
+
+  let hooks = {};
+  if (service === "git-receive-pack") {
+    if (mirrorRepo.findPullMirror(project.id)) {
+      fail(channel, "This repository is a pull mirror and is read-only");
+      return;
+    }
+
+    const pusher: Pusher = identity.kind === "user"
+      ? { userId: identity.user.id, role: identity.user.role }
+      : { userId: "", role: "deploy-key" };
+    analyticsRepo.logAnalyticsEvent({
+      eventType: "repo.push",
+      actorUserId: identity.kind === "user" ? identity.user.id : undefined,
+      repositoryId: project.id,
+      metadata: { owner, repo: slug, transport: "ssh" },
+    });
+    hooks = createPushHooks(project, pusher);
+  } else {
+    projectRepo.incrementCloneCount(project.id);
+  }
+
+  if (identity.kind === "user") {
+    sshKeyRepo.touchLastUsed(identity.keyId);
+  } else {
+    deployKeyRepo.touchLastUsed(identity.key.id);
+  }
+
+  const code = await serveGitSsh(
+    getRepositoryFsRoot(project),
+    service,
+    { input: channel, output: channel, stderr: channel.stderr },
+    { ...hooks, protocol },
+  );
+  channel.exit(code);
+  channel.end();
+}
+
+function handleConnection(client: Connection): void {
+  let identity: SshIdentity | null = null;
+
+  client.on("authentication", (ctx) => {
+    if (ctx.method !== "publickey") {
+      ctx.reject(["publickey"]);
+      return;
+    }
+
+    const result = authenticate(ctx);
+    if (!result) {
+      ctx.reject(["publickey"]);
+      return;
+    }
+    if (ctx.signature) identity = result;
+    ctx.accept();
+  });
+
+  client.on("session", (accept) => {
+    const session = accept();
+    let protocol: string | undefined;
+
+    session.on("env", (acceptEnv, rejectEnv, info) => {
+      if (info.key === "GIT_PROTOCOL") {
+        protocol = info.val;
+        acceptEnv?.();
+      } else {
+        rejectEnv?.();
+      }
+    });
+    session.on("pty", (_accept, rejectPty) => rejectPty?.());
+    session.on("shell", (acceptShell) => {
+      const channel = acceptShell();
+      const name = identity?.kind === "user" ? identity.user.username : "deploy key";
+      channel.stderr.write(`Hi ${name}! You've successfully authenticated, but GitTic does not provide shell access.\n`);
+      channel.exit(1);
+      channel.end();
+    });
+    session.on("exec", (acceptExec, _rejectExec, info) => {
+      const channel = acceptExec();
+      if (!identity) {
+        fail(channel, "Not authenticated.");
+        return;
+      }
+      runGitCommand(identity, info.command, channel, protocol).catch((err: unknown) => {
+        console.error("[ssh] git command failed:", err);
+        fail(channel, "Internal server error.");
+      });
+    });
+  });
+
+  client.on("error", (err) => {
+    console.error("[ssh] Connection error:", err.message);
+  });
+}
+
+/**
+ * Create the SSH server with the given host private key (not yet
+ * listening).
+ */
+export function createSshServer(hostKey: string): Server {
+  const server = new ssh2.Server({ hostKeys: [hostKey] }, handleConnection);
+  server.on("error", (err: Error) => console.error("[ssh] Server error:", err));
+  return server;
+}
+
+/**
+ * SSH clone URL of a repository, or null when the SSH server is disabled.
+ */
+export function sshCloneUrl(owner: string, slug: string): string | null {
+  const { ssh } = getConfig();
+  if (!ssh.enabled) return null;
+  return ssh.port === 22
+    ? `git@${ssh.domain}:${owner}/${slug}.git`
+    : `ssh://git@${ssh.domain}:${ssh.port}/${owner}/${slug}.git`;
+}
+
+/**
+ * Start the SSH server when enabled.
+ *
+ * @returns A function that stops the server.
+ */
+export function startSshServer(): () => void {
+  const config = getConfig();
+  if (!config.ssh.enabled) {
+    return () => undefined;
+  }
+
+  const server = createSshServer(loadHostKey(config.ssh.hostKeyPath));
+  server.listen(config.ssh.port, config.host, () => {
+    console.log(`[ssh] Listening on port ${config.ssh.port}`);
+  });
+
+  return () => {
+    server.close();
+  };
+}
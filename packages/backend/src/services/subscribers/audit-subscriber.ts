@@ -0,0 +1,176 @@
+import type { PlatformEvent } from "@platform/shared";
+import { logAuditEvent, logAuthEvent } from "../audit-service.js";
+import type { AuditCategory } from "../audit-service.js";
+import { subscribe, type MatchingEventType } from "../event-bus.js";
+
+/**
+ * Audit subscriber.
+ *
+ * Records sign-ins, account and credential changes, administrative and
+ * moderation actions, changes to project, organization and Actions
+ * settings, terminal use and destructive repository actions in the
+ * audit log.
+ */
+
+const AUDITED = [
+  "user.registered",
+  "user.login",
+  "user.logout",
+  "user.profile.updated",
+  "user.deleted",
+  "user.role.changed",
+  "user.suspended",
+  "user.banned",
+  "user.ssh_key.*",
+  "user.token.*",
+  "user.payment_method.*",
+  "project.created",
+  "project.updated",
+  "project.deleted",
+  "project.settings.updated",
+  "project.member.*",
+  "project.branch_protection.*",
+  "project.webhook.created",
+  "project.webhook.updated",
+  "project.webhook.deleted",
+  "project.deploy_key.*",
+  "project.mirror.created",
+  "project.mirror.updated",
+  "project.mirror.deleted",
+  "project.secret_scanning.alert_updated",
+  "project.secret_scanning.settings_updated",
+  "organization.*",
+  "actions.secret.*",
+  "actions.variable.*",
+  "environment.*",
+  "terminal.*",
+  "announcement.*",
+  "feature_flag.*",
+  "moderation.*",
+  "cluster.*",
+  "git.branch.deleted",
+  "git.tag.deleted",
+  "pull_request.merged",
+] as const;
+
+type AuditedEvent = PlatformEvent<
+  Exclude<MatchingEventType<(typeof AUDITED)[number]>, "user.registered" | "user.login" | "user.logout">
+>;
+
+/**
+ * The audit category and affected resource of an event.
+ */
+function describe(event: AuditedEvent): { category: AuditCategory; resource: string; resourceId: string } {
+  switch (event.type) {
+    case "user.profile.updated":
+    case "user.deleted":
+    case "user.ssh_key.added":
+    case "user.ssh_key.removed":
+    case "user.token.created":
+    case "user.token.revoked":
+    case "user.payment_method.added":
+    case "user.payment_method.removed":
+    case "user.payment_method.default_changed":
+      return { category: "user", resource: "user", resourceId: event.payload.userId };
+    case "user.role.changed":
+    case "user.suspended":
+    case "user.banned":
+      return { category: "admin", resource: "user", resourceId: event.payload.userId };
+    case "project.branch_protection.created":
+    case "project.branch_protection.updated":
+    case "project.branch_protection.deleted":
+    case "organization.branch_protection.created":
+    case "organization.branch_protection.updated":
+    case "organization.branch_protection.deleted":
+    case "actions.secret.updated":
+    case "actions.secret.deleted":
+    case "actions.variable.updated":
+    case "actions.variable.deleted":
+      return {
+        category: event.payload.scope === "organization" ? "organization" : "project",
+        resource: event.payload.scope,
+        resourceId: event.payload.scopeId,
+      };
+    case "project.created":
+    case "project.updated":
+    case "project.deleted":
+    case "project.settings.updated":
+    case "project.member.added":
+    case "project.member.role_changed":
+    case "project.member.removed":
+    case "project.webhook.created":
+    case "project.webhook.updated":
+    case "project.webhook.deleted":
+    case "project.deploy_key.added":
+    case "project.deploy_key.removed":
+    case "project.mirror.created":
+    case "project.mirror.updated":
+    case "project.mirror.deleted":
+    case "project.secret_scanning.alert_updated":
+    case "project.secret_scanning.settings_updated":
+    case "terminal.session.started":
+    case "terminal.session.closed":
+    case "terminal.command.executed":
+      return { category: "project", resource: "project", resourceId: event.payload.projectId };
+    case "environment.created":
+    case "environment.updated":
+    case "environment.deleted":
+    case "environment.deployment.reviewed":
+    case "environment.deployment.rollback_requested":
+    case "git.branch.deleted":
+    case "git.tag.deleted":
+    case "pull_request.merged":
+      return { category: "project", resource: "project", resourceId: event.payload.repositoryId };
+    case "organization.created":
+    case "organization.updated":
+    case "organization.deleted":
+    case "organization.member.added":
+    case "organization.member.removed":
+    case "organization.secret_pattern.created":
+    case "organization.secret_pattern.deleted":
+      return { category: "organization", resource: "organization", resourceId: event.payload.organizationId };
+    case "announcement.created":
+    case "announcement.updated":
+    case "announcement.deleted":
+      return { category: "admin", resource: "announcement", resourceId: event.payload.announcementId };
+    case "feature_flag.updated":
+      return { category: "admin", resource: "feature_flag", resourceId: event.payload.flagId };
+    case "moderation.report.created":
+    case "moderation.report.updated":
+    case "moderation.report.resolved":
+      return { category: "moderation", resource: "moderation_report", resourceId: event.payload.reportId };
+    case "cluster.node.registered":
+    case "cluster.node.deregistered":
+    case "cluster.node.removed":
+    case "cluster.node.draining":
+    case "cluster.node.updating":
+      return { category: "cluster", resource: "cluster_node", resourceId: event.payload.nodeId };
+    case "cluster.update_requested":
+      return { category: "cluster", resource: "cluster", resourceId: "all" };
+  }
+}
+
+export function subscribeAudit(): () => void {
+  return subscribe("audit", [...AUDITED], (event) => {
+    const { clientIp, userAgent } = event.metadata;
+
+    switch (event.type) {
+      case "user.login":
+      case "user.logout":
+        logAuthEvent(event.payload.userId, event.type === "user.login" ? "login" : "logout", clientIp, userAgent);
+        return;
+      case "user.registered":
+        logAuthEvent(event.payload.userId, "register", clientIp, userAgent);
+        return;
+    }
+
+    logAuditEvent({
+      userId: event.actorId ?? "system",
+      ...describe(event),
+      action: event.type,
+      metadata: { ...event.payload },
+      ipAddress: clientIp,
+      userAgent,
+    });
+  });
+}
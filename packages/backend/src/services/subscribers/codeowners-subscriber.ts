@@ -0,0 +1,26 @@
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import { requestCodeOwnerReviews } from "../codeowners-service.js";
+import { subscribe } from "../event-bus.js";
+
+/**
+ * Code owners subscriber.
+ *
+ * Requests reviews from the owners of the paths a pull request changes
+ * when it is opened or reopened, and again as new commits touch more
+ * owned paths.
+ */
+
+export function subscribeCodeOwners(): () => void {
+  return subscribe(
+    "codeowners",
+    ["pull_request.opened", "pull_request.reopened", "pull_request.synchronize"],
+    async (event) => {
+      const project = projectRepo.findById(event.payload.repositoryId);
+      const pr = prRepo.findById(event.payload.pullRequestId);
+      if (!project || !pr || pr.state !== "open") return;
+
+      await requestCodeOwnerReviews(project, pr);
+    },
+  );
+}
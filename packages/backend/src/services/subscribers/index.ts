@@ -0,0 +1,42 @@
+import { subscribeAudit } from "./audit-subscriber.js";
+import { subscribeCodeOwners } from "./codeowners-subscriber.js";
+import { subscribeMergeQueue } from "./merge-queue-subscriber.js";
+import { subscribeNotifications } from "./notification-subscriber.js";
+import { subscribePullRequestReviews } from "./pr-review-subscriber.js";
+import { subscribeReviewThreads } from "./review-thread-subscriber.js";
+import { subscribeSearch } from "./search-subscriber.js";
+import { subscribeWebhooks } from "./webhook-subscriber.js";
+import { subscribeWebSocket } from "./websocket-subscriber.js";
+import { subscribeWorkflows } from "./workflow-subscriber.js";
+
+/**
+ * Event bus subscribers.
+ *
+ * Each subscriber fans domain events out to one integration. Adding an
+ * integration means adding a subscriber here rather than touching the
+ * routes that publish the events.
+ */
+
+/**
+ * Register every subscriber with the event bus.
+ *
+ * @returns A function that removes the subscriptions.
+ */
+export function registerEventSubscribers(): () => void {
+  const unsubscribers = [
+    subscribeNotifications(),
+    subscribeWebhooks(),
+    subscribeAudit(),
+    subscribeSearch(),
+    subscribeWebSocket(),
+    subscribeWorkflows(),
+    subscribeReviewThreads(),
+    subscribePullRequestReviews(),
+    subscribeCodeOwners(),
+    subscribeMergeQueue(),
+  ];
+
+  return () => {
+    for (const unsubscribe of unsubscribers) unsubscribe();
+  };
+}
@@ -0,0 +1,40 @@
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import { subscribe } from "../event-bus.js";
+import { advanceMergeQueue, dequeuePullRequest, handleMergeGroupRun, MERGE_GROUP_EVENT } from "../merge-queue-service.js";
+
+/**
+ * Merge queue subscriber.
+ *
+ * Advances a branch's merge queue as the `merge_group` runs of its
+ * entries complete and when the branch is pushed to outside the queue.
+ * Pull requests that are closed or receive new commits leave the queue.
+ */
+
+export function subscribeMergeQueue(): () => void {
+  return subscribe(
+    "merge-queue",
+    ["workflow_run.completed", "git.push", "pull_request.closed", "pull_request.synchronize"],
+    async (event) => {
+      const project = projectRepo.findById(event.payload.repositoryId);
+      if (!project) return;
+
+      switch (event.type) {
+        case "workflow_run.completed":
+          if (event.payload.event === MERGE_GROUP_EVENT && event.payload.headSha) {
+            await handleMergeGroupRun(project, event.payload.headSha);
+          }
+          return;
+        case "git.push":
+          if (event.payload.ref.startsWith("refs/heads/") && !event.payload.deleted) {
+            await advanceMergeQueue(project, event.payload.refName);
+          }
+          return;
+        default: {
+          const pr = prRepo.findById(event.payload.pullRequestId);
+          if (pr) await dequeuePullRequest(project, pr);
+        }
+      }
+    },
+  );
+}
@@ -0,0 +1,110 @@
+import type { Project } from "@platform/shared";
+import * as notificationRepo from "../../db/repositories/notification-repo.js";
+import type { Notification } from "../../db/repositories/notification-repo.js";
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import * as userRepo from "../../db/repositories/user-repo.js";
+import { subscribe } from "../event-bus.js";
+import { sendToUser } from "../websocket-gateway.js";
+
+/**
+ * Notification subscriber.
+ *
+ * Notifies users of activity on their pull requests and issues, of new
+ * pull requests on their repositories, and of @mentions in comments.
+ * Users are never notified of their own actions. Each notification is
+ * also pushed to the user's open WebSocket connections.
+ */
+
+function fullName(project: Project): string {
+  const owner = userRepo.findById(project.ownerId);
+  return `${owner?.username ?? "unknown"}/${project.slug}`;
+}
+
+function deliver(notifications: Notification[]): void {
+  for (const notification of notifications) {
+    sendToUser(notification.userId, { type: "notification", notification });
+  }
+}
+
+export function subscribeNotifications(): () => void {
+  return subscribe(
+    "notifications",
+    ["pull_request.opened", "pull_request.closed", "pull_request.merged", "issue.closed", "issue.reopened", "comment.created"],
+    (event) => {
+      const project = projectRepo.findById(event.payload.repositoryId);
+      if (!project) return;
+
+      const actorId = event.actorId ?? undefined;
+      const notify = (userId: string, type: string, title: string, resourceType: string, resourceId: string, body: string) => {
+        if (userId === actorId) return [];
+        return [notificationRepo.createNotification(userId, type, title, resourceType, resourceId, body, actorId)];
+      };
+
+      switch (event.type) {
+        case "pull_request.opened": {
+          const { payload } = event;
+          deliver(notify(
+            project.ownerId,
+            "pull_request",
+            `New pull request in ${fullName(project)}`,
+            "pull_request",
+            payload.pullRequestId,
+            `#${payload.number} ${payload.title}`,
+          ));
+          break;
+        }
+        case "pull_request.closed":
+        case "pull_request.merged": {
+          const { payload } = event;
+          const verb = event.type === "pull_request.merged" ? "merged" : "closed";
+          deliver(notify(
+            payload.authorId,
+            "pull_request",
+            `Your pull request was ${verb}`,
+            "pull_request",
+            payload.pullRequestId,
+            `#${payload.number} ${payload.title} in ${fullName(project)}`,
+          ));
+          break;
+        }
+        case "issue.closed":
+        case "issue.reopened": {
+          const { payload } = event;
+          deliver(notify(
+            payload.authorId,
+            "issue",
+            `Your issue was ${payload.state === "closed" ? "closed" : "reopened"}`,
+            "issue",
+            payload.issueId,
+            `#${payload.number} ${payload.title} in ${fullName(project)}`,
+          ));
+          break;
+        }
+        case "comment.created": {
+          const { payload } = event;
+          const mentioned = notificationRepo.createMentionNotifications(
+            payload.body,
+            payload.authorId,
+            payload.target,
+            payload.targetId,
+            payload.title,
+            (username) => userRepo.findByUsername(username)?.id ?? null,
+          );
+          deliver(mentioned);
+
+          if (!mentioned.some((notification) => notification.userId === payload.targetAuthorId)) {
+            deliver(notify(
+              payload.targetAuthorId,
+              "comment",
+              `New comment on #${payload.number}`,
+              payload.target,
+              payload.targetId,
+              `${payload.title} in ${fullName(project)}`,
+            ));
+          }
+          break;
+        }
+      }
+    },
+  );
+}
@@ -0,0 +1,21 @@
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import { resolveBranchProtection } from "../branch-protection-service.js";
+import { subscribe } from "../event-bus.js";
+
+/**
+ * Pull request review subscriber.
+ *
+ * Dismisses approvals of earlier commits when new commits are pushed to
+ * a pull request, if the protection of its base branch asks for it.
+ */
+
+export function subscribePullRequestReviews(): () => void {
+  return subscribe("pr-reviews", ["pull_request.synchronize"], (event) => {
+    const { repositoryId, pullRequestId, baseBranch, headSha } = event.payload;
+    const project = projectRepo.findById(repositoryId);
+    if (!headSha || !project || !resolveBranchProtection(project, baseBranch).dismissStaleReviews) return;
+
+    prRepo.dismissStaleApprovals(pullRequestId, headSha);
+  });
+}
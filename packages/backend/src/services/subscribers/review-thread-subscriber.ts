@@ -0,0 +1,21 @@
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import { subscribe } from "../event-bus.js";
+import { reanchorThreads } from "../review-thread-service.js";
+
+/**
+ * Review thread subscriber.
+ *
+ * Moves a pull request's review threads onto its new diff whenever
+ * commits are pushed to its head branch.
+ */
+
+export function subscribeReviewThreads(): () => void {
+  return subscribe("review-threads", ["pull_request.synchronize"], async (event) => {
+    const project = projectRepo.findById(event.payload.repositoryId);
+    const pr = prRepo.findById(event.payload.pullRequestId);
+    if (!project || !pr) return;
+
+    await reanchorThreads(project, pr);
+  });
+}
@@ -0,0 +1,32 @@
+import { refreshProject, refreshUser } from "../indexing-service.js";
+import { subscribe } from "../event-bus.js";
+
+/**
+ * Search subscriber.
+ *
+ * Keeps the search index current as projects and user profiles change,
+ * instead of waiting for the periodic full reindex.
+ */
+
+export function subscribeSearch(): () => void {
+  return subscribe(
+    "search",
+    [
+      "project.created",
+      "project.updated",
+      "project.deleted",
+      "project.starred",
+      "project.unstarred",
+      "user.registered",
+      "user.profile.updated",
+      "user.deleted",
+    ],
+    (event) => {
+      if ("projectId" in event.payload) {
+        refreshProject(event.payload.projectId);
+      } else {
+        refreshUser(event.payload.userId);
+      }
+    },
+  );
+}
@@ -0,0 +1,153 @@
+import type { GitPushPayload, PullRequestEventPayload } from "@platform/shared";
+import * as commentRepo from "../../db/repositories/comment-repo.js";
+import * as issueRepo from "../../db/repositories/issue-repo.js";
+import * as pipelineRepo from "../../db/repositories/pipeline-repo.js";
+import * as prRepo from "../../db/repositories/pr-repo.js";
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import { subscribe } from "../event-bus.js";
+import { emitWebhookEvent } from "../webhook-service.js";
+
+/**
+ * Webhook subscriber.
+ *
+ * Translates repository activity into webhook events and queues them
+ * for the repository's webhooks. Payloads carry the current state of
+ * the pull request, issue or run the event refers to. Tags double as
+ * releases, so tag events are also delivered as `release` events.
+ */
+
+function pushBody(payload: GitPushPayload) {
+  const commits = payload.commits.map((commit) => ({
+    id: commit.sha,
+    message: commit.message,
+    timestamp: commit.timestamp,
+    author: { name: commit.author.name, email: commit.author.email },
+    added: commit.added,
+    modified: commit.modified,
+    removed: commit.removed,
+  }));
+
+  return {
+    ref: payload.ref,
+    before: payload.beforeSha,
+    after: payload.afterSha,
+    created: payload.created,
+    deleted: payload.deleted,
+    forced: payload.forced,
+    commits,
+    head_commit: commits.at(-1) ?? null,
+    pusher: { name: payload.pusher.username ?? payload.pusher.name, email: payload.pusher.email },
+  };
+}
+
+/** The label or assignee a labeled or assigned event is about */
+function changeBody(payload: { label?: string; assigneeId?: string }) {
+  return {
+    ...(payload.label ? { label: { name: payload.label } } : {}),
+    ...(payload.assigneeId ? { assignee: { id: payload.assigneeId } } : {}),
+  };
+}
+
+function pullRequestBody(action: string, payload: PullRequestEventPayload) {
+  const pr = prRepo.findById(payload.pullRequestId) ?? payload;
+  return {
+    action: action === "merged" ? "closed" : action,
+    number: payload.number,
+    pull_request: { ...pr, merged: payload.state === "merged" },
+    ...(payload.headSha ? { after: payload.headSha } : {}),
+    ...changeBody(payload),
+  };
+}
+
+export function subscribeWebhooks(): () => void {
+  return subscribe(
+    "webhooks",
+    ["git.*", "pull_request.*", "issue.*", "comment.created", "pipeline.run.*"],
+    (event) => {
+      const projectId = "projectId" in event.payload ? event.payload.projectId : event.payload.repositoryId;
+      const project = projectRepo.findById(projectId);
+      if (!project) return;
+
+      const [, action] = /\.(\w+)$/.exec(event.type)!;
+
+      switch (event.type) {
+        case "git.push":
+          emitWebhookEvent(project, "push", pushBody(event.payload), event.actorId);
+          break;
+        case "git.branch.created":
+        case "git.branch.deleted":
+          emitWebhookEvent(project, action === "created" ? "create" : "delete", {
+            ref: event.payload.branchName,
+            ref_type: "branch",
+            master_branch: project.defaultBranch,
+          }, event.actorId);
+          break;
+        case "git.tag.created":
+        case "git.tag.deleted":
+          emitWebhookEvent(project, action === "created" ? "create" : "delete", {
+            ref: event.payload.tagName,
+            ref_type: "tag",
+            master_branch: project.defaultBranch,
+          }, event.actorId);
+          emitWebhookEvent(project, "release", {
+            action: action === "created" ? "published" : "deleted",
+            release: {
+              tag_name: event.payload.tagName,
+              target_commitish: event.payload.sha,
+              name: event.payload.tagName,
+              body: event.payload.message ?? null,
+            },
+          }, event.actorId);
+          break;
+        case "pull_request.opened":
+        case "pull_request.edited":
+        case "pull_request.closed":
+        case "pull_request.reopened":
+        case "pull_request.synchronize":
+        case "pull_request.merged":
+        case "pull_request.labeled":
+        case "pull_request.assigned":
+          emitWebhookEvent(project, "pull_request", pullRequestBody(action, event.payload), event.actorId);
+          break;
+        case "issue.opened":
+        case "issue.edited":
+        case "issue.closed":
+        case "issue.reopened":
+        case "issue.labeled":
+        case "issue.unlabeled":
+        case "issue.assigned":
+        case "issue.unassigned":
+          emitWebhookEvent(project, "issues", {
+            action,
+            issue: issueRepo.findById(event.payload.issueId) ?? event.payload,
+            ...changeBody(event.payload),
+          }, event.actorId);
+          break;
+        case "comment.created": {
+          const { payload } = event;
+          const thread = payload.target === "issue"
+            ? { issue: issueRepo.findById(payload.targetId) }
+            : { pull_request: prRepo.findById(payload.targetId) };
+          const comment = payload.target === "issue"
+            ? commentRepo.getIssueComment(payload.commentId)
+            : commentRepo.getPRComment(payload.commentId);
+          emitWebhookEvent(project, "issue_comment", {
+            action: "created",
+            ...thread,
+            comment: comment ?? { id: payload.commentId, authorId: payload.authorId, body: payload.body },
+          }, event.actorId);
+          break;
+        }
+        case "pipeline.run.queued":
+        case "pipeline.run.canceled": {
+          const run = pipelineRepo.findRunById(event.payload.runId) ?? event.payload;
+          emitWebhookEvent(project, "workflow_run", action === "queued"
+            ? { action: "requested", workflow_run: run }
+            : { action: "completed", workflow_run: { ...run, conclusion: "cancelled" } },
+          event.actorId);
+          break;
+        }
+      }
+    },
+  );
+}
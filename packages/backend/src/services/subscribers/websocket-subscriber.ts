@@ -0,0 +1,28 @@
+import { subscribe } from "../event-bus.js";
+import { projectRoom, publishToRoom } from "../websocket-gateway.js";
+
+/**
+ * WebSocket subscriber.
+ *
+ * Relays repository activity to the project's WebSocket room so open
+ * pages can update without polling.
+ */
+
+export function subscribeWebSocket(): () => void {
+  return subscribe("websocket", ["git.*", "pull_request.*", "issue.*", "comment.created", "pipeline.*", "project.*"], (event) => {
+    const { payload } = event;
+    const projectId = "projectId" in payload ? payload.projectId : "repositoryId" in payload ? payload.repositoryId : null;
+    if (!projectId) return;
+
+    publishToRoom(projectRoom(projectId), {
+      type: "event",
+      event: {
+        id: event.id,
+        type: event.type,
+        actorId: event.actorId,
+        payload,
+        timestamp: event.timestamp,
+      },
+    });
+  });
+}
@@ -0,0 +1,27 @@
+import * as projectRepo from "../../db/repositories/project-repo.js";
+import { subscribe } from "../event-bus.js";
+import { triggerPullRequestWorkflows, triggerPushWorkflows } from "../workflow-trigger-service.js";
+
+/**
+ * Workflow subscriber.
+ *
+ * Starts the repository's workflows for accepted pushes and for pull
+ * requests being opened, reopened or receiving new commits.
+ */
+
+export function subscribeWorkflows(): () => void {
+  return subscribe(
+    "workflows",
+    ["git.push", "pull_request.opened", "pull_request.reopened", "pull_request.synchronize"],
+    async (event) => {
+      const project = projectRepo.findById(event.payload.repositoryId);
+      if (!project) return;
+
+      if (event.type === "git.push") {
+        await triggerPushWorkflows(project, event.payload, event.actorId);
+      } else {
+        await triggerPullRequestWorkflows(project, event.type.slice("pull_request.".length), event.payload, event.actorId);
+      }
+    },
+  );
+}
@@ -0,0 +1,357 @@
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { signWebhookPayload } from "@platform/utils";
+import type { Project, WebhookRetryPolicy } from "@platform/shared";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as webhookModel from "../db/models/webhook-model.js";
+import type { RepositoryWebhook, WebhookDelivery } from "../db/models/webhook-model.js";
+import { getConfig } from "../config/app-config.js";
+import { decryptSecret } from "./credential-encryption.js";
+import { checkPublicHost, publicOnlyLookup } from "./network-guard.js";
+
+/**
+ * Outbound webhook delivery.
+ *
+ * Repository events are queued as one delivery per subscribed webhook
+ * and sent by a background worker. Each request carries the event name,
+ * a delivery GUID and, when the hook has a secret, an HMAC-SHA256
+ * signature of the body in `X-GitTic-Signature-256`. Failed attempts are
+ * retried with exponential backoff; hooks whose deliveries keep failing
+ * are marked `failing` and eventually `suspended`. Receivers on
+ * loopback, link-local or private addresses are refused, both when a
+ * hook is saved and on every delivery, unless `allowInternalTargets` is
+ * set.
+ */
+
+/** Events a webhook can subscribe to. */
+export const WEBHOOK_EVENTS = [
+  "push",
+  "create",
+  "delete",
+  "pull_request",
+  "issues",
+  "issue_comment",
+  "release",
+  "workflow_run",
+] as const;
+
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number] | "ping";
+
+/** Retry schedule for failed attempts: 10s, 30s, 90s, 270s, 810s. */
+export const DEFAULT_RETRY_POLICY: WebhookRetryPolicy = {
+  maxRetries: 5,
+  initialDelay: 10,
+  backoffMultiplier: 3,
+  maxDelay: 3600,
+};
+
+/** Consecutive failed deliveries after which a webhook is suspended. */
+export const SUSPEND_AFTER_FAILURES = 10;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY = 8 * 1024;
+const WORKER_TICK_MS = 5_000;
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const USER_AGENT = "GitTic-Hookshot/1.0";
+
+let _workerInterval: ReturnType<typeof setInterval> | null = null;
+let _processing: Promise<number> | null = null;
+let _lastCleanup = 0;
+
+/**
+ * Seconds to wait before retrying after `attempts` failed attempts.
+ */
+export function retryDelaySeconds(attempts: number, policy: WebhookRetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const delay = policy.initialDelay * policy.backoffMultiplier ** Math.max(0, attempts - 1);
+  return Math.min(delay, policy.maxDelay);
+}
+
+/**
+ * Whether a webhook receives deliveries for `event`. Pings always go out.
+ */
+export function isSubscribed(webhook: RepositoryWebhook, event: WebhookEventName): boolean {
+  return event === "ping" || webhook.events.includes("*") || webhook.events.includes(event);
+}
+
+/**
+ * The `repository` and `sender` objects included in every payload.
+ */
+function describeContext(project: Project, senderId?: string | null) {
+  const owner = userRepo.findById(project.ownerId);
+  const sender = senderId ? userRepo.findById(senderId) : null;
+  const ownerLogin = owner?.username ?? "unknown";
+
+  return {
+    repository: {
+      id: project.id,
+      name: project.slug,
+      full_name: `${ownerLogin}/${project.slug}`,
+      private: project.isPrivate,
+      default_branch: project.defaultBranch,
+      owner: { id: project.ownerId, login: ownerLogin },
+    },
+    sender: sender ? { id: sender.id, login: sender.username } : null,
+  };
+}
+
+/**
+ * Kick off a worker pass right away instead of waiting for the next tick.
+ */
+function scheduleProcessing(): void {
+  if (!_workerInterval) return;
+  setImmediate(() => {
+    processDueDeliveries().catch((err) => console.error("[webhooks] Delivery error:", err));
+  });
+}
+
+/**
+ * Queue `event` for every active webhook of `project` subscribed to it.
+ * `body` holds the event-specific fields (`action`, `pull_request`, ...);
+ * `repository` and `sender` are added here.
+ *
+ * @returns The number of deliveries queued.
+ */
+export function emitWebhookEvent(
+  project: Project,
+  event: WebhookEventName,
+  body: Record<string, unknown>,
+  senderId?: string | null,
+): number {
+  const webhooks = webhookModel
+    .listWebhooks(project.id)
+    .filter((webhook) => webhook.active && webhook.status !== "suspended" && isSubscribed(webhook, event));
+  if (webhooks.length === 0) return 0;
+
+  const payload = JSON.stringify({ ...body, ...describeContext(project, senderId) });
+  const action = typeof body.action === "string" ? body.action : undefined;
+  for (const webhook of webhooks) {
+    webhookModel.queueDelivery({ webhookId: webhook.id, event, action, payload });
+  }
+
+  scheduleProcessing();
+  return webhooks.length;
+}
+
+/**
+ * Queue a `ping` delivery so the receiver can confirm its setup.
+ */
+export function pingWebhook(project: Project, webhook: RepositoryWebhook, senderId?: string | null): WebhookDelivery {
+  const payload = JSON.stringify({
+    hook_id: webhook.id,
+    hook: { id: webhook.id, events: webhook.events, active: webhook.active, url: webhook.url },
+    ...describeContext(project, senderId),
+  });
+  const delivery = webhookModel.queueDelivery({ webhookId: webhook.id, event: "ping", payload });
+  scheduleProcessing();
+  return delivery;
+}
+
+/** Response of a webhook receiver. */
+interface ReceiverResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * Check that a payload URL's host is one webhooks may reach. Returns an
+ * error message or null.
+ */
+export async function checkReceiverHost(url: URL): Promise<string | null> {
+  if (getConfig().allowInternalTargets) return null;
+  return checkPublicHost(url);
+}
+
+/**
+ * POST a payload to a receiver. Rejects on network errors and timeouts,
+ * and when the host resolves to an internal address at connect time.
+ */
+function postPayload(
+  url: URL,
+  body: string,
+  headers: Record<string, string>,
+  insecureSSL: boolean,
+): Promise<ReceiverResponse> {
+  const guarded = !getConfig().allowInternalTargets;
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const req = send(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        timeout: REQUEST_TIMEOUT_MS,
+        rejectUnauthorized: !insecureSSL,
+        lookup: guarded ? publicOnlyLookup : undefined,
+      },
+      (res) => {
+        let received = "";
+        res.setEncoding("utf-8");
+        res.on("data", (chunk: string) => {
+          if (received.length < MAX_RESPONSE_BODY) received += chunk;
+        });
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: received.slice(0, MAX_RESPONSE_BODY) }));
+        res.on("error", reject);
+      },
+    );
+    req.on("timeout", () => req.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Update a webhook's health after a delivery attempt. A delivery counts
+ * against the hook only once its retries are used up.
+ */
+function updateHealth(webhook: RepositoryWebhook, succeeded: boolean, final: boolean): void {
+  if (succeeded) {
+    webhookModel.setWebhookHealth(webhook.id, "active", 0);
+  } else if (final) {
+    const failures = webhook.failureCount + 1;
+    webhookModel.setWebhookHealth(
+      webhook.id,
+      failures >= SUSPEND_AFTER_FAILURES ? "suspended" : "failing",
+      failures,
+    );
+  } else if (webhook.status === "active") {
+    webhookModel.setWebhookHealth(webhook.id, "failing", webhook.failureCount);
+  }
+}
+
+/**
+ * Decrypt a webhook's signing secret. A secret that no longer decrypts,
+ * e.g. after the encryption key was rotated, fails the attempt like any
+ * other delivery error.
+ */
+function readSigningSecret(stored: string): string {
+  try {
+    return decryptSecret(stored);
+  } catch {
+    throw new Error("Webhook secret could not be decrypted; set the secret again");
+  }
+}
+
+/**
+ * Make one attempt at sending a delivery and record the outcome.
+ * Redeliveries are attempted once; other deliveries stay pending until
+ * they succeed or run out of retries.
+ */
+export async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const webhook = webhookModel.getWebhook(delivery.webhookId);
+  if (!webhook) return null;
+
+  const body = webhook.contentType === "form"
+    ? new URLSearchParams({ payload: delivery.payload }).toString()
+    : delivery.payload;
+  const headers: Record<string, string> = {
+    "Content-Type": webhook.contentType === "form" ? "application/x-www-form-urlencoded" : "application/json",
+    "User-Agent": USER_AGENT,
+    "X-GitTic-Event": delivery.event,
+    "X-GitTic-Delivery": delivery.guid,
+    "X-GitTic-Hook-ID": webhook.id,
+  };
+
+  const started = Date.now();
+  let response: ReceiverResponse | null = null;
+  let error: string | undefined;
+  try {
+    if (webhook.secret) {
+      headers["X-GitTic-Signature-256"] = signWebhookPayload(body, readSigningSecret(webhook.secret));
+    }
+    const url = new URL(webhook.url);
+    const hostError = await checkReceiverHost(url);
+    if (hostError) throw new Error(hostError);
+    response = await postPayload(url, body, headers, webhook.insecureSSL);
+    if (response.status < 200 || response.status >= 300) {
+      error = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === undefined;
+  const attempts = delivery.attempts + 1;
+  const final = succeeded || delivery.redelivery || attempts > DEFAULT_RETRY_POLICY.maxRetries;
+  const timedOut = !response && error?.startsWith("Timed out");
+
+  const updated = webhookModel.recordAttempt(delivery.id, {
+    status: succeeded ? "success" : !final ? "pending" : timedOut ? "timeout" : "failure",
+    requestHeaders: headers,
+    responseStatus: response?.status,
+    responseBody: response?.body,
+    error,
+    durationMs: Date.now() - started,
+    nextAttemptAt: final ? undefined : new Date(Date.now() + retryDelaySeconds(attempts) * 1000).toISOString(),
+  });
+  updateHealth(webhook, succeeded, final);
+  return updated;
+}
+
+/**
+ * Send a delivery again as a new delivery with the same payload.
+ * The attempt is made immediately and not retried.
+ */
+export async function redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const copy = webhookModel.queueDelivery({
+    webhookId: delivery.webhookId,
+    event: delivery.event,
+    action: delivery.action,
+    payload: delivery.payload,
+    redelivery: true,
+  });
+  return attemptDelivery(copy);
+}
+
+/**
+ * Send every delivery that is due. Passes never overlap.
+ *
+ * @returns The number of attempts made.
+ */
+export function processDueDeliveries(now = new Date()): Promise<number> {
+  if (_processing) return _processing;
+
+  _processing = (async () => {
+    let attempted = 0;
+    for (const delivery of webhookModel.listDueDeliveries(now)) {
+      await attemptDelivery(delivery);
+      attempted++;
+    }
+    return attempted;
+  })().finally(() => {
+    _processing = null;
+  });
+  return _processing;
+}
+
+/**
+ * Start the webhook delivery worker. Delivery logs older than 30 days
+ * are pruned once a day.
+ *
+ * @returns A function that stops the worker.
+ */
+export function startWebhookWorker(): () => void {
+  if (_workerInterval) {
+    clearInterval(_workerInterval);
+  }
+
+  _workerInterval = setInterval(async () => {
+    try {
+      await processDueDeliveries();
+      if (Date.now() - _lastCleanup > CLEANUP_INTERVAL_MS) {
+        _lastCleanup = Date.now();
+        webhookModel.cleanupDeliveries(30);
+      }
+    } catch (err) {
+      console.error("[webhooks] Worker error:", err);
+    }
+  }, WORKER_TICK_MS);
+
+  _workerInterval.unref();
+
+  return () => {
+    if (_workerInterval) {
+      clearInterval(_workerInterval);
+      _workerInterval = null;
+    }
+  };
+}
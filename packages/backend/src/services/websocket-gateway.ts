@@ -3,6 +3,10 @@ import type { Server } from "node:http";
 import { verifyToken } from "@platform/auth";
 import type { UserRole } from "@platform/shared";
 import { getConfig } from "../config/app-config.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import { resolveProjectPermission, satisfies } from "./repository-permission-service.js";
+import { readJobLog } from "./workflow-log-store.js";
 
 /**
  * WebSocket gateway.
@@ -12,9 +16,17 @@ import { getConfig } from "../config/app-config.js";
  * - Terminal streaming
  * - Build log streaming
  * - System notifications
+ * - Repository activity (`project:<projectId>` rooms)
+ * - Workflow run logs (`workflow-run:<runId>` rooms)
  *
  * Clients authenticate by sending a token in their first message.
  * After authentication, clients can join rooms and exchange messages.
+ * Project and workflow run rooms can only be joined by users who can
+ * read the project.
+ *
+ * Joining a workflow run room replays each job's log before live lines
+ * follow. A reconnecting client passes `data: { offsets: { <job>: n } }`
+ * with the `nextOffset` it last saw per job to resume where it left off.
  */
 
 /** Authenticated client metadata. */
@@ -32,6 +44,12 @@ const _clients = new Map<WebSocket, ClientInfo>();
 /** Room membership: room name → set of WebSocket connections. */
 const _rooms = new Map<string, Set<WebSocket>>();
 
+/** Prefix of the rooms that carry a project's activity. */
+const PROJECT_ROOM_PREFIX = "project:";
+
+/** Prefix of the rooms that carry a workflow run's logs. */
+const WORKFLOW_RUN_ROOM_PREFIX = "workflow-run:";
+
 /** Singleton WSS instance. */
 let _wss: WebSocketServer | null = null;
 
@@ -100,10 +118,51 @@ function handleAuth(ws: WebSocket, msg: WsMessage): boolean {
   }
 }
 
+/**
+ * Whether a client may join a room. Project rooms require read access
+ * to the project; other rooms are open to every authenticated client.
+ */
+function canJoin(info: ClientInfo, room: string): boolean {
+  let projectId: string;
+  if (room.startsWith(PROJECT_ROOM_PREFIX)) {
+    projectId = room.slice(PROJECT_ROOM_PREFIX.length);
+  } else if (room.startsWith(WORKFLOW_RUN_ROOM_PREFIX)) {
+    const run = workflowRunRepo.findRunById(room.slice(WORKFLOW_RUN_ROOM_PREFIX.length));
+    if (!run) return false;
+    projectId = run.projectId;
+  } else {
+    return true;
+  }
+
+  const project = projectRepo.findById(projectId);
+  return project !== null
+    && satisfies(resolveProjectPermission(project, { userId: info.userId, role: info.role }), "read");
+}
+
+/**
+ * Send a client the part of each job's log past the offsets it has seen.
+ */
+function replayWorkflowLogs(ws: WebSocket, room: string, data: unknown): void {
+  const offsets = (data as { offsets?: Record<string, unknown> } | undefined)?.offsets ?? {};
+
+  for (const job of workflowRunRepo.listJobs(room.slice(WORKFLOW_RUN_ROOM_PREFIX.length))) {
+    const offset = Number(offsets[job.key]);
+    const slice = readJobLog(job.id, Number.isInteger(offset) && offset > 0 ? offset : 0);
+    if (slice.content.length === 0) continue;
+
+    ws.send(JSON.stringify({ type: "workflow:log", room, data: { job: job.key, ...slice } }));
+  }
+}
+
 /**
  * Handle a room join request.
  */
-function handleJoin(ws: WebSocket, info: ClientInfo, room: string): void {
+function handleJoin(ws: WebSocket, info: ClientInfo, room: string, data?: unknown): void {
+  if (!canJoin(info, room)) {
+    ws.send(JSON.stringify({ type: "error", error: "Room not found", room }));
+    return;
+  }
+
   // Add to room
   if (!_rooms.has(room)) {
     _rooms.set(room, new Set());
@@ -113,6 +172,12 @@ function handleJoin(ws: WebSocket, info: ClientInfo, room: string): void {
 
   ws.send(JSON.stringify({ type: "room:joined", room }));
 
+  // Logs are read and sent in the same tick the client joins, so no
+  // live line can fall between the replay and the room's broadcasts
+  if (room.startsWith(WORKFLOW_RUN_ROOM_PREFIX)) {
+    replayWorkflowLogs(ws, room, data);
+  }
+
   // Notify others in the room
   broadcastToRoom(room, {
     type: "room:user_joined",
@@ -302,7 +367,7 @@ export function createWebSocketGateway(server: Server): WebSocketServer {
         // Route by message type
         switch (msg.type) {
           case "join":
-            if (msg.room) handleJoin(ws, info, msg.room);
+            if (msg.room) handleJoin(ws, info, msg.room, msg.data);
             break;
           case "leave":
             if (msg.room) handleLeave(ws, info, msg.room);
@@ -392,6 +457,46 @@ export function broadcastAll(message: unknown): void {
   }
 }
 
+/**
+ * Name of the room that receives a project's activity.
+ */
+export function projectRoom(projectId: string): string {
+  return `${PROJECT_ROOM_PREFIX}${projectId}`;
+}
+
+/**
+ * Name of the room that receives a workflow run's log lines.
+ */
+export function workflowRunRoom(runId: string): string {
+  return `${WORKFLOW_RUN_ROOM_PREFIX}${runId}`;
+}
+
+/**
+ * Send a message to every client in a room.
+ *
+ * @param room - The room name to publish to.
+ * @param message - The message payload to send.
+ */
+export function publishToRoom(room: string, message: unknown): void {
+  broadcastToRoom(room, message);
+}
+
+/**
+ * Send a message to every open connection of one user.
+ *
+ * @param userId - The user to send to.
+ * @param message - The message payload to send.
+ */
+export function sendToUser(userId: string, message: unknown): void {
+  const payload = typeof message === "string" ? message : JSON.stringify(message);
+
+  for (const [ws, info] of _clients) {
+    if (info.authenticated && info.userId === userId && ws.readyState === ws.OPEN) {
+      ws.send(payload);
+    }
+  }
+}
+
 /**
  * Close the WebSocket server and clean up all connections.
  */
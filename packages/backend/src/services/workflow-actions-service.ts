@@ -0,0 +1,94 @@
+import * as nodePath from "node:path";
+import { readBlob, resolveRef } from "@platform/git";
+import type { Project } from "@platform/shared";
+import {
+  ACTION_MANIFEST_FILES,
+  listActionReferences,
+  parseActionReference,
+} from "@platform/cluster";
+import { getConfig } from "../config/app-config.js";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import type { WorkflowRunAction } from "../db/repositories/workflow-run-repo.js";
+import { resolveProjectPermission, satisfies } from "./repository-permission-service.js";
+
+/**
+ * Workflow actions.
+ *
+ * Resolves the `uses:` steps of a workflow to the `action.yml` they
+ * name before it is compiled. Local actions (`./path`) are read from
+ * the workflow's own repository at the commit being run; repository
+ * actions (`owner/repo@ref`) from a repository the workflow's owner can
+ * read, at the commit `ref` points to. Runs record those commits, so a
+ * re-run uses the same actions even after their refs move.
+ */
+
+/** The actions of a workflow, ready for `compileWorkflow` */
+export interface ResolvedWorkflowActions {
+  /** `action.yml` content keyed by `uses:` value */
+  manifests: Record<string, string>;
+  /** Repository actions, pinned to the commits they resolved to */
+  actions: WorkflowRunAction[];
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+/**
+ * Read an action's manifest from a directory of a repository at a commit
+ */
+async function readManifest(project: Project, sha: string, path: string, uses: string): Promise<string> {
+  for (const file of ACTION_MANIFEST_FILES) {
+    const spec = path ? `${sha}:${path}/${file}` : `${sha}:${file}`;
+    const content = await readBlob(getRepositoryFsRoot(project), spec).catch(() => null);
+    if (content !== null) return content;
+  }
+  throw new Error(`Action "${uses}" has no ${ACTION_MANIFEST_FILES.join(" or ")}`);
+}
+
+/**
+ * Resolve every action a workflow uses. Throws when one can't be found
+ * or read by the workflow's owner. With `pinned`, repository actions
+ * are read at the commits a previous run recorded instead of their refs.
+ */
+export async function resolveWorkflowActions(
+  project: Project,
+  sha: string,
+  content: string,
+  pinned: WorkflowRunAction[] = []
+): Promise<ResolvedWorkflowActions> {
+  const owner = userRepo.findById(project.ownerId);
+  const manifests: Record<string, string> = {};
+  const actions: WorkflowRunAction[] = [];
+
+  for (const uses of listActionReferences(content)) {
+    const reference = parseActionReference(uses);
+    if (reference.kind === "local") {
+      manifests[uses] = await readManifest(project, sha, reference.path, uses);
+      continue;
+    }
+
+    const actionOwner = userRepo.findByUsername(reference.owner);
+    const actionProject = actionOwner ? projectRepo.findBySlug(actionOwner.id, reference.repo) : null;
+    const permission = actionProject && owner
+      ? resolveProjectPermission(actionProject, { userId: owner.id, role: owner.role })
+      : "none";
+    if (!actionProject || !satisfies(permission, "read")) {
+      throw new Error(`Action "${uses}" refers to a repository that does not exist or is not accessible`);
+    }
+
+    const pin = pinned.find((action) => action.uses === uses);
+    const actionSha = pin?.sha ?? await resolveRef(getRepositoryFsRoot(actionProject), `${reference.ref}^{commit}`).catch(() => {
+      throw new Error(`Action "${uses}" refers to "${reference.ref}", which is not a branch, tag or commit of ${reference.owner}/${reference.repo}`);
+    });
+
+    manifests[uses] = await readManifest(actionProject, actionSha, reference.path, uses);
+    actions.push({ uses, repository: `${reference.owner}/${reference.repo}`, path: reference.path, sha: actionSha });
+  }
+
+  return { manifests, actions };
+}
@@ -0,0 +1,165 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import * as nodePath from "node:path";
+import { getConfig } from "../config/app-config.js";
+
+/**
+ * Workflow Log Store
+ *
+ * Keeps each job's log on disk as a series of append-only chunk files,
+ * `<dataDir>/actions-logs/<jobId>/<startOffset>.log`. A chunk is named
+ * after the byte offset of the job's log it starts at, so a reader can
+ * resume from any offset without scanning what it has already seen.
+ *
+ * Every line is stored as `<timestamp> <text>` with the text as the
+ * job printed it, ANSI colours included. Lines logged at error level
+ * carry an `##[error]` marker in front of the text, and each step's
+ * lines sit between `::group::<step>` and `::endgroup::` lines.
+ */
+
+/** Size a chunk may reach before the next line starts a new one */
+export const LOG_CHUNK_BYTES = 1024 * 1024;
+
+const ERROR_MARKER = "##[error]";
+
+/** Line that opens a step's group of lines; the step name follows it */
+export const GROUP_MARKER = "::group::";
+
+/** Line that closes the open group */
+export const END_GROUP_MARKER = "::endgroup::";
+
+export interface JobLogEntry {
+  timestamp: string;
+  log: string;
+  level: "info" | "error";
+}
+
+/** A stretch of a job's log and the byte offsets it spans */
+export interface LogSlice {
+  /** Offset of the first byte of `content` */
+  offset: number;
+  /** Offset to resume reading from */
+  nextOffset: number;
+  content: string;
+}
+
+interface LogChunk {
+  start: number;
+  size: number;
+  path: string;
+}
+
+function jobLogDir(jobId: string): string {
+  return nodePath.resolve(getConfig().dataDir, "actions-logs", jobId);
+}
+
+function listChunks(jobId: string): LogChunk[] {
+  const dir = jobLogDir(jobId);
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((name) => /^\d+\.log$/.test(name))
+    .map((name) => {
+      const path = nodePath.join(dir, name);
+      return { start: Number.parseInt(name, 10), size: statSync(path).size, path };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+function chunkName(start: number): string {
+  return `${String(start).padStart(12, "0")}.log`;
+}
+
+/**
+ * Format an entry as stored lines; multi-line text becomes one line per
+ * line of text, all with the entry's timestamp
+ */
+export function formatLogLines(entry: JobLogEntry): string {
+  const marker = entry.level === "error" ? ERROR_MARKER : "";
+  return entry.log
+    .split(/\r?\n/)
+    .map((line) => `${entry.timestamp} ${marker}${line}\n`)
+    .join("");
+}
+
+/**
+ * Parse stored lines back into entries
+ */
+export function parseLogLines(content: string): JobLogEntry[] {
+  return content
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const space = line.indexOf(" ");
+      const timestamp = space === -1 ? line : line.slice(0, space);
+      const text = space === -1 ? "" : line.slice(space + 1);
+      return text.startsWith(ERROR_MARKER)
+        ? { timestamp, log: text.slice(ERROR_MARKER.length), level: "error" as const }
+        : { timestamp, log: text, level: "info" as const };
+    });
+}
+
+/**
+ * Append entries to a job's log. Returns what was written and where.
+ */
+export function appendJobLog(jobId: string, entries: JobLogEntry[]): LogSlice {
+  const content = entries.map(formatLogLines).join("");
+  const chunks = listChunks(jobId);
+  const last = chunks[chunks.length - 1];
+  const offset = last ? last.start + last.size : 0;
+
+  let path: string;
+  if (last && last.size < LOG_CHUNK_BYTES) {
+    path = last.path;
+  } else {
+    mkdirSync(jobLogDir(jobId), { recursive: true });
+    path = nodePath.join(jobLogDir(jobId), chunkName(offset));
+  }
+
+  appendFileSync(path, content);
+  return { offset, nextOffset: offset + Buffer.byteLength(content), content };
+}
+
+/**
+ * Read a job's log from a byte offset to its current end
+ */
+export function readJobLog(jobId: string, offset = 0): LogSlice {
+  const buffers: Buffer[] = [];
+  let end = offset;
+
+  for (const chunk of listChunks(jobId)) {
+    const chunkEnd = chunk.start + chunk.size;
+    if (chunkEnd <= offset) continue;
+
+    const from = Math.max(0, offset - chunk.start);
+    const buffer = Buffer.alloc(chunk.size - from);
+    const fd = openSync(chunk.path, "r");
+    try {
+      readSync(fd, buffer, 0, buffer.length, from);
+    } finally {
+      closeSync(fd);
+    }
+    buffers.push(buffer);
+    end = chunkEnd;
+  }
+
+  return { offset, nextOffset: end, content: Buffer.concat(buffers).toString("utf8") };
+}
+
+/**
+ * Remove the logs of the given jobs
+ */
+export function deleteJobLogs(jobIds: string[]): void {
+  for (const jobId of jobIds) {
+    rmSync(jobLogDir(jobId), { recursive: true, force: true });
+  }
+}
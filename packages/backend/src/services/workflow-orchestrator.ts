@@ -0,0 +1,589 @@
+import {
+  runWorkflow,
+  secretEnvName,
+  type CompiledJob,
+  type CompiledWorkflow,
+  type JobContainerSpec,
+  type JobExecutionResult,
+  type JobState,
+  type JobStatus,
+  type WorkflowRunState,
+} from "@platform/cluster";
+import * as projectRepo from "../db/repositories/project-repo.js";
+import * as prStatusCheckRepo from "../db/repositories/pr-status-check-repo.js";
+import type { PrStatusCheckState } from "../db/repositories/pr-status-check-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import * as environmentRepo from "../db/repositories/environment-repo.js";
+import { maskSecrets, resolveSecrets, resolveVariables, type RunScopes } from "./actions-secrets-service.js";
+import { cancelJob, scheduleJob } from "./cluster-scheduler.js";
+import { abandonInterruptedDeployments, finishDeployment, startDeployment } from "./deployment-service.js";
+import { publishEvent } from "./event-bus.js";
+import { publishToRoom, workflowRunRoom } from "./websocket-gateway.js";
+import { appendJobLog, END_GROUP_MARKER, GROUP_MARKER, type JobLogEntry } from "./workflow-log-store.js";
+
+/**
+ * Workflow Orchestrator
+ *
+ * Runs a compiled workflow's job graph on the platform. Every job —
+ * including each matrix combination — is scheduled on its own through
+ * the cluster scheduler, and the cluster reports back once it finishes.
+ * Jobs that deploy to an environment first wait for its protection
+ * rules, see deployment-service.ts.
+ * Runs, jobs and steps are persisted as they progress, so run history
+ * outlives the process.
+ */
+
+export interface WorkflowRunRecord {
+  workflowId: string;
+  name: string;
+  repositoryId: string;
+  userId: string;
+  pullRequestId?: string;
+  status: "queued" | WorkflowRunState["status"];
+  jobs: JobState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StartWorkflowRunInput {
+  workflowId: string;
+  name?: string;
+  repositoryId: string;
+  userId: string;
+  userTier: string;
+  repositoryUrl: string;
+  branch: string;
+  /** Report each job as a status check on this pull request */
+  pullRequestId?: string;
+  /** Event that started the run, e.g. "push" or "workflow_dispatch" */
+  event: string;
+  /** Workflow definition the run belongs to */
+  definitionId?: string;
+  headSha?: string;
+  commitMessage?: string;
+  /** Actions the workflow uses, pinned to the commits they resolved to */
+  actions?: workflowRunRepo.WorkflowRunAction[];
+  /** Secrets the jobs may reference, keyed by name; masked in the run's logs */
+  secrets?: Record<string, string>;
+  /** Variables the jobs see as `vars.<name>` */
+  vars?: Record<string, string>;
+  /**
+   * Where `secrets` and `vars` came from. Jobs that deploy to an
+   * environment see its variables, and receive its secrets once its
+   * protection rules pass, unless the run is untrusted.
+   */
+  scopes?: RunScopes;
+  /** The run executes untrusted code: no job receives secrets */
+  untrusted?: boolean;
+}
+
+/** How long past its own timeout a job may go unreported before it is failed */
+const REPORT_GRACE_MS = 5 * 60 * 1000;
+
+/** Step lines the entrypoint prints as each step starts, e.g. "Step 2/5: Test" */
+const STEP_LINE = /Step (\d+)\/\d+: /;
+
+/** Lines the entrypoint prints as a step ends, e.g. "Step 2/5 finished: 1" */
+const STEP_FINISHED_LINE = /Step (\d+)\/\d+ finished: (\d+)/;
+
+/** Lines the entrypoint prints for a step its condition rules out */
+const STEP_SKIPPED_LINE = /Step (\d+)\/\d+ skipped/;
+
+// Runs still executing in this process, so they can be cancelled
+const activeRuns = new Map<string, AbortController>();
+
+// Secret values of the runs executing in this process, masked in their logs
+const runSecrets = new Map<string, string[]>();
+
+// Jobs handed to a cluster, waiting for the cluster to report their result
+const pendingJobs = new Map<string, (result: JobExecutionResult) => void>();
+
+function pendingKey(workflowId: string, jobId: string): string {
+  return `${workflowId}:${jobId}`;
+}
+
+/**
+ * Name of the status check a job reports, e.g. "CI / test (18, ubuntu-latest)"
+ */
+export function statusCheckName(workflowName: string, job: Pick<JobState, "name">): string {
+  return `${workflowName} / ${job.name}`;
+}
+
+function statusCheckState(status: JobStatus): PrStatusCheckState {
+  switch (status) {
+    case "queued":
+    case "in_progress":
+      return "pending";
+    case "success":
+    case "skipped":
+      return "success";
+    default:
+      return "failure";
+  }
+}
+
+function reportStatusChecks(
+  run: Pick<WorkflowRunRecord, "workflowId" | "name" | "pullRequestId">,
+  jobs: JobState[],
+  previous: JobState[]
+): void {
+  if (!run.pullRequestId) return;
+  const before = new Map(previous.map((job) => [job.id, job.status]));
+
+  try {
+    for (const job of jobs) {
+      if (before.get(job.id) === job.status) continue;
+      prStatusCheckRepo.upsertForPr(run.pullRequestId, statusCheckName(run.name, job), statusCheckState(job.status), job.error);
+    }
+  } catch (err) {
+    console.error(`[Workflows] Failed to report status checks for ${run.workflowId}:`, err);
+  }
+}
+
+function jobStatus(job: workflowRunRepo.WorkflowJob): JobStatus {
+  return job.status === "completed" ? job.conclusion ?? "failure" : job.status;
+}
+
+function toRecord(run: workflowRunRepo.WorkflowRun, jobs: workflowRunRepo.WorkflowJob[]): WorkflowRunRecord {
+  return {
+    workflowId: run.id,
+    name: run.name,
+    repositoryId: run.projectId,
+    userId: run.actorId ?? "",
+    pullRequestId: run.pullRequestId,
+    status: run.status === "completed" ? run.conclusion ?? "failure" : run.status,
+    jobs: jobs.map((job) => ({
+      id: job.key,
+      name: job.name,
+      group: job.group,
+      matrix: job.matrix,
+      needs: job.needs,
+      status: jobStatus(job),
+      outputs: job.outputs,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      error: job.error,
+    })),
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+  };
+}
+
+/**
+ * Facts about a run its jobs read as `github.<name>` or `gittic.<name>`
+ */
+function githubContext(run: workflowRunRepo.WorkflowRun, input: StartWorkflowRunInput): Record<string, string | number> {
+  const project = projectRepo.findById(run.projectId);
+  const owner = project ? userRepo.findById(project.ownerId) : null;
+  const actor = userRepo.findById(input.userId);
+  const refType = input.event === "tag" ? "tag" : "branch";
+
+  return {
+    event_name: input.event,
+    ref: `refs/${refType === "tag" ? "tags" : "heads"}/${input.branch}`,
+    ref_name: input.branch,
+    ref_type: refType,
+    head_ref: input.pullRequestId ? input.branch : "",
+    sha: input.headSha ?? "",
+    repository: project && owner ? `${owner.username}/${project.slug}` : "",
+    repository_id: run.projectId,
+    repository_owner: owner?.username ?? "",
+    actor: actor?.username ?? "",
+    run_id: run.id,
+    run_number: run.runNumber,
+    workflow: run.name,
+  };
+}
+
+/**
+ * Append to a job's log and push the new lines to clients following the run
+ */
+function writeJobLog(runId: string, job: Pick<workflowRunRepo.WorkflowJob, "id" | "key">, entries: JobLogEntry[]): void {
+  const secrets = runSecrets.get(runId);
+  const slice = appendJobLog(
+    job.id,
+    secrets ? entries.map((entry) => ({ ...entry, log: maskSecrets(entry.log, secrets) })) : entries
+  );
+  publishToRoom(workflowRunRoom(runId), {
+    type: "workflow:log",
+    room: workflowRunRoom(runId),
+    data: { job: job.key, ...slice },
+  });
+}
+
+/**
+ * Persist the jobs that changed since the previous snapshot, then the run
+ */
+function persistState(runId: string, jobIds: Map<string, string>, state: WorkflowRunState, previous: JobState[]): void {
+  const before = new Map(previous.map((job) => [job.id, job.status]));
+  const now = new Date().toISOString();
+
+  for (const job of state.jobs) {
+    if (before.get(job.id) === job.status) continue;
+    const id = jobIds.get(job.id)!;
+
+    if (job.status === "in_progress") {
+      workflowRunRepo.updateJob(id, { status: "in_progress", startedAt: job.startedAt ?? now });
+    } else if (job.status !== "queued") {
+      const completedAt = job.completedAt ?? now;
+      const stepOpen = workflowRunRepo.listSteps(id).some((step) => step.status === "in_progress");
+      workflowRunRepo.updateJob(id, {
+        status: "completed",
+        conclusion: job.status,
+        outputs: job.outputs,
+        error: job.error,
+        completedAt,
+      });
+      workflowRunRepo.finishSteps(id, job.status, completedAt);
+
+      const closing: JobLogEntry[] = [];
+      if (stepOpen) closing.push({ timestamp: completedAt, log: END_GROUP_MARKER, level: "info" });
+      if (job.error) closing.push({ timestamp: completedAt, log: job.error, level: "error" });
+      if (closing.length > 0) writeJobLog(runId, { id, key: job.id }, closing);
+    }
+  }
+
+  if (state.status === "in_progress") {
+    if (state.jobs.some((job) => job.status !== "queued")) {
+      workflowRunRepo.updateRun(runId, { status: "in_progress", startedAt: now });
+    }
+  } else {
+    workflowRunRepo.updateRun(runId, { status: "completed", conclusion: state.status, completedAt: now });
+  }
+}
+
+/**
+ * Abort signal that fires with the reason of whichever signal fires first
+ */
+function eitherSignal(a: AbortSignal, b: AbortSignal): AbortSignal {
+  const controller = new AbortController();
+  const forward = (signal: AbortSignal) => () => controller.abort(signal.reason);
+
+  for (const signal of [a, b]) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", forward(signal), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Wait for the cluster to report a job's result. Cancelling asks the
+ * cluster to stop the job but does not wait for it to confirm.
+ */
+function awaitJobResult(
+  workflowId: string,
+  jobId: string,
+  timeoutSeconds: number,
+  signal: AbortSignal,
+  cancel: () => Promise<unknown>
+): Promise<JobExecutionResult> {
+  return new Promise((resolve) => {
+    const key = pendingKey(workflowId, jobId);
+
+    const settle = (result: JobExecutionResult) => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      pendingJobs.delete(key);
+      resolve(result);
+    };
+
+    const onAbort = () => {
+      void cancel();
+      settle({
+        status: "cancelled",
+        stepOutputs: {},
+        error: typeof signal.reason === "string" ? signal.reason : undefined,
+      });
+    };
+
+    const timer = setTimeout(
+      () => settle({ status: "failed", stepOutputs: {}, error: "Cluster stopped reporting on the job" }),
+      timeoutSeconds * 1000 + REPORT_GRACE_MS
+    );
+
+    pendingJobs.set(key, settle);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Record a run and start running its compiled workflow in the background
+ */
+export function startWorkflowRun(workflow: CompiledWorkflow, input: StartWorkflowRunInput): WorkflowRunRecord {
+  const created = workflowRunRepo.createRun({
+    id: input.workflowId,
+    projectId: input.repositoryId,
+    workflowId: input.definitionId,
+    name: input.name || workflow.name,
+    event: input.event,
+    headBranch: input.branch,
+    headSha: input.headSha,
+    pullRequestId: input.pullRequestId,
+    actorId: input.userId,
+    commitMessage: input.commitMessage,
+    actions: input.actions,
+    jobs: workflow.jobs.map((job) => ({
+      key: job.id,
+      name: job.name,
+      group: job.group,
+      matrix: job.matrix,
+      needs: job.needs,
+      steps: job.steps.map((step, index) => step.name || (step.uses ? `Run ${step.uses}` : step.run?.split("\n")[0]) || `Step ${index + 1}`),
+    })),
+  });
+  const createdJobs = workflowRunRepo.listJobs(created.id);
+  const jobIds = new Map(createdJobs.map((job) => [job.key, job.id]));
+  const run = toRecord(created, createdJobs);
+  reportStatusChecks(run, run.jobs, []);
+
+  const controller = new AbortController();
+  activeRuns.set(run.workflowId, controller);
+  const secrets = input.secrets ?? {};
+  if (Object.keys(secrets).length > 0) runSecrets.set(run.workflowId, Object.values(secrets));
+  let previous = run.jobs;
+
+  // Hand a job to a cluster and wait for its result
+  const executeJob = async (
+    job: CompiledJob,
+    spec: JobContainerSpec,
+    signal: AbortSignal,
+    jobSecrets: Record<string, string>,
+    deployment: environmentRepo.Deployment | null
+  ): Promise<JobExecutionResult> => {
+    const scheduled = await scheduleJob(
+      {
+        workflowId: run.workflowId,
+        jobId: job.id,
+        repositoryId: run.repositoryId,
+        userId: run.userId,
+        job: spec,
+        repositoryUrl: input.repositoryUrl,
+        branch: input.branch,
+        // Only the secrets the job references; ones that are not defined stay unset
+        env: Object.fromEntries(
+          spec.secrets.filter((name) => name in jobSecrets).map((name) => [secretEnvName(name), jobSecrets[name]])
+        ),
+      },
+      input.userTier
+    );
+    if (!scheduled.success) throw new Error(scheduled.message);
+    if (deployment) environmentRepo.updateDeploymentStatus(deployment.id, "in_progress");
+
+    return awaitJobResult(run.workflowId, job.id, spec.timeout, signal, () =>
+      cancelJob(scheduled.clusterId!, run.workflowId, job.id)
+    );
+  };
+
+  // Jobs that deploy see the values of their environment, if it exists
+  const environmentScopes = (job: CompiledJob): RunScopes | undefined => {
+    const environment = job.environment && input.scopes
+      ? environmentRepo.findEnvironment(run.repositoryId, job.environment.name)
+      : null;
+    return environment ? { ...input.scopes!, environmentId: environment.id } : undefined;
+  };
+
+  runWorkflow(
+    workflow,
+    async (job, spec, signal) => {
+      const jobSignal = eitherSignal(signal, controller.signal);
+      let jobSecrets = secrets;
+      let deployment: environmentRepo.Deployment | null = null;
+
+      if (job.environment) {
+        const log = (text: string, level: "info" | "error" = "info") =>
+          writeJobLog(run.workflowId, { id: jobIds.get(job.id)!, key: job.id }, [
+            { timestamp: new Date().toISOString(), log: text, level },
+          ]);
+        deployment = await startDeployment({
+          projectId: run.repositoryId,
+          environment: job.environment,
+          runId: run.workflowId,
+          jobId: jobIds.get(job.id)!,
+          ref: input.branch,
+          commitSha: input.headSha,
+          initiatedBy: input.userId,
+          signal: jobSignal,
+          log,
+        });
+        if (!deployment) {
+          return { status: "cancelled", stepOutputs: {}, error: typeof jobSignal.reason === "string" ? jobSignal.reason : undefined };
+        }
+
+        // Environment secrets are only handed out once the protection rules passed
+        const scopes = environmentScopes(job);
+        if (scopes && !input.untrusted) {
+          jobSecrets = resolveSecrets(scopes);
+          runSecrets.set(run.workflowId, [...(runSecrets.get(run.workflowId) ?? []), ...Object.values(jobSecrets)]);
+        }
+      }
+
+      try {
+        const result = await executeJob(job, spec, jobSignal, jobSecrets, deployment);
+        if (deployment) finishDeployment(deployment, result);
+        return result;
+      } catch (err) {
+        if (deployment) {
+          finishDeployment(deployment, { status: "failed", stepOutputs: {}, error: err instanceof Error ? err.message : String(err) });
+        }
+        throw err;
+      }
+    },
+    {
+      signal: controller.signal,
+      context: { vars: input.vars, github: githubContext(created, input) },
+      jobContext: (job) => {
+        const scopes = environmentScopes(job);
+        if (!scopes) return undefined;
+        const vars = Object.fromEntries(resolveVariables(scopes).map((variable) => [variable.key, variable.value]));
+        return { vars, github: githubContext(created, input) };
+      },
+      onUpdate: (state) => {
+        try {
+          persistState(run.workflowId, jobIds, state, previous);
+        } catch (err) {
+          console.error(`[Workflows] Failed to record the state of ${run.workflowId}:`, err);
+        }
+        reportStatusChecks(run, state.jobs, previous);
+        previous = state.jobs;
+      },
+    }
+  )
+    .then((result) => {
+      console.log(`[Workflows] Workflow ${run.workflowId} completed: ${result.status}`);
+      publishEvent("workflow_run.completed", {
+        repositoryId: run.repositoryId,
+        runId: run.workflowId,
+        workflowName: run.name,
+        event: input.event,
+        headBranch: input.branch,
+        headSha: input.headSha,
+        conclusion: result.status,
+      }, { source: "system", actorId: input.userId });
+    })
+    .catch((err) => console.error(`[Workflows] Workflow ${run.workflowId} failed:`, err))
+    .finally(() => {
+      activeRuns.delete(run.workflowId);
+      runSecrets.delete(run.workflowId);
+    });
+
+  return run;
+}
+
+/**
+ * Cancel a run executing in this process: jobs not yet started are
+ * cancelled and running ones are stopped. Returns false when the run
+ * is not executing.
+ */
+export function cancelWorkflowRun(workflowId: string, reason = "The workflow run was cancelled"): boolean {
+  const controller = activeRuns.get(workflowId);
+  if (!controller) return false;
+
+  controller.abort(reason);
+  return true;
+}
+
+/**
+ * Record the result a cluster reported for a job.
+ * Returns false when no such job is waiting for a result.
+ */
+export function completeWorkflowJob(workflowId: string, jobId: string, result: JobExecutionResult): boolean {
+  const settle = pendingJobs.get(pendingKey(workflowId, jobId));
+  if (!settle) return false;
+
+  settle(result);
+  return true;
+}
+
+/**
+ * Append a line a cluster streamed to a job's log and push it to clients
+ * following the run. The step lines the entrypoint prints become group
+ * markers around each step's lines, and move the job's steps along as
+ * they start, finish or are skipped.
+ * Returns false when the run has no such job.
+ */
+export function appendWorkflowLog(workflowId: string, jobId: string, entry: JobLogEntry): boolean {
+  const job = workflowRunRepo.findJobByKey(workflowId, jobId);
+  if (!job) return false;
+
+  const finished = STEP_FINISHED_LINE.exec(entry.log);
+  if (finished) {
+    const number = Number(finished[1]);
+    const exitCode = Number(finished[2]);
+    const entries: JobLogEntry[] = [];
+    if (exitCode !== 0) entries.push({ ...entry, log: `Process completed with exit code ${exitCode}`, level: "error" });
+    entries.push({ ...entry, log: END_GROUP_MARKER, level: "info" });
+
+    writeJobLog(workflowId, job, entries);
+    workflowRunRepo.completeStep(job.id, number, exitCode === 0 ? "success" : "failure", entry.timestamp);
+    return true;
+  }
+
+  const skipped = STEP_SKIPPED_LINE.exec(entry.log);
+  if (skipped) {
+    workflowRunRepo.completeStep(job.id, Number(skipped[1]), "skipped", entry.timestamp);
+    return true;
+  }
+
+  const step = STEP_LINE.exec(entry.log);
+  if (!step) {
+    writeJobLog(workflowId, job, [entry]);
+    return true;
+  }
+
+  const number = Number(step[1]);
+  const steps = workflowRunRepo.listSteps(job.id);
+  const title = steps.find((candidate) => candidate.number === number)?.name ?? entry.log.slice(step.index);
+  const entries: JobLogEntry[] = [];
+  if (steps.some((candidate) => candidate.status === "in_progress")) {
+    entries.push({ ...entry, log: END_GROUP_MARKER, level: "info" });
+  }
+  entries.push({ ...entry, log: `${GROUP_MARKER}${title}`, level: "info" });
+
+  writeJobLog(workflowId, job, entries);
+  workflowRunRepo.startStep(job.id, number, entry.timestamp);
+  return true;
+}
+
+export function getWorkflowRun(workflowId: string): WorkflowRunRecord | undefined {
+  const run = workflowRunRepo.findRunById(workflowId);
+  return run ? toRecord(run, workflowRunRepo.listJobs(run.id)) : undefined;
+}
+
+export function listWorkflowRuns(filter: { userId: string; repositoryId?: string }): WorkflowRunRecord[] {
+  return workflowRunRepo
+    .listRunsByActor(filter.userId, filter.repositoryId)
+    .map((run) => toRecord(run, workflowRunRepo.listJobs(run.id)));
+}
+
+/**
+ * Conclude the runs a previous process left unfinished. Their clusters
+ * can no longer report back, so every unfinished job is cancelled.
+ * Returns the number of runs concluded.
+ */
+export function abandonInterruptedRuns(): number {
+  const runs = workflowRunRepo.listUnfinishedRuns();
+  const now = new Date().toISOString();
+  const error = "Interrupted by a server restart";
+
+  for (const run of runs) {
+    const before = workflowRunRepo.listJobs(run.id);
+
+    for (const job of before) {
+      if (job.status === "completed") continue;
+      workflowRunRepo.updateJob(job.id, { status: "completed", conclusion: "cancelled", error, completedAt: now });
+      workflowRunRepo.finishSteps(job.id, "cancelled", now);
+    }
+    workflowRunRepo.updateRun(run.id, { status: "completed", conclusion: "cancelled", completedAt: now });
+
+    const previous = toRecord(run, before);
+    reportStatusChecks(previous, toRecord(run, workflowRunRepo.listJobs(run.id)).jobs, previous.jobs);
+  }
+  abandonInterruptedDeployments();
+
+  return runs.length;
+}
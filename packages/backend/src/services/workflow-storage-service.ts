@@ -0,0 +1,269 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createWriteStream, existsSync, mkdirSync, readdirSync, rmSync } from "node:fs";
+import { rename, unlink } from "node:fs/promises";
+import * as nodePath from "node:path";
+import type { Project } from "@platform/shared";
+import { DEFAULT_CLEANUP_POLICY } from "@platform/cluster";
+import { getConfig } from "../config/app-config.js";
+import * as artifactRepo from "../db/repositories/workflow-artifact-repo.js";
+import type { WorkflowArtifact, WorkflowCache } from "../db/repositories/workflow-artifact-repo.js";
+import type { WorkflowJob, WorkflowRun } from "../db/repositories/workflow-run-repo.js";
+
+/**
+ * Workflow Storage
+ *
+ * Keeps the archives workflow jobs upload through the built-in actions:
+ *
+ * - artifacts, `<dataDir>/actions-artifacts/<id>.tar.gz`, belong to a
+ *   run. Later jobs of the run download them by name, and people can
+ *   download them until their retention ends.
+ * - caches, `<dataDir>/actions-caches/<id>.tar.gz`, belong to a branch
+ *   of a project. A run restores the cache saved under its key, or the
+ *   newest one starting with one of its restore keys, from its own
+ *   branch first and then from the default branch. Caches unused for
+ *   the retention period are removed, and the least recently used ones
+ *   go first when a project's caches outgrow their budget.
+ *
+ * Limits follow the cluster's artifact cleanup policy.
+ */
+
+/** Longest an artifact may be kept, in days */
+export const MAX_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+type ArchiveKind = "artifacts" | "caches";
+
+/** Where a cache was found for a restore */
+export interface RestoredCache {
+  cache: WorkflowCache;
+  /** Whether it was saved under the exact key asked for */
+  exact: boolean;
+}
+
+function archiveDir(kind: ArchiveKind): string {
+  return nodePath.resolve(getConfig().dataDir, `actions-${kind}`);
+}
+
+export function archivePath(kind: ArchiveKind, id: string): string {
+  return nodePath.join(archiveDir(kind), `${id}.tar.gz`);
+}
+
+/**
+ * Write an uploaded archive to a temporary file next to where it will
+ * be kept, counting its bytes and hashing it on the way
+ */
+async function receiveArchive(
+  kind: ArchiveKind,
+  source: AsyncIterable<Buffer | string>
+): Promise<{ path: string; size: number; checksum: string }> {
+  mkdirSync(archiveDir(kind), { recursive: true });
+  const path = nodePath.join(archiveDir(kind), `upload-${randomBytes(6).toString("hex")}.tmp`);
+  const hash = createHash("sha256");
+  const out = createWriteStream(path);
+  let size = 0;
+
+  try {
+    for await (const chunk of source) {
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > DEFAULT_CLEANUP_POLICY.maxArtifactSizeBytes) {
+        const limitMB = Math.round(DEFAULT_CLEANUP_POLICY.maxArtifactSizeBytes / 1024 ** 2);
+        throw new Error(`Archives may be at most ${limitMB}MB`);
+      }
+      hash.update(buffer);
+      if (!out.write(buffer)) {
+        await new Promise<void>((resolve) => out.once("drain", resolve));
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      out.once("error", reject);
+      out.end(resolve);
+    });
+    return { path, size, checksum: hash.digest("hex") };
+  } catch (err) {
+    out.destroy();
+    await unlink(path).catch(() => {});
+    throw err;
+  }
+}
+
+// ── Artifacts ───────────────────────────────────────────────
+
+/**
+ * Parse the retention an upload asked for, in days. Returns null when
+ * it isn't a whole number of days within the allowed range.
+ */
+export function parseRetentionDays(value: unknown): number | null {
+  if (value === undefined || value === "") {
+    return Math.round(DEFAULT_CLEANUP_POLICY.maxAgeMs / DAY_MS);
+  }
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= MAX_RETENTION_DAYS ? days : null;
+}
+
+/**
+ * Store an artifact a job uploaded. An artifact uploaded earlier in the
+ * run under the same name is replaced.
+ */
+export async function storeArtifact(
+  run: WorkflowRun,
+  job: WorkflowJob,
+  name: string,
+  source: AsyncIterable<Buffer | string>,
+  retentionDays: number
+): Promise<WorkflowArtifact> {
+  const previous = artifactRepo.findArtifactByName(run.id, name);
+  if (!previous && artifactRepo.countJobArtifacts(job.id) >= DEFAULT_CLEANUP_POLICY.maxPerJob) {
+    throw new Error(`A job may upload at most ${DEFAULT_CLEANUP_POLICY.maxPerJob} artifacts`);
+  }
+
+  const upload = await receiveArchive("artifacts", source);
+  if (previous) deleteArtifact(previous);
+
+  const artifact = artifactRepo.createArtifact({
+    runId: run.id,
+    jobId: job.id,
+    name,
+    sizeBytes: upload.size,
+    checksum: upload.checksum,
+    expiresAt: new Date(Date.now() + retentionDays * DAY_MS).toISOString(),
+  });
+  await rename(upload.path, archivePath("artifacts", artifact.id));
+  return artifact;
+}
+
+export function deleteArtifact(artifact: WorkflowArtifact): void {
+  artifactRepo.deleteArtifact(artifact.id);
+  rmSync(archivePath("artifacts", artifact.id), { force: true });
+}
+
+// ── Caches ──────────────────────────────────────────────────
+
+/**
+ * Find the cache a run on `branch` restores: the exact key, then the
+ * newest cache starting with each restore key in turn, looking at the
+ * branch before the project's default branch.
+ */
+export function restoreCache(
+  project: Project,
+  branch: string,
+  key: string,
+  restoreKeys: string[]
+): RestoredCache | null {
+  const refs = branch === project.defaultBranch ? [branch] : [branch, project.defaultBranch];
+
+  for (const ref of refs) {
+    const exact = artifactRepo.findCache(project.id, ref, key);
+    const cache = exact ?? restoreKeys.reduce<WorkflowCache | null>(
+      (found, prefix) => found ?? artifactRepo.findLatestCacheByPrefix(project.id, ref, prefix),
+      null
+    );
+    if (cache) {
+      artifactRepo.touchCache(cache.id);
+      return { cache, exact: exact !== null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Save a cache a job on `branch` uploaded. Caches can't be overwritten:
+ * returns null when the branch already has one under the key.
+ */
+export async function storeCache(
+  project: Project,
+  branch: string,
+  key: string,
+  source: AsyncIterable<Buffer | string>
+): Promise<WorkflowCache | null> {
+  if (artifactRepo.findCache(project.id, branch, key)) return null;
+
+  const upload = await receiveArchive("caches", source);
+  if (artifactRepo.findCache(project.id, branch, key)) {
+    await unlink(upload.path).catch(() => {});
+    return null;
+  }
+
+  const cache = artifactRepo.createCache({
+    projectId: project.id,
+    ref: branch,
+    key,
+    sizeBytes: upload.size,
+    checksum: upload.checksum,
+  });
+  await rename(upload.path, archivePath("caches", cache.id));
+  evictCaches(project.id);
+  return cache;
+}
+
+export function deleteCache(cache: WorkflowCache): void {
+  artifactRepo.deleteCache(cache.id);
+  rmSync(archivePath("caches", cache.id), { force: true });
+}
+
+/**
+ * Remove a project's least recently used caches until the rest fit in
+ * its budget
+ */
+function evictCaches(projectId: string): void {
+  let total = 0;
+  for (const cache of artifactRepo.listCaches(projectId)) {
+    total += cache.sizeBytes;
+    if (total > DEFAULT_CLEANUP_POLICY.maxTotalSizeBytes) deleteCache(cache);
+  }
+}
+
+// ── Retention ───────────────────────────────────────────────
+
+/**
+ * Remove expired artifacts, caches unused for the retention period, and
+ * archives whose rows are gone, such as those of deleted runs.
+ * Returns how many archives were removed.
+ */
+export function purgeExpiredWorkflowStorage(now = new Date()): number {
+  let removed = 0;
+  for (const artifact of artifactRepo.listExpiredArtifacts(now.toISOString())) {
+    deleteArtifact(artifact);
+    removed++;
+  }
+  const unusedSince = new Date(now.getTime() - DEFAULT_CLEANUP_POLICY.maxAgeMs).toISOString();
+  for (const cache of artifactRepo.listUnusedCaches(unusedSince)) {
+    deleteCache(cache);
+    removed++;
+  }
+
+  const known: Record<ArchiveKind, Set<string>> = {
+    artifacts: new Set(artifactRepo.listArtifactIds()),
+    caches: new Set(artifactRepo.listCacheIds()),
+  };
+  for (const kind of ["artifacts", "caches"] as const) {
+    if (!existsSync(archiveDir(kind))) continue;
+    for (const file of readdirSync(archiveDir(kind))) {
+      const match = /^(.+)\.tar\.gz$/.exec(file);
+      if (match && !known[kind].has(match[1])) {
+        rmSync(nodePath.join(archiveDir(kind), file), { force: true });
+        removed++;
+      }
+    }
+  }
+  return removed;
+}
+
+export function startWorkflowStorageCleanup(): () => void {
+  const runCleanup = () => {
+    try {
+      const removed = purgeExpiredWorkflowStorage();
+      if (removed > 0) {
+        console.log(`[workflows] Removed ${removed} expired artifact and cache archives`);
+      }
+    } catch (error) {
+      console.error("[workflows] Artifact cleanup failed:", error);
+    }
+  };
+
+  runCleanup();
+  const interval = setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from "node:crypto";
+import * as nodePath from "node:path";
+import YAML from "yaml";
+import { changedFilePaths, getCommit, listTree, mergeBase, readBlob, resolveRef } from "@platform/git";
+import type { GitPushPayload, Project, PullRequestEventPayload } from "@platform/shared";
+import {
+  compileWorkflow,
+  matchesWorkflowTrigger,
+  type WorkflowTriggerEvent,
+} from "@platform/cluster";
+import { getConfig } from "../config/app-config.js";
+import * as prRepo from "../db/repositories/pr-repo.js";
+import * as subscriptionRepo from "../db/repositories/subscription-repo.js";
+import * as userRepo from "../db/repositories/user-repo.js";
+import * as workflowRunRepo from "../db/repositories/workflow-run-repo.js";
+import { resolveSecrets, resolveVariables } from "./actions-secrets-service.js";
+import { getUserLimits } from "./cluster-scheduler.js";
+import { resolveWorkflowActions } from "./workflow-actions-service.js";
+import { resolveProjectPermission, satisfies } from "./repository-permission-service.js";
+import { startWorkflowRun, type WorkflowRunRecord } from "./workflow-orchestrator.js";
+
+/**
+ * Workflow triggers.
+ *
+ * Starts runs for the workflows a repository defines in
+ * `.gittic/workflows/*.yaml`, read at the commit that triggered them:
+ * branch pushes fire `push`, tag pushes fire `tag`, and pull request
+ * activity fires `pull_request` on the pull request's head commit.
+ *
+ * Runs receive the repository's Actions variables and secrets, except
+ * pull request runs for authors who cannot push to the repository:
+ * like pull requests from forks, their code is untrusted.
+ */
+
+/** Directory workflow definitions are read from */
+export const WORKFLOW_DIR = ".gittic/workflows";
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+/** A workflow definition as committed */
+export interface WorkflowFile {
+  path: string;
+  content: string;
+}
+
+/** An event that may start workflows, and the commit it happened at */
+export interface WorkflowTrigger extends WorkflowTriggerEvent {
+  /** Commit the workflow files are read from */
+  sha: string;
+  /** Branch or tag the cluster checks out */
+  checkoutRef: string;
+  /** User the runs are started for; the repository owner when unknown */
+  actorId?: string | null;
+  /** Pull request that receives the runs' status checks */
+  pullRequestId?: string;
+  /** The runs execute code from someone without write access and get no secrets */
+  untrusted?: boolean;
+}
+
+function getRepositoryFsRoot(project: Project): string {
+  if (nodePath.isAbsolute(project.storagePath)) {
+    return project.storagePath;
+  }
+  return nodePath.resolve(getConfig().dataDir, project.storagePath);
+}
+
+function cloneUrl(project: Project): string {
+  const owner = userRepo.findById(project.ownerId);
+  return owner ? `${getConfig().publicUrl}/${owner.username}/${project.slug}.git` : "";
+}
+
+/**
+ * Read the workflow definitions committed at `sha`
+ */
+export async function readWorkflowFiles(repoPath: string, sha: string): Promise<WorkflowFile[]> {
+  const entries = await listTree(repoPath, `${sha}:${WORKFLOW_DIR}`).catch(() => []);
+  const definitions = entries.filter((entry) => entry.type === "blob" && /\.ya?ml$/.test(entry.path));
+
+  return Promise.all(
+    definitions.map(async (entry) => ({
+      path: `${WORKFLOW_DIR}/${entry.path}`,
+      content: await readBlob(repoPath, entry.sha),
+    }))
+  );
+}
+
+/**
+ * Whether a pull request's code comes from someone who cannot push to
+ * the repository themselves
+ */
+function isUntrustedAuthor(project: Project, authorId: string): boolean {
+  const author = userRepo.findById(authorId);
+  const permission = author ? resolveProjectPermission(project, { userId: author.id, role: author.role }) : "none";
+  return !satisfies(permission, "write");
+}
+
+function workflowName(definition: { name?: string }, path: string): string {
+  return definition.name || nodePath.basename(path).replace(/\.ya?ml$/, "");
+}
+
+/**
+ * Record a workflow definition and start a run of it for the trigger.
+ * `pinnedActions` are the actions of the run being re-run, if any.
+ */
+async function startDefinitionRun(
+  project: Project,
+  trigger: WorkflowTrigger,
+  file: WorkflowFile,
+  name: string,
+  commitMessage: string | undefined,
+  pinnedActions?: workflowRunRepo.WorkflowRunAction[]
+): Promise<WorkflowRunRecord> {
+  // Runs count against the repository owner's plan
+  const userTier = subscriptionRepo.getEffectiveTier(project.ownerId);
+  const limits = getUserLimits(userTier);
+  const { manifests, actions } = await resolveWorkflowActions(project, trigger.sha, file.content, pinnedActions);
+  const workflow = compileWorkflow(
+    file.content,
+    { cores: limits.maxCores, memoryGB: limits.maxMemoryGB },
+    { actions: manifests }
+  );
+  const definition = workflowRunRepo.upsertDefinition(project.id, file.path, name);
+  const scopes = { project, definitionId: definition.id };
+
+  return startWorkflowRun(workflow, {
+    workflowId: `workflow-${randomUUID()}`,
+    name,
+    repositoryId: project.id,
+    userId: trigger.actorId ?? project.ownerId,
+    userTier,
+    repositoryUrl: cloneUrl(project),
+    branch: trigger.checkoutRef,
+    pullRequestId: trigger.pullRequestId,
+    event: trigger.name,
+    definitionId: definition.id,
+    headSha: trigger.sha,
+    commitMessage,
+    actions,
+    secrets: trigger.untrusted ? {} : resolveSecrets(scopes),
+    vars: Object.fromEntries(resolveVariables(scopes).map((variable) => [variable.key, variable.value])),
+    scopes,
+    untrusted: trigger.untrusted,
+  });
+}
+
+/**
+ * Start a run for every workflow whose `on:` matches the trigger.
+ * Definitions that do not parse or compile are skipped and logged.
+ */
+export async function triggerWorkflows(project: Project, trigger: WorkflowTrigger): Promise<WorkflowRunRecord[]> {
+  const repoPath = getRepositoryFsRoot(project);
+  const files = await readWorkflowFiles(repoPath, trigger.sha);
+  if (files.length === 0) return [];
+
+  const commitMessage = await getCommit(repoPath, trigger.sha).then((commit) => commit.message, () => undefined);
+  const runs: WorkflowRunRecord[] = [];
+
+  for (const file of files) {
+    try {
+      const definition = YAML.parse(file.content) as { name?: string; on?: Parameters<typeof matchesWorkflowTrigger>[0] };
+      if (!definition?.on || !matchesWorkflowTrigger(definition.on, trigger)) continue;
+
+      runs.push(await startDefinitionRun(project, trigger, file, workflowName(definition, file.path), commitMessage));
+    } catch (err) {
+      console.error(`[Workflows] Skipping ${file.path} of ${project.slug} for ${trigger.name}:`, err);
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Start a new run of a finished run's workflow, as committed at the
+ * run's head commit and for the same event, with the same actions. Throws when the run was not
+ * started from a workflow file or the file can no longer be read.
+ */
+export async function rerunWorkflow(
+  project: Project,
+  run: workflowRunRepo.WorkflowRun,
+  actorId: string
+): Promise<WorkflowRunRecord> {
+  const definition = run.workflowId ? workflowRunRepo.findDefinition(project.id, run.workflowId) : null;
+  if (!definition || !run.headSha) {
+    throw new Error("Only runs started from a workflow file can be re-run");
+  }
+
+  const content = await readBlob(getRepositoryFsRoot(project), `${run.headSha}:${definition.path}`);
+  const parsed = YAML.parse(content) as { name?: string };
+  const pullRequest = run.pullRequestId ? prRepo.findById(run.pullRequestId) : null;
+
+  return startDefinitionRun(
+    project,
+    {
+      name: run.event,
+      ref: run.headBranch,
+      sha: run.headSha,
+      checkoutRef: run.headBranch,
+      actorId,
+      pullRequestId: run.pullRequestId,
+      untrusted: pullRequest ? isUntrustedAuthor(project, pullRequest.authorId) : false,
+    },
+    { path: definition.path, content },
+    workflowName(parsed ?? {}, definition.path),
+    run.commitMessage,
+    run.actions
+  );
+}
+
+/**
+ * Start the `push` or `tag` workflows for an accepted ref update
+ */
+export async function triggerPushWorkflows(
+  project: Project,
+  push: GitPushPayload,
+  actorId?: string | null
+): Promise<WorkflowRunRecord[]> {
+  if (push.deleted) return [];
+
+  if (push.ref.startsWith("refs/tags/")) {
+    return triggerWorkflows(project, {
+      name: "tag",
+      ref: push.refName,
+      sha: push.afterSha,
+      checkoutRef: push.refName,
+      actorId,
+    });
+  }
+  if (!push.ref.startsWith("refs/heads/")) return [];
+
+  // A new branch has nothing to compare with, so path filters do not apply
+  const changedFiles = push.beforeSha === ZERO_SHA
+    ? undefined
+    : await changedFilePaths(getRepositoryFsRoot(project), push.beforeSha, push.afterSha).catch(() => undefined);
+
+  return triggerWorkflows(project, {
+    name: "push",
+    ref: push.refName,
+    changedFiles,
+    sha: push.afterSha,
+    checkoutRef: push.refName,
+    actorId,
+  });
+}
+
+/**
+ * Start the `pull_request` workflows for pull request activity. Path
+ * filters see every file the pull request changes.
+ */
+export async function triggerPullRequestWorkflows(
+  project: Project,
+  action: string,
+  pr: PullRequestEventPayload,
+  actorId?: string | null
+): Promise<WorkflowRunRecord[]> {
+  const repoPath = getRepositoryFsRoot(project);
+  const headSha = pr.headSha ?? await resolveRef(repoPath, `refs/heads/${pr.headBranch}`);
+  const changedFiles = await mergeBase(repoPath, `refs/heads/${pr.baseBranch}`, headSha)
+    .then((base) => changedFilePaths(repoPath, base, headSha))
+    .catch(() => undefined);
+
+  return triggerWorkflows(project, {
+    name: "pull_request",
+    ref: pr.baseBranch,
+    action,
+    changedFiles,
+    sha: headSha,
+    checkoutRef: pr.headBranch,
+    actorId,
+    pullRequestId: pr.pullRequestId,
+    untrusted: isUntrustedAuthor(project, pr.authorId),
+  });
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { listActionReferences, parseActionManifest, parseActionReference } from "../workflow-actions.js";
+import { compileWorkflow, renderJob } from "../workflow-compiler.js";
+
+const LIMITS = { cores: 2, memoryGB: 2 };
+
+const GREET = `
+name: Greet
+inputs:
+  who:
+    required: true
+  punctuation:
+    default: "!"
+outputs:
+  greeting:
+    value: \${{ steps.say.outputs.text }}
+runs:
+  using: composite
+  steps:
+    - id: say
+      env:
+        WHO: \${{ inputs.who }}
+      run: echo "text=Hello $WHO\${{ inputs.punctuation }}" >> $GITTIC_OUTPUT
+`;
+
+const LINT = `
+inputs:
+  path:
+    default: src
+runs:
+  using: docker
+  image: docker://acme/lint:2
+  args: ["--path", "\${{ inputs.path }}"]
+`;
+
+describe("parseActionReference", () => {
+  it("reads repository and local actions", () => {
+    expect(parseActionReference("acme/setup-node@v2")).toEqual({
+      kind: "repository", owner: "acme", repo: "setup-node", path: "", ref: "v2",
+    });
+    expect(parseActionReference("acme/tools/lint/js@main")).toMatchObject({ repo: "tools", path: "lint/js", ref: "main" });
+    expect(parseActionReference("./.gittic/actions/build")).toEqual({ kind: "local", path: ".gittic/actions/build" });
+  });
+
+  it("rejects references it can't resolve safely", () => {
+    expect(() => parseActionReference("acme/setup-node")).toThrow("expected \"owner/repo@ref\"");
+    expect(() => parseActionReference("acme/tools/../secrets@v1")).toThrow("Invalid action path");
+    expect(() => parseActionReference("acme/tools@--upload-pack=x")).toThrow("Invalid action");
+    expect(() => parseActionReference("docker://alpine")).toThrow("wrap it in a Docker action");
+  });
+});
+
+describe("parseActionManifest", () => {
+  it("only accepts composite actions and prebuilt images", () => {
+    expect(parseActionManifest("a/b@v1", LINT).runs).toEqual({
+      using: "docker", image: "acme/lint:2", entrypoint: undefined, args: ["--path", "${{ inputs.path }}"], env: {},
+    });
+    expect(() => parseActionManifest("a/b@v1", "runs:\n  using: docker\n  image: Dockerfile\n")).toThrow("building a Dockerfile is not supported");
+    expect(() => parseActionManifest("a/b@v1", "runs:\n  using: node20\n")).toThrow('must set runs.using to "composite" or "docker"');
+  });
+});
+
+describe("actions in workflows", () => {
+  it("lists the actions a workflow uses and checks how steps use them", () => {
+    const workflow = (step: string) => `
+jobs:
+  build:
+    steps:
+      - ${step}
+`;
+    expect(listActionReferences(workflow("uses: acme/greet@v1\n      - uses: ./lint\n      - uses: acme/greet@v1"))).toEqual([
+      "acme/greet@v1",
+      "./lint",
+    ]);
+
+    const actions = { "acme/greet@v1": GREET };
+    expect(() => compileWorkflow(workflow("uses: acme/other@v1"), LIMITS, { actions })).toThrow(
+      'Action "acme/other@v1" used by jobs.build.steps[0] was not resolved'
+    );
+    expect(() => compileWorkflow(workflow("uses: acme/greet@v1"), LIMITS, { actions })).toThrow('requires the input "who"');
+    expect(() => compileWorkflow(workflow("uses: acme/greet@v1\n        with: { who: a, shout: b }"), LIMITS, { actions })).toThrow(
+      'has no input "shout"'
+    );
+    expect(() => compileWorkflow(workflow("uses: acme/greet@v1\n        run: echo"), LIMITS, { actions })).toThrow(
+      "cannot both use an action and run a command"
+    );
+    expect(() =>
+      compileWorkflow(workflow("uses: acme/greet@v1"), LIMITS, { actions: { "acme/greet@v1": GREET.replace("inputs.who", "inputs.name") } })
+    ).toThrow("inputs.name is not an input of the action");
+  });
+
+  it("runs composite actions in the step and prepares Docker actions for the executor", () => {
+    const [job] = compileWorkflow(`
+jobs:
+  build:
+    steps:
+      - id: greet
+        uses: acme/greet@v1
+        with:
+          who: \${{ secrets.NAME }}
+      - name: Lint
+        uses: ./lint
+        with:
+          path: \${{ steps.greet.outputs.greeting }}
+      - run: echo done
+`, LIMITS, { actions: { "acme/greet@v1": GREET, "./lint": LINT } }).jobs;
+
+    const spec = renderJob(job);
+
+    expect(spec.secrets).toEqual(["NAME"]);
+    expect(spec.executorSteps).toEqual([{ number: 2, total: 3, image: "acme/lint:2", entrypoint: undefined }]);
+    expect(spec.entrypoint).toContain("echo 'Step 1/3: Run acme/greet@v1'");
+    expect(spec.entrypoint).toContain(
+      "export INPUT_WHO=\"${GITTIC_SECRET_NAME}\"\nexport INPUT_PUNCTUATION='!'\n" +
+      "export GITTIC_OUTPUT='/workspace/.gittic/actions/greet/say'\n"
+    );
+    expect(spec.entrypoint).toContain("export WHO=\"${INPUT_WHO}\"\nexport GITTIC_EXPR_1='!'\n");
+    expect(spec.entrypoint).toContain(
+      "gittic_set_output 'greeting' \"$(gittic_step_output '/workspace/.gittic/actions/greet/say' 'text')\""
+    );
+    expect(spec.entrypoint).toContain(
+      "export INPUT_PATH=\"$(gittic_step_output '/workspace/.gittic/outputs/greet' 'greeting')\"\n"
+    );
+    expect(spec.entrypoint).toContain("printf '%s\\0' '--path' \"${INPUT_PATH}\" > \"/workspace/.gittic/step/args.tmp\"");
+    const secondPhase = spec.entrypoint.indexOf("}\n\ngittic_phase_1() {\n:\nif [ \"$GITTIC_JOB_STATUS\" = success ]; then\necho 'Step 3/3");
+    expect(secondPhase).toBeGreaterThan(spec.entrypoint.indexOf("echo 'Step 2/3: Lint'"));
+    expect(spec.entrypoint).toContain('[ "${1:-0}" = 1 ] || exit 0');
+  });
+
+  it("only lets inputs given a secret be read on their own", () => {
+    const [job] = compileWorkflow(`
+jobs:
+  build:
+    steps:
+      - uses: acme/greet@v1
+        with:
+          who: \${{ secrets.NAME }}
+`, LIMITS, { actions: { "acme/greet@v1": GREET.replace("WHO: ${{ inputs.who }}", "WHO: ${{ format('{0}', inputs.who) }}") } }).jobs;
+
+    expect(() => renderJob(job)).toThrow("inputs.who reads a secret or step output, so it can only be used on its own");
+  });
+
+  it("hands built-in actions to the executor without resolving them", () => {
+    expect(listActionReferences(`
+jobs:
+  build:
+    steps:
+      - uses: gittic/upload-artifact@v1
+      - uses: gittic/cache@v2
+`)).toEqual(["gittic/cache@v2"]);
+
+    const [job] = compileWorkflow(`
+jobs:
+  build:
+    steps:
+      - run: npm run build
+      - uses: gittic/upload-artifact@v1
+        with:
+          name: bundle-\${{ github.sha }}
+          path: dist
+`, LIMITS).jobs;
+    const spec = renderJob(job, {}, { github: { sha: "abc" } });
+
+    expect(spec.executorSteps).toEqual([{ number: 2, total: 2, builtin: "upload-artifact" }]);
+    expect(spec.entrypoint).toContain(
+      "printf '%s\\0' 'INPUT_NAME='\"$INPUT_NAME\" 'INPUT_PATH='\"$INPUT_PATH\" 'INPUT_RETENTION_DAYS='\"$INPUT_RETENTION_DAYS\" 'GITTIC_OUTPUT='\"$GITTIC_OUTPUT\""
+    );
+    expect(spec.entrypoint).toContain("export INPUT_NAME='bundle-''abc'");
+  });
+});
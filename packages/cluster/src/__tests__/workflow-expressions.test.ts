@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateCondition,
+  evaluateTemplate,
+  parseExpression,
+  parseTemplate,
+  type EvaluationScope,
+} from "../workflow-expressions.js";
+
+const SCOPE: EvaluationScope = {
+  contexts: {
+    github: { ref: "refs/heads/main", event_name: "push", labels: ["bug", "ci"] },
+    matrix: { node: "20" },
+    needs: {
+      build: { result: "success", outputs: { version: "1.2.3", meta: '{"tags":["a","b"]}' } },
+      lint: { result: "failure", outputs: {} },
+    },
+  },
+};
+
+const evaluate = (source: string) => evaluateTemplate(`\${{ ${source} }}`, SCOPE);
+
+describe("evaluateTemplate", () => {
+  it("reads contexts and compares the way workflows expect", () => {
+    expect(evaluateTemplate("v${{ needs.build.outputs.version }} on ${{ github.REF }}", SCOPE)).toBe("v1.2.3 on refs/heads/main");
+    expect(evaluate("github.missing.deeper")).toBe("");
+    expect(evaluate("github.event_name == 'PUSH'")).toBe("true");
+    expect(evaluate("matrix.node >= 18 && matrix.node != 22")).toBe("true");
+    expect(evaluate("github.missing || 'fallback'")).toBe("fallback");
+    expect(evaluate("!(needs.lint.result == 'success')")).toBe("true");
+    expect(evaluate("needs.*.result")).toBe('[\n  "success",\n  "failure"\n]');
+    expect(evaluate("github['event_name']")).toBe("push");
+  });
+
+  it("provides the string and JSON helpers", () => {
+    expect(evaluate("contains(github.labels, 'CI')")).toBe("true");
+    expect(evaluate("contains(github.ref, 'main')")).toBe("true");
+    expect(evaluate("startsWith(github.ref, 'refs/tags/')")).toBe("false");
+    expect(evaluate("endsWith(github.ref, '/main')")).toBe("true");
+    expect(evaluate("format('{0}-{1} {{literal}}', 'node', matrix.node)")).toBe("node-20 {literal}");
+    expect(evaluate("join(github.labels, ', ')")).toBe("bug, ci");
+    expect(evaluate("toJSON(matrix)")).toBe('{\n  "node": "20"\n}');
+    expect(evaluate("fromJSON(needs.build.outputs.meta).tags[1]")).toBe("b");
+    expect(evaluate("'it''s'")).toBe("it's");
+  });
+
+  it("reports malformed expressions with what went wrong", () => {
+    expect(() => parseTemplate("${{ github.ref ")).toThrow("Unterminated '${{'");
+    expect(() => parseExpression("")).toThrow("Expression is empty");
+    expect(() => parseExpression("github.ref ==")).toThrow("Unexpected end of expression");
+    expect(() => parseExpression("github.ref = 'x'")).toThrow("Unexpected character '=' at position 12");
+    expect(() => parseExpression("'open")).toThrow("Unterminated string starting at position 1");
+    expect(() => parseExpression("startsWith('a')")).toThrow("startsWith() takes 2 arguments, got 1");
+    expect(() => evaluate("format('{1}', 'a')")).toThrow("refers to argument {1}");
+    expect(() => evaluate("success()")).toThrow("success() can only be used in if: conditions");
+  });
+});
+
+describe("evaluateCondition", () => {
+  const after = (status: { success: boolean; failure: boolean; cancelled: boolean }) => ({ ...SCOPE, status });
+  const succeeded = after({ success: true, failure: false, cancelled: false });
+  const failed = after({ success: false, failure: true, cancelled: false });
+
+  it("only holds after success unless a status function says otherwise", () => {
+    expect(evaluateCondition(undefined, succeeded)).toBe(true);
+    expect(evaluateCondition(undefined, failed)).toBe(false);
+    expect(evaluateCondition("github.event_name == 'push'", failed)).toBe(false);
+    expect(evaluateCondition("${{ failure() && github.event_name == 'push' }}", failed)).toBe(true);
+    expect(evaluateCondition("always()", failed)).toBe(true);
+    expect(evaluateCondition("cancelled()", failed)).toBe(false);
+  });
+});
@@ -0,0 +1,386 @@
+import { describe, it, expect } from "vitest";
+import { compileWorkflow, expandMatrix, matchesWorkflowTrigger, parseOutputFile, renderJob } from "../workflow-compiler.js";
+import { runWorkflow, type JobExecutionResult } from "../workflow-runner.js";
+
+const LIMITS = { cores: 2, memoryGB: 2 };
+
+const PIPELINE = `
+name: Pipeline
+on: push
+jobs:
+  deploy:
+    needs: [build, test]
+    steps:
+      - run: ./deploy.sh \${{ needs.build.outputs.version }}
+  test:
+    needs: build
+    steps:
+      - run: npm test
+  build:
+    outputs:
+      version: v\${{ steps.meta.outputs.version }}
+    steps:
+      - id: meta
+        run: echo "version=1.2.3" >> $GITTIC_OUTPUT
+  lint:
+    steps:
+      - run: npm run lint
+`;
+
+const MATRIX = `
+jobs:
+  test:
+    image: node:\${{ matrix.node }}
+    outputs:
+      result: \${{ steps.run.outputs.result }}
+    strategy:
+      matrix:
+        node: [18, 20]
+        os: [ubuntu, alpine]
+    steps:
+      - id: run
+        run: npm test on \${{ matrix.os }}
+  report:
+    needs: test
+    steps:
+      - run: echo \${{ needs.test.outputs.result }}
+`;
+
+describe("compileWorkflow", () => {
+  it("compiles every job in dependency order", () => {
+    const workflow = compileWorkflow(PIPELINE, LIMITS);
+
+    expect(workflow.name).toBe("Pipeline");
+    expect(workflow.jobs.map((job) => job.id)).toEqual(["build", "lint", "test", "deploy"]);
+    expect(workflow.jobs.find((job) => job.id === "deploy")?.needs).toEqual(["build", "test"]);
+  });
+
+  it("expands matrix jobs into one job per combination", () => {
+    const workflow = compileWorkflow(MATRIX, LIMITS);
+    const [first] = workflow.jobs;
+
+    expect(workflow.jobs.map((job) => [job.id, job.name])).toEqual([
+      ["test-1", "test (18, ubuntu)"],
+      ["test-2", "test (18, alpine)"],
+      ["test-3", "test (20, ubuntu)"],
+      ["test-4", "test (20, alpine)"],
+      ["report", "report"],
+    ]);
+    expect(first).toMatchObject({ group: "test", matrix: { node: "18", os: "ubuntu" }, image: "node:18" });
+    expect(renderJob(first).entrypoint).toContain("export GITTIC_EXPR_1='ubuntu'\nnpm test on ${GITTIC_EXPR_1}");
+  });
+
+  it("resolves the environment each job deploys to", () => {
+    const workflow = compileWorkflow(`
+jobs:
+  deploy:
+    environment:
+      name: \${{ matrix.region }}-production
+      url: https://\${{ matrix.region }}.example.com
+    strategy:
+      matrix:
+        region: [eu, us]
+    steps: [{run: ./deploy.sh}]
+  docs:
+    environment: docs
+    steps: [{run: ./publish.sh}]
+`, LIMITS);
+
+    expect(workflow.jobs.map((job) => job.environment)).toEqual([
+      { name: "eu-production", url: "https://eu.example.com" },
+      { name: "us-production", url: "https://us.example.com" },
+      { name: "docs" },
+    ]);
+    expect(() => compileWorkflow("jobs:\n  a:\n    environment: {url: x}\n    steps: [{run: x}]", LIMITS))
+      .toThrow("jobs.a.environment must be a name or { name, url }");
+    expect(() => compileWorkflow("jobs:\n  a:\n    environment: ${{ vars.ENV }}\n    steps: [{run: x}]", LIMITS))
+      .toThrow("Unknown context 'vars'");
+  });
+
+  it("rejects malformed expressions before anything runs", () => {
+    const compile = (run: string) => () => compileWorkflow(`jobs:\n  a:\n    steps: [{run: "${run}"}]\n  b:\n    steps: [{run: x}]`, LIMITS);
+
+    expect(compile("echo ${{ github.ref")).toThrow("Invalid expression in jobs.a.steps[0].run: Unterminated '${{'");
+    expect(compile("echo ${{ github.ref == }}")).toThrow("Unexpected end of expression");
+    expect(compile("echo ${{ runner.os }}")).toThrow("Unknown context 'runner'");
+    expect(compile("echo ${{ needs.b.outputs.x }}")).toThrow('"b" is not listed in needs');
+    expect(compile("echo ${{ steps.later.outputs.x }}")).toThrow('no earlier step has the id "later"');
+    expect(compile("echo ${{ format('{0}', secrets.TOKEN) }}")).toThrow("secrets can only be used on their own");
+    expect(compile("echo ${{ always() }}")).toThrow("always() can only be used in if: conditions");
+    expect(compile("echo ${{ upper('x') }}")).toThrow("Unknown function 'upper'");
+    expect(compile("echo ${{ contains('x') }}")).toThrow("contains() takes 2 arguments, got 1");
+  });
+
+  it("rejects unknown dependencies and cycles", () => {
+    expect(() => compileWorkflow("jobs:\n  a:\n    needs: b\n    steps: [{run: x}]", LIMITS))
+      .toThrow('Job "a" needs unknown job "b"');
+    expect(() => compileWorkflow(
+      "jobs:\n  a:\n    needs: c\n    steps: [{run: x}]\n  b:\n    needs: a\n    steps: [{run: x}]\n  c:\n    needs: b\n    steps: [{run: x}]",
+      LIMITS,
+    )).toThrow("Job dependency cycle: a -> c -> b -> a");
+  });
+});
+
+describe("expandMatrix", () => {
+  it("multiplies vectors and applies exclude and include rules", () => {
+    expect(expandMatrix("test", {
+      node: [18, 20],
+      os: ["ubuntu", "alpine"],
+      exclude: [{ node: 18, os: "alpine" }],
+      include: [
+        { os: "alpine", experimental: true },
+        { node: 22, os: "ubuntu" },
+      ],
+    })).toEqual([
+      { node: 18, os: "ubuntu" },
+      { node: 20, os: "ubuntu" },
+      { node: 20, os: "alpine", experimental: true },
+      { node: 22, os: "ubuntu" },
+    ]);
+  });
+
+  it("rejects matrices without combinations", () => {
+    expect(() => expandMatrix("test", { node: [18], exclude: [{ node: 18 }] }))
+      .toThrow('Matrix of job "test" has no combinations');
+  });
+});
+
+describe("matchesWorkflowTrigger", () => {
+  const on = {
+    push: { branches: ["main", "release/**", "!release/old/**"], "paths-ignore": ["docs/**"] },
+    pull_request: { branches: ["main"], types: ["opened"] },
+    tag: { tags: ["v*"] },
+  };
+
+  it("applies branch and path filters to pushes", () => {
+    expect(matchesWorkflowTrigger(on, { name: "push", ref: "main", changedFiles: ["src/a.ts"] })).toBe(true);
+    expect(matchesWorkflowTrigger(on, { name: "push", ref: "release/1.x/rc" })).toBe(true);
+    expect(matchesWorkflowTrigger(on, { name: "push", ref: "release/old/1" })).toBe(false);
+    expect(matchesWorkflowTrigger(on, { name: "push", ref: "feature" })).toBe(false);
+    expect(matchesWorkflowTrigger(on, { name: "push", ref: "main", changedFiles: ["docs/guide.md"] })).toBe(false);
+  });
+
+  it("filters pull requests by base branch and activity, and tags by name", () => {
+    expect(matchesWorkflowTrigger(on, { name: "pull_request", ref: "main", action: "opened" })).toBe(true);
+    expect(matchesWorkflowTrigger(on, { name: "pull_request", ref: "main", action: "synchronize" })).toBe(false);
+    expect(matchesWorkflowTrigger(on, { name: "tag", ref: "v1.2.0" })).toBe(true);
+    expect(matchesWorkflowTrigger(on, { name: "tag", ref: "nightly" })).toBe(false);
+    expect(matchesWorkflowTrigger(["push", "pull_request"], { name: "pull_request", ref: "x", action: "synchronize" })).toBe(true);
+    expect(matchesWorkflowTrigger("push", { name: "tag", ref: "v1" })).toBe(false);
+  });
+});
+
+describe("parseOutputFile", () => {
+  it("reads single-line and delimited multiline outputs", () => {
+    expect(parseOutputFile("a=1\nnotes<<EOF\nline 1\nline 2\nEOF\nb=x=y\n")).toEqual({
+      a: "1",
+      notes: "line 1\nline 2",
+      b: "x=y",
+    });
+  });
+});
+
+describe("renderJob", () => {
+  it("fills in variables and keeps secret values out of the generated files", () => {
+    const [job] = compileWorkflow(`
+env:
+  REGISTRY: \${{ vars.registry }}
+jobs:
+  publish:
+    env:
+      TOKEN: \${{ secrets.npm_token }}
+    steps:
+      - run: docker push \${{ vars.REGISTRY }}/app && deploy --key \${{ secrets.DEPLOY_KEY }}
+`, LIMITS).jobs;
+
+    const spec = renderJob(job, {}, { vars: { REGISTRY: "ghcr.io" } });
+
+    expect(spec.secrets).toEqual(["NPM_TOKEN", "DEPLOY_KEY"]);
+    expect(spec.env.REGISTRY).toBe("ghcr.io");
+    expect(spec.env.TOKEN).toBeUndefined();
+    expect(spec.dockerfile).not.toContain("TOKEN");
+    expect(spec.entrypoint).toContain('export TOKEN="${GITTIC_SECRET_NPM_TOKEN}"');
+    expect(spec.entrypoint).toContain("export GITTIC_EXPR_1='ghcr.io'");
+    expect(spec.entrypoint).toContain("docker push ${GITTIC_EXPR_1}/app && deploy --key ${GITTIC_SECRET_DEPLOY_KEY}");
+  });
+
+  it("quotes evaluated values and turns step conditions into checks of the job status", () => {
+    const [job] = compileWorkflow(`
+jobs:
+  build:
+    steps:
+      - id: meta
+        run: echo "tag=v1" >> $GITTIC_OUTPUT
+      - name: Greet \${{ github.actor }}
+        if: github.event_name == 'push'
+        env:
+          TAG: \${{ steps.meta.outputs.tag }}
+        run: echo "\${{ github.head_ref }}"
+      - if: failure()
+        run: ./report.sh
+      - if: github.event_name == 'tag'
+        run: ./release.sh
+`, LIMITS).jobs;
+
+    const { entrypoint } = renderJob(job, {}, { github: { actor: "alice", event_name: "push", head_ref: "x'; rm -rf / #" } });
+
+    expect(entrypoint).toContain("echo 'Step 2/4: Greet alice'");
+    expect(entrypoint).toContain("export TAG=\"$(gittic_step_output '/workspace/.gittic/outputs/meta' 'tag')\"");
+    expect(entrypoint).toContain("export GITTIC_EXPR_1='x'\\''; rm -rf / #'\necho \"${GITTIC_EXPR_1}\"");
+    expect(entrypoint).toContain('if [ "$GITTIC_JOB_STATUS" = failure ]; then\necho \'Step 3/4: Unnamed step\'');
+    expect(entrypoint).toContain("echo 'Step 4/4 skipped'");
+    expect(entrypoint).not.toContain("release.sh");
+  });
+});
+
+describe("runWorkflow", () => {
+  it("passes outputs to dependent jobs", async () => {
+    const workflow = compileWorkflow(PIPELINE, LIMITS);
+    const scripts: Record<string, string> = {};
+
+    const result = await runWorkflow(workflow, async (job, spec): Promise<JobExecutionResult> => {
+      scripts[job.id] = spec.entrypoint;
+      return { status: "success", stepOutputs: job.id === "build" ? { meta: { version: "1.2.3" } } : {} };
+    });
+
+    expect(result.status).toBe("success");
+    expect(result.jobs.find((job) => job.id === "build")?.outputs).toEqual({ version: "v1.2.3" });
+    expect(scripts.deploy).toContain("export GITTIC_EXPR_1='v1.2.3'\n./deploy.sh ${GITTIC_EXPR_1}\n");
+  });
+
+  it("runs independent jobs in parallel", async () => {
+    const workflow = compileWorkflow(PIPELINE, LIMITS);
+    const active = new Set<string>();
+    let overlapped = false;
+
+    await runWorkflow(workflow, async (job) => {
+      active.add(job.id);
+      if (active.size > 1) overlapped = true;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active.delete(job.id);
+      return { status: "success", stepOutputs: {} };
+    });
+
+    expect(overlapped).toBe(true);
+  });
+
+  it("skips the dependents of a failed job and keeps running the rest", async () => {
+    const workflow = compileWorkflow(PIPELINE, LIMITS);
+    const ran: string[] = [];
+
+    const result = await runWorkflow(workflow, async (job) => {
+      ran.push(job.id);
+      if (job.id === "test") throw new Error("tests failed");
+      return { status: "success", stepOutputs: {} };
+    });
+
+    const status = Object.fromEntries(result.jobs.map((job) => [job.id, job.status]));
+    expect(result.status).toBe("failure");
+    expect(status).toEqual({ build: "success", lint: "success", test: "failure", deploy: "skipped" });
+    expect(ran).not.toContain("deploy");
+    expect(result.jobs.find((job) => job.id === "deploy")?.error).toContain('"test"');
+  });
+
+  it("runs jobs whose condition holds after a failure", async () => {
+    const workflow = compileWorkflow(`
+jobs:
+  test:
+    steps: [{run: npm test}]
+  notify:
+    needs: test
+    if: failure() && needs.test.result == 'failure'
+    steps: [{run: ./notify.sh}]
+  cleanup:
+    needs: notify
+    if: always()
+    steps: [{run: ./cleanup.sh}]
+  publish:
+    needs: test
+    if: github.ref == 'refs/heads/main'
+    steps: [{run: ./publish.sh}]
+`, LIMITS);
+    const ran: string[] = [];
+
+    const result = await runWorkflow(workflow, async (job) => {
+      ran.push(job.id);
+      return { status: job.id === "test" ? "failed" : "success", stepOutputs: {} };
+    }, { context: { github: { ref: "refs/heads/main" } } });
+
+    expect(ran).toEqual(["test", "notify", "cleanup"]);
+    expect(result.jobs.find((job) => job.id === "publish")).toMatchObject({
+      status: "skipped",
+      error: `Skipped because its condition "github.ref == 'refs/heads/main'" was false`,
+    });
+  });
+
+  it("reports job transitions as they happen", async () => {
+    const workflow = compileWorkflow("jobs:\n  only:\n    steps: [{run: x}]", LIMITS);
+    const seen: string[] = [];
+
+    await runWorkflow(workflow, async () => ({ status: "timeout", stepOutputs: {} }), {
+      onUpdate: (state) => seen.push(`${state.status}:${state.jobs[0].status}`),
+    });
+
+    expect(seen).toEqual(["in_progress:queued", "in_progress:in_progress", "in_progress:failure", "failure:failure"]);
+  });
+
+  it("waits for every combination before running dependents", async () => {
+    const workflow = compileWorkflow(MATRIX, LIMITS);
+    const ran: string[] = [];
+    const scripts: Record<string, string> = {};
+
+    const result = await runWorkflow(workflow, async (job, spec) => {
+      ran.push(job.id);
+      scripts[job.id] = spec.entrypoint;
+      return { status: "success", stepOutputs: { run: { result: job.name } } };
+    });
+
+    expect(result.status).toBe("success");
+    expect(ran.at(-1)).toBe("report");
+    expect(scripts.report).toContain("export GITTIC_EXPR_1='test (20, alpine)'");
+  });
+
+  it("cancels the rest of the matrix when a combination fails", async () => {
+    const workflow = compileWorkflow(MATRIX.replace("matrix:", "max-parallel: 2\n      matrix:"), LIMITS);
+    let active = 0;
+    let mostActive = 0;
+
+    const result = await runWorkflow(workflow, async (job, _spec, signal) => {
+      mostActive = Math.max(mostActive, ++active);
+      try {
+        if (job.id === "test-1") {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return { status: "failed", stepOutputs: {}, error: "boom" };
+        }
+        await new Promise((resolve) => signal.addEventListener("abort", resolve));
+        return { status: "cancelled", stepOutputs: {} };
+      } finally {
+        active--;
+      }
+    });
+
+    const status = Object.fromEntries(result.jobs.map((job) => [job.id, job.status]));
+    expect(mostActive).toBe(2);
+    expect(status).toEqual({
+      "test-1": "failure",
+      "test-2": "cancelled",
+      "test-3": "cancelled",
+      "test-4": "cancelled",
+      report: "skipped",
+    });
+    expect(result.jobs.find((job) => job.id === "test-2")?.error).toBe('Cancelled because "test (18, ubuntu)" failed');
+  });
+
+  it("keeps running the matrix when fail-fast is off", async () => {
+    const workflow = compileWorkflow(MATRIX.replace("matrix:", "fail-fast: false\n      matrix:"), LIMITS);
+
+    const result = await runWorkflow(workflow, async (job) => ({
+      status: job.id === "test-1" ? "failed" : "success",
+      stepOutputs: {},
+    }));
+
+    expect(result.jobs.filter((job) => job.status === "success").map((job) => job.id))
+      .toEqual(["test-2", "test-3", "test-4"]);
+    expect(result.jobs.find((job) => job.id === "report")?.status).toBe("skipped");
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runBuiltinStep, saveCaches, type PendingCache, type StorageContext } from "../workflow-storage.js";
+
+describe("workflow storage", () => {
+  const stored = new Map<string, Buffer>();
+  const logs: string[] = [];
+  let workspaces: string[];
+
+  const context = (jobId: string): StorageContext => {
+    const workspace = mkdtempSync(join(tmpdir(), "workflow-storage-test-"));
+    workspaces.push(workspace);
+    return { serverUrl: "http://server", clusterToken: "cluster-secret", workflowId: "run-1", jobId, workspace, log: async (msg) => void logs.push(msg) };
+  };
+
+  beforeEach(() => {
+    stored.clear();
+    logs.length = 0;
+    workspaces = [];
+    // Artifacts are shared by the run, caches keyed by their key alone
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init?: { method?: string; headers?: Record<string, string>; body?: Buffer }) => {
+      if (init?.headers?.Authorization !== "Bearer cluster-secret") {
+        return Response.json({ error: "Invalid cluster token" }, { status: 401 });
+      }
+      const { pathname, searchParams } = new URL(url);
+      const [, , , , kind, , , name] = pathname.split("/");
+      const id = kind === "artifacts" ? `artifact:${decodeURIComponent(name)}` : `cache:${searchParams.get("key")}`;
+      if (init?.method === "PUT") {
+        stored.set(id, init.body!);
+        return new Response(null, { status: 201 });
+      }
+      const restored = [id, ...searchParams.getAll("restoreKey").map((key) => `cache:${key}`)]
+        .map((candidate) => [...stored.keys()].find((key) => key.startsWith(candidate)))
+        .find(Boolean);
+      if (!restored) return new Response(null, { status: kind === "caches" ? 204 : 404 });
+      return new Response(new Uint8Array(stored.get(restored)!), { headers: { "X-Cache-Key": restored.replace(/^cache:/, "") } });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    for (const workspace of workspaces) rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("shares artifacts between the jobs of a run", async () => {
+    const build = context("build");
+    mkdirSync(join(build.workspace, "dist"));
+    writeFileSync(join(build.workspace, "dist", "app.js"), "console.log(1);\n");
+
+    expect(await runBuiltinStep("upload-artifact", { INPUT_NAME: "bundle", INPUT_PATH: "dist\nmissing" }, build, [])).toBe(0);
+    expect(await runBuiltinStep("upload-artifact", { INPUT_NAME: "empty", INPUT_PATH: "missing" }, build, [])).toBe(1);
+    expect(await runBuiltinStep("upload-artifact", { INPUT_NAME: "etc", INPUT_PATH: "../etc" }, build, [])).toBe(1);
+
+    const deploy = context("deploy");
+    expect(await runBuiltinStep("download-artifact", { INPUT_NAME: "bundle", INPUT_PATH: "out" }, deploy, [])).toBe(0);
+    expect(readFileSync(join(deploy.workspace, "out", "dist", "app.js"), "utf8")).toBe("console.log(1);\n");
+    expect(await runBuiltinStep("download-artifact", { INPUT_NAME: "other", INPUT_PATH: "." }, deploy, [])).toBe(1);
+    expect(logs).toContain('[Workflow Error] No artifact named "other" was uploaded in this run');
+    expect(logs).toContain('[Workflow Error] "../etc" is outside the workspace; paths must be relative to it');
+  });
+
+  it("restores caches by key or prefix and saves them once the job succeeds", async () => {
+    const first = context("test");
+    writeFileSync(join(first.workspace, "out"), "");
+    const pending: PendingCache[] = [];
+    const inputs = { INPUT_KEY: "deps-abc", INPUT_PATH: "node_modules", INPUT_RESTORE_KEYS: "deps-\n", GITTIC_OUTPUT: "/workspace/out" };
+
+    expect(await runBuiltinStep("cache", inputs, first, pending)).toBe(0);
+    expect(readFileSync(join(first.workspace, "out"), "utf8")).toBe("cache-hit=false\n");
+    mkdirSync(join(first.workspace, "node_modules"));
+    writeFileSync(join(first.workspace, "node_modules", "dep.js"), "dep");
+    await saveCaches(first, pending);
+
+    const second = context("test");
+    writeFileSync(join(second.workspace, "out"), "");
+    const again: PendingCache[] = [];
+    expect(await runBuiltinStep("cache", { ...inputs, INPUT_KEY: "deps-def" }, second, again)).toBe(0);
+    expect(readFileSync(join(second.workspace, "node_modules", "dep.js"), "utf8")).toBe("dep");
+    expect(readFileSync(join(second.workspace, "out"), "utf8")).toBe("cache-hit=false\n");
+    expect(again).toEqual([{ key: "deps-def", paths: ["node_modules"] }]);
+    expect(logs).toContain('[Workflow] Restored cache "deps-abc" (' + stored.get("cache:deps-abc")!.length + " bytes)");
+  });
+});
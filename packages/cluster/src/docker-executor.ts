@@ -1,31 +1,40 @@
-import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { writeFileSync, mkdirSync, rmSync, readdirSync, readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { execSync, spawn } from "node:child_process";
+import { parseOutputFile, type ExecutorStepSpec, type JobContainerSpec } from "./workflow-compiler.js";
+import { runBuiltinStep, saveCaches, type PendingCache } from "./workflow-storage.js";
+import type { JobExecutionResult } from "./workflow-runner.js";
 
 interface DockerWorkflowRequest {
     workflowId: string;
-    compiled: {
-        dockerfile: string;
-        entrypoint: string;
-        resources: {
-            cores: number;
-            memoryMB: number;
-        };
-        env: Record<string, string>;
-        timeout: number;
-    };
+    jobId?: string;
+    compiled: JobContainerSpec;
     repositoryUrl: string;
     branch?: string;
     env: Record<string, string>;
     serverUrl?: string; // Main server URL for log streaming
+    clusterToken?: string; // Shared secret the main server expects from clusters
+    signal?: AbortSignal; // Kills the container when the job is cancelled
 }
 
 interface WorkflowResult {
-    status: "success" | "failed" | "timeout";
+    status: "success" | "failed" | "timeout" | "cancelled";
     exitCode?: number;
     output: string;
     duration: number;
+    /** Outputs written to $GITTIC_OUTPUT, keyed by step id */
+    stepOutputs: Record<string, Record<string, string>>;
+}
+
+/**
+ * Headers for a JSON request to the main server's cluster endpoints
+ */
+function serverHeaders(clusterToken: string | undefined): Record<string, string> {
+    return {
+        "Content-Type": "application/json",
+        ...(clusterToken ? { Authorization: `Bearer ${clusterToken}` } : {}),
+    };
 }
 
 /**
@@ -33,7 +42,9 @@ interface WorkflowResult {
  */
 async function streamLogToServer(
     serverUrl: string,
+    clusterToken: string | undefined,
     workflowId: string,
+    jobId: string | undefined,
     log: string,
     level: "info" | "error" = "info"
 ): Promise<void> {
@@ -42,8 +53,8 @@ async function streamLogToServer(
     try {
         await fetch(`${serverUrl}/api/v1/workflows/logs`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ workflowId, log, level, timestamp: new Date().toISOString() }),
+            headers: serverHeaders(clusterToken),
+            body: JSON.stringify({ workflowId, jobId, log, level, timestamp: new Date().toISOString() }),
         });
     } catch (error) {
         // Silently fail log streaming - don't interrupt workflow
@@ -52,27 +63,59 @@ async function streamLogToServer(
 }
 
 /**
- * Execute a compiled workflow in Docker container
+ * Send the result of a finished job to main server
+ */
+export async function reportJobResultToServer(
+    serverUrl: string,
+    clusterToken: string | undefined,
+    workflowId: string,
+    jobId: string,
+    result: JobExecutionResult
+): Promise<void> {
+    try {
+        await fetch(`${serverUrl}/api/v1/workflows/status`, {
+            method: "POST",
+            headers: serverHeaders(clusterToken),
+            body: JSON.stringify({ workflowId, jobId, ...result }),
+        });
+    } catch (error) {
+        console.error(`[Stream] Failed to report status:`, error);
+    }
+}
+
+/**
+ * Read the output files the job's steps wrote
+ */
+function readStepOutputs(outputDir: string): Record<string, Record<string, string>> {
+    if (!existsSync(outputDir)) return {};
+    return Object.fromEntries(
+        readdirSync(outputDir).map((file) => [file, parseOutputFile(readFileSync(join(outputDir, file), "utf8"))])
+    );
+}
+
+/**
+ * Execute one compiled workflow job in a Docker container
  */
 export async function executeDockerWorkflow(
     request: DockerWorkflowRequest
 ): Promise<WorkflowResult> {
     const startTime = Date.now();
-    const { workflowId, compiled, repositoryUrl, branch = "main", env, serverUrl } = request;
+    const { workflowId, jobId, compiled, repositoryUrl, branch = "main", env, serverUrl, clusterToken, signal } = request;
+    const executionId = jobId ? `${workflowId}-${jobId}` : workflowId;
 
     const log = async (msg: string, level: "info" | "error" = "info") => {
         console.log(msg);
         if (serverUrl) {
-            await streamLogToServer(serverUrl, workflowId, msg, level);
+            await streamLogToServer(serverUrl, clusterToken, workflowId, jobId, msg, level);
         }
     };
 
-    await log(`[Docker] Starting workflow ${workflowId}`);
+    await log(`[Docker] Starting ${jobId ? `job ${jobId} of ` : ""}workflow ${workflowId}`);
     await log(`[Docker] Repository: ${repositoryUrl}`);
     await log(`[Docker] Resources: ${compiled.resources.cores} cores, ${compiled.resources.memoryMB}MB RAM`);
 
-    // Create working directory for this workflow
-    const workDir = join(tmpdir(), `gittic-workflow-${workflowId}`);
+    // Create working directory for this job
+    const workDir = join(tmpdir(), `gittic-workflow-${executionId}`);
 
     try {
         // Step 1: Create working directory
@@ -112,7 +155,7 @@ export async function executeDockerWorkflow(
         await log(`[Docker] Entrypoint script created at ${entrypointPath}`);
 
         // Step 5: Build Docker image using execSync
-        const imageName = `gittic-workflow-${workflowId}`.toLowerCase();
+        const imageName = `gittic-workflow-${executionId}`.toLowerCase();
         await log(`[Docker] Building image: ${imageName}`);
 
         try {
@@ -133,78 +176,120 @@ export async function executeDockerWorkflow(
             throw new Error(`Docker build failed: ${error.message}`);
         }
 
-        // Step 6: Run Docker container with resource limits using spawn for real-time streaming
+        // Step 6: Run Docker container with resource limits using spawn for real-time streaming.
+        // The entrypoint runs once per phase, with the steps the executor runs itself in between
         await log(`[Docker] Starting container with resource limits...`);
 
-        // Build environment variables for docker run
-        const envVars = Object.entries({ ...compiled.env, ...env })
-            .map(([key, value]) => `-e ${key}="${value}"`)
-            .join(" ");
-
-        // Docker run command with resource limits
-        const dockerRunCmd = `docker run --rm \
-      --cpus=${compiled.resources.cores} \
-      --memory=${compiled.resources.memoryMB}m \
-      -v ${repoDir}:/workspace \
-      ${envVars} \
-      ${imageName}`;
+        // Values are handed to docker through its own environment, so
+        // secrets stay off the command line
+        const runEnv = { ...compiled.env, ...env };
+        const limits = [
+            "--cpus", String(compiled.resources.cores),
+            "--memory", `${compiled.resources.memoryMB}m`,
+            "-v", `${repoDir}:/workspace`,
+        ];
 
         let output = "";
-        let exitCode = 0;
+        const deadline = Date.now() + compiled.timeout * 1000;
 
-        // Use spawn for real-time output streaming
-        const dockerProcess = spawn('sh', ['-c', dockerRunCmd], {
-            cwd: repoDir,
-        });
+        const runContainer = (args: string[], containerEnv: Record<string, string>) => new Promise<number>((resolve, reject) => {
+            const envArgs = Object.keys(containerEnv).flatMap((key) => ["-e", key]);
+            const dockerProcess = spawn('docker', ['run', '--rm', ...limits, ...envArgs, ...args], {
+                cwd: repoDir,
+                env: { ...process.env, ...containerEnv },
+            });
 
-        // Stream stdout
-        dockerProcess.stdout.on('data', async (data) => {
-            const text = data.toString();
-            output += text;
-            for (const line of text.split('\n').filter((l: string) => l.trim())) {
-                await log(`[Workflow] ${line}`);
-            }
-        });
+            // Leftover containers are removed during cleanup
+            const cancel = () => dockerProcess.kill('SIGKILL');
+            if (signal?.aborted) cancel();
+            signal?.addEventListener('abort', cancel, { once: true });
+
+            // Stream stdout
+            dockerProcess.stdout.on('data', async (data) => {
+                const text = data.toString();
+                output += text;
+                for (const line of text.split('\n').filter((l: string) => l.trim())) {
+                    await log(`[Workflow] ${line}`);
+                }
+            });
 
-        // Stream stderr
-        dockerProcess.stderr.on('data', async (data) => {
-            const text = data.toString();
-            output += text;
-            for (const line of text.split('\n').filter((l: string) => l.trim())) {
-                await log(`[Workflow Error] ${line}`, "error");
-            }
-        });
+            // Stream stderr
+            dockerProcess.stderr.on('data', async (data) => {
+                const text = data.toString();
+                output += text;
+                for (const line of text.split('\n').filter((l: string) => l.trim())) {
+                    await log(`[Workflow Error] ${line}`, "error");
+                }
+            });
 
-        // Wait for process with timeout
-        const timeoutMs = compiled.timeout * 1000;
+            // The job's timeout covers every container it runs
+            const timer = setTimeout(() => {
+                dockerProcess.kill('SIGKILL');
+                reject(new Error("Timeout"));
+            }, Math.max(deadline - Date.now(), 0));
 
-        const processPromise = new Promise<number>((resolve) => {
             dockerProcess.on('close', (code) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', cancel);
                 resolve(code || 0);
             });
         });
 
-        const timeoutPromise = new Promise<number>((_, reject) => {
-            setTimeout(() => {
-                dockerProcess.kill('SIGKILL');
-                reject(new Error("Timeout"));
-            }, timeoutMs);
-        });
+        const storage = { serverUrl, clusterToken, workflowId, jobId, workspace: repoDir, log };
+        const pendingCaches: PendingCache[] = [];
+
+        // Run a Docker action or built-in action step from the environment
+        // and arguments the entrypoint prepared, unless the step was skipped
+        const stepDir = join(repoDir, ".gittic", "step");
+        const runExecutorStep = async (step: ExecutorStepSpec) => {
+            if (!existsSync(join(stepDir, "env"))) return;
+            const [stepEnv, args] = ["env", "args"].map((file) =>
+                readFileSync(join(stepDir, file), "utf8").split("\0").slice(0, -1)
+            );
+            rmSync(stepDir, { recursive: true, force: true });
+            const values = Object.fromEntries(
+                stepEnv.map((entry) => [entry.slice(0, entry.indexOf("=")), entry.slice(entry.indexOf("=") + 1)])
+            );
+
+            const code = step.builtin
+                ? await runBuiltinStep(step.builtin, values, storage, pendingCaches)
+                : await runContainer([
+                    "--name", `${imageName}-step-${step.number}`,
+                    "-w", "/workspace",
+                    ...(step.entrypoint ? ["--entrypoint", step.entrypoint] : []),
+                    step.image ?? "",
+                    ...args,
+                ], values);
+
+            await log(`[Workflow] Step ${step.number}/${step.total} finished: ${code}`);
+            if (code !== 0) writeFileSync(join(repoDir, ".gittic", "status"), "failure\n");
+        };
 
+        let exitCode = 0;
         let result: WorkflowResult;
 
         try {
-            exitCode = await Promise.race([processPromise, timeoutPromise]);
+            for (let phase = 0; phase <= compiled.executorSteps.length; phase++) {
+                exitCode = await runContainer([imageName, String(phase)], runEnv);
+                const step = compiled.executorSteps[phase];
+                if (exitCode !== 0 || signal?.aborted || !step) break;
+                await runExecutorStep(step);
+                if (signal?.aborted) break;
+            }
+            if (exitCode === 0 && !signal?.aborted) await saveCaches(storage, pendingCaches);
             const duration = Date.now() - startTime;
 
             result = {
-                status: exitCode === 0 ? "success" : "failed",
+                status: signal?.aborted ? "cancelled" : exitCode === 0 ? "success" : "failed",
                 exitCode,
                 output,
                 duration,
+                stepOutputs: readStepOutputs(join(repoDir, ".gittic", "outputs")),
             };
 
-            await log(`[Docker] Workflow completed with exit code ${exitCode}`);
+            await log(signal?.aborted
+                ? `[Docker] Workflow cancelled`
+                : `[Docker] Workflow completed with exit code ${exitCode}`);
         } catch (err) {
             // Timeout
             await log(`[Docker] Workflow timed out after ${compiled.timeout}s`, "error");
@@ -213,6 +298,7 @@ export async function executeDockerWorkflow(
                 status: "timeout",
                 output,
                 duration: Date.now() - startTime,
+                stepOutputs: {},
             };
         }
 
@@ -230,6 +316,13 @@ export async function executeDockerWorkflow(
         } catch (err) {
             // No containers found - this is expected with --rm
         }
+        for (const step of compiled.executorSteps.filter((step) => step.image)) {
+            try {
+                execSync(`docker rm -f ${imageName}-step-${step.number}`, { stdio: 'pipe' });
+            } catch (err) {
+                // Removed by --rm
+            }
+        }
 
         // 7b. Remove Docker image
         await log(`[Docker] Removing Docker image: ${imageName}`);
@@ -279,7 +372,7 @@ export async function executeDockerWorkflow(
 
             // Remove any containers
             try {
-                const imageName = `gittic-workflow-${workflowId}`.toLowerCase();
+                const imageName = `gittic-workflow-${executionId}`.toLowerCase();
                 const containers = execSync(`docker ps -a --filter "ancestor=${imageName}" -q`, { stdio: 'pipe' }).toString().trim();
                 if (containers) {
                     execSync(`docker rm -f ${containers}`, { stdio: 'pipe' });
@@ -310,6 +403,7 @@ export async function executeDockerWorkflow(
             status: "failed",
             output: error.message,
             duration: Date.now() - startTime,
+            stepOutputs: {},
         };
     }
 }
@@ -107,7 +107,7 @@ export type {
   PriorityStats,
 } from "./jobs/job-priority.js";
 
-export { ArtifactStore } from "./jobs/artifact-store.js";
+export { ArtifactStore, DEFAULT_CLEANUP_POLICY } from "./jobs/artifact-store.js";
 export type {
   ArtifactMetadata,
   StoredArtifact,
@@ -229,6 +229,36 @@ export type {
   TelemetryBatch,
 } from "./monitoring/telemetry.js";
 
+// Workflows
+export {
+  compileWorkflow,
+  matchesFilterPatterns,
+  matchesWorkflowTrigger,
+  parseWorkflowTriggers,
+  secretEnvName,
+} from "./workflow-compiler.js";
+export type {
+  CompiledJob,
+  CompiledWorkflow,
+  JobContainerSpec,
+  JobEnvironment,
+  WorkflowTriggerEvent,
+} from "./workflow-compiler.js";
+
+export {
+  ACTION_MANIFEST_FILES,
+  listActionReferences,
+  parseActionReference,
+} from "./workflow-actions.js";
+
+export { runWorkflow } from "./workflow-runner.js";
+export type {
+  JobExecutionResult,
+  JobState,
+  JobStatus,
+  WorkflowRunState,
+} from "./workflow-runner.js";
+
 // Utilities
 export {
   ClusterError,
@@ -50,7 +50,7 @@ export interface CleanupPolicy {
 }
 
 /** Default cleanup policy */
-const DEFAULT_POLICY: CleanupPolicy = {
+export const DEFAULT_CLEANUP_POLICY: CleanupPolicy = {
   maxAgeMs: 7 * 24 * 60 * 60 * 1000, // 7 days
   maxTotalSizeBytes: 10 * 1024 * 1024 * 1024, // 10 GB
   maxPerJob: 50,
@@ -72,7 +72,7 @@ export class ArtifactStore {
    * @param policy - Partial cleanup policy (merged with defaults)
    */
   constructor(policy: Partial<CleanupPolicy> = {}) {
-    this.policy = { ...DEFAULT_POLICY, ...policy };
+    this.policy = { ...DEFAULT_CLEANUP_POLICY, ...policy };
   }
 
   /**
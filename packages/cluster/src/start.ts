@@ -5,8 +5,8 @@
  */
 
 import { ClusterAgent, createClusterConfig } from "./index.js";
-import { compileWorkflow } from "./workflow-compiler.js";
-import { executeDockerWorkflow } from "./docker-executor.js";
+import type { JobContainerSpec } from "./workflow-compiler.js";
+import { executeDockerWorkflow, reportJobResultToServer } from "./docker-executor.js";
 import express from "express";
 import dotenv from "dotenv";
 import os from "os";
@@ -57,11 +57,14 @@ app.get("/stats", (req, res) => {
   });
 });
 
+// Jobs running on this node, so the platform can cancel them
+const executions = new Map<string, AbortController>();
+
 app.post("/execute", async (req, res) => {
   try {
-    const { workflowId, yaml, userLimits, repositoryUrl, branch = "main", env = {} } = req.body;
+    const { workflowId, jobId, job, repositoryUrl, branch = "main", env = {} } = req.body;
 
-    if (!workflowId || !yaml || !userLimits) {
+    if (!workflowId || !jobId || !job) {
       return res.status(400).json({ success: false, error: "Missing required fields" });
     }
 
@@ -69,34 +72,68 @@ app.post("/execute", async (req, res) => {
       return res.status(503).json({ success: false, error: "Cluster at capacity" });
     }
 
-    const compiled = compileWorkflow(yaml, userLimits);
+    const spec = job as JobContainerSpec;
+    const executionKey = `${workflowId}:${jobId}`;
+    const controller = new AbortController();
+    executions.set(executionKey, controller);
     currentStats.activeJobs++;
-    currentStats.cpuUsage += compiled.resources.cores;
-    currentStats.memoryUsageGB += compiled.resources.memoryMB / 1024;
-
-    res.json({ success: true, message: "Workflow accepted", workflowId });
-
-    // Execute workflow with server URL for log streaming
-    executeDockerWorkflow({ 
-      workflowId, 
-      compiled, 
-      repositoryUrl, 
-      branch, 
+    currentStats.cpuUsage += spec.resources.cores;
+    currentStats.memoryUsageGB += spec.resources.memoryMB / 1024;
+
+    res.json({
+      success: true,
+      message: "Job accepted",
+      workflowId,
+      jobId,
+    });
+
+    // Run the job, streaming logs, then report its result to the platform
+    executeDockerWorkflow({
+      workflowId,
+      jobId,
+      compiled: spec,
+      repositoryUrl,
+      branch,
       env,
-      serverUrl: platformUrl // Pass platform URL for log streaming
+      serverUrl: platformUrl, // Pass platform URL for log streaming
+      clusterToken,
+      signal: controller.signal,
     })
-      .then((result) => console.log(`[Cluster] Workflow ${workflowId} completed: ${result.status}`))
-      .catch((error) => console.error(`[Cluster] Workflow ${workflowId} failed:`, error))
+      .then((result) => {
+        const error = result.status !== "failed"
+          ? undefined
+          : result.exitCode !== undefined ? `Process exited with code ${result.exitCode}` : result.output;
+        console.log(`[Cluster] Job ${jobId} of workflow ${workflowId} completed: ${result.status}`);
+        return reportJobResultToServer(platformUrl, clusterToken, workflowId, jobId, {
+          status: result.status,
+          stepOutputs: result.stepOutputs,
+          error,
+        });
+      })
+      .catch((error) => console.error(`[Cluster] Job ${jobId} of workflow ${workflowId} failed:`, error))
       .finally(() => {
+        executions.delete(executionKey);
         currentStats.activeJobs--;
-        currentStats.cpuUsage -= compiled.resources.cores;
-        currentStats.memoryUsageGB -= compiled.resources.memoryMB / 1024;
+        currentStats.cpuUsage -= spec.resources.cores;
+        currentStats.memoryUsageGB -= spec.resources.memoryMB / 1024;
       });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+app.post("/cancel", (req, res) => {
+  const { workflowId, jobId } = req.body;
+  const controller = executions.get(`${workflowId}:${jobId}`);
+
+  if (!controller) {
+    return res.status(404).json({ success: false, error: "Job not running" });
+  }
+
+  controller.abort();
+  res.json({ success: true, message: "Job cancelled" });
+});
+
 async function startCluster(): Promise<void> {
     if (!clusterToken) {
         console.error("❌ Error: CLUSTER_TOKEN environment variable is required");
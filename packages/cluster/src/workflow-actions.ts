@@ -0,0 +1,279 @@
+import YAML from "yaml";
+
+/**
+ * Workflow Actions
+ *
+ * Reusable steps a workflow runs with `uses:`, described by an
+ * `action.yml` in a repository. `owner/repo@ref` (or
+ * `owner/repo/path@ref`) names an action in another repository,
+ * `./path` one in the workflow's own repository at the commit being
+ * run. Composite actions run a list of steps in the job's container;
+ * Docker actions run a prebuilt image against the job's workspace.
+ *
+ * A few actions are built in and performed by the executor itself:
+ * `gittic/upload-artifact@v1` and `gittic/download-artifact@v1` share
+ * files between the jobs of a run, `gittic/cache@v1` restores a
+ * dependency cache and saves it once the job succeeds.
+ */
+
+export type ActionReference =
+    | { kind: "local"; path: string }
+    | { kind: "repository"; owner: string; repo: string; path: string; ref: string };
+
+export interface ActionInput {
+    description?: string;
+    required?: boolean;
+    default?: string;
+}
+
+export interface ActionOutput {
+    description?: string;
+    /** Template the output is read from, e.g. `${{ steps.<id>.outputs.<name> }}` */
+    value?: string;
+}
+
+/** A step of a composite action; composite steps always `run:` */
+export interface CompositeActionStep {
+    id?: string;
+    name?: string;
+    if?: string;
+    run: string;
+    env?: Record<string, string>;
+}
+
+/** Actions the executor performs itself */
+export type BuiltinAction = "upload-artifact" | "download-artifact" | "cache";
+
+export type ActionRuns =
+    | { using: "composite"; steps: CompositeActionStep[] }
+    | { using: "docker"; image: string; entrypoint?: string; args: string[]; env: Record<string, string> }
+    | { using: "builtin"; action: BuiltinAction };
+
+export interface ActionManifest {
+    name: string;
+    description?: string;
+    inputs: Record<string, ActionInput>;
+    outputs: Record<string, ActionOutput>;
+    runs: ActionRuns;
+}
+
+/** Manifest files an action directory may hold, in the order they are tried */
+export const ACTION_MANIFEST_FILES = ["action.yml", "action.yaml"];
+
+const BUILTIN_ACTIONS: Record<BuiltinAction, Omit<ActionManifest, "runs">> = {
+    "upload-artifact": {
+        name: "Upload artifact",
+        inputs: {
+            name: { description: "Name of the artifact", default: "artifact" },
+            path: { description: "Files and directories to upload, one per line, relative to the workspace", required: true },
+            "retention-days": { description: "Days to keep the artifact; the repository's default when empty", default: "" },
+        },
+        outputs: {},
+    },
+    "download-artifact": {
+        name: "Download artifact",
+        inputs: {
+            name: { description: "Name of an artifact uploaded earlier in the run", required: true },
+            path: { description: "Directory to extract it to, relative to the workspace", default: "." },
+        },
+        outputs: {},
+    },
+    cache: {
+        name: "Cache",
+        inputs: {
+            key: { description: "Key the cache is saved under", required: true },
+            path: { description: "Files and directories to cache, one per line, relative to the workspace", required: true },
+            "restore-keys": { description: "Key prefixes to restore from when the key has no cache, one per line", default: "" },
+        },
+        outputs: {
+            "cache-hit": { description: "Whether a cache was restored from the exact key" },
+        },
+    },
+};
+
+/**
+ * The manifest of a built-in action, or null if `uses` names none
+ */
+export function builtinAction(uses: string): ActionManifest | null {
+    const match = /^gittic\/([a-z-]+)@v1$/.exec(uses);
+    if (!match || !Object.hasOwn(BUILTIN_ACTIONS, match[1])) return null;
+    const action = match[1] as BuiltinAction;
+    return { ...BUILTIN_ACTIONS[action], runs: { using: "builtin", action } };
+}
+
+const SEGMENT = /^[A-Za-z0-9_.-]+$/;
+
+function checkPath(uses: string, path: string): string {
+    const segments = path.split("/").filter((segment) => segment !== "" && segment !== ".");
+    if (segments.some((segment) => segment === ".." || !SEGMENT.test(segment))) {
+        throw new Error(`Invalid action path in "${uses}"`);
+    }
+    return segments.join("/");
+}
+
+/**
+ * Parse a `uses:` value
+ */
+export function parseActionReference(uses: string): ActionReference {
+    if (uses.startsWith("./")) {
+        return { kind: "local", path: checkPath(uses, uses.slice(2)) };
+    }
+    if (uses.startsWith("docker://")) {
+        throw new Error(`"${uses}" runs an image directly, which is not supported; wrap it in a Docker action`);
+    }
+
+    const at = uses.lastIndexOf("@");
+    const ref = at === -1 ? "" : uses.slice(at + 1);
+    const [owner, repo, ...path] = (at === -1 ? uses : uses.slice(0, at)).split("/");
+    if (!ref || !owner || !repo) {
+        throw new Error(`Invalid action "${uses}", expected "owner/repo@ref", "owner/repo/path@ref" or "./path"`);
+    }
+    if (!SEGMENT.test(owner) || !SEGMENT.test(repo) || !/^[A-Za-z0-9_./-]+$/.test(ref) || ref.startsWith("-")) {
+        throw new Error(`Invalid action "${uses}"`);
+    }
+    return { kind: "repository", owner, repo, path: checkPath(uses, path.join("/")), ref };
+}
+
+/**
+ * Every `uses:` value of a workflow other than built-in actions, so they
+ * can be resolved before it is compiled
+ */
+export function listActionReferences(yamlContent: string): string[] {
+    const workflow = YAML.parse(yamlContent) as { jobs?: Record<string, { steps?: Array<{ uses?: unknown }> }> } | null;
+    const uses = Object.values(workflow?.jobs ?? {}).flatMap((job) =>
+        (Array.isArray(job?.steps) ? job.steps : []).flatMap((step) => (typeof step?.uses === "string" ? [step.uses] : []))
+    );
+    return [...new Set(uses)].filter((value) => !builtinAction(value));
+}
+
+/** A manifest as written, before the structure of its fields is checked */
+type ActionManifestYAML = { [K in keyof ActionManifest]?: unknown };
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isActionManifestYAML(value: unknown): value is ActionManifestYAML {
+    return isMapping(value);
+}
+
+function toMapping(value: unknown, what: string): Record<string, unknown> {
+    if (value === undefined || value === null) return {};
+    if (!isMapping(value)) throw new Error(`${what} must be a mapping`);
+    return value;
+}
+
+function toStringRecord(value: unknown, what: string): Record<string, string> {
+    return Object.fromEntries(Object.entries(toMapping(value, what)).map(([key, item]) => [key, String(item)]));
+}
+
+function optionalString(value: unknown): string | undefined {
+    return value === undefined ? undefined : String(value);
+}
+
+function parseCompositeStep(uses: string, step: unknown, index: number): CompositeActionStep {
+    if (!isMapping(step) || typeof step.run !== "string") {
+        throw new Error(`Step ${index + 1} of composite action "${uses}" must have a run: command`);
+    }
+    return {
+        id: optionalString(step.id),
+        name: optionalString(step.name),
+        if: optionalString(step.if),
+        run: step.run,
+        env: toStringRecord(step.env, `env of step ${index + 1} of action "${uses}"`),
+    };
+}
+
+/**
+ * Parse and check the structure of an action's manifest. The
+ * expressions it contains are checked by the compiler.
+ */
+export function parseActionManifest(uses: string, content: string): ActionManifest {
+    let manifest: unknown;
+    try {
+        manifest = YAML.parse(content);
+    } catch (err) {
+        throw new Error(`Action "${uses}" has an invalid manifest: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!isActionManifestYAML(manifest)) throw new Error(`Action "${uses}" has an empty manifest`);
+
+    const inputs: Record<string, ActionInput> = {};
+    for (const [name, value] of Object.entries(toMapping(manifest.inputs, `inputs of action "${uses}"`))) {
+        if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(name)) throw new Error(`Action "${uses}" has an invalid input name "${name}"`);
+        const input = isMapping(value) ? value : {};
+        inputs[name] = {
+            description: optionalString(input.description),
+            required: input.required === true || input.required === "true",
+            default: optionalString(input.default),
+        };
+    }
+
+    const outputs: Record<string, ActionOutput> = {};
+    for (const [name, value] of Object.entries(toMapping(manifest.outputs, `outputs of action "${uses}"`))) {
+        const output = isMapping(value) ? value : {};
+        outputs[name] = { description: optionalString(output.description), value: optionalString(output.value) };
+    }
+
+    const runs = isMapping(manifest.runs) ? manifest.runs : {};
+    let parsedRuns: ActionRuns;
+    switch (runs.using) {
+        case "composite": {
+            if (!Array.isArray(runs.steps) || runs.steps.length === 0) {
+                throw new Error(`Composite action "${uses}" must have at least one step`);
+            }
+            parsedRuns = {
+                using: "composite",
+                steps: runs.steps.map((step: unknown, index) => parseCompositeStep(uses, step, index)),
+            };
+            break;
+        }
+        case "docker": {
+            const image = String(runs.image ?? "");
+            if (!image.startsWith("docker://") || /\s/.test(image) || image.length <= "docker://".length) {
+                throw new Error(`Docker action "${uses}" must name a prebuilt image as "docker://<image>"; building a Dockerfile is not supported`);
+            }
+            if (runs.args !== undefined && !Array.isArray(runs.args)) {
+                throw new Error(`args of Docker action "${uses}" must be a list`);
+            }
+            parsedRuns = {
+                using: "docker",
+                image: image.slice("docker://".length),
+                entrypoint: optionalString(runs.entrypoint),
+                args: (runs.args ?? []).map(String),
+                env: toStringRecord(runs.env, `env of Docker action "${uses}"`),
+            };
+            break;
+        }
+        default:
+            throw new Error(`Action "${uses}" must set runs.using to "composite" or "docker"`);
+    }
+
+    return {
+        name: manifest.name ? String(manifest.name) : uses,
+        description: optionalString(manifest.description),
+        inputs,
+        outputs,
+        runs: parsedRuns,
+    };
+}
+
+/**
+ * Environment variable an action input is passed in, e.g. INPUT_NODE_VERSION
+ */
+export function inputEnvName(name: string): string {
+    return `INPUT_${name.toUpperCase().replace(/[^A-Z0-9_]/g, "_")}`;
+}
+
+/**
+ * Split a multi-line `path` input into workspace-relative paths. Throws
+ * for paths that leave the workspace.
+ */
+export function parseWorkspacePaths(input: string): string[] {
+    const paths = input.split("\n").map((line) => line.trim()).filter(Boolean);
+    for (const path of paths) {
+        if (path.startsWith("/") || path.split("/").includes("..")) {
+            throw new Error(`"${path}" is outside the workspace; paths must be relative to it`);
+        }
+    }
+    return paths;
+}
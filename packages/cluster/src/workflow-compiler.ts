@@ -1,4 +1,30 @@
 import YAML from "yaml";
+import {
+    builtinAction,
+    inputEnvName,
+    parseActionManifest,
+    type ActionManifest,
+    type BuiltinAction,
+} from "./workflow-actions.js";
+import {
+    ExpressionError,
+    checkExpression,
+    evaluate,
+    evaluateCondition,
+    evaluateTemplate,
+    parseStatusCondition,
+    parseTemplate,
+    referencePath,
+    toBoolean,
+    toText,
+    usesContext,
+    walkExpression,
+    type EvaluationScope,
+    type ExpressionNode,
+    type ExpressionValue,
+    type StatusFunctions,
+    type TemplatePart,
+} from "./workflow-expressions.js";
 
 /**
  * Workflow YAML Compiler
@@ -46,12 +72,135 @@ export function parseWorkflowTriggers(on: WorkflowYAML["on"]): {
     return result;
 }
 
+/**
+ * Something that happened in a repository that may start workflows
+ */
+export interface WorkflowTriggerEvent {
+    /** "push", "pull_request" or "tag" */
+    name: string;
+    /** Branch pushed to, base branch of the pull request, or tag name */
+    ref: string;
+    /** Pull request activity, e.g. "opened" or "synchronize" */
+    action?: string;
+    /** Files the event changed; path filters are not applied when unknown */
+    changedFiles?: string[];
+}
+
+/** Filters supported under an event in `on:` */
+interface TriggerFilters {
+    branches?: string | string[];
+    "branches-ignore"?: string | string[];
+    tags?: string | string[];
+    "tags-ignore"?: string | string[];
+    paths?: string | string[];
+    "paths-ignore"?: string | string[];
+    types?: string | string[];
+}
+
+/** Pull request activity that runs workflows when `types` is not given */
+const DEFAULT_PULL_REQUEST_TYPES = ["opened", "synchronize", "reopened"];
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+/**
+ * Convert a filter pattern to a regular expression: `*` matches within
+ * one path segment, `**` across segments and `?` one character.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*") {
+            source += ".*";
+            i++;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a value is selected by a pattern list. Patterns apply in
+ * order and a leading `!` excludes what earlier patterns included.
+ */
+export function matchesFilterPatterns(value: string, patterns: string[]): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith("!");
+        if (globToRegExp(negated ? pattern.slice(1) : pattern).test(value)) {
+            matched = !negated;
+        }
+    }
+    return matched;
+}
+
+function passesRefFilters(ref: string, include: string[] | undefined, ignore: string[] | undefined): boolean {
+    if (include) return matchesFilterPatterns(ref, include);
+    if (ignore) return !matchesFilterPatterns(ref, ignore);
+    return true;
+}
+
+function passesPathFilters(changedFiles: string[] | undefined, filters: TriggerFilters): boolean {
+    const paths = toList(filters.paths);
+    const ignored = toList(filters["paths-ignore"]);
+    if (!changedFiles || (!paths && !ignored)) return true;
+
+    if (paths) return changedFiles.some((file) => matchesFilterPatterns(file, paths));
+    return changedFiles.some((file) => !matchesFilterPatterns(file, ignored!));
+}
+
+/**
+ * Decide whether a workflow's `on:` section starts a run for an event.
+ * Under `push` and `pull_request`, `branches`/`branches-ignore` and
+ * `paths`/`paths-ignore` apply (the base branch, for pull requests);
+ * under `tag`, `tags`/`tags-ignore` do. Pull requests also honour
+ * `types`.
+ */
+export function matchesWorkflowTrigger(on: WorkflowYAML["on"], event: WorkflowTriggerEvent): boolean {
+    if (!on) return false;
+    if (typeof on === "string" || Array.isArray(on)) {
+        const events = toList(on)!;
+        return events.includes(event.name) &&
+            (event.name !== "pull_request" || DEFAULT_PULL_REQUEST_TYPES.includes(event.action ?? ""));
+    }
+    if (!(event.name in on)) return false;
+
+    const filters: TriggerFilters = on[event.name] ?? {};
+    switch (event.name) {
+        case "tag":
+            return passesRefFilters(event.ref, toList(filters.tags), toList(filters["tags-ignore"]));
+        case "pull_request": {
+            const types = toList(filters.types) ?? DEFAULT_PULL_REQUEST_TYPES;
+            if (!types.includes(event.action ?? "")) return false;
+            break;
+        }
+    }
+
+    return passesRefFilters(event.ref, toList(filters.branches), toList(filters["branches-ignore"])) &&
+        passesPathFilters(event.changedFiles, filters);
+}
+
 interface WorkflowJob {
+    name?: string;
+    /** Condition the job runs under, `success()` when not given */
+    if?: string;
     "runs-on": string;
     image?: string;
     env?: Record<string, string>;
     steps: WorkflowStep[];
     needs?: string | string[];
+    outputs?: Record<string, string>;
+    strategy?: WorkflowStrategy;
+    /** Deployment environment, by name or as `{ name, url }` */
+    environment?: string | { name: string; url?: string };
     timeout?: number;
     resources?: {
         cores?: number;
@@ -59,13 +208,101 @@ interface WorkflowJob {
     };
 }
 
-interface WorkflowStep {
+export type MatrixValue = string | number | boolean;
+
+/** One set of matrix values, e.g. `{ node: 18, os: "ubuntu-latest" }` */
+export type MatrixCombination = Record<string, MatrixValue>;
+
+/**
+ * Matrix vectors plus `include`/`exclude` rules, e.g.
+ * `{ node: [18, 20], os: [...], exclude: [{ node: 18, os: ... }] }`
+ */
+export interface WorkflowMatrix {
+    include?: MatrixCombination[];
+    exclude?: MatrixCombination[];
+    [key: string]: MatrixValue[] | MatrixCombination[] | undefined;
+}
+
+interface WorkflowStrategy {
+    matrix?: WorkflowMatrix;
+    "fail-fast"?: boolean;
+    "max-parallel"?: number;
+}
+
+export interface WorkflowStep {
+    id?: string;
     name?: string;
+    /** Condition the step runs under, `success()` when not given */
+    if?: string;
     run?: string;
+    /** Action the step runs instead of `run`, e.g. "acme/setup-node@v2" or "./actions/build" */
+    uses?: string;
+    /** Inputs of the action */
+    with?: Record<string, string>;
     env?: Record<string, string>;
 }
 
-interface CompiledWorkflow {
+/** Deployment environment a job deploys to */
+export interface JobEnvironment {
+    name: string;
+    /** Where the deployment can be reached */
+    url?: string;
+}
+
+/** A step of a compiled job, with the action it uses resolved */
+export interface CompiledStep extends WorkflowStep {
+    action?: ActionManifest;
+}
+
+/**
+ * A job ready to be scheduled. Its `${{ }}` expressions have been
+ * checked but not evaluated; `renderJob` evaluates them once the jobs
+ * it needs have finished.
+ */
+export interface CompiledJob {
+    id: string;
+    name: string;
+    /**
+     * Key of the job in the workflow file. Matrix combinations of a job
+     * share it; other jobs use their id.
+     */
+    group: string;
+    /** Matrix values of this combination, as strings */
+    matrix?: Record<string, string>;
+    /** Job keys this job needs; a matrix job is done when all its combinations are */
+    needs: string[];
+    /** Condition the job runs under, `success()` when not given */
+    if?: string;
+    image: string;
+    steps: CompiledStep[];
+    env: Record<string, string>;
+    /** Output name -> template, e.g. `${{ steps.<id>.outputs.<name> }}` */
+    outputs: Record<string, string>;
+    resources: {
+        cores: number;
+        memoryMB: number;
+    };
+    timeout: number;
+    /** Environment the job deploys to; its protection rules gate the job */
+    environment?: JobEnvironment;
+    strategy: {
+        /** Cancel the other combinations once one fails */
+        failFast: boolean;
+        /** Most combinations of the job running at once */
+        maxParallel?: number;
+    };
+}
+
+export interface CompiledWorkflow {
+    name: string;
+    /** Jobs in an order where every job comes after the jobs it needs */
+    jobs: CompiledJob[];
+}
+
+/**
+ * Everything the Docker executor needs to run one job
+ */
+export interface JobContainerSpec {
     dockerfile: string;
     entrypoint: string;
     resources: {
@@ -73,9 +310,97 @@ interface CompiledWorkflow {
         memoryMB: number;
     };
     env: Record<string, string>;
+    /**
+     * Secrets the job references. The executor must provide each one at
+     * run time as the environment variable `secretEnvName(name)`.
+     */
+    secrets: string[];
+    /** Steps the executor runs itself, in order */
+    executorSteps: ExecutorStepSpec[];
     timeout: number;
 }
 
+/**
+ * A step the executor runs itself: a Docker action's image, or a
+ * built-in action. With such steps the entrypoint runs in phases, passed
+ * as its first argument: phase `n` ends by writing the environment and
+ * arguments of `executorSteps[n]` to `EXECUTOR_STEP_DIR` (NUL-separated
+ * `env` and `args` files), unless the step is skipped. The executor then
+ * runs the step with them and reports it, before starting phase `n + 1`.
+ */
+export interface ExecutorStepSpec {
+    /** Step number, counting from 1 */
+    number: number;
+    /** Number of steps in the job */
+    total: number;
+    /** Image of a Docker action */
+    image?: string;
+    entrypoint?: string;
+    /** Built-in action, given its inputs as `INPUT_*` variables */
+    builtin?: BuiltinAction;
+}
+
+/** Options for compiling a workflow */
+export interface CompileOptions {
+    /** `action.yml` content of every action the workflow uses, keyed by the `uses:` value */
+    actions?: Record<string, string>;
+}
+
+/**
+ * Values a job's `${{ }}` expressions read besides the results of the
+ * jobs it needs
+ */
+export interface JobContext {
+    /** Repository variables, exposed as `vars.<name>` */
+    vars?: Record<string, string>;
+    /** Facts about the run, exposed as both `github.<name>` and `gittic.<name>` */
+    github?: Record<string, ExpressionValue>;
+}
+
+/** What a job sees of a job it needs, as `needs.<job>` */
+export interface JobNeed {
+    result: "success" | "failure" | "skipped" | "cancelled";
+    outputs: Record<string, string>;
+}
+
+/** Directory inside the container that step outputs are written to */
+export const STEP_OUTPUT_DIR = "/workspace/.gittic/outputs";
+
+/** Directory the steps inside composite actions write their outputs to */
+const ACTION_OUTPUT_DIR = "/workspace/.gittic/actions";
+
+/** Directory an executor step's environment and arguments are written to */
+export const EXECUTOR_STEP_DIR = "/workspace/.gittic/step";
+
+/** File the job's status is kept in between entrypoint phases */
+export const JOB_STATUS_FILE = "/workspace/.gittic/status";
+
+/** Secret and environment variable names */
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Contexts each part of a job may read. Secrets and step outputs live
+// inside the container, so they are only readable where the value ends
+// up in the job's shell, and only as a whole expression.
+const NAME_CONTEXTS = ["matrix"];
+const JOB_IF_CONTEXTS = ["github", "gittic", "vars", "needs", "matrix"];
+const JOB_ENV_CONTEXTS = [...JOB_IF_CONTEXTS, "secrets"];
+const STEP_IF_CONTEXTS = [...JOB_IF_CONTEXTS, "env"];
+const STEP_CONTEXTS = [...STEP_IF_CONTEXTS, "secrets", "steps"];
+const OUTPUT_CONTEXTS = [...STEP_IF_CONTEXTS, "steps"];
+const ACTION_IF_CONTEXTS = ["github", "gittic", "env", "inputs"];
+const ACTION_CONTEXTS = [...ACTION_IF_CONTEXTS, "steps"];
+
+/**
+ * Environment variable a secret is passed to the container in. Secret
+ * names are case-insensitive.
+ */
+export function secretEnvName(name: string): string {
+    return `GITTIC_SECRET_${name.toUpperCase()}`;
+}
+
+/** Same limit GitHub Actions applies */
+const MAX_MATRIX_COMBINATIONS = 256;
+
 /**
  * Parse memory string to MB
  */
@@ -92,12 +417,360 @@ function parseMemory(memory: string): number {
     return value;
 }
 
+function normalizeNeeds(needs: WorkflowJob["needs"]): string[] {
+    if (!needs) return [];
+    return Array.isArray(needs) ? needs : [needs];
+}
+
+/**
+ * Order jobs so that each job follows the jobs it needs, keeping the
+ * order they were declared in where possible. Throws on unknown
+ * dependencies and on cycles.
+ */
+function orderJobs(jobs: Record<string, WorkflowJob>): string[] {
+    const ids = Object.keys(jobs);
+    const remaining = new Map<string, Set<string>>();
+
+    for (const id of ids) {
+        const needs = normalizeNeeds(jobs[id].needs);
+        for (const need of needs) {
+            if (!(need in jobs)) {
+                throw new Error(`Job "${id}" needs unknown job "${need}"`);
+            }
+            if (need === id) {
+                throw new Error(`Job "${id}" cannot need itself`);
+            }
+        }
+        remaining.set(id, new Set(needs));
+    }
+
+    const ordered: string[] = [];
+    while (remaining.size > 0) {
+        const ready = ids.filter((id) => remaining.get(id)?.size === 0);
+        if (ready.length === 0) {
+            throw new Error(`Job dependency cycle: ${describeCycle(remaining)}`);
+        }
+        for (const id of ready) {
+            remaining.delete(id);
+            ordered.push(id);
+            for (const needs of remaining.values()) needs.delete(id);
+        }
+    }
+
+    return ordered;
+}
+
+/**
+ * Follow unresolved dependencies until a job repeats, e.g. "a -> b -> a".
+ */
+function describeCycle(remaining: Map<string, Set<string>>): string {
+    const path: string[] = [];
+    let current = remaining.keys().next().value as string;
+    while (!path.includes(current)) {
+        path.push(current);
+        current = remaining.get(current)!.values().next().value as string;
+    }
+    return [...path.slice(path.indexOf(current)), current].join(" -> ");
+}
+
+function matchesCombination(combination: MatrixCombination, values: MatrixCombination, keys: string[]): boolean {
+    return keys.every((key) => key in combination && String(combination[key]) === String(values[key]));
+}
+
+/**
+ * Expand a job's matrix into its combinations. Vectors are multiplied
+ * out, `exclude` drops every combination matching all of a rule's
+ * values, then each `include` entry is merged into every combination
+ * whose original values it agrees with, or added as a combination of
+ * its own when it agrees with none.
+ */
+export function expandMatrix(jobId: string, matrix: WorkflowMatrix): MatrixCombination[] {
+    const { include = [], exclude = [], ...vectors } = matrix;
+    const keys = Object.keys(vectors);
+
+    for (const key of keys) {
+        const values = vectors[key];
+        if (!Array.isArray(values) || values.length === 0) {
+            throw new Error(`Matrix "${key}" of job "${jobId}" must be a non-empty list`);
+        }
+    }
+
+    const combinations = keys
+        .reduce<MatrixCombination[]>(
+            (partial, key) => partial.flatMap((combination) =>
+                (vectors[key] as MatrixValue[]).map((value) => ({ ...combination, [key]: value }))
+            ),
+            keys.length > 0 ? [{}] : []
+        )
+        .filter((combination) => !exclude.some((rule) => matchesCombination(combination, rule, Object.keys(rule))));
+
+    const expanded = combinations.map((combination) => ({ ...combination }));
+    for (const entry of include) {
+        const original = Object.keys(entry).filter((key) => keys.includes(key));
+        const extended = combinations.filter((combination) => matchesCombination(combination, entry, original));
+        if (extended.length === 0) {
+            expanded.push({ ...entry });
+            continue;
+        }
+        // Added values may be overwritten by later entries, original ones never are
+        for (const combination of extended) {
+            Object.assign(expanded[combinations.indexOf(combination)], entry, combination);
+        }
+    }
+
+    if (expanded.length === 0) {
+        throw new Error(`Matrix of job "${jobId}" has no combinations`);
+    }
+    if (expanded.length > MAX_MATRIX_COMBINATIONS) {
+        throw new Error(`Matrix of job "${jobId}" has ${expanded.length} combinations, the limit is ${MAX_MATRIX_COMBINATIONS}`);
+    }
+    return expanded;
+}
+
+/**
+ * Run a check or evaluation, prefixing expression errors with where in
+ * the workflow the expression is, e.g. "jobs.build.steps[1].run"
+ */
+function atLocation<T>(location: string, fn: () => T): T {
+    try {
+        return fn();
+    } catch (err) {
+        if (err instanceof ExpressionError) {
+            throw new ExpressionError(`Invalid expression in ${location}: ${err.message}`);
+        }
+        throw err;
+    }
+}
+
+/** What an expression may read, beyond the contexts of its location */
+interface ReferenceRules {
+    /** Jobs readable as `needs.<job>` */
+    needs: string[];
+    /** Steps readable as `steps.<id>` */
+    steps: string[];
+    /** Whether `secrets` and `steps` may only be read as a whole expression */
+    direct?: boolean;
+    /** Inputs readable as `inputs.<name>`, inside an action */
+    inputs?: string[];
+}
+
+/**
+ * Check that an expression only reads jobs the job needs and steps that
+ * have run, and reads secrets and step outputs the way its location allows
+ */
+function checkReferences(node: ExpressionNode, rules: ReferenceRules): void {
+    walkExpression(node, (child) => {
+        const path = referencePath(child);
+        if (!path || path.length < 2) return;
+        if (path[0] === "needs" && !rules.needs.includes(path[1])) {
+            throw new ExpressionError(`needs.${path[1]} is not available, "${path[1]}" is not listed in needs`);
+        }
+        if (path[0] === "steps" && !rules.steps.includes(path[1])) {
+            throw new ExpressionError(`steps.${path[1]} is not available, no earlier step has the id "${path[1]}"`);
+        }
+        if (path[0] === "inputs" && !rules.inputs?.includes(path[1])) {
+            throw new ExpressionError(`inputs.${path[1]} is not an input of the action`);
+        }
+    });
+
+    if (!rules.direct) return;
+    const path = referencePath(node);
+    if (usesContext(node, "secrets")) {
+        if (!path || path[0] !== "secrets" || path.length !== 2) {
+            throw new ExpressionError("secrets can only be used on their own, as ${{ secrets.NAME }}");
+        }
+        if (!NAME_PATTERN.test(path[1])) throw new ExpressionError(`Invalid secret name "${path[1]}"`);
+    }
+    if (usesContext(node, "steps") && (!path || path[0] !== "steps" || path.length !== 4 || path[2] !== "outputs")) {
+        throw new ExpressionError("steps can only be used on their own, as ${{ steps.<id>.outputs.<name> }}");
+    }
+}
+
+function checkTemplate(location: string, text: unknown, contexts: string[], rules: ReferenceRules): void {
+    atLocation(location, () => {
+        for (const part of parseTemplate(String(text))) {
+            if (typeof part === "string") continue;
+            checkExpression(part.node, contexts);
+            checkReferences(part.node, rules);
+        }
+    });
+}
+
+function checkCondition(location: string, condition: unknown, contexts: string[], rules: ReferenceRules): void {
+    atLocation(location, () => {
+        const node = parseStatusCondition(String(condition));
+        checkExpression(node, contexts, { statusFunctions: true });
+        checkReferences(node, rules);
+    });
+}
+
+function checkEnv(location: string, env: Record<string, unknown> | undefined, contexts: string[], rules: ReferenceRules): void {
+    for (const [key, value] of Object.entries(env ?? {})) {
+        if (!NAME_PATTERN.test(key)) throw new Error(`Invalid environment variable name "${key}" in ${location}`);
+        checkTemplate(`${location}.${key}`, value, contexts, rules);
+    }
+}
+
+/**
+ * Parse an action's manifest and check its expressions. Actions only
+ * see their inputs, the run's github context, the environment and the
+ * outputs of their own steps.
+ */
+function loadAction(uses: string, content: string): ActionManifest {
+    const action = parseActionManifest(uses, content);
+    const inputs = Object.keys(action.inputs);
+    const location = `action "${uses}"`;
+
+    for (const [name, input] of Object.entries(action.inputs)) {
+        checkTemplate(`${location} inputs.${name}.default`, input.default ?? "", ["github", "gittic", "env"], { needs: [], steps: [] });
+    }
+
+    if (action.runs.using === "docker") {
+        const rules = { needs: [], steps: [], direct: true, inputs };
+        action.runs.args.forEach((arg, index) => checkTemplate(`${location} runs.args[${index}]`, arg, ACTION_IF_CONTEXTS, rules));
+        checkEnv(`${location} runs.env`, action.runs.env, ACTION_IF_CONTEXTS, rules);
+        checkTemplate(`${location} runs.entrypoint`, action.runs.entrypoint ?? "", [], rules);
+        return action;
+    }
+    if (action.runs.using !== "composite") return action;
+
+    const stepKeys = action.runs.steps.map(stepOutputKey);
+    action.runs.steps.forEach((step, index) => {
+        const stepLocation = `${location} runs.steps[${index}]`;
+        const rules = { needs: [], steps: stepKeys.slice(0, index), direct: true, inputs };
+        checkTemplate(`${stepLocation}.name`, step.name ?? "", ACTION_IF_CONTEXTS, rules);
+        if (step.if !== undefined) checkCondition(`${stepLocation}.if`, step.if, ACTION_IF_CONTEXTS, rules);
+        checkEnv(`${stepLocation}.env`, step.env, ACTION_CONTEXTS, rules);
+        checkTemplate(`${stepLocation}.run`, step.run, ACTION_CONTEXTS, rules);
+    });
+    for (const [name, output] of Object.entries(action.outputs)) {
+        checkTemplate(`${location} outputs.${name}.value`, output.value ?? "", ACTION_CONTEXTS, {
+            needs: [],
+            steps: stepKeys,
+            direct: true,
+            inputs,
+        });
+    }
+    return action;
+}
+
+/**
+ * Check every expression of a job, so malformed ones fail the workflow
+ * before anything runs
+ */
+function checkJobExpressions(id: string, job: WorkflowJob, actions: Record<string, ActionManifest>): void {
+    const needs = normalizeNeeds(job.needs);
+    const location = `jobs.${id}`;
+    const stepKeys = job.steps.map(stepOutputKey);
+
+    checkTemplate(`${location}.name`, job.name ?? "", NAME_CONTEXTS, { needs: [], steps: [] });
+    checkTemplate(`${location}.image`, job.image ?? "", NAME_CONTEXTS, { needs: [], steps: [] });
+    if (job.environment !== undefined) {
+        const environment = typeof job.environment === "string" ? { name: job.environment } : job.environment;
+        if (typeof environment?.name !== "string" || !environment.name.trim()) {
+            throw new Error(`${location}.environment must be a name or { name, url }`);
+        }
+        checkTemplate(`${location}.environment.name`, environment.name, NAME_CONTEXTS, { needs: [], steps: [] });
+        checkTemplate(`${location}.environment.url`, environment.url ?? "", NAME_CONTEXTS, { needs: [], steps: [] });
+    }
+    if (job.if !== undefined) checkCondition(`${location}.if`, job.if, JOB_IF_CONTEXTS, { needs, steps: [] });
+    checkEnv(`${location}.env`, job.env, JOB_ENV_CONTEXTS, { needs, steps: [], direct: true });
+
+    job.steps.forEach((step, index) => {
+        const stepLocation = `${location}.steps[${index}]`;
+        const rules = { needs, steps: stepKeys.slice(0, index), direct: true };
+        checkTemplate(`${stepLocation}.name`, step.name ?? "", STEP_IF_CONTEXTS, rules);
+        if (step.if !== undefined) checkCondition(`${stepLocation}.if`, step.if, STEP_IF_CONTEXTS, rules);
+        checkEnv(`${stepLocation}.env`, step.env, STEP_CONTEXTS, rules);
+        checkTemplate(`${stepLocation}.run`, step.run ?? "", STEP_CONTEXTS, rules);
+
+        if (step.uses === undefined) {
+            if (step.with !== undefined) throw new Error(`${stepLocation} sets with: but uses no action`);
+            return;
+        }
+        if (step.run !== undefined) throw new Error(`${stepLocation} cannot both use an action and run a command`);
+
+        const action = actions[step.uses] ?? builtinAction(step.uses);
+        if (!action) throw new Error(`Action "${step.uses}" used by ${stepLocation} was not resolved`);
+        for (const [name, value] of Object.entries(step.with ?? {})) {
+            if (!(name in action.inputs)) throw new Error(`Action "${step.uses}" has no input "${name}" (${stepLocation})`);
+            checkTemplate(`${stepLocation}.with.${name}`, value, STEP_CONTEXTS, rules);
+        }
+        for (const [name, input] of Object.entries(action.inputs)) {
+            if (input.required && input.default === undefined && step.with?.[name] === undefined) {
+                throw new Error(`Action "${step.uses}" requires the input "${name}" (${stepLocation})`);
+            }
+        }
+    });
+
+    for (const [name, template] of Object.entries(job.outputs ?? {})) {
+        checkTemplate(`${location}.outputs.${name}`, template, OUTPUT_CONTEXTS, { needs, steps: stepKeys });
+    }
+}
+
+/**
+ * Expand a job into the jobs that get scheduled: itself, or one job
+ * per matrix combination named after its values, e.g. "test (18, ubuntu-latest)"
+ */
+function expandJob(
+    id: string,
+    job: WorkflowJob,
+    jobIds: string[]
+): Array<{ id: string; name: string; image: string; environment?: JobEnvironment; matrix?: Record<string, string> }> {
+    const evaluateName = (text: string, matrix: Record<string, ExpressionValue>, field: string) =>
+        atLocation(`jobs.${id}.${field}`, () => evaluateTemplate(text, { contexts: { matrix } }));
+    const resolveImage = (matrix: Record<string, ExpressionValue>) => {
+        const image = job.image ? evaluateName(job.image, matrix, "image") : "ubuntu:22.04";
+        if (!image || /\s/.test(image)) throw new Error(`Job "${id}" has an invalid image "${image}"`);
+        return image;
+    };
+    const resolveEnvironment = (matrix: Record<string, ExpressionValue>): JobEnvironment | undefined => {
+        if (job.environment === undefined) return undefined;
+        const declared = typeof job.environment === "string" ? { name: job.environment } : job.environment;
+        const name = evaluateName(declared.name, matrix, "environment.name").trim();
+        if (!name) throw new Error(`Job "${id}" has an empty environment name`);
+        const url = declared.url ? evaluateName(declared.url, matrix, "environment.url") : "";
+        return url ? { name, url } : { name };
+    };
+
+    if (!job.strategy?.matrix) {
+        return [{
+            id,
+            name: job.name ? evaluateName(job.name, {}, "name") : id,
+            image: resolveImage({}),
+            environment: resolveEnvironment({}),
+        }];
+    }
+
+    return expandMatrix(id, job.strategy.matrix).map((combination, index) => {
+        const combinationId = `${id}-${index + 1}`;
+        if (jobIds.includes(combinationId)) {
+            throw new Error(`Matrix job "${id}" expands to "${combinationId}", which is already a job`);
+        }
+
+        const values = Object.values(combination).map(String);
+        // A name that uses matrix values is kept as written
+        const name = job.name?.includes("${{")
+            ? evaluateName(job.name, combination, "name")
+            : `${job.name || id} (${values.join(", ")})`;
+
+        return {
+            id: combinationId,
+            name,
+            image: resolveImage(combination),
+            environment: resolveEnvironment(combination),
+            matrix: Object.fromEntries(Object.entries(combination).map(([key, value]) => [key, String(value)])),
+        };
+    });
+}
+
 /**
- * Compile workflow YAML to Docker execution
+ * Compile workflow YAML into a job graph
  */
 export function compileWorkflow(
     yamlContent: string,
-    userLimits: { cores: number; memoryGB: number }
+    userLimits: { cores: number; memoryGB: number },
+    options: CompileOptions = {}
 ): CompiledWorkflow {
     const workflow = YAML.parse(yamlContent) as WorkflowYAML;
 
@@ -106,13 +779,6 @@ export function compileWorkflow(
         throw new Error("Workflow must have at least one job");
     }
 
-    // For now, compile the first job (in production, handle job dependencies)
-    const jobName = Object.keys(workflow.jobs)[0];
-    const job = workflow.jobs[jobName];
-
-    // Determine base image
-    const baseImage = job.image || "ubuntu:22.04";
-
     // Resources are determined ONLY by user subscription tier
     // Users CANNOT specify cores/memory in YAML - it's ignored
     const allocatedCores = userLimits.cores;
@@ -120,40 +786,488 @@ export function compileWorkflow(
 
     console.log(`[Compiler] Using tier limits: ${allocatedCores} cores, ${userLimits.memoryGB}GB RAM`)
 
-    // Compile environment variables
-    const env: Record<string, string> = {
-        ...workflow.env,
-        ...job.env,
-        CI: "true",
-        GITTIC: "true",
-    };
+    checkEnv("env", workflow.env, JOB_ENV_CONTEXTS, { needs: [], steps: [], direct: true });
+    const actions = Object.fromEntries(
+        Object.entries(options.actions ?? {}).map(([uses, content]) => [uses, loadAction(uses, content)])
+    );
 
-    // Generate Dockerfile
-    const dockerfile = generateDockerfile(baseImage, job.steps, env);
+    const jobIds = Object.keys(workflow.jobs);
+    const jobs = orderJobs(workflow.jobs).flatMap((group) => {
+        const declared = workflow.jobs[group];
+        if (!Array.isArray(declared.steps) || declared.steps.length === 0) {
+            throw new Error(`Job "${group}" must have at least one step`);
+        }
+
+        const maxParallel = declared.strategy?.["max-parallel"];
+        if (maxParallel !== undefined && (!Number.isInteger(maxParallel) || maxParallel < 1)) {
+            throw new Error(`max-parallel of job "${group}" must be a positive integer`);
+        }
+
+        checkJobExpressions(group, declared, actions);
+
+        return expandJob(group, declared, jobIds).map(({ id, name, image, environment, matrix }): CompiledJob => ({
+            id,
+            name,
+            group,
+            matrix,
+            needs: normalizeNeeds(declared.needs),
+            if: declared.if === undefined ? undefined : String(declared.if),
+            image,
+            steps: declared.steps.map((step) =>
+                step.uses ? { ...step, action: actions[step.uses] ?? builtinAction(step.uses) ?? undefined } : step
+            ),
+            env: {
+                ...workflow.env,
+                ...declared.env,
+                CI: "true",
+                GITTIC: "true",
+                GITTIC_JOB: group,
+            },
+            outputs: declared.outputs ?? {},
+            resources: {
+                cores: allocatedCores,
+                memoryMB: allocatedMemoryMB,
+            },
+            timeout: declared.timeout || 3600, // 1 hour default
+            environment,
+            strategy: {
+                failFast: declared.strategy?.["fail-fast"] ?? true,
+                maxParallel,
+            },
+        }));
+    });
 
-    // Generate entrypoint script
-    const entrypoint = generateEntrypoint(job.steps);
+    return { name: workflow.name || "Workflow", jobs };
+}
 
+/**
+ * Contexts a job's expressions are evaluated against
+ */
+function jobScope(job: CompiledJob, needs: Record<string, JobNeed>, context: JobContext): EvaluationScope {
+    const github = context.github ?? {};
     return {
-        dockerfile,
-        entrypoint,
-        resources: {
-            cores: allocatedCores,
-            memoryMB: allocatedMemoryMB,
+        contexts: {
+            github,
+            gittic: github,
+            vars: context.vars ?? {},
+            matrix: job.matrix ?? {},
+            needs: Object.fromEntries(
+                job.needs.map((need): [string, ExpressionValue] => [
+                    need,
+                    needs[need] ? { result: needs[need].result, outputs: needs[need].outputs } : null,
+                ])
+            ),
         },
-        env,
-        timeout: job.timeout || 3600, // 1 hour default
     };
 }
 
 /**
- * Generate Dockerfile from job specification
+ * Evaluate a job's `if:` condition once the jobs it needs have finished
+ */
+export function shouldRunJob(
+    job: CompiledJob,
+    needs: Record<string, JobNeed>,
+    status: StatusFunctions,
+    context: JobContext = {}
+): boolean {
+    const scope = jobScope(job, needs, context);
+    return atLocation(`jobs.${job.group}.if`, () => evaluateCondition(job.if, { ...scope, status }));
+}
+
+/** How expressions are turned into bash at one place in a job */
+interface ShellScope extends EvaluationScope {
+    /** Directory `steps.<id>` reads output files from, STEP_OUTPUT_DIR if unset */
+    outputDir?: string;
+    /** Action inputs given a secret or step output, only known inside the container */
+    runtimeInputs?: Set<string>;
+}
+
+/**
+ * Inputs given a secret or step output can't be evaluated before the job
+ * starts, so like secrets and step outputs they can only be read on their own
+ */
+function checkRuntimeInputs(node: ExpressionNode, scope: ShellScope): void {
+    walkExpression(node, (child) => {
+        const path = referencePath(child);
+        if (path?.[0] === "inputs" && scope.runtimeInputs?.has(path[1])) {
+            throw new ExpressionError(`inputs.${path[1]} reads a secret or step output, so it can only be used on its own`);
+        }
+    });
+}
+
+/**
+ * Evaluate a template now, for text that can't read anything only known
+ * inside the container
+ */
+function evaluateParts(parts: TemplatePart[], scope: ShellScope): string {
+    return parts.map((part) => {
+        if (typeof part === "string") return part;
+        checkRuntimeInputs(part.node, scope);
+        return toText(evaluate(part.node, scope));
+    }).join("");
+}
+
+/**
+ * Quote text as a single bash word that is never expanded
+ */
+function shellQuote(text: string): string {
+    return `'${text.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Whether an expression reads something only known inside the container
+ */
+function readsInContainer(node: ExpressionNode, scope: ShellScope): boolean {
+    const path = referencePath(node);
+    if (path?.[0] === "inputs" && scope.runtimeInputs?.has(path[1])) return true;
+    return usesContext(node, "secrets") || usesContext(node, "steps");
+}
+
+/**
+ * Turn an expression into bash that produces its value. Secrets, step
+ * outputs and inputs given either only exist inside the container, so
+ * they read the variable they are passed in or the output file of the
+ * step; everything else is evaluated now and quoted.
+ */
+function shellValue(node: ExpressionNode, scope: ShellScope): string {
+    const path = referencePath(node);
+    if (path?.[0] === "secrets") return `"\${${secretEnvName(path[1])}}"`;
+    if (path?.[0] === "steps") {
+        const file = `${scope.outputDir ?? STEP_OUTPUT_DIR}/${path[1]}`;
+        return `"$(gittic_step_output ${shellQuote(file)} ${shellQuote(path[3])})"`;
+    }
+    if (path?.[0] === "inputs" && path.length === 2 && scope.runtimeInputs?.has(path[1])) {
+        return `"\${${inputEnvName(path[1])}}"`;
+    }
+    checkRuntimeInputs(node, scope);
+    return shellQuote(toText(evaluate(node, scope)));
+}
+
+function shellWord(parts: TemplatePart[], scope: ShellScope): string {
+    if (parts.length === 0) return "''";
+    return parts.map((part) => (typeof part === "string" ? shellQuote(part) : shellValue(part.node, scope))).join("");
+}
+
+/**
+ * Evaluate environment variables, splitting those that can be passed to
+ * the container as they are from those that read secrets or step
+ * outputs and have to be exported by the entrypoint
+ */
+function renderEnv(
+    env: Record<string, unknown> | undefined,
+    scope: ShellScope
+): { values: Record<string, string>; exports: Record<string, string> } {
+    const values: Record<string, string> = {};
+    const exports: Record<string, string> = {};
+    for (const [key, value] of Object.entries(env ?? {})) {
+        const parts = parseTemplate(String(value));
+        if (parts.some((part) => typeof part !== "string" && readsInContainer(part.node, scope))) {
+            exports[key] = shellWord(parts, scope);
+        } else {
+            values[key] = evaluateParts(parts, scope);
+        }
+    }
+    return { values, exports };
+}
+
+/**
+ * `export` lines for environment variables, given as bash words
+ */
+function exportLines(words: Record<string, string>): string[] {
+    return Object.entries(words).map(([key, word]) => `export ${key}=${word}`);
+}
+
+/**
+ * Names of the secrets a job references, upper-cased
+ */
+export function referencedSecrets(job: CompiledJob): string[] {
+    const texts = [
+        ...Object.values(job.env),
+        ...job.steps.flatMap((step) => [
+            step.run ?? "",
+            ...Object.values(step.env ?? {}),
+            ...Object.values(step.with ?? {}),
+        ]),
+    ];
+    const names = texts.flatMap((text) =>
+        parseTemplate(String(text)).flatMap((part) => {
+            const path = typeof part === "string" ? null : referencePath(part.node);
+            return path?.[0] === "secrets" ? [path[1].toUpperCase()] : [];
+        })
+    );
+    return [...new Set(names)];
+}
+
+/** When a step runs, given how the steps before it went */
+type StepCondition = "always" | "never" | "success" | "failure";
+
+/**
+ * Decide when a step runs. Everything a step condition reads is known
+ * before the job starts except the job's status, so the condition is
+ * evaluated for both outcomes of the steps before it.
+ */
+function stepCondition(condition: string | undefined, scope: ShellScope): StepCondition {
+    const node = parseStatusCondition(condition);
+    checkRuntimeInputs(node, scope);
+    const onSuccess = toBoolean(evaluate(node, { ...scope, status: { success: true, failure: false, cancelled: false } }));
+    const onFailure = toBoolean(evaluate(node, { ...scope, status: { success: false, failure: true, cancelled: false } }));
+    if (onSuccess && onFailure) return "always";
+    if (onSuccess) return "success";
+    return onFailure ? "failure" : "never";
+}
+
+/**
+ * Render the inputs of an action a step uses: the bash word each input's
+ * variable is exported as, the values known before the job starts for
+ * the action's `inputs` context, and the inputs only known inside the
+ * container
+ */
+function renderInputs(
+    action: ActionManifest,
+    given: Record<string, string>,
+    scope: ShellScope
+): { words: Record<string, string>; values: Record<string, string>; runtime: Set<string> } {
+    const words: Record<string, string> = {};
+    const values: Record<string, string> = {};
+    const runtime = new Set<string>();
+    const defaultScope: ShellScope = {
+        contexts: { github: scope.contexts.github, gittic: scope.contexts.gittic, env: scope.contexts.env },
+    };
+
+    for (const [name, input] of Object.entries(action.inputs)) {
+        const inputScope = name in given ? scope : defaultScope;
+        const parts = parseTemplate(given[name] ?? input.default ?? "");
+        words[inputEnvName(name)] = shellWord(parts, inputScope);
+        if (parts.some((part) => typeof part !== "string" && readsInContainer(part.node, inputScope))) {
+            runtime.add(name);
+        } else {
+            values[name] = evaluateParts(parts, inputScope);
+        }
+    }
+    return { words, values, runtime };
+}
+
+/** A step as the entrypoint runs it */
+interface RenderedStep {
+    name: string;
+    outputKey: string;
+    condition: StepCondition;
+    /** Bash run in the step's subshell, unset if the step has nothing to run */
+    script?: string[];
+    /** Step the executor runs once the step's script has prepared it */
+    executorStep?: ExecutorStepSpec;
+}
+
+/**
+ * Generate the Dockerfile and entrypoint for a job once the jobs it
+ * needs have finished.
+ *
+ * Values never become part of the script as code: an expression in a
+ * `run:` script is replaced by a variable the step exports before the
+ * script runs, a secret by the variable the secret is passed in.
+ */
+export function renderJob(
+    job: CompiledJob,
+    needs: Record<string, JobNeed> = {},
+    context: JobContext = {}
+): JobContainerSpec {
+    const location = `jobs.${job.group}`;
+    const scope: ShellScope = jobScope(job, needs, context);
+    const jobEnv = atLocation(`${location}.env`, () => renderEnv(job.env, scope));
+    scope.contexts.env = jobEnv.values;
+
+    let expressions = 0;
+    const runScript = (text: string, runScope: ShellScope, exports: string[]): string =>
+        parseTemplate(text).map((part) => {
+            if (typeof part === "string") return part;
+            const path = referencePath(part.node);
+            if (path?.[0] === "secrets") return `\${${secretEnvName(path[1])}}`;
+            const variable = `GITTIC_EXPR_${++expressions}`;
+            exports.push(`export ${variable}=${shellValue(part.node, runScope)}`);
+            return `\${${variable}}`;
+        }).join("");
+
+    const executorSteps: ExecutorStepSpec[] = [];
+    const steps = job.steps.map((step, index): RenderedStep => {
+        const stepLocation = `${location}.steps[${index}]`;
+        const stepEnv = atLocation(`${stepLocation}.env`, () => renderEnv(step.env, scope));
+        const stepScope: ShellScope = { contexts: { ...scope.contexts, env: { ...jobEnv.values, ...stepEnv.values } } };
+        const rendered: RenderedStep = {
+            name: atLocation(`${stepLocation}.name`, () =>
+                evaluateTemplate(step.name || (step.uses ? `Run ${step.uses}` : "Unnamed step"), stepScope)
+            ),
+            outputKey: stepOutputKey(step, index),
+            condition: atLocation(`${stepLocation}.if`, () => stepCondition(step.if, stepScope)),
+        };
+        const script = [
+            ...Object.entries(stepEnv.values).map(([key, value]) => `export ${key}=${shellQuote(value)}`),
+            ...exportLines(stepEnv.exports),
+        ];
+
+        if (step.run !== undefined) {
+            const run = atLocation(`${stepLocation}.run`, () => runScript(step.run ?? "", stepScope, script));
+            if (run) rendered.script = [...script, run];
+            return rendered;
+        }
+        if (!step.action) return rendered;
+
+        const action = step.action;
+        const actionLocation = `action "${step.uses}" (${stepLocation})`;
+        const inputs = atLocation(`${stepLocation}.with`, () => renderInputs(action, step.with ?? {}, stepScope));
+        script.push(...exportLines(inputs.words));
+        const actionScope: ShellScope = {
+            contexts: {
+                github: scope.contexts.github,
+                gittic: scope.contexts.gittic,
+                env: stepScope.contexts.env,
+                inputs: inputs.values,
+            },
+            outputDir: `${ACTION_OUTPUT_DIR}/${rendered.outputKey}`,
+            runtimeInputs: inputs.runtime,
+        };
+
+        if (action.runs.using !== "composite") {
+            const runs = action.runs;
+            const names = [...Object.keys(inputs.words), "GITTIC_OUTPUT"];
+            let args: string[] = [];
+            if (runs.using === "docker") {
+                const env = atLocation(`${actionLocation} runs.env`, () => renderEnv(runs.env, actionScope));
+                script.push(
+                    ...Object.entries(env.values).map(([key, value]) => `export ${key}=${shellQuote(value)}`),
+                    ...exportLines(env.exports)
+                );
+                names.push(...Object.keys(job.env), ...Object.keys(step.env ?? {}), ...Object.keys(runs.env));
+                args = atLocation(`${actionLocation} runs.args`, () =>
+                    runs.args.map((arg) => shellWord(parseTemplate(arg), actionScope))
+                );
+            }
+            script.push(
+                `mkdir -p "${EXECUTOR_STEP_DIR}"`,
+                `printf '%s\\0' ${[...new Set(names)].map((name) => `${shellQuote(`${name}=`)}"$${name}"`).join(" ")} > "${EXECUTOR_STEP_DIR}/env.tmp"`,
+                args.length > 0
+                    ? `printf '%s\\0' ${args.join(" ")} > "${EXECUTOR_STEP_DIR}/args.tmp"`
+                    : `: > "${EXECUTOR_STEP_DIR}/args.tmp"`,
+                `mv "${EXECUTOR_STEP_DIR}/args.tmp" "${EXECUTOR_STEP_DIR}/args"`,
+                `mv "${EXECUTOR_STEP_DIR}/env.tmp" "${EXECUTOR_STEP_DIR}/env"`
+            );
+            rendered.script = script;
+            rendered.executorStep = runs.using === "docker"
+                ? { number: index + 1, total: job.steps.length, image: runs.image, entrypoint: runs.entrypoint }
+                : { number: index + 1, total: job.steps.length, builtin: runs.action };
+            executorSteps.push(rendered.executorStep);
+            return rendered;
+        }
+
+        // Composite actions run their steps one after the other in the
+        // step's subshell, so the first one to fail ends the action
+        const innerKeys = action.runs.steps.map(stepOutputKey);
+        action.runs.steps.forEach((inner, innerIndex) => {
+            const innerLocation = `${actionLocation} runs.steps[${innerIndex}]`;
+            const innerEnv = atLocation(`${innerLocation}.env`, () => renderEnv(inner.env, actionScope));
+            const innerScope: ShellScope = {
+                ...actionScope,
+                contexts: { ...actionScope.contexts, env: { ...actionScope.contexts.env as Record<string, string>, ...innerEnv.values } },
+            };
+            const condition = atLocation(`${innerLocation}.if`, () => stepCondition(inner.if, innerScope));
+            if (condition !== "always" && condition !== "success") return;
+
+            const innerScript = [
+                ...Object.entries(innerEnv.values).map(([key, value]) => `export ${key}=${shellQuote(value)}`),
+                ...exportLines(innerEnv.exports),
+            ];
+            const run = atLocation(`${innerLocation}.run`, () => runScript(inner.run, innerScope, innerScript));
+            script.push(
+                `export GITTIC_OUTPUT=${shellQuote(`${actionScope.outputDir}/${innerKeys[innerIndex]}`)}`,
+                `mkdir -p ${shellQuote(actionScope.outputDir ?? "")} && touch "$GITTIC_OUTPUT"`,
+                "(",
+                ...innerScript,
+                run,
+                ")"
+            );
+        });
+        script.push(`export GITTIC_OUTPUT="${STEP_OUTPUT_DIR}/${rendered.outputKey}"`);
+        for (const [name, output] of Object.entries(action.outputs)) {
+            const word = atLocation(`${actionLocation} outputs.${name}`, () => shellWord(parseTemplate(output.value ?? ""), actionScope));
+            script.push(`gittic_set_output ${shellQuote(name)} ${word}`);
+        }
+        rendered.script = script;
+        return rendered;
+    });
+
+    return {
+        dockerfile: generateDockerfile(job.image),
+        entrypoint: generateEntrypoint(steps, exportLines(jobEnv.exports)),
+        resources: job.resources,
+        env: jobEnv.values,
+        secrets: referencedSecrets(job),
+        executorSteps,
+        timeout: job.timeout,
+    };
+}
+
+/**
+ * Key a step's output file is stored under
+ */
+export function stepOutputKey(step: WorkflowStep, index: number): string {
+    return step.id || `step-${index + 1}`;
+}
+
+/**
+ * Parse a step output file. Lines are `name=value`; multiline values
+ * use `name<<DELIMITER`, the value lines, then `DELIMITER`.
  */
-function generateDockerfile(
-    baseImage: string,
-    steps: WorkflowStep[],
-    globalEnv: Record<string, string>
-): string {
+export function parseOutputFile(content: string): Record<string, string> {
+    const outputs: Record<string, string> = {};
+    const lines = content.split("\n");
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const heredoc = line.match(/^([\w-]+)<<(.+)$/);
+        if (heredoc) {
+            const [, name, delimiter] = heredoc;
+            const value: string[] = [];
+            while (++i < lines.length && lines[i] !== delimiter) value.push(lines[i]);
+            outputs[name] = value.join("\n");
+            continue;
+        }
+
+        const eq = line.indexOf("=");
+        if (eq > 0) outputs[line.slice(0, eq)] = line.slice(eq + 1);
+    }
+
+    return outputs;
+}
+
+/**
+ * Resolve a job's declared outputs from the outputs its steps wrote
+ */
+export function resolveJobOutputs(
+    job: CompiledJob,
+    stepOutputs: Record<string, Record<string, string>>,
+    needs: Record<string, JobNeed> = {},
+    context: JobContext = {}
+): Record<string, string> {
+    const scope = jobScope(job, needs, context);
+    scope.contexts.steps = Object.fromEntries(
+        Object.entries(stepOutputs).map(([id, outputs]) => [id, { outputs }])
+    );
+    scope.contexts.env = Object.fromEntries(
+        Object.entries(job.env).filter(([, value]) => !String(value).includes("${{"))
+    );
+
+    return Object.fromEntries(
+        Object.entries(job.outputs).map(([name, template]) => [
+            name,
+            atLocation(`jobs.${job.group}.outputs.${name}`, () => evaluateTemplate(String(template), scope)),
+        ])
+    );
+}
+
+/**
+ * Generate Dockerfile from job specification. The job's environment is
+ * passed when the container starts, not baked into the image.
+ */
+function generateDockerfile(baseImage: string): string {
     const lines: string[] = [];
 
     // Use the actual image specified in the workflow
@@ -166,15 +1280,6 @@ function generateDockerfile(
     lines.push("WORKDIR /workspace");
     lines.push("");
 
-    // Set environment variables
-    if (Object.keys(globalEnv).length > 0) {
-        lines.push("# Environment variables");
-        for (const [key, value] of Object.entries(globalEnv)) {
-            lines.push(`ENV ${key}="${value}"`);
-        }
-        lines.push("");
-    }
-
     // Copy entrypoint script
     lines.push("# Copy workflow entrypoint");
     lines.push("COPY entrypoint.sh /entrypoint.sh");
@@ -187,43 +1292,133 @@ function generateDockerfile(
 }
 
 /**
- * Generate entrypoint script from workflow steps
+ * Shell function printing one output from a step output file, read the
+ * way `parseOutputFile` reads it
  */
-function generateEntrypoint(steps: WorkflowStep[]): string {
-    const lines: string[] = [];
+const STEP_OUTPUT_FUNCTION = `gittic_step_output() {
+    [ -f "$1" ] || return 0
+    awk -v name="$2" '
+        delim != "" { if ($0 == delim) delim = ""; else if (mine) { value = value sep $0; sep = "\\n" }; next }
+        /^[A-Za-z0-9_-]+<</ { key = substr($0, 1, index($0, "<<") - 1); delim = substr($0, index($0, "<<") + 2); mine = key == name; if (mine) { value = ""; sep = "" }; next }
+        index($0, name "=") == 1 { value = substr($0, length(name) + 2) }
+        END { printf "%s", value }
+    ' "$1"
+}`;
 
-    lines.push("#!/bin/bash");
-    lines.push("set -e");
-    lines.push("");
-    lines.push("echo '=== GitTic Workflow Execution ==='");
-    lines.push("");
+/**
+ * Shell function appending an output to $GITTIC_OUTPUT, for the outputs
+ * of composite actions
+ */
+const SET_OUTPUT_FUNCTION = `gittic_set_output() {
+    case "$2" in
+        *$'\\n'*) printf '%s<<GITTIC_OUTPUT_EOF\\n%s\\nGITTIC_OUTPUT_EOF\\n' "$1" "$2" ;;
+        *) printf '%s=%s\\n' "$1" "$2" ;;
+    esac >> "$GITTIC_OUTPUT"
+}`;
+
+/**
+ * Generate entrypoint script from workflow steps.
+ *
+ * Each step runs in its own subshell with `set -e`. A failing step marks
+ * the job as failed instead of ending the script, so later steps whose
+ * condition allows it (e.g. `if: failure()`) still run. Every step
+ * reports "Step N/M: name" when it starts, then "Step N/M finished:
+ * <exit code>", or "Step N/M skipped" when its condition rules it out.
+ *
+ * The script runs in phases split at the steps the executor runs (see
+ * `ExecutorStepSpec`), keeping the job's status in JOB_STATUS_FILE in
+ * between; only the last phase fails the container.
+ */
+function generateEntrypoint(steps: RenderedStep[], jobExports: string[]): string {
+    const phases: string[][] = [["echo '=== GitTic Workflow Execution ==='", ""]];
+    let lines = phases[0];
 
     for (let i = 0; i < steps.length; i++) {
         const step = steps[i];
-        const stepNum = i + 1;
+        const progress = `Step ${i + 1}/${steps.length}`;
 
-        if (!step.run) {
-            console.warn(`[Compiler] Step ${stepNum} has no 'run' command, skipping`);
+        if (!step.script) {
+            console.warn(`[Compiler] Step ${i + 1} has no 'run' command, skipping`);
+            continue;
+        }
+        if (step.condition === "never") {
+            lines.push(`echo ${shellQuote(`${progress} skipped`)}`);
+            lines.push("");
             continue;
         }
 
-        lines.push(`echo "Step ${stepNum}/${steps.length}: ${step.name || 'Unnamed step'}"`);
+        if (step.condition !== "always") {
+            lines.push(`if [ "$GITTIC_JOB_STATUS" = ${step.condition} ]; then`);
+        }
+        lines.push(`echo ${shellQuote(`${progress}: ${step.name.replace(/\s+/g, " ")}`)}`);
 
-        // Handle step environment variables
-        if (step.env) {
-            for (const [key, value] of Object.entries(step.env)) {
-                lines.push(`export ${key}="${value}"`);
-            }
+        // Steps append "name=value" lines to $GITTIC_OUTPUT to set outputs
+        lines.push(`export GITTIC_OUTPUT="${STEP_OUTPUT_DIR}/${step.outputKey}"`);
+        lines.push(`mkdir -p "${STEP_OUTPUT_DIR}" && touch "$GITTIC_OUTPUT"`);
+
+        lines.push("(");
+        lines.push("set -e");
+        lines.push(...step.script);
+        lines.push(")");
+        lines.push("GITTIC_STEP_STATUS=$?");
+        if (step.executorStep) {
+            // The executor runs the step and reports it, unless preparing it failed
+            lines.push('if [ "$GITTIC_STEP_STATUS" -ne 0 ]; then');
+            lines.push(`rm -rf "${EXECUTOR_STEP_DIR}"`);
+            lines.push(`echo "${progress} finished: $GITTIC_STEP_STATUS"`);
+            lines.push("GITTIC_JOB_STATUS=failure");
+            lines.push("fi");
+        } else {
+            lines.push(`echo "${progress} finished: $GITTIC_STEP_STATUS"`);
+            lines.push('[ "$GITTIC_STEP_STATUS" -eq 0 ] || GITTIC_JOB_STATUS=failure');
         }
 
-        // Execute the run command
-        lines.push(step.run);
+        if (step.condition !== "always") {
+            lines.push("else");
+            lines.push(`echo ${shellQuote(`${progress} skipped`)}`);
+            lines.push("fi");
+        }
         lines.push("");
+
+        if (step.executorStep) {
+            lines = [];
+            phases.push(lines);
+        }
     }
 
-    lines.push("echo '=== Workflow completed successfully ==='");
+    const script: string[] = [];
+    script.push("#!/bin/bash");
+    script.push("");
+    script.push(`GITTIC_JOB_STATUS=$(cat "${JOB_STATUS_FILE}" 2>/dev/null || echo success)`);
+    script.push(STEP_OUTPUT_FUNCTION);
+    script.push(SET_OUTPUT_FUNCTION);
+    script.push("");
 
-    return lines.join("\n");
+    // Job variables that read secrets are exported when the container
+    // starts, so the values stay out of the image
+    script.push(...jobExports);
+    script.push("");
+
+    phases.forEach((phase, index) => {
+        script.push(`gittic_phase_${index}() {`);
+        script.push(":");
+        script.push(...phase);
+        script.push("}");
+        script.push("");
+    });
+
+    script.push('"gittic_phase_${1:-0}"');
+    script.push(`mkdir -p "${JOB_STATUS_FILE.slice(0, JOB_STATUS_FILE.lastIndexOf("/"))}"`);
+    script.push(`echo "$GITTIC_JOB_STATUS" > "${JOB_STATUS_FILE}"`);
+    script.push(`[ "\${1:-0}" = ${phases.length - 1} ] || exit 0`);
+    script.push("");
+    script.push('if [ "$GITTIC_JOB_STATUS" != success ]; then');
+    script.push("echo '=== Workflow failed ==='");
+    script.push("exit 1");
+    script.push("fi");
+    script.push("echo '=== Workflow completed successfully ==='");
+
+    return script.join("\n");
 }
 
 /**
@@ -245,7 +1440,13 @@ jobs:
     timeout: 1800  # 30 minutes
     env:
       NODE_ENV: production
+    outputs:
+      version: \${{ steps.version.outputs.version }}
     steps:
+      - name: Read version
+        id: version
+        run: echo "version=$(node -p "require('./package.json').version")" >> $GITTIC_OUTPUT
+      
       - name: Install dependencies
         run: npm ci
       
@@ -260,8 +1461,13 @@ jobs:
   
   test-python:
     runs-on: ubuntu-latest
-    image: python:3.11-slim  # Different image for Python
+    image: python:\${{ matrix.python }}-slim  # Different image for Python
     timeout: 900  # 15 minutes
+    strategy:
+      matrix:
+        python: ['3.11', '3.12']  # One job per version: "test-python (3.11)", ...
+      fail-fast: false
+      max-parallel: 2
     steps:
       - name: Install dependencies
         run: pip install -r requirements.txt
@@ -269,6 +1475,15 @@ jobs:
       - name: Run tests
         run: pytest
 
+  deploy:
+    runs-on: ubuntu-latest
+    image: alpine:3.19
+    needs: [build, test-python]  # Runs after build and every test-python job succeed, skipped if any fails
+    if: github.ref_name == 'main'  # Conditions may use github, vars, needs and matrix
+    steps:
+      - name: Deploy
+        run: echo "Deploying version \${{ needs.build.outputs.version }}"
+
 # Docker Images Examples:
 # node:18-alpine, node:20-slim
 # python:3.11-slim, python:3.12-alpine
@@ -0,0 +1,611 @@
+/**
+ * Workflow Expressions
+ *
+ * Parses and evaluates the `${{ }}` expression language of workflow
+ * files: literals, contexts such as `github.ref` or `needs.build.outputs`,
+ * comparisons, `!`, `&&` and `||`, and a fixed set of functions. Nothing
+ * is ever executed; expressions only read the contexts they are given.
+ *
+ * Comparisons follow GitHub Actions: strings compare case-insensitively,
+ * values of different types are compared as numbers, and property names
+ * are looked up case-insensitively.
+ */
+
+export type ExpressionValue =
+    | null
+    | boolean
+    | number
+    | string
+    | ExpressionValue[]
+    | { [key: string]: ExpressionValue };
+
+export type ExpressionNode =
+    | { kind: "literal"; value: ExpressionValue }
+    | { kind: "context"; name: string }
+    | { kind: "property"; object: ExpressionNode; name: string }
+    | { kind: "index"; object: ExpressionNode; index: ExpressionNode }
+    | { kind: "call"; name: string; args: ExpressionNode[] }
+    | { kind: "not"; operand: ExpressionNode }
+    | { kind: "compare"; operator: "==" | "!=" | "<" | "<=" | ">" | ">="; left: ExpressionNode; right: ExpressionNode }
+    | { kind: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode };
+
+/** Outcome of what ran before, as reported by the status functions */
+export interface StatusFunctions {
+    success: boolean;
+    failure: boolean;
+    cancelled: boolean;
+}
+
+export interface EvaluationScope {
+    /** Context values by name, e.g. `{ github: {...}, matrix: {...} }` */
+    contexts: Record<string, ExpressionValue>;
+    /** Only `if:` conditions may call the status functions */
+    status?: StatusFunctions;
+}
+
+/** Part of a template: literal text or an embedded expression */
+export type TemplatePart = string | { source: string; node: ExpressionNode };
+
+/**
+ * Malformed expression, or one that cannot be evaluated
+ */
+export class ExpressionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ExpressionError";
+    }
+}
+
+/** Accepted argument counts, by lower-cased function name */
+const FUNCTIONS: Record<string, { min: number; max: number }> = {
+    contains: { min: 2, max: 2 },
+    startswith: { min: 2, max: 2 },
+    endswith: { min: 2, max: 2 },
+    format: { min: 1, max: Infinity },
+    join: { min: 1, max: 2 },
+    tojson: { min: 1, max: 1 },
+    fromjson: { min: 1, max: 1 },
+    success: { min: 0, max: 0 },
+    failure: { min: 0, max: 0 },
+    always: { min: 0, max: 0 },
+    cancelled: { min: 0, max: 0 },
+};
+
+const STATUS_FUNCTIONS = new Set(["success", "failure", "always", "cancelled"]);
+
+// ── Parsing ─────────────────────────────────────────────────
+
+interface Token {
+    type: "number" | "string" | "identifier" | "punctuation" | "end";
+    text: string;
+    value?: ExpressionValue;
+    position: number;
+}
+
+const PUNCTUATION = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ".", ",", "*"];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === "'") {
+            let value = "";
+            let j = i + 1;
+            for (;;) {
+                if (j >= source.length) throw new ExpressionError(`Unterminated string starting at position ${i + 1}`);
+                if (source[j] === "'") {
+                    if (source[j + 1] !== "'") break;
+                    j++;
+                }
+                value += source[j++];
+            }
+            tokens.push({ type: "string", text: source.slice(i, j + 1), value, position: i });
+            i = j + 1;
+            continue;
+        }
+
+        const number = /^-?(?:0x[0-9a-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)/i.exec(source.slice(i));
+        if (number && (char !== "-" || /\d/.test(source[i + 1] ?? ""))) {
+            tokens.push({ type: "number", text: number[0], value: Number(number[0]), position: i });
+            i += number[0].length;
+            continue;
+        }
+
+        const identifier = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i));
+        if (identifier) {
+            tokens.push({ type: "identifier", text: identifier[0], position: i });
+            i += identifier[0].length;
+            continue;
+        }
+
+        const punctuation = PUNCTUATION.find((candidate) => source.startsWith(candidate, i));
+        if (!punctuation) throw new ExpressionError(`Unexpected character '${char}' at position ${i + 1}`);
+        tokens.push({ type: "punctuation", text: punctuation, position: i });
+        i += punctuation.length;
+    }
+
+    tokens.push({ type: "end", text: "end of expression", position: source.length });
+    return tokens;
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): ExpressionNode {
+        if (this.peek().type === "end") throw new ExpressionError("Expression is empty");
+        const node = this.parseOr();
+        this.expectEnd();
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private accept(text: string): boolean {
+        const token = this.peek();
+        if (token.type === "punctuation" && token.text === text) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) this.unexpected(`expected '${text}'`);
+    }
+
+    private expectEnd(): void {
+        if (this.peek().type !== "end") this.unexpected();
+    }
+
+    private unexpected(hint?: string): never {
+        const token = this.peek();
+        const found = token.type === "end" ? "end of expression" : `'${token.text}' at position ${token.position + 1}`;
+        throw new ExpressionError(`Unexpected ${found}${hint ? `, ${hint}` : ""}`);
+    }
+
+    private parseOr(): ExpressionNode {
+        let left = this.parseAnd();
+        while (this.accept("||")) left = { kind: "logical", operator: "||", left, right: this.parseAnd() };
+        return left;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let left = this.parseEquality();
+        while (this.accept("&&")) left = { kind: "logical", operator: "&&", left, right: this.parseEquality() };
+        return left;
+    }
+
+    private parseEquality(): ExpressionNode {
+        let left = this.parseComparison();
+        for (;;) {
+            const operator = (["==", "!="] as const).find((candidate) => this.accept(candidate));
+            if (!operator) return left;
+            left = { kind: "compare", operator, left, right: this.parseComparison() };
+        }
+    }
+
+    private parseComparison(): ExpressionNode {
+        let left = this.parseUnary();
+        for (;;) {
+            const operator = (["<=", ">=", "<", ">"] as const).find((candidate) => this.accept(candidate));
+            if (!operator) return left;
+            left = { kind: "compare", operator, left, right: this.parseUnary() };
+        }
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.accept("!")) return { kind: "not", operand: this.parseUnary() };
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): ExpressionNode {
+        let node = this.parsePrimary();
+        for (;;) {
+            if (this.accept(".")) {
+                const token = this.next();
+                if (token.type === "identifier" || (token.type === "punctuation" && token.text === "*")) {
+                    node = { kind: "property", object: node, name: token.text };
+                } else {
+                    this.index--;
+                    this.unexpected("expected a property name");
+                }
+            } else if (this.accept("[")) {
+                const index = this.accept("*") ? null : this.parseOr();
+                this.expect("]");
+                node = index ? { kind: "index", object: node, index } : { kind: "property", object: node, name: "*" };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        if (token.type === "number" || token.type === "string") {
+            return { kind: "literal", value: token.value! };
+        }
+        if (token.type === "punctuation" && token.text === "(") {
+            const node = this.parseOr();
+            this.expect(")");
+            return node;
+        }
+        if (token.type !== "identifier") {
+            this.index--;
+            this.unexpected();
+        }
+
+        switch (token.text) {
+            case "true":
+                return { kind: "literal", value: true };
+            case "false":
+                return { kind: "literal", value: false };
+            case "null":
+                return { kind: "literal", value: null };
+        }
+
+        if (!this.accept("(")) return { kind: "context", name: token.text };
+
+        const name = token.text.toLowerCase();
+        const arity = FUNCTIONS[name];
+        if (!arity) throw new ExpressionError(`Unknown function '${token.text}'`);
+
+        const args: ExpressionNode[] = [];
+        if (!this.accept(")")) {
+            do args.push(this.parseOr());
+            while (this.accept(","));
+            this.expect(")");
+        }
+        if (args.length < arity.min || args.length > arity.max) {
+            const expected = arity.min === arity.max
+                ? `${arity.min}`
+                : arity.max === Infinity ? `at least ${arity.min}` : `${arity.min} to ${arity.max}`;
+            throw new ExpressionError(`${token.text}() takes ${expected} argument${expected === "1" ? "" : "s"}, got ${args.length}`);
+        }
+        return { kind: "call", name, args };
+    }
+}
+
+/**
+ * Parse one expression, without the surrounding `${{ }}`
+ */
+export function parseExpression(source: string): ExpressionNode {
+    return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Split text into literal parts and `${{ }}` expressions
+ */
+export function parseTemplate(text: string): TemplatePart[] {
+    const parts: TemplatePart[] = [];
+    let rest = text;
+
+    for (;;) {
+        const start = rest.indexOf("${{");
+        if (start === -1) break;
+        if (start > 0) parts.push(rest.slice(0, start));
+
+        // "}}" inside a string literal does not close the expression
+        let end = start + 3;
+        let quoted = false;
+        while (end < rest.length && (quoted || !rest.startsWith("}}", end))) {
+            if (rest[end] === "'") quoted = !quoted;
+            end++;
+        }
+        if (end >= rest.length) throw new ExpressionError("Unterminated '${{', expected '}}'");
+
+        const source = rest.slice(start + 3, end).trim();
+        parts.push({ source, node: parseExpression(source) });
+        rest = rest.slice(end + 2);
+    }
+
+    if (rest) parts.push(rest);
+    return parts;
+}
+
+/**
+ * Parse an `if:` condition, which may be written with or without `${{ }}`
+ */
+export function parseCondition(condition: string): ExpressionNode {
+    const trimmed = condition.trim();
+    const wrapped = /^\$\{\{([\s\S]*)\}\}$/.exec(trimmed);
+    return parseExpression(wrapped && !wrapped[1].includes("}}") ? wrapped[1] : trimmed);
+}
+
+/**
+ * Visit every node of an expression
+ */
+export function walkExpression(node: ExpressionNode, visit: (node: ExpressionNode) => void): void {
+    visit(node);
+    switch (node.kind) {
+        case "property":
+            walkExpression(node.object, visit);
+            break;
+        case "index":
+            walkExpression(node.object, visit);
+            walkExpression(node.index, visit);
+            break;
+        case "call":
+            node.args.forEach((arg) => walkExpression(arg, visit));
+            break;
+        case "not":
+            walkExpression(node.operand, visit);
+            break;
+        case "compare":
+        case "logical":
+            walkExpression(node.left, visit);
+            walkExpression(node.right, visit);
+            break;
+    }
+}
+
+/**
+ * Check that an expression only uses the given contexts, and status
+ * functions only where they are allowed
+ */
+export function checkExpression(
+    node: ExpressionNode,
+    contexts: readonly string[],
+    options: { statusFunctions?: boolean } = {}
+): void {
+    walkExpression(node, (child) => {
+        if (child.kind === "context" && !contexts.includes(child.name)) {
+            const available = contexts.length > 0 ? `; available here: ${contexts.join(", ")}` : "";
+            throw new ExpressionError(`Unknown context '${child.name}'${available}`);
+        }
+        if (child.kind === "call" && STATUS_FUNCTIONS.has(child.name) && !options.statusFunctions) {
+            throw new ExpressionError(`${child.name}() can only be used in if: conditions`);
+        }
+    });
+}
+
+/**
+ * The property path a node reads, e.g. ["steps", "build", "outputs",
+ * "version"], or null when the node is anything but a plain path
+ */
+export function referencePath(node: ExpressionNode): string[] | null {
+    if (node.kind === "context") return [node.name];
+    if (node.kind === "property" && node.name !== "*") {
+        const parent = referencePath(node.object);
+        return parent && [...parent, node.name];
+    }
+    if (node.kind === "index" && node.index.kind === "literal" && typeof node.index.value === "string") {
+        const parent = referencePath(node.object);
+        return parent && [...parent, node.index.value];
+    }
+    return null;
+}
+
+/**
+ * Whether an expression reads a context
+ */
+export function usesContext(node: ExpressionNode, name: string): boolean {
+    let used = false;
+    walkExpression(node, (child) => {
+        if (child.kind === "context" && child.name === name) used = true;
+    });
+    return used;
+}
+
+// ── Evaluation ──────────────────────────────────────────────
+
+/**
+ * Truthiness: null, false, 0, NaN and "" are false, everything else true
+ */
+export function toBoolean(value: ExpressionValue): boolean {
+    if (value === null || value === false || value === "") return false;
+    if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+    return true;
+}
+
+/**
+ * Text a value interpolates as. Objects and arrays become JSON.
+ */
+export function toText(value: ExpressionValue): string {
+    if (value === null) return "";
+    if (typeof value === "object") return JSON.stringify(value, null, 2);
+    return String(value);
+}
+
+function toNumber(value: ExpressionValue): number {
+    if (value === null) return 0;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (typeof value === "number") return value;
+    if (typeof value === "string") return value.trim() === "" ? 0 : Number(value);
+    return NaN;
+}
+
+function isObject(value: ExpressionValue): value is ExpressionValue[] | { [key: string]: ExpressionValue } {
+    return value !== null && typeof value === "object";
+}
+
+function looseEquals(left: ExpressionValue, right: ExpressionValue): boolean {
+    if (isObject(left) || isObject(right)) return left === right;
+    if (typeof left === "string" && typeof right === "string") return left.toLowerCase() === right.toLowerCase();
+    if (typeof left === typeof right) return left === right;
+    return toNumber(left) === toNumber(right);
+}
+
+function compare(operator: "<" | "<=" | ">" | ">=", left: ExpressionValue, right: ExpressionValue): boolean {
+    if (isObject(left) || isObject(right)) return false;
+
+    let order: number;
+    if (typeof left === "string" && typeof right === "string") {
+        const a = left.toLowerCase();
+        const b = right.toLowerCase();
+        order = a < b ? -1 : a > b ? 1 : 0;
+    } else {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (Number.isNaN(a) || Number.isNaN(b)) return false;
+        order = a - b;
+    }
+
+    switch (operator) {
+        case "<":
+            return order < 0;
+        case "<=":
+            return order <= 0;
+        case ">":
+            return order > 0;
+        case ">=":
+            return order >= 0;
+    }
+}
+
+function property(value: ExpressionValue, name: string): ExpressionValue {
+    if (Array.isArray(value)) {
+        // Reading a property of a filtered list reads it of every item
+        return value.map((item) => property(item, name));
+    }
+    if (!isObject(value)) return null;
+    if (Object.prototype.hasOwnProperty.call(value, name)) return value[name];
+
+    const key = Object.keys(value).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+    return key === undefined ? null : value[key];
+}
+
+function format(template: string, args: ExpressionValue[]): string {
+    return template.replace(/\{\{|\}\}|\{(\d+)\}|\{|\}/g, (match, index: string | undefined) => {
+        if (match === "{{") return "{";
+        if (match === "}}") return "}";
+        if (index === undefined) throw new ExpressionError(`Invalid format string '${template}'`);
+        if (Number(index) >= args.length) {
+            throw new ExpressionError(`Format string '${template}' refers to argument {${index}}, but only ${args.length} were given`);
+        }
+        return toText(args[Number(index)]);
+    });
+}
+
+function callFunction(name: string, args: ExpressionValue[], scope: EvaluationScope): ExpressionValue {
+    if (STATUS_FUNCTIONS.has(name)) {
+        if (!scope.status) throw new ExpressionError(`${name}() can only be used in if: conditions`);
+        switch (name) {
+            case "success":
+                return scope.status.success;
+            case "failure":
+                return scope.status.failure;
+            case "cancelled":
+                return scope.status.cancelled;
+            default:
+                return true;
+        }
+    }
+
+    const [first, second] = args;
+    switch (name) {
+        case "contains":
+            return Array.isArray(first)
+                ? first.some((item) => looseEquals(item, second))
+                : toText(first).toLowerCase().includes(toText(second).toLowerCase());
+        case "startswith":
+            return toText(first).toLowerCase().startsWith(toText(second).toLowerCase());
+        case "endswith":
+            return toText(first).toLowerCase().endsWith(toText(second).toLowerCase());
+        case "format":
+            return format(toText(first), args.slice(1));
+        case "join": {
+            const separator = args.length > 1 ? toText(second) : ",";
+            return Array.isArray(first) ? first.map(toText).join(separator) : toText(first);
+        }
+        case "tojson":
+            return JSON.stringify(first, null, 2);
+        case "fromjson":
+            try {
+                return JSON.parse(toText(first)) as ExpressionValue;
+            } catch {
+                throw new ExpressionError(`fromJSON() was given invalid JSON: ${toText(first).slice(0, 100)}`);
+            }
+        default:
+            throw new ExpressionError(`Unknown function '${name}'`);
+    }
+}
+
+/**
+ * Evaluate a parsed expression
+ */
+export function evaluate(node: ExpressionNode, scope: EvaluationScope): ExpressionValue {
+    switch (node.kind) {
+        case "literal":
+            return node.value;
+        case "context":
+            return property(scope.contexts, node.name);
+        case "property": {
+            const object = evaluate(node.object, scope);
+            if (node.name !== "*") return property(object, node.name);
+            if (Array.isArray(object)) return object;
+            return isObject(object) ? Object.values(object) : [];
+        }
+        case "index": {
+            const object = evaluate(node.object, scope);
+            const index = evaluate(node.index, scope);
+            if (Array.isArray(object) && typeof index === "number") return object[Math.trunc(index)] ?? null;
+            return Array.isArray(object) ? null : property(object, toText(index));
+        }
+        case "call":
+            return callFunction(node.name, node.args.map((arg) => evaluate(arg, scope)), scope);
+        case "not":
+            return !toBoolean(evaluate(node.operand, scope));
+        case "compare": {
+            const left = evaluate(node.left, scope);
+            const right = evaluate(node.right, scope);
+            if (node.operator === "==") return looseEquals(left, right);
+            if (node.operator === "!=") return !looseEquals(left, right);
+            return compare(node.operator, left, right);
+        }
+        case "logical": {
+            // Like JavaScript, the operand that decided the result is returned
+            const left = evaluate(node.left, scope);
+            if (node.operator === "&&") return toBoolean(left) ? evaluate(node.right, scope) : left;
+            return toBoolean(left) ? left : evaluate(node.right, scope);
+        }
+    }
+}
+
+/**
+ * Evaluate a template to text
+ */
+export function evaluateTemplate(text: string, scope: EvaluationScope): string {
+    return parseTemplate(text)
+        .map((part) => (typeof part === "string" ? part : toText(evaluate(part.node, scope))))
+        .join("");
+}
+
+/**
+ * Parse an `if:` condition the way it is evaluated: a missing condition
+ * means `success()`, and one that calls no status function only holds
+ * when everything before it succeeded, as if written `success() && (...)`.
+ */
+export function parseStatusCondition(condition: string | undefined): ExpressionNode {
+    const success: ExpressionNode = { kind: "call", name: "success", args: [] };
+    if (condition === undefined || condition.trim() === "") return success;
+
+    const node = parseCondition(condition);
+    let usesStatus = false;
+    walkExpression(node, (child) => {
+        if (child.kind === "call" && STATUS_FUNCTIONS.has(child.name)) usesStatus = true;
+    });
+    return usesStatus ? node : { kind: "logical", operator: "&&", left: success, right: node };
+}
+
+/**
+ * Evaluate an `if:` condition. The scope must include the status.
+ */
+export function evaluateCondition(condition: string | undefined, scope: EvaluationScope): boolean {
+    return toBoolean(evaluate(parseStatusCondition(condition), scope));
+}
@@ -0,0 +1,254 @@
+import {
+    renderJob,
+    resolveJobOutputs,
+    shouldRunJob,
+    type CompiledJob,
+    type CompiledWorkflow,
+    type JobContainerSpec,
+    type JobContext,
+    type JobNeed,
+} from "./workflow-compiler.js";
+import type { StatusFunctions } from "./workflow-expressions.js";
+
+/**
+ * Workflow DAG Runner
+ *
+ * Runs the jobs of a compiled workflow once the jobs they need have
+ * finished and their `if:` condition holds. Without a condition a job
+ * runs only when everything it needs succeeded, so a failed job skips
+ * everything downstream of it unless a job asks for `always()` or
+ * `failure()`. Independent jobs run in parallel, outputs flow to
+ * dependent jobs, and matrix combinations honour their job's fail-fast
+ * and max-parallel.
+ */
+
+export type JobStatus = "queued" | "in_progress" | "success" | "failure" | "skipped" | "cancelled";
+
+export interface JobState {
+    id: string;
+    name: string;
+    group: string;
+    matrix?: Record<string, string>;
+    needs: string[];
+    status: JobStatus;
+    outputs: Record<string, string>;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+}
+
+export interface WorkflowRunState {
+    status: "in_progress" | "success" | "failure" | "cancelled";
+    jobs: JobState[];
+}
+
+/**
+ * Result of running one job's container
+ */
+export interface JobExecutionResult {
+    status: "success" | "failed" | "timeout" | "cancelled";
+    /** Outputs written by each step, keyed by step id */
+    stepOutputs: Record<string, Record<string, string>>;
+    error?: string;
+}
+
+/**
+ * Runs one job. `signal` aborts when the job is cancelled by a failing
+ * matrix sibling; the executor should stop it and report "cancelled".
+ */
+export type JobExecutor = (
+    job: CompiledJob,
+    spec: JobContainerSpec,
+    signal: AbortSignal
+) => Promise<JobExecutionResult>;
+
+export interface RunWorkflowOptions {
+    /** Called with a snapshot whenever a job changes state */
+    onUpdate?: (state: WorkflowRunState) => void;
+    /** Stops scheduling new jobs; jobs not yet started are cancelled */
+    signal?: AbortSignal;
+    /** Values the jobs' `${{ }}` expressions read */
+    context?: JobContext;
+    /**
+     * Values one job's expressions read, when jobs see different ones,
+     * e.g. the variables of the environment they deploy to. Falls back
+     * to `context`.
+     */
+    jobContext?: (job: CompiledJob) => JobContext | undefined;
+}
+
+function snapshot(status: WorkflowRunState["status"], jobs: Map<string, JobState>): WorkflowRunState {
+    return { status, jobs: [...jobs.values()].map((job) => ({ ...job, outputs: { ...job.outputs } })) };
+}
+
+/**
+ * Result of a job key as the jobs that need it see it: a matrix job
+ * failed when any combination did
+ */
+function groupResult(states: JobState[]): JobNeed["result"] {
+    if (states.some((state) => state.status === "failure")) return "failure";
+    if (states.some((state) => state.status === "cancelled")) return "cancelled";
+    return states.some((state) => state.status === "success") ? "success" : "skipped";
+}
+
+function conclude(jobs: Map<string, JobState>): WorkflowRunState["status"] {
+    const states = [...jobs.values()];
+    if (states.some((job) => job.status === "failure")) return "failure";
+    if (states.some((job) => job.status === "cancelled")) return "cancelled";
+    return "success";
+}
+
+/**
+ * Run every job of a workflow, respecting `needs`
+ */
+export async function runWorkflow(
+    workflow: CompiledWorkflow,
+    execute: JobExecutor,
+    options: RunWorkflowOptions = {}
+): Promise<WorkflowRunState> {
+    const { onUpdate, signal } = options;
+    const contextOf = (job: CompiledJob) => options.jobContext?.(job) ?? options.context;
+    const jobs = new Map<string, JobState>(
+        workflow.jobs.map((job) => [
+            job.id,
+            { id: job.id, name: job.name, group: job.group, matrix: job.matrix, needs: job.needs, status: "queued", outputs: {} },
+        ])
+    );
+    const running = new Map<string, Promise<void>>();
+    const controllers = new Map<string, AbortController>();
+
+    const group = (id: string) => [...jobs.values()].filter((job) => job.group === id);
+
+    const update = (id: string, changes: Partial<JobState>) => {
+        Object.assign(jobs.get(id)!, changes);
+        onUpdate?.(snapshot("in_progress", jobs));
+    };
+
+    // Once a combination fails, fail-fast cancels the rest of its matrix
+    const cancelSiblings = (job: CompiledJob) => {
+        if (!job.matrix || !job.strategy.failFast) return;
+        const error = `Cancelled because "${job.name}" failed`;
+
+        for (const sibling of group(job.group)) {
+            if (sibling.status === "queued") {
+                update(sibling.id, { status: "cancelled", error, completedAt: new Date().toISOString() });
+            } else if (sibling.status === "in_progress") {
+                controllers.get(sibling.id)!.abort(error);
+            }
+        }
+    };
+
+    const needsOf = (job: CompiledJob): Record<string, JobNeed> => Object.fromEntries(
+        job.needs.map((need) => [need, {
+            result: groupResult(group(need)),
+            // A matrix job's outputs are those of its combinations, later ones winning
+            outputs: Object.assign({}, ...group(need).map((state) => state.outputs)),
+        }])
+    );
+
+    // Jobs a job depends on, directly or through the jobs it needs
+    const ancestors = (job: CompiledJob): JobState[] => {
+        const keys = new Set<string>();
+        const visit = (key: string) => {
+            if (keys.has(key)) return;
+            keys.add(key);
+            workflow.jobs.filter((other) => other.group === key).forEach((other) => other.needs.forEach(visit));
+        };
+        job.needs.forEach(visit);
+        return [...keys].flatMap(group);
+    };
+
+    const status = (job: CompiledJob): StatusFunctions => {
+        const before = ancestors(job);
+        return {
+            success: job.needs.flatMap(group).every((need) => need.status === "success"),
+            failure: before.some((state) => state.status === "failure"),
+            cancelled: before.some((state) => state.status === "cancelled"),
+        };
+    };
+
+    const start = (job: CompiledJob, needs: Record<string, JobNeed>) => {
+        const controller = new AbortController();
+        controllers.set(job.id, controller);
+        update(job.id, { status: "in_progress", startedAt: new Date().toISOString() });
+
+        const run = (async () => {
+            try {
+                const result = await execute(job, renderJob(job, needs, contextOf(job)), controller.signal);
+                if (controller.signal.aborted || result.status === "cancelled") {
+                    update(job.id, { status: "cancelled", error: controller.signal.reason ?? result.error, completedAt: new Date().toISOString() });
+                    return;
+                }
+                update(job.id, {
+                    status: result.status === "success" ? "success" : "failure",
+                    outputs: result.status === "success" ? resolveJobOutputs(job, result.stepOutputs, needs, contextOf(job)) : {},
+                    error: result.status === "timeout" ? `Job timed out after ${job.timeout}s` : result.error,
+                    completedAt: new Date().toISOString(),
+                });
+            } catch (err) {
+                update(job.id, controller.signal.aborted
+                    ? { status: "cancelled", error: controller.signal.reason, completedAt: new Date().toISOString() }
+                    : { status: "failure", error: err instanceof Error ? err.message : String(err), completedAt: new Date().toISOString() });
+            }
+            if (jobs.get(job.id)!.status === "failure") cancelSiblings(job);
+        })().finally(() => {
+            running.delete(job.id);
+            controllers.delete(job.id);
+        });
+
+        running.set(job.id, run);
+    };
+
+    onUpdate?.(snapshot("in_progress", jobs));
+
+    for (;;) {
+        // Jobs are in dependency order, so one pass settles every
+        // dependent of a job that has just finished.
+        for (const job of workflow.jobs) {
+            const state = jobs.get(job.id)!;
+            if (state.status !== "queued") continue;
+
+            const needs = job.needs.flatMap(group);
+            const saturated = job.strategy.maxParallel !== undefined &&
+                group(job.group).filter((sibling) => sibling.status === "in_progress").length >= job.strategy.maxParallel;
+
+            if (signal?.aborted) {
+                update(job.id, { status: "cancelled", completedAt: new Date().toISOString() });
+                continue;
+            }
+            if (saturated || needs.some((need) => need.status === "queued" || need.status === "in_progress")) continue;
+
+            let runs: boolean;
+            try {
+                runs = shouldRunJob(job, needsOf(job), status(job), contextOf(job));
+            } catch (err) {
+                update(job.id, {
+                    status: "failure",
+                    error: err instanceof Error ? err.message : String(err),
+                    completedAt: new Date().toISOString(),
+                });
+                continue;
+            }
+
+            if (runs) {
+                start(job, needsOf(job));
+            } else {
+                const blocked = needs.find((need) => need.status !== "success");
+                update(job.id, {
+                    status: "skipped",
+                    error: job.if === undefined && blocked
+                        ? `Skipped because "${blocked.name}" did not succeed`
+                        : `Skipped because its condition "${job.if}" was false`,
+                    completedAt: new Date().toISOString(),
+                });
+            }
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+    }
+
+    const final = snapshot(conclude(jobs), jobs);
+    onUpdate?.(final);
+    return final;
+}
@@ -0,0 +1,210 @@
+import { execFileSync } from "node:child_process";
+import { appendFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { parseWorkspacePaths, type BuiltinAction } from "./workflow-actions.js";
+
+/**
+ * Workflow Storage
+ *
+ * The built-in artifact and cache actions, performed by the executor on
+ * the job's workspace. Files travel as gzipped tar archives of
+ * workspace-relative paths, kept by the main server (which requires the
+ * cluster token):
+ *
+ * - `PUT/GET /api/v1/workflows/artifacts/:workflowId/:jobId/:name`
+ *   upload an artifact, or download one uploaded earlier in the run
+ * - `GET /api/v1/workflows/caches/:workflowId/:jobId?key=&restoreKey=`
+ *   restores the best matching cache, naming it in `X-Cache-Key`
+ * - `PUT /api/v1/workflows/caches/:workflowId/:jobId?key=` saves one
+ */
+
+export interface StorageContext {
+    serverUrl?: string;
+    /** Shared secret the main server expects from clusters */
+    clusterToken?: string;
+    workflowId: string;
+    jobId?: string;
+    /** Host directory mounted as the job's /workspace */
+    workspace: string;
+    log: (msg: string, level?: "info" | "error") => Promise<void>;
+}
+
+/** A cache restored without an exact hit, saved once the job succeeds */
+export interface PendingCache {
+    key: string;
+    paths: string[];
+}
+
+function endpoint(context: StorageContext, kind: "artifacts" | "caches", ...path: string[]): string {
+    if (!context.serverUrl || !context.jobId) {
+        throw new Error("Artifacts and caches need a connection to the main server");
+    }
+    const segments = [context.workflowId, context.jobId, ...path].map(encodeURIComponent);
+    return `${context.serverUrl}/api/v1/workflows/${kind}/${segments.join("/")}`;
+}
+
+function authorization(context: StorageContext): Record<string, string> {
+    return context.clusterToken ? { Authorization: `Bearer ${context.clusterToken}` } : {};
+}
+
+async function failure(response: Response): Promise<Error> {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    return new Error(body?.error ?? `The main server answered ${response.status}`);
+}
+
+/**
+ * Archive the paths that exist in the workspace; null if none do
+ */
+function createArchive(workspace: string, paths: string[]): { file: string; dispose: () => void } | null {
+    const existing = paths.filter((path) => existsSync(join(workspace, path)));
+    if (existing.length === 0) return null;
+
+    const dir = mkdtempSync(join(tmpdir(), "gittic-archive-"));
+    const file = join(dir, "archive.tar.gz");
+    execFileSync("tar", ["-czf", file, "-C", workspace, "--", ...existing], { stdio: "pipe" });
+    return { file, dispose: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+async function extractArchive(response: Response, target: string): Promise<number> {
+    const dir = mkdtempSync(join(tmpdir(), "gittic-archive-"));
+    try {
+        const content = Buffer.from(await response.arrayBuffer());
+        writeFileSync(join(dir, "archive.tar.gz"), content);
+        mkdirSync(target, { recursive: true });
+        execFileSync("tar", ["-xzf", join(dir, "archive.tar.gz"), "-C", target], { stdio: "pipe" });
+        return content.length;
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Host path of a file the entrypoint named by its path in the container
+ */
+function workspacePath(context: StorageContext, containerPath: string): string {
+    return join(context.workspace, containerPath.replace(/^\/workspace\/?/, ""));
+}
+
+async function uploadArtifact(context: StorageContext, inputs: Record<string, string>): Promise<void> {
+    const name = inputs.INPUT_NAME || "artifact";
+    const archive = createArchive(context.workspace, parseWorkspacePaths(inputs.INPUT_PATH ?? ""));
+    if (!archive) throw new Error(`No files were found at ${JSON.stringify(inputs.INPUT_PATH ?? "")}`);
+
+    try {
+        const body = readFileSync(archive.file);
+        const retention = inputs["INPUT_RETENTION_DAYS"] ? `?retentionDays=${encodeURIComponent(inputs["INPUT_RETENTION_DAYS"])}` : "";
+        const response = await fetch(endpoint(context, "artifacts", name) + retention, {
+            method: "PUT",
+            headers: { "Content-Type": "application/gzip", ...authorization(context) },
+            body,
+        });
+        if (!response.ok) throw await failure(response);
+        await context.log(`[Workflow] Uploaded artifact "${name}" (${body.length} bytes)`);
+    } finally {
+        archive.dispose();
+    }
+}
+
+async function downloadArtifact(context: StorageContext, inputs: Record<string, string>): Promise<void> {
+    const name = inputs.INPUT_NAME ?? "";
+    const [target = "."] = parseWorkspacePaths(inputs.INPUT_PATH || ".");
+
+    const response = await fetch(endpoint(context, "artifacts", name), { headers: authorization(context) });
+    if (response.status === 404) throw new Error(`No artifact named "${name}" was uploaded in this run`);
+    if (!response.ok) throw await failure(response);
+
+    const size = await extractArchive(response, join(context.workspace, target));
+    await context.log(`[Workflow] Downloaded artifact "${name}" (${size} bytes) to ${target}`);
+}
+
+async function restoreCache(
+    context: StorageContext,
+    inputs: Record<string, string>,
+    pending: PendingCache[]
+): Promise<void> {
+    const key = inputs.INPUT_KEY ?? "";
+    const paths = parseWorkspacePaths(inputs.INPUT_PATH ?? "");
+    const query = new URLSearchParams({ key });
+    for (const restoreKey of (inputs["INPUT_RESTORE_KEYS"] ?? "").split("\n").map((line) => line.trim()).filter(Boolean)) {
+        query.append("restoreKey", restoreKey);
+    }
+
+    const response = await fetch(`${endpoint(context, "caches")}?${query}`, { headers: authorization(context) });
+    if (!response.ok) throw await failure(response);
+
+    let hit = false;
+    if (response.status === 204) {
+        await context.log(`[Workflow] No cache found for key "${key}"`);
+    } else {
+        const matched = response.headers.get("X-Cache-Key") ?? "";
+        const size = await extractArchive(response, context.workspace);
+        hit = matched === key;
+        await context.log(`[Workflow] Restored cache "${matched}" (${size} bytes)`);
+    }
+
+    if (!hit) pending.push({ key, paths });
+    if (inputs.GITTIC_OUTPUT) appendFileSync(workspacePath(context, inputs.GITTIC_OUTPUT), `cache-hit=${hit}\n`);
+}
+
+/**
+ * Perform a built-in action step with the inputs the entrypoint
+ * prepared. Returns the step's exit code.
+ */
+export async function runBuiltinStep(
+    action: BuiltinAction,
+    inputs: Record<string, string>,
+    context: StorageContext,
+    pendingCaches: PendingCache[]
+): Promise<number> {
+    try {
+        switch (action) {
+            case "upload-artifact":
+                await uploadArtifact(context, inputs);
+                break;
+            case "download-artifact":
+                await downloadArtifact(context, inputs);
+                break;
+            case "cache":
+                await restoreCache(context, inputs, pendingCaches);
+                break;
+        }
+        return 0;
+    } catch (error: any) {
+        await context.log(`[Workflow Error] ${error.message}`, "error");
+        return 1;
+    }
+}
+
+/**
+ * Save the caches of a job that succeeded. Failing to save one doesn't
+ * fail the job.
+ */
+export async function saveCaches(context: StorageContext, pendingCaches: PendingCache[]): Promise<void> {
+    for (const cache of pendingCaches) {
+        const archive = createArchive(context.workspace, cache.paths);
+        if (!archive) {
+            await context.log(`[Docker] Not saving cache "${cache.key}": none of its paths exist`);
+            continue;
+        }
+
+        try {
+            const response = await fetch(`${endpoint(context, "caches")}?${new URLSearchParams({ key: cache.key })}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/gzip", ...authorization(context) },
+                body: readFileSync(archive.file),
+            });
+            if (response.status === 409) {
+                await context.log(`[Docker] Cache "${cache.key}" was already saved`);
+            } else if (!response.ok) {
+                throw await failure(response);
+            } else {
+                await context.log(`[Docker] Saved cache "${cache.key}"`);
+            }
+        } catch (error: any) {
+            await context.log(`[Docker] Failed to save cache "${cache.key}": ${error.message}`, "error");
+        } finally {
+            archive.dispose();
+        }
+    }
+}
@@ -89,7 +89,7 @@ const PullRequestDetail: React.FC<PullRequestDetailProps> = ({
         return (
           <PullRequestFiles
             files={pullRequest.fileChanges || []}
-            inlineComments={pullRequest.inlineComments}
+            threads={pullRequest.reviewThreads}
             isLoading={isLoading}
           />
         );
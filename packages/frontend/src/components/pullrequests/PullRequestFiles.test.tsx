@@ -0,0 +1,97 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import PullRequestFiles from "./PullRequestFiles";
+import { PRFileChange, PRReviewThread } from "./types";
+
+const file: PRFileChange = {
+  path: "src/app.ts",
+  status: "modified",
+  additions: 1,
+  deletions: 1,
+  changes: 2,
+  patch: "@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three",
+};
+
+const thread = (overrides: Partial<PRReviewThread>): PRReviewThread => ({
+  id: "t1",
+  path: "src/app.ts",
+  side: "RIGHT",
+  line: 2,
+  originalLine: 2,
+  diffHunk: "@@ -1,3 +1,3 @@\n one\n-two\n+TWO",
+  outdated: false,
+  isResolved: false,
+  comments: [
+    {
+      id: "c1",
+      author: { id: "u1", username: "alice" },
+      body: "Why uppercase?",
+      createdAt: "2025-01-10T00:00:00.000Z",
+      updatedAt: "2025-01-10T00:00:00.000Z",
+    },
+  ],
+  ...overrides,
+});
+
+describe("PullRequestFiles", () => {
+  it("shows threads on their diff lines and comments on a line range", async () => {
+    const user = userEvent.setup();
+    const onAddInlineComment = vi.fn().mockResolvedValue(undefined);
+    render(
+      <PullRequestFiles
+        files={[file]}
+        selectedFile="src/app.ts"
+        threads={[thread({}), thread({ id: "t2", line: 1, outdated: true, comments: [{ ...thread({}).comments[0], id: "c2", body: "Stale note" }] })]}
+        onAddInlineComment={onAddInlineComment}
+      />
+    );
+
+    expect(screen.getByText("Why uppercase?")).toBeInTheDocument();
+    expect(screen.getByText("Stale note")).toBeInTheDocument();
+    expect(screen.getByText("Outdated")).toBeInTheDocument();
+
+    await user.click(screen.getByTitle("Comment on line 1"));
+    await user.keyboard("{Shift>}");
+    await user.click(screen.getByTitle("Comment on line 3"));
+    await user.keyboard("{/Shift}");
+    await user.type(screen.getByPlaceholderText("Add a comment..."), "Rename these");
+    await user.click(screen.getByRole("button", { name: "Add single comment" }));
+
+    expect(onAddInlineComment).toHaveBeenCalledWith({
+      filePath: "src/app.ts",
+      line: 3,
+      startLine: 1,
+      side: "RIGHT",
+      body: "Rename these",
+    });
+  });
+
+  it("commits a batch of suggestions together", async () => {
+    const user = userEvent.setup();
+    const onApplySuggestions = vi.fn().mockResolvedValue(undefined);
+    const suggestion = (id: string, line: number) =>
+      thread({
+        id,
+        line,
+        comments: [{ ...thread({}).comments[0], id: `c-${id}`, body: "Try:\n```suggestion\nTwo\n```" }],
+      });
+    render(
+      <PullRequestFiles
+        files={[file]}
+        selectedFile="src/app.ts"
+        threads={[suggestion("t1", 2), suggestion("t2", 3)]}
+        onApplySuggestions={onApplySuggestions}
+      />
+    );
+
+    expect(screen.getAllByText("+Two")).toHaveLength(2);
+    const [first, second] = screen.getAllByRole("button", { name: "Add suggestion to batch" });
+    await user.click(first);
+    await user.click(second);
+    await user.click(screen.getByRole("button", { name: "Commit suggestions" }));
+
+    expect(onApplySuggestions).toHaveBeenCalledWith(["c-t1", "c-t2"]);
+  });
+});
@@ -1,18 +1,86 @@
 import React, { useState } from 'react';
-import { PullRequestFilesProps, AddInlineCommentData } from './types';
+import { PullRequestFilesProps, AddInlineCommentData, PRReviewThread, PRThreadComment } from './types';
+
+/**
+ * One row of a file's diff
+ */
+interface DiffRow {
+    type: 'hunk' | 'add' | 'delete' | 'context';
+    content: string;
+    oldLine?: number;
+    newLine?: number;
+}
+
+/**
+ * Line a comment form is open on, with the first line when it spans several
+ */
+interface CommentTarget {
+    path: string;
+    side: 'LEFT' | 'RIGHT';
+    line: number;
+    startLine?: number;
+}
+
+/**
+ * Split a unified diff patch into rows numbered by their old and new lines
+ */
+const parsePatch = (patch: string): DiffRow[] => {
+    const rows: DiffRow[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const text of patch.split('\n')) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+        if (header) {
+            oldLine = parseInt(header[1], 10);
+            newLine = parseInt(header[2], 10);
+            rows.push({ type: 'hunk', content: text });
+        } else if (text.startsWith('+')) {
+            rows.push({ type: 'add', content: text.slice(1), newLine: newLine++ });
+        } else if (text.startsWith('-')) {
+            rows.push({ type: 'delete', content: text.slice(1), oldLine: oldLine++ });
+        } else if (text.startsWith(' ')) {
+            rows.push({ type: 'context', content: text.slice(1), oldLine: oldLine++, newLine: newLine++ });
+        }
+    }
+    return rows;
+};
+
+/**
+ * Split a comment body into text and ```suggestion blocks
+ */
+const splitSuggestions = (body: string): Array<{ suggestion: boolean; text: string }> => {
+    const parts: Array<{ suggestion: boolean; text: string }> = [];
+    const regex = /^```suggestion[ \t]*\r?\n([\s\S]*?)^```[ \t]*$/gm;
+    let last = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(body)) !== null) {
+        if (match.index > last) parts.push({ suggestion: false, text: body.slice(last, match.index).trim() });
+        parts.push({ suggestion: true, text: match[1].replace(/\n$/, '') });
+        last = match.index + match[0].length;
+    }
+    if (last < body.length) parts.push({ suggestion: false, text: body.slice(last).trim() });
+    return parts.filter((part) => part.suggestion || part.text);
+};
 
 /**
  * PullRequestFiles Component
  *
- * Displays files changed in a pull request with inline commenting capabilities.
- * Shows file diffs, additions/deletions, and allows adding comments on specific lines.
+ * Displays files changed in a pull request with inline review threads.
+ * Shows file diffs line by line, with each thread beneath the last line it
+ * comments on and outdated threads above the diff with the hunk they were
+ * made on.
  *
  * Features:
  * - File list with change statistics
  * - File selection and navigation
  * - Inline diff viewing
- * - Line-by-line commenting
- * - Inline comment display and deletion
+ * - Comments on a line, or a range of lines with shift-click
+ * - Replies, and resolving or unresolving threads
+ * - Pending review comments, submitted together with the review
+ * - Suggested changes, committed one at a time or as a batch
+ * - Outdated thread tracking
  * - Loading and error states
  * - File type icons
  * - Search/filter files
@@ -21,18 +89,22 @@ import { PullRequestFilesProps, AddInlineCommentData } from './types';
  * ```tsx
  * <PullRequestFiles
  *   files={fileChanges}
- *   inlineComments={comments}
+ *   threads={reviewThreads}
  *   onSelectFile={handleSelectFile}
  * />
  * ```
  */
 const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
     files,
-    inlineComments = [],
+    threads = [],
     selectedFile,
     onSelectFile,
     onAddInlineComment,
+    onReplyToThread,
+    onResolveThread,
     onDeleteInlineComment,
+    onApplySuggestions,
+    hasPendingReview = false,
     isLoading = false,
     className = '',
 }) => {
@@ -40,9 +112,12 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
     const [expandedFiles, setExpandedFiles] = useState<Set<string>>(
         selectedFile ? new Set([selectedFile]) : new Set()
     );
-    const [commentingLine, setCommentingLine] = useState<string | null>(null);
+    const [commentTarget, setCommentTarget] = useState<CommentTarget | null>(null);
     const [commentText, setCommentText] = useState('');
+    const [replyText, setReplyText] = useState<Record<string, string>>({});
+    const [shownResolved, setShownResolved] = useState<Set<string>>(new Set());
     const [submitLoading, setSubmitLoading] = useState(false);
+    const [suggestionBatch, setSuggestionBatch] = useState<string[]>([]);
 
     /**
      * Get file icon based on file extension
@@ -101,24 +176,59 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
         onSelectFile?.(path);
     };
 
+    /**
+     * Side and line a diff row is commented on: deleted lines only exist on
+     * the old (LEFT) side
+     */
+    const anchorOf = (row: DiffRow): { side: 'LEFT' | 'RIGHT'; line: number } | null => {
+        if (row.type === 'hunk') return null;
+        return row.type === 'delete'
+            ? { side: 'LEFT', line: row.oldLine! }
+            : { side: 'RIGHT', line: row.newLine! };
+    };
+
+    /**
+     * Open the comment form on a line; shift-click extends an open form on
+     * the same side of the file into a range
+     */
+    const handleLineClick = (path: string, row: DiffRow, extend: boolean) => {
+        const anchor = anchorOf(row);
+        if (!anchor) return;
+
+        if (extend && commentTarget?.path === path && commentTarget.side === anchor.side) {
+            const first = commentTarget.startLine ?? commentTarget.line;
+            setCommentTarget({
+                path,
+                side: anchor.side,
+                startLine: Math.min(first, anchor.line),
+                line: Math.max(first, anchor.line),
+            });
+            return;
+        }
+        setCommentTarget({ path, ...anchor });
+    };
+
     /**
      * Handle adding inline comment
      */
-    const handleAddComment = async (path: string, line: number) => {
-        if (!commentText.trim()) {
+    const handleAddComment = async (pending: boolean) => {
+        if (!commentTarget || !commentText.trim()) {
             return;
         }
 
         setSubmitLoading(true);
         try {
             const data: AddInlineCommentData = {
-                filePath: path,
-                line,
+                filePath: commentTarget.path,
+                line: commentTarget.line,
+                startLine: commentTarget.startLine !== commentTarget.line ? commentTarget.startLine : undefined,
+                side: commentTarget.side,
                 body: commentText,
+                pending: pending || undefined,
             };
             await onAddInlineComment?.(data);
             setCommentText('');
-            setCommentingLine(null);
+            setCommentTarget(null);
         } catch (error) {
             console.error('Failed to add comment:', error);
         } finally {
@@ -127,14 +237,247 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
     };
 
     /**
-     * Get inline comments for specific line
+     * Handle replying to a thread
+     */
+    const handleReply = async (threadId: string) => {
+        const body = replyText[threadId]?.trim();
+        if (!body) {
+            return;
+        }
+
+        setSubmitLoading(true);
+        try {
+            await onReplyToThread?.(threadId, body);
+            setReplyText((current) => ({ ...current, [threadId]: '' }));
+        } catch (error) {
+            console.error('Failed to reply:', error);
+        } finally {
+            setSubmitLoading(false);
+        }
+    };
+
+    /**
+     * Commit suggestions, clearing them from the batch
+     */
+    const handleApplySuggestions = async (commentIds: string[]) => {
+        setSubmitLoading(true);
+        try {
+            await onApplySuggestions?.(commentIds);
+            setSuggestionBatch((batch) => batch.filter((id) => !commentIds.includes(id)));
+        } catch (error) {
+            console.error('Failed to apply suggestions:', error);
+        } finally {
+            setSubmitLoading(false);
+        }
+    };
+
+    /**
+     * Get the current threads ending on a line of a file
      */
-    const getCommentsForLine = (path: string, line: number) => {
-        return inlineComments.filter(
-            (comment) => comment.path === path && comment.line === line
+    const getThreadsForLine = (path: string, row: DiffRow) => {
+        return threads.filter(
+            (thread) =>
+                !thread.outdated &&
+                thread.path === path &&
+                (thread.side === 'LEFT'
+                    ? row.type !== 'add' && thread.line === row.oldLine
+                    : row.type !== 'delete' && thread.line === row.newLine)
         );
     };
 
+    /**
+     * Whether a row lies within the lines the comment form is open on
+     */
+    const isTargeted = (path: string, row: DiffRow) => {
+        const anchor = anchorOf(row);
+        if (!commentTarget || !anchor || commentTarget.path !== path || commentTarget.side !== anchor.side) {
+            return false;
+        }
+        return anchor.line >= (commentTarget.startLine ?? commentTarget.line) && anchor.line <= commentTarget.line;
+    };
+
+    const renderCommentBody = (thread: PRReviewThread, comment: PRThreadComment) => {
+        const parts = splitSuggestions(comment.body);
+        const applicable =
+            onApplySuggestions &&
+            !comment.pending &&
+            !comment.suggestionAppliedCommitId &&
+            !thread.outdated &&
+            thread.side === 'RIGHT' &&
+            parts.filter((part) => part.suggestion).length === 1;
+        const inBatch = suggestionBatch.includes(comment.id);
+
+        return parts.map((part, index) =>
+            part.suggestion ? (
+                <div key={index} className="suggested-change">
+                    <div className="suggestion-header">Suggested change</div>
+                    <pre className="suggestion-diff">
+                        {part.text === '' ? '(delete these lines)' : part.text.split('\n').map((line) => `+${line}`).join('\n')}
+                    </pre>
+                    {comment.suggestionAppliedCommitId && (
+                        <span className="suggestion-applied">
+                            Applied in {comment.suggestionAppliedCommitId.slice(0, 7)}
+                        </span>
+                    )}
+                    {applicable && (
+                        <div className="suggestion-actions">
+                            <button
+                                onClick={() => handleApplySuggestions([comment.id])}
+                                disabled={submitLoading}
+                                className="btn btn-primary btn-sm"
+                            >
+                                Commit suggestion
+                            </button>
+                            <button
+                                onClick={() =>
+                                    setSuggestionBatch((batch) =>
+                                        inBatch ? batch.filter((id) => id !== comment.id) : [...batch, comment.id]
+                                    )
+                                }
+                                disabled={submitLoading}
+                                className="btn btn-secondary btn-sm"
+                            >
+                                {inBatch ? 'Remove from batch' : 'Add suggestion to batch'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <p key={index} className="comment-body">{part.text}</p>
+            )
+        );
+    };
+
+    const renderThread = (thread: PRReviewThread) => {
+        const collapsed = thread.isResolved && !shownResolved.has(thread.id);
+        const lines = thread.startLine ? `lines ${thread.startLine}–${thread.line}` : `line ${thread.line}`;
+
+        return (
+            <div key={thread.id} className={`review-thread ${thread.isResolved ? 'resolved' : ''}`}>
+                <div className="thread-header">
+                    <span className="thread-lines">
+                        Comment on {lines}
+                        {thread.outdated && <span className="outdated-badge">Outdated</span>}
+                    </span>
+                    {thread.isResolved && (
+                        <button
+                            onClick={() => {
+                                const next = new Set(shownResolved);
+                                if (collapsed) next.add(thread.id);
+                                else next.delete(thread.id);
+                                setShownResolved(next);
+                            }}
+                            className="btn btn-link btn-sm"
+                        >
+                            {collapsed
+                                ? `Resolved by ${thread.resolvedBy ?? 'someone'} · Show`
+                                : 'Hide resolved'}
+                        </button>
+                    )}
+                </div>
+
+                {!collapsed && (
+                    <>
+                        {thread.outdated && thread.diffHunk && (
+                            <pre className="thread-diff-hunk">{thread.diffHunk}</pre>
+                        )}
+                        {thread.comments.map((comment) => (
+                            <div key={comment.id} className="inline-comment">
+                                <div className="comment-header">
+                                    <strong>{comment.author.username}</strong>
+                                    {comment.pending && <span className="pending-badge">Pending</span>}
+                                    {onDeleteInlineComment && (
+                                        <button
+                                            onClick={() => onDeleteInlineComment(comment.id, thread.id)}
+                                            className="delete-btn"
+                                            title="Delete comment"
+                                        >
+                                            ×
+                                        </button>
+                                    )}
+                                </div>
+                                {renderCommentBody(thread, comment)}
+                            </div>
+                        ))}
+
+                        <div className="thread-actions">
+                            {onReplyToThread && (
+                                <div className="reply-form">
+                                    <textarea
+                                        value={replyText[thread.id] ?? ''}
+                                        onChange={(e) =>
+                                            setReplyText((current) => ({ ...current, [thread.id]: e.target.value }))
+                                        }
+                                        placeholder="Reply..."
+                                        className="comment-input"
+                                        rows={2}
+                                        disabled={submitLoading}
+                                    />
+                                    <button
+                                        onClick={() => handleReply(thread.id)}
+                                        disabled={submitLoading || !replyText[thread.id]?.trim()}
+                                        className="btn btn-primary btn-sm"
+                                    >
+                                        Reply
+                                    </button>
+                                </div>
+                            )}
+                            {onResolveThread && (
+                                <button
+                                    onClick={() => onResolveThread(thread.id, !thread.isResolved)}
+                                    className="btn btn-secondary btn-sm"
+                                >
+                                    {thread.isResolved ? 'Unresolve conversation' : 'Resolve conversation'}
+                                </button>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    const renderCommentForm = () => (
+        <div className="add-comment-form">
+            <textarea
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                placeholder="Add a comment..."
+                className="comment-input"
+                rows={3}
+                disabled={submitLoading}
+            />
+            <div className="form-actions">
+                {!hasPendingReview && (
+                    <button
+                        onClick={() => handleAddComment(false)}
+                        disabled={submitLoading || !commentText.trim()}
+                        className="btn btn-secondary btn-sm"
+                    >
+                        Add single comment
+                    </button>
+                )}
+                <button
+                    onClick={() => handleAddComment(true)}
+                    disabled={submitLoading || !commentText.trim()}
+                    className="btn btn-primary btn-sm"
+                >
+                    {hasPendingReview ? 'Add review comment' : 'Start a review'}
+                </button>
+                <button
+                    onClick={() => {
+                        setCommentTarget(null);
+                        setCommentText('');
+                    }}
+                    disabled={submitLoading}
+                    className="btn btn-secondary btn-sm"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+
     /**
      * Filter files based on search
      */
@@ -181,6 +524,19 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
                 </div>
             </div>
 
+            {suggestionBatch.length > 0 && (
+                <div className="suggestion-batch">
+                    <span>{suggestionBatch.length} suggestion(s) in batch</span>
+                    <button
+                        onClick={() => handleApplySuggestions(suggestionBatch)}
+                        disabled={submitLoading}
+                        className="btn btn-primary btn-sm"
+                    >
+                        Commit suggestions
+                    </button>
+                </div>
+            )}
+
             <div className="files-summary">
                 <span className="summary-item additions">
                     +{files.reduce((sum, f) => sum + f.additions, 0)} additions
@@ -193,7 +549,8 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
             <div className="files-list">
                 {filteredFiles.map((file) => {
                     const isExpanded = expandedFiles.has(file.path);
-                    const comments = getCommentsForLine(file.path, 0);
+                    const fileThreads = threads.filter((thread) => thread.path === file.path);
+                    const outdated = fileThreads.filter((thread) => thread.outdated);
 
                     return (
                         <div key={file.path} className={`file-item ${getStatusClass(file.status)}`}>
@@ -214,6 +571,9 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
                                 </div>
 
                                 <div className="file-stats">
+                                    {fileThreads.length > 0 && (
+                                        <span className="stat comments">💬 {fileThreads.length}</span>
+                                    )}
                                     <span className="stat additions">+{file.additions}</span>
                                     <span className="stat deletions">-{file.deletions}</span>
                                     <span className="status-badge">{file.status}</span>
@@ -223,79 +583,66 @@ const PullRequestFiles: React.FC<PullRequestFilesProps> = ({
 
                             {isExpanded && (
                                 <div className="file-content">
+                                    {outdated.length > 0 && (
+                                        <div className="outdated-threads">
+                                            {outdated.map(renderThread)}
+                                        </div>
+                                    )}
+
                                     {file.patch ? (
                                         <div className="file-diff">
-                                            <pre className="diff-content">{file.patch}</pre>
+                                            <table className="diff-table">
+                                                <tbody>
+                                                    {parsePatch(file.patch).map((row, index) => {
+                                                        const anchor = anchorOf(row);
+                                                        const lineThreads = getThreadsForLine(file.path, row);
+                                                        const formHere =
+                                                            anchor &&
+                                                            commentTarget?.path === file.path &&
+                                                            commentTarget.side === anchor.side &&
+                                                            commentTarget.line === anchor.line;
+
+                                                        return (
+                                                            <React.Fragment key={index}>
+                                                                <tr
+                                                                    className={`diff-line diff-${row.type} ${isTargeted(file.path, row) ? 'targeted' : ''}`}
+                                                                >
+                                                                    <td className="line-number">{row.oldLine ?? ''}</td>
+                                                                    <td className="line-number">{row.newLine ?? ''}</td>
+                                                                    <td className="line-action">
+                                                                        {anchor && onAddInlineComment && (
+                                                                            <button
+                                                                                onClick={(e) => handleLineClick(file.path, row, e.shiftKey)}
+                                                                                className="add-line-comment"
+                                                                                title={`Comment on line ${anchor.line}`}
+                                                                            >
+                                                                                +
+                                                                            </button>
+                                                                        )}
+                                                                    </td>
+                                                                    <td className="line-content">
+                                                                        <pre>{row.type === 'hunk' ? row.content : `${row.type === 'add' ? '+' : row.type === 'delete' ? '-' : ' '}${row.content}`}</pre>
+                                                                    </td>
+                                                                </tr>
+                                                                {(lineThreads.length > 0 || formHere) && (
+                                                                    <tr className="diff-threads">
+                                                                        <td colSpan={4}>
+                                                                            {lineThreads.map(renderThread)}
+                                                                            {formHere && renderCommentForm()}
+                                                                        </td>
+                                                                    </tr>
+                                                                )}
+                                                            </React.Fragment>
+                                                        );
+                                                    })}
+                                                </tbody>
+                                            </table>
                                         </div>
                                     ) : (
                                         <div className="file-content-placeholder">
                                             <p>Diff not available for this file</p>
                                         </div>
                                     )}
-
-                                    <div className="file-comments">
-                                        {comments.length > 0 &&
-                                            comments.map((comment) => (
-                                                <div key={comment.id} className="inline-comment">
-                                                    <div className="comment-header">
-                                                        <strong>{comment.author.username}</strong>
-                                                        <button
-                                                            onClick={() =>
-                                                                onDeleteInlineComment?.(comment.id)
-                                                            }
-                                                            className="delete-btn"
-                                                            title="Delete comment"
-                                                        >
-                                                            ×
-                                                        </button>
-                                                    </div>
-                                                    <p className="comment-body">{comment.body}</p>
-                                                </div>
-                                            ))}
-                                    </div>
-
-                                    {commentingLine === file.path ? (
-                                        <div className="add-comment-form">
-                                            <textarea
-                                                value={commentText}
-                                                onChange={(e) => setCommentText(e.target.value)}
-                                                placeholder="Add a comment..."
-                                                className="comment-input"
-                                                rows={3}
-                                                disabled={submitLoading}
-                                            />
-                                            <div className="form-actions">
-                                                <button
-                                                    onClick={() =>
-                                                        handleAddComment(file.path, 0)
-                                                    }
-                                                    disabled={
-                                                        submitLoading || !commentText.trim()
-                                                    }
-                                                    className="btn btn-primary btn-sm"
-                                                >
-                                                    {submitLoading ? 'Posting...' : 'Comment'}
-                                                </button>
-                                                <button
-                                                    onClick={() => {
-                                                        setCommentingLine(null);
-                                                        setCommentText('');
-                                                    }}
-                                                    disabled={submitLoading}
-                                                    className="btn btn-secondary btn-sm"
-                                                >
-                                                    Cancel
-                                                </button>
-                                            </div>
-                                        </div>
-                                    ) : (
-                                        <button
-                                            onClick={() => setCommentingLine(file.path)}
-                                            className="btn btn-outline btn-sm"
-                                        >
-                                            💬 Add comment
-                                        </button>
-                                    )}
                                 </div>
                             )}
                         </div>
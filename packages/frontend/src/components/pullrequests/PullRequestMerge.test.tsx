@@ -0,0 +1,57 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import PullRequestMerge from "./PullRequestMerge";
+import { PullRequest } from "./types";
+
+const pullRequest: PullRequest = {
+  id: "pr-1",
+  number: 101,
+  title: "Add merge queue",
+  description: "",
+  status: "open",
+  author: { id: "u1", username: "alice" },
+  head: { name: "feature/queue", sha: "abc" },
+  base: { name: "main", sha: "def" },
+  commits: 2,
+  additions: 10,
+  deletions: 1,
+  changedFiles: 1,
+  createdAt: "2025-01-10T00:00:00.000Z",
+  updatedAt: "2025-01-10T00:00:00.000Z",
+  isDraft: false,
+  mergeable: true,
+  requiresMergeQueue: true,
+};
+
+describe("PullRequestMerge", () => {
+  it("adds the pull request to the merge queue instead of merging it", async () => {
+    const user = userEvent.setup();
+    const onAddToMergeQueue = vi.fn().mockResolvedValue(undefined);
+    const onMerge = vi.fn();
+
+    render(<PullRequestMerge pullRequest={pullRequest} onMerge={onMerge} onAddToMergeQueue={onAddToMergeQueue} />);
+    await user.click(screen.getByRole("button", { name: /Add to merge queue/ }));
+
+    expect(onAddToMergeQueue).toHaveBeenCalledWith("create_a_merge_commit");
+    expect(onMerge).not.toHaveBeenCalled();
+  });
+
+  it("shows the queue position and lets the pull request leave the queue", async () => {
+    const user = userEvent.setup();
+    const onRemoveFromMergeQueue = vi.fn().mockResolvedValue(undefined);
+    const queued: PullRequest = {
+      ...pullRequest,
+      mergeQueue: { state: "queued", position: 2, queueLength: 3, enqueuedAt: "2025-01-11T00:00:00.000Z" },
+    };
+
+    render(<PullRequestMerge pullRequest={queued} onRemoveFromMergeQueue={onRemoveFromMergeQueue} />);
+
+    expect(screen.getByText("Queued to merge: position 2 of 3 in the main merge queue")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /Add to merge queue/ })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Remove from queue" }));
+    expect(onRemoveFromMergeQueue).toHaveBeenCalled();
+  });
+});
@@ -19,6 +19,7 @@ import {
  * - Merge button with loading states
  * - Delete branch after merge option
  * - Close PR without merging
+ * - Merge queue position, when the base branch requires a merge queue
  * - Merge history/timeline
  *
  * @example
@@ -38,6 +39,8 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
   onSquashMerge,
   onRebaseMerge,
   onClosePR,
+  onAddToMergeQueue,
+  onRemoveFromMergeQueue,
   className = '',
 }) => {
   const [selectedStrategy, setSelectedStrategy] = useState<MergeStrategy>(
@@ -48,6 +51,8 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [actionError, setActionError] = useState<string | null>(error);
+  const queueEntry = pullRequest.mergeQueue;
+  const isQueued = pullRequest.status === 'open' && queueEntry?.state === 'queued';
 
   /**
    * Determine merge status styling and message
@@ -71,6 +76,24 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
       };
     }
 
+    if (isQueued) {
+      return {
+        status: 'queued',
+        label: `Queued to merge: position ${queueEntry!.position} of ${queueEntry!.queueLength} in the ${pullRequest.base.name} merge queue`,
+        icon: '⏳',
+        color: 'info',
+      };
+    }
+
+    if (queueEntry?.state === 'failed') {
+      return {
+        status: 'ejected',
+        label: `Removed from the merge queue: ${queueEntry.failureReason ?? 'checks failed'}`,
+        icon: '✗',
+        color: 'danger',
+      };
+    }
+
     if (pullRequest.mergeConflict) {
       return {
         status: 'conflict',
@@ -123,7 +146,9 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
     setActionError(null);
 
     try {
-      if (selectedStrategy === 'create_a_merge_commit') {
+      if (pullRequest.requiresMergeQueue) {
+        await onAddToMergeQueue?.(selectedStrategy);
+      } else if (selectedStrategy === 'create_a_merge_commit') {
         await onMerge?.(selectedStrategy, customMessage || undefined);
       } else if (selectedStrategy === 'squash_and_merge') {
         await onSquashMerge?.(customMessage || undefined);
@@ -139,6 +164,24 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
     }
   };
 
+  /**
+   * Handle removing the PR from the merge queue
+   */
+  const handleDequeueClick = async () => {
+    setActionLoading('dequeue');
+    setActionError(null);
+
+    try {
+      await onRemoveFromMergeQueue?.();
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : 'Failed to remove pull request from the merge queue'
+      );
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   /**
    * Handle close PR action
    */
@@ -163,7 +206,7 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
 
   const mergeStatus = getMergeStatusDisplay();
   const canMerge =
-    pullRequest.status === 'open' && !pullRequest.mergeConflict && pullRequest.mergeable;
+    pullRequest.status === 'open' && !pullRequest.mergeConflict && pullRequest.mergeable && !isQueued;
 
   return (
     <div className={`pr-merge ${className}`}>
@@ -304,7 +347,9 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
                 }`}
               >
                 {actionLoading === 'merge' ? (
-                  <>⏳ Merging...</>
+                  pullRequest.requiresMergeQueue ? <>⏳ Adding to queue...</> : <>⏳ Merging...</>
+                ) : pullRequest.requiresMergeQueue ? (
+                  <>✓ Add to merge queue</>
                 ) : (
                   <>✓ Merge pull request</>
                 )}
@@ -328,6 +373,22 @@ const PullRequestMerge: React.FC<PullRequestMergeProps> = ({
         {/* Already Merged/Closed State */}
         {!canMerge && (
           <div className="merge-finished">
+            {isQueued && (
+              <div className="merge-queue-info">
+                <p>
+                  This pull request will be merged into <strong>{pullRequest.base.name}</strong> once
+                  the checks pass with the pull requests ahead of it.
+                </p>
+                <button
+                  onClick={handleDequeueClick}
+                  disabled={isLoading || actionLoading !== null}
+                  className="btn btn-outline"
+                >
+                  {actionLoading === 'dequeue' ? <>⏳ Removing...</> : <>Remove from queue</>}
+                </button>
+              </div>
+            )}
+
             {pullRequest.status === 'merged' && (
               <div className="finished-info">
                 <p>
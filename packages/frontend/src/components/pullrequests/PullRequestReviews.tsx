@@ -14,6 +14,8 @@ import { PullRequestReviewsProps, ReviewDecision } from './types';
  * - Review state indicators (approved, changes requested, commented)
  * - Loading and error states
  * - Current user review capability check
+ * - Pending review comments submitted with the review
+ * - Dismissed approval indicators
  *
  * @example
  * ```tsx
@@ -28,10 +30,12 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
   reviews,
   currentUserCanReview = false,
   reviewDecision,
+  pendingCommentCount = 0,
   isLoading = false,
   onApprove,
   onRequestChanges,
   onComment,
+  onDiscardPendingReview,
   className = '',
 }) => {
   const [showReviewForm, setShowReviewForm] = useState(false);
@@ -124,7 +128,7 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
    * Handle comment action
    */
   const handleComment = async () => {
-    if (!reviewComment.trim()) {
+    if (!reviewComment.trim() && pendingCommentCount === 0) {
       setSubmitError('Please enter a comment');
       return;
     }
@@ -157,7 +161,7 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
   }
 
   const decisionCounts = {
-    approved: reviews.filter((r) => r.decision === 'approved').length,
+    approved: reviews.filter((r) => r.decision === 'approved' && !r.dismissed).length,
     changes_requested: reviews.filter(
       (r) => r.decision === 'changes_requested'
     ).length,
@@ -187,6 +191,24 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
         </div>
       </div>
 
+      {pendingCommentCount > 0 && (
+        <div className="pending-review-banner">
+          <span>
+            Your review has {pendingCommentCount} pending comment
+            {pendingCommentCount !== 1 ? 's' : ''}, published when you submit it.
+          </span>
+          {onDiscardPendingReview && (
+            <button
+              onClick={onDiscardPendingReview}
+              disabled={submitLoading}
+              className="btn btn-outline btn-sm"
+            >
+              Discard review
+            </button>
+          )}
+        </div>
+      )}
+
       {currentUserCanReview && !showReviewForm && (
         <div className="review-actions">
           <button
@@ -262,7 +284,7 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
             {reviewAction === 'comment' && (
               <button
                 onClick={handleComment}
-                disabled={submitLoading || !reviewComment.trim()}
+                disabled={submitLoading || (!reviewComment.trim() && pendingCommentCount === 0)}
                 className="btn btn-secondary"
               >
                 {submitLoading ? 'Commenting...' : 'Comment'}
@@ -300,6 +322,9 @@ const PullRequestReviews: React.FC<PullRequestReviewsProps> = ({
                     <span className={`review-decision ${badge.class}`}>
                       {badge.label}
                     </span>
+                    {review.dismissed && (
+                      <span className="review-dismissed">Dismissed</span>
+                    )}
                   </div>
                   <span className="review-date">
                     {new Date(review.createdAt).toLocaleDateString()}
@@ -64,6 +64,8 @@ export interface PRReview {
   comment?: string;
   createdAt: string;
   updatedAt: string;
+  /** Approval dismissed because new commits were pushed */
+  dismissed?: boolean;
 }
 
 /**
@@ -129,6 +131,39 @@ export interface PRInlineComment extends PRComment {
   side?: 'LEFT' | 'RIGHT';
 }
 
+/**
+ * Comment in a review thread
+ */
+export interface PRThreadComment {
+  id: string;
+  author: PRUser;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Part of the viewer's pending review, which only they can see */
+  pending?: boolean;
+  /** Commit that applied the comment's suggested change */
+  suggestionAppliedCommitId?: string | null;
+}
+
+/**
+ * Review comments anchored to a line range of the diff, with their replies.
+ * An outdated thread's lines changed since; it shows the diff it was made on.
+ */
+export interface PRReviewThread {
+  id: string;
+  path: string;
+  side: 'LEFT' | 'RIGHT';
+  line: number;
+  startLine?: number | null;
+  originalLine: number;
+  diffHunk: string;
+  outdated: boolean;
+  isResolved: boolean;
+  resolvedBy?: string | null;
+  comments: PRThreadComment[];
+}
+
 /**
  * CI/CD Check run
  */
@@ -170,6 +205,18 @@ export interface PRStatusCheck {
   updatedAt: string;
 }
 
+/**
+ * Place of a pull request in its base branch's merge queue
+ */
+export interface PRMergeQueueEntry {
+  state: 'queued' | 'failed';
+  /** 1 for the front of the queue; null once removed for failing */
+  position: number | null;
+  queueLength: number;
+  failureReason?: string | null;
+  enqueuedAt: string;
+}
+
 /**
  * Pull Request main entity
  */
@@ -202,6 +249,7 @@ export interface PullRequest {
   comments?: PRComment[];
   fileChanges?: PRFileChange[];
   inlineComments?: PRInlineComment[];
+  reviewThreads?: PRReviewThread[];
   commits_list?: PRCommit[];
   mergeStatus?: MergeStatus;
   mergeable?: boolean;
@@ -209,6 +257,9 @@ export interface PullRequest {
   allowSquashMerge?: boolean;
   allowRebaseMerge?: boolean;
   allowAutoMerge?: boolean;
+  /** The base branch lands pull requests through a merge queue */
+  requiresMergeQueue?: boolean;
+  mergeQueue?: PRMergeQueueEntry | null;
 }
 
 /**
@@ -293,10 +344,13 @@ export interface PullRequestReviewsProps {
   reviews: PRReview[];
   currentUserCanReview?: boolean;
   reviewDecision?: ReviewDecision;
+  /** Comments in the current user's pending review, submitted with it */
+  pendingCommentCount?: number;
   isLoading?: boolean;
   onApprove?: () => Promise<void>;
   onRequestChanges?: (comment: string) => Promise<void>;
   onComment?: (comment: string) => Promise<void>;
+  onDiscardPendingReview?: () => Promise<void>;
   className?: string;
 }
 
@@ -318,11 +372,17 @@ export interface PullRequestConversationProps {
  */
 export interface PullRequestFilesProps {
   files: PRFileChange[];
-  inlineComments?: PRInlineComment[];
+  threads?: PRReviewThread[];
   selectedFile?: string;
   onSelectFile?: (path: string) => void;
   onAddInlineComment?: (data: AddInlineCommentData) => Promise<void>;
-  onDeleteInlineComment?: (commentId: string) => Promise<void>;
+  onReplyToThread?: (threadId: string, body: string) => Promise<void>;
+  onResolveThread?: (threadId: string, resolved: boolean) => Promise<void>;
+  onDeleteInlineComment?: (commentId: string, threadId: string) => Promise<void>;
+  /** Commit the suggested changes in the given comments */
+  onApplySuggestions?: (commentIds: string[]) => Promise<void>;
+  /** Whether the current user has a pending review to add comments to */
+  hasPendingReview?: boolean;
   isLoading?: boolean;
   className?: string;
 }
@@ -333,8 +393,12 @@ export interface PullRequestFilesProps {
 export interface AddInlineCommentData {
   filePath: string;
   line: number;
+  /** First line of a multi-line comment */
+  startLine?: number;
   body: string;
   side?: 'LEFT' | 'RIGHT';
+  /** Add to the pending review instead of posting right away */
+  pending?: boolean;
 }
 
 /**
@@ -370,6 +434,8 @@ export interface PullRequestMergeProps {
   onSquashMerge?: (commitMessage?: string) => Promise<void>;
   onRebaseMerge?: (commitMessage?: string) => Promise<void>;
   onClosePR?: () => Promise<void>;
+  onAddToMergeQueue?: (strategy: MergeStrategy) => Promise<void>;
+  onRemoveFromMergeQueue?: () => Promise<void>;
   className?: string;
 }
 
@@ -1,6 +1,8 @@
 import React, { useState } from "react";
 import { Copy, X, Download, GitBranch } from "lucide-react";
 import { Button, Input } from "../ui";
+import { useApi } from "../../hooks/useApi";
+import { api } from "../../services/api-client";
 
 interface CloneModalProps {
   isOpen: boolean;
@@ -17,6 +19,10 @@ export const CloneModal: React.FC<CloneModalProps> = ({
 }) => {
   const [cloneUrl, setCloneUrl] = useState(repositoryUrl);
   const [copied, setCopied] = useState(false);
+  const { data: repository } = useApi<{ sshUrl?: string | null }>(
+    () => api.get<{ sshUrl?: string | null }>(`/repositories/${repositoryUrl}`),
+    [repositoryUrl],
+  );
 
   const handleCopy = async () => {
     try {
@@ -28,8 +34,8 @@ export const CloneModal: React.FC<CloneModalProps> = ({
     }
   };
 
-  const httpsUrl = `https://github.com/${repositoryUrl}.git`;
-  const sshUrl = `git@github.com:${repositoryUrl}.git`;
+  const httpsUrl = `${window.location.origin}/${repositoryUrl}.git`;
+  const sshUrl = repository?.sshUrl ?? null;
   const githubCliUrl = `gh repo clone ${repositoryUrl}`;
 
   if (!isOpen) return null;
@@ -79,31 +85,33 @@ export const CloneModal: React.FC<CloneModalProps> = ({
             </div>
 
             {/* SSH */}
-            <div>
-              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-                <GitBranch className="w-4 h-4" />
-                SSH
-              </label>
-              <div className="flex gap-2">
-                <Input
-                  value={sshUrl}
-                  readOnly
-                  className="flex-1 font-mono text-sm"
-                />
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    setCloneUrl(sshUrl);
-                    handleCopy();
-                  }}
-                  className="flex items-center gap-2"
-                >
-                  <Copy className="w-4 h-4" />
-                  {copied && cloneUrl === sshUrl ? "Copied!" : "Copy"}
-                </Button>
+            {sshUrl && (
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                  <GitBranch className="w-4 h-4" />
+                  SSH
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    value={sshUrl}
+                    readOnly
+                    className="flex-1 font-mono text-sm"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setCloneUrl(sshUrl);
+                      handleCopy();
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <Copy className="w-4 h-4" />
+                    {copied && cloneUrl === sshUrl ? "Copied!" : "Copy"}
+                  </Button>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* GitHub CLI */}
             <div>
@@ -138,7 +146,9 @@ export const CloneModal: React.FC<CloneModalProps> = ({
             <h3 className="text-sm font-medium text-gray-700 mb-2">How to clone:</h3>
             <div className="text-sm text-gray-600 space-y-1">
               <p><strong>HTTPS:</strong> <code className="bg-gray-200 px-1 rounded">git clone {httpsUrl}</code></p>
-              <p><strong>SSH:</strong> <code className="bg-gray-200 px-1 rounded">git clone {sshUrl}</code></p>
+              {sshUrl && (
+                <p><strong>SSH:</strong> <code className="bg-gray-200 px-1 rounded">git clone {sshUrl}</code></p>
+              )}
               <p><strong>GitHub CLI:</strong> <code className="bg-gray-200 px-1 rounded">{githubCliUrl}</code></p>
             </div>
           </div>
@@ -15,6 +15,14 @@ export interface FileTreeItem {
     lastCommitDate?: string;
     lastCommitHash?: string;
     lastCommitMessage?: string;
+    /** Set when the file is a Git LFS pointer; `size` is then the object's size. */
+    lfs?: { oid: string; size: number };
+}
+
+interface BlobResponse {
+    content: string;
+    path: string;
+    lfs?: { oid: string; size: number; downloadUrl: string };
 }
 
 interface FileBrowserProps {
@@ -103,6 +111,7 @@ export const AdvancedFileBrowser: React.FC<AdvancedFileBrowserProps> = ({ owner,
     const [newFolderName, setNewFolderName] = useState("");
     const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
     const [selectedFileContent, setSelectedFileContent] = useState<string>("");
+    const [selectedFileLfs, setSelectedFileLfs] = useState<BlobResponse["lfs"]>(undefined);
     const [loadingFileContent, setLoadingFileContent] = useState(false);
     const [searchParams] = useSearchParams();
     const toast = useToast();
@@ -205,11 +214,12 @@ export const AdvancedFileBrowser: React.FC<AdvancedFileBrowserProps> = ({ owner,
         } else {
             try {
                 setLoadingFileContent(true);
-                const response = await api.get<{ content: string; path: string }>(
+                const response = await api.get<BlobResponse>(
                     `/repositories/${owner}/${repo}/blob/${branch}/${item.path}`,
                 );
                 setSelectedFilePath(item.path);
                 setSelectedFileContent(response.data.content || "");
+                setSelectedFileLfs(response.data.lfs);
             } catch {
                 showToast("Failed to load file", "error");
             } finally {
@@ -432,6 +442,20 @@ export const AdvancedFileBrowser: React.FC<AdvancedFileBrowserProps> = ({ owner,
                                             : `${(item.size / (1024 * 1024)).toFixed(1)} MB`}
                                 </span>
                             )}
+                            {item.lfs && (
+                                <span
+                                    title="Stored with Git LFS"
+                                    style={{
+                                        fontSize: "11px",
+                                        padding: "0 6px",
+                                        borderRadius: "10px",
+                                        border: "1px solid var(--border-color)",
+                                        color: "var(--text-secondary)",
+                                    }}
+                                >
+                                    LFS
+                                </span>
+                            )}
                         </div>
                         <button
                             style={{
@@ -498,9 +522,18 @@ export const AdvancedFileBrowser: React.FC<AdvancedFileBrowserProps> = ({ owner,
                     {loadingFileContent
                         ? "Loading file..."
                         : selectedFilePath
-                            ? selectedFileContent || "(Empty file)"
+                            ? selectedFileLfs
+                                ? `Stored with Git LFS (${selectedFileLfs.size} bytes, oid ${selectedFileLfs.oid.slice(0, 12)})`
+                                : selectedFileContent || "(Empty file)"
                             : "Open a file from the list above to see its code."}
                 </pre>
+                {!loadingFileContent && selectedFileLfs && (
+                    <div style={{ padding: "0 16px 16px" }}>
+                        <a href={selectedFileLfs.downloadUrl} style={actionButtonStyle} download>
+                            ⬇️ Download
+                        </a>
+                    </div>
+                )}
             </div>
         </div>
     );
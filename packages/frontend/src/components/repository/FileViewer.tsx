@@ -29,6 +29,7 @@ export const FileViewer: React.FC<FileViewerProps> = ({
     content: string;
     encoding: string;
     size: number;
+    lfs?: { oid: string; size: number; downloadUrl: string };
   }>(
     () => api.get(`/repositories/${owner}/${repo}/blob/${branch}/${filePath}`),
     [owner, repo, branch, filePath],
@@ -46,6 +47,10 @@ export const FileViewer: React.FC<FileViewerProps> = ({
   };
 
   const handleDownload = () => {
+    if (fileData?.lfs) {
+      window.location.assign(fileData.lfs.downloadUrl);
+      return;
+    }
     if (fileData?.content) {
       const blob = new Blob([fileData.content], { type: 'text/plain' });
       const url = URL.createObjectURL(blob);
@@ -162,9 +167,15 @@ export const FileViewer: React.FC<FileViewerProps> = ({
           </div>
           <div className="flex items-center gap-4 text-sm text-gray-600">
             <span>{formatFileSize(fileData.size)}</span>
-            <span className="px-2 py-1 bg-gray-100 rounded text-xs">
-              {getFileLanguage(filePath)}
-            </span>
+            {fileData.lfs ? (
+              <span className="px-2 py-1 bg-gray-100 rounded text-xs" title="Stored with Git LFS">
+                LFS
+              </span>
+            ) : (
+              <span className="px-2 py-1 bg-gray-100 rounded text-xs">
+                {getFileLanguage(filePath)}
+              </span>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -183,9 +194,15 @@ export const FileViewer: React.FC<FileViewerProps> = ({
         </div>
       </div>
       <div className="p-4 max-h-96 overflow-auto">
-        <pre className="text-sm font-mono bg-gray-50 p-4 rounded">
-          <code>{fileData.content}</code>
-        </pre>
+        {fileData.lfs ? (
+          <div className="text-sm text-gray-600 p-4">
+            Stored with Git LFS. Download the file to view its contents.
+          </div>
+        ) : (
+          <pre className="text-sm font-mono bg-gray-50 p-4 rounded">
+            <code>{fileData.content}</code>
+          </pre>
+        )}
       </div>
     </div>
   );
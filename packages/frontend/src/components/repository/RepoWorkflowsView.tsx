@@ -12,7 +12,11 @@ interface Workflow {
   trigger: string;
 }
 
-export const RepoWorkflowsView: React.FC = () => {
+interface RepoWorkflowsViewProps {
+  repositoryId: string;
+}
+
+export const RepoWorkflowsView: React.FC<RepoWorkflowsViewProps> = ({ repositoryId }) => {
   const [activeTab, setActiveTab] = useState<"workflows" | "runs">("workflows");
   
   const [workflows] = useState<Workflow[]>([
@@ -186,7 +190,7 @@ jobs:
           </div>
         </div>
       ) : (
-        <WorkflowRunner />
+        <WorkflowRunner repositoryId={repositoryId} />
       )}
     </div>
   );
@@ -4,33 +4,65 @@ import { ErrorMessage } from '../common/ErrorMessage';
 
 interface BranchProtectionRule {
   id: string;
+  scope: 'project' | 'organization';
   pattern: string;
-  requiredReviews: {
-    enabled: boolean;
-    count: number;
-    dismissStaleReviews: boolean;
-    requireCodeOwnerReviews: boolean;
-  };
-  requiredStatusChecks: {
-    enabled: boolean;
-    strict: boolean;
-    contexts: string[];
-  };
+  requirePullRequest: boolean;
+  requiredApprovingReviewCount: number;
+  dismissStaleReviews: boolean;
+  requireCodeOwnerReviews: boolean;
+  requireStatusChecks: boolean;
+  requiredStatusChecks: string[];
   enforceAdmins: boolean;
   requireSignedCommits: boolean;
+  requireMergeQueue: boolean;
   requireLinearHistory: boolean;
   allowForcePushes: boolean;
   allowDeletions: boolean;
+  restrictPushes: boolean;
+  /** Usernames */
+  pushAllowances: string[];
+  /** Usernames */
+  bypassActors: string[];
   createdAt: string;
 }
 
-interface BranchProtectionProps {
-  owner: string;
-  repo: string;
+type RuleForm = Omit<BranchProtectionRule, 'id' | 'scope' | 'createdAt'>;
+
+interface CodeownersFile {
+  path: string | null;
+  errors: Array<{ line: number; message: string }>;
 }
 
-const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
+/** Rules of a repository, or of an organization when `orgId` is given */
+type BranchProtectionProps =
+  | { owner: string; repo: string; orgId?: undefined }
+  | { orgId: string; owner?: undefined; repo?: undefined };
+
+const EMPTY_FORM: RuleForm = {
+  pattern: '',
+  requirePullRequest: true,
+  requiredApprovingReviewCount: 1,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
+  requireStatusChecks: false,
+  requiredStatusChecks: [],
+  enforceAdmins: false,
+  requireSignedCommits: false,
+  requireMergeQueue: false,
+  requireLinearHistory: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  restrictPushes: false,
+  pushAllowances: [],
+  bypassActors: [],
+};
+
+const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo, orgId }) => {
+  const baseUrl = orgId
+    ? `/api/v1/orgs/${orgId}/branch-protection`
+    : `/api/v1/repositories/${owner}/${repo}/branch-protection`;
   const [rules, setRules] = useState<BranchProtectionRule[]>([]);
+  const [codeowners, setCodeowners] = useState<CodeownersFile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
@@ -38,27 +70,11 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
-  const [formData, setFormData] = useState<Omit<BranchProtectionRule, 'id' | 'createdAt'>>({
-    pattern: '',
-    requiredReviews: {
-      enabled: false,
-      count: 1,
-      dismissStaleReviews: false,
-      requireCodeOwnerReviews: false,
-    },
-    requiredStatusChecks: {
-      enabled: false,
-      strict: false,
-      contexts: [],
-    },
-    enforceAdmins: false,
-    requireSignedCommits: false,
-    requireLinearHistory: false,
-    allowForcePushes: false,
-    allowDeletions: false,
-  });
+  const [formData, setFormData] = useState<RuleForm>(EMPTY_FORM);
 
   const [newStatusCheck, setNewStatusCheck] = useState('');
+  const [newPushAllowance, setNewPushAllowance] = useState('');
+  const [newBypassActor, setNewBypassActor] = useState('');
 
   const fetchBranchProtectionRules = useCallback(async () => {
     try {
@@ -66,7 +82,7 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
       setError(null);
       const token = localStorage.getItem('access_token');
 
-      const response = await fetch(`/api/v1/repositories/${owner}/${repo}/branches/protection`, {
+      const response = await fetch(baseUrl, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
@@ -78,18 +94,32 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
       }
 
       const data = await response.json();
-      setRules(data.data || data);
+      setRules(data.items || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load branch protection rules');
     } finally {
       setLoading(false);
     }
-  }, [owner, repo]);
+  }, [baseUrl]);
 
   useEffect(() => {
     fetchBranchProtectionRules();
   }, [fetchBranchProtectionRules]);
 
+  useEffect(() => {
+    if (orgId) return;
+    const token = localStorage.getItem('access_token');
+    fetch(`/api/v1/repositories/${owner}/${repo}/codeowners`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(setCodeowners)
+      .catch(() => setCodeowners(null));
+  }, [orgId, owner, repo]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.pattern.trim()) return;
@@ -99,22 +129,20 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
       setError(null);
       const token = localStorage.getItem('access_token');
 
-      const url = editingId
-        ? `/api/v1/repositories/${owner}/${repo}/branches/protection/${editingId}`
-        : `/api/v1/repositories/${owner}/${repo}/branches/protection`;
+      const url = editingId ? `${baseUrl}/${editingId}` : baseUrl;
 
       const response = await fetch(url, {
-        method: editingId ? 'PUT' : 'POST',
+        method: editingId ? 'PATCH' : 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, pattern: formData.pattern.trim() }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.message || `Failed to save rule: ${response.statusText}`);
+        throw new Error(errorData?.error || `Failed to save rule: ${response.statusText}`);
       }
 
       await fetchBranchProtectionRules();
@@ -129,16 +157,8 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
   };
 
   const handleEdit = (rule: BranchProtectionRule) => {
-    setFormData({
-      pattern: rule.pattern,
-      requiredReviews: rule.requiredReviews,
-      requiredStatusChecks: rule.requiredStatusChecks,
-      enforceAdmins: rule.enforceAdmins,
-      requireSignedCommits: rule.requireSignedCommits,
-      requireLinearHistory: rule.requireLinearHistory,
-      allowForcePushes: rule.allowForcePushes,
-      allowDeletions: rule.allowDeletions,
-    });
+    const { id: _id, scope: _scope, createdAt: _createdAt, ...settings } = rule;
+    setFormData(settings);
     setEditingId(rule.id);
     setShowAddForm(true);
   };
@@ -153,16 +173,13 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
       setError(null);
       const token = localStorage.getItem('access_token');
 
-      const response = await fetch(
-        `/api/v1/repositories/${owner}/${repo}/branches/protection/${ruleId}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      const response = await fetch(`${baseUrl}/${ruleId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
 
       if (!response.ok) {
         throw new Error(`Failed to delete rule: ${response.statusText}`);
@@ -177,51 +194,25 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
   };
 
   const resetForm = () => {
-    setFormData({
-      pattern: '',
-      requiredReviews: {
-        enabled: false,
-        count: 1,
-        dismissStaleReviews: false,
-        requireCodeOwnerReviews: false,
-      },
-      requiredStatusChecks: {
-        enabled: false,
-        strict: false,
-        contexts: [],
-      },
-      enforceAdmins: false,
-      requireSignedCommits: false,
-      requireLinearHistory: false,
-      allowForcePushes: false,
-      allowDeletions: false,
-    });
+    setFormData(EMPTY_FORM);
     setNewStatusCheck('');
+    setNewPushAllowance('');
+    setNewBypassActor('');
   };
 
-  const addStatusCheck = () => {
-    if (newStatusCheck.trim()) {
-      setFormData(prev => ({
-        ...prev,
-        requiredStatusChecks: {
-          ...prev.requiredStatusChecks,
-          contexts: [...prev.requiredStatusChecks.contexts, newStatusCheck.trim()],
-        },
-      }));
-      setNewStatusCheck('');
-    }
-  };
-
-  const removeStatusCheck = (context: string) => {
+  const addToList = (field: 'requiredStatusChecks' | 'pushAllowances' | 'bypassActors', value: string) => {
+    const item = value.trim();
+    if (!item) return;
     setFormData(prev => ({
       ...prev,
-      requiredStatusChecks: {
-        ...prev.requiredStatusChecks,
-        contexts: prev.requiredStatusChecks.contexts.filter(c => c !== context),
-      },
+      [field]: prev[field].includes(item) ? prev[field] : [...prev[field], item],
     }));
   };
 
+  const removeFromList = (field: 'requiredStatusChecks' | 'pushAllowances' | 'bypassActors', value: string) => {
+    setFormData(prev => ({ ...prev, [field]: prev[field].filter(item => item !== value) }));
+  };
+
   if (loading) {
     return <LoadingSpinner message="Loading branch protection rules..." />;
   }
@@ -434,6 +425,62 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
     padding: '0',
   };
 
+  const renderListInput = (
+    field: 'requiredStatusChecks' | 'pushAllowances' | 'bypassActors',
+    value: string,
+    setValue: (value: string) => void,
+    placeholder: string
+  ) => (
+    <>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+        <input
+          type="text"
+          style={{ ...inputStyle, flex: 1 }}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={placeholder}
+          disabled={creating}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addToList(field, value);
+              setValue('');
+            }
+          }}
+        />
+        <button
+          type="button"
+          style={buttonStyle}
+          onClick={() => {
+            addToList(field, value);
+            setValue('');
+          }}
+          disabled={creating || !value.trim()}
+        >
+          Add
+        </button>
+      </div>
+      {formData[field].length > 0 && (
+        <div style={statusCheckListStyle}>
+          {formData[field].map(item => (
+            <span key={item} style={statusCheckBadgeStyle}>
+              {item}
+              <button
+                type="button"
+                style={removeButtonStyle}
+                onClick={() => removeFromList(field, item)}
+                disabled={creating}
+                aria-label={`Remove ${item}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div style={containerStyle}>
       <div style={headerStyle}>
@@ -454,13 +501,27 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
 
       <div style={infoBoxStyle}>
         <strong>ℹ️ About Branch Protection:</strong> Branch protection rules help ensure code quality 
-        by requiring reviews, status checks, and other conditions before merging changes.
+        by requiring reviews, status checks, and other conditions before merging changes. Rules apply to
+        every branch matching their pattern; where several match, the strictest setting wins.
       </div>
 
       {error && (
         <ErrorMessage message={error} onRetry={() => setError(null)} />
       )}
 
+      {codeowners?.path && codeowners.errors.length > 0 && (
+        <div style={{ ...infoBoxStyle, backgroundColor: 'var(--accent-red-light)', borderColor: 'var(--accent-red)' }}>
+          <strong>{codeowners.path} has errors.</strong> These lines are ignored when requesting and requiring code owner reviews:
+          <ul style={{ margin: '8px 0 0', paddingLeft: '20px' }}>
+            {codeowners.errors.map(codeownersError => (
+              <li key={`${codeownersError.line}-${codeownersError.message}`}>
+                Line {codeownersError.line}: {codeownersError.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {showAddForm && (
         <div style={cardStyle}>
           <h3 style={{ fontSize: '16px', fontWeight: 600, marginBottom: '16px' }}>
@@ -483,91 +544,80 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
               </small>
             </div>
 
-            {/* Required Reviews */}
+            {/* Pull Requests */}
             <div style={sectionStyle}>
-              <h4 style={sectionTitleStyle}>Pull Request Reviews</h4>
-              
+              <h4 style={sectionTitleStyle}>Pull Requests</h4>
+
               <label style={checkboxLabelStyle}>
                 <input
                   type="checkbox"
                   style={checkboxStyle}
-                  checked={formData.requiredReviews.enabled}
+                  checked={formData.requirePullRequest}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requirePullRequest: e.target.checked }))}
+                  disabled={creating}
+                />
+                <div>
+                  <div>Require a pull request before merging</div>
+                  <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    Changes can't be pushed to matching branches directly
+                  </small>
+                </div>
+              </label>
+
+              <div style={{ marginLeft: '26px', marginBottom: '12px' }}>
+                <label style={labelStyle}>Required Approvals</label>
+                <input
+                  type="number"
+                  style={{ ...inputStyle, width: '100px' }}
+                  min="0"
+                  max="10"
+                  value={formData.requiredApprovingReviewCount}
                   onChange={(e) => setFormData(prev => ({
                     ...prev,
-                    requiredReviews: { ...prev.requiredReviews, enabled: e.target.checked }
+                    requiredApprovingReviewCount: Math.min(10, Math.max(0, parseInt(e.target.value) || 0)),
                   }))}
                   disabled={creating}
                 />
+              </div>
+
+              <label style={{ ...checkboxLabelStyle, marginLeft: '26px' }}>
+                <input
+                  type="checkbox"
+                  style={checkboxStyle}
+                  checked={formData.dismissStaleReviews}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dismissStaleReviews: e.target.checked }))}
+                  disabled={creating}
+                />
+                Dismiss stale reviews when new commits are pushed
+              </label>
+
+              <label style={{ ...checkboxLabelStyle, marginLeft: '26px' }}>
+                <input
+                  type="checkbox"
+                  style={checkboxStyle}
+                  checked={formData.requireCodeOwnerReviews}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requireCodeOwnerReviews: e.target.checked }))}
+                  disabled={creating}
+                />
                 <div>
-                  <div>Require pull request reviews before merging</div>
+                  <div>Require review from code owners</div>
                   <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
-                    Require at least one approval before merging
+                    Each area of the CODEOWNERS file a pull request changes needs an approval from one of its owners
                   </small>
                 </div>
               </label>
-
-              {formData.requiredReviews.enabled && (
-                <>
-                  <div style={{ marginLeft: '26px', marginBottom: '12px' }}>
-                    <label style={labelStyle}>Required Approvals</label>
-                    <input
-                      type="number"
-                      style={{ ...inputStyle, width: '100px' }}
-                      min="1"
-                      max="6"
-                      value={formData.requiredReviews.count}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        requiredReviews: { ...prev.requiredReviews, count: parseInt(e.target.value) || 1 }
-                      }))}
-                      disabled={creating}
-                    />
-                  </div>
-
-                  <label style={{ ...checkboxLabelStyle, marginLeft: '26px' }}>
-                    <input
-                      type="checkbox"
-                      style={checkboxStyle}
-                      checked={formData.requiredReviews.dismissStaleReviews}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        requiredReviews: { ...prev.requiredReviews, dismissStaleReviews: e.target.checked }
-                      }))}
-                      disabled={creating}
-                    />
-                    Dismiss stale reviews when new commits are pushed
-                  </label>
-
-                  <label style={{ ...checkboxLabelStyle, marginLeft: '26px' }}>
-                    <input
-                      type="checkbox"
-                      style={checkboxStyle}
-                      checked={formData.requiredReviews.requireCodeOwnerReviews}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        requiredReviews: { ...prev.requiredReviews, requireCodeOwnerReviews: e.target.checked }
-                      }))}
-                      disabled={creating}
-                    />
-                    Require review from code owners
-                  </label>
-                </>
-              )}
             </div>
 
             {/* Required Status Checks */}
             <div style={sectionStyle}>
               <h4 style={sectionTitleStyle}>Status Checks</h4>
-              
+
               <label style={checkboxLabelStyle}>
                 <input
                   type="checkbox"
                   style={checkboxStyle}
-                  checked={formData.requiredStatusChecks.enabled}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    requiredStatusChecks: { ...prev.requiredStatusChecks, enabled: e.target.checked }
-                  }))}
+                  checked={formData.requireStatusChecks}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requireStatusChecks: e.target.checked }))}
                   disabled={creating}
                 />
                 <div>
@@ -578,74 +628,52 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                 </div>
               </label>
 
-              {formData.requiredStatusChecks.enabled && (
-                <>
-                  <label style={{ ...checkboxLabelStyle, marginLeft: '26px' }}>
-                    <input
-                      type="checkbox"
-                      style={checkboxStyle}
-                      checked={formData.requiredStatusChecks.strict}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        requiredStatusChecks: { ...prev.requiredStatusChecks, strict: e.target.checked }
-                      }))}
-                      disabled={creating}
-                    />
-                    Require branches to be up to date before merging
-                  </label>
-
-                  <div style={{ marginLeft: '26px' }}>
-                    <label style={labelStyle}>Required Status Checks</label>
-                    <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
-                      <input
-                        type="text"
-                        style={{ ...inputStyle, flex: 1 }}
-                        value={newStatusCheck}
-                        onChange={(e) => setNewStatusCheck(e.target.value)}
-                        placeholder="e.g., ci/build, ci/test"
-                        disabled={creating}
-                        onKeyPress={(e) => {
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            addStatusCheck();
-                          }
-                        }}
-                      />
-                      <button
-                        type="button"
-                        style={buttonStyle}
-                        onClick={addStatusCheck}
-                        disabled={creating || !newStatusCheck.trim()}
-                      >
-                        Add
-                      </button>
-                    </div>
-                    {formData.requiredStatusChecks.contexts.length > 0 && (
-                      <div style={statusCheckListStyle}>
-                        {formData.requiredStatusChecks.contexts.map(context => (
-                          <span key={context} style={statusCheckBadgeStyle}>
-                            {context}
-                            <button
-                              type="button"
-                              style={removeButtonStyle}
-                              onClick={() => removeStatusCheck(context)}
-                              disabled={creating}
-                            >
-                              ×
-                            </button>
-                          </span>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </>
+              {formData.requireStatusChecks && (
+                <div style={{ marginLeft: '26px' }}>
+                  <label style={labelStyle}>Required Status Checks</label>
+                  {renderListInput('requiredStatusChecks', newStatusCheck, setNewStatusCheck, 'e.g., ci/build, ci/test')}
+                </div>
+              )}
+            </div>
+
+            {/* Push Restrictions */}
+            <div style={sectionStyle}>
+              <h4 style={sectionTitleStyle}>Who Can Push</h4>
+
+              <label style={checkboxLabelStyle}>
+                <input
+                  type="checkbox"
+                  style={checkboxStyle}
+                  checked={formData.restrictPushes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, restrictPushes: e.target.checked }))}
+                  disabled={creating}
+                />
+                <div>
+                  <div>Restrict who can push to matching branches</div>
+                  <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    Only the users listed, and administrators unless the rule includes them, can push or merge
+                  </small>
+                </div>
+              </label>
+
+              {formData.restrictPushes && (
+                <div style={{ marginLeft: '26px', marginBottom: '12px' }}>
+                  <label style={labelStyle}>Users Allowed to Push</label>
+                  {renderListInput('pushAllowances', newPushAllowance, setNewPushAllowance, 'Username')}
+                </div>
               )}
+
+              <label style={labelStyle}>Bypass List</label>
+              <small style={{ display: 'block', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '8px' }}>
+                This rule does not apply to these users
+              </small>
+              {renderListInput('bypassActors', newBypassActor, setNewBypassActor, 'Username')}
             </div>
 
             {/* Additional Rules */}
             <div style={sectionStyle}>
               <h4 style={sectionTitleStyle}>Additional Rules</h4>
-              
+
               <label style={checkboxLabelStyle}>
                 <input
                   type="checkbox"
@@ -654,7 +682,12 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                   onChange={(e) => setFormData(prev => ({ ...prev, requireSignedCommits: e.target.checked }))}
                   disabled={creating}
                 />
-                Require signed commits
+                <div>
+                  <div>Require signed commits</div>
+                  <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    Pull requests must then be merged locally, as merges and edits made in the browser are unsigned
+                  </small>
+                </div>
               </label>
 
               <label style={checkboxLabelStyle}>
@@ -668,6 +701,22 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                 Require linear history (no merge commits)
               </label>
 
+              <label style={checkboxLabelStyle}>
+                <input
+                  type="checkbox"
+                  style={checkboxStyle}
+                  checked={formData.requireMergeQueue}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requireMergeQueue: e.target.checked }))}
+                  disabled={creating}
+                />
+                <div>
+                  <div>Require merge queue</div>
+                  <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    Pull requests are tested together with the ones queued ahead of them before the branch moves
+                  </small>
+                </div>
+              </label>
+
               <label style={checkboxLabelStyle}>
                 <input
                   type="checkbox"
@@ -736,35 +785,50 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                 <div style={{ flex: 1 }}>
                   <div style={patternStyle}>{rule.pattern}</div>
                   <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
-                    Created {new Date(rule.createdAt).toLocaleDateString()}
+                    {!orgId && rule.scope === 'organization'
+                      ? 'Organization rule, managed in the organization settings'
+                      : `Created ${new Date(rule.createdAt).toLocaleDateString()}`}
                   </small>
                 </div>
-                <div style={buttonGroupStyle}>
-                  <button
-                    style={editButtonStyle}
-                    onClick={() => handleEdit(rule)}
-                  >
-                    Edit
-                  </button>
-                  <button
-                    style={deleteButtonStyle}
-                    onClick={() => handleDelete(rule.id, rule.pattern)}
-                    disabled={deletingId === rule.id}
-                  >
-                    {deletingId === rule.id ? 'Deleting...' : 'Delete'}
-                  </button>
-                </div>
+                {(orgId || rule.scope === 'project') && (
+                  <div style={buttonGroupStyle}>
+                    <button
+                      style={editButtonStyle}
+                      onClick={() => handleEdit(rule)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      style={deleteButtonStyle}
+                      onClick={() => handleDelete(rule.id, rule.pattern)}
+                      disabled={deletingId === rule.id}
+                    >
+                      {deletingId === rule.id ? 'Deleting...' : 'Delete'}
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div style={ruleDetailsStyle}>
-                {rule.requiredReviews.enabled && (
+                {rule.requirePullRequest && (
+                  <div style={ruleDetailItemStyle}>✓ Requires a pull request</div>
+                )}
+                {rule.requiredApprovingReviewCount > 0 && (
                   <div style={ruleDetailItemStyle}>
-                    ✓ Requires {rule.requiredReviews.count} review{rule.requiredReviews.count > 1 ? 's' : ''}
+                    ✓ Requires {rule.requiredApprovingReviewCount} review{rule.requiredApprovingReviewCount > 1 ? 's' : ''}
                   </div>
                 )}
-                {rule.requiredStatusChecks.enabled && (
+                {rule.requireCodeOwnerReviews && (
+                  <div style={ruleDetailItemStyle}>✓ Requires code owner review</div>
+                )}
+                {rule.requireStatusChecks && (
                   <div style={ruleDetailItemStyle}>
-                    ✓ Requires status checks ({rule.requiredStatusChecks.contexts.length} check{rule.requiredStatusChecks.contexts.length !== 1 ? 's' : ''})
+                    ✓ Requires status checks ({rule.requiredStatusChecks.length} check{rule.requiredStatusChecks.length !== 1 ? 's' : ''})
+                  </div>
+                )}
+                {rule.restrictPushes && (
+                  <div style={ruleDetailItemStyle}>
+                    ✓ Pushes restricted to {rule.pushAllowances.length > 0 ? rule.pushAllowances.join(', ') : 'administrators'}
                   </div>
                 )}
                 {rule.requireSignedCommits && (
@@ -773,6 +837,9 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                 {rule.requireLinearHistory && (
                   <div style={ruleDetailItemStyle}>✓ Requires linear history</div>
                 )}
+                {rule.requireMergeQueue && (
+                  <div style={ruleDetailItemStyle}>✓ Requires merge queue</div>
+                )}
                 {rule.enforceAdmins && (
                   <div style={ruleDetailItemStyle}>✓ Enforced for admins</div>
                 )}
@@ -782,15 +849,18 @@ const BranchProtection: React.FC<BranchProtectionProps> = ({ owner, repo }) => {
                 {!rule.allowDeletions && (
                   <div style={ruleDetailItemStyle}>✓ Branch deletions disabled</div>
                 )}
+                {rule.bypassActors.length > 0 && (
+                  <div style={ruleDetailItemStyle}>Bypassed by {rule.bypassActors.join(', ')}</div>
+                )}
               </div>
 
-              {rule.requiredStatusChecks.enabled && rule.requiredStatusChecks.contexts.length > 0 && (
+              {rule.requireStatusChecks && rule.requiredStatusChecks.length > 0 && (
                 <div style={{ marginTop: '12px' }}>
                   <div style={{ fontSize: '13px', fontWeight: 500, marginBottom: '6px' }}>
                     Required Status Checks:
                   </div>
                   <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
-                    {rule.requiredStatusChecks.contexts.map(context => (
+                    {rule.requiredStatusChecks.map(context => (
                       <span key={context} style={badgeStyle}>{context}</span>
                     ))}
                   </div>
@@ -46,7 +46,8 @@ const CollaboratorManager: React.FC<CollaboratorManagerProps> = ({ owner, repo }
       }
 
       const data = await response.json();
-      setCollaborators(data.data || data);
+      const items: Array<Collaborator & { role?: Permission }> = data.items || data.data || data;
+      setCollaborators(items.map(c => ({ ...c, permission: c.permission ?? c.role })));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load collaborators');
     } finally {
@@ -67,21 +68,21 @@ const CollaboratorManager: React.FC<CollaboratorManagerProps> = ({ owner, repo }
       setError(null);
       const token = localStorage.getItem('access_token');
 
-      const response = await fetch(`/api/v1/repositories/${owner}/${repo}/collaborators`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          username: newUsername,
-          permission: newPermission,
-        }),
-      });
+      const response = await fetch(
+        `/api/v1/repositories/${owner}/${repo}/collaborators/${encodeURIComponent(newUsername.trim())}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ permission: newPermission }),
+        }
+      );
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.message || `Failed to add collaborator: ${response.statusText}`);
+        throw new Error(errorData?.error || `Failed to add collaborator: ${response.statusText}`);
       }
 
       await fetchCollaborators();
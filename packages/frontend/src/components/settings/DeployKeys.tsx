@@ -6,9 +6,10 @@ interface DeployKey {
   id: string;
   title: string;
   key: string;
+  fingerprint?: string;
   readOnly: boolean;
   createdAt: string;
-  verified: boolean;
+  verified?: boolean;
 }
 
 interface DeployKeysProps {
@@ -48,7 +49,7 @@ const DeployKeys: React.FC<DeployKeysProps> = ({ owner, repo }) => {
       }
 
       const data = await response.json();
-      setKeys(data.data || data);
+      setKeys(data.items || data.data || data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load deploy keys');
     } finally {
@@ -80,7 +81,7 @@ const DeployKeys: React.FC<DeployKeysProps> = ({ owner, repo }) => {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.message || `Failed to add deploy key: ${response.statusText}`);
+        throw new Error(errorData?.error || `Failed to add deploy key: ${response.statusText}`);
       }
 
       await fetchDeployKeys();
@@ -412,7 +413,7 @@ const DeployKeys: React.FC<DeployKeysProps> = ({ owner, repo }) => {
                     {getKeyType(key.key)} • Added {new Date(key.createdAt).toLocaleDateString()}
                   </div>
                   <div style={keyFingerprintStyle}>
-                    {extractKeyFingerprint(key.key)}
+                    {key.fingerprint ?? extractKeyFingerprint(key.key)}
                   </div>
                 </div>
                 <button
@@ -0,0 +1,611 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { ErrorMessage } from '../common/ErrorMessage';
+
+interface Mirror {
+  id: string;
+  direction: 'pull' | 'push';
+  url: string;
+  username: string | null;
+  has_credentials: boolean;
+  interval_seconds: number | null;
+  enabled: boolean;
+  last_synced_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  next_sync_at: string | null;
+  created_at: string;
+}
+
+interface MirrorSync {
+  id: string;
+  trigger: 'schedule' | 'manual' | 'push' | 'create';
+  status: 'success' | 'failed';
+  updated_refs: string[];
+  error: string | null;
+  duration_ms: number;
+  started_at: string;
+}
+
+interface MirrorSettingsProps {
+  owner: string;
+  repo: string;
+}
+
+const INTERVAL_OPTIONS = [
+  { label: 'Every 5 minutes', value: 300 },
+  { label: 'Every 30 minutes', value: 1800 },
+  { label: 'Every hour', value: 3600 },
+  { label: 'Every 6 hours', value: 21600 },
+  { label: 'Every day', value: 86400 },
+];
+
+const MirrorSettings: React.FC<MirrorSettingsProps> = ({ owner, repo }) => {
+  const [pullMirror, setPullMirror] = useState<Mirror | null>(null);
+  const [pushMirrors, setPushMirrors] = useState<Mirror[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ mirrorId: string; syncs: MirrorSync[] } | null>(null);
+
+  const [newMirror, setNewMirror] = useState({
+    url: '',
+    username: '',
+    password: '',
+  });
+
+  const baseUrl = `/api/v1/repositories/${owner}/${repo}/mirrors`;
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const token = localStorage.getItem('access_token');
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `Request failed: ${response.statusText}`);
+    }
+
+    return response.status === 204 ? null : response.json();
+  }, []);
+
+  const fetchMirrors = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await request(baseUrl);
+      setPullMirror(data.pull_mirror);
+      setPushMirrors(data.push_mirrors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load mirrors');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl, request]);
+
+  useEffect(() => {
+    fetchMirrors();
+  }, [fetchMirrors]);
+
+  const replaceMirror = (mirror: Mirror) => {
+    if (mirror.direction === 'pull') {
+      setPullMirror(mirror);
+    } else {
+      setPushMirrors(prev => prev.map(m => (m.id === mirror.id ? mirror : m)));
+    }
+  };
+
+  const handleAddMirror = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMirror.url.trim()) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+      const mirror = await request(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({
+          url: newMirror.url.trim(),
+          username: newMirror.username.trim() || undefined,
+          password: newMirror.password || undefined,
+        }),
+      });
+      setPushMirrors(prev => [...prev, mirror]);
+      setNewMirror({ url: '', username: '', password: '' });
+      setShowAddForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add mirror');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSync = async (mirror: Mirror) => {
+    try {
+      setBusyId(mirror.id);
+      setError(null);
+      const data = await request(`${baseUrl}/${mirror.id}/sync`, { method: 'POST' });
+      replaceMirror(data.mirror);
+      if (history?.mirrorId === mirror.id) {
+        setHistory({ mirrorId: mirror.id, syncs: [data.sync, ...history.syncs] });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync mirror');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUpdate = async (mirror: Mirror, changes: Record<string, unknown>) => {
+    try {
+      setBusyId(mirror.id);
+      setError(null);
+      const updated = await request(`${baseUrl}/${mirror.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      replaceMirror(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update mirror');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (mirror: Mirror) => {
+    const message = mirror.direction === 'pull'
+      ? 'Stop mirroring? The repository will keep its current contents and start accepting pushes.'
+      : `Remove the push mirror to ${mirror.url}?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      setBusyId(mirror.id);
+      setError(null);
+      await request(`${baseUrl}/${mirror.id}`, { method: 'DELETE' });
+      if (mirror.direction === 'pull') {
+        setPullMirror(null);
+      } else {
+        setPushMirrors(prev => prev.filter(m => m.id !== mirror.id));
+      }
+      if (history?.mirrorId === mirror.id) {
+        setHistory(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove mirror');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleHistory = async (mirror: Mirror) => {
+    if (history?.mirrorId === mirror.id) {
+      setHistory(null);
+      return;
+    }
+
+    try {
+      setError(null);
+      const data = await request(`${baseUrl}/${mirror.id}/syncs?perPage=20`);
+      setHistory({ mirrorId: mirror.id, syncs: data.syncs });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync history');
+    }
+  };
+
+  const formatDate = (date: string | null): string => {
+    return date ? new Date(date).toLocaleString() : 'Never';
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading mirrors..." />;
+  }
+
+  const containerStyle: React.CSSProperties = {
+    maxWidth: '900px',
+    margin: '0 auto',
+    padding: '24px',
+  };
+
+  const headerStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '24px',
+  };
+
+  const titleStyle: React.CSSProperties = {
+    fontSize: '24px',
+    fontWeight: 700,
+    color: 'var(--text-primary)',
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    fontSize: '16px',
+    fontWeight: 600,
+    margin: '24px 0 12px',
+    color: 'var(--text-primary)',
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    fontSize: '14px',
+    fontWeight: 500,
+    color: '#fff',
+    backgroundColor: 'var(--accent-blue)',
+    border: 'none',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+  };
+
+  const secondaryButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: 'var(--text-primary)',
+    backgroundColor: 'var(--bg-tertiary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+  };
+
+  const deleteButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: '#fff',
+    backgroundColor: 'var(--accent-red)',
+    border: 'none',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    padding: '20px',
+    marginBottom: '16px',
+  };
+
+  const formStyle: React.CSSProperties = {
+    display: 'grid',
+    gap: '16px',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 12px',
+    fontSize: '14px',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    backgroundColor: 'var(--bg-primary)',
+    color: 'var(--text-primary)',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '14px',
+    fontWeight: 500,
+    marginBottom: '8px',
+    color: 'var(--text-primary)',
+  };
+
+  const mirrorItemStyle: React.CSSProperties = {
+    padding: '16px',
+    backgroundColor: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    marginBottom: '12px',
+  };
+
+  const mirrorHeaderStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: '12px',
+  };
+
+  const mirrorUrlStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontFamily: 'monospace',
+    fontWeight: 600,
+    color: 'var(--text-primary)',
+    wordBreak: 'break-all',
+  };
+
+  const metaStyle: React.CSSProperties = {
+    fontSize: '13px',
+    color: 'var(--text-secondary)',
+    marginTop: '4px',
+  };
+
+  const errorTextStyle: React.CSSProperties = {
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: 'var(--accent-red)',
+    backgroundColor: 'var(--bg-primary)',
+    padding: '8px',
+    borderRadius: 'var(--radius)',
+    marginTop: '8px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+  };
+
+  const badgeStyle = (ok: boolean): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '2px 8px',
+    fontSize: '12px',
+    fontWeight: 500,
+    borderRadius: 'var(--radius)',
+    backgroundColor: ok ? 'var(--accent-green-light)' : 'var(--accent-red-light)',
+    color: ok ? 'var(--accent-green)' : 'var(--accent-red)',
+    marginLeft: '8px',
+  });
+
+  const actionsStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '8px',
+    flexShrink: 0,
+  };
+
+  const historyRowStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '90px 80px 1fr 160px',
+    gap: '8px',
+    fontSize: '13px',
+    padding: '6px 0',
+    borderTop: '1px solid var(--border-color)',
+    color: 'var(--text-secondary)',
+  };
+
+  const emptyStateStyle: React.CSSProperties = {
+    textAlign: 'center',
+    padding: '32px 24px',
+    color: 'var(--text-secondary)',
+  };
+
+  const infoBoxStyle: React.CSSProperties = {
+    backgroundColor: 'var(--accent-blue-light)',
+    border: '1px solid var(--accent-blue)',
+    borderRadius: 'var(--radius)',
+    padding: '12px 16px',
+    marginBottom: '16px',
+    fontSize: '13px',
+    color: 'var(--text-primary)',
+  };
+
+  const renderStatus = (mirror: Mirror) => {
+    if (!mirror.last_synced_at) return null;
+    const ok = !mirror.last_error;
+    return <span style={badgeStyle(ok)}>{ok ? '✓ Synced' : '✗ Failing'}</span>;
+  };
+
+  const renderHistory = (mirror: Mirror) => {
+    if (history?.mirrorId !== mirror.id) return null;
+    if (history.syncs.length === 0) {
+      return <div style={metaStyle}>No syncs yet</div>;
+    }
+    return (
+      <div style={{ marginTop: '12px' }}>
+        {history.syncs.map((sync) => (
+          <div key={sync.id} style={historyRowStyle}>
+            <span style={{ color: sync.status === 'success' ? 'var(--accent-green)' : 'var(--accent-red)' }}>
+              {sync.status === 'success' ? '✓ Success' : '✗ Failed'}
+            </span>
+            <span>{sync.trigger}</span>
+            <span title={sync.error ?? sync.updated_refs.join('\n')}>
+              {sync.error
+                ? sync.error.split('\n')[0]
+                : `${sync.updated_refs.length} ref${sync.updated_refs.length === 1 ? '' : 's'} updated`}
+            </span>
+            <span>{new Date(sync.started_at).toLocaleString()} ({sync.duration_ms}ms)</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderActions = (mirror: Mirror) => (
+    <div style={actionsStyle}>
+      <button
+        style={secondaryButtonStyle}
+        onClick={() => handleSync(mirror)}
+        disabled={busyId === mirror.id}
+      >
+        {busyId === mirror.id ? 'Syncing...' : 'Sync now'}
+      </button>
+      <button style={secondaryButtonStyle} onClick={() => toggleHistory(mirror)}>
+        {history?.mirrorId === mirror.id ? 'Hide history' : 'History'}
+      </button>
+      <button
+        style={deleteButtonStyle}
+        onClick={() => handleDelete(mirror)}
+        disabled={busyId === mirror.id}
+      >
+        Remove
+      </button>
+    </div>
+  );
+
+  return (
+    <div style={containerStyle}>
+      <div style={headerStyle}>
+        <h1 style={titleStyle}>Mirrors</h1>
+        <button
+          style={buttonStyle}
+          onClick={() => setShowAddForm(!showAddForm)}
+        >
+          {showAddForm ? 'Cancel' : '+ Add Push Mirror'}
+        </button>
+      </div>
+
+      <div style={infoBoxStyle}>
+        <strong>ℹ️ About Mirrors:</strong> A pull mirror keeps this repository in sync with an external
+        remote and is read-only. Push mirrors receive all branches and tags after every push to this repository.
+        Passwords and tokens are stored encrypted and are never shown again.
+      </div>
+
+      {error && (
+        <ErrorMessage message={error} onRetry={() => setError(null)} />
+      )}
+
+      <h2 style={sectionTitleStyle}>Pull mirror</h2>
+      {pullMirror ? (
+        <div style={mirrorItemStyle}>
+          <div style={mirrorHeaderStyle}>
+            <div style={{ flex: 1 }}>
+              <div style={mirrorUrlStyle}>
+                {pullMirror.url}
+                {renderStatus(pullMirror)}
+              </div>
+              <div style={metaStyle}>
+                Last synced {formatDate(pullMirror.last_synced_at)}
+                {pullMirror.enabled && pullMirror.next_sync_at && (
+                  <> • Next sync {formatDate(pullMirror.next_sync_at)}</>
+                )}
+                {pullMirror.has_credentials && <> • 🔒 Authenticated</>}
+              </div>
+            </div>
+            {renderActions(pullMirror)}
+          </div>
+
+          <div style={{ display: 'flex', gap: '16px', alignItems: 'center', marginTop: '12px' }}>
+            <select
+              style={{ ...inputStyle, width: 'auto' }}
+              value={pullMirror.interval_seconds ?? 3600}
+              onChange={(e) => handleUpdate(pullMirror, { interval_seconds: Number(e.target.value) })}
+              disabled={busyId === pullMirror.id}
+            >
+              {INTERVAL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px' }}>
+              <input
+                type="checkbox"
+                checked={pullMirror.enabled}
+                onChange={(e) => handleUpdate(pullMirror, { enabled: e.target.checked })}
+                disabled={busyId === pullMirror.id}
+              />
+              Sync automatically
+            </label>
+          </div>
+
+          {pullMirror.last_error && (
+            <div style={errorTextStyle}>{pullMirror.last_error}</div>
+          )}
+          {renderHistory(pullMirror)}
+        </div>
+      ) : (
+        <div style={metaStyle}>
+          This repository is not a mirror. Pull mirrors are set up when a repository is created.
+        </div>
+      )}
+
+      <h2 style={sectionTitleStyle}>Push mirrors</h2>
+
+      {showAddForm && (
+        <div style={cardStyle}>
+          <form onSubmit={handleAddMirror} style={formStyle}>
+            <div>
+              <label style={labelStyle}>Remote URL</label>
+              <input
+                type="text"
+                style={inputStyle}
+                value={newMirror.url}
+                onChange={(e) => setNewMirror(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://example.com/org/repo.git"
+                required
+                disabled={creating}
+              />
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+              <div>
+                <label style={labelStyle}>Username</label>
+                <input
+                  type="text"
+                  style={inputStyle}
+                  value={newMirror.username}
+                  onChange={(e) => setNewMirror(prev => ({ ...prev, username: e.target.value }))}
+                  autoComplete="off"
+                  disabled={creating}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Password or token</label>
+                <input
+                  type="password"
+                  style={inputStyle}
+                  value={newMirror.password}
+                  onChange={(e) => setNewMirror(prev => ({ ...prev, password: e.target.value }))}
+                  autoComplete="new-password"
+                  disabled={creating}
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              style={buttonStyle}
+              disabled={creating}
+            >
+              {creating ? 'Adding...' : 'Add Mirror'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {pushMirrors.length === 0 ? (
+        <div style={emptyStateStyle}>
+          <p style={{ fontSize: '16px', marginBottom: '8px' }}>No push mirrors</p>
+          <p style={{ fontSize: '14px' }}>Push mirrors keep a copy of this repository up to date on another host</p>
+        </div>
+      ) : (
+        <div>
+          {pushMirrors.map((mirror) => (
+            <div key={mirror.id} style={mirrorItemStyle}>
+              <div style={mirrorHeaderStyle}>
+                <div style={{ flex: 1 }}>
+                  <div style={mirrorUrlStyle}>
+                    {mirror.url}
+                    {renderStatus(mirror)}
+                  </div>
+                  <div style={metaStyle}>
+                    Last synced {formatDate(mirror.last_synced_at)}
+                    {mirror.has_credentials && <> • 🔒 Authenticated</>}
+                  </div>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', marginTop: '8px' }}>
+                    <input
+                      type="checkbox"
+                      checked={mirror.enabled}
+                      onChange={(e) => handleUpdate(mirror, { enabled: e.target.checked })}
+                      disabled={busyId === mirror.id}
+                    />
+                    Push after every update
+                  </label>
+                </div>
+                {renderActions(mirror)}
+              </div>
+              {mirror.last_error && (
+                <div style={errorTextStyle}>{mirror.last_error}</div>
+              )}
+              {renderHistory(mirror)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { MirrorSettings };
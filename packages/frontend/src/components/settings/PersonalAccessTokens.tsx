@@ -0,0 +1,259 @@
+import React, { useState } from "react";
+import { useApi } from "../../hooks/useApi";
+import { useToast } from "../../hooks/useToast";
+import { api, ApiError } from "../../services/api-client";
+import { showConfirm } from "../common/ConfirmDialog";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { ErrorMessage } from "../common/ErrorMessage";
+import { Button, Input } from "../ui";
+
+interface PersonalAccessToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  expired: boolean;
+  revoked: boolean;
+}
+
+interface TokenListResponse {
+  tokens: PersonalAccessToken[];
+  available_scopes: string[];
+}
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  "read:user": "Read your profile and settings",
+  "write:user": "Update your profile and settings",
+  "read:repos": "Clone, fetch and read repositories",
+  "write:repos": "Push to and manage repositories",
+  "delete:repos": "Delete repositories",
+  "read:orgs": "Read organizations and teams",
+  "write:orgs": "Manage organizations and teams",
+  "read:pipelines": "Read workflows and pipelines",
+  "write:pipelines": "Run and manage workflows and pipelines",
+  "read:clusters": "Read clusters",
+  "write:clusters": "Manage clusters",
+  "admin:all": "Full administrative access",
+};
+
+const EXPIRATION_OPTIONS = [
+  { label: "7 days", value: 7 },
+  { label: "30 days", value: 30 },
+  { label: "90 days", value: 90 },
+  { label: "1 year", value: 365 },
+  { label: "No expiration", value: 0 },
+];
+
+/**
+ * Personal access token management for the user settings page.
+ * Tokens authenticate the REST API and git over HTTPS (as the password).
+ */
+export const PersonalAccessTokens: React.FC = () => {
+  const toast = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["read:repos"]);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data, loading, error, refetch } = useApi<TokenListResponse>(
+    () => api.get<TokenListResponse>("/user/tokens"),
+    [],
+  );
+
+  const toggleScope = (scope: string) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || scopes.length === 0) {
+      toast.error("Give the token a name and at least one scope");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const res = await api.post<PersonalAccessToken & { token: string }>("/user/tokens", {
+        name: name.trim(),
+        scopes,
+        expires_in_days: expiresInDays || undefined,
+      });
+      setNewToken(res.data.token);
+      setName("");
+      setScopes(["read:repos"]);
+      setShowForm(false);
+      await refetch();
+    } catch (err) {
+      const body = err instanceof ApiError ? (err.body as { error?: string } | null) : null;
+      toast.error(body?.error ?? "Failed to create token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    const confirmed = await showConfirm({
+      title: "Revoke Token",
+      message: `Any scripts or applications using "${token.name}" will no longer be able to access the API or git.`,
+      confirmText: "Revoke",
+      variant: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await api.delete(`/user/tokens/${token.id}`);
+      toast.success("Token revoked");
+      await refetch();
+    } catch {
+      toast.error("Failed to revoke token");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Token copied to clipboard");
+    } catch {
+      toast.error("Could not copy the token");
+    }
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : "Never");
+
+  if (loading) return <LoadingSpinner message="Loading tokens..." />;
+  if (error) return <ErrorMessage message={error} onRetry={refetch} />;
+
+  const tokens = data?.tokens ?? [];
+  const availableScopes = data?.available_scopes ?? Object.keys(SCOPE_DESCRIPTIONS);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-secondary">
+        Tokens work like passwords for the API and for git over HTTPS. Use one as the password when
+        cloning or pushing; it is required when two-factor authentication is enabled.
+      </p>
+
+      {newToken && (
+        <div className="border border-green-200 bg-green-50 rounded-md p-4 space-y-2">
+          <div className="text-sm font-medium text-text-primary">
+            Copy your new token now. You won't be able to see it again.
+          </div>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-2 text-xs bg-white border border-border-light rounded break-all">
+              {newToken}
+            </code>
+            <Button variant="secondary" size="sm" onClick={handleCopy}>
+              Copy
+            </Button>
+          </div>
+          <Button variant="ghost" size="xs" onClick={() => setNewToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {showForm ? (
+        <form onSubmit={handleCreate} className="space-y-4 border border-border-light rounded-md p-4">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="What's this token for?"
+              maxLength={100}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Expiration</label>
+            <select
+              className="h-10 w-full rounded-md border border-border-light bg-white px-3 text-sm"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            >
+              {EXPIRATION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Scopes</label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-1 w-4 h-4"
+                  />
+                  <span>
+                    <span className="block text-sm font-mono text-text-primary">{scope}</span>
+                    <span className="block text-xs text-text-secondary">{SCOPE_DESCRIPTIONS[scope]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" disabled={creating}>
+              {creating ? "Generating..." : "Generate Token"}
+            </Button>
+            <Button type="button" variant="secondary" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="secondary" onClick={() => setShowForm(true)}>
+          Generate New Token
+        </Button>
+      )}
+
+      {tokens.length === 0 ? (
+        <div className="text-sm text-text-secondary">You have no personal access tokens.</div>
+      ) : (
+        <ul className="divide-y divide-border-light border border-border-light rounded-md">
+          {tokens.map((token) => {
+            const inactive = token.revoked || token.expired;
+            return (
+              <li key={token.id} className="flex items-start justify-between gap-4 p-4">
+                <div className={inactive ? "opacity-60" : undefined}>
+                  <div className="text-sm font-medium text-text-primary">
+                    {token.name}
+                    {token.revoked && <span className="ml-2 text-xs text-red-600">Revoked</span>}
+                    {!token.revoked && token.expired && <span className="ml-2 text-xs text-red-600">Expired</span>}
+                  </div>
+                  <div className="text-xs font-mono text-text-secondary mt-1">{token.token_prefix}…</div>
+                  <div className="text-xs text-text-secondary mt-1">{token.scopes.join(", ")}</div>
+                  <div className="text-xs text-text-secondary mt-1">
+                    Created {formatDate(token.created_at)} • Last used {formatDate(token.last_used_at)} •{" "}
+                    {token.expires_at ? `Expires ${formatDate(token.expires_at)}` : "No expiration"}
+                  </div>
+                </div>
+                {!token.revoked && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleRevoke(token)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
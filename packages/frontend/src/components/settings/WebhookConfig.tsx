@@ -10,18 +10,44 @@ type WebhookEvent =
   | 'create'
   | 'delete'
   | 'release'
-  | 'repository'
-  | 'star'
-  | 'fork'
+  | 'workflow_run'
   | '*';
 
+type DeliveryStatus = 'pending' | 'success' | 'failure' | 'timeout';
+
 interface Webhook {
   id: string;
   url: string;
   events: WebhookEvent[];
   active: boolean;
+  status: 'active' | 'failing' | 'suspended' | 'inactive';
+  failureCount: number;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: DeliveryStatus | null;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  guid: string;
+  event: string;
+  action: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  redelivery: boolean;
+  request: {
+    headers: Record<string, string>;
+    payload: unknown;
+  };
+  response: {
+    status: number | null;
+    body: string | null;
+  };
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
   createdAt: string;
-  lastDeliveryStatus?: 'success' | 'failed';
 }
 
 interface WebhookConfigProps {
@@ -36,6 +62,11 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [creating, setCreating] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+  const [selectedDeliveryId, setSelectedDeliveryId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
   
   const [newWebhook, setNewWebhook] = useState({
     url: '',
@@ -53,9 +84,7 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
     { value: 'create', label: 'Create events' },
     { value: 'delete', label: 'Delete events' },
     { value: 'release', label: 'Release events' },
-    { value: 'repository', label: 'Repository events' },
-    { value: 'star', label: 'Star events' },
-    { value: 'fork', label: 'Fork events' },
+    { value: 'workflow_run', label: 'Workflow run events' },
   ];
 
   const fetchWebhooks = useCallback(async () => {
@@ -76,7 +105,7 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
       }
 
       const data = await response.json();
-      setWebhooks(data.data || data);
+      setWebhooks(data.items);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load webhooks');
     } finally {
@@ -108,7 +137,7 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.message || `Failed to create webhook: ${response.statusText}`);
+        throw new Error(errorData?.error || `Failed to create webhook: ${response.statusText}`);
       }
 
       await fetchWebhooks();
@@ -154,6 +183,79 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
     }
   };
 
+  const fetchDeliveries = async (webhookId: string) => {
+    try {
+      setLoadingDeliveries(true);
+      setError(null);
+      const token = localStorage.getItem('access_token');
+
+      const response = await fetch(
+        `/api/v1/repositories/${owner}/${repo}/webhooks/${webhookId}/deliveries`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch deliveries: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setDeliveries(data.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const handleToggleDeliveries = (webhookId: string) => {
+    setSelectedDeliveryId(null);
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    fetchDeliveries(webhookId);
+  };
+
+  const handleRedeliver = async (webhookId: string, deliveryId: string) => {
+    try {
+      setRedeliveringId(deliveryId);
+      setError(null);
+      const token = localStorage.getItem('access_token');
+
+      const response = await fetch(
+        `/api/v1/repositories/${owner}/${repo}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Failed to redeliver: ${response.statusText}`);
+      }
+
+      const redelivered: WebhookDelivery = await response.json();
+      setDeliveries(prev => [redelivered, ...prev]);
+      setSelectedDeliveryId(redelivered.id);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver payload');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
   const handleToggleEvent = (event: WebhookEvent) => {
     setNewWebhook(prev => {
       const hasEvent = prev.events.includes(event);
@@ -257,21 +359,26 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
     wordBreak: 'break-all',
   };
 
-  const statusBadgeStyle = (status?: 'success' | 'failed'): React.CSSProperties => ({
+  const statusBadgeStyle = (tone?: 'success' | 'warning' | 'failed'): React.CSSProperties => ({
     display: 'inline-block',
     padding: '4px 8px',
     fontSize: '12px',
     fontWeight: 500,
     borderRadius: 'var(--radius)',
-    backgroundColor: status === 'success' ? 'var(--accent-green-light)' : 
-                     status === 'failed' ? 'var(--accent-red-light)' : 
+    backgroundColor: tone === 'success' ? 'var(--accent-green-light)' : 
+                     tone === 'warning' ? 'var(--accent-yellow-light)' : 
+                     tone === 'failed' ? 'var(--accent-red-light)' : 
                      'var(--border-color)',
-    color: status === 'success' ? 'var(--accent-green)' : 
-           status === 'failed' ? 'var(--accent-red)' : 
+    color: tone === 'success' ? 'var(--accent-green)' : 
+           tone === 'warning' ? 'var(--accent-yellow)' : 
+           tone === 'failed' ? 'var(--accent-red)' : 
            'var(--text-secondary)',
     marginLeft: '8px',
   });
 
+  const deliveryTone = (status: DeliveryStatus) =>
+    status === 'success' ? 'success' : status === 'pending' ? 'warning' : 'failed';
+
   const eventsStyle: React.CSSProperties = {
     display: 'flex',
     flexWrap: 'wrap',
@@ -298,6 +405,42 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
     cursor: 'pointer',
   };
 
+  const secondaryButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: 'var(--text-primary)',
+    backgroundColor: 'var(--bg-primary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+    marginRight: '8px',
+  };
+
+  const deliveryRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '8px 0',
+    borderTop: '1px solid var(--border-color)',
+    fontSize: '13px',
+    color: 'var(--text-primary)',
+    cursor: 'pointer',
+  };
+
+  const codeBlockStyle: React.CSSProperties = {
+    margin: '4px 0 12px',
+    padding: '12px',
+    fontSize: '12px',
+    fontFamily: 'var(--font-mono)',
+    backgroundColor: 'var(--bg-primary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: 'var(--radius)',
+    overflowX: 'auto',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  };
+
   const emptyStateStyle: React.CSSProperties = {
     textAlign: 'center',
     padding: '48px 24px',
@@ -434,18 +577,31 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
                 <div style={{ flex: 1 }}>
                   <div style={urlStyle}>
                     {webhook.url}
-                    {webhook.lastDeliveryStatus && (
-                      <span style={statusBadgeStyle(webhook.lastDeliveryStatus)}>
+                    {webhook.lastDeliveryStatus && webhook.lastDeliveryStatus !== 'pending' && (
+                      <span style={statusBadgeStyle(deliveryTone(webhook.lastDeliveryStatus))}>
                         {webhook.lastDeliveryStatus === 'success' ? '✓ Last delivery' : '✗ Last delivery failed'}
                       </span>
                     )}
-                    {!webhook.active && (
+                    {webhook.status === 'failing' && (
+                      <span style={statusBadgeStyle('warning')}>Failing</span>
+                    )}
+                    {webhook.status === 'suspended' && (
+                      <span style={statusBadgeStyle('failed')}>Suspended</span>
+                    )}
+                    {webhook.status === 'inactive' && (
                       <span style={statusBadgeStyle()}>Inactive</span>
                     )}
                   </div>
                   <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
                     Created {new Date(webhook.createdAt).toLocaleDateString()}
+                    {webhook.lastDeliveryAt && ` · Last delivery ${new Date(webhook.lastDeliveryAt).toLocaleString()}`}
                   </small>
+                  {webhook.status === 'suspended' && (
+                    <p style={{ fontSize: '12px', color: 'var(--accent-red)', marginTop: '4px' }}>
+                      Deliveries stopped after {webhook.failureCount} consecutive failures. Update the URL or
+                      re-activate the webhook to resume.
+                    </p>
+                  )}
                   <div style={eventsStyle}>
                     {webhook.events.map((event) => (
                       <span key={event} style={eventBadgeStyle}>
@@ -454,14 +610,90 @@ const WebhookConfig: React.FC<WebhookConfigProps> = ({ owner, repo }) => {
                     ))}
                   </div>
                 </div>
-                <button
-                  style={deleteButtonStyle}
-                  onClick={() => handleDeleteWebhook(webhook.id)}
-                  disabled={deletingId === webhook.id}
-                >
-                  {deletingId === webhook.id ? 'Deleting...' : 'Delete'}
-                </button>
+                <div>
+                  <button
+                    style={secondaryButtonStyle}
+                    onClick={() => handleToggleDeliveries(webhook.id)}
+                  >
+                    {expandedId === webhook.id ? 'Hide Deliveries' : 'Recent Deliveries'}
+                  </button>
+                  <button
+                    style={deleteButtonStyle}
+                    onClick={() => handleDeleteWebhook(webhook.id)}
+                    disabled={deletingId === webhook.id}
+                  >
+                    {deletingId === webhook.id ? 'Deleting...' : 'Delete'}
+                  </button>
+                </div>
               </div>
+
+              {expandedId === webhook.id && (
+                <div>
+                  {loadingDeliveries ? (
+                    <LoadingSpinner message="Loading deliveries..." />
+                  ) : deliveries.length === 0 ? (
+                    <p style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>No deliveries yet</p>
+                  ) : (
+                    deliveries.map((delivery) => (
+                      <div key={delivery.id}>
+                        <div
+                          style={deliveryRowStyle}
+                          onClick={() => setSelectedDeliveryId(selectedDeliveryId === delivery.id ? null : delivery.id)}
+                        >
+                          <span style={statusBadgeStyle(deliveryTone(delivery.status))}>{delivery.status}</span>
+                          <code style={{ flex: 1 }}>{delivery.guid}</code>
+                          <span>{delivery.action ? `${delivery.event}.${delivery.action}` : delivery.event}</span>
+                          {delivery.redelivery && (
+                            <span style={statusBadgeStyle()}>redelivery</span>
+                          )}
+                          <span style={{ color: 'var(--text-secondary)' }}>
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+
+                        {selectedDeliveryId === delivery.id && (
+                          <div style={{ padding: '8px 0 12px' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                              <small style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                                {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                                {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                                {delivery.status === 'pending' && delivery.nextAttemptAt &&
+                                  ` · next attempt ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+                              </small>
+                              <button
+                                style={secondaryButtonStyle}
+                                onClick={() => handleRedeliver(webhook.id, delivery.id)}
+                                disabled={redeliveringId === delivery.id}
+                              >
+                                {redeliveringId === delivery.id ? 'Redelivering...' : 'Redeliver'}
+                              </button>
+                            </div>
+
+                            <label style={labelStyle}>Request headers</label>
+                            <pre style={codeBlockStyle}>
+                              {Object.entries(delivery.request.headers)
+                                .map(([name, value]) => `${name}: ${value}`)
+                                .join('\n')}
+                            </pre>
+                            <label style={labelStyle}>Payload</label>
+                            <pre style={codeBlockStyle}>{JSON.stringify(delivery.request.payload, null, 2)}</pre>
+
+                            <label style={labelStyle}>
+                              Response {delivery.response.status !== null && delivery.response.status}
+                            </label>
+                            {delivery.error && (
+                              <p style={{ fontSize: '13px', color: 'var(--accent-red)', marginBottom: '8px' }}>
+                                {delivery.error}
+                              </p>
+                            )}
+                            <pre style={codeBlockStyle}>{delivery.response.body || '(empty)'}</pre>
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -3,3 +3,4 @@ export { CollaboratorManager } from './CollaboratorManager';
 export { WebhookConfig } from './WebhookConfig';
 export { DeployKeys } from './DeployKeys';
 export { BranchProtection } from './BranchProtection';
+export { MirrorSettings } from './MirrorSettings';
@@ -1,81 +1,222 @@
-import React, { useState, useEffect } from "react";
-import { Play, Pause, Square, Terminal, CheckCircle, XCircle, Clock } from "lucide-react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { Play, Square, Terminal, CheckCircle, XCircle, Clock, SkipForward, ChevronDown, ChevronRight } from "lucide-react";
 import { Button } from "../ui";
-import { clusterService, WorkflowExecution } from "../../services/cluster-service";
-
-interface WorkflowRun {
-    id: string;
-    workflowName: string;
-    status: "pending" | "running" | "success" | "failed" | "cancelled";
-    startTime: string;
-    endTime?: string;
-    logs: string[];
+import {
+    clusterService,
+    WorkflowJobState,
+    WorkflowJobStatus,
+    WorkflowRun,
+} from "../../services/cluster-service";
+import { useWorkflowLogStream } from "../../hooks/useWorkflowLogStream";
+import { parseAnsi, parseWorkflowLog, WorkflowLogSection } from "../../utils/workflow-log";
+
+interface WorkflowRunnerProps {
+    repositoryId: string;
 }
 
-export const WorkflowRunner: React.FC = () => {
-    const [runs, setRuns] = useState<WorkflowRun[]>([
-        {
-            id: "1",
-            workflowName: "CI/CD Pipeline",
-            status: "success",
-            startTime: "2024-01-15T10:30:00Z",
-            endTime: "2024-01-15T10:32:45Z",
-            logs: [
-                "[10:30:00] Starting workflow CI/CD Pipeline",
-                "[10:30:15] Step 1: Install dependencies",
-                "[10:31:00] Step 2: Run tests",
-                "[10:31:45] Step 3: Build application",
-                "[10:32:30] Step 4: Deploy to staging",
-                "[10:32:45] Workflow completed successfully",
-            ],
-        },
-        {
-            id: "2",
-            workflowName: "Daily Tests",
-            status: "running",
-            startTime: "2024-01-15T11:00:00Z",
-            logs: [
-                "[11:00:00] Starting workflow Daily Tests",
-                "[11:00:15] Step 1: Checkout code",
-                "[11:00:30] Step 2: Setup environment",
-                "[11:01:00] Step 3: Run test suite...",
-            ],
-        },
-    ]);
+type RunStatus = WorkflowRun["status"];
+
+const POLL_INTERVAL_MS = 3000;
+
+/** How close to the bottom the log view must be scrolled to keep following new lines */
+const FOLLOW_THRESHOLD_PX = 24;
+
+const renderAnsi = (text: string) =>
+    parseAnsi(text).map((segment, index) => (
+        <span
+            key={index}
+            style={{
+                color: segment.color,
+                background: segment.background,
+                fontWeight: segment.bold ? 600 : undefined,
+                fontStyle: segment.italic ? "italic" : undefined,
+                textDecoration: segment.underline ? "underline" : undefined,
+            }}
+        >
+            {segment.text}
+        </span>
+    ));
+
+const formatLogTime = (timestamp: string) => {
+    const time = new Date(timestamp);
+    return Number.isNaN(time.getTime()) ? timestamp : time.toLocaleTimeString();
+};
+
+const CI_WORKFLOW = `name: CI/CD Pipeline
+on:
+  push:
+    branches: [main]
+  pull_request:
+    branches: [main]
+
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    image: node:18-alpine
+    outputs:
+      version: \${{ steps.version.outputs.version }}
+    steps:
+      - name: Install dependencies
+        run: npm ci
+
+      - name: Build application
+        run: npm run build
+
+      - name: Read version
+        id: version
+        run: echo "version=$(node -p "require('./package.json').version")" >> $GITTIC_OUTPUT
+
+  test:
+    runs-on: ubuntu-latest
+    image: node:\${{ matrix.node }}-alpine
+    needs: build
+    strategy:
+      matrix:
+        node: [18, 20, 22]
+      fail-fast: false
+    steps:
+      - name: Install dependencies
+        run: npm ci
+
+      - name: Run tests
+        run: npm test
+
+  deploy:
+    runs-on: ubuntu-latest
+    image: alpine:latest
+    needs: [build, test]
+    steps:
+      - name: Deploy to staging
+        run: echo "Deploying \${{ needs.build.outputs.version }} to staging"`;
+
+const TEST_WORKFLOW = `name: Daily Tests
+on:
+  schedule:
+    - cron: '0 2 * * *'
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    image: python:3.11-slim
+    steps:
+      - name: Run tests
+        run: |
+          pip install -r requirements.txt
+          pytest --cov=.`;
+
+const HELLO_WORKFLOW = `name: Test Workflow
+on: workflow_dispatch
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    image: alpine:latest
+    steps:
+      - name: Hello World
+        run: echo "Hello from GitTic Cluster!"`;
 
+export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ repositoryId }) => {
+    const [runs, setRuns] = useState<WorkflowRun[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
     const [selectedRun, setSelectedRun] = useState<string | null>(null);
+    const [selectedJob, setSelectedJob] = useState<string | null>(null);
+    const [toggledSteps, setToggledSteps] = useState<Record<string, boolean>>({});
+    const [follow, setFollow] = useState(true);
+    const logViewRef = useRef<HTMLDivElement>(null);
+    const { logs, connected } = useWorkflowLogStream(selectedRun);
+
+    const loadRuns = useCallback(async () => {
+        try {
+            setRuns(await clusterService.listWorkflowRuns(repositoryId));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load workflow runs");
+        } finally {
+            setLoading(false);
+        }
+    }, [repositoryId]);
+
+    const active = runs.some((run) => run.status === "queued" || run.status === "in_progress");
+
+    useEffect(() => {
+        loadRuns();
+    }, [loadRuns]);
+
+    // Poll while any run is still going
+    useEffect(() => {
+        if (!active) return;
+        const timer = setInterval(loadRuns, POLL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [active, loadRuns]);
+
+    useEffect(() => {
+        setToggledSteps({});
+        setFollow(true);
+    }, [selectedRun]);
+
+    // Keep the newest lines in view while following the log
+    useEffect(() => {
+        if (follow && logViewRef.current) {
+            logViewRef.current.scrollTop = logViewRef.current.scrollHeight;
+        }
+    }, [logs, selectedJob, follow]);
+
+    const handleRunWorkflow = async (name: string, yaml: string) => {
+        try {
+            setError(null);
+            await clusterService.executeWorkflow({ name, repositoryId, yaml });
+            await loadRuns();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to start workflow");
+        }
+    };
 
-    const getStatusIcon = (status: WorkflowRun["status"]) => {
+    const handleDownloadLogs = (run: WorkflowRun) => {
+        const jobs = run.jobs.filter((job) => !selectedJob || job.id === selectedJob);
+        const text = jobs.map((job) => `==> ${job.name} <==\n${logs[job.id] ?? ""}`).join("\n");
+        const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${run.workflowId}${selectedJob ? `-${selectedJob}` : ""}.log`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const getStatusIcon = (status: RunStatus | WorkflowJobStatus) => {
         switch (status) {
-            case "pending":
+            case "queued":
                 return <Clock className="w-4 h-4 text-yellow-500" />;
-            case "running":
+            case "in_progress":
                 return <Terminal className="w-4 h-4 text-blue-500 animate-pulse" />;
             case "success":
                 return <CheckCircle className="w-4 h-4 text-green-500" />;
-            case "failed":
+            case "failure":
                 return <XCircle className="w-4 h-4 text-red-500" />;
+            case "skipped":
+                return <SkipForward className="w-4 h-4 text-gray-400" />;
             case "cancelled":
                 return <Square className="w-4 h-4 text-gray-500" />;
         }
     };
 
-    const getStatusColor = (status: WorkflowExecution["status"]) => {
+    const getStatusColor = (status: RunStatus) => {
         switch (status) {
-            case "pending":
+            case "queued":
                 return "bg-yellow-50 text-yellow-700 border-yellow-200";
-            case "running":
+            case "in_progress":
                 return "bg-blue-50 text-blue-700 border-blue-200";
             case "success":
                 return "bg-green-50 text-green-700 border-green-200";
-            case "failed":
+            case "failure":
                 return "bg-red-50 text-red-700 border-red-200";
             case "cancelled":
                 return "bg-gray-50 text-gray-700 border-gray-200";
         }
     };
 
-    const formatDuration = (start: string, end?: string) => {
+    const formatDuration = (start?: string, end?: string) => {
+        if (!start) return "—";
         const startTime = new Date(start);
         const endTime = end ? new Date(end) : new Date();
         const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
@@ -85,6 +226,82 @@ export const WorkflowRunner: React.FC = () => {
         return `${Math.floor(duration / 3600)}h ${Math.floor((duration % 3600) / 60)}m`;
     };
 
+    const renderJob = (run: WorkflowRun, job: WorkflowJobState) => (
+        <button
+            key={job.id}
+            type="button"
+            className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-bg-light ${
+                selectedJob === job.id ? "bg-bg-light" : ""
+            }`}
+            onClick={() => {
+                setSelectedRun(run.workflowId);
+                setSelectedJob(selectedJob === job.id ? null : job.id);
+            }}
+        >
+            <div className="flex items-center gap-3">
+                {getStatusIcon(job.status ?? "queued")}
+                <div>
+                    <div className="font-medium">{job.name}</div>
+                    {job.needs.length > 0 && (
+                        <div className="text-xs text-text-secondary">Needs: {job.needs.join(", ")}</div>
+                    )}
+                    {job.error && <div className="text-xs text-red-600">{job.error}</div>}
+                </div>
+            </div>
+            <span className="text-xs text-text-secondary">
+                {job.status === "skipped" ? "skipped" : formatDuration(job.startedAt, job.completedAt)}
+            </span>
+        </button>
+    );
+
+    const handleLogScroll = () => {
+        const view = logViewRef.current;
+        if (view) setFollow(view.scrollHeight - view.scrollTop - view.clientHeight < FOLLOW_THRESHOLD_PX);
+    };
+
+    // Running steps and steps with errors start expanded; the rest start folded
+    const isExpanded = (key: string, section: WorkflowLogSection) =>
+        toggledSteps[key] ?? (section.open || section.lines.some((line) => line.error));
+
+    const renderLogSection = (key: string, section: WorkflowLogSection) => {
+        const lines = section.lines.map((line, index) => (
+            <div key={index} className={`flex gap-3 whitespace-pre-wrap ${line.error ? "text-red-400" : ""}`}>
+                <span className="text-gray-500 select-none shrink-0">{formatLogTime(line.timestamp)}</span>
+                <span>{renderAnsi(line.text)}</span>
+            </div>
+        ));
+        if (section.title === undefined) return <div key={key}>{lines}</div>;
+
+        const expanded = isExpanded(key, section);
+        return (
+            <div key={key}>
+                <button
+                    type="button"
+                    className="flex items-center gap-1 text-gray-200 hover:text-white"
+                    onClick={() => setToggledSteps((prev) => ({ ...prev, [key]: !expanded }))}
+                >
+                    {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                    <span className="font-semibold">{section.title}</span>
+                    {section.open && <span className="animate-pulse text-blue-400">●</span>}
+                </button>
+                {expanded && <div className="pl-4">{lines}</div>}
+            </div>
+        );
+    };
+
+    const renderLogs = (run: WorkflowRun) =>
+        run.jobs
+            .filter((job) => !selectedJob || job.id === selectedJob)
+            .filter((job) => logs[job.id])
+            .map((job) => (
+                <div key={job.id} className="space-y-1">
+                    {!selectedJob && <div className="text-gray-400 font-semibold">{job.name}</div>}
+                    {parseWorkflowLog(logs[job.id]).map((section, index) =>
+                        renderLogSection(`${job.id}:${index}`, section)
+                    )}
+                </div>
+            ));
+
     return (
         <div className="space-y-6">
             {/* Header */}
@@ -93,31 +310,7 @@ export const WorkflowRunner: React.FC = () => {
                 <div className="flex gap-2">
                     <Button
                         size="sm"
-                        onClick={() => handleRunWorkflow("CI/CD Pipeline", `name: CI/CD Pipeline
-on:
-  push:
-    branches: [main]
-  pull_request:
-    branches: [main]
-
-jobs:
-  test:
-    runs-on: ubuntu-latest
-    image: node:18-alpine
-    steps:
-      - name: Checkout code
-        run: |
-          git clone $REPO_URL .
-          git checkout $GITHUB_SHA
-      
-      - name: Install dependencies
-        run: npm ci
-      
-      - name: Run tests
-        run: npm test
-      
-      - name: Build application
-        run: npm run build`)}
+                        onClick={() => handleRunWorkflow("CI/CD Pipeline", CI_WORKFLOW)}
                         className="flex items-center gap-2"
                     >
                         <Play className="w-4 h-4" />
@@ -126,25 +319,7 @@ jobs:
                     <Button
                         variant="secondary"
                         size="sm"
-                        onClick={() => handleRunWorkflow("Daily Tests", `name: Daily Tests
-on:
-  schedule:
-    - cron: '0 2 * * *'
-
-jobs:
-  test:
-    runs-on: ubuntu-latest
-    image: python:3.11-slim
-    steps:
-      - name: Checkout code
-        run: |
-          git clone $REPO_URL .
-          git checkout $GITHUB_SHA
-      
-      - name: Run tests
-        run: |
-          pip install -r requirements.txt
-          pytest --cov=.`)}
+                        onClick={() => handleRunWorkflow("Daily Tests", TEST_WORKFLOW)}
                     >
                         Run Tests
                     </Button>
@@ -172,49 +347,39 @@ jobs:
             {!loading && runs.length > 0 && (
                 <div className="space-y-3">
                     {runs.map((run) => (
-                        <div key={run.id} className="border border-border-light rounded-lg overflow-hidden">
+                        <div key={run.workflowId} className="border border-border-light rounded-lg overflow-hidden">
                             <div
                                 className="p-4 bg-white cursor-pointer hover:bg-bg-light transition-colors"
-                                onClick={() => setSelectedRun(selectedRun === run.id ? null : run.id)}
+                                onClick={() => {
+                                    setSelectedRun(selectedRun === run.workflowId ? null : run.workflowId);
+                                    setSelectedJob(null);
+                                }}
                             >
                                 <div className="flex items-center justify-between">
                                     <div className="flex items-center gap-3">
                                         {getStatusIcon(run.status)}
                                         <div>
-                                            <div className="font-medium">{run.workflowName}</div>
+                                            <div className="font-medium">{run.name}</div>
                                             <div className="text-sm text-text-secondary">
-                                                Started {new Date(run.startTime).toLocaleString()} •
-                                                Node: {run.nodeName} •
-                                                Duration: {formatDuration(run.startTime, run.endTime)}
+                                                Started {new Date(run.createdAt).toLocaleString()} •
+                                                Duration: {formatDuration(run.createdAt, run.status === "queued" || run.status === "in_progress" ? undefined : run.updatedAt)}
                                             </div>
                                             <div className="text-xs text-text-secondary">
-                                                Resources: {run.resources.cores} cores, {run.resources.memoryGB}GB RAM
+                                                {run.jobs.filter((job) => job.status === "success").length}/{run.jobs.length} jobs succeeded
                                             </div>
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-2">
                                         <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(run.status)}`}>
-                                            {run.status}
+                                            {run.status.replace("_", " ")}
                                         </span>
-                                        {run.status === "running" && (
-                                            <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    handleCancelWorkflow(run.id);
-                                                }}
-                                            >
-                                                <Square className="w-4 h-4" />
-                                            </Button>
-                                        )}
-                                        {selectedRun === run.id && (
+                                        {selectedRun === run.workflowId && (
                                             <Button
                                                 variant="ghost"
                                                 size="sm"
                                                 onClick={(e) => {
                                                     e.stopPropagation();
-                                                    handleDownloadLogs(run.id);
+                                                    handleDownloadLogs(run);
                                                 }}
                                             >
                                                 Download Logs
@@ -224,14 +389,31 @@ jobs:
                                 </div>
                             </div>
 
+                            {/* Jobs */}
+                            {run.jobs.length > 0 && (
+                                <div className="border-t border-border-light divide-y divide-border-light bg-white">
+                                    {run.jobs.map((job) => renderJob(run, job))}
+                                </div>
+                            )}
+
                             {/* Logs Section */}
-                            {selectedRun === run.id && (
+                            {selectedRun === run.workflowId && (
                                 <div className="border-t border-border-light bg-gray-900 p-4">
-                                    <div className="font-mono text-sm text-green-400 space-y-1 max-h-96 overflow-y-auto">
-                                        {run.logs.map((log, index) => (
-                                            <div key={index}>{log}</div>
-                                        ))}
-                                        {run.status === "running" && (
+                                    <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+                                        <span>{connected ? "Live" : "Reconnecting…"}</span>
+                                        {!follow && (
+                                            <button type="button" className="hover:text-white" onClick={() => setFollow(true)}>
+                                                Follow log
+                                            </button>
+                                        )}
+                                    </div>
+                                    <div
+                                        ref={logViewRef}
+                                        onScroll={handleLogScroll}
+                                        className="font-mono text-sm text-green-400 space-y-1 max-h-96 overflow-y-auto"
+                                    >
+                                        {renderLogs(run)}
+                                        {run.status === "in_progress" && (
                                             <div className="animate-pulse">▊</div>
                                         )}
                                     </div>
@@ -250,16 +432,7 @@ jobs:
                     <p className="text-text-secondary mb-4">
                         Run your first workflow to see execution logs and status here.
                     </p>
-                    <Button onClick={() => handleRunWorkflow("Test Workflow", `name: Test Workflow
-on: workflow_dispatch
-
-jobs:
-  test:
-    runs-on: ubuntu-latest
-    image: alpine:latest
-    steps:
-      - name: Hello World
-        run: echo "Hello from GitTic Cluster!"`)}>
+                    <Button onClick={() => handleRunWorkflow("Test Workflow", HELLO_WORKFLOW)}>
                         Run Test Workflow
                     </Button>
                 </div>
@@ -274,11 +447,11 @@ jobs:
                 <ul className="text-sm text-text-secondary space-y-1 list-disc list-inside">
                     <li>Automatic resource allocation based on subscription tier</li>
                     <li>Docker-based workflow execution with custom images</li>
-                    <li>Real-time log streaming and status updates</li>
+                    <li>Jobs run in dependency order using <code>needs</code>, passing <code>outputs</code> downstream</li>
+                    <li>Matrix jobs run once per combination, e.g. <code>test (20)</code></li>
+                    <li>Live log streaming with collapsible steps that resumes after reconnecting</li>
                     <li>Automatic scaling and load balancing across nodes</li>
                     <li>Support for custom Docker images and environments</li>
-                    <li>Workflow artifacts and result storage</li>
-                    <li>Performance metrics and monitoring</li>
                 </ul>
             </div>
         </div>
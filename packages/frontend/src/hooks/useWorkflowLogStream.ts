@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { STORAGE_KEYS } from "../utils/constants";
+
+/** Longest wait between reconnection attempts */
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export interface WorkflowLogStream {
+  /** Log received so far, keyed by job id */
+  logs: Record<string, string>;
+  /** Whether the stream is currently following the run */
+  connected: boolean;
+}
+
+/**
+ * Follow a workflow run's job logs over the WebSocket gateway.
+ *
+ * Joining the run's room replays the logs written so far, then new lines
+ * arrive as jobs print them. After a dropped connection the hook
+ * reconnects and resumes each job from the byte offset it had reached.
+ */
+export function useWorkflowLogStream(runId: string | null): WorkflowLogStream {
+  const [logs, setLogs] = useState<Record<string, string>>({});
+  const [connected, setConnected] = useState(false);
+  const offsets = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    setLogs({});
+    offsets.current = {};
+    if (!runId) return;
+
+    const room = `workflow-run:${runId}`;
+    let ws: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${wsProtocol}//${window.location.host}/ws`);
+      ws = socket;
+
+      socket.onopen = () => {
+        const token = localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+        if (token) socket.send(JSON.stringify({ type: "auth", token }));
+      };
+
+      socket.onmessage = (event) => {
+        const msg = JSON.parse(event.data);
+
+        if (msg.type === "auth:success") {
+          socket.send(JSON.stringify({ type: "join", room, data: { offsets: offsets.current } }));
+        } else if (msg.type === "room:joined" && msg.room === room) {
+          attempts = 0;
+          setConnected(true);
+        } else if (msg.type === "workflow:log" && msg.room === room) {
+          const { job, offset, nextOffset, content } = msg.data as {
+            job: string;
+            offset: number;
+            nextOffset: number;
+            content: string;
+          };
+          const seen = offsets.current[job] ?? 0;
+          if (nextOffset <= seen) return;
+
+          // Offsets count bytes, so overlap with what was already seen is cut in bytes
+          const fresh = offset >= seen
+            ? content
+            : new TextDecoder().decode(new TextEncoder().encode(content).slice(seen - offset));
+          offsets.current[job] = nextOffset;
+          setLogs((prev) => ({ ...prev, [job]: (prev[job] ?? "") + fresh }));
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (stopped) return;
+        retryTimer = setTimeout(connect, Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts++));
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      ws?.close();
+    };
+  }, [runId]);
+
+  return { logs, connected };
+}
@@ -1,7 +1,7 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
-import { usePaginatedApi } from "../hooks/useApi";
+import { useApi, usePaginatedApi } from "../hooks/useApi";
 import { api } from "../services/api-client";
 import { LoadingSpinner } from "../components/common/LoadingSpinner";
 import { ErrorMessage } from "../components/common/ErrorMessage";
@@ -11,16 +11,19 @@ import { formatRelativeTime } from "../utils/format";
 
 interface WorkflowRun {
     id: string;
+    runNumber: number;
+    workflowId: string | null;
     workflowName: string;
+    event: string;
     status: "queued" | "in_progress" | "completed";
-    conclusion?: "success" | "failure" | "cancelled" | "skipped";
-    branch: string;
-    commitMessage: string;
-    commitSha: string;
-    triggeredBy: string;
+    conclusion: "success" | "failure" | "cancelled" | null;
+    headBranch: string;
+    headSha: string | null;
+    commitMessage: string | null;
+    triggeredBy: string | null;
     createdAt: string;
-    completedAt?: string;
-    duration?: number;
+    completedAt: string | null;
+    duration: number | null;
 }
 
 interface Workflow {
@@ -31,10 +34,7 @@ interface Workflow {
     badge?: string;
 }
 
-interface ActionsData {
-    workflows: Workflow[];
-    runs: WorkflowRun[];
-}
+const EVENTS = ["push", "pull_request", "tag", "workflow_dispatch"];
 
 /**
  * GitHub Actions page showing workflow runs, jobs, and logs.
@@ -44,6 +44,13 @@ export const ActionsPage: React.FC = () => {
     const { isAuthenticated } = useAuth();
     const [selectedWorkflow, setSelectedWorkflow] = useState<string | null>(null);
     const [statusFilter, setStatusFilter] = useState<string>("all");
+    const [eventFilter, setEventFilter] = useState<string>("");
+    const [branchFilter, setBranchFilter] = useState<string>("");
+
+    const { data: workflowList } = useApi<{ workflows: Workflow[] }>(
+        () => api.get(`/repositories/${owner}/${repo}/actions/workflows`),
+        [owner, repo],
+    );
 
     const {
         items: runs,
@@ -56,6 +63,7 @@ export const ActionsPage: React.FC = () => {
         hasNext,
         hasPrev,
         goToPage,
+        refetch,
     } = usePaginatedApi<WorkflowRun>(
         (page, perPage) =>
             api.get(`/repositories/${owner}/${repo}/actions/runs`, {
@@ -64,11 +72,24 @@ export const ActionsPage: React.FC = () => {
                     perPage,
                     workflow: selectedWorkflow || undefined,
                     status: statusFilter !== "all" ? statusFilter : undefined,
+                    event: eventFilter || undefined,
+                    branch: branchFilter.trim() || undefined,
                 },
             }),
         20,
     );
 
+    // The paginated fetch only follows page changes, so filters restart from page one
+    const filtersChanged = useRef(false);
+    useEffect(() => {
+        if (!filtersChanged.current) {
+            filtersChanged.current = true;
+            return;
+        }
+        if (page === 1) refetch();
+        else goToPage(1);
+    }, [selectedWorkflow, statusFilter, eventFilter, branchFilter]);
+
     const pageStyle: React.CSSProperties = {
         maxWidth: "1200px",
         margin: "0 auto",
@@ -136,6 +157,15 @@ export const ActionsPage: React.FC = () => {
         transition: "all 0.15s",
     });
 
+    const selectStyle: React.CSSProperties = {
+        padding: "4px 8px",
+        fontSize: "13px",
+        borderRadius: "var(--radius)",
+        border: "1px solid var(--border-color)",
+        background: "var(--bg-primary)",
+        color: "var(--text-primary)",
+    };
+
     const runsList: React.CSSProperties = {
         display: "flex",
         flexDirection: "column",
@@ -248,6 +278,44 @@ export const ActionsPage: React.FC = () => {
                         🔄 In Progress
                     </button>
                 </div>
+                <div style={filterGroup}>
+                    <span style={filterLabel}>Workflow:</span>
+                    <select
+                        style={selectStyle}
+                        value={selectedWorkflow ?? ""}
+                        onChange={(e) => setSelectedWorkflow(e.target.value || null)}
+                    >
+                        <option value="">All workflows</option>
+                        {workflowList?.workflows.map((workflow) => (
+                            <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div style={filterGroup}>
+                    <span style={filterLabel}>Event:</span>
+                    <select
+                        style={selectStyle}
+                        value={eventFilter}
+                        onChange={(e) => setEventFilter(e.target.value)}
+                    >
+                        <option value="">All events</option>
+                        {EVENTS.map((event) => (
+                            <option key={event} value={event}>{event}</option>
+                        ))}
+                    </select>
+                </div>
+                <div style={filterGroup}>
+                    <span style={filterLabel}>Branch:</span>
+                    <input
+                        style={selectStyle}
+                        placeholder="Any branch"
+                        defaultValue={branchFilter}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") setBranchFilter(e.currentTarget.value);
+                        }}
+                        onBlur={(e) => setBranchFilter(e.currentTarget.value)}
+                    />
+                </div>
             </div>
 
             {runs.length > 0 ? (
@@ -264,22 +332,38 @@ export const ActionsPage: React.FC = () => {
                                 </div>
                                 <div style={runInfo}>
                                     <div style={runTitle}>
-                                        {run.workflowName}
+                                        {run.workflowName} #{run.runNumber}
                                     </div>
                                     <div style={runMeta}>
-                                        <span>{run.commitMessage}</span>
-                                        <span>•</span>
+                                        {run.commitMessage && (
+                                            <>
+                                                <span>{run.commitMessage}</span>
+                                                <span>•</span>
+                                            </>
+                                        )}
                                         <span>
                                             <Badge
-                                                label={run.branch}
+                                                label={run.headBranch}
                                                 variant="default"
                                             />
                                         </span>
                                         <span>•</span>
-                                        <span>{run.triggeredBy}</span>
+                                        <span>{run.event}</span>
+                                        {run.headSha && (
+                                            <>
+                                                <span>•</span>
+                                                <code>{run.headSha.slice(0, 7)}</code>
+                                            </>
+                                        )}
+                                        {run.triggeredBy && (
+                                            <>
+                                                <span>•</span>
+                                                <span>{run.triggeredBy}</span>
+                                            </>
+                                        )}
                                         <span>•</span>
                                         <span>{formatRelativeTime(run.createdAt)}</span>
-                                        {run.duration && (
+                                        {run.duration !== null && (
                                             <>
                                                 <span>•</span>
                                                 <span>{Math.round(run.duration / 1000)}s</span>
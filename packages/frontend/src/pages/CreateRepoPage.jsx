@@ -6,6 +6,9 @@ const CreateRepoPage = () => {
     const [selectedOrg, setSelectedOrg] = useState('default');
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
+    const [mirrorUrl, setMirrorUrl] = useState('');
+    const [mirrorUsername, setMirrorUsername] = useState('');
+    const [mirrorPassword, setMirrorPassword] = useState('');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
     const [success, setSuccess] = useState(false);
@@ -41,12 +44,25 @@ const CreateRepoPage = () => {
                     org: selectedOrg,
                     name,
                     description,
+                    mirror: mirrorUrl
+                        ? {
+                            url: mirrorUrl.trim(),
+                            username: mirrorUsername.trim() || undefined,
+                            password: mirrorPassword || undefined,
+                        }
+                        : undefined,
                 }),
             });
-            if (!res.ok) throw new Error('Failed to create repository');
+            if (!res.ok) {
+                const data = await res.json().catch(() => null);
+                throw new Error(data?.error || 'Failed to create repository');
+            }
             setSuccess(true);
             setName('');
             setDescription('');
+            setMirrorUrl('');
+            setMirrorUsername('');
+            setMirrorPassword('');
         } catch (e) {
             setError(e.message || 'Error creating repository');
         }
@@ -89,6 +105,36 @@ const CreateRepoPage = () => {
                         rows={3}
                     />
                 </div>
+                <div className="mb-4">
+                    <label className="block mb-2 font-medium">Mirror an existing repository (optional)</label>
+                    <input
+                        type="text"
+                        value={mirrorUrl}
+                        onChange={e => setMirrorUrl(e.target.value)}
+                        placeholder="https://example.com/org/repo.git"
+                        className="w-full border rounded p-2"
+                    />
+                    {mirrorUrl && (
+                        <div className="flex gap-2 mt-2">
+                            <input
+                                type="text"
+                                value={mirrorUsername}
+                                onChange={e => setMirrorUsername(e.target.value)}
+                                placeholder="Username"
+                                autoComplete="off"
+                                className="w-full border rounded p-2"
+                            />
+                            <input
+                                type="password"
+                                value={mirrorPassword}
+                                onChange={e => setMirrorPassword(e.target.value)}
+                                placeholder="Password or token"
+                                autoComplete="new-password"
+                                className="w-full border rounded p-2"
+                            />
+                        </div>
+                    )}
+                </div>
                 {error && <div className="text-red-600 mb-2">{error}</div>}
                 {success && <div className="text-green-600 mb-2">Repository created successfully!</div>}
                 <button
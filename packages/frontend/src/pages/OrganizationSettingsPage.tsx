@@ -9,6 +9,7 @@ import { OrgSettings } from "../components/organizations/OrgSettings";
 import { OrgMembers } from "../components/organizations/OrgMembers";
 import { TeamManager } from "../components/organizations/TeamManager";
 import { TeamPermissions } from "../components/organizations/TeamPermissions";
+import { BranchProtection } from "../components/settings/BranchProtection";
 
 interface Organization {
     id: string;
@@ -16,11 +17,11 @@ interface Organization {
     isAdmin: boolean;
 }
 
-type SettingsTab = "general" | "members" | "teams" | "permissions";
+type SettingsTab = "general" | "members" | "teams" | "permissions" | "branches";
 
 /**
  * Organization settings page with tabs for general settings, members,
- * teams, and permissions.
+ * teams, permissions, and branch protection rules for all repositories.
  */
 export const OrganizationSettingsPage: React.FC = () => {
     const { orgName } = useParams<{ orgName: string }>();
@@ -136,6 +137,12 @@ export const OrganizationSettingsPage: React.FC = () => {
                     >
                         🔐 Permissions
                     </button>
+                    <button
+                        style={getNavItemStyle(activeTab === "branches")}
+                        onClick={() => setActiveTab("branches")}
+                    >
+                        🛡️ Branch Protection
+                    </button>
                 </nav>
 
                 <div style={contentStyle}>
@@ -151,6 +158,9 @@ export const OrganizationSettingsPage: React.FC = () => {
                     {activeTab === "permissions" && (
                         <TeamPermissions orgname={data.name} teamSlug="owners" />
                     )}
+                    {activeTab === "branches" && (
+                        <BranchProtection orgId={data.id} />
+                    )}
                 </div>
             </div>
         </div>
@@ -1,12 +1,16 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { GitPullRequest, GitCommit, GitBranch, User, Calendar, MessageSquare, CheckCircle, XCircle, AlertTriangle, Triangle, Merge, Code, FileDiff } from 'lucide-react';
+import { GitPullRequest, GitCommit, GitBranch, User, Calendar, MessageSquare, CheckCircle, Clock, XCircle, AlertTriangle, Triangle, Merge, Code, FileDiff } from 'lucide-react';
 import { Button, Badge } from '../components/ui';
 import { useApi } from '../hooks/useApi';
 import { api } from '../services/api-client';
 import { LoadingSpinner } from '../components/common/LoadingSpinner';
 import { ErrorMessage } from '../components/common/ErrorMessage';
 import { useToast } from '../hooks/useToast';
+import { useAuth } from '../hooks/useAuth';
+import PullRequestFiles from '../components/pullrequests/PullRequestFiles';
+import PullRequestReviews from '../components/pullrequests/PullRequestReviews';
+import type { AddInlineCommentData, PRFileChange, PRReview, PRReviewThread } from '../components/pullrequests/types';
 
 interface PullRequestDetail {
   id: string;
@@ -71,8 +75,8 @@ interface Commit {
 }
 
 interface File {
-  sha: string;
   filename: string;
+  previousFilename?: string;
   status: 'added' | 'removed' | 'modified' | 'renamed';
   additions: number;
   deletions: number;
@@ -80,11 +84,66 @@ interface File {
   patch: string;
 }
 
+interface FilesResponse {
+  commitId: string;
+  files: File[];
+}
+
+interface Review {
+  id: string;
+  user: { id: string; username: string; avatarUrl?: string };
+  state: 'pending' | 'approved' | 'changes_requested' | 'commented';
+  body: string | null;
+  submittedAt: string | null;
+  dismissed: boolean;
+}
+
+type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+interface CodeOwnerArea {
+  pattern: string;
+  owners: string[];
+  paths: string[];
+  approvedBy: string[];
+}
+
+interface MergeQueueStatus {
+  state: 'queued' | 'failed';
+  position: number | null;
+  queueLength: number;
+  failureReason: string | null;
+}
+
+interface MergeStatus {
+  canMerge: boolean;
+  allowedMergeMethods: MergeMethod[];
+  reason?: string;
+  requiresMergeQueue?: boolean;
+  mergeQueue?: MergeQueueStatus | null;
+  requiresCodeOwnerReviews?: boolean;
+  codeOwners?: {
+    path: string | null;
+    errors: Array<{ line: number; message: string }>;
+    areas: CodeOwnerArea[];
+  };
+}
+
+const MERGE_METHOD_LABELS: Record<MergeMethod, string> = {
+  merge: 'Create a merge commit',
+  squash: 'Squash and merge',
+  rebase: 'Rebase and merge',
+};
+
 export const PullRequestDetailPage: React.FC = () => {
   const { owner, repo, number } = useParams<{ owner: string; repo: string; number: string }>();
   const toast = useToast();
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'overview' | 'commits' | 'files'>('overview');
-  const [mergeMethod, setMergeMethod] = useState<'merge' | 'squash' | 'rebase'>('merge');
+  const [mergeMethod, setMergeMethod] = useState<MergeMethod>('merge');
+  const [commitTitle, setCommitTitle] = useState('');
+  const [commitMessage, setCommitMessage] = useState('');
 
   const { data: pr, loading, error, refetch } = useApi<PullRequestDetail>(
     () => api.get(`/repositories/${owner}/${repo}/pulls/${number}`),
@@ -96,25 +155,63 @@ export const PullRequestDetailPage: React.FC = () => {
     [owner, repo, number],
   );
 
-  const { data: files } = useApi<File[]>(
+  const { data: files, refetch: refetchFiles } = useApi<FilesResponse>(
     () => api.get(`/repositories/${owner}/${repo}/pulls/${number}/files`),
     [owner, repo, number],
   );
 
+  const { data: threads, refetch: refetchThreads } = useApi<PRReviewThread[]>(
+    () => api.get(`/repositories/${owner}/${repo}/pulls/${number}/threads`),
+    [owner, repo, number],
+  );
+
+  const { data: reviews, refetch: refetchReviews } = useApi<Review[]>(
+    () => api.get(`/repositories/${owner}/${repo}/pulls/${number}/reviews`),
+    [owner, repo, number],
+  );
+
   const { data: diff } = useApi<string>(
     () => api.get(`/repositories/${owner}/${repo}/pulls/${number}/diff`),
     [owner, repo, number],
   );
 
+  const { data: mergeStatus, refetch: refetchMergeStatus } = useApi<MergeStatus>(
+    () => api.get(`/repositories/${owner}/${repo}/pulls/${number}/merge-status`),
+    [owner, repo, number],
+  );
+
+  const allowedMergeMethods = mergeStatus?.allowedMergeMethods ?? ['merge', 'squash', 'rebase'];
+  const mergeQueue = mergeStatus?.mergeQueue ?? null;
+
+  useEffect(() => {
+    if (!allowedMergeMethods.includes(mergeMethod) && allowedMergeMethods.length > 0) {
+      setMergeMethod(allowedMergeMethods[0]);
+    }
+  }, [allowedMergeMethods, mergeMethod]);
+
   const handleMerge = async () => {
     if (!pr?.mergeable) {
       toast.error('Pull request cannot be merged');
       return;
     }
 
+    if (mergeStatus?.requiresMergeQueue) {
+      try {
+        await api.post(`/repositories/${owner}/${repo}/pulls/${number}/queue`, { merge_method: mergeMethod });
+        toast.success('Pull request added to the merge queue');
+        refetch();
+        refetchMergeStatus();
+      } catch (error: any) {
+        toast.error(error.message || 'Failed to add pull request to the merge queue');
+      }
+      return;
+    }
+
     try {
-      await api.put(`/repositories/${owner}/${repo}/pulls/${number}/merge`, {
+      await api.post(`/repositories/${owner}/${repo}/pulls/${number}/merge`, {
         merge_method: mergeMethod,
+        ...(mergeMethod === 'squash' && commitTitle.trim() ? { commit_title: commitTitle.trim() } : {}),
+        ...(mergeMethod === 'squash' && commitMessage.trim() ? { commit_message: commitMessage } : {}),
       });
       toast.success('Pull request merged successfully');
       refetch();
@@ -123,6 +220,16 @@ export const PullRequestDetailPage: React.FC = () => {
     }
   };
 
+  const handleDequeue = async () => {
+    try {
+      await api.delete(`/repositories/${owner}/${repo}/pulls/${number}/queue`);
+      toast.success('Pull request removed from the merge queue');
+      refetchMergeStatus();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove pull request from the merge queue');
+    }
+  };
+
   const handleClose = async () => {
     if (!confirm('Are you sure you want to close this pull request?')) {
       return;
@@ -151,6 +258,125 @@ export const PullRequestDetailPage: React.FC = () => {
     }
   };
 
+  const threadsPath = `/repositories/${owner}/${repo}/pulls/${number}/threads`;
+  const reviewsPath = `/repositories/${owner}/${repo}/pulls/${number}/reviews`;
+  const pendingReview = reviews?.find((review) => review.state === 'pending');
+  const pendingCommentCount = (threads ?? [])
+    .flatMap((thread) => thread.comments)
+    .filter((comment) => comment.pending).length;
+  const submittedReviews: PRReview[] = (reviews ?? [])
+    .filter((review) => review.state !== 'pending')
+    .map((review) => ({
+      id: review.id,
+      author: review.user,
+      decision: review.state,
+      comment: review.body ?? undefined,
+      createdAt: review.submittedAt ?? '',
+      updatedAt: review.submittedAt ?? '',
+      dismissed: review.dismissed,
+    }));
+
+  const handleSubmitReview = async (event: ReviewEvent, body?: string) => {
+    try {
+      if (pendingReview) {
+        await api.post(`${reviewsPath}/${pendingReview.id}/events`, { event, body });
+      } else {
+        await api.post(reviewsPath, { event, body, commit_id: files?.commitId });
+      }
+      toast.success('Review submitted');
+      refetchReviews();
+      refetchThreads();
+      refetchMergeStatus();
+      refetch();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to submit review');
+      throw error;
+    }
+  };
+
+  const handleDiscardReview = async () => {
+    if (!pendingReview || !confirm('Discard your pending review and its comments?')) {
+      return;
+    }
+
+    try {
+      await api.delete(`${reviewsPath}/${pendingReview.id}`);
+      refetchReviews();
+      refetchThreads();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to discard review');
+    }
+  };
+
+  const handleApplySuggestions = async (commentIds: string[]) => {
+    try {
+      await api.post(`/repositories/${owner}/${repo}/pulls/${number}/suggestions`, { comment_ids: commentIds });
+      toast.success(commentIds.length === 1 ? 'Suggestion committed' : 'Suggestions committed');
+      refetchFiles();
+      refetchThreads();
+      refetch();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to commit suggestions');
+    }
+  };
+
+  const handleAddInlineComment = async (data: AddInlineCommentData) => {
+    try {
+      await api.post(threadsPath, {
+        body: data.body,
+        path: data.filePath,
+        line: data.line,
+        start_line: data.startLine,
+        side: data.side,
+        commit_id: files?.commitId,
+        pending: data.pending,
+      });
+      refetchThreads();
+      if (data.pending) refetchReviews();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add comment');
+      // The head may have moved since the diff was loaded
+      refetchFiles();
+    }
+  };
+
+  const handleReplyToThread = async (threadId: string, body: string) => {
+    try {
+      await api.post(`${threadsPath}/${threadId}/comments`, { body });
+      refetchThreads();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reply');
+    }
+  };
+
+  const handleResolveThread = async (threadId: string, resolved: boolean) => {
+    try {
+      await api.patch(`${threadsPath}/${threadId}`, { resolved });
+      refetchThreads();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update conversation');
+    }
+  };
+
+  const handleDeleteInlineComment = async (commentId: string, threadId: string) => {
+    try {
+      await api.delete(`${threadsPath}/${threadId}/comments/${commentId}`);
+      refetchThreads();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete comment');
+    }
+  };
+
+  const fileChanges: PRFileChange[] = (files?.files ?? []).map((file) => ({
+    path: file.filename,
+    previousPath: file.previousFilename,
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    changes: file.changes,
+    patch: file.patch,
+  }));
+
   const getStatusIcon = (state: string) => {
     switch (state) {
       case 'open':
@@ -270,20 +496,32 @@ export const PullRequestDetailPage: React.FC = () => {
         <div className="bg-white rounded-lg border border-gray-200 mb-6">
           <div className="p-6">
             <div className="flex items-center gap-4">
-              {pr.mergeable && (
+              {mergeQueue?.state === 'queued' && (
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <Clock className="w-4 h-4 text-yellow-600" />
+                  <span>
+                    Queued to merge: position {mergeQueue.position} of {mergeQueue.queueLength} in
+                    the {pr.base.ref} merge queue
+                  </span>
+                  <Button variant="outline" onClick={handleDequeue}>
+                    Remove from queue
+                  </Button>
+                </div>
+              )}
+              {pr.mergeable && mergeQueue?.state !== 'queued' && (
                 <div className="flex items-center gap-2">
                   <select
                     value={mergeMethod}
-                    onChange={(e) => setMergeMethod(e.target.value as any)}
+                    onChange={(e) => setMergeMethod(e.target.value as MergeMethod)}
                     className="border border-gray-300 rounded-md px-3 py-2 text-sm"
                   >
-                    <option value="merge">Create a merge commit</option>
-                    <option value="squash">Squash and merge</option>
-                    <option value="rebase">Rebase and merge</option>
+                    {allowedMergeMethods.map((method) => (
+                      <option key={method} value={method}>{MERGE_METHOD_LABELS[method]}</option>
+                    ))}
                   </select>
                   <Button onClick={handleMerge} className="flex items-center gap-2">
                     <Merge className="w-4 h-4" />
-                    Merge pull request
+                    {mergeStatus?.requiresMergeQueue ? 'Add to merge queue' : 'Merge pull request'}
                   </Button>
                 </div>
               )}
@@ -292,6 +530,61 @@ export const PullRequestDetailPage: React.FC = () => {
                 Close pull request
               </Button>
             </div>
+            {mergeQueue?.state === 'failed' && (
+              <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                Removed from the merge queue: {mergeQueue.failureReason}
+              </div>
+            )}
+            {mergeStatus?.codeOwners && mergeStatus.codeOwners.areas.length > 0 && (
+              <div className="mt-4 space-y-1 text-sm">
+                <div className="font-medium text-gray-900">
+                  Code owners{mergeStatus.requiresCodeOwnerReviews ? ' (review required)' : ''}
+                </div>
+                {mergeStatus.codeOwners.areas.map((area) => (
+                  <div key={area.pattern} className="flex items-center gap-2 text-gray-600">
+                    {area.approvedBy.length > 0
+                      ? <CheckCircle className="w-4 h-4 text-green-600" />
+                      : <AlertTriangle className="w-4 h-4 text-yellow-600" />}
+                    <code>{area.pattern}</code>
+                    <span>
+                      {area.approvedBy.length > 0
+                        ? `approved by ${area.approvedBy.join(', ')}`
+                        : `awaiting ${area.owners.join(', ')}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {mergeStatus?.codeOwners && mergeStatus.codeOwners.errors.length > 0 && (
+              <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <div className="font-medium">{mergeStatus.codeOwners.path} has errors</div>
+                <ul className="mt-1 list-disc pl-5">
+                  {mergeStatus.codeOwners.errors.map((codeownersError) => (
+                    <li key={`${codeownersError.line}-${codeownersError.message}`}>
+                      Line {codeownersError.line}: {codeownersError.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {pr.mergeable && mergeMethod === 'squash' && (
+              <div className="mt-4 space-y-2">
+                <input
+                  type="text"
+                  value={commitTitle}
+                  onChange={(e) => setCommitTitle(e.target.value)}
+                  placeholder={`${pr.title} (#${pr.number})`}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                <textarea
+                  value={commitMessage}
+                  onChange={(e) => setCommitMessage(e.target.value)}
+                  placeholder="Defaults to the list of squashed commit messages"
+                  rows={4}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono"
+                />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -344,6 +637,16 @@ export const PullRequestDetailPage: React.FC = () => {
                 <p className="text-gray-500">No description provided.</p>
               )}
             </div>
+            <PullRequestReviews
+              reviews={submittedReviews}
+              currentUserCanReview={user !== null && pr.state === 'open'}
+              pendingCommentCount={pendingCommentCount}
+              onApprove={() => handleSubmitReview('APPROVE')}
+              onRequestChanges={(body) => handleSubmitReview('REQUEST_CHANGES', body)}
+              onComment={(body) => handleSubmitReview('COMMENT', body)}
+              onDiscardPendingReview={handleDiscardReview}
+              className="mt-6"
+            />
           </div>
         )}
 
@@ -369,31 +672,16 @@ export const PullRequestDetailPage: React.FC = () => {
         )}
 
         {activeTab === 'files' && (
-          <div>
-            {files?.map((file) => (
-              <div key={file.sha} className="border-b border-gray-200">
-                <div className="p-4 flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className={`w-4 h-4 rounded ${
-                      file.status === 'added' ? 'bg-green-500' :
-                      file.status === 'removed' ? 'bg-red-500' :
-                      file.status === 'renamed' ? 'bg-blue-500' : 'bg-yellow-500'
-                    }`} />
-                    <span className="font-mono text-sm">{file.filename}</span>
-                  </div>
-                  <div className="flex items-center gap-3 text-sm">
-                    {file.additions > 0 && <span className="text-green-600">+{file.additions}</span>}
-                    {file.deletions > 0 && <span className="text-red-600">-{file.deletions}</span>}
-                  </div>
-                </div>
-                {file.patch && (
-                  <div className="bg-gray-900 text-gray-100 p-4 overflow-x-auto">
-                    <pre className="text-sm font-mono">{file.patch}</pre>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+          <PullRequestFiles
+            files={fileChanges}
+            threads={threads ?? []}
+            onAddInlineComment={handleAddInlineComment}
+            onReplyToThread={handleReplyToThread}
+            onResolveThread={handleResolveThread}
+            onDeleteInlineComment={handleDeleteInlineComment}
+            onApplySuggestions={user?.username === pr.author.login ? handleApplySuggestions : undefined}
+            hasPendingReview={pendingReview !== undefined}
+          />
         )}
       </div>
     </div>
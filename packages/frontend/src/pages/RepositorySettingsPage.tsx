@@ -10,6 +10,7 @@ import { CollaboratorManager } from "../components/settings/CollaboratorManager"
 import { WebhookConfig } from "../components/settings/WebhookConfig";
 import { DeployKeys } from "../components/settings/DeployKeys";
 import { BranchProtection } from "../components/settings/BranchProtection";
+import { MirrorSettings } from "../components/settings/MirrorSettings";
 
 interface Repository {
   id: string;
@@ -18,11 +19,11 @@ interface Repository {
   isOwner: boolean;
 }
 
-type SettingsTab = "general" | "collaborators" | "webhooks" | "keys" | "branches";
+type SettingsTab = "general" | "collaborators" | "webhooks" | "keys" | "branches" | "mirrors";
 
 /**
  * Repository settings page with tabs for general settings, collaborators,
- * webhooks, deploy keys, and branch protection.
+ * webhooks, deploy keys, branch protection, and mirrors.
  */
 export const RepositorySettingsPage: React.FC = () => {
   const { owner, repo } = useParams<{ owner: string; repo: string }>();
@@ -144,6 +145,12 @@ export const RepositorySettingsPage: React.FC = () => {
           >
             🌿 Branch Protection
           </button>
+          <button
+            style={getNavItemStyle(activeTab === "mirrors")}
+            onClick={() => setActiveTab("mirrors")}
+          >
+            🪞 Mirrors
+          </button>
         </nav>
 
         <div style={contentStyle}>
@@ -162,6 +169,9 @@ export const RepositorySettingsPage: React.FC = () => {
           {activeTab === "branches" && (
             <BranchProtection owner={owner!} repo={repo!} />
           )}
+          {activeTab === "mirrors" && (
+            <MirrorSettings owner={owner!} repo={repo!} />
+          )}
         </div>
       </div>
     </div>
@@ -5,6 +5,7 @@ import { authService } from "../services/auth-service";
 import { showConfirm } from "../components/common/ConfirmDialog";
 import { validatePassword, validatePasswordMatch } from "../utils/validation";
 import { Button, Input } from "../components/ui";
+import { PersonalAccessTokens } from "../components/settings/PersonalAccessTokens";
 import { 
   User, 
   Lock, 
@@ -22,7 +23,8 @@ import {
 import "../styles/globals.css";
 
 /**
- * User settings page with profile, password, theme, notifications, and danger zone.
+ * User settings page with profile, password, access tokens, theme,
+ * notifications, and danger zone.
  */
 export const SettingsPage: React.FC = () => {
   const { user, refreshUser } = useAuth();
@@ -134,6 +136,10 @@ export const SettingsPage: React.FC = () => {
                 <Lock className="w-4 h-4" />
                 Security
               </a>
+              <a href="#tokens" className="flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-md hover:bg-bg-light text-text-primary">
+                <Key className="w-4 h-4" />
+                Access Tokens
+              </a>
               <a href="#appearance" className="flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-md hover:bg-bg-light text-text-primary">
                 <Palette className="w-4 h-4" />
                 Appearance
@@ -253,6 +259,15 @@ export const SettingsPage: React.FC = () => {
             </form>
           </section>
 
+          {/* Personal Access Tokens Section */}
+          <section id="tokens" className="bg-white border border-border-light rounded-lg p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <Key className="w-5 h-5 text-yellow-500" />
+              <h2 className="text-lg font-semibold text-text-primary">Personal Access Tokens</h2>
+            </div>
+            <PersonalAccessTokens />
+          </section>
+
           {/* Appearance Section */}
           <section id="appearance" className="bg-white border border-border-light rounded-lg p-6">
             <div className="flex items-center gap-3 mb-6">
@@ -98,8 +98,12 @@ async function request<T>(
     throw new ApiError(response.status, response.statusText, errorBody);
   }
 
+  if (response.status === 204) {
+    return { success: true, data: undefined as T, timestamp: new Date().toISOString() };
+  }
+
   const data = await response.json();
-  
+
   // Wrap response if it's not already in ApiResponse format
   if (data && typeof data === 'object' && 'success' in data) {
     return data as ApiResponse<T>;
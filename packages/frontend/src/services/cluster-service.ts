@@ -58,6 +58,44 @@ export interface WorkflowExecution {
   error?: string;
 }
 
+/** Status of one job of a workflow run */
+export type WorkflowJobStatus = "queued" | "in_progress" | "success" | "failure" | "skipped" | "cancelled";
+
+/** A job of a workflow run; matrix jobs have one per combination */
+export interface WorkflowJobState {
+  id: string;
+  name: string;
+  /** Job key in the workflow file, shared by matrix combinations */
+  group: string;
+  matrix?: Record<string, string>;
+  needs: string[];
+  status?: WorkflowJobStatus;
+  outputs?: Record<string, string>;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/** A workflow run and the status of each of its jobs */
+export interface WorkflowRun {
+  workflowId: string;
+  name: string;
+  repositoryId: string;
+  pullRequestId?: string;
+  status: "queued" | "in_progress" | "success" | "failure" | "cancelled";
+  jobs: WorkflowJobState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A log line streamed by the cluster */
+export interface WorkflowLogEntry {
+  timestamp: string;
+  log: string;
+  level: "info" | "error";
+  jobId?: string;
+}
+
 /** User resource limits and tier */
 export interface UserLimits {
   tier: "free" | "pro" | "enterprise";
@@ -70,6 +108,9 @@ export interface UserLimits {
 /** Workflow execution request */
 export interface WorkflowRequest {
   name: string;
+  repositoryId: string;
+  workflowId?: string;
+  pullRequestId?: string;
   yaml: string;
   branch?: string;
   commit?: string;
@@ -181,10 +222,29 @@ export async function cancelWorkflowExecution(executionId: string): Promise<ApiR
 }
 
 /**
- * Get real-time logs for a workflow execution
+ * List the current user's workflow runs, newest first
+ */
+export async function listWorkflowRuns(repositoryId?: string): Promise<WorkflowRun[]> {
+  const response = await api.get<never>("/workflows/runs", { params: { repositoryId } });
+  return (response as unknown as { runs: WorkflowRun[] }).runs;
+}
+
+/**
+ * Get a workflow run with per-job status
  */
-export async function getWorkflowLogs(executionId: string): Promise<ApiResponse<string[]>> {
-  return api.get<string[]>(`/workflows/${executionId}/logs`);
+export async function getWorkflowRun(workflowId: string): Promise<WorkflowRun> {
+  const response = await api.get<never>(`/workflows/runs/${encodeURIComponent(workflowId)}`);
+  return (response as unknown as { run: WorkflowRun }).run;
+}
+
+/**
+ * Get logs streamed so far for a workflow run, optionally for one job
+ */
+export async function getWorkflowLogs(workflowId: string, jobId?: string): Promise<WorkflowLogEntry[]> {
+  const response = await api.get<never>(`/workflows/logs/${encodeURIComponent(workflowId)}`, {
+    params: { job: jobId },
+  });
+  return (response as unknown as { logs: WorkflowLogEntry[] }).logs;
 }
 
 /**
@@ -236,6 +296,8 @@ export const clusterService = {
   getWorkflowExecution,
   getWorkflowExecutions,
   cancelWorkflowExecution,
+  listWorkflowRuns,
+  getWorkflowRun,
   getWorkflowLogs,
   downloadArtifact,
   validateWorkflow,
@@ -0,0 +1,147 @@
+/**
+ * Parsing of workflow job logs as the backend stores and streams them:
+ * one `<timestamp> <text>` line per line of output, `##[error]` in front
+ * of error output, and each step's lines between `::group::<step>` and
+ * `::endgroup::` lines. Text keeps the ANSI colours the job printed.
+ */
+
+const ERROR_MARKER = "##[error]";
+const GROUP_MARKER = "::group::";
+const END_GROUP_MARKER = "::endgroup::";
+
+export interface WorkflowLogLine {
+    timestamp: string;
+    text: string;
+    error: boolean;
+}
+
+/** A step's lines, or lines printed outside any step */
+export interface WorkflowLogSection {
+    /** Step name; unset for lines outside a step */
+    title?: string;
+    lines: WorkflowLogLine[];
+    /** Whether the step's group is still open, i.e. the step is running */
+    open: boolean;
+}
+
+/** A run of text sharing one ANSI style */
+export interface AnsiSegment {
+    text: string;
+    color?: string;
+    background?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+const ANSI_COLORS = [
+    "#1e1e1e", "#e06c75", "#98c379", "#e5c07b", "#61afef", "#c678dd", "#56b6c2", "#dcdfe4",
+    "#5c6370", "#ff7b86", "#b5e890", "#ffd68a", "#82c4ff", "#e19ef5", "#7bd6e0", "#ffffff",
+];
+
+/**
+ * Split a job's log into sections, one per step
+ */
+export function parseWorkflowLog(content: string): WorkflowLogSection[] {
+    const sections: WorkflowLogSection[] = [];
+    let group: WorkflowLogSection | null = null;
+
+    for (const raw of content.split("\n")) {
+        if (!raw) continue;
+        const space = raw.indexOf(" ");
+        const timestamp = space === -1 ? raw : raw.slice(0, space);
+        let text = space === -1 ? "" : raw.slice(space + 1);
+
+        if (text.startsWith(GROUP_MARKER)) {
+            group = { title: text.slice(GROUP_MARKER.length), lines: [], open: true };
+            sections.push(group);
+            continue;
+        }
+        if (text === END_GROUP_MARKER) {
+            if (group) group.open = false;
+            group = null;
+            continue;
+        }
+
+        const error = text.startsWith(ERROR_MARKER);
+        if (error) text = text.slice(ERROR_MARKER.length);
+
+        let section = group ?? sections[sections.length - 1];
+        if (!section || (!group && section.title !== undefined)) {
+            section = { lines: [], open: false };
+            sections.push(section);
+        }
+        section.lines.push({ timestamp, text, error });
+    }
+
+    return sections;
+}
+
+function color256(index: number): string | undefined {
+    if (index < 16) return ANSI_COLORS[index];
+    if (index < 232) {
+        const value = index - 16;
+        const channel = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+        return `rgb(${channel(Math.floor(value / 36))}, ${channel(Math.floor(value / 6) % 6)}, ${channel(value % 6)})`;
+    }
+    if (index < 256) {
+        const level = 8 + (index - 232) * 10;
+        return `rgb(${level}, ${level}, ${level})`;
+    }
+    return undefined;
+}
+
+/**
+ * Split text into segments by its ANSI SGR escape sequences. Other
+ * escape sequences are dropped.
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    let style: Omit<AnsiSegment, "text"> = {};
+    const pattern = /\u001b\[([\d;]*)([A-Za-z])/g;
+    let last = 0;
+    let match: RegExpExecArray | null;
+
+    const push = (chunk: string) => {
+        if (chunk) segments.push({ text: chunk, ...style });
+    };
+
+    while ((match = pattern.exec(text)) !== null) {
+        push(text.slice(last, match.index));
+        last = pattern.lastIndex;
+        if (match[2] !== "m") continue;
+
+        const codes = match[1] ? match[1].split(";").map(Number) : [0];
+        for (let i = 0; i < codes.length; i++) {
+            const code = codes[i];
+            if (code === 0) style = {};
+            else if (code === 1) style = { ...style, bold: true };
+            else if (code === 3) style = { ...style, italic: true };
+            else if (code === 4) style = { ...style, underline: true };
+            else if (code === 22) style = { ...style, bold: false };
+            else if (code === 23) style = { ...style, italic: false };
+            else if (code === 24) style = { ...style, underline: false };
+            else if (code >= 30 && code <= 37) style = { ...style, color: ANSI_COLORS[code - 30] };
+            else if (code >= 90 && code <= 97) style = { ...style, color: ANSI_COLORS[code - 90 + 8] };
+            else if (code === 39) style = { ...style, color: undefined };
+            else if (code >= 40 && code <= 47) style = { ...style, background: ANSI_COLORS[code - 40] };
+            else if (code >= 100 && code <= 107) style = { ...style, background: ANSI_COLORS[code - 100 + 8] };
+            else if (code === 49) style = { ...style, background: undefined };
+            else if (code === 38 || code === 48) {
+                // 38;5;n and 38;2;r;g;b, likewise 48 for the background
+                let value: string | undefined;
+                if (codes[i + 1] === 5) {
+                    value = color256(codes[i + 2]);
+                    i += 2;
+                } else if (codes[i + 1] === 2) {
+                    value = `rgb(${codes[i + 2]}, ${codes[i + 3]}, ${codes[i + 4]})`;
+                    i += 4;
+                }
+                style = code === 38 ? { ...style, color: value } : { ...style, background: value };
+            }
+        }
+    }
+    push(text.slice(last));
+
+    return segments;
+}
@@ -25,6 +25,10 @@ export default defineConfig({
                 target: 'http://localhost:3000',
                 changeOrigin: true,
             },
+            '/ws': {
+                target: 'ws://localhost:3000',
+                ws: true,
+            },
         },
     },
     build: {
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findOwnershipRule, parseCodeowners, readCodeowners } from "../pr/codeowners.js";
+
+describe("parseCodeowners", () => {
+  it("reads patterns and owners, skipping comments", () => {
+    const { rules, errors } = parseCodeowners("# Owners\n\n*.js @alice   @acme/web # frontend\n/docs/ @bob\n");
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { pattern: "*.js", owners: ["@alice", "@acme/web"], line: 3 },
+      { pattern: "/docs/", owners: ["@bob"], line: 4 },
+    ]);
+  });
+
+  it("reports lines it cannot use", () => {
+    const { rules, errors } = parseCodeowners("!secret.txt @alice\nsrc/[ab].ts @alice\nlib/ alice\nbin/ @carol\n");
+
+    expect(rules.map((rule) => rule.pattern)).toEqual(["bin/"]);
+    expect(errors).toEqual([
+      { line: 1, message: 'Negated pattern "!secret.txt" is not supported' },
+      { line: 2, message: 'Character ranges in "src/[ab].ts" are not supported' },
+      { line: 3, message: 'Invalid owner "alice"; expected @username or @org/team' },
+    ]);
+  });
+});
+
+describe("findOwnershipRule", () => {
+  const owner = (content: string, filePath: string) =>
+    findOwnershipRule(parseCodeowners(content).rules, filePath)?.owners ?? null;
+
+  it("matches paths the way gitignore patterns do", () => {
+    expect(owner("*.js @a", "src/deep/app.js")).toEqual(["@a"]);
+    expect(owner("apps/ @a", "apps/web/index.ts")).toEqual(["@a"]);
+    expect(owner("apps/ @a", "apps")).toBeNull();
+    expect(owner("/build/logs @a", "build/logs/today.log")).toEqual(["@a"]);
+    expect(owner("/build/logs @a", "src/build/logs/today.log")).toBeNull();
+    expect(owner("docs/* @a", "docs/intro.md")).toEqual(["@a"]);
+    expect(owner("docs/* @a", "docs/guides/intro.md")).toBeNull();
+    expect(owner("**/logs @a", "var/app/logs/today.log")).toEqual(["@a"]);
+    expect(owner("src/**/test?.ts @a", "src/a/b/test1.ts")).toEqual(["@a"]);
+  });
+
+  it("lets the last matching line win, including lines without owners", () => {
+    const content = "* @default\n/src/ @core\n/src/generated/\n";
+
+    expect(owner(content, "README.md")).toEqual(["@default"]);
+    expect(owner(content, "src/app.ts")).toEqual(["@core"]);
+    expect(owner(content, "src/generated/api.ts")).toEqual([]);
+  });
+});
+
+describe("readCodeowners", () => {
+  let repoPath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", repoPath, "-c", "user.name=A", "-c", "user.email=a@example.com", ...args], { encoding: "utf8" }).trim();
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), "codeowners-test-"));
+    git("init", "-q", "-b", "main");
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it("finds the file at the first known location of the commit", async () => {
+    mkdirSync(join(repoPath, ".gittic"));
+    mkdirSync(join(repoPath, "docs"));
+    writeFileSync(join(repoPath, ".gittic", "CODEOWNERS"), "* @alice\n");
+    writeFileSync(join(repoPath, "docs", "CODEOWNERS"), "* @bob\n");
+    git("add", "-A");
+    git("commit", "-qm", "owners");
+
+    expect(await readCodeowners(repoPath, "main")).toEqual({ path: ".gittic/CODEOWNERS", content: "* @alice\n" });
+
+    git("rm", "-q", ".gittic/CODEOWNERS", "docs/CODEOWNERS");
+    git("commit", "-qm", "no owners");
+    expect(await readCodeowners(repoPath, "main")).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { Readable } from "node:stream";
+import { computeLfsOid, resolveObjectPath } from "../lfs/lfs-manager.js";
+import { processBatchRequest, storeObjectStream } from "../lfs/lfs-transfer.js";
+
+describe("storeObjectStream", () => {
+  let storagePath: string;
+  const content = Buffer.from("large binary content\n");
+  const oid = computeLfsOid(content);
+
+  beforeEach(() => {
+    storagePath = mkdtempSync(join(tmpdir(), "lfs-transfer-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it("stores content whose hash matches the oid", async () => {
+    const stored = await storeObjectStream(storagePath, oid, Readable.from([content]), content.length);
+
+    expect(stored).toBe(resolveObjectPath(storagePath, oid));
+    const [download] = await processBatchRequest(
+      storagePath,
+      { operation: "download", transfers: ["basic"], objects: [{ oid, size: content.length }] },
+      "https://example.com/alice/demo.git/info/lfs",
+      { Authorization: "Basic abc" },
+    );
+    expect(download.actions?.download).toMatchObject({
+      href: `https://example.com/alice/demo.git/info/lfs/objects/${oid}`,
+      header: { Authorization: "Basic abc" },
+    });
+  });
+
+  it("rejects mismatched content and leaves nothing behind", async () => {
+    await expect(
+      storeObjectStream(storagePath, oid, Readable.from([Buffer.from("other")])),
+    ).rejects.toThrow(/hash mismatch/);
+
+    const objectPath = resolveObjectPath(storagePath, oid);
+    expect(existsSync(objectPath)).toBe(false);
+    expect(readdirSync(dirname(objectPath))).toEqual([]);
+  });
+
+  it("stops reading once the content outgrows the expected size", async () => {
+    let chunksRead = 0;
+    async function* endless() {
+      for (;;) {
+        chunksRead++;
+        yield content;
+      }
+    }
+
+    await expect(storeObjectStream(storagePath, oid, endless(), content.length)).rejects.toThrow(/Size mismatch/);
+    expect(chunksRead).toBe(2);
+    expect(readdirSync(dirname(resolveObjectPath(storagePath, oid)))).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pushMirror, setupMirror, syncMirror } from "../mirror/mirror-manager.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Alice",
+      GIT_AUTHOR_EMAIL: "alice@example.com",
+      GIT_COMMITTER_NAME: "Alice",
+      GIT_COMMITTER_EMAIL: "alice@example.com",
+    },
+  }).trim();
+}
+
+describe("mirror-manager", () => {
+  let root: string;
+  let upstream: string;
+
+  function commit(file: string): string {
+    writeFileSync(join(upstream, file), `${file}\n`);
+    git(upstream, "add", ".");
+    git(upstream, "commit", "-m", `Add ${file}`);
+    return git(upstream, "rev-parse", "HEAD");
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "mirror-test-"));
+    upstream = join(root, "upstream");
+    git(root, "init", "-b", "main", upstream);
+    commit("a.txt");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("clones a pull mirror and reports the refs each sync changes", async () => {
+    const mirror = join(root, "mirror.git");
+    await setupMirror(`file://${upstream}`, mirror);
+
+    const head = commit("b.txt");
+    git(upstream, "tag", "v1");
+    const result = await syncMirror(mirror);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedRefs).toEqual(["refs/heads/main", "refs/tags/v1"]);
+    expect(git(mirror, "rev-parse", "refs/heads/main")).toBe(head);
+  });
+
+  it("reports sync failures without throwing", async () => {
+    const mirror = join(root, "mirror.git");
+    await setupMirror(upstream, mirror);
+    rmSync(upstream, { recursive: true, force: true });
+
+    const result = await syncMirror(mirror);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it("forwards branches and tags to a push mirror", async () => {
+    const target = join(root, "target.git");
+    git(root, "init", "--bare", target);
+    git(upstream, "tag", "v1");
+
+    const first = await pushMirror(upstream, target);
+    expect(first.success).toBe(true);
+    expect(first.updatedRefs).toEqual(["refs/heads/main", "refs/tags/v1"]);
+
+    git(upstream, "tag", "-d", "v1");
+    const second = await pushMirror(upstream, target);
+    expect(second.updatedRefs).toEqual(["refs/tags/v1"]);
+    expect(git(target, "tag", "--list")).toBe("");
+  });
+});
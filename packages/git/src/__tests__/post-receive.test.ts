@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { summarizePush } from "../hooks/post-receive.js";
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Alice",
+      GIT_AUTHOR_EMAIL: "alice@example.com",
+      GIT_COMMITTER_NAME: "Alice",
+      GIT_COMMITTER_EMAIL: "alice@example.com",
+    },
+  }).trim();
+}
+
+describe("summarizePush", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "post-receive-test-"));
+    git(repo, "init", "-q", "-b", "main");
+    writeFileSync(join(repo, "a.txt"), "a\n");
+    writeFileSync(join(repo, "b.txt"), "b\n");
+    git(repo, "add", ".");
+    git(repo, "commit", "-q", "-m", "Initial commit");
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("counts the files each pushed commit added, modified and removed", async () => {
+    const before = git(repo, "rev-parse", "HEAD");
+    writeFileSync(join(repo, "a.txt"), "changed\n");
+    writeFileSync(join(repo, "c.txt"), "c\n");
+    unlinkSync(join(repo, "b.txt"));
+    git(repo, "add", "-A");
+    git(repo, "commit", "-q", "-m", "Rework files\n\nWith a body.");
+    const after = git(repo, "rev-parse", "HEAD");
+
+    const summary = await summarizePush(repo, { oldSha: before, newSha: after, refName: "refs/heads/main" });
+
+    expect(summary).toMatchObject({ commitCount: 1, forced: false });
+    expect(summary.commits).toEqual([{
+      sha: after,
+      message: "Rework files\n\nWith a body.",
+      author: { name: "Alice", email: "alice@example.com" },
+      timestamp: expect.any(String),
+      added: 1,
+      modified: 1,
+      removed: 1,
+    }]);
+  });
+
+  it("only counts commits new to the repository when a branch is created", async () => {
+    git(repo, "checkout", "-q", "-b", "feature");
+    git(repo, "commit", "-q", "--allow-empty", "-m", "Feature work");
+    const head = git(repo, "rev-parse", "HEAD");
+
+    const summary = await summarizePush(repo, { oldSha: ZERO_SHA, newSha: head, refName: "refs/heads/feature" });
+
+    expect(summary.commitCount).toBe(1);
+    expect(summary.commits.map((commit) => commit.message)).toEqual(["Feature work"]);
+  });
+
+  it("detects force pushes", async () => {
+    const first = git(repo, "rev-parse", "HEAD");
+    git(repo, "commit", "-q", "--allow-empty", "-m", "Second");
+    const second = git(repo, "rev-parse", "HEAD");
+    git(repo, "reset", "-q", "--hard", first);
+    git(repo, "commit", "-q", "--allow-empty", "-m", "Rewritten");
+    const rewritten = git(repo, "rev-parse", "HEAD");
+
+    const summary = await summarizePush(repo, { oldSha: second, newSha: rewritten, refName: "refs/heads/main" });
+
+    expect(summary.forced).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildSquashCommitMessage, mergePullRequest } from "../pr/pr-merge.js";
+
+const committer = { name: "Merger", email: "merger@example.com" };
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Alice",
+      GIT_AUTHOR_EMAIL: "alice@example.com",
+      GIT_COMMITTER_NAME: "Alice",
+      GIT_COMMITTER_EMAIL: "alice@example.com",
+    },
+  }).trim();
+}
+
+describe("buildSquashCommitMessage", () => {
+  it("appends one co-author trailer per distinct email", () => {
+    const message = buildSquashCommitMessage("Add feature (#4)", "* first\n* second", [
+      { name: "Bob", email: "bob@example.com" },
+      { name: "Bobby", email: "BOB@example.com" },
+      { name: "Carol", email: "carol@example.com" },
+    ]);
+
+    expect(message).toBe(
+      "Add feature (#4)\n\n* first\n* second\n\n" +
+        "Co-authored-by: Bob <bob@example.com>\nCo-authored-by: Carol <carol@example.com>",
+    );
+  });
+
+  it("omits empty body and trailer sections", () => {
+    expect(buildSquashCommitMessage("Fix typo", "  ", [])).toBe("Fix typo");
+  });
+});
+
+describe("mergePullRequest", () => {
+  let workDir: string;
+  let barePath: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "pr-merge-test-"));
+    barePath = join(workDir, "repo.git");
+    const clonePath = join(workDir, "clone");
+
+    git(workDir, "init", "--bare", "-b", "main", barePath);
+    git(workDir, "clone", barePath, clonePath);
+    writeFileSync(join(clonePath, "README.md"), "hello\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Initial commit");
+    git(clonePath, "push", "origin", "HEAD:main");
+
+    git(clonePath, "checkout", "-b", "feature");
+    writeFileSync(join(clonePath, "a.txt"), "a\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Add a");
+    writeFileSync(join(clonePath, "b.txt"), "b\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "-c", "user.name=Bob", "-c", "user.email=bob@example.com",
+      "commit", "--author", "Bob <bob@example.com>", "-m", "Add b");
+    git(clonePath, "push", "origin", "feature");
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("squashes the branch into one commit with co-author trailers", async () => {
+    const result = await mergePullRequest(barePath, {
+      method: "squash",
+      base: "main",
+      head: "feature",
+      commitTitle: "Add files (#1)",
+      committer,
+      author: { name: "Alice", email: "alice@example.com" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.commits).toHaveLength(1);
+    expect(git(barePath, "rev-parse", "main")).toBe(result.sha);
+    expect(git(barePath, "log", "-1", "--format=%B", "main")).toContain(
+      "Co-authored-by: Bob <bob@example.com>",
+    );
+    expect(git(barePath, "rev-list", "--count", "main")).toBe("2");
+  });
+
+  it("replays each commit with new SHAs for rebase merges", async () => {
+    const original = git(barePath, "rev-list", "--reverse", "main..feature").split("\n");
+
+    const result = await mergePullRequest(barePath, {
+      method: "rebase",
+      base: "main",
+      head: "feature",
+      commitTitle: "unused",
+      committer,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.commits).toHaveLength(2);
+    expect(result.commits).not.toEqual(original);
+    expect(git(barePath, "log", "-1", "--format=%an|%cn", "main")).toBe("Bob|Merger");
+  });
+
+  it("records a merge commit for the merge method", async () => {
+    const result = await mergePullRequest(barePath, {
+      method: "merge",
+      base: "main",
+      head: "feature",
+      commitTitle: "Merge pull request #1 from feature",
+      committer,
+    });
+
+    expect(result.success).toBe(true);
+    expect(git(barePath, "log", "-1", "--format=%P", "main").split(" ")).toHaveLength(2);
+    expect(git(barePath, "worktree", "list", "--porcelain")).not.toContain("gittic-merge-");
+  });
+
+  it("lands on a given commit and points another ref at the result", async () => {
+    const main = git(barePath, "rev-parse", "main");
+    const first = await mergePullRequest(barePath, {
+      method: "squash",
+      base: "main",
+      head: "feature",
+      commitTitle: "Feature (#1)",
+      committer,
+      targetRef: "refs/heads/gittic-mq/main/pr-1",
+    });
+    const second = await mergePullRequest(barePath, {
+      method: "merge",
+      base: "main",
+      head: "feature",
+      commitTitle: "Merge pull request #2 from feature",
+      committer,
+      onto: first.sha,
+      targetRef: "refs/heads/gittic-mq/main/pr-2",
+    });
+
+    expect(git(barePath, "rev-parse", "main")).toBe(main);
+    expect(git(barePath, "rev-parse", "gittic-mq/main/pr-1")).toBe(first.sha);
+    expect(git(barePath, "rev-parse", "gittic-mq/main/pr-2^1")).toBe(first.sha);
+    expect(second.sha).toBe(git(barePath, "rev-parse", "gittic-mq/main/pr-2"));
+  });
+});
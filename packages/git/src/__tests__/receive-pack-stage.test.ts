@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFile, execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { handleGitHttpRequest } from "../http-backend.js";
+import { validatePush } from "../hooks/pre-receive.js";
+import { encodePktLine, parseReceivePackRequest } from "../hooks/receive-pack-stage.js";
+
+const execFileAsync = promisify(execFile);
+
+const gitEnv = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Alice",
+  GIT_AUTHOR_EMAIL: "alice@example.com",
+  GIT_COMMITTER_NAME: "Alice",
+  GIT_COMMITTER_EMAIL: "alice@example.com",
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: gitEnv,
+  }).trim();
+}
+
+/** Run `git push` without blocking the in-process HTTP server. */
+async function push(cwd: string, ...args: string[]): Promise<{ ok: boolean; output: string }> {
+  try {
+    const { stderr } = await execFileAsync("git", ["push", ...args], { cwd, env: gitEnv });
+    return { ok: true, output: stderr };
+  } catch (err) {
+    return { ok: false, output: String((err as { stderr?: string }).stderr ?? err) };
+  }
+}
+
+describe("parseReceivePackRequest", () => {
+  it("splits commands, capabilities and pack data", () => {
+    const oldSha = "a".repeat(40);
+    const newSha = "b".repeat(40);
+    const body = Buffer.concat([
+      encodePktLine(`${oldSha} ${newSha} refs/heads/main\0report-status side-band-64k\n`),
+      encodePktLine(`${"0".repeat(40)} ${newSha} refs/heads/topic\n`),
+      Buffer.from("0000PACKdata"),
+    ]);
+
+    const request = parseReceivePackRequest(body);
+
+    expect(request.updates).toEqual([
+      { oldSha, newSha, refName: "refs/heads/main" },
+      { oldSha: "0".repeat(40), newSha, refName: "refs/heads/topic" },
+    ]);
+    expect(request.capabilities).toEqual(["report-status", "side-band-64k"]);
+    expect(request.pack.toString()).toBe("PACKdata");
+  });
+});
+
+describe("handleGitHttpRequest pre-receive stage", () => {
+  let workDir: string;
+  let barePath: string;
+  let clonePath: string;
+  let server: Server;
+  let remoteUrl: string;
+  let maxReceivePackBytes: number | undefined;
+
+  beforeEach(async () => {
+    workDir = mkdtempSync(join(tmpdir(), "receive-pack-test-"));
+    maxReceivePackBytes = undefined;
+    barePath = join(workDir, "repo.git");
+    clonePath = join(workDir, "clone");
+
+    git(workDir, "init", "--bare", "-b", "main", barePath);
+    git(workDir, "clone", barePath, clonePath);
+    writeFileSync(join(clonePath, "README.md"), "hello\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Initial commit");
+    git(clonePath, "push", "origin", "HEAD:main");
+
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const service = url.pathname.endsWith("/git-receive-pack") ? "git-receive-pack"
+        : url.pathname.endsWith("/git-upload-pack") ? "git-upload-pack"
+        : url.searchParams.get("service") as "git-upload-pack" | "git-receive-pack";
+
+      handleGitHttpRequest(workDir, req, res, "repo.git", service, {
+        preReceive: (repoPath, updates, env) => validatePush(repoPath, updates, {
+          protectedBranches: ["refs/heads/main"],
+          blockDirectPushes: true,
+          maxFileSizeBytes: 1024,
+        }, env),
+        maxReceivePackBytes,
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    remoteUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/repo.git`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("rejects direct pushes to a protected branch with the reason", async () => {
+    const before = git(barePath, "rev-parse", "main");
+    writeFileSync(join(clonePath, "README.md"), "changed\n");
+    git(clonePath, "commit", "-am", "Direct change");
+
+    const result = await push(clonePath, remoteUrl, "HEAD:main");
+
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain("can only be updated through a pull request");
+    expect(git(barePath, "rev-parse", "main")).toBe(before);
+  });
+
+  it("rejects oversized blobs before they land", async () => {
+    git(clonePath, "checkout", "-b", "big");
+    writeFileSync(join(clonePath, "big.bin"), "x".repeat(4096));
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Add big file");
+
+    const result = await push(clonePath, remoteUrl, "big");
+
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain("big.bin exceeds size limit");
+    expect(git(barePath, "branch", "--list", "big")).toBe("");
+  });
+
+  it("forwards allowed pushes to git-receive-pack", async () => {
+    git(clonePath, "checkout", "-b", "feature");
+    writeFileSync(join(clonePath, "small.txt"), "small\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Add small file");
+
+    const result = await push(clonePath, remoteUrl, "feature");
+
+    expect(result.ok).toBe(true);
+    expect(git(barePath, "rev-parse", "feature")).toBe(git(clonePath, "rev-parse", "HEAD"));
+  });
+
+  it("rejects forbidden files added by any pushed commit, not just the tip", async () => {
+    git(clonePath, "checkout", "-b", "leaky");
+    writeFileSync(join(clonePath, ".env"), "TOKEN=secret\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Add env");
+    git(clonePath, "rm", "-q", ".env");
+    git(clonePath, "commit", "-m", "Remove env");
+
+    const result = await push(clonePath, remoteUrl, "leaky");
+
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain("Forbidden file detected: .env");
+    expect(git(barePath, "branch", "--list", "leaky")).toBe("");
+  });
+
+  it("rejects updates whose objects cannot be checked", async () => {
+    const [result] = await validatePush(barePath, [
+      { oldSha: "0".repeat(40), newSha: "f".repeat(40), refName: "refs/heads/ghost" },
+    ]);
+
+    expect(result.allowed).toBe(false);
+    expect(result.rejectionReason).toContain("Could not check file sizes");
+  });
+
+  it("refuses pushes larger than the configured limit with 413", async () => {
+    maxReceivePackBytes = 256;
+    git(clonePath, "checkout", "-b", "large");
+    writeFileSync(join(clonePath, "notes.txt"), Array.from({ length: 200 }, (_, i) => `line ${i * 7919}`).join("\n"));
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Add notes");
+
+    const result = await push(clonePath, remoteUrl, "large");
+
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain("413");
+    expect(git(barePath, "branch", "--list", "large")).toBe("");
+  });
+});
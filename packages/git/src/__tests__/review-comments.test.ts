@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { parseDiff } from "../diff/diff-parser.js";
+import { mapLineToPosition, reanchorRange } from "../pr/review-comments.js";
+
+// Between the two commits: a line inserted at the top, line 6 replaced
+// and two lines appended after line 10
+const changes = parseDiff(`diff --git a/src/app.ts b/src/app.ts
+index 1234567..abcdefg 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,3 @@
++import "./polyfills";
+ line1
+ line2
+@@ -5,3 +6,3 @@
+ line5
+-line6
++line6 changed
+ line7
+@@ -10,0 +12,2 @@
++line11
++line12
+`);
+
+describe("reanchorRange", () => {
+  it("shifts lines past the changes made before them", () => {
+    expect(reanchorRange(changes, "src/app.ts", 4)).toEqual({ path: "src/app.ts", startLine: undefined, line: 5 });
+    expect(reanchorRange(changes, "src/app.ts", 9, 8)).toEqual({ path: "src/app.ts", startLine: 9, line: 10 });
+    expect(reanchorRange(changes, "src/app.ts", 10)).toEqual({ path: "src/app.ts", startLine: undefined, line: 11 });
+  });
+
+  it("leaves ranges the changes touch outdated", () => {
+    expect(reanchorRange(changes, "src/app.ts", 6)).toBeUndefined();
+    expect(reanchorRange(changes, "src/app.ts", 7, 5)).toBeUndefined();
+  });
+
+  it("keeps comments on files the changes leave alone", () => {
+    expect(reanchorRange(changes, "README.md", 3)).toEqual({ path: "README.md", startLine: undefined, line: 3 });
+  });
+
+  it("follows renamed files and drops deleted ones", () => {
+    const renamed = parseDiff(`diff --git a/old.ts b/new.ts
+similarity index 100%
+rename from old.ts
+rename to new.ts
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+index 1234567..0000000
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-line1
+`);
+    expect(reanchorRange(renamed, "old.ts", 2)?.path).toBe("new.ts");
+    expect(reanchorRange(renamed, "gone.ts", 1)).toBeUndefined();
+  });
+});
+
+describe("mapLineToPosition", () => {
+  it("counts hunk headers in the position", () => {
+    expect(mapLineToPosition(changes, "src/app.ts", 1)?.position).toBe(2);
+    expect(mapLineToPosition(changes, "src/app.ts", 6, "LEFT")?.position).toBe(7);
+    expect(mapLineToPosition(changes, "src/app.ts", 4)).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { scanDiff, scanContent } from "../security/secret-scanner.js";
+import { scanRepositoryHistory } from "../security/commit-scanner.js";
+
+const githubToken = `ghp_${"a1B2".repeat(9)}`;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Alice",
+      GIT_AUTHOR_EMAIL: "alice@example.com",
+      GIT_COMMITTER_NAME: "Alice",
+      GIT_COMMITTER_EMAIL: "alice@example.com",
+    },
+  }).trim();
+}
+
+describe("scanDiff", () => {
+  it("reports new-file line numbers and confidence", () => {
+    const diff = [
+      "diff --git a/config.js b/config.js",
+      "--- a/config.js",
+      "+++ b/config.js",
+      "@@ -10,2 +10,3 @@",
+      " const a = 1;",
+      `+const token = "${githubToken}";`,
+      " const b = 2;",
+    ].join("\n");
+
+    const result = scanDiff(diff);
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({
+      type: "GitHub Token",
+      file: "config.js",
+      line: 11,
+      confidence: "high",
+    });
+    expect(result.matches[0].value).not.toContain(githubToken);
+  });
+
+  it("applies extra patterns", () => {
+    const result = scanContent("key = ACME-1234567890", "a.txt", [{
+      name: "Acme Key",
+      regex: /ACME-[0-9]{10}/g,
+      description: "Acme internal key",
+      confidence: "high",
+    }]);
+
+    expect(result.matches.map((match) => match.type)).toEqual(["Acme Key"]);
+  });
+});
+
+describe("scanRepositoryHistory", () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), "secret-scan-test-"));
+    git(repoPath, "init", "-b", "main");
+    writeFileSync(join(repoPath, "token.txt"), `${githubToken}\n`);
+    git(repoPath, "add", ".");
+    git(repoPath, "commit", "-m", "Add token");
+    writeFileSync(join(repoPath, "token.txt"), "removed\n");
+    git(repoPath, "commit", "-am", "Remove token");
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it("finds secrets removed in later commits", async () => {
+    const matches = await scanRepositoryHistory(repoPath);
+    const firstCommit = git(repoPath, "rev-list", "--max-parents=0", "HEAD");
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ commit: firstCommit, file: "token.txt", line: 1 });
+  });
+});
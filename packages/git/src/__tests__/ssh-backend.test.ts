@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFile, execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { serveGitSsh } from "../ssh-backend.js";
+import type { RefUpdate } from "../hooks/pre-receive.js";
+
+const execFileAsync = promisify(execFile);
+
+const gitEnv = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Alice",
+  GIT_AUTHOR_EMAIL: "alice@example.com",
+  GIT_COMMITTER_NAME: "Alice",
+  GIT_COMMITTER_EMAIL: "alice@example.com",
+};
+
+/**
+ * Stand-in for an SSH exec channel: git's `ext::` transport runs this
+ * script, which relays the service name and the protocol stream to the
+ * test server over TCP.
+ */
+const RELAY_SCRIPT = `
+import { connect } from "node:net";
+const [port, service] = process.argv.slice(2);
+const socket = connect(Number(port), "127.0.0.1", () => {
+  socket.write(service + "\\n");
+  process.stdin.pipe(socket);
+  socket.pipe(process.stdout);
+});
+socket.on("close", () => process.exit(0));
+`;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: gitEnv,
+  }).trim();
+}
+
+/** Run git without blocking the in-process server. */
+async function gitAsync(cwd: string, ...args: string[]): Promise<{ ok: boolean; output: string }> {
+  try {
+    const { stderr } = await execFileAsync("git", ["-c", "protocol.ext.allow=always", ...args], { cwd, env: gitEnv });
+    return { ok: true, output: stderr };
+  } catch (err) {
+    return { ok: false, output: String((err as { stderr?: string }).stderr ?? err) };
+  }
+}
+
+/** Read the service line the relay sends before the protocol stream. */
+function readService(socket: Socket): Promise<"git-upload-pack" | "git-receive-pack"> {
+  return new Promise((resolve) => {
+    socket.once("data", (chunk: Buffer) => {
+      const newline = chunk.indexOf("\n");
+      if (newline + 1 < chunk.length) socket.unshift(chunk.subarray(newline + 1));
+      socket.pause();
+      resolve(chunk.toString("utf8", 0, newline) as "git-upload-pack" | "git-receive-pack");
+    });
+  });
+}
+
+describe("serveGitSsh", () => {
+  let workDir: string;
+  let barePath: string;
+  let clonePath: string;
+  let server: Server;
+  let remoteUrl: string;
+  let landed: RefUpdate[];
+  let rejectRefs: string[];
+
+  beforeEach(async () => {
+    workDir = mkdtempSync(join(tmpdir(), "ssh-backend-test-"));
+    barePath = join(workDir, "repo.git");
+    clonePath = join(workDir, "clone");
+    landed = [];
+    rejectRefs = [];
+
+    git(workDir, "init", "--bare", "-b", "main", barePath);
+    git(workDir, "clone", barePath, join(workDir, "seed"));
+    writeFileSync(join(workDir, "seed", "README.md"), "hello\n");
+    git(join(workDir, "seed"), "add", ".");
+    git(join(workDir, "seed"), "commit", "-m", "Initial commit");
+    git(join(workDir, "seed"), "push", "origin", "HEAD:main", "HEAD:refs/heads/stale");
+    writeFileSync(join(workDir, "relay.mjs"), RELAY_SCRIPT);
+
+    server = createServer({ allowHalfOpen: true }, async (socket) => {
+      const service = await readService(socket);
+      await serveGitSsh(barePath, service, { input: socket, output: socket }, {
+        preReceive: async (_repoPath, updates) => updates.map((update) => ({
+          ref: update.refName,
+          oldSha: update.oldSha,
+          newSha: update.newSha,
+          allowed: !rejectRefs.includes(update.refName),
+          rejectionReason: "blocked by test policy",
+        })),
+        postReceive: async (_repoPath, updates) => {
+          landed.push(...updates);
+        },
+      });
+      socket.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const port = (server.address() as AddressInfo).port;
+    remoteUrl = `ext::node ${join(workDir, "relay.mjs")} ${port} %S`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("clones and runs pushes through the receive hooks", async () => {
+    const cloned = await gitAsync(workDir, "clone", remoteUrl, clonePath);
+    expect(cloned.ok).toBe(true);
+    expect(git(clonePath, "log", "-1", "--format=%s")).toBe("Initial commit");
+
+    writeFileSync(join(clonePath, "README.md"), "changed\n");
+    git(clonePath, "commit", "-am", "Change readme");
+    const pushed = await gitAsync(clonePath, "push", remoteUrl, "HEAD:main");
+
+    expect(pushed.ok).toBe(true);
+    expect(git(barePath, "rev-parse", "main")).toBe(git(clonePath, "rev-parse", "HEAD"));
+    await expect.poll(() => landed.map((update) => update.refName)).toEqual(["refs/heads/main"]);
+  });
+
+  it("reports refs declined by the pre-receive hook", async () => {
+    await gitAsync(workDir, "clone", remoteUrl, clonePath);
+    const before = git(barePath, "rev-parse", "main");
+    rejectRefs = ["refs/heads/main"];
+
+    writeFileSync(join(clonePath, "README.md"), "changed\n");
+    git(clonePath, "commit", "-am", "Change readme");
+    const pushed = await gitAsync(clonePath, "push", remoteUrl, "HEAD:main");
+
+    expect(pushed.ok).toBe(false);
+    expect(pushed.output).toContain("blocked by test policy");
+    expect(git(barePath, "rev-parse", "main")).toBe(before);
+  });
+
+  it("completes delete-only pushes without waiting for a pack", async () => {
+    await gitAsync(workDir, "clone", remoteUrl, clonePath);
+
+    const pushed = await gitAsync(clonePath, "push", remoteUrl, ":stale");
+
+    expect(pushed.ok).toBe(true);
+    expect(git(barePath, "branch", "--list", "stale")).toBe("");
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildSuggestionPatch, commitSuggestions, parseSuggestions } from "../pr/suggestions.js";
+
+const alice = { name: "Alice", email: "alice@example.com" };
+const bob = { name: "Bob", email: "bob@example.com" };
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Alice",
+      GIT_AUTHOR_EMAIL: "alice@example.com",
+      GIT_COMMITTER_NAME: "Alice",
+      GIT_COMMITTER_EMAIL: "alice@example.com",
+    },
+  }).trim();
+}
+
+describe("parseSuggestions", () => {
+  it("extracts each suggestion block, allowing empty ones", () => {
+    const body = "Try this:\n```suggestion\nconst a = 1;\nconst b = 2;\n```\nor drop it\n```suggestion\n```\n```ts\nnot(this)\n```";
+    expect(parseSuggestions(body)).toEqual(["const a = 1;\nconst b = 2;", ""]);
+  });
+});
+
+describe("buildSuggestionPatch", () => {
+  it("keeps a missing final newline when replacing the last line", () => {
+    const patch = buildSuggestionPatch("a.txt", "one\ntwo\nthree", [{ startLine: 3, line: 3, replacement: "THREE" }]);
+    expect(patch.split("\n").slice(3)).toEqual([
+      "@@ -1,3 +1,3 @@",
+      " one",
+      " two",
+      "-three",
+      "\\ No newline at end of file",
+      "+THREE",
+      "\\ No newline at end of file",
+      "",
+    ]);
+  });
+
+  it("rejects overlapping changes", () => {
+    expect(() => buildSuggestionPatch("a.txt", "1\n2\n3\n", [
+      { startLine: 1, line: 2, replacement: "x" },
+      { startLine: 2, line: 3, replacement: "y" },
+    ])).toThrow("overlapping");
+  });
+});
+
+describe("commitSuggestions", () => {
+  let workDir: string;
+  let barePath: string;
+  let headSha: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "suggestions-test-"));
+    barePath = join(workDir, "repo.git");
+    const clonePath = join(workDir, "clone");
+
+    git(workDir, "init", "--bare", "-b", "main", barePath);
+    git(workDir, "clone", barePath, clonePath);
+    writeFileSync(join(clonePath, "app.ts"), Array.from({ length: 10 }, (_, i) => `line${i + 1}`).join("\n") + "\n");
+    git(clonePath, "add", ".");
+    git(clonePath, "commit", "-m", "Initial commit");
+    git(clonePath, "push", "origin", "HEAD:feature");
+    headSha = git(clonePath, "rev-parse", "HEAD");
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("commits several suggestions to the branch in one commit", async () => {
+    const result = await commitSuggestions(barePath, {
+      branch: "feature",
+      expectedSha: headSha,
+      changes: [
+        { path: "app.ts", startLine: 2, line: 3, replacement: "two and three" },
+        { path: "app.ts", startLine: 8, line: 8, replacement: "" },
+      ],
+      message: "Apply suggestions from code review",
+      author: bob,
+      committer: alice,
+    });
+
+    expect(result).toMatchObject({ success: true, filesChanged: ["app.ts"] });
+    expect(git(barePath, "rev-parse", "feature")).toBe(result.sha);
+    expect(git(barePath, "log", "-1", "--format=%an %s", "feature")).toBe("Bob Apply suggestions from code review");
+    expect(git(barePath, "show", "feature:app.ts").split("\n")).toEqual([
+      "line1", "two and three", "line4", "line5", "line6", "line7", "line9", "line10",
+    ]);
+    expect(git(barePath, "worktree", "list")).not.toContain("gittic-suggestion-");
+  });
+
+  it("refuses to commit when the branch moved", async () => {
+    const result = await commitSuggestions(barePath, {
+      branch: "feature",
+      expectedSha: "0".repeat(40),
+      changes: [{ path: "app.ts", startLine: 1, line: 1, replacement: "x" }],
+      message: "Apply suggestion",
+      author: bob,
+      committer: alice,
+    });
+
+    expect(result).toMatchObject({ success: false, sha: undefined });
+    expect(git(barePath, "rev-parse", "feature")).toBe(headSha);
+  });
+});
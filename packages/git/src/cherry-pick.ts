@@ -14,14 +14,20 @@ export interface CherryPickResult {
 /**
  * Cherry-pick a single commit onto the current branch.
  * Returns the result indicating success or conflicts.
+ * The original author is kept; the committer can be overridden.
  */
 export async function cherryPick(
   repoPath: string,
   sha: string,
-  noCommit = false
+  noCommit = false,
+  committer?: { name: string; email: string }
 ): Promise<CherryPickResult> {
   try {
-    const args = ["-C", repoPath, "cherry-pick"];
+    const args = ["-C", repoPath];
+    if (committer) {
+      args.push("-c", `user.name=${committer.name}`, "-c", `user.email=${committer.email}`);
+    }
+    args.push("cherry-pick");
     if (noCommit) {
       args.push("--no-commit");
     }
@@ -57,12 +63,13 @@ export async function cherryPick(
  */
 export async function cherryPickMultiple(
   repoPath: string,
-  shas: string[]
+  shas: string[],
+  committer?: { name: string; email: string }
 ): Promise<CherryPickResult[]> {
   const results: CherryPickResult[] = [];
 
   for (const sha of shas) {
-    const result = await cherryPick(repoPath, sha);
+    const result = await cherryPick(repoPath, sha, false, committer);
     results.push(result);
     if (!result.success) {
       break;
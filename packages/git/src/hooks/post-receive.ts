@@ -98,6 +98,87 @@ export async function buildPushPayload(
   };
 }
 
+/** A pushed commit with counts of the files it touched. */
+export interface PushedCommit {
+  sha: string;
+  message: string;
+  author: { name: string; email: string };
+  timestamp: string;
+  added: number;
+  modified: number;
+  removed: number;
+}
+
+/** What a single ref update brought into the repository. */
+export interface PushSummary {
+  /** Number of commits the ref gained that were not already in the repository. */
+  commitCount: number;
+  /** The most recent of those commits (up to the limit), oldest first. */
+  commits: PushedCommit[];
+  /** Whether the update discarded commits the ref previously pointed at. */
+  forced: boolean;
+}
+
+/**
+ * Summarize a ref update after it landed. For a new ref, only commits no
+ * other ref already contained are counted.
+ */
+export async function summarizePush(
+  repoPath: string,
+  update: PostReceiveUpdate,
+  limit = 20
+): Promise<PushSummary> {
+  const zeroPad = "0000000000000000000000000000000000000000";
+
+  if (update.newSha === zeroPad) {
+    return { commitCount: 0, commits: [], forced: false };
+  }
+
+  const range = update.oldSha === zeroPad
+    ? [update.newSha, "--not", `--exclude=${update.refName}`, "--glob=refs/*"]
+    : [`${update.oldSha}..${update.newSha}`];
+
+  const [{ stdout: count }, { stdout: log }] = await Promise.all([
+    execFileAsync("git", ["-C", repoPath, "rev-list", "--count", ...range]),
+    execFileAsync("git", [
+      "-C", repoPath, "log", "--name-status", "-n", String(limit),
+      "--format=%x1e%H%x00%an%x00%ae%x00%aI%x00%B%x00", ...range,
+    ]),
+  ]);
+
+  const commits = log
+    .split("\x1e")
+    .filter(Boolean)
+    .map((record): PushedCommit => {
+      const [sha, name, email, timestamp, message, changes = ""] = record.split("\0");
+      const commit = {
+        sha,
+        message: message.trim(),
+        author: { name, email },
+        timestamp,
+        added: 0,
+        modified: 0,
+        removed: 0,
+      };
+      for (const line of changes.trim().split("\n").filter(Boolean)) {
+        if (line.startsWith("A")) commit.added++;
+        else if (line.startsWith("D")) commit.removed++;
+        else commit.modified++;
+      }
+      return commit;
+    })
+    .reverse();
+
+  let forced = false;
+  if (update.oldSha !== zeroPad) {
+    forced = await execFileAsync("git", [
+      "-C", repoPath, "merge-base", "--is-ancestor", update.oldSha, update.newSha,
+    ]).then(() => false, () => true);
+  }
+
+  return { commitCount: parseInt(count.trim(), 10) || 0, commits, forced };
+}
+
 /**
  * Trigger notification callbacks for a push event.
  * Serializes the push payload and returns it for the caller to deliver.
@@ -10,6 +10,16 @@ export interface BranchProtectionConfig {
   forbiddenFiles: string[];
   forbiddenExtensions: string[];
   requireSignedCommits: boolean;
+  /** Reject updates to existing protected branches (changes must go through a pull request). */
+  blockDirectPushes: boolean;
+  /** Reject merge commits on protected branches. */
+  requireLinearHistory: boolean;
+  /** Accept non-fast-forward updates to protected branches. */
+  allowForcePushes: boolean;
+  /** Accept deletion of protected branches. */
+  allowDeletions: boolean;
+  /** Reject every update to protected branches (the pusher may not push to them). */
+  restrictPushes: boolean;
 }
 
 /** Result of a pre-receive validation check. */
@@ -35,6 +45,11 @@ const DEFAULT_CONFIG: BranchProtectionConfig = {
   forbiddenFiles: [".env", ".env.local", "id_rsa", "id_ed25519"],
   forbiddenExtensions: [".pem", ".key", ".pfx", ".p12"],
   requireSignedCommits: false,
+  blockDirectPushes: false,
+  requireLinearHistory: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  restrictPushes: false,
 };
 
 /**
@@ -58,18 +73,20 @@ export function parsePreReceiveInput(input: string): RefUpdate[] {
 
 /**
  * Validate a push against branch protection rules.
- * Checks protected branches, file sizes, and forbidden files.
+ * Checks protected branches, file sizes, and forbidden files. Pass `env`
+ * to read pushed objects from a quarantine directory.
  */
 export async function validatePush(
   repoPath: string,
   updates: RefUpdate[],
-  config: Partial<BranchProtectionConfig> = {}
+  config: Partial<BranchProtectionConfig> = {},
+  env?: NodeJS.ProcessEnv
 ): Promise<PreReceiveResult[]> {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
   const results: PreReceiveResult[] = [];
 
   for (const update of updates) {
-    const result = await validateRefUpdate(repoPath, update, fullConfig);
+    const result = await validateRefUpdate(repoPath, update, fullConfig, env);
     results.push(result);
   }
 
@@ -83,12 +100,24 @@ export async function validatePush(
 async function validateRefUpdate(
   repoPath: string,
   update: RefUpdate,
-  config: BranchProtectionConfig
+  config: BranchProtectionConfig,
+  env: NodeJS.ProcessEnv | undefined
 ): Promise<PreReceiveResult> {
   const { oldSha, newSha, refName } = update;
   const zeroPad = "0000000000000000000000000000000000000000";
+  const isProtected = config.protectedBranches.includes(refName);
 
-  if (newSha === zeroPad && config.protectedBranches.includes(refName)) {
+  if (isProtected && config.restrictPushes) {
+    return {
+      allowed: false,
+      rejectionReason: `You are not allowed to push to protected branch: ${refName}`,
+      ref: refName,
+      oldSha,
+      newSha,
+    };
+  }
+
+  if (newSha === zeroPad && isProtected && !config.allowDeletions) {
     return {
       allowed: false,
       rejectionReason: `Cannot delete protected branch: ${refName}`,
@@ -98,8 +127,8 @@ async function validateRefUpdate(
     };
   }
 
-  if (oldSha !== zeroPad && config.protectedBranches.includes(refName)) {
-    const isForce = await checkForcePush(repoPath, oldSha, newSha);
+  if (oldSha !== zeroPad && newSha !== zeroPad && isProtected) {
+    const isForce = !config.allowForcePushes && await checkForcePush(repoPath, oldSha, newSha, env);
     if (isForce) {
       return {
         allowed: false,
@@ -109,11 +138,34 @@ async function validateRefUpdate(
         newSha,
       };
     }
+
+    if (config.blockDirectPushes) {
+      return {
+        allowed: false,
+        rejectionReason: `Protected branch ${refName} can only be updated through a pull request`,
+        ref: refName,
+        oldSha,
+        newSha,
+      };
+    }
+  }
+
+  if (newSha !== zeroPad && isProtected) {
+    const commitViolation = await checkCommitRules(repoPath, newSha, config, env);
+    if (commitViolation) {
+      return {
+        allowed: false,
+        rejectionReason: commitViolation,
+        ref: refName,
+        oldSha,
+        newSha,
+      };
+    }
   }
 
   if (newSha !== zeroPad) {
     const sizeViolation = await checkFileSizeLimits(
-      repoPath, oldSha === zeroPad ? undefined : oldSha, newSha, config.maxFileSizeBytes
+      repoPath, newSha, config.maxFileSizeBytes, env
     );
     if (sizeViolation) {
       return {
@@ -125,9 +177,7 @@ async function validateRefUpdate(
       };
     }
 
-    const forbiddenViolation = await checkForbiddenFiles(
-      repoPath, oldSha === zeroPad ? undefined : oldSha, newSha, config
-    );
+    const forbiddenViolation = await checkForbiddenFiles(repoPath, newSha, config, env);
     if (forbiddenViolation) {
       return {
         allowed: false,
@@ -155,12 +205,13 @@ async function validateRefUpdate(
 async function checkForcePush(
   repoPath: string,
   oldSha: string,
-  newSha: string
+  newSha: string,
+  env: NodeJS.ProcessEnv | undefined
 ): Promise<boolean> {
   try {
     await execFileAsync("git", [
       "-C", repoPath, "merge-base", "--is-ancestor", oldSha, newSha,
-    ]);
+    ], { env });
     return false;
   } catch {
     return true;
@@ -168,61 +219,104 @@ async function checkForcePush(
 }
 
 /**
- * Check if any new files exceed the maximum file size limit.
- * Returns a rejection message if a violation is found.
+ * Check the new commits on a protected branch for commits without a good
+ * signature and, when linear history is required, merge commits. Only
+ * signatures git reports as good ("G") count; bad, expired, revoked and
+ * uncheckable signatures are rejected like missing ones.
  */
-async function checkFileSizeLimits(
+async function checkCommitRules(
   repoPath: string,
-  oldSha: string | undefined,
   newSha: string,
-  maxBytes: number
+  config: BranchProtectionConfig,
+  env: NodeJS.ProcessEnv | undefined
 ): Promise<string | undefined> {
-  const diffRange = oldSha ? `${oldSha}..${newSha}` : newSha;
+  if (!config.requireSignedCommits && !config.requireLinearHistory) {
+    return undefined;
+  }
 
-  try {
-    const { stdout } = await execFileAsync("git", [
-      "-C", repoPath, "diff-tree", "-r", "--diff-filter=ACM",
-      "--no-commit-id", diffRange,
-    ]);
-
-    for (const line of stdout.trim().split("\n").filter(Boolean)) {
-      const parts = line.split(/\s+/);
-      const sha = parts[3];
-
-      const { stdout: sizeOut } = await execFileAsync("git", [
-        "-C", repoPath, "cat-file", "-s", sha,
-      ]);
-
-      const size = parseInt(sizeOut.trim(), 10);
-      if (size > maxBytes) {
-        const filePath = parts[5];
-        return `File ${filePath} exceeds size limit (${size} > ${maxBytes} bytes)`;
-      }
+  const { stdout } = await execFileAsync("git", [
+    "-C", repoPath, "log", "--format=%H %P%x00%G?", newSha, "--not", "--all",
+  ], { env });
+
+  for (const line of stdout.trim().split("\n").filter(Boolean)) {
+    const [shas, signature] = line.split("\0");
+    const [sha, ...parents] = shas.trim().split(" ").filter(Boolean);
+
+    if (config.requireLinearHistory && parents.length > 1) {
+      return `Merge commit ${sha.slice(0, 7)} not allowed: branch requires linear history`;
+    }
+    if (config.requireSignedCommits && signature !== "G") {
+      return signature === "N"
+        ? `Commit ${sha.slice(0, 7)} is not signed: branch requires signed commits`
+        : `Commit ${sha.slice(0, 7)} does not have a valid signature: branch requires signed commits`;
     }
-  } catch {
-    return undefined;
   }
 
   return undefined;
 }
 
+/**
+ * Check if any blob introduced by the push exceeds the maximum file size.
+ * Looks at every object not yet reachable from an existing ref, so large
+ * files added and removed again within the push are caught too. A push
+ * that can't be checked is rejected.
+ */
+async function checkFileSizeLimits(
+  repoPath: string,
+  newSha: string,
+  maxBytes: number,
+  env: NodeJS.ProcessEnv | undefined
+): Promise<string | undefined> {
+  try {
+    const { stdout: omitted } = await execFileAsync("git", [
+      "-C", repoPath, "rev-list", "--objects", `--filter=blob:limit=${maxBytes + 1}`,
+      "--filter-print-omitted", newSha, "--not", "--all",
+    ], { env, maxBuffer: 64 * 1024 * 1024 });
+
+    const oversized = omitted
+      .split("\n")
+      .filter((line) => line.startsWith("~"))
+      .map((line) => line.slice(1).trim());
+    if (oversized.length === 0) {
+      return undefined;
+    }
+
+    const { stdout: objects } = await execFileAsync("git", [
+      "-C", repoPath, "rev-list", "--objects", newSha, "--not", "--all",
+    ], { env, maxBuffer: 64 * 1024 * 1024 });
+
+    const sha = oversized[0];
+    const entry = objects.split("\n").find((line) => line.startsWith(`${sha} `));
+    const filePath = entry ? entry.slice(sha.length + 1) : sha;
+
+    const { stdout: sizeOut } = await execFileAsync("git", [
+      "-C", repoPath, "cat-file", "-s", sha,
+    ], { env });
+
+    const size = parseInt(sizeOut.trim(), 10);
+    return `File ${filePath} exceeds size limit (${size} > ${maxBytes} bytes)`;
+  } catch (err) {
+    return `Could not check file sizes: ${errorMessage(err)}`;
+  }
+}
+
 /**
  * Check if any new or modified files match the forbidden files list.
- * Returns a rejection message if a forbidden file is detected.
+ * Every commit the push introduces is checked, not just the tip.
+ * Returns a rejection message if a forbidden file is detected or the
+ * check can't run.
  */
 async function checkForbiddenFiles(
   repoPath: string,
-  oldSha: string | undefined,
   newSha: string,
-  config: BranchProtectionConfig
+  config: BranchProtectionConfig,
+  env: NodeJS.ProcessEnv | undefined
 ): Promise<string | undefined> {
-  const diffRange = oldSha ? `${oldSha}..${newSha}` : newSha;
-
   try {
     const { stdout } = await execFileAsync("git", [
-      "-C", repoPath, "diff-tree", "-r", "--diff-filter=ACM",
-      "--no-commit-id", "--name-only", diffRange,
-    ]);
+      "-C", repoPath, "log", "-m", "--format=", "--name-only", "--no-renames",
+      "--diff-filter=ACM", newSha, "--not", "--all",
+    ], { env, maxBuffer: 64 * 1024 * 1024 });
 
     for (const filePath of stdout.trim().split("\n").filter(Boolean)) {
       const basename = filePath.split("/").pop() ?? "";
@@ -237,9 +331,13 @@ async function checkForbiddenFiles(
         }
       }
     }
-  } catch {
-    return undefined;
+  } catch (err) {
+    return `Could not check for forbidden files: ${errorMessage(err)}`;
   }
 
   return undefined;
 }
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message.split("\n")[0] : String(err);
+}
@@ -0,0 +1,232 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { PreReceiveResult, RefUpdate } from "./pre-receive.js";
+import { resolveRef } from "../refs.js";
+
+/** Largest payload allowed in a single pkt-line. */
+const MAX_PKT_PAYLOAD = 65516;
+
+/** Sideband payloads leave one byte for the band number. */
+const MAX_SIDEBAND_PAYLOAD = 65515;
+
+/** Largest receive-pack request buffered for the pre-receive stage unless configured otherwise. */
+export const DEFAULT_MAX_RECEIVE_PACK_BYTES = 512 * 1024 * 1024;
+
+/** Commands and pack data sent by a client to git-receive-pack. */
+export interface ReceivePackRequest {
+  updates: RefUpdate[];
+  capabilities: string[];
+  pushOptions: string[];
+  /** The packfile following the command list (empty for delete-only pushes). */
+  pack: Buffer;
+}
+
+/**
+ * Hook invoked with the pushed ref updates before git-receive-pack runs.
+ * `env` points git at the quarantined objects from the push.
+ */
+export type PreReceiveHandler = (
+  repoPath: string,
+  updates: RefUpdate[],
+  env: NodeJS.ProcessEnv
+) => Promise<PreReceiveResult[]>;
+
+/**
+ * Hook invoked after git-receive-pack succeeds, with the ref updates
+ * that actually landed.
+ */
+export type PostReceiveHandler = (repoPath: string, updates: RefUpdate[]) => Promise<void>;
+
+/**
+ * Encode a single pkt-line: four hex digits of total length, then payload.
+ */
+export function encodePktLine(payload: string | Buffer): Buffer {
+  const data = typeof payload === "string" ? Buffer.from(payload, "utf8") : payload;
+  if (data.length > MAX_PKT_PAYLOAD) {
+    throw new Error(`pkt-line payload too large (${data.length} bytes)`);
+  }
+  const header = (data.length + 4).toString(16).padStart(4, "0");
+  return Buffer.concat([Buffer.from(header, "ascii"), data]);
+}
+
+/**
+ * Read pkt-lines from `body` starting at `offset` until a flush packet.
+ * Returns the decoded lines (trailing newline stripped) and the offset
+ * just past the flush.
+ */
+function readPktLines(body: Buffer, offset: number): { lines: string[]; offset: number } {
+  const lines: string[] = [];
+
+  while (offset + 4 <= body.length) {
+    const length = parseInt(body.toString("ascii", offset, offset + 4), 16);
+    if (Number.isNaN(length) || (length > 0 && length < 4)) {
+      throw new Error("Malformed pkt-line in receive-pack request");
+    }
+    offset += 4;
+    if (length === 0) {
+      return { lines, offset };
+    }
+    lines.push(body.toString("utf8", offset, offset + length - 4).replace(/\n$/, ""));
+    offset += length - 4;
+  }
+
+  throw new Error("Unexpected end of receive-pack request");
+}
+
+/**
+ * Parse the body of a stateless git-receive-pack request into ref
+ * updates, client capabilities, push options and the trailing packfile.
+ */
+export function parseReceivePackRequest(body: Buffer): ReceivePackRequest {
+  const commands = readPktLines(body, 0);
+  const updates: RefUpdate[] = [];
+  let capabilities: string[] = [];
+
+  for (let line of commands.lines) {
+    const nul = line.indexOf("\0");
+    if (nul >= 0) {
+      capabilities = line.slice(nul + 1).trim().split(" ").filter(Boolean);
+      line = line.slice(0, nul);
+    }
+    if (line.startsWith("shallow ")) continue;
+
+    const [oldSha, newSha, refName] = line.split(" ");
+    if (!oldSha || !newSha || !refName) {
+      throw new Error(`Malformed ref update: ${line}`);
+    }
+    updates.push({ oldSha, newSha, refName });
+  }
+
+  let offset = commands.offset;
+  let pushOptions: string[] = [];
+  if (capabilities.includes("push-options") && offset < body.length) {
+    const options = readPktLines(body, offset);
+    pushOptions = options.lines;
+    offset = options.offset;
+  }
+
+  return { updates, capabilities, pushOptions, pack: body.subarray(offset) };
+}
+
+/**
+ * Unpack pushed objects into a temporary object directory and run `fn`
+ * with an environment that sees them alongside the repository's objects.
+ * Nothing is written to the repository itself.
+ */
+export async function withQuarantinedObjects<T>(
+  repoPath: string,
+  pack: Buffer,
+  fn: (env: NodeJS.ProcessEnv) => Promise<T>
+): Promise<T> {
+  const quarantine = await mkdtemp(path.join(tmpdir(), "gittic-quarantine-"));
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    GIT_OBJECT_DIRECTORY: quarantine,
+    GIT_ALTERNATE_OBJECT_DIRECTORIES: path.resolve(repoPath, "objects"),
+  };
+
+  try {
+    if (pack.length > 0) {
+      await unpackObjects(repoPath, pack, env);
+    }
+    return await fn(env);
+  } finally {
+    await rm(quarantine, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Feed a packfile to `git unpack-objects` using the given object directory.
+ */
+function unpackObjects(repoPath: string, pack: Buffer, env: NodeJS.ProcessEnv): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("git", ["-C", repoPath, "unpack-objects", "-q"], { env });
+    let stderr = "";
+    proc.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`unpack-objects failed: ${stderr.trim()}`));
+    });
+    proc.stdin.on("error", () => undefined);
+    proc.stdin.end(pack);
+  });
+}
+
+/**
+ * Build a receive-pack response that rejects the whole push.
+ *
+ * Each declined ref gets an `ng` status with its reason; refs that passed
+ * are declined too so the push stays all-or-nothing. Reasons are also
+ * sent on the progress band so clients print them as `remote:` lines.
+ */
+export function buildPreReceiveRejection(
+  results: PreReceiveResult[],
+  capabilities: string[]
+): Buffer {
+  const sideband = capabilities.includes("side-band-64k") || capabilities.includes("side-band");
+  const reportStatus = capabilities.includes("report-status") || capabilities.includes("report-status-v2");
+  const chunks: Buffer[] = [];
+
+  const messages = results
+    .filter((result) => !result.allowed)
+    .map((result) => `error: ${result.ref}: ${singleLine(result.rejectionReason ?? "rejected")}\n`);
+
+  if (sideband) {
+    for (const message of messages) {
+      chunks.push(encodePktLine(Buffer.concat([Buffer.from([2]), Buffer.from(message, "utf8")])));
+    }
+  }
+
+  if (reportStatus) {
+    const report: Buffer[] = [encodePktLine("unpack ok\n")];
+    for (const result of results) {
+      const reason = result.allowed
+        ? "push declined: another ref in this push was rejected"
+        : singleLine(result.rejectionReason ?? "pre-receive hook declined");
+      report.push(encodePktLine(`ng ${result.ref} ${reason}\n`));
+    }
+    report.push(Buffer.from("0000", "ascii"));
+    const payload = Buffer.concat(report);
+
+    if (sideband) {
+      for (let i = 0; i < payload.length; i += MAX_SIDEBAND_PAYLOAD) {
+        const slice = payload.subarray(i, i + MAX_SIDEBAND_PAYLOAD);
+        chunks.push(encodePktLine(Buffer.concat([Buffer.from([1]), slice])));
+      }
+    } else {
+      chunks.push(payload);
+    }
+  }
+
+  if (sideband) {
+    chunks.push(Buffer.from("0000", "ascii"));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Filter ref updates down to those git-receive-pack actually applied.
+ */
+export async function landedUpdates(repoPath: string, updates: RefUpdate[]): Promise<RefUpdate[]> {
+  const zeroSha = "0000000000000000000000000000000000000000";
+  const landed: RefUpdate[] = [];
+
+  for (const update of updates) {
+    const current = await resolveRef(repoPath, update.refName).catch(() => zeroSha);
+    if (current === update.newSha) {
+      landed.push(update);
+    }
+  }
+
+  return landed;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/[\r\n]+/g, " ").trim();
+}
@@ -1,9 +1,32 @@
 import { execFile, spawn } from "node:child_process";
 import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { isPathSafe } from "@platform/utils";
+import {
+  DEFAULT_MAX_RECEIVE_PACK_BYTES,
+  buildPreReceiveRejection,
+  landedUpdates,
+  parseReceivePackRequest,
+  withQuarantinedObjects,
+} from "./hooks/receive-pack-stage.js";
+import type { PostReceiveHandler, PreReceiveHandler } from "./hooks/receive-pack-stage.js";
 
 const execFileAsync = promisify(execFile);
+const gunzipAsync = promisify(gunzip);
+
+/** Optional behaviour for {@link handleGitHttpRequest}. */
+export interface GitHttpOptions {
+  /** Runs before git-receive-pack; any rejected ref declines the whole push. */
+  preReceive?: PreReceiveHandler;
+  /** Runs once git-receive-pack has finished, with the refs that were updated. */
+  postReceive?: PostReceiveHandler;
+  /**
+   * Largest push buffered for the hooks, after decompression. Larger
+   * pushes are refused (413 over HTTP). Defaults to 512 MiB.
+   */
+  maxReceivePackBytes?: number;
+}
 
 /**
  * Handle Git HTTP smart protocol requests (clone, fetch, push).
@@ -14,7 +37,8 @@ export function handleGitHttpRequest(
   req: IncomingMessage,
   res: ServerResponse,
   repoRelPath: string,
-  service: "git-upload-pack" | "git-receive-pack"
+  service: "git-upload-pack" | "git-receive-pack",
+  options: GitHttpOptions = {}
 ): void {
   if (!isPathSafe(basePath, repoRelPath)) {
     res.writeHead(403);
@@ -46,6 +70,17 @@ export function handleGitHttpRequest(
   }
 
   // Actual RPC endpoint
+  if (service === "git-receive-pack" && (options.preReceive || options.postReceive)) {
+    receiveWithHooks(repoPath, req, res, options).catch((err: unknown) => {
+      console.error("pre-receive failed:", err);
+      if (!res.headersSent) {
+        res.writeHead(500);
+      }
+      res.end();
+    });
+    return;
+  }
+
   res.setHeader("Content-Type", `application/x-${service}-result`);
   res.writeHead(200);
 
@@ -57,6 +92,119 @@ export function handleGitHttpRequest(
   });
 }
 
+/**
+ * Buffer a push, run the pre-receive handler against its quarantined
+ * objects, then either hand it to git-receive-pack or report the
+ * rejected refs back to the client. The post-receive handler runs
+ * after git-receive-pack exits.
+ */
+async function receiveWithHooks(
+  repoPath: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: GitHttpOptions
+): Promise<void> {
+  const maxBytes = options.maxReceivePackBytes ?? DEFAULT_MAX_RECEIVE_PACK_BYTES;
+  if (Number(req.headers["content-length"]) > maxBytes) {
+    refuseTooLarge(req, res, maxBytes);
+    return;
+  }
+
+  let body = await readRequestBody(req, maxBytes);
+  if (body && req.headers["content-encoding"] === "gzip") {
+    body = await gunzipAsync(body, { maxOutputLength: maxBytes }).catch((err: NodeJS.ErrnoException) => {
+      if (err.code === "ERR_BUFFER_TOO_LARGE") return null;
+      throw err;
+    });
+  }
+  if (!body) {
+    refuseTooLarge(req, res, maxBytes);
+    return;
+  }
+
+  const request = parseReceivePackRequest(body);
+  const preReceive = options.preReceive;
+  const results = preReceive
+    ? await withQuarantinedObjects(repoPath, request.pack, (env) =>
+      preReceive(repoPath, request.updates, env)
+    )
+    : [];
+
+  res.setHeader("Content-Type", "application/x-git-receive-pack-result");
+  res.writeHead(200);
+
+  if (results.some((result) => !result.allowed)) {
+    res.end(buildPreReceiveRejection(results, request.capabilities));
+    return;
+  }
+
+  const proc = spawn("git-receive-pack", ["--stateless-rpc", repoPath]);
+  proc.stdin.on("error", () => undefined);
+  proc.stdin.end(body);
+  proc.stdout.pipe(res);
+  proc.stderr.on("data", (data: Buffer) => {
+    console.error("git-receive-pack stderr:", data.toString());
+  });
+
+  const postReceive = options.postReceive;
+  if (postReceive) {
+    proc.on("close", (code) => {
+      if (code !== 0) return;
+      landedUpdates(repoPath, request.updates)
+        .then((landed) => (landed.length > 0 ? postReceive(repoPath, landed) : undefined))
+        .catch((err: unknown) => console.error("post-receive failed:", err));
+    });
+  }
+}
+
+/**
+ * Collect a request body, or resolve with null as soon as it grows past
+ * `maxBytes`. The rest of an oversized body is left unread.
+ */
+function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const detach = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        detach();
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      detach();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (err: Error) => {
+      detach();
+      reject(err);
+    };
+
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", onError);
+  });
+}
+
+/**
+ * Answer an oversized push with 413 and drop the connection once the
+ * response is out, instead of reading the rest of the upload.
+ */
+function refuseTooLarge(req: IncomingMessage, res: ServerResponse, maxBytes: number): void {
+  res.writeHead(413, { "Content-Type": "text/plain", Connection: "close" });
+  res.end(`Push exceeds the ${maxBytes} byte limit\n`, () => req.destroy());
+}
+
 /**
  * Get diff between two refs.
  */
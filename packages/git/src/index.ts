@@ -18,6 +18,9 @@ export {
 export type { BranchInfo, TagInfo } from "./branches.js";
 
 export { handleGitHttpRequest, getDiff, getLog, updateServerInfo } from "./http-backend.js";
+export type { GitHttpOptions } from "./http-backend.js";
+export { serveGitSsh } from "./ssh-backend.js";
+export type { GitSshStreams, GitSshOptions } from "./ssh-backend.js";
 
 export { runGc, prune, repack, getPackStats } from "./gc.js";
 
@@ -63,6 +66,8 @@ export {
   getMergeConflicts,
   abortMerge,
   isMergeInProgress,
+  mergeNoFastForward,
+  squashMerge,
 } from "./merge.js";
 export type { MergeStrategy, MergeResult, ConflictInfo } from "./merge.js";
 
@@ -98,6 +103,8 @@ export {
   rebaseContinue,
   rebaseSkip,
   getRebaseStatus,
+  listReplayCommits,
+  replayCommits,
 } from "./rebase.js";
 export type { RebaseResult, RebaseStatus } from "./rebase.js";
 
@@ -170,28 +177,56 @@ export type {
   RefUpdate,
 } from "./hooks/pre-receive.js";
 
+export {
+  parseReceivePackRequest,
+  buildPreReceiveRejection,
+  withQuarantinedObjects,
+  encodePktLine,
+} from "./hooks/receive-pack-stage.js";
+export type {
+  ReceivePackRequest,
+  PreReceiveHandler,
+  PostReceiveHandler,
+} from "./hooks/receive-pack-stage.js";
+
 export {
   parsePostReceiveInput,
   buildPushPayload,
   buildNotificationPayload,
   buildSearchIndexPayload,
   buildCiTriggerPayload,
+  summarizePush,
 } from "./hooks/post-receive.js";
 export type {
   PostReceiveConfig,
   PushPayload,
   PushCommitInfo,
   PostReceiveUpdate,
+  PushedCommit,
+  PushSummary,
 } from "./hooks/post-receive.js";
 
 // Security
 export {
   scanContent,
   scanDiff,
+  createDiffScanner,
   addCustomPattern,
   listPatternNames,
 } from "./security/secret-scanner.js";
-export type { SecretScanResult, SecretMatch } from "./security/secret-scanner.js";
+export type {
+  SecretScanResult,
+  SecretMatch,
+  SecretPattern,
+  SecretConfidence,
+} from "./security/secret-scanner.js";
+
+export {
+  scanCommits,
+  scanPushedCommits,
+  scanRepositoryHistory,
+} from "./security/commit-scanner.js";
+export type { CommitSecretMatch, CommitScanOptions } from "./security/commit-scanner.js";
 
 export {
   verifySignature,
@@ -237,6 +272,7 @@ export {
   processBatchRequest,
   verifyObject,
   storeObject,
+  storeObjectStream,
 } from "./lfs/lfs-transfer.js";
 export type {
   LfsObject,
@@ -254,8 +290,15 @@ export {
   removeMirror,
   getMirrorStatus,
   scheduledSync,
+  pushMirror,
+} from "./mirror/mirror-manager.js";
+export type {
+  MirrorConfig,
+  MirrorSyncResult,
+  MirrorStatus,
+  MirrorCredentials,
+  MirrorRemoteOptions,
 } from "./mirror/mirror-manager.js";
-export type { MirrorConfig, MirrorSyncResult, MirrorStatus } from "./mirror/mirror-manager.js";
 
 export {
   searchCode,
@@ -318,13 +361,50 @@ export {
   outdatedCheck,
   calculateLineOffset,
   getCommentablePositions,
+  reanchorRange,
 } from "./pr/review-comments.js";
 export type {
   DiffPosition,
   ReviewComment,
   PositionResolution,
+  ReanchoredRange,
 } from "./pr/review-comments.js";
 
+export {
+  mergePullRequest,
+  buildSquashCommitMessage,
+  listCoAuthors,
+} from "./pr/pr-merge.js";
+export type {
+  PrMergeMethod,
+  PrMergeOptions,
+  PrMergeResult,
+  GitIdentity,
+} from "./pr/pr-merge.js";
+
+export {
+  parseSuggestions,
+  buildSuggestionPatch,
+  commitSuggestions,
+} from "./pr/suggestions.js";
+export type {
+  SuggestedChange,
+  SuggestionCommitOptions,
+  SuggestionCommitResult,
+} from "./pr/suggestions.js";
+
+export {
+  CODEOWNERS_PATHS,
+  readCodeowners,
+  parseCodeowners,
+  findOwnershipRule,
+} from "./pr/codeowners.js";
+export type {
+  Codeowners,
+  CodeownersRule,
+  CodeownersError,
+} from "./pr/codeowners.js";
+
 export {
   checkMergeability,
   conflictFiles,
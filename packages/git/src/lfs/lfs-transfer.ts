@@ -1,6 +1,8 @@
-import { createHash } from "node:crypto";
-import { readFile, writeFile, stat, unlink } from "node:fs/promises";
+import { createHash, randomBytes } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { readFile, writeFile, stat, unlink, rename, mkdir } from "node:fs/promises";
 import path from "node:path";
+import { finished } from "node:stream/promises";
 import { resolveObjectPath } from "./lfs-manager.js";
 
 /** An LFS object descriptor used in the batch API. */
@@ -48,11 +50,14 @@ export interface LfsObjectError {
 /**
  * Process a batch API request and return responses for each object.
  * Checks object existence for downloads, creates upload targets for uploads.
+ * `header` is attached to every transfer action (e.g. the client's
+ * Authorization header so transfers are authenticated the same way).
  */
 export async function processBatchRequest(
   storagePath: string,
   request: LfsBatchRequest,
-  baseUrl: string
+  baseUrl: string,
+  header: Record<string, string> = {}
 ): Promise<LfsBatchObjectResponse[]> {
   const responses: LfsBatchObjectResponse[] = [];
 
@@ -60,10 +65,10 @@ export async function processBatchRequest(
     const objectPath = resolveObjectPath(storagePath, obj.oid);
 
     if (request.operation === "download") {
-      const response = await buildDownloadResponse(objectPath, obj, baseUrl);
+      const response = await buildDownloadResponse(objectPath, obj, baseUrl, header);
       responses.push(response);
     } else {
-      const response = await buildUploadResponse(objectPath, obj, baseUrl);
+      const response = await buildUploadResponse(objectPath, obj, baseUrl, header);
       responses.push(response);
     }
   }
@@ -78,7 +83,8 @@ export async function processBatchRequest(
 async function buildDownloadResponse(
   objectPath: string,
   obj: LfsObject,
-  baseUrl: string
+  baseUrl: string,
+  header: Record<string, string>
 ): Promise<LfsBatchObjectResponse> {
   try {
     const fileStat = await stat(objectPath);
@@ -100,7 +106,7 @@ async function buildDownloadResponse(
       actions: {
         download: {
           href: `${baseUrl}/objects/${obj.oid}`,
-          header: {},
+          header,
           expiresIn: 3600,
         },
       },
@@ -124,7 +130,8 @@ async function buildDownloadResponse(
 async function buildUploadResponse(
   objectPath: string,
   obj: LfsObject,
-  baseUrl: string
+  baseUrl: string,
+  header: Record<string, string>
 ): Promise<LfsBatchObjectResponse> {
   try {
     const fileStat = await stat(objectPath);
@@ -149,12 +156,12 @@ async function buildUploadResponse(
     actions: {
       upload: {
         href: `${baseUrl}/objects/${obj.oid}`,
-        header: {},
+        header,
         expiresIn: 3600,
       },
       verify: {
         href: `${baseUrl}/objects/${obj.oid}/verify`,
-        header: {},
+        header,
         expiresIn: 3600,
       },
     },
@@ -217,9 +224,65 @@ export async function storeObject(
 
   const objectPath = resolveObjectPath(storagePath, oid);
   const dir = path.dirname(objectPath);
-  const { mkdir } = await import("node:fs/promises");
   await mkdir(dir, { recursive: true });
   await writeFile(objectPath, content);
 
   return objectPath;
 }
+
+/**
+ * Store an LFS object from a stream without buffering it in memory.
+ * The content is written to a temporary file next to its final location
+ * and only moved into place once its size and SHA-256 hash match.
+ * With an `expectedSize`, the upload is abandoned as soon as it grows
+ * past it instead of being written out in full.
+ */
+export async function storeObjectStream(
+  storagePath: string,
+  oid: string,
+  source: AsyncIterable<Buffer | string>,
+  expectedSize?: number
+): Promise<string> {
+  const objectPath = resolveObjectPath(storagePath, oid);
+  await mkdir(path.dirname(objectPath), { recursive: true });
+  const tempPath = `${objectPath}.${randomBytes(6).toString("hex")}.tmp`;
+
+  const hash = createHash("sha256");
+  const out = createWriteStream(tempPath);
+  let size = 0;
+
+  try {
+    for await (const chunk of source) {
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (expectedSize !== undefined && size > expectedSize) {
+        throw new Error(`Size mismatch: expected ${expectedSize}, got more`);
+      }
+      hash.update(buffer);
+      if (!out.write(buffer)) {
+        await new Promise<void>((resolve) => out.once("drain", resolve));
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      out.once("error", reject);
+      out.end(resolve);
+    });
+
+    if (expectedSize !== undefined && size !== expectedSize) {
+      throw new Error(`Size mismatch: expected ${expectedSize}, got ${size}`);
+    }
+    const computedHash = hash.digest("hex");
+    if (computedHash !== oid) {
+      throw new Error(`Content hash mismatch: expected ${oid}, got ${computedHash}`);
+    }
+
+    await rename(tempPath, objectPath);
+    return objectPath;
+  } catch (err) {
+    // Wait for the file to be closed, or a late open would recreate it after the unlink
+    out.destroy();
+    await finished(out).catch(() => {});
+    await unlink(tempPath).catch(() => {});
+    throw err;
+  }
+}
@@ -166,3 +166,88 @@ export async function isMergeInProgress(repoPath: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Merge source into the branch checked out in a working tree, always
+ * recording a merge commit even when a fast-forward would be possible.
+ */
+export async function mergeNoFastForward(
+  worktreePath: string,
+  source: string,
+  message: string,
+  committer: { name: string; email: string }
+): Promise<MergeResult> {
+  try {
+    await execFileAsync("git", [
+      "-C", worktreePath,
+      "-c", `user.name=${committer.name}`, "-c", `user.email=${committer.email}`,
+      "merge", "--no-ff", "--no-edit", "-m", message, source,
+    ]);
+
+    const { stdout } = await execFileAsync("git", [
+      "-C", worktreePath, "rev-parse", "HEAD",
+    ]);
+
+    return {
+      success: true,
+      sha: stdout.trim(),
+      conflicts: [],
+      message: `Merged ${source} with a merge commit`,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    const conflicts = await getMergeConflicts(worktreePath).catch(() => []);
+    return {
+      success: false,
+      sha: undefined,
+      conflicts: conflicts.map((c) => c.path),
+      message: `Merge failed: ${msg}`,
+    };
+  }
+}
+
+/**
+ * Squash all changes from source onto the branch checked out in a
+ * working tree and record them as a single commit.
+ */
+export async function squashMerge(
+  worktreePath: string,
+  source: string,
+  message: string,
+  author: { name: string; email: string },
+  committer: { name: string; email: string }
+): Promise<MergeResult> {
+  try {
+    await execFileAsync("git", [
+      "-C", worktreePath, "merge", "--squash", source,
+    ]);
+
+    await execFileAsync("git", [
+      "-C", worktreePath,
+      "-c", `user.name=${committer.name}`, "-c", `user.email=${committer.email}`,
+      "commit", "--no-verify", "--allow-empty",
+      "--author", `${author.name} <${author.email}>`,
+      "-m", message,
+    ]);
+
+    const { stdout } = await execFileAsync("git", [
+      "-C", worktreePath, "rev-parse", "HEAD",
+    ]);
+
+    return {
+      success: true,
+      sha: stdout.trim(),
+      conflicts: [],
+      message: `Squashed ${source} into a single commit`,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    const conflicts = await getMergeConflicts(worktreePath).catch(() => []);
+    return {
+      success: false,
+      sha: undefined,
+      conflicts: conflicts.map((c) => c.path),
+      message: `Squash merge failed: ${msg}`,
+    };
+  }
+}
@@ -25,6 +25,20 @@ export interface MirrorSyncResult {
   error: string | undefined;
 }
 
+/** Credentials used to reach an HTTP(S) mirror remote. */
+export interface MirrorCredentials {
+  username?: string;
+  password: string;
+}
+
+/** Options for commands that talk to a mirror remote. */
+export interface MirrorRemoteOptions {
+  credentials?: MirrorCredentials;
+  /** Remote URL to use instead of the one in the saved mirror config. */
+  sourceUrl?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
 /** Overall mirror status with health information. */
 export interface MirrorStatus {
   config: MirrorConfig;
@@ -33,20 +47,85 @@ export interface MirrorStatus {
   behindCount: number;
 }
 
+/**
+ * Embed credentials into an HTTP(S) remote URL. Other URLs (local paths,
+ * file://, ssh) are returned unchanged.
+ */
+function withCredentials(url: string, credentials?: MirrorCredentials): string {
+  if (!credentials || !/^https?:\/\//i.test(url)) return url;
+  const parsed = new URL(url);
+  parsed.username = encodeURIComponent(credentials.username || "git");
+  parsed.password = encodeURIComponent(credentials.password);
+  return parsed.toString();
+}
+
+/**
+ * Environment for mirror commands: never prompt for credentials.
+ */
+function remoteEnv(options: MirrorRemoteOptions): NodeJS.ProcessEnv {
+  return { ...process.env, GIT_TERMINAL_PROMPT: "0", ...options.env };
+}
+
+/**
+ * Error message of a failed remote command, with credentials removed.
+ */
+function remoteErrorMessage(error: unknown, authUrl: string, url: string): string {
+  const err = error as { stderr?: string; message?: string };
+  const msg = (err.stderr?.trim() || err.message || String(error)).split(authUrl).join(url);
+  return msg.replace(/(https?:\/\/)[^/@\s]+@/gi, "$1");
+}
+
+/**
+ * Snapshot of every ref in a repository, keyed by ref name.
+ */
+async function readRefs(repoPath: string): Promise<Map<string, string>> {
+  const { stdout } = await execFileAsync("git", [
+    "-C", repoPath, "for-each-ref", "--format=%(refname) %(objectname)",
+  ]);
+  const refs = new Map<string, string>();
+  for (const line of stdout.split("\n").filter(Boolean)) {
+    const [ref, sha] = line.split(" ");
+    refs.set(ref, sha);
+  }
+  return refs;
+}
+
+function changedRefs(before: Map<string, string>, after: Map<string, string>): string[] {
+  const changed = new Set<string>();
+  for (const [ref, sha] of after) {
+    if (before.get(ref) !== sha) changed.add(ref);
+  }
+  for (const ref of before.keys()) {
+    if (!after.has(ref)) changed.add(ref);
+  }
+  return [...changed].sort();
+}
+
 /**
  * Set up a new mirror by cloning the source as a mirror repository.
  * Creates a bare repository with all refs mirrored from the source.
+ * Credentials are only used for the clone and never written to the
+ * repository's config.
  */
 export async function setupMirror(
   sourceUrl: string,
   targetPath: string,
-  branches?: string[]
+  branches?: string[],
+  options: MirrorRemoteOptions = {}
 ): Promise<MirrorConfig> {
   await mkdir(path.dirname(targetPath), { recursive: true });
 
-  await execFileAsync("git", [
-    "clone", "--mirror", sourceUrl, targetPath,
-  ]);
+  const authUrl = withCredentials(sourceUrl, options.credentials);
+  try {
+    await execFileAsync("git", [
+      "clone", "--mirror", authUrl, targetPath,
+    ], { env: remoteEnv(options) });
+  } catch (error) {
+    throw new Error(remoteErrorMessage(error, authUrl, sourceUrl));
+  }
+  if (authUrl !== sourceUrl) {
+    await execFileAsync("git", ["-C", targetPath, "remote", "set-url", "origin", sourceUrl]);
+  }
 
   const config: MirrorConfig = {
     sourceUrl,
@@ -67,22 +146,21 @@ export async function setupMirror(
  * Fetches all updates and returns the list of changed refs.
  */
 export async function syncMirror(
-  targetPath: string
+  targetPath: string,
+  options: MirrorRemoteOptions = {}
 ): Promise<MirrorSyncResult> {
   const startTime = Date.now();
   const config = await loadMirrorConfig(targetPath);
-  const sourceUrl = config?.sourceUrl ?? "origin";
+  const sourceUrl = options.sourceUrl ?? config?.sourceUrl ?? "origin";
+  const authUrl = withCredentials(sourceUrl, options.credentials);
 
   try {
-    const { stderr } = await execFileAsync("git", [
-      "-C", targetPath, "fetch", "--prune", sourceUrl,
+    const before = await readRefs(targetPath);
+    await execFileAsync("git", [
+      "-C", targetPath, "fetch", "--prune", authUrl,
       "+refs/*:refs/*",
-    ]);
-
-    const updatedRefs = stderr
-      .split("\n")
-      .filter((l) => l.includes("->"))
-      .map((l) => l.trim());
+    ], { env: remoteEnv(options) });
+    const updatedRefs = changedRefs(before, await readRefs(targetPath));
 
     const duration = Date.now() - startTime;
 
@@ -100,14 +178,58 @@ export async function syncMirror(
       error: undefined,
     };
   } catch (error) {
-    const msg = error instanceof Error ? error.message : String(error);
     return {
       success: false,
       sourceUrl,
       targetPath,
       updatedRefs: [],
       duration: Date.now() - startTime,
-      error: msg,
+      error: remoteErrorMessage(error, authUrl, sourceUrl),
+    };
+  }
+}
+
+/**
+ * Push branches and tags of a repository to a push mirror remote.
+ * Refs deleted locally are deleted on the remote as well; other refs
+ * (pull request and merge queue refs) are not forwarded.
+ */
+export async function pushMirror(
+  repoPath: string,
+  remoteUrl: string,
+  options: Omit<MirrorRemoteOptions, "sourceUrl"> = {}
+): Promise<MirrorSyncResult> {
+  const startTime = Date.now();
+  const authUrl = withCredentials(remoteUrl, options.credentials);
+
+  try {
+    const { stdout } = await execFileAsync("git", [
+      "-C", repoPath, "push", "--porcelain", "--prune", authUrl,
+      "+refs/heads/*:refs/heads/*", "+refs/tags/*:refs/tags/*",
+    ], { env: remoteEnv(options) });
+
+    // Porcelain lines: "<flag>\t<src>:<dst>\t<summary>"; "=" is up to date
+    const updatedRefs = stdout
+      .split("\n")
+      .filter((line) => /^[ +\-*]\t/.test(line))
+      .map((line) => line.split("\t")[1].split(":")[1]);
+
+    return {
+      success: true,
+      sourceUrl: repoPath,
+      targetPath: remoteUrl,
+      updatedRefs,
+      duration: Date.now() - startTime,
+      error: undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      sourceUrl: repoPath,
+      targetPath: remoteUrl,
+      updatedRefs: [],
+      duration: Date.now() - startTime,
+      error: remoteErrorMessage(error, authUrl, remoteUrl),
     };
   }
 }
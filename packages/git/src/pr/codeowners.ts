@@ -0,0 +1,132 @@
+import { catFile } from "../objects.js";
+
+/** Where a CODEOWNERS file is looked for; the first one found is used. */
+export const CODEOWNERS_PATHS = ["CODEOWNERS", ".gittic/CODEOWNERS", "docs/CODEOWNERS"];
+
+/** A line of a CODEOWNERS file giving the owners of the paths it matches. */
+export interface CodeownersRule {
+  pattern: string;
+  /** `@username` or `@org/team` references; empty when the paths have no owner. */
+  owners: string[];
+  line: number;
+}
+
+/** A line of a CODEOWNERS file that could not be used. */
+export interface CodeownersError {
+  line: number;
+  message: string;
+}
+
+/** Parsed CODEOWNERS file. Lines with errors are left out of `rules`. */
+export interface Codeowners {
+  rules: CodeownersRule[];
+  errors: CodeownersError[];
+}
+
+const OWNER_PATTERN = /^@[A-Za-z0-9][A-Za-z0-9_.-]*(\/[A-Za-z0-9][A-Za-z0-9_.-]*)?$/;
+
+/**
+ * Read the CODEOWNERS file of a commit or branch.
+ * Returns null when none of the known locations holds one.
+ */
+export async function readCodeowners(
+  repoPath: string,
+  ref: string
+): Promise<{ path: string; content: string } | null> {
+  for (const filePath of CODEOWNERS_PATHS) {
+    try {
+      const content = await catFile(repoPath, `${ref}:${filePath}`, "blob");
+      return { path: filePath, content };
+    } catch {
+      // Not at this location
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a CODEOWNERS file. Each line is a gitignore-style path pattern
+ * followed by its owners; `#` starts a comment. Negated patterns and
+ * character ranges are not supported and are reported as errors.
+ */
+export function parseCodeowners(content: string): Codeowners {
+  const rules: CodeownersRule[] = [];
+  const errors: CodeownersError[] = [];
+
+  content.split("\n").forEach((rawLine, index) => {
+    const line = index + 1;
+    const tokens = rawLine.trim().split(/\s+/).filter(Boolean);
+    const commentAt = tokens.findIndex((token) => token.startsWith("#"));
+    if (commentAt !== -1) tokens.splice(commentAt);
+    if (tokens.length === 0) return;
+
+    const [pattern, ...owners] = tokens;
+    if (pattern.startsWith("!")) {
+      errors.push({ line, message: `Negated pattern "${pattern}" is not supported` });
+      return;
+    }
+    if (/[[\]]/.test(pattern)) {
+      errors.push({ line, message: `Character ranges in "${pattern}" are not supported` });
+      return;
+    }
+    const invalid = owners.find((owner) => !OWNER_PATTERN.test(owner));
+    if (invalid) {
+      errors.push({ line, message: `Invalid owner "${invalid}"; expected @username or @org/team` });
+      return;
+    }
+
+    rules.push({ pattern, owners, line });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Convert a CODEOWNERS pattern to a regular expression over file paths.
+ * Patterns without a slash match at any depth, a trailing slash matches
+ * everything inside a directory, and a pattern naming a directory owns
+ * its contents unless its last segment has a wildcard.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const directoryOnly = pattern.endsWith("/");
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+  const anchored = pattern.startsWith("/") || body.includes("/");
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "*" && body[i + 1] === "*") {
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+
+  const lastSegment = body.slice(body.lastIndexOf("/") + 1);
+  const suffix = directoryOnly ? "/.*" : /[*?]/.test(lastSegment) ? "" : "(?:/.*)?";
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}${suffix}$`);
+}
+
+/**
+ * The rule that decides who owns a path: the last one matching it.
+ * Returns null when no rule matches.
+ */
+export function findOwnershipRule(
+  rules: CodeownersRule[],
+  filePath: string
+): CodeownersRule | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (patternToRegExp(rules[i].pattern).test(filePath)) return rules[i];
+  }
+  return null;
+}
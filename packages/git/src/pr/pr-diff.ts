@@ -20,6 +20,8 @@ export interface PrDiffSummary {
   totalDeletions: number;
   totalFilesChanged: number;
   rawDiff: string;
+  /** Commit the diff starts from: where head branched off base */
+  mergeBase: string;
 }
 
 /**
@@ -47,6 +49,7 @@ export async function generatePrDiff(
     totalDeletions,
     totalFilesChanged: files.length,
     rawDiff,
+    mergeBase,
   };
 }
 
@@ -0,0 +1,213 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { mergeNoFastForward, squashMerge } from "../merge.js";
+import { listReplayCommits, replayCommits } from "../rebase.js";
+import { resolveRef, updateRef } from "../refs.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Ways a pull request can be landed on its base branch. */
+export type PrMergeMethod = "merge" | "squash" | "rebase";
+
+/** Name and email recorded on commits created by the platform. */
+export interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+/** Options for landing a pull request. */
+export interface PrMergeOptions {
+  method: PrMergeMethod;
+  base: string;
+  head: string;
+  /** Subject line for the merge or squash commit. */
+  commitTitle: string;
+  /** Optional body; squash merges default to the list of commit subjects. */
+  commitMessage?: string;
+  /** The user performing the merge. */
+  committer: GitIdentity;
+  /** Author of the squash commit (usually the PR author). */
+  author?: GitIdentity;
+  /** Commit to land on instead of the tip of the base branch. */
+  onto?: string;
+  /**
+   * Ref to point at the result instead of moving the base branch, e.g. a
+   * merge queue branch. It is overwritten without a compare-and-swap.
+   */
+  targetRef?: string;
+}
+
+/** Outcome of landing a pull request. */
+export interface PrMergeResult {
+  success: boolean;
+  method: PrMergeMethod;
+  /** New tip of the base branch, or of the target ref. */
+  sha: string | undefined;
+  /** Commits created on the base branch, oldest first. */
+  commits: string[];
+  conflicts: string[];
+  message: string;
+}
+
+/**
+ * Build a squash commit message: title, optional body and one
+ * `Co-authored-by` trailer per distinct co-author.
+ */
+export function buildSquashCommitMessage(
+  title: string,
+  body: string | undefined,
+  coAuthors: GitIdentity[]
+): string {
+  const sections = [title.trim()];
+  const trimmedBody = body?.trim();
+  if (trimmedBody) {
+    sections.push(trimmedBody);
+  }
+
+  const seen = new Set<string>();
+  const trailers: string[] = [];
+  for (const coAuthor of coAuthors) {
+    const key = coAuthor.email.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    trailers.push(`Co-authored-by: ${coAuthor.name} <${coAuthor.email}>`);
+  }
+  if (trailers.length > 0) {
+    sections.push(trailers.join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * List distinct authors of the commits in base..head, excluding the
+ * given identity. Used to credit everyone who contributed to a squash.
+ */
+export async function listCoAuthors(
+  repoPath: string,
+  base: string,
+  head: string,
+  exclude?: GitIdentity
+): Promise<GitIdentity[]> {
+  const { stdout } = await execFileAsync("git", [
+    "-C", repoPath, "log", "--reverse", "--format=%an%x00%ae", `${base}..${head}`,
+  ]);
+
+  const excluded = exclude?.email.toLowerCase();
+  const seen = new Set<string>();
+  const authors: GitIdentity[] = [];
+
+  for (const line of stdout.split("\n").filter(Boolean)) {
+    const [name, email] = line.split("\0");
+    const key = email.toLowerCase();
+    if (key === excluded || seen.has(key)) continue;
+    seen.add(key);
+    authors.push({ name, email });
+  }
+
+  return authors;
+}
+
+/**
+ * Default body of a squash commit: one bullet per squashed commit subject.
+ */
+async function defaultSquashBody(
+  repoPath: string,
+  base: string,
+  head: string
+): Promise<string> {
+  const { stdout } = await execFileAsync("git", [
+    "-C", repoPath, "log", "--reverse", "--no-merges", "--format=* %s", `${base}..${head}`,
+  ]);
+  return stdout.trim();
+}
+
+/**
+ * Land a pull request on its base branch in a bare repository.
+ *
+ * The work happens in a temporary detached worktree so the bare repo
+ * never has a checked-out tree. The base ref is only moved at the end,
+ * with a compare-and-swap against the tip observed at the start.
+ */
+export async function mergePullRequest(
+  repoPath: string,
+  options: PrMergeOptions
+): Promise<PrMergeResult> {
+  const baseRef = `refs/heads/${options.base}`;
+  const baseSha = options.onto ?? await resolveRef(repoPath, baseRef);
+  const headSha = await resolveRef(repoPath, `refs/heads/${options.head}`);
+
+  const worktreePath = await mkdtemp(path.join(tmpdir(), "gittic-merge-"));
+  await execFileAsync("git", [
+    "-C", repoPath, "worktree", "add", "--detach", "--force", worktreePath, baseSha,
+  ]);
+
+  try {
+    const fullMessage = options.commitMessage?.trim()
+      ? `${options.commitTitle}\n\n${options.commitMessage.trim()}`
+      : options.commitTitle;
+
+    let sha: string | undefined;
+    let conflicts: string[] = [];
+    let message: string;
+
+    if (options.method === "squash") {
+      const author = options.author ?? options.committer;
+      const coAuthors = await listCoAuthors(repoPath, baseSha, headSha, author);
+      const body = options.commitMessage ?? await defaultSquashBody(repoPath, baseSha, headSha);
+      const result = await squashMerge(
+        worktreePath,
+        headSha,
+        buildSquashCommitMessage(options.commitTitle, body, coAuthors),
+        author,
+        options.committer
+      );
+      sha = result.sha;
+      conflicts = result.conflicts;
+      message = result.message;
+    } else if (options.method === "rebase") {
+      const shas = await listReplayCommits(repoPath, baseSha, headSha);
+      const result = await replayCommits(worktreePath, shas, options.committer);
+      sha = result.currentSha;
+      conflicts = result.conflicts;
+      message = result.message;
+    } else {
+      const result = await mergeNoFastForward(worktreePath, headSha, fullMessage, options.committer);
+      sha = result.sha;
+      conflicts = result.conflicts;
+      message = result.message;
+    }
+
+    if (!sha) {
+      return { success: false, method: options.method, sha: undefined, commits: [], conflicts, message };
+    }
+
+    if (options.targetRef) {
+      await updateRef(repoPath, options.targetRef, sha);
+    } else {
+      await updateRef(repoPath, baseRef, sha, baseSha);
+    }
+
+    const { stdout } = await execFileAsync("git", [
+      "-C", repoPath, "rev-list", "--reverse", "--first-parent", `${baseSha}..${sha}`,
+    ]);
+
+    return {
+      success: true,
+      method: options.method,
+      sha,
+      commits: stdout.trim().split("\n").filter(Boolean),
+      conflicts: [],
+      message,
+    };
+  } finally {
+    await execFileAsync("git", [
+      "-C", repoPath, "worktree", "remove", "--force", worktreePath,
+    ]).catch(() => undefined);
+    await rm(worktreePath, { recursive: true, force: true });
+    await execFileAsync("git", ["-C", repoPath, "worktree", "prune"]).catch(() => undefined);
+  }
+}
@@ -208,6 +208,58 @@ export function calculateLineOffset(
   return offset;
 }
 
+/** A line range of a file as it lies in a later version of the file. */
+export interface ReanchoredRange {
+  path: string;
+  startLine: number | undefined;
+  line: number;
+}
+
+/**
+ * Follow a commented line range through the changes between the commit
+ * it was made on and a later one. Returns undefined when the changes
+ * touch the range itself or delete the file, leaving the comment outdated.
+ */
+export function reanchorRange(
+  changes: DiffFile[],
+  filePath: string,
+  line: number,
+  startLine?: number
+): ReanchoredRange | undefined {
+  const first = startLine ?? line;
+  const file = changes.find((f) => f.oldPath === filePath);
+
+  if (!file) return { path: filePath, startLine, line };
+  if (file.status === "deleted" || file.isBinary) return undefined;
+
+  let offset = 0;
+
+  for (const hunk of file.hunks) {
+    // The old line the next diff line comes before; a hunk that only
+    // inserts names the line it inserts after
+    let oldLine = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+
+    for (const diffLine of hunk.lines) {
+      if (diffLine.type === "context") {
+        oldLine++;
+      } else if (diffLine.type === "delete") {
+        if (oldLine >= first && oldLine <= line) return undefined;
+        if (oldLine < first) offset--;
+        oldLine++;
+      } else {
+        if (oldLine > first && oldLine <= line) return undefined;
+        if (oldLine <= first) offset++;
+      }
+    }
+  }
+
+  return {
+    path: file.newPath,
+    startLine: startLine === undefined ? undefined : startLine + offset,
+    line: line + offset,
+  };
+}
+
 /**
  * Find all positions in a diff that are available for commenting.
  * Returns valid position numbers and their corresponding lines.
@@ -0,0 +1,211 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { applyPatch } from "../diff/patch.js";
+import { catFile } from "../objects.js";
+import { resolveRef, updateRef } from "../refs.js";
+import type { GitIdentity } from "./pr-merge.js";
+
+const execFileAsync = promisify(execFile);
+
+const CONTEXT_LINES = 3;
+
+/** Replacement proposed for lines startLine..line of a file. */
+export interface SuggestedChange {
+  path: string;
+  startLine: number;
+  line: number;
+  /** New content for the lines, without a trailing newline; empty deletes them. */
+  replacement: string;
+}
+
+/** Options for committing suggested changes to a branch. */
+export interface SuggestionCommitOptions {
+  branch: string;
+  /** Tip the suggestions were made against; nothing is committed if the branch moved. */
+  expectedSha: string;
+  changes: SuggestedChange[];
+  message: string;
+  author: GitIdentity;
+  committer: GitIdentity;
+}
+
+/** Outcome of committing suggested changes. */
+export interface SuggestionCommitResult {
+  success: boolean;
+  /** New tip of the branch. */
+  sha: string | undefined;
+  filesChanged: string[];
+  message: string;
+}
+
+/**
+ * Extract the contents of the ```suggestion blocks in a review comment.
+ * Each block replaces the lines the comment is on.
+ */
+export function parseSuggestions(body: string): string[] {
+  const suggestions: string[] = [];
+  const regex = /^```suggestion[ \t]*\r?\n([\s\S]*?)^```[ \t]*$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(body)) !== null) {
+    suggestions.push(match[1].replace(/\r\n/g, "\n").replace(/\n$/, ""));
+  }
+
+  return suggestions;
+}
+
+/**
+ * Build a unified diff applying suggested changes to one file's content.
+ * All changes go in a single hunk, so they must not overlap.
+ */
+export function buildSuggestionPatch(
+  filePath: string,
+  content: string,
+  changes: Array<Omit<SuggestedChange, "path">>
+): string {
+  const lines = content.split("\n");
+  const missingNewline = !content.endsWith("\n");
+  if (!missingNewline) lines.pop();
+
+  const sorted = [...changes].sort((a, b) => a.startLine - b.startLine);
+  for (let i = 0; i < sorted.length; i++) {
+    const change = sorted[i];
+    if (change.startLine < 1 || change.line < change.startLine || change.line > lines.length) {
+      throw new Error(`Lines ${change.startLine}-${change.line} are outside ${filePath}`);
+    }
+    if (i > 0 && sorted[i - 1].line >= change.startLine) {
+      throw new Error(`Suggestions for ${filePath} change overlapping lines`);
+    }
+  }
+  if (sorted.length === 0) {
+    throw new Error(`No suggestions for ${filePath}`);
+  }
+
+  const from = Math.max(1, sorted[0].startLine - CONTEXT_LINES);
+  const to = Math.min(lines.length, sorted[sorted.length - 1].line + CONTEXT_LINES);
+
+  const body: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let next = 0;
+  for (let lineNo = from; lineNo <= to; lineNo++) {
+    const change = sorted[next];
+    if (change && change.startLine === lineNo) {
+      for (let old = change.startLine; old <= change.line; old++) {
+        body.push(`-${lines[old - 1]}`);
+        oldCount++;
+      }
+      if (change.replacement !== "") {
+        for (const added of change.replacement.split("\n")) {
+          body.push(`+${added}`);
+          newCount++;
+        }
+      }
+      lineNo = change.line;
+      next++;
+      continue;
+    }
+    body.push(` ${lines[lineNo - 1]}`);
+    oldCount++;
+    newCount++;
+  }
+
+  // Keep a file that ends without a newline that way
+  if (missingNewline && to === lines.length) {
+    const lastOld = findLastIndex(body, (line) => line[0] !== "+");
+    const lastNew = findLastIndex(body, (line) => line[0] !== "-");
+    if (lastNew > lastOld) body.splice(lastNew + 1, 0, "\\ No newline at end of file");
+    body.splice(lastOld + 1, 0, "\\ No newline at end of file");
+  }
+
+  const newStart = newCount === 0 ? from - 1 : from;
+  return [
+    `diff --git a/${filePath} b/${filePath}`,
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    `@@ -${from},${oldCount} +${newStart},${newCount} @@`,
+    ...body,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Commit suggested changes on top of a branch in a bare repository.
+ *
+ * The patch is applied in a temporary detached worktree, and the branch
+ * is moved with a compare-and-swap against the tip the suggestions were
+ * made on.
+ */
+export async function commitSuggestions(
+  repoPath: string,
+  options: SuggestionCommitOptions
+): Promise<SuggestionCommitResult> {
+  const ref = `refs/heads/${options.branch}`;
+  const headSha = await resolveRef(repoPath, ref);
+  if (headSha !== options.expectedSha) {
+    return {
+      success: false,
+      sha: undefined,
+      filesChanged: [],
+      message: `${options.branch} has new commits since the suggestions were made`,
+    };
+  }
+
+  const byPath = new Map<string, SuggestedChange[]>();
+  for (const change of options.changes) {
+    byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+  }
+
+  const patches: string[] = [];
+  for (const [filePath, changes] of byPath) {
+    const content = await catFile(repoPath, `${headSha}:${filePath}`, "blob");
+    patches.push(buildSuggestionPatch(filePath, content, changes));
+  }
+
+  const worktreePath = await mkdtemp(path.join(tmpdir(), "gittic-suggestion-"));
+  await execFileAsync("git", [
+    "-C", repoPath, "worktree", "add", "--detach", "--force", worktreePath, headSha,
+  ]);
+
+  try {
+    const applied = await applyPatch(worktreePath, patches.join(""));
+    if (!applied.success) {
+      return { success: false, sha: undefined, filesChanged: [], message: applied.message };
+    }
+
+    await execFileAsync("git", [
+      "-C", worktreePath,
+      "-c", `user.name=${options.committer.name}`, "-c", `user.email=${options.committer.email}`,
+      "commit", "--no-verify", "-a",
+      "--author", `${options.author.name} <${options.author.email}>`,
+      "-m", options.message,
+    ]);
+    const { stdout } = await execFileAsync("git", ["-C", worktreePath, "rev-parse", "HEAD"]);
+    const sha = stdout.trim();
+
+    await updateRef(repoPath, ref, sha, headSha);
+
+    return {
+      success: true,
+      sha,
+      filesChanged: applied.filesPatched,
+      message: `Applied ${options.changes.length} suggestion(s) to ${options.branch}`,
+    };
+  } finally {
+    await execFileAsync("git", [
+      "-C", repoPath, "worktree", "remove", "--force", worktreePath,
+    ]).catch(() => undefined);
+    await rm(worktreePath, { recursive: true, force: true });
+    await execFileAsync("git", ["-C", repoPath, "worktree", "prune"]).catch(() => undefined);
+  }
+}
+
+function findLastIndex(lines: string[], predicate: (line: string) => boolean): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (predicate(lines[i])) return i;
+  }
+  return -1;
+}
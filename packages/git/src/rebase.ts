@@ -1,5 +1,6 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { cherryPickMultiple } from "./cherry-pick.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -200,3 +201,51 @@ export async function getRebaseStatus(
     onto: ontoOut.trim() || undefined,
   };
 }
+
+/**
+ * List the non-merge commits reachable from head but not from base,
+ * oldest first, in the order they would be replayed by a rebase.
+ */
+export async function listReplayCommits(
+  repoPath: string,
+  base: string,
+  head: string
+): Promise<string[]> {
+  const { stdout } = await execFileAsync("git", [
+    "-C", repoPath, "rev-list", "--reverse", "--no-merges", `${base}..${head}`,
+  ]);
+  return stdout.trim().split("\n").filter(Boolean);
+}
+
+/**
+ * Replay commits one by one on top of the branch checked out in a
+ * working tree. Every replayed commit gets a new SHA; authorship is kept.
+ */
+export async function replayCommits(
+  worktreePath: string,
+  shas: string[],
+  committer: { name: string; email: string }
+): Promise<RebaseResult> {
+  const results = await cherryPickMultiple(worktreePath, shas, committer);
+  const failed = results.find((result) => !result.success);
+
+  if (failed) {
+    return {
+      success: false,
+      currentSha: undefined,
+      conflicts: failed.conflicts,
+      message: `Rebase failed after ${results.length - 1} of ${shas.length} commit(s): ${failed.message}`,
+    };
+  }
+
+  const { stdout } = await execFileAsync("git", [
+    "-C", worktreePath, "rev-parse", "HEAD",
+  ]);
+
+  return {
+    success: true,
+    currentSha: stdout.trim(),
+    conflicts: [],
+    message: `Replayed ${shas.length} commit(s)`,
+  };
+}
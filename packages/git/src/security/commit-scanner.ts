@@ -0,0 +1,84 @@
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { createDiffScanner } from "./secret-scanner.js";
+import type { SecretMatch, SecretPattern } from "./secret-scanner.js";
+
+/** A secret found in a specific commit. */
+export interface CommitSecretMatch extends SecretMatch {
+  commit: string;
+}
+
+/** Options for scanning commits for secrets. */
+export interface CommitScanOptions {
+  /** Environment for git, e.g. to read quarantined push objects. */
+  env?: NodeJS.ProcessEnv;
+  /** Patterns checked in addition to the built-in ones. */
+  patterns?: SecretPattern[];
+}
+
+const COMMIT_MARKER = "\0commit ";
+
+/**
+ * Scan the patches of every commit selected by `revisions` for secrets.
+ * Output is streamed so full-history scans do not buffer the whole log.
+ */
+export function scanCommits(
+  repoPath: string,
+  revisions: string[],
+  options: CommitScanOptions = {}
+): Promise<CommitSecretMatch[]> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("git", [
+      "-C", repoPath, "log", "-p", "--no-color", "--no-ext-diff", "--no-merges",
+      "--format=%x00commit %H", ...revisions,
+    ], { env: options.env });
+
+    const matches: CommitSecretMatch[] = [];
+    let commit = "";
+    let scanner = createDiffScanner(options.patterns);
+    let stderr = "";
+
+    const lines = createInterface({ input: proc.stdout, crlfDelay: Infinity });
+    lines.on("line", (line) => {
+      if (line.startsWith(COMMIT_MARKER)) {
+        commit = line.slice(COMMIT_MARKER.length).trim();
+        scanner = createDiffScanner(options.patterns);
+        return;
+      }
+      for (const match of scanner.scanLine(line)) {
+        matches.push({ ...match, commit });
+      }
+    });
+
+    proc.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code === 0) resolve(matches);
+      else reject(new Error(`git log failed: ${stderr.trim()}`));
+    });
+  });
+}
+
+/**
+ * Scan the commits a push introduces: everything reachable from
+ * `newSha` that no existing ref already points at.
+ */
+export function scanPushedCommits(
+  repoPath: string,
+  newSha: string,
+  options: CommitScanOptions = {}
+): Promise<CommitSecretMatch[]> {
+  return scanCommits(repoPath, [newSha, "--not", "--all"], options);
+}
+
+/**
+ * Scan every commit reachable from any ref in the repository.
+ */
+export function scanRepositoryHistory(
+  repoPath: string,
+  options: CommitScanOptions = {}
+): Promise<CommitSecretMatch[]> {
+  return scanCommits(repoPath, ["--all"], options);
+}
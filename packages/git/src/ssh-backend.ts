@@ -0,0 +1,210 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import type { Readable, Writable } from "node:stream";
+import {
+  DEFAULT_MAX_RECEIVE_PACK_BYTES,
+  buildPreReceiveRejection,
+  landedUpdates,
+  parseReceivePackRequest,
+  withQuarantinedObjects,
+} from "./hooks/receive-pack-stage.js";
+import type { GitHttpOptions } from "./http-backend.js";
+
+const ZERO_SHA = "0000000000000000000000000000000000000000";
+
+/** The channel a git command runs over (an SSH exec channel). */
+export interface GitSshStreams {
+  /** Data sent by the client. */
+  input: Readable;
+  /** Protocol output for the client. */
+  output: Writable;
+  /** Diagnostics shown to the user as `remote:` lines. */
+  stderr?: Writable;
+}
+
+/** Optional behaviour for {@link serveGitSsh}. */
+export interface GitSshOptions extends GitHttpOptions {
+  /** Value of the client's `GIT_PROTOCOL` environment variable (e.g. `version=2`). */
+  protocol?: string;
+}
+
+/**
+ * Serve git-upload-pack or git-receive-pack over a bidirectional channel,
+ * as run by `git clone`/`git push` over SSH. Pushes go through the same
+ * pre-receive and post-receive stage as {@link handleGitHttpRequest}.
+ * Resolves with the exit status to report to the client; the caller
+ * closes the channel.
+ */
+export async function serveGitSsh(
+  repoPath: string,
+  service: "git-upload-pack" | "git-receive-pack",
+  streams: GitSshStreams,
+  options: GitSshOptions = {}
+): Promise<number> {
+  if (service === "git-receive-pack" && (options.preReceive || options.postReceive)) {
+    return receiveWithHooks(repoPath, streams, options);
+  }
+
+  const env = options.protocol ? { ...process.env, GIT_PROTOCOL: options.protocol } : process.env;
+  return runService(spawn(service, [repoPath], { env }), streams, streams.input);
+}
+
+/**
+ * Advertise refs, buffer the client's commands and pack, run the
+ * pre-receive handler against the quarantined objects and only then
+ * hand the push to git-receive-pack.
+ */
+async function receiveWithHooks(
+  repoPath: string,
+  streams: GitSshStreams,
+  options: GitSshOptions
+): Promise<number> {
+  const advertised = await runService(
+    spawn("git-receive-pack", ["--advertise-refs", "--stateless-rpc", repoPath]),
+    streams,
+    null
+  );
+  if (advertised !== 0) return advertised;
+
+  const maxBytes = options.maxReceivePackBytes ?? DEFAULT_MAX_RECEIVE_PACK_BYTES;
+  const body = await readReceivePackRequest(streams.input, maxBytes);
+  if (!body) {
+    streams.stderr?.write(`Push exceeds the ${maxBytes} byte limit\n`);
+    return 1;
+  }
+  if (body.length <= 4) {
+    // Nothing to update: the client only sent a flush packet
+    return 0;
+  }
+
+  const request = parseReceivePackRequest(body);
+  const preReceive = options.preReceive;
+  const results = preReceive
+    ? await withQuarantinedObjects(repoPath, request.pack, (env) =>
+      preReceive(repoPath, request.updates, env)
+    )
+    : [];
+
+  if (results.some((result) => !result.allowed)) {
+    streams.output.write(buildPreReceiveRejection(results, request.capabilities));
+    return 0;
+  }
+
+  const proc = spawn("git-receive-pack", ["--stateless-rpc", repoPath]);
+  proc.stdin?.on("error", () => undefined);
+  proc.stdin?.end(body);
+  const code = await runService(proc, streams, null);
+
+  const postReceive = options.postReceive;
+  if (postReceive && code === 0) {
+    landedUpdates(repoPath, request.updates)
+      .then((landed) => (landed.length > 0 ? postReceive(repoPath, landed) : undefined))
+      .catch((err: unknown) => console.error("post-receive failed:", err));
+  }
+
+  return code;
+}
+
+/**
+ * Wire a git process to the channel and resolve with its exit status.
+ * The channel's output is left open for the caller.
+ */
+function runService(proc: ChildProcess, streams: GitSshStreams, input: Readable | null): Promise<number> {
+  return new Promise((resolve) => {
+    if (input && proc.stdin) {
+      proc.stdin.on("error", () => undefined);
+      input.pipe(proc.stdin);
+    }
+    proc.stdout?.pipe(streams.output, { end: false });
+    proc.stderr?.on("data", (data: Buffer) => {
+      if (streams.stderr) streams.stderr.write(data);
+      else console.error("git stderr:", data.toString());
+    });
+    proc.on("error", (err) => {
+      console.error("git process failed:", err);
+      resolve(1);
+    });
+    proc.on("close", (code) => {
+      if (input && proc.stdin) input.unpipe(proc.stdin);
+      resolve(code ?? 1);
+    });
+  });
+}
+
+/**
+ * Read a receive-pack request from a stateful connection. Delete-only
+ * pushes end after the command list; pushes with a pack end when the
+ * client closes its side of the channel. Resolves with null once the
+ * request grows past `maxBytes`.
+ */
+function readReceivePackRequest(input: Readable, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const stop = (body: Buffer | null) => {
+      input.off("data", onData);
+      input.off("end", finish);
+      input.off("close", finish);
+      input.off("error", onError);
+      input.pause();
+      resolve(body);
+    };
+    const finish = () => stop(Buffer.concat(chunks));
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stop(null);
+        return;
+      }
+      chunks.push(chunk);
+      if (isCompleteWithoutPack(Buffer.concat(chunks))) finish();
+    };
+    const onError = (err: Error) => reject(err);
+
+    input.on("data", onData);
+    input.on("end", finish);
+    input.on("close", finish);
+    input.on("error", onError);
+    input.resume();
+  });
+}
+
+/**
+ * Whether `body` holds a full command list that needs no pack: an empty
+ * request or one that only deletes refs.
+ */
+function isCompleteWithoutPack(body: Buffer): boolean {
+  const commands = readPktSection(body, 0);
+  if (!commands) return false;
+  if (commands.lines.length === 0) return true;
+
+  const first = commands.lines[0];
+  const capabilities = first.includes("\0") ? first.slice(first.indexOf("\0") + 1).split(" ") : [];
+  if (capabilities.includes("push-options") && !readPktSection(body, commands.offset)) {
+    return false;
+  }
+
+  return commands.lines.every((line) => {
+    const command = line.split("\0")[0];
+    return command.startsWith("shallow ") || command.split(" ")[1] === ZERO_SHA;
+  });
+}
+
+/**
+ * Read pkt-lines up to a flush packet, or null if the section is not
+ * complete yet.
+ */
+function readPktSection(body: Buffer, offset: number): { lines: string[]; offset: number } | null {
+  const lines: string[] = [];
+
+  while (offset + 4 <= body.length) {
+    const length = parseInt(body.toString("ascii", offset, offset + 4), 16);
+    if (Number.isNaN(length)) return null;
+    if (length === 0) return { lines, offset: offset + 4 };
+    if (offset + length > body.length) return null;
+    lines.push(body.toString("utf8", offset + 4, offset + length).replace(/\n$/, ""));
+    offset += length;
+  }
+
+  return null;
+}
@@ -112,3 +112,18 @@ export const RESOURCE_LIMITS = {
   /** Maximum concurrent pipeline runs per project. */
   MAX_CONCURRENT_PIPELINES: 5,
 } as const;
+
+/**
+ * Storage quota per subscription tier, in bytes. Matches the storage
+ * advertised on each plan; Git LFS objects count against it.
+ */
+export const STORAGE_LIMITS = {
+  /** Free plan (10 GB). */
+  free: 10 * 1024 ** 3,
+  /** Pro plan (100 GB). */
+  pro: 100 * 1024 ** 3,
+  /** Team plan (500 GB). */
+  team: 500 * 1024 ** 3,
+  /** Enterprise plan (2 TB). */
+  enterprise: 2000 * 1024 ** 3,
+} as const;
@@ -147,3 +147,34 @@ export type ClusterHealthChangedEvent = BaseEvent<ClusterHealthChangedPayload>;
  * Overall health status of the cluster.
  */
 export type ClusterHealthStatus = "healthy" | "degraded" | "critical" | "unknown";
+
+/**
+ * Payload for node registry changes made through the cluster API.
+ */
+export interface ClusterNodeStatusPayload {
+  /** ID of the cluster node. */
+  nodeId: string;
+  /** Name the node registered with. */
+  name: string;
+  /** Status of the node after the change. */
+  status: string;
+}
+
+/**
+ * Event emitted when a node registers, deregisters, is removed, or is
+ * set to draining or updating.
+ */
+export type ClusterNodeStatusEvent = BaseEvent<ClusterNodeStatusPayload>;
+
+/**
+ * Payload for a request to update every cluster node.
+ */
+export interface ClusterUpdateRequestedPayload {
+  /** Number of nodes asked to update. */
+  nodesUpdated: number;
+}
+
+/**
+ * Event emitted when an administrator asks all nodes to update.
+ */
+export type ClusterUpdateRequestedEvent = BaseEvent<ClusterUpdateRequestedPayload>;
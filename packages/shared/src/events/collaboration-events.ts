@@ -0,0 +1,190 @@
+/**
+ * Pull request, issue, comment, discussion and direct message event types
+ * for repository collaboration.
+ * @module events/collaboration-events
+ */
+
+import type { BaseEvent } from "./event-types.js";
+
+/**
+ * Payload for pull request lifecycle events.
+ */
+export interface PullRequestEventPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the pull request. */
+  pullRequestId: string;
+  /** Pull request number within the repository. */
+  number: number;
+  /** Title of the pull request. */
+  title: string;
+  /** State after the change. */
+  state: "open" | "closed" | "merged";
+  /** ID of the pull request author. */
+  authorId: string;
+  /** Branch the changes merge into. */
+  baseBranch: string;
+  /** Branch the changes come from. */
+  headBranch: string;
+  /** SHA of the merge commit (for merged pull requests). */
+  mergeCommitSha?: string;
+  /** Head commit the branch moved to (for synchronize). */
+  headSha?: string;
+  /** Fields that were updated (for edits). */
+  updatedFields?: string[];
+  /** Label added (for labeled). */
+  label?: string;
+  /** ID of the user assigned (for assigned). */
+  assigneeId?: string;
+}
+
+/**
+ * Event emitted when a pull request is opened.
+ */
+export type PullRequestOpenedEvent = BaseEvent<PullRequestEventPayload>;
+
+/**
+ * Event emitted when a pull request is edited, closed or reopened.
+ */
+export type PullRequestUpdatedEvent = BaseEvent<PullRequestEventPayload>;
+
+/**
+ * Event emitted when new commits are pushed to a pull request's head branch.
+ */
+export type PullRequestSynchronizeEvent = BaseEvent<PullRequestEventPayload>;
+
+/**
+ * Event emitted when a pull request is merged.
+ */
+export type PullRequestMergedEvent = BaseEvent<PullRequestEventPayload>;
+
+/**
+ * Payload for review thread events on a pull request.
+ */
+export interface ReviewThreadPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the pull request. */
+  pullRequestId: string;
+  /** ID of the review thread. */
+  threadId: string;
+  /** ID of the comment (for deleted comments). */
+  commentId?: string;
+}
+
+/**
+ * Event emitted when a review thread is resolved or unresolved, or one of
+ * its comments is deleted.
+ */
+export type ReviewThreadEvent = BaseEvent<ReviewThreadPayload>;
+
+/**
+ * Payload for issue lifecycle events.
+ */
+export interface IssueEventPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the issue. */
+  issueId: string;
+  /** Issue number within the repository. */
+  number: number;
+  /** Title of the issue. */
+  title: string;
+  /** State after the change. */
+  state: "open" | "closed";
+  /** ID of the issue author. */
+  authorId: string;
+  /** Fields that were updated (for edits). */
+  updatedFields?: string[];
+  /** Label added or removed (for labeled and unlabeled). */
+  label?: string;
+  /** ID of the user assigned or unassigned (for assigned and unassigned). */
+  assigneeId?: string;
+}
+
+/**
+ * Event emitted when an issue is opened.
+ */
+export type IssueOpenedEvent = BaseEvent<IssueEventPayload>;
+
+/**
+ * Event emitted when an issue is edited, closed or reopened.
+ */
+export type IssueUpdatedEvent = BaseEvent<IssueEventPayload>;
+
+/**
+ * Payload for comments on issues and pull requests.
+ */
+export interface CommentCreatedPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the comment. */
+  commentId: string;
+  /** Kind of thread the comment was added to. */
+  target: CommentTarget;
+  /** ID of the issue or pull request. */
+  targetId: string;
+  /** Number of the issue or pull request. */
+  number: number;
+  /** Title of the issue or pull request. */
+  title: string;
+  /** ID of the issue or pull request author. */
+  targetAuthorId: string;
+  /** ID of the comment author. */
+  authorId: string;
+  /** Comment body (Markdown). */
+  body: string;
+}
+
+/**
+ * Event emitted when a comment is added to an issue or pull request.
+ */
+export type CommentCreatedEvent = BaseEvent<CommentCreatedPayload>;
+
+/**
+ * Threads that accept comments.
+ */
+export type CommentTarget = "issue" | "pull_request";
+
+/**
+ * Payload for repository discussion events.
+ */
+export interface DiscussionEventPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the discussion. */
+  discussionId: string;
+  /** Discussion number within the repository. */
+  number: number;
+  /** Title of the discussion. */
+  title: string;
+  /** ID of the discussion author. */
+  authorId: string;
+  /** Fields that were updated (for edits). */
+  updatedFields?: string[];
+  /** ID of the comment (for comments). */
+  commentId?: string;
+}
+
+/**
+ * Event emitted when a discussion is created, edited or commented on.
+ */
+export type DiscussionEvent = BaseEvent<DiscussionEventPayload>;
+
+/**
+ * Payload for direct message events.
+ */
+export interface ChatEventPayload {
+  /** ID of the conversation. */
+  conversationId: string;
+  /** ID of the message (for message and reaction events). */
+  messageId?: string;
+  /** Emoji reacted with (for reaction events). */
+  emoji?: string;
+}
+
+/**
+ * Event emitted when a conversation is started, or a message or reaction
+ * is added, edited or removed.
+ */
+export type ChatEvent = BaseEvent<ChatEventPayload>;
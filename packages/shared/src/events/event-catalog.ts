@@ -0,0 +1,217 @@
+/**
+ * Catalog of the domain events published on the platform event bus,
+ * mapping each event type to its payload.
+ * @module events/event-catalog
+ */
+
+import type { BaseEvent } from "./event-types.js";
+import type { GitBranchPayload, GitPushPayload, GitTagPayload } from "./git-events.js";
+import type {
+  ActionsValuePayload,
+  EnvironmentPayload,
+  PipelineRunPayload,
+  WorkflowJobPayload,
+  WorkflowRunActionPayload,
+  WorkflowRunPayload,
+  WorkflowSchedulePayload,
+  WorkflowStoragePayload,
+} from "./pipeline-events.js";
+import type {
+  ProjectCreatedPayload,
+  ProjectDeletedPayload,
+  ProjectMemberPayload,
+  ProjectUpdatedPayload,
+} from "./project-events.js";
+import type {
+  BranchProtectionRulePayload,
+  DeployKeyPayload,
+  LfsObjectPayload,
+  ProjectStarPayload,
+  RepositoryFilePayload,
+  RepositoryMirrorPayload,
+  RepositoryWebhookPayload,
+  SecretScanningPayload,
+  TerminalSessionPayload,
+} from "./repository-events.js";
+import type {
+  UserCredentialPayload,
+  UserDeletedPayload,
+  UserFollowPayload,
+  UserLoginPayload,
+  UserLogoutPayload,
+  UserPaymentMethodPayload,
+  UserProfileUpdatedPayload,
+  UserRegisteredPayload,
+  UserRoleChangedPayload,
+  UserSanctionPayload,
+} from "./user-events.js";
+import type {
+  ChatEventPayload,
+  CommentCreatedPayload,
+  DiscussionEventPayload,
+  IssueEventPayload,
+  PullRequestEventPayload,
+  ReviewThreadPayload,
+} from "./collaboration-events.js";
+import type {
+  OrganizationMemberPayload,
+  OrganizationPayload,
+  SecretPatternPayload,
+} from "./organization-events.js";
+import type {
+  AnnouncementPayload,
+  FeatureFlagPayload,
+  ModerationReportPayload,
+} from "./system-events.js";
+import type { ClusterNodeStatusPayload, ClusterUpdateRequestedPayload } from "./cluster-events.js";
+
+/**
+ * Payload type of every published event, keyed by event type.
+ */
+export interface PlatformEventMap {
+  "git.push": GitPushPayload;
+  "git.branch.created": GitBranchPayload;
+  "git.branch.deleted": GitBranchPayload;
+  "git.tag.created": GitTagPayload;
+  "git.tag.deleted": GitTagPayload;
+  "lfs.object.uploaded": LfsObjectPayload;
+  "pipeline.run.queued": PipelineRunPayload;
+  "pipeline.run.canceled": PipelineRunPayload;
+  "workflow_run.completed": WorkflowRunPayload;
+  "workflow_run.requested": WorkflowRunActionPayload;
+  "workflow_run.rerequested": WorkflowRunActionPayload;
+  "workflow_run.cancel_requested": WorkflowRunActionPayload;
+  "workflow_run.logs_deleted": WorkflowRunActionPayload;
+  "workflow_run.artifact.uploaded": WorkflowStoragePayload;
+  "workflow_run.artifact.deleted": WorkflowStoragePayload;
+  "workflow_job.completed": WorkflowJobPayload;
+  "workflow.schedule.created": WorkflowSchedulePayload;
+  "workflow.schedule.deleted": WorkflowSchedulePayload;
+  "workflow.schedule.toggled": WorkflowSchedulePayload;
+  "actions.cache.saved": WorkflowStoragePayload;
+  "actions.cache.deleted": WorkflowStoragePayload;
+  "actions.secret.updated": ActionsValuePayload;
+  "actions.secret.deleted": ActionsValuePayload;
+  "actions.variable.updated": ActionsValuePayload;
+  "actions.variable.deleted": ActionsValuePayload;
+  "environment.created": EnvironmentPayload;
+  "environment.updated": EnvironmentPayload;
+  "environment.deleted": EnvironmentPayload;
+  "environment.deployment.reviewed": EnvironmentPayload;
+  "environment.deployment.rollback_requested": EnvironmentPayload;
+  "project.created": ProjectCreatedPayload;
+  "project.updated": ProjectUpdatedPayload;
+  "project.deleted": ProjectDeletedPayload;
+  "project.settings.updated": ProjectUpdatedPayload;
+  "project.member.added": ProjectMemberPayload;
+  "project.member.role_changed": ProjectMemberPayload;
+  "project.member.removed": ProjectMemberPayload;
+  "project.starred": ProjectStarPayload;
+  "project.unstarred": ProjectStarPayload;
+  "project.branch_protection.created": BranchProtectionRulePayload;
+  "project.branch_protection.updated": BranchProtectionRulePayload;
+  "project.branch_protection.deleted": BranchProtectionRulePayload;
+  "project.webhook.created": RepositoryWebhookPayload;
+  "project.webhook.updated": RepositoryWebhookPayload;
+  "project.webhook.deleted": RepositoryWebhookPayload;
+  "project.webhook.pinged": RepositoryWebhookPayload;
+  "project.webhook.redelivered": RepositoryWebhookPayload;
+  "project.deploy_key.added": DeployKeyPayload;
+  "project.deploy_key.removed": DeployKeyPayload;
+  "project.mirror.created": RepositoryMirrorPayload;
+  "project.mirror.updated": RepositoryMirrorPayload;
+  "project.mirror.deleted": RepositoryMirrorPayload;
+  "project.mirror.synced": RepositoryMirrorPayload;
+  "project.file.written": RepositoryFilePayload;
+  "project.file.deleted": RepositoryFilePayload;
+  "project.secret_scanning.alert_updated": SecretScanningPayload;
+  "project.secret_scanning.scan_completed": SecretScanningPayload;
+  "project.secret_scanning.settings_updated": SecretScanningPayload;
+  "terminal.session.started": TerminalSessionPayload;
+  "terminal.session.closed": TerminalSessionPayload;
+  "terminal.command.executed": TerminalSessionPayload;
+  "pull_request.opened": PullRequestEventPayload;
+  "pull_request.edited": PullRequestEventPayload;
+  "pull_request.closed": PullRequestEventPayload;
+  "pull_request.reopened": PullRequestEventPayload;
+  "pull_request.synchronize": PullRequestEventPayload;
+  "pull_request.merged": PullRequestEventPayload;
+  "pull_request.labeled": PullRequestEventPayload;
+  "pull_request.assigned": PullRequestEventPayload;
+  "pull_request.enqueued": PullRequestEventPayload;
+  "pull_request.dequeued": PullRequestEventPayload;
+  "pull_request.review_thread.resolved": ReviewThreadPayload;
+  "pull_request.review_thread.unresolved": ReviewThreadPayload;
+  "pull_request.review_comment.deleted": ReviewThreadPayload;
+  "issue.opened": IssueEventPayload;
+  "issue.edited": IssueEventPayload;
+  "issue.closed": IssueEventPayload;
+  "issue.reopened": IssueEventPayload;
+  "issue.labeled": IssueEventPayload;
+  "issue.unlabeled": IssueEventPayload;
+  "issue.assigned": IssueEventPayload;
+  "issue.unassigned": IssueEventPayload;
+  "comment.created": CommentCreatedPayload;
+  "discussion.created": DiscussionEventPayload;
+  "discussion.edited": DiscussionEventPayload;
+  "discussion.comment.created": DiscussionEventPayload;
+  "chat.conversation.created": ChatEventPayload;
+  "chat.message.created": ChatEventPayload;
+  "chat.message.edited": ChatEventPayload;
+  "chat.message.deleted": ChatEventPayload;
+  "chat.reaction.added": ChatEventPayload;
+  "chat.reaction.removed": ChatEventPayload;
+  "user.registered": UserRegisteredPayload;
+  "user.login": UserLoginPayload;
+  "user.logout": UserLogoutPayload;
+  "user.profile.updated": UserProfileUpdatedPayload;
+  "user.deleted": UserDeletedPayload;
+  "user.role.changed": UserRoleChangedPayload;
+  "user.suspended": UserSanctionPayload;
+  "user.banned": UserSanctionPayload;
+  "user.followed": UserFollowPayload;
+  "user.unfollowed": UserFollowPayload;
+  "user.ssh_key.added": UserCredentialPayload;
+  "user.ssh_key.removed": UserCredentialPayload;
+  "user.token.created": UserCredentialPayload;
+  "user.token.revoked": UserCredentialPayload;
+  "user.payment_method.added": UserPaymentMethodPayload;
+  "user.payment_method.removed": UserPaymentMethodPayload;
+  "user.payment_method.default_changed": UserPaymentMethodPayload;
+  "organization.created": OrganizationPayload;
+  "organization.updated": OrganizationPayload;
+  "organization.deleted": OrganizationPayload;
+  "organization.member.added": OrganizationMemberPayload;
+  "organization.member.removed": OrganizationMemberPayload;
+  "organization.secret_pattern.created": SecretPatternPayload;
+  "organization.secret_pattern.deleted": SecretPatternPayload;
+  "organization.branch_protection.created": BranchProtectionRulePayload;
+  "organization.branch_protection.updated": BranchProtectionRulePayload;
+  "organization.branch_protection.deleted": BranchProtectionRulePayload;
+  "announcement.created": AnnouncementPayload;
+  "announcement.updated": AnnouncementPayload;
+  "announcement.deleted": AnnouncementPayload;
+  "feature_flag.updated": FeatureFlagPayload;
+  "moderation.report.created": ModerationReportPayload;
+  "moderation.report.updated": ModerationReportPayload;
+  "moderation.report.resolved": ModerationReportPayload;
+  "cluster.node.registered": ClusterNodeStatusPayload;
+  "cluster.node.deregistered": ClusterNodeStatusPayload;
+  "cluster.node.removed": ClusterNodeStatusPayload;
+  "cluster.node.draining": ClusterNodeStatusPayload;
+  "cluster.node.updating": ClusterNodeStatusPayload;
+  "cluster.update_requested": ClusterUpdateRequestedPayload;
+}
+
+/**
+ * A published event type.
+ */
+export type PlatformEventType = keyof PlatformEventMap;
+
+/**
+ * A published event with its payload narrowed by type.
+ * @template T - The event type.
+ */
+export type PlatformEvent<T extends PlatformEventType = PlatformEventType> = {
+  [K in T]: BaseEvent<PlatformEventMap[K]> & { type: K };
+}[T];
@@ -0,0 +1,57 @@
+/**
+ * Organization event types for organization lifecycle and membership.
+ * @module events/organization-events
+ */
+
+import type { BaseEvent } from "./event-types.js";
+
+/**
+ * Payload for organization lifecycle events.
+ */
+export interface OrganizationPayload {
+  /** ID of the organization. */
+  organizationId: string;
+  /** Name of the organization. */
+  name: string;
+  /** Fields that were updated (for updates). */
+  updatedFields?: string[];
+}
+
+/**
+ * Event emitted when an organization is created, updated or deleted.
+ */
+export type OrganizationEvent = BaseEvent<OrganizationPayload>;
+
+/**
+ * Payload for organization membership events.
+ */
+export interface OrganizationMemberPayload {
+  /** ID of the organization. */
+  organizationId: string;
+  /** ID of the member. */
+  userId: string;
+  /** Role assigned (for added members). */
+  role?: string;
+}
+
+/**
+ * Event emitted when a member is added to or removed from an organization.
+ */
+export type OrganizationMemberEvent = BaseEvent<OrganizationMemberPayload>;
+
+/**
+ * Payload for custom secret scanning pattern events.
+ */
+export interface SecretPatternPayload {
+  /** ID of the organization. */
+  organizationId: string;
+  /** ID of the pattern. */
+  patternId: string;
+  /** Name of the pattern. */
+  name: string;
+}
+
+/**
+ * Event emitted when a custom secret pattern is created or deleted.
+ */
+export type SecretPatternEvent = BaseEvent<SecretPatternPayload>;
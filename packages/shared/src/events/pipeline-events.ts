@@ -3,6 +3,7 @@
  * @module events/pipeline-events
  */
 
+import type { SecretScope } from "../models/secret.js";
 import type { BaseEvent } from "./event-types.js";
 
 /**
@@ -51,6 +52,31 @@ export type PipelineRunFailedEvent = BaseEvent<PipelineRunPayload>;
  */
 export type PipelineRunCanceledEvent = BaseEvent<PipelineRunPayload>;
 
+/**
+ * Payload for workflow run lifecycle events.
+ */
+export interface WorkflowRunPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the run. */
+  runId: string;
+  /** Name of the workflow. */
+  workflowName: string;
+  /** Event that started the run (e.g., "push", "merge_group"). */
+  event: string;
+  /** Branch the run checked out. */
+  headBranch: string;
+  /** Commit the run was started for. */
+  headSha?: string;
+  /** How the run ended: "success", "failure" or "cancelled". */
+  conclusion: string;
+}
+
+/**
+ * Event emitted when a workflow run completes, whatever its conclusion.
+ */
+export type WorkflowRunCompletedEvent = BaseEvent<WorkflowRunPayload>;
+
 /**
  * What triggered the pipeline.
  */
@@ -132,3 +158,119 @@ export interface PipelineArtifactPayload {
  * Event emitted when a pipeline artifact is published.
  */
 export type PipelineArtifactPublishedEvent = BaseEvent<PipelineArtifactPayload>;
+
+/**
+ * Payload for actions taken on a workflow run through the API.
+ */
+export interface WorkflowRunActionPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the run acted on, or started (for requested and rerequested). */
+  runId: string;
+  /** Name of the workflow. */
+  workflowName: string;
+  /** ID of the run being re-run (for rerequested). */
+  previousRunId?: string;
+}
+
+/**
+ * Event emitted when a run is requested, re-run or cancelled, or its logs
+ * are deleted.
+ */
+export type WorkflowRunActionEvent = BaseEvent<WorkflowRunActionPayload>;
+
+/**
+ * Payload for a runner reporting a finished job.
+ */
+export interface WorkflowJobPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the run. */
+  runId: string;
+  /** ID of the job. */
+  jobId: string;
+  /** Status the runner reported. */
+  status: string;
+}
+
+/**
+ * Event emitted when a runner reports that a job finished.
+ */
+export type WorkflowJobCompletedEvent = BaseEvent<WorkflowJobPayload>;
+
+/**
+ * Payload for workflow artifact and dependency cache events.
+ */
+export interface WorkflowStoragePayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** ID of the artifact or cache. */
+  id: string;
+  /** Artifact name or cache key. */
+  name: string;
+  /** Size in bytes. */
+  sizeBytes: number;
+  /** ID of the run (for artifacts). */
+  runId?: string;
+}
+
+/**
+ * Event emitted when an artifact or cache is uploaded or deleted.
+ */
+export type WorkflowStorageEvent = BaseEvent<WorkflowStoragePayload>;
+
+/**
+ * Payload for workflow schedule events.
+ */
+export interface WorkflowSchedulePayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** Path of the workflow file. */
+  workflowPath: string;
+  /** Whether the schedule is enabled (for toggles). */
+  enabled?: boolean;
+}
+
+/**
+ * Event emitted when a workflow schedule is created, deleted or toggled.
+ */
+export type WorkflowScheduleEvent = BaseEvent<WorkflowSchedulePayload>;
+
+/**
+ * Payload for deployment environment events.
+ */
+export interface EnvironmentPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** Name of the environment. */
+  environment: string;
+  /** ID of the deployment (for deployment events). */
+  deploymentId?: string;
+  /** Run deploying (for reviews) or redeploying (for rollbacks). */
+  runId?: string;
+  /** Review decision (for reviewed deployments). */
+  state?: "approved" | "rejected";
+}
+
+/**
+ * Event emitted when an environment is created, updated or deleted, or a
+ * deployment to it is reviewed or rolled back.
+ */
+export type EnvironmentEvent = BaseEvent<EnvironmentPayload>;
+
+/**
+ * Payload for Actions secret and variable events. Values are never included.
+ */
+export interface ActionsValuePayload {
+  /** Level the value is defined at. */
+  scope: SecretScope;
+  /** ID of the organization, repository, workflow or environment. */
+  scopeId: string;
+  /** Name of the secret or variable. */
+  name: string;
+}
+
+/**
+ * Event emitted when a secret or variable is set or deleted.
+ */
+export type ActionsValueEvent = BaseEvent<ActionsValuePayload>;
@@ -0,0 +1,178 @@
+/**
+ * Repository configuration event types: settings, collaborators, branch
+ * protection, webhooks, deploy keys, mirrors, files, stars, LFS objects,
+ * secret scanning and editor terminal sessions.
+ * @module events/repository-events
+ */
+
+import type { BaseEvent } from "./event-types.js";
+
+/**
+ * Payload for starring and unstarring a repository.
+ */
+export interface ProjectStarPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** ID of the user who starred or unstarred it. */
+  userId: string;
+}
+
+/**
+ * Event emitted when a user stars or unstars a repository.
+ */
+export type ProjectStarEvent = BaseEvent<ProjectStarPayload>;
+
+/**
+ * Payload for branch protection rule events, at repository or
+ * organization level.
+ */
+export interface BranchProtectionRulePayload {
+  /** ID of the rule. */
+  ruleId: string;
+  /** Branch name pattern the rule applies to. */
+  pattern: string;
+  /** Level the rule is defined at. */
+  scope: "project" | "organization";
+  /** ID of the project or organization. */
+  scopeId: string;
+}
+
+/**
+ * Event emitted when a branch protection rule is created, updated or deleted.
+ */
+export type BranchProtectionRuleEvent = BaseEvent<BranchProtectionRulePayload>;
+
+/**
+ * Payload for repository webhook configuration events.
+ */
+export interface RepositoryWebhookPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** ID of the webhook. */
+  webhookId: string;
+  /** URL the webhook delivers to. */
+  url: string;
+  /** ID of the delivery sent (for pings and redeliveries). */
+  deliveryId?: string;
+}
+
+/**
+ * Event emitted when a webhook is created, updated, deleted, pinged or
+ * a delivery is sent again.
+ */
+export type RepositoryWebhookEvent = BaseEvent<RepositoryWebhookPayload>;
+
+/**
+ * Payload for deploy key events.
+ */
+export interface DeployKeyPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** ID of the deploy key. */
+  keyId: string;
+  /** Title of the key (for added keys). */
+  title?: string;
+  /** Whether the key is read-only (for added keys). */
+  readOnly?: boolean;
+}
+
+/**
+ * Event emitted when a deploy key is added or removed.
+ */
+export type DeployKeyEvent = BaseEvent<DeployKeyPayload>;
+
+/**
+ * Payload for repository mirror events.
+ */
+export interface RepositoryMirrorPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** ID of the mirror. */
+  mirrorId: string;
+  /** Whether the mirror pulls from or pushes to the remote. */
+  direction: string;
+  /** Outcome of the sync (for synced mirrors). */
+  status?: string;
+}
+
+/**
+ * Event emitted when a mirror is created, updated, deleted or synced.
+ */
+export type RepositoryMirrorEvent = BaseEvent<RepositoryMirrorPayload>;
+
+/**
+ * Payload for files written or deleted through the web editor.
+ */
+export interface RepositoryFilePayload {
+  /** ID of the project. */
+  projectId: string;
+  /** Branch the change was made on. */
+  branch: string;
+  /** Path of the file or directory, relative to the repository root. */
+  path: string;
+}
+
+/**
+ * Event emitted when a file is written or deleted through the API.
+ */
+export type RepositoryFileEvent = BaseEvent<RepositoryFilePayload>;
+
+/**
+ * Payload for an LFS object upload.
+ */
+export interface LfsObjectPayload {
+  /** ID of the repository. */
+  repositoryId: string;
+  /** SHA-256 object ID. */
+  oid: string;
+  /** Size of the object in bytes. */
+  size: number;
+}
+
+/**
+ * Event emitted when an LFS object is uploaded.
+ */
+export type LfsObjectUploadedEvent = BaseEvent<LfsObjectPayload>;
+
+/**
+ * Payload for secret scanning events.
+ */
+export interface SecretScanningPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** Number of the alert (for alert updates). */
+  alertNumber?: number;
+  /** State of the alert after the change (for alert updates). */
+  state?: string;
+  /** Number of matches found (for scans). */
+  matches?: number;
+  /** Number of new alerts recorded (for scans). */
+  newAlerts?: number;
+  /** Whether scanning is enabled (for settings updates). */
+  scanningEnabled?: boolean;
+  /** Whether push protection is enabled (for settings updates). */
+  pushProtection?: boolean;
+}
+
+/**
+ * Event emitted when an alert is updated, a history scan completes or the
+ * scanning settings change.
+ */
+export type SecretScanningEvent = BaseEvent<SecretScanningPayload>;
+
+/**
+ * Payload for editor terminal events.
+ */
+export interface TerminalSessionPayload {
+  /** ID of the project. */
+  projectId: string;
+  /** ID of the terminal session. */
+  sessionId: string;
+  /** Command line sent to the shell (for executed commands). */
+  command?: string;
+}
+
+/**
+ * Event emitted when a terminal session starts or closes, or runs a command.
+ */
+export type TerminalSessionEvent = BaseEvent<TerminalSessionPayload>;
@@ -151,3 +151,60 @@ export type SystemAlertSeverity = "info" | "warning" | "error" | "critical";
  * State of a system alert.
  */
 export type SystemAlertState = "firing" | "resolved" | "acknowledged" | "silenced";
+
+/**
+ * Payload for site announcement events.
+ */
+export interface AnnouncementPayload {
+  /** ID of the announcement. */
+  announcementId: string;
+  /** Title of the announcement. */
+  title: string;
+  /** Kind of announcement (e.g., "info", "warning"). */
+  type: string;
+}
+
+/**
+ * Event emitted when an announcement is created, updated or deleted.
+ */
+export type AnnouncementEvent = BaseEvent<AnnouncementPayload>;
+
+/**
+ * Payload for feature flag changes.
+ */
+export interface FeatureFlagPayload {
+  /** ID of the flag. */
+  flagId: string;
+  /** Name of the flag. */
+  name: string;
+  /** Whether the flag is enabled after the change. */
+  enabled: boolean;
+  /** Whether the change created the flag. */
+  created: boolean;
+}
+
+/**
+ * Event emitted when a feature flag is created or updated.
+ */
+export type FeatureFlagUpdatedEvent = BaseEvent<FeatureFlagPayload>;
+
+/**
+ * Payload for content moderation report events.
+ */
+export interface ModerationReportPayload {
+  /** ID of the report. */
+  reportId: string;
+  /** Status of the report after the change. */
+  status: string;
+  /** Kind of content reported (for created reports). */
+  targetType?: string;
+  /** ID of the reported content (for created reports). */
+  targetId?: string;
+  /** How the report was resolved (for resolved reports). */
+  resolution?: string;
+}
+
+/**
+ * Event emitted when a report is filed, changes status or is resolved.
+ */
+export type ModerationReportEvent = BaseEvent<ModerationReportPayload>;
@@ -127,3 +127,85 @@ export type UserDeletedEvent = BaseEvent<UserDeletedPayload>;
  * Reasons for account deletion.
  */
 export type AccountDeletionReason = "user_requested" | "admin_action" | "policy_violation" | "inactivity";
+
+/**
+ * Payload for a site administrator changing a user's role.
+ */
+export interface UserRoleChangedPayload {
+  /** ID of the user. */
+  userId: string;
+  /** Role after the change. */
+  role: string;
+  /** Role before the change. */
+  previousRole: string;
+}
+
+/**
+ * Event emitted when a user's site role changes.
+ */
+export type UserRoleChangedEvent = BaseEvent<UserRoleChangedPayload>;
+
+/**
+ * Payload for account suspensions and bans.
+ */
+export interface UserSanctionPayload {
+  /** ID of the user. */
+  userId: string;
+  /** Reason given by the administrator. */
+  reason?: string;
+  /** ISO-8601 end of the suspension (for suspensions). */
+  until?: string;
+}
+
+/**
+ * Event emitted when a user is suspended or banned.
+ */
+export type UserSanctionEvent = BaseEvent<UserSanctionPayload>;
+
+/**
+ * Payload for follow and unfollow events.
+ */
+export interface UserFollowPayload {
+  /** ID of the follower. */
+  userId: string;
+  /** ID of the followed user. */
+  followingId: string;
+}
+
+/**
+ * Event emitted when a user follows or unfollows another user.
+ */
+export type UserFollowEvent = BaseEvent<UserFollowPayload>;
+
+/**
+ * Payload for a user's credentials: SSH keys and access tokens.
+ */
+export interface UserCredentialPayload {
+  /** ID of the user. */
+  userId: string;
+  /** ID of the key or token. */
+  credentialId: string;
+  /** Title of the key or name of the token. */
+  name?: string;
+}
+
+/**
+ * Event emitted when an SSH key is added or removed, or an access token
+ * is created or revoked.
+ */
+export type UserCredentialEvent = BaseEvent<UserCredentialPayload>;
+
+/**
+ * Payload for payment method events.
+ */
+export interface UserPaymentMethodPayload {
+  /** ID of the user. */
+  userId: string;
+  /** ID of the payment method. */
+  paymentMethodId: string;
+}
+
+/**
+ * Event emitted when a payment method is added, removed or made the default.
+ */
+export type UserPaymentMethodEvent = BaseEvent<UserPaymentMethodPayload>;
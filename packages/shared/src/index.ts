@@ -30,6 +30,7 @@ export type {
   PullRequest,
   Review,
   BranchProtection,
+  BranchProtectionScope,
 } from "./project.js";
 
 // Cluster types
@@ -281,6 +282,20 @@ export type {
   PipelineStageCompletedEvent,
   PipelineArtifactPayload,
   PipelineArtifactPublishedEvent,
+  WorkflowRunPayload,
+  WorkflowRunCompletedEvent,
+  WorkflowRunActionPayload,
+  WorkflowRunActionEvent,
+  WorkflowJobPayload,
+  WorkflowJobCompletedEvent,
+  WorkflowStoragePayload,
+  WorkflowStorageEvent,
+  WorkflowSchedulePayload,
+  WorkflowScheduleEvent,
+  EnvironmentPayload,
+  EnvironmentEvent,
+  ActionsValuePayload,
+  ActionsValueEvent,
 } from "./events/pipeline-events.js";
 
 export type {
@@ -298,6 +313,16 @@ export type {
   UserDeletedPayload,
   UserDeletedEvent,
   AccountDeletionReason,
+  UserRoleChangedPayload,
+  UserRoleChangedEvent,
+  UserSanctionPayload,
+  UserSanctionEvent,
+  UserFollowPayload,
+  UserFollowEvent,
+  UserCredentialPayload,
+  UserCredentialEvent,
+  UserPaymentMethodPayload,
+  UserPaymentMethodEvent,
 } from "./events/user-events.js";
 
 export type {
@@ -315,6 +340,10 @@ export type {
   ClusterHealthChangedPayload,
   ClusterHealthChangedEvent,
   ClusterHealthStatus,
+  ClusterNodeStatusPayload,
+  ClusterNodeStatusEvent,
+  ClusterUpdateRequestedPayload,
+  ClusterUpdateRequestedEvent,
 } from "./events/cluster-events.js";
 
 export type {
@@ -334,6 +363,36 @@ export type {
   ProjectMemberAction,
 } from "./events/project-events.js";
 
+export type {
+  ProjectStarPayload,
+  ProjectStarEvent,
+  BranchProtectionRulePayload,
+  BranchProtectionRuleEvent,
+  RepositoryWebhookPayload,
+  RepositoryWebhookEvent,
+  DeployKeyPayload,
+  DeployKeyEvent,
+  RepositoryMirrorPayload,
+  RepositoryMirrorEvent,
+  RepositoryFilePayload,
+  RepositoryFileEvent,
+  LfsObjectPayload,
+  LfsObjectUploadedEvent,
+  SecretScanningPayload,
+  SecretScanningEvent,
+  TerminalSessionPayload,
+  TerminalSessionEvent,
+} from "./events/repository-events.js";
+
+export type {
+  OrganizationPayload,
+  OrganizationEvent,
+  OrganizationMemberPayload,
+  OrganizationMemberEvent,
+  SecretPatternPayload,
+  SecretPatternEvent,
+} from "./events/organization-events.js";
+
 export type {
   MaintenanceWindowPayload,
   MaintenanceWindowEvent,
@@ -351,8 +410,40 @@ export type {
   SystemAlertEvent,
   SystemAlertSeverity,
   SystemAlertState,
+  AnnouncementPayload,
+  AnnouncementEvent,
+  FeatureFlagPayload,
+  FeatureFlagUpdatedEvent,
+  ModerationReportPayload,
+  ModerationReportEvent,
 } from "./events/system-events.js";
 
+export type {
+  PullRequestEventPayload,
+  PullRequestOpenedEvent,
+  PullRequestUpdatedEvent,
+  PullRequestMergedEvent,
+  PullRequestSynchronizeEvent,
+  IssueEventPayload,
+  IssueOpenedEvent,
+  IssueUpdatedEvent,
+  CommentCreatedPayload,
+  CommentCreatedEvent,
+  CommentTarget,
+  ReviewThreadPayload,
+  ReviewThreadEvent,
+  DiscussionEventPayload,
+  DiscussionEvent,
+  ChatEventPayload,
+  ChatEvent,
+} from "./events/collaboration-events.js";
+
+export type {
+  PlatformEventMap,
+  PlatformEventType,
+  PlatformEvent,
+} from "./events/event-catalog.js";
+
 // ── Permissions ────────────────────────────────────────────────────────
 export type {
   PermissionScope,
@@ -526,6 +617,7 @@ export {
   UPLOAD_LIMITS,
   RATE_LIMITS,
   RESOURCE_LIMITS,
+  STORAGE_LIMITS,
 } from "./constants/limits.js";
 
 export {
@@ -44,15 +44,41 @@ export interface Review {
   createdAt: string;
 }
 
-/** Branch protection rule */
+/** Where a branch protection rule is defined */
+export type BranchProtectionScope = "project" | "organization";
+
+/**
+ * Branch protection rule. Rules apply to the branches matching their
+ * pattern, in one repository or in every repository of an organization.
+ */
 export interface BranchProtection {
   id: string;
-  projectId: string;
+  scope: BranchProtectionScope;
+  /** Project or organization id */
+  scopeId: string;
+  /** Branch name pattern; `*` matches within a path segment, `**` across segments */
   pattern: string;
-  requireReviews: boolean;
-  minReviewers: number;
+  requirePullRequest: boolean;
+  requiredApprovingReviewCount: number;
+  dismissStaleReviews: boolean;
+  /** Require an approval from an owner of each CODEOWNERS area a pull request changes */
+  requireCodeOwnerReviews: boolean;
   requireStatusChecks: boolean;
-  allowForcePush: boolean;
-  allowDeletion: boolean;
+  requiredStatusChecks: string[];
+  /** Apply the pull request requirement and push restrictions to repository admins too */
+  enforceAdmins: boolean;
+  requireLinearHistory: boolean;
+  requireSignedCommits: boolean;
+  /** Land pull requests through a merge queue that tests them against the branch ahead of them */
+  requireMergeQueue: boolean;
+  allowForcePushes: boolean;
+  allowDeletions: boolean;
+  /** Only users in `pushAllowances` may update matching branches */
+  restrictPushes: boolean;
+  /** User ids allowed to push when pushes are restricted */
+  pushAllowances: string[];
+  /** User ids the rule does not apply to */
+  bypassActors: string[];
   createdAt: string;
+  updatedAt: string;
 }